@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "chat_sessions" ADD COLUMN     "activeBranchId" TEXT,
+ADD COLUMN     "branchForkMessageId" TEXT;
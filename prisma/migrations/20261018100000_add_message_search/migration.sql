@@ -0,0 +1,34 @@
+-- AlterTable
+ALTER TABLE "messages" ADD COLUMN     "searchVector" tsvector GENERATED ALWAYS AS (to_tsvector('simple'::regconfig, coalesce("content", ''))) STORED;
+
+-- CreateTable
+CREATE TABLE "message_embeddings" (
+    "id" TEXT NOT NULL,
+    "messageId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "embedding" JSONB NOT NULL,
+    "dimensions" INTEGER NOT NULL,
+    "model" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "message_embeddings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "messages_searchVector_idx" ON "messages" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "message_embeddings_messageId_key" ON "message_embeddings"("messageId");
+
+-- CreateIndex
+CREATE INDEX "message_embeddings_userId_idx" ON "message_embeddings"("userId");
+
+-- CreateIndex
+CREATE INDEX "message_embeddings_model_idx" ON "message_embeddings"("model");
+
+-- AddForeignKey
+ALTER TABLE "message_embeddings" ADD CONSTRAINT "message_embeddings_messageId_fkey" FOREIGN KEY ("messageId") REFERENCES "messages"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "message_embeddings" ADD CONSTRAINT "message_embeddings_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,44 @@
+-- CreateTable
+CREATE TABLE "kill_switch_overrides" (
+    "id" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "value" JSONB NOT NULL,
+    "reason" TEXT NOT NULL,
+    "changedBy" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "kill_switch_overrides_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "audit_logs" (
+    "id" TEXT NOT NULL,
+    "eventType" TEXT NOT NULL,
+    "userId" TEXT,
+    "email" TEXT,
+    "ipAddress" TEXT,
+    "userAgent" TEXT,
+    "success" BOOLEAN NOT NULL,
+    "message" TEXT,
+    "metadata" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "audit_logs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "kill_switch_overrides_key_key" ON "kill_switch_overrides"("key");
+
+-- CreateIndex
+CREATE INDEX "kill_switch_overrides_expiresAt_idx" ON "kill_switch_overrides"("expiresAt");
+
+-- CreateIndex
+CREATE INDEX "audit_logs_eventType_idx" ON "audit_logs"("eventType");
+
+-- CreateIndex
+CREATE INDEX "audit_logs_userId_idx" ON "audit_logs"("userId");
+
+-- CreateIndex
+CREATE INDEX "audit_logs_createdAt_idx" ON "audit_logs"("createdAt");
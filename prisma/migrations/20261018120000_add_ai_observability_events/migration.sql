@@ -0,0 +1,110 @@
+-- CreateTable
+CREATE TABLE "ai_routing_logs" (
+    "id" TEXT NOT NULL,
+    "requestId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "sessionId" TEXT,
+    "plan" TEXT NOT NULL,
+    "intent" TEXT NOT NULL,
+    "modelChosen" TEXT NOT NULL,
+    "modelOriginal" TEXT,
+    "wasDowngraded" BOOLEAN NOT NULL DEFAULT false,
+    "downgradeReason" TEXT,
+    "pressureLevel" TEXT NOT NULL,
+    "tokensEstimated" INTEGER NOT NULL,
+    "tokensActual" INTEGER,
+    "responseTimeMs" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ai_routing_logs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ai_model_usage_logs" (
+    "id" TEXT NOT NULL,
+    "requestId" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "plan" TEXT NOT NULL,
+    "tokensEstimated" INTEGER,
+    "tokensActual" INTEGER NOT NULL,
+    "tokensDelta" INTEGER,
+    "costINR" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "latencyMs" INTEGER NOT NULL,
+    "success" BOOLEAN NOT NULL,
+    "errorType" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ai_model_usage_logs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ai_pressure_events" (
+    "id" TEXT NOT NULL,
+    "requestId" TEXT,
+    "userId" TEXT NOT NULL,
+    "plan" TEXT NOT NULL,
+    "previousLevel" TEXT NOT NULL,
+    "newLevel" TEXT NOT NULL,
+    "usageRatio" DOUBLE PRECISION NOT NULL,
+    "valvesTriggered" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ai_pressure_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ai_failure_events" (
+    "id" TEXT NOT NULL,
+    "requestId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "errorType" TEXT NOT NULL,
+    "errorMessage" TEXT NOT NULL,
+    "model" TEXT,
+    "fallbackUsed" TEXT,
+    "recovered" BOOLEAN NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ai_failure_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ai_routing_logs_requestId_idx" ON "ai_routing_logs"("requestId");
+
+-- CreateIndex
+CREATE INDEX "ai_routing_logs_plan_idx" ON "ai_routing_logs"("plan");
+
+-- CreateIndex
+CREATE INDEX "ai_routing_logs_modelChosen_idx" ON "ai_routing_logs"("modelChosen");
+
+-- CreateIndex
+CREATE INDEX "ai_routing_logs_createdAt_idx" ON "ai_routing_logs"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "ai_model_usage_logs_requestId_idx" ON "ai_model_usage_logs"("requestId");
+
+-- CreateIndex
+CREATE INDEX "ai_model_usage_logs_model_idx" ON "ai_model_usage_logs"("model");
+
+-- CreateIndex
+CREATE INDEX "ai_model_usage_logs_plan_idx" ON "ai_model_usage_logs"("plan");
+
+-- CreateIndex
+CREATE INDEX "ai_model_usage_logs_createdAt_idx" ON "ai_model_usage_logs"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "ai_pressure_events_userId_idx" ON "ai_pressure_events"("userId");
+
+-- CreateIndex
+CREATE INDEX "ai_pressure_events_plan_idx" ON "ai_pressure_events"("plan");
+
+-- CreateIndex
+CREATE INDEX "ai_pressure_events_createdAt_idx" ON "ai_pressure_events"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "ai_failure_events_requestId_idx" ON "ai_failure_events"("requestId");
+
+-- CreateIndex
+CREATE INDEX "ai_failure_events_errorType_idx" ON "ai_failure_events"("errorType");
+
+-- CreateIndex
+CREATE INDEX "ai_failure_events_createdAt_idx" ON "ai_failure_events"("createdAt");
@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "security_pattern_versions" (
+    "id" TEXT NOT NULL,
+    "patternId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "changeType" TEXT NOT NULL,
+    "snapshot" JSONB NOT NULL,
+    "reason" TEXT,
+    "changedBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "security_pattern_versions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "security_pattern_versions_patternId_idx" ON "security_pattern_versions"("patternId");
+
+-- CreateIndex
+CREATE INDEX "security_pattern_versions_createdAt_idx" ON "security_pattern_versions"("createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "security_pattern_versions_patternId_version_key" ON "security_pattern_versions"("patternId", "version");
@@ -0,0 +1,22 @@
+-- DropIndex
+DROP INDEX "rag_configurations_configKey_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "rag_configurations_configKey_scope_scopeId_key" ON "rag_configurations"("configKey", "scope", "scopeId");
+
+-- Default ranking settings (global scope). Per-plan overrides are rows with
+-- scope 'plan' and scopeId set to the plan type, e.g. ('reranker.strategy', 'plan', 'PRO').
+INSERT INTO "rag_configurations" ("id", "configKey", "configValue", "dataType", "scope", "category", "description", "minValue", "maxValue", "allowedValues", "updatedAt")
+SELECT gen_random_uuid()::text, v."configKey", v."configValue", v."dataType", 'global', 'RANKING', v."description", v."minValue", v."maxValue", v."allowedValues", CURRENT_TIMESTAMP
+FROM (VALUES
+    ('reranker.strategy', 'heuristic', 'string', 'Second-stage reranker: none, heuristic, cross-encoder or llm', NULL::DOUBLE PRECISION, NULL::DOUBLE PRECISION, ARRAY['none', 'heuristic', 'cross-encoder', 'llm']),
+    ('reranker.candidates', '20', 'number', 'Candidates retrieved and passed to the reranker before trimming to topK', 1, 100, ARRAY[]::TEXT[]),
+    ('reranker.scoreWeight', '0.8', 'number', 'Weight of the model reranker score vs the retrieval score in the final score', 0, 1, ARRAY[]::TEXT[]),
+    ('hybrid.fusion', 'rrf', 'string', 'How hybrid search merges vector and keyword hits', NULL, NULL, ARRAY['rrf', 'weighted']),
+    ('hybrid.rrfK', '60', 'number', 'Reciprocal-rank fusion constant k', 0, 1000, ARRAY[]::TEXT[]),
+    ('hybrid.vectorWeight', '1', 'number', 'RRF weight of the vector result list', 0, 10, ARRAY[]::TEXT[]),
+    ('hybrid.keywordWeight', '1', 'number', 'RRF weight of the keyword result list', 0, 10, ARRAY[]::TEXT[])
+) AS v("configKey", "configValue", "dataType", "description", "minValue", "maxValue", "allowedValues")
+WHERE NOT EXISTS (
+    SELECT 1 FROM "rag_configurations" r WHERE r."configKey" = v."configKey" AND r."scope" = 'global'
+);
@@ -0,0 +1,17 @@
+-- AlterTable
+ALTER TABLE "documents" ADD COLUMN     "isLatestVersion" BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN     "previousVersionId" TEXT,
+ADD COLUMN     "rootDocumentId" TEXT,
+ADD COLUMN     "version" INTEGER NOT NULL DEFAULT 1;
+
+-- AlterTable
+ALTER TABLE "document_chunks" ADD COLUMN     "contentHash" TEXT;
+
+-- CreateIndex
+CREATE INDEX "documents_rootDocumentId_idx" ON "documents"("rootDocumentId");
+
+-- CreateIndex
+CREATE INDEX "documents_userId_isLatestVersion_idx" ON "documents"("userId", "isLatestVersion");
+
+-- CreateIndex
+CREATE INDEX "document_chunks_documentId_contentHash_idx" ON "document_chunks"("documentId", "contentHash");
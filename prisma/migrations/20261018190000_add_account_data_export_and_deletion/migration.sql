@@ -0,0 +1,38 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "deletionReason" TEXT,
+ADD COLUMN     "deletionRequestedAt" TIMESTAMP(3),
+ADD COLUMN     "deletionScheduledAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "data_export_jobs" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "filePath" TEXT,
+    "fileSize" INTEGER,
+    "manifest" JSONB,
+    "errorMessage" TEXT,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "downloadCount" INTEGER NOT NULL DEFAULT 0,
+    "requestedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "startedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+    "expiresAt" TIMESTAMP(3),
+
+    CONSTRAINT "data_export_jobs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "data_export_jobs_userId_idx" ON "data_export_jobs"("userId");
+
+-- CreateIndex
+CREATE INDEX "data_export_jobs_status_idx" ON "data_export_jobs"("status");
+
+-- CreateIndex
+CREATE INDEX "data_export_jobs_expiresAt_idx" ON "data_export_jobs"("expiresAt");
+
+-- CreateIndex
+CREATE INDEX "users_deletionScheduledAt_idx" ON "users"("deletionScheduledAt");
+
+-- AddForeignKey
+ALTER TABLE "data_export_jobs" ADD CONSTRAINT "data_export_jobs_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
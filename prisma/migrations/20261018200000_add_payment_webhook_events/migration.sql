@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "payment_webhook_events" (
+    "id" TEXT NOT NULL,
+    "gateway" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "eventType" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'processing',
+    "orderId" TEXT,
+    "paymentId" TEXT,
+    "errorMessage" TEXT,
+    "attempts" INTEGER NOT NULL DEFAULT 1,
+    "receivedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "processedAt" TIMESTAMP(3),
+
+    CONSTRAINT "payment_webhook_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "payment_webhook_events_status_idx" ON "payment_webhook_events"("status");
+
+-- CreateIndex
+CREATE INDEX "payment_webhook_events_receivedAt_idx" ON "payment_webhook_events"("receivedAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payment_webhook_events_gateway_eventId_key" ON "payment_webhook_events"("gateway", "eventId");
+
+-- CreateIndex
+CREATE INDEX "transactions_gatewayOrderId_idx" ON "transactions"("gatewayOrderId");
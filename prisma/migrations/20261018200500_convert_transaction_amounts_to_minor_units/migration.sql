@@ -0,0 +1,5 @@
+-- Transaction amounts were stored in major units (rupees/dollars) until
+-- payment orders started recording them in minor units (paise/cents).
+-- Convert the existing rows so the column holds minor units throughout.
+-- Apply before the minor-unit code serves traffic (prisma migrate deploy).
+UPDATE "transactions" SET "amount" = "amount" * 100 WHERE "amount" <> 0;
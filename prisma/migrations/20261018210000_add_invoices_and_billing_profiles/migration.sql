@@ -0,0 +1,91 @@
+-- CreateTable
+CREATE TABLE "billing_profiles" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "legalName" TEXT,
+    "gstin" VARCHAR(15),
+    "addressLine1" TEXT,
+    "addressLine2" TEXT,
+    "city" TEXT,
+    "stateCode" VARCHAR(2),
+    "postalCode" VARCHAR(10),
+    "country" VARCHAR(2) NOT NULL DEFAULT 'IN',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "billing_profiles_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "invoices" (
+    "id" TEXT NOT NULL,
+    "invoiceNumber" TEXT NOT NULL,
+    "documentType" TEXT NOT NULL,
+    "series" TEXT NOT NULL,
+    "sequence" INTEGER NOT NULL,
+    "financialYear" TEXT NOT NULL,
+    "transactionId" TEXT,
+    "userId" TEXT,
+    "currency" TEXT NOT NULL,
+    "taxableAmount" INTEGER NOT NULL,
+    "cgstAmount" INTEGER NOT NULL DEFAULT 0,
+    "sgstAmount" INTEGER NOT NULL DEFAULT 0,
+    "igstAmount" INTEGER NOT NULL DEFAULT 0,
+    "totalAmount" INTEGER NOT NULL,
+    "taxRate" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "amountInWords" TEXT NOT NULL,
+    "hsnSac" TEXT,
+    "description" TEXT NOT NULL,
+    "sellerName" TEXT NOT NULL,
+    "sellerGstin" TEXT,
+    "sellerAddress" TEXT,
+    "sellerStateCode" TEXT,
+    "buyerName" TEXT NOT NULL,
+    "buyerEmail" TEXT,
+    "buyerGstin" TEXT,
+    "buyerAddress" TEXT,
+    "placeOfSupply" TEXT,
+    "pdfPath" TEXT,
+    "pdfError" TEXT,
+    "issuedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "invoices_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "invoice_sequences" (
+    "series" TEXT NOT NULL,
+    "lastNumber" INTEGER NOT NULL DEFAULT 0,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "invoice_sequences_pkey" PRIMARY KEY ("series")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "billing_profiles_userId_key" ON "billing_profiles"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "invoices_invoiceNumber_key" ON "invoices"("invoiceNumber");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "invoices_transactionId_key" ON "invoices"("transactionId");
+
+-- CreateIndex
+CREATE INDEX "invoices_userId_issuedAt_idx" ON "invoices"("userId", "issuedAt");
+
+-- CreateIndex
+CREATE INDEX "invoices_pdfPath_idx" ON "invoices"("pdfPath");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "invoices_series_sequence_key" ON "invoices"("series", "sequence");
+
+-- AddForeignKey
+ALTER TABLE "billing_profiles" ADD CONSTRAINT "billing_profiles_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "invoices" ADD CONSTRAINT "invoices_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "transactions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "invoices" ADD CONSTRAINT "invoices_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,30 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "creditBalance" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "subscriptions" ADD COLUMN     "scheduledChangeAt" TIMESTAMP(3),
+ADD COLUMN     "scheduledPlanName" TEXT;
+
+-- CreateTable
+CREATE TABLE "credit_ledger" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "balanceAfter" INTEGER NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'INR',
+    "reason" TEXT NOT NULL,
+    "description" TEXT,
+    "transactionId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "credit_ledger_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "subscriptions_scheduledChangeAt_idx" ON "subscriptions"("scheduledChangeAt");
+
+-- CreateIndex
+CREATE INDEX "credit_ledger_userId_createdAt_idx" ON "credit_ledger"("userId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "credit_ledger" ADD CONSTRAINT "credit_ledger_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
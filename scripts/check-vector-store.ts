@@ -0,0 +1,130 @@
+/**
+ * Smoke-test a vector store backend end to end
+ * (upsert → filtered query → scan → stats → namespace delete)
+ *
+ * Usage against a local Qdrant container:
+ *   docker run -p 6333:6333 qdrant/qdrant
+ *   QDRANT_URL=http://localhost:6333 VECTOR_STORE_INDEX=soriva-rag-check npm run vectors:check -- qdrant
+ *
+ * Pinecone (index must exist with VECTOR_DIMENSIONS dimensions):
+ *   PINECONE_API_KEY=... npm run vectors:check -- pinecone
+ *
+ * Writes only to a throwaway namespace, which is deleted at the end.
+ */
+import 'dotenv/config';
+import assert from 'assert';
+import {
+  createVectorStoreBackend,
+  VECTOR_STORE_PROVIDERS,
+  VectorStoreProvider,
+} from '../src/rag/services/vector-stores';
+
+const DIMENSIONS = parseInt(process.env.VECTOR_DIMENSIONS || '1536', 10);
+
+function unitVector(hot: number): number[] {
+  const vector = new Array(DIMENSIONS).fill(0);
+  vector[hot % DIMENSIONS] = 1;
+  return vector;
+}
+
+async function checkVectorStore() {
+  const provider = (process.argv[2] ||
+    process.env.VECTOR_STORE_PROVIDER ||
+    'qdrant') as VectorStoreProvider;
+  if (!VECTOR_STORE_PROVIDERS.includes(provider)) {
+    console.error(`❌ Unknown provider: ${provider}`);
+    process.exit(1);
+  }
+
+  const backend = createVectorStoreBackend(provider, {
+    indexName: process.env.VECTOR_STORE_INDEX || 'soriva-rag',
+    dimensions: DIMENSIONS,
+    metric: 'cosine',
+  });
+  const namespace = `check_${Date.now()}`;
+  const step = (label: string) => console.log(`✅ ${label}`);
+
+  try {
+    await backend.initialize();
+    assert.ok(await backend.healthCheck(), 'health check failed');
+    step(`${provider} reachable`);
+
+    const written = await backend.upsert(
+      [0, 1, 2].map((i) => ({
+        id: `chunk-${i}`,
+        vector: unitVector(i),
+        metadata: { chunkIndex: i, filename: i === 2 ? 'b.pdf' : 'a.pdf', text: `chunk ${i}` },
+      })),
+      namespace
+    );
+    assert.strictEqual(written, 3);
+    step('upsert');
+
+    // Pinecone is eventually consistent - give fresh writes a moment
+    if (provider === 'pinecone') await new Promise((resolve) => setTimeout(resolve, 10000));
+
+    const nearest = await backend.query(
+      { vector: unitVector(1), topK: 3, includeMetadata: true },
+      namespace
+    );
+    assert.strictEqual(nearest[0]?.id, 'chunk-1', 'nearest neighbour should be chunk-1');
+    assert.strictEqual(nearest[0]?.metadata?.filename, 'a.pdf');
+    step('query');
+
+    const filtered = await backend.query(
+      { vector: unitVector(1), topK: 3, filter: { filename: 'b.pdf' } },
+      namespace
+    );
+    assert.deepStrictEqual(
+      filtered.map((r) => r.id),
+      ['chunk-2']
+    );
+    const ranged = await backend.query(
+      {
+        vector: unitVector(0),
+        topK: 3,
+        filter: { chunkIndex: { $gte: 1 }, filename: { $in: ['a.pdf'] } },
+      },
+      namespace
+    );
+    assert.deepStrictEqual(
+      ranged.map((r) => r.id),
+      ['chunk-1']
+    );
+    step('metadata filters');
+
+    const seen: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await backend.scan(namespace, { cursor, limit: 2 });
+      seen.push(...page.records.map((r) => r.id));
+      assert.ok(
+        page.records.every((r) => r.vector.length === DIMENSIONS),
+        'scan must return vectors'
+      );
+      cursor = page.nextCursor;
+    } while (cursor);
+    assert.deepStrictEqual(seen.sort(), ['chunk-0', 'chunk-1', 'chunk-2']);
+    step('scan');
+
+    const stats = await backend.getStats();
+    assert.strictEqual(stats.namespaces[namespace], 3);
+    assert.ok((await backend.listNamespaces()).includes(namespace));
+    step(
+      `stats (${stats.totalVectors} vectors in ${Object.keys(stats.namespaces).length} namespaces)`
+    );
+
+    assert.strictEqual(await backend.deleteNamespace(namespace), 3);
+    assert.strictEqual(await backend.deleteNamespace(namespace), 0);
+    step('namespace delete');
+
+    console.log(`\n🎉 ${provider} backend OK`);
+    process.exit(0);
+  } catch (error: any) {
+    console.error(`❌ ${error.message}`);
+    await backend.deleteNamespace(namespace).catch(() => undefined);
+    process.exit(1);
+  }
+}
+
+checkVectorStore();
@@ -0,0 +1,54 @@
+/**
+ * Download the local embedding model so RAG can run fully offline
+ *
+ * Usage:
+ *   npm run embeddings:download
+ *   LOCAL_EMBEDDING_MODEL=Xenova/bge-small-en-v1.5 npm run embeddings:download
+ *   npm run embeddings:download -- --with-reranker   (also the cross-encoder)
+ *
+ * Files land in LOCAL_EMBEDDING_MODEL_DIR (default ./models/<model id>/),
+ * which is where the server loads them from with EMBEDDING_PROVIDER=local
+ * (and reranker.strategy=cross-encoder for LOCAL_RERANKER_MODEL).
+ */
+import 'dotenv/config';
+
+process.env.LOCAL_EMBEDDING_ALLOW_DOWNLOAD = 'true';
+
+async function downloadEmbeddingModel() {
+  const { default: localEmbeddingProvider } = await import(
+    '../src/rag/services/local-embedding.provider'
+  );
+  const { model, modelDir } = localEmbeddingProvider.getConfig();
+
+  try {
+    console.log(`⬇️  Downloading ${model} → ${modelDir}`);
+    const [vector] = await localEmbeddingProvider.embed(['Soriva embedding warm-up']);
+
+    console.log('✅ Model ready!');
+    console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+    console.log('Model:     ', model);
+    console.log('Directory: ', modelDir);
+    console.log('Dimensions:', vector.length);
+
+    if (process.argv.includes('--with-reranker')) {
+      const { CrossEncoderReranker } = await import(
+        '../src/rag/services/rerankers/cross-encoder.reranker'
+      );
+      const reranker = new CrossEncoderReranker();
+
+      console.log(`⬇️  Downloading ${reranker.model} → ${modelDir}`);
+      const [score] = await reranker.rerank(
+        [{ id: 'warm-up', text: 'Soriva is an AI assistant.', score: 1 }],
+        { query: 'What is Soriva?' }
+      );
+      console.log('Reranker:  ', reranker.model, `(warm-up score ${score.toFixed(3)})`);
+    }
+
+    process.exit(0);
+  } catch (error: any) {
+    console.error('❌ Download failed:', error.message);
+    process.exit(1);
+  }
+}
+
+downloadEmbeddingModel();
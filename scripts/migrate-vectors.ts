@@ -0,0 +1,105 @@
+/**
+ * Copy vectors between vector store backends
+ *
+ * Usage:
+ *   npm run vectors:migrate -- --from pinecone --to qdrant
+ *   npm run vectors:migrate -- --from qdrant --to pinecone --namespace user_1_doc_2 --dry-run
+ *
+ * Options:
+ *   --from <provider>     pinecone | qdrant (source)
+ *   --to <provider>       pinecone | qdrant (target)
+ *   --namespace <ns>      Only this namespace (repeatable, default: all)
+ *   --batch-size <n>      Records per scan/upsert page (default 100)
+ *   --dry-run             Count what would be copied, write nothing
+ *
+ * Credentials come from the usual env (QDRANT_URL, QDRANT_API_KEY,
+ * PINECONE_API_KEY, VECTOR_STORE_INDEX, VECTOR_DIMENSIONS).
+ */
+import 'dotenv/config';
+import { VectorStoreService, VectorStoreProvider } from '../src/rag/services/vector-store.service';
+
+function parseArgs(argv: string[]) {
+  const args: {
+    from?: string;
+    to?: string;
+    namespaces: string[];
+    batchSize?: number;
+    dryRun: boolean;
+  } = {
+    namespaces: [],
+    dryRun: false,
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    switch (argv[i]) {
+      case '--from':
+        args.from = argv[++i];
+        break;
+      case '--to':
+        args.to = argv[++i];
+        break;
+      case '--namespace':
+        args.namespaces.push(argv[++i]);
+        break;
+      case '--batch-size':
+        args.batchSize = parseInt(argv[++i], 10);
+        break;
+      case '--dry-run':
+        args.dryRun = true;
+        break;
+      default:
+        throw new Error(`Unknown option: ${argv[i]}`);
+    }
+  }
+
+  if (!args.from || !args.to) {
+    throw new Error('Both --from and --to are required');
+  }
+  if (args.from === 'memory' || args.to === 'memory') {
+    throw new Error(
+      'The memory store only lives inside a running server and cannot be migrated from the CLI'
+    );
+  }
+
+  return args;
+}
+
+async function migrateVectors() {
+  try {
+    const args = parseArgs(process.argv.slice(2));
+    const service = VectorStoreService.getInstance();
+
+    console.log(
+      `🚚 Migrating vectors: ${args.from} → ${args.to}${args.dryRun ? ' (dry run)' : ''}`
+    );
+    console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+
+    const result = await service.migrate({
+      from: args.from as VectorStoreProvider,
+      to: args.to as VectorStoreProvider,
+      namespaces: args.namespaces,
+      batchSize: args.batchSize,
+      dryRun: args.dryRun,
+      onProgress: (namespace, copied) => process.stdout.write(`\r  ${namespace}: ${copied}`),
+    });
+
+    process.stdout.write('\n');
+    for (const ns of result.namespaces) {
+      console.log(
+        `${ns.error ? '❌' : '✅'} ${ns.namespace}: ${ns.copied}${ns.error ? ` (${ns.error})` : ''}`
+      );
+    }
+
+    console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+    console.log(`Namespaces: ${result.namespaces.length}`);
+    console.log(`Vectors:    ${result.totalCopied}${result.dryRun ? ' (not written)' : ''}`);
+    console.log(`Duration:   ${(result.durationMs / 1000).toFixed(1)}s`);
+
+    process.exit(result.success ? 0 : 1);
+  } catch (error: any) {
+    console.error('❌ Migration failed:', error.message);
+    process.exit(1);
+  }
+}
+
+migrateVectors();
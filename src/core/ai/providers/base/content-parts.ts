@@ -0,0 +1,78 @@
+/**
+ * SORIVA AI PROVIDERS - MULTIMODAL CONTENT HELPERS
+ * Created by: Amandeep, Punjab, India
+ * Purpose: Shared helpers for translating AIContentPart[] into provider formats
+ * Updated: October 2026
+ */
+
+import axios from 'axios';
+import { AIContentPart, AIMediaPart, AIMessage } from './types';
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// CONFIGURATION
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/** Max size of a remote file downloaded for inline upload (Gemini inline limit is 20 MB per request) */
+const MAX_INLINE_BYTES = 15 * 1024 * 1024;
+const DOWNLOAD_TIMEOUT_MS = 20000;
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// HELPERS
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Parts to send for a message (falls back to content as a single text part)
+ */
+export function getMessageParts(message: AIMessage): AIContentPart[] {
+  if (message.parts && message.parts.length > 0) {
+    return message.parts;
+  }
+  return [{ type: 'text', text: message.content || '' }];
+}
+
+/**
+ * True if the message carries anything besides text
+ */
+export function hasMediaParts(message: AIMessage): boolean {
+  return !!message.parts?.some((part) => part.type !== 'text');
+}
+
+/**
+ * Base64 data for a media part, downloading it if only a url was given
+ */
+export async function resolveMediaData(part: AIMediaPart): Promise<string> {
+  if (part.data) {
+    return part.data;
+  }
+  if (!part.url) {
+    throw new Error(`Media part (${part.type}) has neither url nor data`);
+  }
+
+  const response = await axios.get<ArrayBuffer>(part.url, {
+    responseType: 'arraybuffer',
+    timeout: DOWNLOAD_TIMEOUT_MS,
+    maxContentLength: MAX_INLINE_BYTES,
+  });
+
+  return Buffer.from(response.data).toString('base64');
+}
+
+/**
+ * data: URI for base64 parts, otherwise the original url
+ */
+export function toDataUri(part: AIMediaPart): string {
+  if (part.data) {
+    return `data:${part.mimeType};base64,${part.data}`;
+  }
+  return part.url || '';
+}
+
+/**
+ * Audio format name expected by OpenAI-compatible APIs ('mp3', 'wav', ...)
+ */
+export function getAudioFormat(mimeType: string): string {
+  const subtype = mimeType.split('/')[1] || 'mp3';
+  if (subtype === 'mpeg') return 'mp3';
+  if (subtype === 'x-wav' || subtype === 'wave') return 'wav';
+  return subtype;
+}
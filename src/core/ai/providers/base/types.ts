@@ -151,15 +151,91 @@ export enum MessageRole {
   SYSTEM = 'system',
   USER = 'user',
   ASSISTANT = 'assistant',
+  TOOL = 'tool',
 }
 
+/**
+ * Message in a conversation
+ * - content is always the plain-text view (security checks, token estimates, logs)
+ * - parts, when present, is what providers send (text + images / PDFs / audio)
+ * - ASSISTANT messages may carry toolCalls requested by the model
+ * - TOOL messages carry the result of one tool call (toolCallId + toolName)
+ */
 export interface AIMessage {
   role: MessageRole;
   content: string;
+  parts?: AIContentPart[];
   timestamp?: Date;
   metadata?: Record<string, any>;
+  toolCalls?: AIToolCall[];
+  toolCallId?: string;
+  toolName?: string;
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// MULTIMODAL CONTENT PARTS
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export interface AITextPart {
+  type: 'text';
+  text: string;
+}
+
+/**
+ * Binary input - provide either a public url or base64 data (no data: prefix)
+ */
+export interface AIMediaPart {
+  type: 'image' | 'document' | 'audio';
+  mimeType: string;
+  url?: string;
+  data?: string;
+  fileName?: string;
 }
 
+export type AIContentPart = AITextPart | AIMediaPart;
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// TOOL / FUNCTION CALLING (Provider-neutral)
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * JSON Schema subset understood by Gemini, Mistral and OpenRouter
+ */
+export interface AIToolParameterSchema {
+  type: 'object' | 'string' | 'number' | 'integer' | 'boolean' | 'array';
+  description?: string;
+  properties?: Record<string, AIToolParameterSchema>;
+  required?: string[];
+  items?: AIToolParameterSchema;
+  enum?: string[];
+}
+
+/**
+ * Tool the model may call (name must match /^[a-zA-Z0-9_-]{1,64}$/)
+ */
+export interface AIToolDefinition {
+  name: string;
+  description: string;
+  parameters: AIToolParameterSchema;
+}
+
+/**
+ * Tool call requested by the model
+ */
+export interface AIToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, any>;
+}
+
+/**
+ * auto     - model decides (default)
+ * none     - tools are sent but must not be called
+ * required - model must call at least one tool
+ * { name } - model must call this tool
+ */
+export type AIToolChoice = 'auto' | 'none' | 'required' | { name: string };
+
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 // REQUEST & RESPONSE TYPES
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
@@ -177,6 +253,9 @@ export interface AIRequestConfig {
   sessionId?: string;
   // ✅ NEW: Gemini Grounding (Google Search)
   enableGrounding?: boolean;
+  // Tool / function calling
+  tools?: AIToolDefinition[];
+  toolChoice?: AIToolChoice;
 }
 
 export interface AIResponse {
@@ -186,6 +265,8 @@ export interface AIResponse {
   usage: TokenUsage;
   metadata: ResponseMetadata;
   timestamp: Date;
+  // Present when the model asked for tools instead of (or along with) text
+  toolCalls?: AIToolCall[];
 }
 
 export interface TokenUsage {
@@ -209,6 +290,9 @@ export interface ResponseMetadata {
   // ===========================================================
 
   securityFlags?: SecurityFlags;
+
+  // Names of tools executed while producing this response
+  toolsUsed?: string[];
 }
 
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
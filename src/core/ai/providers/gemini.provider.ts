@@ -8,6 +8,7 @@
 
 import axios, { AxiosInstance } from 'axios';
 import { AIProviderBase } from './base/AIProvider';
+import { getMessageParts, hasMediaParts, resolveMediaData } from './base/content-parts';
 import {
   AIProvider,
   AIModel,
@@ -18,6 +19,8 @@ import {
   MessageRole,
   Providers,
   Models,
+  AIMessage,
+  AIToolCall,
 } from './base/types';
 import {
   ApiKeyMissingError,
@@ -33,7 +36,19 @@ import {
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
 interface GeminiPart {
-  text: string;
+  text?: string;
+  inlineData?: {
+    mimeType: string;
+    data: string;
+  };
+  functionCall?: {
+    name: string;
+    args?: Record<string, any>;
+  };
+  functionResponse?: {
+    name: string;
+    response: Record<string, any>;
+  };
 }
 
 interface GeminiContent {
@@ -52,11 +67,22 @@ interface GeminiRequest {
     parts: GeminiPart[];
   };
   tools?: GeminiTool[];
+  toolConfig?: {
+    functionCallingConfig: {
+      mode: 'AUTO' | 'ANY' | 'NONE';
+      allowedFunctionNames?: string[];
+    };
+  };
 }
 
-// Grounding Tool Types
+// Grounding + Function Calling Tool Types
 interface GeminiTool {
-  googleSearch?: {};
+  functionDeclarations?: Array<{
+    name: string;
+    description: string;
+    parameters: Record<string, any>;
+  }>;
+  googleSearch?: Record<string, never>;
   googleSearchRetrieval?: {
     dynamicRetrievalConfig?: {
       mode: 'MODE_DYNAMIC' | 'MODE_UNSPECIFIED';
@@ -192,7 +218,7 @@ export class GeminiProvider extends AIProviderBase {
 
     try {
       // Transform messages to Gemini format
-      const { systemInstruction, contents } = this.transformMessages(config.messages);
+      const { systemInstruction, contents } = await this.transformMessages(config.messages);
 
       // Build Gemini request
       const geminiRequest: GeminiRequest = {
@@ -211,13 +237,15 @@ export class GeminiProvider extends AIProviderBase {
         };
       }
 
-      // Add grounding if enabled
+      // Add grounding if enabled (Gemini can't combine it with function declarations)
       if ((config as any).enableGrounding) {
         geminiRequest.tools = [
           {
             googleSearch: {},
           },
         ];
+      } else if (config.tools && config.tools.length > 0) {
+        this.applyTools(geminiRequest, config);
       }
 
       // Build endpoint URL with API key
@@ -245,7 +273,7 @@ export class GeminiProvider extends AIProviderBase {
   ): AsyncGenerator<string, void, unknown> {
     try {
       // Transform messages to Gemini format
-      const { systemInstruction, contents } = this.transformMessages(config.messages);
+      const { systemInstruction, contents } = await this.transformMessages(config.messages);
 
       // Build Gemini streaming request
       const geminiRequest: GeminiRequest = {
@@ -353,11 +381,14 @@ export class GeminiProvider extends AIProviderBase {
    * 1. System instruction is separated from conversation
    * 2. Uses 'model' role instead of 'assistant'
    * 3. Messages are in 'contents' array with 'parts'
+   * 4. Tool calls are 'functionCall' parts on the model turn, tool results are
+   *    'functionResponse' parts grouped into a single user turn
+   * 5. Images / PDFs / audio are sent as base64 'inlineData' parts
    */
-  private transformMessages(messages: any[]): {
+  private async transformMessages(messages: AIMessage[]): Promise<{
     systemInstruction: string | null;
     contents: GeminiContent[];
-  } {
+  }> {
     let systemInstruction: string | null = null;
     const contents: GeminiContent[] = [];
 
@@ -368,19 +399,104 @@ export class GeminiProvider extends AIProviderBase {
       } else if (msg.role === MessageRole.USER) {
         contents.push({
           role: 'user',
-          parts: [{ text: msg.content }],
+          parts: hasMediaParts(msg) ? await this.toGeminiParts(msg) : [{ text: msg.content }],
         });
       } else if (msg.role === MessageRole.ASSISTANT) {
+        const parts: GeminiPart[] = msg.content ? [{ text: msg.content }] : [];
+        for (const call of msg.toolCalls || []) {
+          parts.push({ functionCall: { name: call.name, args: call.arguments } });
+        }
         contents.push({
           role: 'model', // Gemini uses 'model' instead of 'assistant'
-          parts: [{ text: msg.content }],
+          parts,
         });
+      } else if (msg.role === MessageRole.TOOL) {
+        const part: GeminiPart = {
+          functionResponse: {
+            name: msg.toolName || 'tool',
+            response: this.toFunctionResponse(msg.content),
+          },
+        };
+        const previous = contents[contents.length - 1];
+
+        // Parallel calls: all responses must be answered in the same turn
+        if (previous && previous.role === 'user' && previous.parts.every((p) => p.functionResponse)) {
+          previous.parts.push(part);
+        } else {
+          contents.push({ role: 'user', parts: [part] });
+        }
       }
     }
 
     return { systemInstruction, contents };
   }
 
+  /**
+   * Translate multimodal parts to Gemini parts (remote files are downloaded and inlined)
+   */
+  private async toGeminiParts(msg: AIMessage): Promise<GeminiPart[]> {
+    const parts: GeminiPart[] = [];
+
+    for (const part of getMessageParts(msg)) {
+      if (part.type === 'text') {
+        if (part.text) parts.push({ text: part.text });
+        continue;
+      }
+
+      parts.push({
+        inlineData: {
+          mimeType: part.mimeType,
+          data: await resolveMediaData(part),
+        },
+      });
+    }
+
+    return parts;
+  }
+
+  /**
+   * Add function declarations + calling mode to a Gemini request
+   */
+  private applyTools(geminiRequest: GeminiRequest, config: AIRequestConfig): void {
+    geminiRequest.tools = [
+      {
+        functionDeclarations: config.tools!.map((tool) => ({
+          name: tool.name,
+          description: tool.description,
+          parameters: tool.parameters as Record<string, any>,
+        })),
+      },
+    ];
+
+    const choice = config.toolChoice || 'auto';
+    if (typeof choice === 'object') {
+      geminiRequest.toolConfig = {
+        functionCallingConfig: { mode: 'ANY', allowedFunctionNames: [choice.name] },
+      };
+    } else {
+      geminiRequest.toolConfig = {
+        functionCallingConfig: {
+          mode: choice === 'required' ? 'ANY' : choice === 'none' ? 'NONE' : 'AUTO',
+        },
+      };
+    }
+  }
+
+  /**
+   * Gemini expects functionResponse.response to be a JSON object
+   */
+  private toFunctionResponse(content: string): Record<string, any> {
+    try {
+      const parsed = JSON.parse(content);
+      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+        return parsed;
+      }
+      return { result: parsed };
+    } catch {
+      return { result: content };
+    }
+  }
+
   /**
    * Transform Gemini response to standard format
    */
@@ -395,10 +511,17 @@ export class GeminiProvider extends AIProviderBase {
       );
     }
 
-    // Extract text from parts
-    const content = candidate.content.parts.map((part) => part.text).join('');
-
-    if (!content) {
+    // Extract text and function calls from parts
+    const content = candidate.content.parts.map((part) => part.text || '').join('');
+    const toolCalls: AIToolCall[] = candidate.content.parts
+      .filter((part) => part.functionCall)
+      .map((part, index) => ({
+        id: `call_${Date.now()}_${index}`,
+        name: part.functionCall!.name,
+        arguments: part.functionCall!.args || {},
+      }));
+
+    if (!content && toolCalls.length === 0) {
       throw new ProviderInvalidResponseError(
         Providers.GOOGLE,
         this.model,
@@ -441,6 +564,7 @@ export class GeminiProvider extends AIProviderBase {
       usage,
       metadata,
       timestamp: new Date(),
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
     };
   }
 
@@ -58,6 +58,17 @@ export {
   type ResponseMetadata,
   type SecurityFlags,
 
+  // Multimodal Content
+  type AIContentPart,
+  type AITextPart,
+  type AIMediaPart,
+
+  // Tool / Function Calling
+  type AIToolDefinition,
+  type AIToolParameterSchema,
+  type AIToolCall,
+  type AIToolChoice,
+
   // Provider Configuration
   type ProviderConfig,
   type TierConfig,
@@ -22,6 +22,7 @@
 
 import axios, { AxiosInstance } from 'axios';
 import { AIProviderBase } from './base/AIProvider';
+import { getMessageParts, hasMediaParts, toDataUri } from './base/content-parts';
 import {
   AIProvider,
   AIModel,
@@ -29,6 +30,9 @@ import {
   AIResponse,
   ProviderConfig,
   TokenUsage,
+  AIMessage,
+  AIToolCall,
+  MessageRole,
 } from './base/types';
 import {
   ApiKeyMissingError,
@@ -67,9 +71,36 @@ const MODEL_ID_MAP: Record<string, string> = {
 // TYPES - Chat Completions API (General Queries)
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
+type MistralContentChunk =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: string }
+  | { type: 'document_url'; document_url: string; document_name?: string }
+  | { type: 'input_audio'; input_audio: string };
+
 interface MistralMessage {
-  role: 'system' | 'user' | 'assistant';
-  content: string;
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string | MistralContentChunk[];
+  tool_calls?: MistralToolCall[];
+  tool_call_id?: string;
+  name?: string;
+}
+
+interface MistralToolCall {
+  id: string;
+  type: 'function';
+  function: {
+    name: string;
+    arguments: string;
+  };
+}
+
+interface MistralTool {
+  type: 'function';
+  function: {
+    name: string;
+    description: string;
+    parameters: Record<string, any>;
+  };
 }
 
 interface MistralRequest {
@@ -79,6 +110,8 @@ interface MistralRequest {
   max_tokens?: number;
   top_p?: number;
   stream?: boolean;
+  tools?: MistralTool[];
+  tool_choice?: 'auto' | 'none' | 'any' | { type: 'function'; function: { name: string } };
 }
 
 interface MistralResponse {
@@ -90,7 +123,8 @@ interface MistralResponse {
     index: number;
     message: {
       role: string;
-      content: string;
+      content: string | null;
+      tool_calls?: MistralToolCall[];
     };
     finish_reason: string;
   }>;
@@ -244,6 +278,18 @@ export class MistralProvider extends AIProviderBase {
         stream: false,
       };
 
+      if (config.tools && config.tools.length > 0) {
+        request.tools = config.tools.map((tool) => ({
+          type: 'function',
+          function: {
+            name: tool.name,
+            description: tool.description,
+            parameters: tool.parameters as Record<string, any>,
+          },
+        }));
+        request.tool_choice = this.toToolChoice(config.toolChoice);
+      }
+
       console.log(`[Mistral v2.0] 💬 Chat Completions API (General Query)`);
 
       const response = await this.client.post<MistralResponse>(
@@ -503,11 +549,75 @@ export class MistralProvider extends AIProviderBase {
   // TRANSFORMATION
   // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
-  private transformMessages(messages: any[]): MistralMessage[] {
-    return messages.map((msg) => ({
-      role: msg.role as 'system' | 'user' | 'assistant',
-      content: msg.content || '',
-    }));
+  private transformMessages(messages: AIMessage[]): MistralMessage[] {
+    return messages.map((msg) => {
+      const message: MistralMessage = {
+        role: msg.role as MistralMessage['role'],
+        content: hasMediaParts(msg) ? this.toContentChunks(msg) : msg.content || '',
+      };
+
+      if (msg.role === MessageRole.ASSISTANT && msg.toolCalls?.length) {
+        message.tool_calls = msg.toolCalls.map((call) => ({
+          id: call.id,
+          type: 'function',
+          function: { name: call.name, arguments: JSON.stringify(call.arguments || {}) },
+        }));
+      }
+
+      if (msg.role === MessageRole.TOOL) {
+        message.tool_call_id = msg.toolCallId;
+        message.name = msg.toolName;
+      }
+
+      return message;
+    });
+  }
+
+  /**
+   * Translate multimodal parts to Mistral content chunks
+   * Images + PDFs: url or data URI. Audio: base64 only (Voxtral models).
+   */
+  private toContentChunks(msg: AIMessage): MistralContentChunk[] {
+    return getMessageParts(msg).flatMap((part): MistralContentChunk[] => {
+      if (part.type === 'text') {
+        return part.text ? [{ type: 'text', text: part.text }] : [];
+      }
+      if (part.type === 'image') {
+        return [{ type: 'image_url', image_url: toDataUri(part) }];
+      }
+      if (part.type === 'document') {
+        return [{ type: 'document_url', document_url: toDataUri(part), document_name: part.fileName }];
+      }
+      if (part.data) {
+        return [{ type: 'input_audio', input_audio: part.data }];
+      }
+      console.warn('[MistralProvider] Audio by url is not supported - part skipped');
+      return [];
+    });
+  }
+
+  /**
+   * Map provider-neutral tool choice to Mistral's tool_choice
+   */
+  private toToolChoice(choice: AIRequestConfig['toolChoice']): MistralRequest['tool_choice'] {
+    if (!choice || choice === 'auto') return 'auto';
+    if (choice === 'none') return 'none';
+    if (choice === 'required') return 'any';
+    return { type: 'function', function: { name: choice.name } };
+  }
+
+  private parseToolCalls(toolCalls?: MistralToolCall[]): AIToolCall[] | undefined {
+    if (!toolCalls || toolCalls.length === 0) return undefined;
+
+    return toolCalls.map((call) => {
+      let args: Record<string, any> = {};
+      try {
+        args = call.function.arguments ? JSON.parse(call.function.arguments) : {};
+      } catch {
+        console.warn(`[MistralProvider] Invalid tool arguments for ${call.function.name}`);
+      }
+      return { id: call.id, name: call.function.name, arguments: args };
+    });
   }
 
   private transformResponse(response: MistralResponse, startTime: number): AIResponse {
@@ -518,7 +628,8 @@ export class MistralProvider extends AIProviderBase {
     }
 
     return {
-      content: choice.message.content,
+      content: choice.message.content || '',
+      toolCalls: this.parseToolCalls(choice.message.tool_calls),
       model: this.model,
       provider: MISTRAL_PROVIDER,
       usage: {
@@ -10,6 +10,13 @@
 
 import axios, { AxiosInstance } from 'axios';
 import { AIProviderBase } from './base/AIProvider';
+import {
+  getAudioFormat,
+  getMessageParts,
+  hasMediaParts,
+  resolveMediaData,
+  toDataUri,
+} from './base/content-parts';
 import {
   AIProvider,
   AIModel,
@@ -19,6 +26,8 @@ import {
   TokenUsage,
   MessageRole,
   createAIProvider,
+  AIMessage,
+  AIToolCall,
 } from './base/types';
 import {
   ApiKeyMissingError,
@@ -39,9 +48,36 @@ const OPENROUTER_PROVIDER = 'OPENROUTER' as AIProvider;
 // OPENROUTER API TYPES (OpenAI-compatible)
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
+type OpenRouterContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } }
+  | { type: 'file'; file: { filename: string; file_data: string } }
+  | { type: 'input_audio'; input_audio: { data: string; format: string } };
+
 interface OpenRouterMessage {
-  role: 'system' | 'user' | 'assistant';
-  content: string;
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string | OpenRouterContentPart[];
+  tool_calls?: OpenRouterToolCall[];
+  tool_call_id?: string;
+  name?: string;
+}
+
+interface OpenRouterToolCall {
+  id: string;
+  type: 'function';
+  function: {
+    name: string;
+    arguments: string;
+  };
+}
+
+interface OpenRouterTool {
+  type: 'function';
+  function: {
+    name: string;
+    description: string;
+    parameters: Record<string, any>;
+  };
 }
 
 interface OpenRouterRequest {
@@ -53,6 +89,8 @@ interface OpenRouterRequest {
   frequency_penalty?: number;
   presence_penalty?: number;
   stream?: boolean;
+  tools?: OpenRouterTool[];
+  tool_choice?: 'auto' | 'none' | 'required' | { type: 'function'; function: { name: string } };
   // NOTE: Do NOT include extra_body or thinking_budget for Normal mode
 }
 
@@ -65,7 +103,8 @@ interface OpenRouterResponse {
     index: number;
     message: {
       role: string;
-      content: string;
+      content: string | null;
+      tool_calls?: OpenRouterToolCall[];
     };
     finish_reason: string;
   }>;
@@ -176,7 +215,7 @@ export class OpenRouterProvider extends AIProviderBase {
 
     try {
       // Transform messages to OpenRouter format (OpenAI-compatible)
-      const openrouterMessages = this.transformMessages(config.messages);
+      const openrouterMessages = await this.transformMessages(config.messages);
 
       // Build OpenRouter request
       const openrouterRequest: OpenRouterRequest = {
@@ -190,6 +229,18 @@ export class OpenRouterProvider extends AIProviderBase {
         stream: false,
       };
 
+      if (config.tools && config.tools.length > 0) {
+        openrouterRequest.tools = config.tools.map((tool) => ({
+          type: 'function',
+          function: {
+            name: tool.name,
+            description: tool.description,
+            parameters: tool.parameters as Record<string, any>,
+          },
+        }));
+        openrouterRequest.tool_choice = this.toToolChoice(config.toolChoice);
+      }
+
       console.log(`[OpenRouterProvider] Sending request to ${this.model}`);
 
       // Make API call
@@ -219,7 +270,7 @@ export class OpenRouterProvider extends AIProviderBase {
   ): AsyncGenerator<string, void, unknown> {
     try {
       // Transform messages to OpenRouter format
-      const openrouterMessages = this.transformMessages(config.messages);
+      const openrouterMessages = await this.transformMessages(config.messages);
 
       // Build OpenRouter streaming request
       const openrouterRequest: OpenRouterRequest = {
@@ -281,13 +332,84 @@ export class OpenRouterProvider extends AIProviderBase {
   /**
    * Transform standard messages to OpenRouter format (OpenAI-compatible)
    */
-  private transformMessages(messages: any[]): OpenRouterMessage[] {
-    return messages.map((msg) => ({
-      role: msg.role as 'system' | 'user' | 'assistant',
-      content: msg.content,
+  private async transformMessages(messages: AIMessage[]): Promise<OpenRouterMessage[]> {
+    return Promise.all(messages.map(async (msg) => {
+      const message: OpenRouterMessage = {
+        role: msg.role as OpenRouterMessage['role'],
+        content: hasMediaParts(msg) ? await this.toContentParts(msg) : msg.content,
+      };
+
+      if (msg.role === MessageRole.ASSISTANT && msg.toolCalls?.length) {
+        message.tool_calls = msg.toolCalls.map((call) => ({
+          id: call.id,
+          type: 'function',
+          function: { name: call.name, arguments: JSON.stringify(call.arguments || {}) },
+        }));
+      }
+
+      if (msg.role === MessageRole.TOOL) {
+        message.tool_call_id = msg.toolCallId;
+        message.name = msg.toolName;
+      }
+
+      return message;
     }));
   }
 
+  /**
+   * Translate multimodal parts to OpenAI-compatible content parts
+   * (audio must be base64, so remote audio is downloaded first)
+   */
+  private async toContentParts(msg: AIMessage): Promise<OpenRouterContentPart[]> {
+    const parts: OpenRouterContentPart[] = [];
+
+    for (const part of getMessageParts(msg)) {
+      if (part.type === 'text') {
+        if (part.text) parts.push({ type: 'text', text: part.text });
+      } else if (part.type === 'image') {
+        parts.push({ type: 'image_url', image_url: { url: toDataUri(part) } });
+      } else if (part.type === 'document') {
+        parts.push({
+          type: 'file',
+          file: { filename: part.fileName || 'document.pdf', file_data: toDataUri(part) },
+        });
+      } else {
+        parts.push({
+          type: 'input_audio',
+          input_audio: { data: await resolveMediaData(part), format: getAudioFormat(part.mimeType) },
+        });
+      }
+    }
+
+    return parts;
+  }
+
+  /**
+   * Map provider-neutral tool choice to OpenAI-compatible tool_choice
+   */
+  private toToolChoice(choice: AIRequestConfig['toolChoice']): OpenRouterRequest['tool_choice'] {
+    if (!choice || choice === 'auto') return 'auto';
+    if (choice === 'none' || choice === 'required') return choice;
+    return { type: 'function', function: { name: choice.name } };
+  }
+
+  /**
+   * Parse OpenAI-style tool calls (arguments arrive as a JSON string)
+   */
+  private parseToolCalls(toolCalls?: OpenRouterToolCall[]): AIToolCall[] | undefined {
+    if (!toolCalls || toolCalls.length === 0) return undefined;
+
+    return toolCalls.map((call) => {
+      let args: Record<string, any> = {};
+      try {
+        args = call.function.arguments ? JSON.parse(call.function.arguments) : {};
+      } catch {
+        console.warn(`[OpenRouterProvider] Invalid tool arguments for ${call.function.name}`);
+      }
+      return { id: call.id, name: call.function.name, arguments: args };
+    });
+  }
+
   /**
    * Transform OpenRouter response to standard format
    */
@@ -309,7 +431,8 @@ export class OpenRouterProvider extends AIProviderBase {
     };
 
     return {
-      content: choice.message.content,
+      content: choice.message.content || '',
+      toolCalls: this.parseToolCalls(choice.message.tool_calls),
       model: this.model,
       provider: OPENROUTER_PROVIDER,
       usage,
@@ -790,8 +790,13 @@ export class JailbreakDetector {
     return Promise.all(inputs.map((input) => this.analyze(input, { userId })));
   }
 
+  /**
+   * Patterns live in SecurityConfigManager - drop cached verdicts so
+   * the next analysis runs against the reloaded set
+   */
   public async reloadPatterns(): Promise<void> {
-    logger.info('[JailbreakDetector] Patterns are live via SecurityConfigManager v3.0');
+    this.clearCache();
+    logger.info('[JailbreakDetector] Pattern cache cleared (patterns live via SecurityConfigManager v3.0)');
   }
 }
 
@@ -83,6 +83,21 @@ export interface ThreatIntelligenceUpdate {
   signature: string; // Verify update authenticity
 }
 
+/**
+ * Pattern managed through the admin API (security_patterns table)
+ */
+export interface DatabasePatternInput {
+  id: string;
+  name: string;
+  pattern: string;
+  severity: SeverityLevel;
+  category: CategoryType;
+  action: ActionType;
+  description: string;
+  priority: number;
+  version: number;
+}
+
 export interface TelemetryEvent {
   eventType: 'pattern_triggered' | 'pattern_blocked' | 'false_positive' | 'timeout' | 'error';
   patternId: string;
@@ -279,6 +294,7 @@ class SecurityConfigManager {
   private static instance: SecurityConfigManager;
   private patterns: Map<string, SecurityPattern> = new Map();
   private patternGroups: Map<string, Set<string>> = new Map(); // ✅ FEATURE 5
+  private databasePatternIds: Set<string> = new Set(); // Loaded from security_patterns
   private asyncEvaluator: AsyncPatternEvaluator;
   private telemetry: TelemetrySystem;
   private environment: EnvironmentType;
@@ -540,7 +556,7 @@ class SecurityConfigManager {
       action: ActionType;
     }
   ): string {
-    const id = this.generatePatternId(pattern);
+    const id = pattern.id || this.generatePatternId(pattern);
     const hash = this.generatePatternHash(pattern);
 
     const fullPattern: SecurityPattern = {
@@ -597,6 +613,56 @@ class SecurityConfigManager {
     return true;
   }
 
+  /**
+   * Replace all database-managed patterns (admin API hot reload).
+   * Built-in patterns are kept; invalid regexes are skipped.
+   */
+  public syncDatabasePatterns(rows: DatabasePatternInput[]): { loaded: number; skipped: string[] } {
+    for (const id of this.databasePatternIds) {
+      this.patterns.delete(id);
+    }
+    for (const members of this.patternGroups.values()) {
+      for (const id of this.databasePatternIds) {
+        members.delete(id);
+      }
+    }
+    this.databasePatternIds.clear();
+
+    const baseScores: Record<SeverityLevel, number> = { LOW: 30, MEDIUM: 60, HIGH: 85, CRITICAL: 95 };
+    const skipped: string[] = [];
+
+    for (const row of rows) {
+      try {
+        new RegExp(row.pattern, 'i');
+      } catch {
+        skipped.push(row.name);
+        continue;
+      }
+
+      const highPriority = row.severity === 'CRITICAL' || row.severity === 'HIGH';
+      this.addPattern({
+        id: row.id,
+        pattern: row.pattern,
+        severity: row.severity,
+        category: row.category,
+        description: row.description,
+        action: row.action,
+        version: String(row.version),
+        maxEvalMs: 50,
+        asyncEval: !highPriority,
+        priority: highPriority ? 'high' : row.priority >= 100 ? 'medium' : 'low',
+        confidenceWeight: 0.9,
+        baseScore: baseScores[row.severity],
+        metadata: { source: 'database', name: row.name },
+      });
+      this.databasePatternIds.add(row.id);
+    }
+
+    this.lastThreatUpdate = new Date();
+    console.log(`✅ Synced ${this.databasePatternIds.size} database security patterns`);
+    return { loaded: this.databasePatternIds.size, skipped };
+  }
+
   /**
    * Get all enabled patterns
    */
@@ -716,6 +782,7 @@ class SecurityConfigManager {
     return {
       totalPatterns: this.patterns.size,
       enabledPatterns: this.getEnabledPatterns().length,
+      databasePatterns: this.databasePatternIds.size,
       groups: this.patternGroups.size,
       lastThreatUpdate: this.lastThreatUpdate,
       environment: this.environment,
@@ -0,0 +1,252 @@
+/**
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ * SORIVA AI TOOLS - BUILT-IN TOOLS
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ * Created: October 2026
+ *
+ * The query router's direct responders exposed as callable tools, so the
+ * model can fetch weather / festival dates / Gita shlokas / math / currency
+ * on demand - not only when the regex pre-router catches the query.
+ *
+ * TOOLS:
+ * ✅ get_weather       - WeatherAPI.com current conditions
+ * ✅ get_festival_date - Festival calendar (2026)
+ * ✅ get_current_time  - Date/time in the user's timezone
+ * ✅ calculate         - Arithmetic expression
+ * ✅ get_gita_shlok    - Bhagavad Gita chapter / shlok / topic lookup
+ * ✅ convert_currency  - Exchange rates from the DB
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ */
+
+import { AITool, ToolExecutionContext, ToolResult, toolRegistry } from './tool.registry';
+import {
+  directResponder,
+  getChapterInfo,
+  getShlok,
+  getShlokasByTopic,
+  ClassificationResult,
+  QueryType,
+} from '../../soriva-query-router';
+import {
+  convertCurrency,
+  formatCurrency,
+  SUPPORTED_CURRENCIES,
+  SupportedCurrency,
+} from '../../../services/currency.service';
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// HELPERS
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Run a direct responder handler with already-extracted arguments
+ */
+async function runDirectResponder(
+  queryType: QueryType,
+  extracted: ClassificationResult['extracted'],
+  context: ToolExecutionContext,
+  query: string = ''
+): Promise<ToolResult> {
+  const classification: ClassificationResult = {
+    queryType,
+    responseMode: 'DIRECT',
+    confidence: 1,
+    extracted,
+  };
+
+  const response = await directResponder.respond(classification, query, {
+    userId: context.userId,
+    location: context.location,
+    language: context.language,
+    timezone: context.timezone,
+  });
+
+  if (!response.success) {
+    return { success: false, error: response.error || response.response || 'No result' };
+  }
+
+  return {
+    success: true,
+    data: {
+      ...(response.response ? { answer: response.response } : {}),
+      ...(response.richData || {}),
+    },
+  };
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// TOOL DEFINITIONS
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const weatherTool: AITool = {
+  definition: {
+    name: 'get_weather',
+    description:
+      'Get current weather (temperature, condition, humidity, wind, AQI) for a city. Use when the user asks about weather or mausam.',
+    parameters: {
+      type: 'object',
+      properties: {
+        location: {
+          type: 'string',
+          description: "City name, e.g. 'Ludhiana' or 'London'. Omit to use the user's location.",
+        },
+      },
+    },
+  },
+  execute: (args, context) =>
+    runDirectResponder('WEATHER', { location: args.location }, context),
+};
+
+const festivalTool: AITool = {
+  definition: {
+    name: 'get_festival_date',
+    description: 'Get the 2026 date of an Indian festival or national holiday (Diwali, Holi, Eid, Lohri, ...).',
+    parameters: {
+      type: 'object',
+      properties: {
+        festival: { type: 'string', description: "Festival name in English, e.g. 'diwali'" },
+      },
+      required: ['festival'],
+    },
+  },
+  execute: (args, context) =>
+    runDirectResponder('FESTIVAL', { festivalName: String(args.festival || '') }, context),
+};
+
+const timeTool: AITool = {
+  definition: {
+    name: 'get_current_time',
+    description: "Get today's date or the current time in the user's timezone.",
+    parameters: {
+      type: 'object',
+      properties: {
+        what: { type: 'string', enum: ['date', 'time'], description: 'Return the date or the time' },
+      },
+      required: ['what'],
+    },
+  },
+  execute: (args, context) =>
+    runDirectResponder('DATE_TIME', {}, context, args.what === 'time' ? 'time' : 'date'),
+};
+
+const calculatorTool: AITool = {
+  definition: {
+    name: 'calculate',
+    description:
+      'Evaluate an arithmetic expression exactly. Supports + - * / ^ % and parentheses. Use for any non-trivial arithmetic.',
+    parameters: {
+      type: 'object',
+      properties: {
+        expression: { type: 'string', description: "Expression, e.g. '(1250 * 18) / 100'" },
+      },
+      required: ['expression'],
+    },
+  },
+  execute: (args, context) =>
+    runDirectResponder('MATH', { mathExpression: String(args.expression || '') }, context),
+};
+
+const gitaTool: AITool = {
+  definition: {
+    name: 'get_gita_shlok',
+    description:
+      'Look up the Bhagavad Gita: a specific shlok (chapter + shlok), a chapter summary (chapter only), or shlokas about a topic.',
+    parameters: {
+      type: 'object',
+      properties: {
+        chapter: { type: 'integer', description: 'Chapter number 1-18' },
+        shlok: { type: 'integer', description: 'Shlok number within the chapter' },
+        topic: { type: 'string', description: "Topic keyword, e.g. 'karma', 'fear', 'duty'" },
+      },
+    },
+  },
+  execute: async (args) => {
+    const chapter = args.chapter ? Number(args.chapter) : undefined;
+    const shlok = args.shlok ? Number(args.shlok) : undefined;
+
+    if (chapter && shlok) {
+      const found = getShlok(chapter, shlok);
+      return found
+        ? { success: true, data: { shlok: found } }
+        : { success: false, error: `Gita ${chapter}.${shlok} is not in the database` };
+    }
+
+    if (chapter) {
+      const info = getChapterInfo(chapter);
+      return info
+        ? { success: true, data: { chapter: info } }
+        : { success: false, error: 'The Gita has chapters 1-18' };
+    }
+
+    if (args.topic) {
+      const shlokas = getShlokasByTopic(String(args.topic)).slice(0, 3);
+      return shlokas.length > 0
+        ? { success: true, data: { shlokas } }
+        : { success: false, error: `No shlokas found for "${args.topic}"` };
+    }
+
+    return { success: false, error: 'Provide chapter, chapter + shlok, or topic' };
+  },
+};
+
+const currencyTool: AITool = {
+  definition: {
+    name: 'convert_currency',
+    description: `Convert an amount between currencies using today's exchange rates. Supported: ${Object.keys(
+      SUPPORTED_CURRENCIES
+    ).join(', ')}.`,
+    parameters: {
+      type: 'object',
+      properties: {
+        amount: { type: 'number', description: 'Amount to convert' },
+        from: { type: 'string', enum: Object.keys(SUPPORTED_CURRENCIES), description: 'Source currency code' },
+        to: { type: 'string', enum: Object.keys(SUPPORTED_CURRENCIES), description: 'Target currency code' },
+      },
+      required: ['amount', 'from', 'to'],
+    },
+  },
+  execute: async (args) => {
+    const from = String(args.from || '').toUpperCase() as SupportedCurrency;
+    const to = String(args.to || '').toUpperCase() as SupportedCurrency;
+    const amount = Number(args.amount);
+
+    if (!SUPPORTED_CURRENCIES[from] || !SUPPORTED_CURRENCIES[to]) {
+      return { success: false, error: `Unsupported currency: ${!SUPPORTED_CURRENCIES[from] ? from : to}` };
+    }
+    if (!isFinite(amount)) {
+      return { success: false, error: 'Amount must be a number' };
+    }
+
+    const converted = await convertCurrency(amount, from, to);
+
+    return {
+      success: true,
+      data: {
+        amount,
+        from,
+        to,
+        converted,
+        formatted: `${formatCurrency(amount, from)} = ${formatCurrency(converted, to)}`,
+      },
+    };
+  },
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// REGISTRATION
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export const BUILTIN_TOOLS: AITool[] = [
+  weatherTool,
+  festivalTool,
+  timeTool,
+  calculatorTool,
+  gitaTool,
+  currencyTool,
+];
+
+export function registerBuiltinTools(): void {
+  for (const tool of BUILTIN_TOOLS) {
+    toolRegistry.register(tool);
+  }
+}
@@ -0,0 +1,17 @@
+/**
+ * SORIVA AI TOOLS - Main Export
+ * Importing this module registers the built-in tools.
+ */
+import { registerBuiltinTools } from './builtin.tools';
+
+export {
+  ToolRegistry,
+  toolRegistry,
+  type AITool,
+  type ToolExecutionContext,
+  type ToolResult,
+  type ToolExecution,
+} from './tool.registry';
+export { BUILTIN_TOOLS, registerBuiltinTools } from './builtin.tools';
+
+registerBuiltinTools();
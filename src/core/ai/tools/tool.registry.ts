@@ -0,0 +1,189 @@
+/**
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ * SORIVA AI TOOLS - REGISTRY
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ * Created: October 2026
+ *
+ * Purpose: Provider-neutral registry of tools the model may call.
+ * Each tool has a JSON-schema definition (sent to Gemini / Mistral /
+ * OpenRouter) and an executor that runs on our side.
+ *
+ * FLOW:
+ * 1. AIService sends getDefinitions() with the request
+ * 2. Model answers with toolCalls
+ * 3. execute() runs each call and returns a TOOL message
+ * 4. AIService sends the results back until the model answers in text
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ */
+
+import {
+  AIMessage,
+  AIToolCall,
+  AIToolDefinition,
+  MessageRole,
+} from '../providers/base/types';
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// TYPES
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Per-request context passed to every tool executor
+ */
+export interface ToolExecutionContext {
+  userId: string;
+  location?: string;
+  language?: 'en' | 'hi' | 'hinglish';
+  timezone?: string;
+}
+
+/**
+ * Result of a tool execution (serialized to JSON for the model)
+ */
+export interface ToolResult {
+  success: boolean;
+  data?: Record<string, any>;
+  error?: string;
+}
+
+export interface AITool {
+  definition: AIToolDefinition;
+  execute(args: Record<string, any>, context: ToolExecutionContext): Promise<ToolResult>;
+}
+
+export interface ToolExecution {
+  call: AIToolCall;
+  result: ToolResult;
+  latencyMs: number;
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// CONFIGURATION
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const TOOL_CONFIG = {
+  /** Max time a single tool may run */
+  TIMEOUT_MS: parseInt(process.env.AI_TOOL_TIMEOUT_MS || '8000'),
+  /** Max characters of tool output sent back to the model */
+  MAX_RESULT_CHARS: 4000,
+};
+
+const TOOL_NAME_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// TOOL REGISTRY
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export class ToolRegistry {
+  private static instance: ToolRegistry;
+  private tools: Map<string, AITool> = new Map();
+
+  private constructor() {}
+
+  public static getInstance(): ToolRegistry {
+    if (!ToolRegistry.instance) {
+      ToolRegistry.instance = new ToolRegistry();
+    }
+    return ToolRegistry.instance;
+  }
+
+  /**
+   * Register (or replace) a tool
+   */
+  public register(tool: AITool): void {
+    if (!TOOL_NAME_PATTERN.test(tool.definition.name)) {
+      throw new Error(`Invalid tool name: ${tool.definition.name}`);
+    }
+    this.tools.set(tool.definition.name, tool);
+  }
+
+  public unregister(name: string): boolean {
+    return this.tools.delete(name);
+  }
+
+  public has(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  /**
+   * Definitions to send with a request (optionally a subset by name)
+   */
+  public getDefinitions(names?: string[]): AIToolDefinition[] {
+    const selected = names
+      ? names.map((name) => this.tools.get(name)).filter((tool): tool is AITool => !!tool)
+      : Array.from(this.tools.values());
+
+    return selected.map((tool) => tool.definition);
+  }
+
+  /**
+   * Execute one tool call. Never throws - failures are reported to the model
+   * as { success: false, error } so it can recover in its answer.
+   */
+  public async execute(call: AIToolCall, context: ToolExecutionContext): Promise<ToolExecution> {
+    const startTime = Date.now();
+    const tool = this.tools.get(call.name);
+
+    if (!tool) {
+      return {
+        call,
+        result: { success: false, error: `Unknown tool: ${call.name}` },
+        latencyMs: 0,
+      };
+    }
+
+    let timer: NodeJS.Timeout | undefined;
+
+    try {
+      const timeout = new Promise<ToolResult>((_, reject) => {
+        timer = setTimeout(
+          () => reject(new Error(`Tool timed out after ${TOOL_CONFIG.TIMEOUT_MS}ms`)),
+          TOOL_CONFIG.TIMEOUT_MS
+        );
+      });
+
+      const result = await Promise.race([tool.execute(call.arguments || {}, context), timeout]);
+
+      return { call, result, latencyMs: Date.now() - startTime };
+    } catch (error: unknown) {
+      console.warn(`[ToolRegistry] Tool "${call.name}" failed:`, error);
+      return {
+        call,
+        result: {
+          success: false,
+          error: error instanceof Error ? error.message : 'Tool execution failed',
+        },
+        latencyMs: Date.now() - startTime,
+      };
+    } finally {
+      if (timer) clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Convert an execution into the TOOL message sent back to the model
+   */
+  public toToolMessage(execution: ToolExecution): AIMessage {
+    let content = JSON.stringify(execution.result);
+    if (content.length > TOOL_CONFIG.MAX_RESULT_CHARS) {
+      content = JSON.stringify({
+        success: execution.result.success,
+        truncated: true,
+        data: content.substring(0, TOOL_CONFIG.MAX_RESULT_CHARS),
+      });
+    }
+
+    return {
+      role: MessageRole.TOOL,
+      content,
+      toolCallId: execution.call.id,
+      toolName: execution.call.name,
+    };
+  }
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// EXPORT SINGLETON
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export const toolRegistry = ToolRegistry.getInstance();
@@ -12,12 +12,18 @@
 // - Emergency? → Lock all plans to single model
 //
 // SOURCES (Priority Order):
-// 1. Environment variables (for quick server restart)
-// 2. Runtime memory (for instant changes via admin API)
+// 1. DB overrides (admin API - survive restarts, synced across instances)
+// 2. Environment variables (baseline)
 // 3. Default values (fallback)
 //
+// Overrides may carry an expiry - once it passes, the switch reverts to the
+// baseline. Every persisted change is written to the audit log.
+//
 // ============================================================================
 
+import { Prisma } from '@prisma/client';
+import { prisma } from '../../../config/prisma';
+import { auditLogService, AuditEventType } from '../../../services/audit-log.service';
 import { logInfo, logWarn } from './observability';
 
 // ============================================================================
@@ -56,6 +62,42 @@ export interface KillSwitchChange {
   newValue: any;
   changedAt: Date;
   changedBy: string;
+  reason?: string;
+  expiresAt?: Date | null;
+}
+
+export interface KillSwitchOverride {
+  key: keyof KillSwitchState;
+  value: any;
+  reason: string;
+  changedBy: string;
+  expiresAt: Date | null;
+  updatedAt: Date;
+}
+
+export interface KillSwitchUpdateOptions {
+  changedBy: string;
+  reason: string;
+  expiresAt?: Date | null;   // Auto-revert to baseline after this time
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export type KillSwitchErrorReason =
+  | 'invalid_key'
+  | 'invalid_value'
+  | 'invalid_expiry'
+  | 'reason_required'
+  | 'override_not_found'
+  | 'storage_error';
+
+export interface KillSwitchUpdateResult {
+  success: boolean;
+  key?: keyof KillSwitchState;
+  value?: any;
+  override?: KillSwitchOverride | null;
+  error?: string;
+  reason?: KillSwitchErrorReason;
 }
 
 // ============================================================================
@@ -88,18 +130,42 @@ const DEFAULT_STATE: KillSwitchState = {
   maintenanceMode: false,
 };
 
+const KILL_SWITCH_KEYS = Object.keys(DEFAULT_STATE) as Array<keyof KillSwitchState>;
+
+/** Switches that hold a 0-1 number instead of a boolean */
+const NUMERIC_KEYS: Array<keyof KillSwitchState> = ['globalPressureOverride', 'maxPressureThreshold'];
+
+/** Switches that accept null (= no override) */
+const NULLABLE_KEYS: Array<keyof KillSwitchState> = ['globalPressureOverride'];
+
+const SYNC_CONFIG = {
+  /** How often each instance re-reads overrides from the DB */
+  INTERVAL_MS: parseInt(process.env.KILL_SWITCH_SYNC_INTERVAL_MS || '10000'),
+  /** Longest allowed expiry for an override */
+  MAX_EXPIRY_HOURS: parseInt(process.env.KILL_SWITCH_MAX_EXPIRY_HOURS || '168'),
+};
+
+export function isKillSwitchKey(key: string): key is keyof KillSwitchState {
+  return (KILL_SWITCH_KEYS as string[]).includes(key);
+}
+
 // ============================================================================
 // KILL SWITCH MANAGER
 // ============================================================================
 
 class KillSwitchManager {
   private state: KillSwitchState;
+  private baseline: KillSwitchState;
+  private overrides: Map<keyof KillSwitchState, KillSwitchOverride> = new Map();
   private changeHistory: KillSwitchChange[] = [];
   private readonly MAX_HISTORY = 100;
+  private syncTimer: NodeJS.Timeout | null = null;
+  private lastSyncedAt: Date | null = null;
 
   constructor() {
-    // Initialize from ENV first, then defaults
-    this.state = this.loadFromEnvironment();
+    // Initialize from ENV first, then defaults (DB overrides applied on first sync)
+    this.baseline = this.loadFromEnvironment();
+    this.state = { ...this.baseline };
     logInfo('Kill switches initialized', { state: this.state });
   }
 
@@ -160,19 +226,37 @@ class KillSwitchManager {
     return this.state[key];
   }
 
+  getBaseline(): Readonly<KillSwitchState> {
+    return { ...this.baseline };
+  }
+
+  getOverrides(): KillSwitchOverride[] {
+    return Array.from(this.overrides.values());
+  }
+
+  getOverride(key: keyof KillSwitchState): KillSwitchOverride | null {
+    return this.overrides.get(key) || null;
+  }
+
   // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
   // SETTERS (Runtime Changes)
   // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
+  /**
+   * Local, in-memory change for this instance only.
+   * The next DB sync re-applies persisted overrides - use applyOverride()
+   * for changes that must survive restarts and reach every instance.
+   */
   set<K extends keyof KillSwitchState>(
     key: K, 
     value: KillSwitchState[K], 
-    changedBy: string = 'system'
-  ): void {
+    changedBy: string = 'system',
+    meta: { reason?: string; expiresAt?: Date | null } = {}
+  ): KillSwitchChange | null {
     const oldValue = this.state[key];
     
     if (oldValue === value) {
-      return; // No change
+      return null; // No change
     }
 
     this.state[key] = value;
@@ -184,6 +268,7 @@ class KillSwitchManager {
       newValue: value,
       changedAt: new Date(),
       changedBy,
+      ...meta,
     };
 
     this.changeHistory.push(change);
@@ -197,6 +282,8 @@ class KillSwitchManager {
       newValue: value,
       changedBy,
     });
+
+    return change;
   }
 
   /**
@@ -220,14 +307,283 @@ class KillSwitchManager {
   }
 
   /**
-   * Reload from environment
+   * Reload baseline from environment (DB overrides still win)
    */
   reloadFromEnv(): void {
-    const newState = this.loadFromEnvironment();
-    this.bulkUpdate(newState, 'env_reload');
+    this.baseline = this.loadFromEnvironment();
+    this.bulkUpdate(this.computeState(), 'env_reload');
     logInfo('Kill switches reloaded from environment');
   }
 
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // PERSISTENT OVERRIDES (DB-backed, audited)
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  /**
+   * Persist an override, apply it locally and write it to the audit log.
+   * Other instances pick it up on their next sync.
+   */
+  async applyOverride(
+    key: string,
+    value: unknown,
+    options: KillSwitchUpdateOptions
+  ): Promise<KillSwitchUpdateResult> {
+    if (!isKillSwitchKey(key)) {
+      return { success: false, error: `Unknown kill switch: ${key}`, reason: 'invalid_key' };
+    }
+
+    const valueError = this.validateValue(key, value);
+    if (valueError) {
+      return { success: false, error: valueError, reason: 'invalid_value' };
+    }
+
+    if (!options.reason?.trim()) {
+      return { success: false, error: 'A reason is required', reason: 'reason_required' };
+    }
+
+    const expiresAt = options.expiresAt || null;
+    if (expiresAt) {
+      const maxExpiry = Date.now() + SYNC_CONFIG.MAX_EXPIRY_HOURS * 60 * 60 * 1000;
+      if (isNaN(expiresAt.getTime()) || expiresAt.getTime() <= Date.now() || expiresAt.getTime() > maxExpiry) {
+        return {
+          success: false,
+          error: `Expiry must be in the future and within ${SYNC_CONFIG.MAX_EXPIRY_HOURS} hours`,
+          reason: 'invalid_expiry',
+        };
+      }
+    }
+
+    const reason = options.reason.trim();
+
+    try {
+      const data = {
+        value: value === null ? Prisma.JsonNull : (value as Prisma.InputJsonValue),
+        reason,
+        changedBy: options.changedBy,
+        expiresAt,
+      };
+
+      const row = await prisma.killSwitchOverride.upsert({
+        where: { key },
+        create: { key, ...data },
+        update: data,
+      });
+
+      const override = this.toOverride(row);
+      const oldValue = this.state[key];
+
+      this.overrides.set(key, override);
+      this.set(key, value as KillSwitchState[typeof key], options.changedBy, { reason, expiresAt });
+
+      await this.audit('override', key, oldValue, value, options, reason, expiresAt);
+
+      return { success: true, key, value, override };
+    } catch (error: unknown) {
+      logWarn('Kill switch override failed', {
+        key,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return { success: false, error: 'Failed to store kill switch override', reason: 'storage_error' };
+    }
+  }
+
+  /**
+   * Remove an override - the switch reverts to its environment/default value
+   */
+  async clearOverride(
+    key: string,
+    options: Omit<KillSwitchUpdateOptions, 'expiresAt'>
+  ): Promise<KillSwitchUpdateResult> {
+    if (!isKillSwitchKey(key)) {
+      return { success: false, error: `Unknown kill switch: ${key}`, reason: 'invalid_key' };
+    }
+
+    if (!options.reason?.trim()) {
+      return { success: false, error: 'A reason is required', reason: 'reason_required' };
+    }
+
+    const reason = options.reason.trim();
+
+    try {
+      const deleted = await prisma.killSwitchOverride.deleteMany({ where: { key } });
+
+      if (deleted.count === 0 && !this.overrides.has(key)) {
+        return { success: false, error: `No override set for ${key}`, reason: 'override_not_found' };
+      }
+
+      const oldValue = this.state[key];
+      const value = this.baseline[key];
+
+      this.overrides.delete(key);
+      this.set(key, value, options.changedBy, { reason });
+
+      await this.audit('clear', key, oldValue, value, options, reason, null);
+
+      return { success: true, key, value, override: null };
+    } catch (error: unknown) {
+      logWarn('Kill switch clear failed', {
+        key,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return { success: false, error: 'Failed to clear kill switch override', reason: 'storage_error' };
+    }
+  }
+
+  /**
+   * Pull overrides from the DB (expiring stale ones) and apply them.
+   * Never throws - on DB errors the current state is kept.
+   */
+  async syncFromDatabase(): Promise<void> {
+    try {
+      await this.expireOverrides();
+
+      const rows = await prisma.killSwitchOverride.findMany();
+      const overrides = new Map<keyof KillSwitchState, KillSwitchOverride>();
+
+      for (const row of rows) {
+        if (isKillSwitchKey(row.key)) {
+          overrides.set(row.key, this.toOverride(row));
+        }
+      }
+
+      this.overrides = overrides;
+      this.bulkUpdate(this.computeState(), 'db_sync');
+      this.lastSyncedAt = new Date();
+    } catch (error: unknown) {
+      logWarn('Kill switch sync failed', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Start periodic DB sync (call once the DB is connected)
+   */
+  startSync(): void {
+    if (this.syncTimer) return;
+
+    this.syncTimer = setInterval(() => {
+      void this.syncFromDatabase();
+    }, SYNC_CONFIG.INTERVAL_MS);
+    this.syncTimer.unref();
+
+    logInfo('Kill switch sync started', { intervalMs: SYNC_CONFIG.INTERVAL_MS });
+  }
+
+  stopSync(): void {
+    if (this.syncTimer) {
+      clearInterval(this.syncTimer);
+      this.syncTimer = null;
+    }
+  }
+
+  /**
+   * Delete overrides whose expiry has passed. Only the instance that actually
+   * deletes a row writes the audit entry, so expiries are audited once.
+   */
+  private async expireOverrides(): Promise<void> {
+    const now = new Date();
+    const expired = await prisma.killSwitchOverride.findMany({
+      where: { expiresAt: { lte: now } },
+    });
+
+    for (const row of expired) {
+      const deleted = await prisma.killSwitchOverride.deleteMany({
+        where: { id: row.id, expiresAt: { lte: now } },
+      });
+
+      if (deleted.count === 1 && isKillSwitchKey(row.key)) {
+        await this.audit(
+          'expire',
+          row.key,
+          row.value,
+          this.baseline[row.key],
+          { changedBy: 'system' },
+          `Override expired (set by ${row.changedBy}: ${row.reason})`,
+          row.expiresAt
+        );
+      }
+    }
+  }
+
+  /**
+   * Baseline with unexpired overrides applied
+   */
+  private computeState(): KillSwitchState {
+    const state: KillSwitchState = { ...this.baseline };
+    const now = Date.now();
+
+    for (const override of this.overrides.values()) {
+      if (override.expiresAt && override.expiresAt.getTime() <= now) {
+        continue;
+      }
+      (state as any)[override.key] = override.value;
+    }
+
+    return state;
+  }
+
+  private validateValue(key: keyof KillSwitchState, value: unknown): string | null {
+    if (value === null) {
+      return NULLABLE_KEYS.includes(key) ? null : `${key} cannot be null`;
+    }
+
+    if (NUMERIC_KEYS.includes(key)) {
+      if (typeof value !== 'number' || !isFinite(value) || value < 0 || value > 1) {
+        return `${key} must be a number between 0 and 1`;
+      }
+      return null;
+    }
+
+    return typeof value === 'boolean' ? null : `${key} must be a boolean`;
+  }
+
+  private toOverride(row: {
+    key: string;
+    value: Prisma.JsonValue;
+    reason: string;
+    changedBy: string;
+    expiresAt: Date | null;
+    updatedAt: Date;
+  }): KillSwitchOverride {
+    return {
+      key: row.key as keyof KillSwitchState,
+      value: row.value,
+      reason: row.reason,
+      changedBy: row.changedBy,
+      expiresAt: row.expiresAt,
+      updatedAt: row.updatedAt,
+    };
+  }
+
+  private async audit(
+    action: 'override' | 'clear' | 'expire',
+    key: keyof KillSwitchState,
+    oldValue: unknown,
+    newValue: unknown,
+    options: { changedBy: string; ipAddress?: string; userAgent?: string },
+    reason: string,
+    expiresAt: Date | null
+  ): Promise<void> {
+    await auditLogService.log({
+      eventType: AuditEventType.KILL_SWITCH_CHANGE,
+      userId: options.changedBy === 'system' ? undefined : options.changedBy,
+      ipAddress: options.ipAddress,
+      userAgent: options.userAgent,
+      success: true,
+      message: `Kill switch ${key} ${action}: ${JSON.stringify(oldValue)} → ${JSON.stringify(newValue)}`,
+      metadata: {
+        action,
+        key,
+        oldValue,
+        newValue,
+        reason,
+        changedBy: options.changedBy,
+        expiresAt: expiresAt ? expiresAt.toISOString() : null,
+      },
+    });
+  }
+
   // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
   // CONVENIENCE CHECKERS
   // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
@@ -338,6 +694,8 @@ class KillSwitchManager {
   getStatus(): {
     state: KillSwitchState;
     activeKills: string[];
+    overrides: KillSwitchOverride[];
+    lastSyncedAt: Date | null;
     recentChanges: KillSwitchChange[];
   } {
     const activeKills: string[] = [];
@@ -355,6 +713,8 @@ class KillSwitchManager {
     return {
       state: this.getState(),
       activeKills,
+      overrides: this.getOverrides(),
+      lastSyncedAt: this.lastSyncedAt,
       recentChanges: this.getChangeHistory(5),
     };
   }
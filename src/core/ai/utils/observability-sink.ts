@@ -0,0 +1,246 @@
+// src/core/ai/utils/observability-sink.ts
+// ============================================================================
+// SORIVA OBSERVABILITY SINK v1.0 - October 2026
+// ============================================================================
+//
+// 🎯 PURPOSE: Durable storage for observability events
+//
+// The in-memory MetricsStore only covers the current process and day.
+// Every event is also queued here and flushed to Postgres in batches:
+//
+// - Routing decisions  → ai_routing_logs
+// - Model usage        → ai_model_usage_logs
+// - Pressure events    → ai_pressure_events
+// - Failure events     → ai_failure_events
+//
+// FLUSH:
+// - Every FLUSH_INTERVAL_MS, or as soon as a queue reaches BATCH_SIZE
+// - On DB errors the batch is re-queued (oldest events dropped past MAX_QUEUE)
+// - Never blocks or throws into the request path
+//
+// ============================================================================
+
+import { prisma } from '../../../config/prisma';
+import type {
+  RoutingDecision,
+  ModelUsageLog,
+  PressureEvent,
+  FailureEvent,
+} from './observability';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const SINK_CONFIG = {
+  ENABLED: process.env.OBSERVABILITY_PERSIST_ENABLED !== 'false',
+  FLUSH_INTERVAL_MS: parseInt(process.env.OBSERVABILITY_FLUSH_INTERVAL_MS || '5000'),
+  BATCH_SIZE: parseInt(process.env.OBSERVABILITY_BATCH_SIZE || '200'),
+  MAX_QUEUE: parseInt(process.env.OBSERVABILITY_MAX_QUEUE || '10000'),
+};
+
+// ============================================================================
+// SINK
+// ============================================================================
+
+class ObservabilitySink {
+  private routingQueue: RoutingDecision[] = [];
+  private modelUsageQueue: ModelUsageLog[] = [];
+  private pressureQueue: PressureEvent[] = [];
+  private failureQueue: FailureEvent[] = [];
+
+  private flushTimer: NodeJS.Timeout | null = null;
+  private flushing: Promise<void> | null = null;
+  private droppedEvents = 0;
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // ENQUEUE
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  enqueueRouting(log: RoutingDecision): void {
+    this.enqueue(this.routingQueue, log);
+  }
+
+  enqueueModelUsage(log: ModelUsageLog): void {
+    this.enqueue(this.modelUsageQueue, log);
+  }
+
+  enqueuePressure(event: PressureEvent): void {
+    this.enqueue(this.pressureQueue, event);
+  }
+
+  enqueueFailure(event: FailureEvent): void {
+    this.enqueue(this.failureQueue, event);
+  }
+
+  private enqueue<T>(queue: T[], item: T): void {
+    if (!SINK_CONFIG.ENABLED) return;
+
+    queue.push(item);
+    if (queue.length > SINK_CONFIG.MAX_QUEUE) {
+      queue.shift();
+      this.droppedEvents++;
+    }
+
+    if (queue.length >= SINK_CONFIG.BATCH_SIZE) {
+      void this.flush();
+    }
+  }
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // FLUSH
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  /**
+   * Write all queued events. Concurrent calls share the running flush.
+   */
+  flush(): Promise<void> {
+    if (!this.flushing) {
+      this.flushing = this.flushAll().finally(() => {
+        this.flushing = null;
+      });
+    }
+    return this.flushing;
+  }
+
+  private async flushAll(): Promise<void> {
+    await this.flushQueue('routing events', this.routingQueue, (batch) =>
+      prisma.aiRoutingLog.createMany({
+        data: batch.map((log) => ({
+          requestId: log.requestId,
+          userId: log.userId,
+          sessionId: log.sessionId,
+          plan: log.plan,
+          intent: log.intent,
+          modelChosen: log.modelChosen,
+          modelOriginal: log.modelOriginal,
+          wasDowngraded: log.wasDowngraded,
+          downgradeReason: log.downgradeReason,
+          pressureLevel: log.pressureLevel,
+          tokensEstimated: Math.round(log.tokensEstimated),
+          tokensActual: log.tokensActual !== undefined ? Math.round(log.tokensActual) : undefined,
+          responseTimeMs: log.responseTimeMs !== undefined ? Math.round(log.responseTimeMs) : undefined,
+          createdAt: log.timestamp,
+        })),
+      })
+    );
+
+    await this.flushQueue('model usage events', this.modelUsageQueue, (batch) =>
+      prisma.aiModelUsageLog.createMany({
+        data: batch.map((log) => ({
+          requestId: log.requestId,
+          model: log.model,
+          plan: log.plan,
+          tokensEstimated: log.tokensEstimated !== undefined ? Math.round(log.tokensEstimated) : undefined,
+          tokensActual: Math.round(log.tokensActual),
+          tokensDelta: log.tokensDelta !== undefined ? Math.round(log.tokensDelta) : undefined,
+          costINR: log.costINR,
+          latencyMs: Math.round(log.latencyMs),
+          success: log.success,
+          errorType: log.errorType,
+          createdAt: log.timestamp,
+        })),
+      })
+    );
+
+    await this.flushQueue('pressure events', this.pressureQueue, (batch) =>
+      prisma.aiPressureEvent.createMany({
+        data: batch.map((event) => ({
+          requestId: event.requestId,
+          userId: event.userId,
+          plan: event.plan,
+          previousLevel: event.previousLevel,
+          newLevel: event.newLevel,
+          usageRatio: event.usageRatio,
+          valvesTriggered: event.valvesTriggered,
+          createdAt: event.timestamp,
+        })),
+      })
+    );
+
+    await this.flushQueue('failure events', this.failureQueue, (batch) =>
+      prisma.aiFailureEvent.createMany({
+        data: batch.map((event) => ({
+          requestId: event.requestId,
+          userId: event.userId,
+          errorType: event.errorType,
+          errorMessage: event.errorMessage.substring(0, 2000),
+          model: event.model,
+          fallbackUsed: event.fallbackUsed,
+          recovered: event.recovered,
+          createdAt: event.timestamp,
+        })),
+      })
+    );
+  }
+
+  private async flushQueue<T>(
+    name: string,
+    queue: T[],
+    write: (batch: T[]) => Promise<unknown>
+  ): Promise<void> {
+    while (queue.length > 0) {
+      const batch = queue.splice(0, SINK_CONFIG.BATCH_SIZE);
+
+      try {
+        await write(batch);
+      } catch (error: unknown) {
+        // Put the batch back in front and retry on the next interval
+        queue.unshift(...batch);
+        const overflow = queue.length - SINK_CONFIG.MAX_QUEUE;
+        if (overflow > 0) {
+          queue.splice(0, overflow);
+          this.droppedEvents += overflow;
+        }
+
+        console.error(
+          `[ObservabilitySink] Flush of ${name} failed:`,
+          error instanceof Error ? error.message : error
+        );
+        return;
+      }
+    }
+  }
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // LIFECYCLE
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  start(): void {
+    if (!SINK_CONFIG.ENABLED || this.flushTimer) return;
+
+    this.flushTimer = setInterval(() => {
+      void this.flush();
+    }, SINK_CONFIG.FLUSH_INTERVAL_MS);
+    this.flushTimer.unref();
+  }
+
+  /**
+   * Stop the timer and write whatever is still queued (graceful shutdown)
+   */
+  async stop(): Promise<void> {
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = null;
+    }
+    await this.flush();
+  }
+
+  getStats(): { enabled: boolean; queued: number; dropped: number } {
+    return {
+      enabled: SINK_CONFIG.ENABLED,
+      queued:
+        this.routingQueue.length +
+        this.modelUsageQueue.length +
+        this.pressureQueue.length +
+        this.failureQueue.length,
+      dropped: this.droppedEvents,
+    };
+  }
+}
+
+// ============================================================================
+// SINGLETON
+// ============================================================================
+
+export const observabilitySink = new ObservabilitySink();
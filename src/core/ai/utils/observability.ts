@@ -18,10 +18,13 @@
 // OUTPUT:
 // - Console logs (dev)
 // - Structured JSON (production)
-// - Ready for: DataDog, CloudWatch, Grafana, etc.
+// - Postgres, batched (observability-sink.ts) - queried by /api/admin/metrics
+// - Prometheus text format (GET /metrics/ai)
 //
 // ============================================================================
 
+import { observabilitySink } from './observability-sink';
+
 // ============================================================================
 // TYPES
 // ============================================================================
@@ -95,8 +98,19 @@ export interface DailyMetrics {
   tokenEstimateAccuracy?: number;  // 🆕 How accurate are our estimates?
 }
 
+/**
+ * Cumulative per-process counters (Prometheus counters never reset by day)
+ */
+export interface MetricsTotals {
+  requestsByPlan: Record<string, number>;
+  downgrades: number;
+  byModel: Record<string, { calls: number; errors: number; tokens: number; cost: number; latencyMs: number }>;
+  failuresByType: Record<string, { recovered: number; unrecovered: number }>;
+  pressureByLevel: Record<string, number>;
+}
+
 // ============================================================================
-// IN-MEMORY METRICS STORE (Replace with Redis/DB in production)
+// IN-MEMORY METRICS STORE (per process - durable copy lives in the sink)
 // ============================================================================
 
 class MetricsStore {
@@ -111,6 +125,15 @@ class MetricsStore {
   
   // 🆕 Token estimate accuracy tracking
   private tokenEstimates: { estimated: number; actual: number }[] = [];
+
+  // Cumulative since process start (for Prometheus)
+  private totals: MetricsTotals = {
+    requestsByPlan: {},
+    downgrades: 0,
+    byModel: {},
+    failuresByType: {},
+    pressureByLevel: {},
+  };
   
   // Limits to prevent memory bloat
   private readonly MAX_LOGS = 10000;
@@ -130,6 +153,11 @@ class MetricsStore {
     if (log.wasDowngraded) {
       this.updateDailyCounters('downgrade');
     }
+
+    this.totals.requestsByPlan[log.plan] = (this.totals.requestsByPlan[log.plan] || 0) + 1;
+    if (log.wasDowngraded) {
+      this.totals.downgrades++;
+    }
   }
 
   addModelUsage(log: ModelUsageLog): void {
@@ -138,6 +166,14 @@ class MetricsStore {
       this.modelUsageLogs.shift();
     }
     this.updateModelMetrics(log);
+
+    const modelTotals = this.totals.byModel[log.model] ||
+      (this.totals.byModel[log.model] = { calls: 0, errors: 0, tokens: 0, cost: 0, latencyMs: 0 });
+    modelTotals.calls++;
+    if (!log.success) modelTotals.errors++;
+    modelTotals.tokens += log.tokensActual;
+    modelTotals.cost += log.costINR;
+    modelTotals.latencyMs += log.latencyMs;
     
     // 🆕 Track token estimate accuracy
     if (log.tokensEstimated && log.tokensActual) {
@@ -166,6 +202,7 @@ class MetricsStore {
       this.pressureEvents.shift();
     }
     this.updateDailyCounters('pressure');
+    this.totals.pressureByLevel[event.newLevel] = (this.totals.pressureByLevel[event.newLevel] || 0) + 1;
     
     return true; // Logged
   }
@@ -179,6 +216,11 @@ class MetricsStore {
     if (event.recovered) {
       this.updateDailyCounters('fallback');
     }
+
+    const failureTotals = this.totals.failuresByType[event.errorType] ||
+      (this.totals.failuresByType[event.errorType] = { recovered: 0, unrecovered: 0 });
+    if (event.recovered) failureTotals.recovered++;
+    else failureTotals.unrecovered++;
   }
 
   // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
@@ -202,6 +244,10 @@ class MetricsStore {
     const today = new Date().toISOString().split('T')[0];
     return this.dailyCounters.get(today) || this.createEmptyDailyMetrics(today);
   }
+
+  getTotals(): MetricsTotals {
+    return this.totals;
+  }
   
   /**
    * 🆕 Get token estimate accuracy
@@ -351,6 +397,16 @@ export function generateRequestId(): string {
   return `req_${timestamp}_${random}`;
 }
 
+/**
+ * Prometheus label set: {key="value",...} with escaping
+ */
+function promLabels(labels: Record<string, string>): string {
+  const parts = Object.entries(labels).map(
+    ([key, value]) => `${key}="${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`
+  );
+  return `{${parts.join(',')}}`;
+}
+
 // ============================================================================
 // MAIN OBSERVABILITY CLASS
 // ============================================================================
@@ -373,6 +429,7 @@ class Observability {
     };
 
     metricsStore.addRoutingLog(log);
+    observabilitySink.enqueueRouting(log);
 
     if (this.isDev) {
       const icon = log.wasDowngraded ? '⬇️' : '✅';
@@ -402,6 +459,7 @@ class Observability {
     };
 
     metricsStore.addModelUsage(log);
+    observabilitySink.enqueueModelUsage(log);
 
     if (this.isDev) {
       const icon = log.success ? '💰' : '❌';
@@ -437,6 +495,8 @@ class Observability {
       return false; // Level didn't change, skipped
     }
 
+    observabilitySink.enqueuePressure(log);
+
     if (this.isDev) {
       console.log(
         `🔥 [PRESSURE] ${log.plan} | ${log.previousLevel} → ${log.newLevel}` +
@@ -461,6 +521,7 @@ class Observability {
     };
 
     metricsStore.addFailureEvent(log);
+    observabilitySink.enqueueFailure(log);
 
     const icon = log.recovered ? '🔄' : '💥';
     const level = log.recovered ? 'WARN' : 'ERROR';
@@ -517,6 +578,64 @@ class Observability {
     return metricsStore.getRecentFailures(limit);
   }
 
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // PROMETHEUS EXPORT
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  /**
+   * AI metrics in Prometheus text format (cumulative for this process)
+   */
+  getPrometheusMetrics(): string {
+    const totals = metricsStore.getTotals();
+    const accuracy = metricsStore.getTokenEstimateAccuracy();
+    const sink = observabilitySink.getStats();
+    const lines: string[] = [];
+
+    const metric = (name: string, type: string, help: string, samples: Array<[string, number]>) => {
+      lines.push(`# HELP ${name} ${help}`);
+      lines.push(`# TYPE ${name} ${type}`);
+      for (const [labels, value] of samples) {
+        lines.push(`${name}${labels} ${Number.isFinite(value) ? value : 0}`);
+      }
+    };
+
+    const models = Object.entries(totals.byModel);
+
+    metric('soriva_ai_requests_total', 'counter', 'Routed AI requests by plan',
+      Object.entries(totals.requestsByPlan).map(([plan, count]) => [promLabels({ plan }), count]));
+    metric('soriva_ai_downgrades_total', 'counter', 'Requests routed to a cheaper model than chosen',
+      [['', totals.downgrades]]);
+    metric('soriva_ai_model_calls_total', 'counter', 'Model calls by model and outcome',
+      models.flatMap(([model, m]): Array<[string, number]> => [
+        [promLabels({ model, status: 'success' }), m.calls - m.errors],
+        [promLabels({ model, status: 'error' }), m.errors],
+      ]));
+    metric('soriva_ai_model_tokens_total', 'counter', 'Tokens used by model',
+      models.map(([model, m]) => [promLabels({ model }), m.tokens]));
+    metric('soriva_ai_model_cost_inr_total', 'counter', 'Model cost in INR',
+      models.map(([model, m]) => [promLabels({ model }), Math.round(m.cost * 10000) / 10000]));
+    metric('soriva_ai_model_latency_ms', 'summary', 'Model call latency in milliseconds',
+      models.flatMap(([model, m]): Array<[string, number]> => [
+        [`_sum${promLabels({ model })}`, m.latencyMs],
+        [`_count${promLabels({ model })}`, m.calls],
+      ]));
+    metric('soriva_ai_failures_total', 'counter', 'Failure events by error type and recovery',
+      Object.entries(totals.failuresByType).flatMap(([errorType, f]): Array<[string, number]> => [
+        [promLabels({ error_type: errorType, recovered: 'true' }), f.recovered],
+        [promLabels({ error_type: errorType, recovered: 'false' }), f.unrecovered],
+      ]));
+    metric('soriva_ai_pressure_events_total', 'counter', 'Pressure level changes by new level',
+      Object.entries(totals.pressureByLevel).map(([level, count]) => [promLabels({ level }), count]));
+    metric('soriva_ai_token_estimate_accuracy_percent', 'gauge', 'Average token estimate accuracy (recent samples)',
+      [['', accuracy.avgAccuracy]]);
+    metric('soriva_ai_observability_queue_size', 'gauge', 'Events waiting to be written to the database',
+      [['', sink.queued]]);
+    metric('soriva_ai_observability_dropped_total', 'counter', 'Events dropped because the database was unavailable',
+      [['', sink.dropped]]);
+
+    return lines.join('\n') + '\n';
+  }
+
   // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
   // HEALTH CHECK
   // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
@@ -589,4 +708,10 @@ export function logError(message: string, data?: Record<string, any>): void {
   observability.log('ERROR', message, data);
 }
 
+export function getAIPrometheusMetrics(): string {
+  return observability.getPrometheusMetrics();
+}
+
+export { observabilitySink };
+
 export default observability;
\ No newline at end of file
@@ -3,6 +3,7 @@ import { Request, Response, NextFunction } from 'express';
 import rateLimit from 'express-rate-limit';
 import { adminProtection } from '../config/admin-protection.config';
 import EnhancedLogger from '../config/logger.config';
+import { requireTwoFactor } from '../modules/auth/middleware/two-factor.middleware';
 
 /**
  * ==========================================
@@ -15,6 +16,7 @@ import EnhancedLogger from '../config/logger.config';
  * 2. Admin token validation (optional)
  * 3. Strict rate limiting
  * 4. Comprehensive audit logging
+ * 5. Mandatory 2FA for signed-in admins (step-up on write routes)
  * 
  * Phase 2 - Step 4: Admin Route Protection
  * Last Updated: November 18, 2025
@@ -243,6 +245,38 @@ export const adminAuditLogger = (
   next();
 };
 
+/**
+ * Admin Two-Factor Guard
+ * Admins (users signed in through authMiddleware) must have 2FA enabled
+ * and verified on the current session. Machine endpoints that are only
+ * IP-restricted (no req.user, e.g. monitoring) are not affected.
+ */
+const createAdminTwoFactorGuard = (stepUp: boolean) => {
+  const check = requireTwoFactor({ stepUp });
+
+  return (req: AdminRequest, res: Response, next: NextFunction): void => {
+    if (!(req as any).user?.userId) {
+      next();
+      return;
+    }
+
+    check(req, res, next).catch((error: Error) => {
+      EnhancedLogger.error('Error in admin 2FA guard', error, {
+        endpoint: req.originalUrl,
+      });
+
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error during 2FA verification.',
+        code: 'ADMIN_2FA_GUARD_ERROR',
+      });
+    });
+  };
+};
+
+export const adminTwoFactorGuard = createAdminTwoFactorGuard(false);
+export const adminStepUpGuard = createAdminTwoFactorGuard(true);
+
 /**
  * Combined Admin Guard (All protections)
  * Usage: router.use('/admin', adminGuard)
@@ -250,17 +284,19 @@ export const adminAuditLogger = (
 export const adminGuard = [
   adminRateLimiter,      // Layer 1: Rate limiting
   ipAllowlistGuard,      // Layer 2: IP verification
-  adminTokenGuard,       // Layer 3: Token validation (if enabled)
-  adminAuditLogger,      // Layer 4: Audit logging
+  adminStepUpGuard,      // Layer 3: 2FA with recent step-up
+  adminTokenGuard,       // Layer 4: Token validation (if enabled)
+  adminAuditLogger,      // Layer 5: Audit logging
 ];
 
 /**
- * Lightweight Admin Guard (IP + Audit only, no token)
+ * Lightweight Admin Guard (IP + 2FA + Audit, no token)
  * For routes that don't need token validation
  */
 export const adminGuardLight = [
   adminRateLimiter,
   ipAllowlistGuard,
+  adminTwoFactorGuard,
   adminAuditLogger,
 ];
 
@@ -283,5 +319,7 @@ export default {
   rateLimit: adminRateLimiter,
   ipCheck: ipAllowlistGuard,
   tokenCheck: adminTokenGuard,
+  twoFactor: adminTwoFactorGuard,
+  stepUp: adminStepUpGuard,
   audit: adminAuditLogger,
 };
\ No newline at end of file
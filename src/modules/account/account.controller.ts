@@ -0,0 +1,344 @@
+import { Request, Response } from 'express';
+import * as fs from 'fs';
+import { z } from 'zod';
+import dataExportService, {
+  DataExportErrorReason,
+  DataExportResult,
+} from './services/data-export.service';
+import accountDeletionService, {
+  AccountDeletionErrorReason,
+  AccountDeletionResult,
+} from './services/account-deletion.service';
+
+// Validation schemas
+const deletionRequestSchema = z.object({
+  confirm: z.literal('DELETE', { message: 'Type DELETE to confirm' }),
+  password: z.string().min(1).max(128).optional(),
+  reason: z.string().max(500).optional(),
+});
+
+// Failure reason → HTTP status
+const EXPORT_ERROR_STATUS: Record<DataExportErrorReason, number> = {
+  user_not_found: 404,
+  not_found: 404,
+  export_in_progress: 409,
+  not_ready: 409,
+  rate_limited: 429,
+  expired: 410,
+};
+
+const DELETION_ERROR_STATUS: Record<AccountDeletionErrorReason, number> = {
+  user_not_found: 404,
+  invalid_password: 401,
+  already_scheduled: 409,
+  not_scheduled: 400,
+};
+
+function sendExportFailure(
+  res: Response,
+  result: Pick<DataExportResult, 'error' | 'reason' | 'job' | 'retryAfterSeconds'>
+): void {
+  if (result.retryAfterSeconds) {
+    res.setHeader('Retry-After', String(result.retryAfterSeconds));
+  }
+
+  res.status(result.reason ? EXPORT_ERROR_STATUS[result.reason] : 500).json({
+    success: false,
+    message: result.error || 'Data export failed',
+    reason: result.reason,
+    data: result.job,
+  });
+}
+
+function sendDeletionFailure(res: Response, result: AccountDeletionResult): void {
+  res.status(result.reason ? DELETION_ERROR_STATUS[result.reason] : 500).json({
+    success: false,
+    message: result.error || 'Account deletion request failed',
+    reason: result.reason,
+    data: result.status,
+  });
+}
+
+/**
+ * AccountController - data export ("download my data") and account deletion
+ */
+export class AccountController {
+  /**
+   * POST /api/account/export
+   */
+  async requestExport(req: Request, res: Response): Promise<void> {
+    try {
+      const user = (req as any).user;
+
+      if (!user || !user.userId) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+        return;
+      }
+
+      const result = await dataExportService.requestExport(user.userId, {
+        ipAddress: req.ip,
+        userAgent: req.get('user-agent'),
+      });
+
+      if (!result.success) {
+        sendExportFailure(res, result);
+        return;
+      }
+
+      res.status(202).json({
+        success: true,
+        message: 'Your export is being prepared. We will email you when it is ready',
+        data: result.job,
+      });
+    } catch (error: any) {
+      console.error('❌ Data Export Request Error:', error.message);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to start data export',
+      });
+    }
+  }
+
+  /**
+   * GET /api/account/export
+   */
+  async listExports(req: Request, res: Response): Promise<void> {
+    try {
+      const user = (req as any).user;
+
+      if (!user || !user.userId) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+        return;
+      }
+
+      const exports = await dataExportService.listExports(user.userId);
+
+      res.status(200).json({
+        success: true,
+        data: exports,
+      });
+    } catch (error: any) {
+      console.error('❌ List Exports Error:', error.message);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to fetch data exports',
+      });
+    }
+  }
+
+  /**
+   * GET /api/account/export/:id
+   */
+  async getExport(req: Request, res: Response): Promise<void> {
+    try {
+      const user = (req as any).user;
+
+      if (!user || !user.userId) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+        return;
+      }
+
+      const result = await dataExportService.getExport(user.userId, req.params.id);
+
+      if (!result.success) {
+        sendExportFailure(res, result);
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: result.job,
+      });
+    } catch (error: any) {
+      console.error('❌ Get Export Error:', error.message);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to fetch data export',
+      });
+    }
+  }
+
+  /**
+   * GET /api/account/export/:id/download
+   */
+  async downloadExport(req: Request, res: Response): Promise<void> {
+    try {
+      const user = (req as any).user;
+
+      if (!user || !user.userId) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+        return;
+      }
+
+      const result = await dataExportService.getDownload(user.userId, req.params.id);
+
+      if (!result.success || !result.filePath) {
+        sendExportFailure(res, result);
+        return;
+      }
+
+      res.setHeader('Content-Type', 'application/zip');
+      res.setHeader('Content-Disposition', `attachment; filename="${result.fileName}"`);
+      res.setHeader('Cache-Control', 'no-store');
+      if (result.fileSize) {
+        res.setHeader('Content-Length', String(result.fileSize));
+      }
+
+      fs.createReadStream(result.filePath)
+        .on('error', (error) => {
+          console.error('❌ Export Stream Error:', error.message);
+          res.destroy(error);
+        })
+        .pipe(res);
+    } catch (error: any) {
+      console.error('❌ Export Download Error:', error.message);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to download data export',
+      });
+    }
+  }
+
+  /**
+   * GET /api/account/deletion
+   */
+  async getDeletionStatus(req: Request, res: Response): Promise<void> {
+    try {
+      const user = (req as any).user;
+
+      if (!user || !user.userId) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+        return;
+      }
+
+      const status = await accountDeletionService.getStatus(user.userId);
+
+      if (!status) {
+        res.status(404).json({
+          success: false,
+          message: 'User not found',
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: status,
+      });
+    } catch (error: any) {
+      console.error('❌ Deletion Status Error:', error.message);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to fetch deletion status',
+      });
+    }
+  }
+
+  /**
+   * POST /api/account/deletion
+   */
+  async requestDeletion(req: Request, res: Response): Promise<void> {
+    try {
+      const user = (req as any).user;
+
+      if (!user || !user.userId) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+        return;
+      }
+
+      const { password, reason } = deletionRequestSchema.parse(req.body);
+
+      const result = await accountDeletionService.requestDeletion(user.userId, {
+        password,
+        reason,
+        ipAddress: req.ip,
+        userAgent: req.get('user-agent'),
+      });
+
+      if (!result.success) {
+        sendDeletionFailure(res, result);
+        return;
+      }
+
+      res.status(202).json({
+        success: true,
+        message: 'Your account is scheduled for deletion. You can cancel until then',
+        data: result.status,
+      });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: error.issues,
+        });
+        return;
+      }
+
+      console.error('❌ Deletion Request Error:', error.message);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to schedule account deletion',
+      });
+    }
+  }
+
+  /**
+   * DELETE /api/account/deletion
+   */
+  async cancelDeletion(req: Request, res: Response): Promise<void> {
+    try {
+      const user = (req as any).user;
+
+      if (!user || !user.userId) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+        return;
+      }
+
+      const result = await accountDeletionService.cancelDeletion(user.userId, {
+        ipAddress: req.ip,
+        userAgent: req.get('user-agent'),
+      });
+
+      if (!result.success) {
+        sendDeletionFailure(res, result);
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Account deletion cancelled',
+        data: result.status,
+      });
+    } catch (error: any) {
+      console.error('❌ Deletion Cancel Error:', error.message);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to cancel account deletion',
+      });
+    }
+  }
+}
+
+export default new AccountController();
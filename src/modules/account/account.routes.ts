@@ -0,0 +1,192 @@
+// src/modules/account/account.routes.ts
+/**
+ * ==========================================
+ * ACCOUNT ROUTES - DATA EXPORT & DELETION
+ * ==========================================
+ * "Download my data" (async ZIP export) and account deletion with a
+ * grace period. Sensitive requests need a recent 2FA step-up for users
+ * who enabled two-factor authentication.
+ * Last Updated: October 18, 2026
+ */
+
+import { Router } from 'express';
+import { AccountController } from './account.controller';
+import { authMiddleware } from '../auth/middleware/auth.middleware';
+import { requireStepUp } from '../auth/middleware/two-factor.middleware';
+import { strictAuthLimiter, generalApiLimiter } from '../../config/rate-limiter.config';
+
+const router = Router();
+const accountController = new AccountController();
+
+// ===========================
+// DATA EXPORT ROUTES
+// ===========================
+
+/**
+ * @swagger
+ * /api/account/export:
+ *   post:
+ *     summary: Request a data export
+ *     description: Starts building a ZIP with everything stored about the user (profile, chats, memories, documents, health records, forges, image generations, billing) plus a manifest. The user is emailed when it is ready.
+ *     tags: [Account]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       202:
+ *         description: Export queued (id, status)
+ *       403:
+ *         description: Step-up required (code STEP_UP_REQUIRED)
+ *       409:
+ *         description: An export is already being prepared
+ *       429:
+ *         description: Cooldown between exports (Retry-After)
+ */
+router.post('/export', strictAuthLimiter, authMiddleware, requireStepUp, (req, res) => accountController.requestExport(req, res));
+
+/**
+ * @swagger
+ * /api/account/export:
+ *   get:
+ *     summary: List data exports
+ *     description: The user's most recent export jobs with status and expiry
+ *     tags: [Account]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Export jobs, newest first
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/export', generalApiLimiter, authMiddleware, (req, res) => accountController.listExports(req, res));
+
+/**
+ * @swagger
+ * /api/account/export/{id}:
+ *   get:
+ *     summary: Get data export status
+ *     tags: [Account]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: status, fileSize, completedAt, expiresAt
+ *       404:
+ *         description: Export not found
+ */
+router.get('/export/:id', generalApiLimiter, authMiddleware, (req, res) => accountController.getExport(req, res));
+
+/**
+ * @swagger
+ * /api/account/export/{id}/download:
+ *   get:
+ *     summary: Download a data export
+ *     description: Streams the ZIP archive of a completed export
+ *     tags: [Account]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: ZIP archive
+ *         content:
+ *           application/zip:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       404:
+ *         description: Export not found
+ *       409:
+ *         description: Export is not ready yet
+ *       410:
+ *         description: Export has expired
+ */
+router.get('/export/:id/download', generalApiLimiter, authMiddleware, (req, res) => accountController.downloadExport(req, res));
+
+// ===========================
+// ACCOUNT DELETION ROUTES
+// ===========================
+
+/**
+ * @swagger
+ * /api/account/deletion:
+ *   get:
+ *     summary: Get account deletion status
+ *     tags: [Account]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: scheduled, requestedAt, scheduledAt, graceDays
+ */
+router.get('/deletion', generalApiLimiter, authMiddleware, (req, res) => accountController.getDeletionStatus(req, res));
+
+/**
+ * @swagger
+ * /api/account/deletion:
+ *   post:
+ *     summary: Delete account
+ *     description: Schedules permanent deletion of the account and all its data (including stored files) after a grace period. Can be cancelled until then.
+ *     tags: [Account]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - confirm
+ *             properties:
+ *               confirm:
+ *                 type: string
+ *                 enum: [DELETE]
+ *               password:
+ *                 type: string
+ *                 format: password
+ *                 description: Required for accounts with a password
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       202:
+ *         description: Deletion scheduled (scheduledAt)
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Incorrect password
+ *       403:
+ *         description: Step-up required (code STEP_UP_REQUIRED)
+ *       409:
+ *         description: Deletion already scheduled
+ */
+router.post('/deletion', strictAuthLimiter, authMiddleware, requireStepUp, (req, res) => accountController.requestDeletion(req, res));
+
+/**
+ * @swagger
+ * /api/account/deletion:
+ *   delete:
+ *     summary: Cancel account deletion
+ *     tags: [Account]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Deletion cancelled
+ *       400:
+ *         description: No deletion is scheduled
+ */
+router.delete('/deletion', generalApiLimiter, authMiddleware, (req, res) => accountController.cancelDeletion(req, res));
+
+export default router;
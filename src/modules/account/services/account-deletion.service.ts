@@ -0,0 +1,430 @@
+// src/modules/account/services/account-deletion.service.ts
+
+/**
+ * ==========================================
+ * ACCOUNT DELETION SERVICE
+ * ==========================================
+ * "Delete my account" with a grace period.
+ *
+ * REQUEST:
+ * ✅ Password re-check (password accounts) + explicit confirmation
+ * ✅ Deletion scheduled ACCOUNT_DELETION_GRACE_DAYS ahead; cancellable until then
+ * ✅ Email confirming the date
+ *
+ * PURGE (scheduled job, once the grace period is over):
+ * ✅ Gateway subscriptions cancelled first, so the deleted user is not charged again
+ * ✅ Stored files: FileUpload + Document objects (Cloudinary/S3), health report files
+ * ✅ Document vectors in the vector stores
+ * ✅ Data export ZIPs on disk
+ * ✅ Rows keyed by userId without a foreign key (AI routing/pressure/failure
+ *    logs, user-scoped RAG settings); audit logs are kept but stripped of
+ *    email/IP/user agent
+ * ✅ The user row - every user-linked model cascades from it
+ */
+
+import bcrypt from 'bcrypt';
+import { v2 as cloudinary } from 'cloudinary';
+import { prisma } from '../../../config/prisma';
+import { logger } from '@shared/utils/logger';
+import messagingService from '../../../services/messaging/messaging.service';
+import { fileUploadService } from '../../../services/file-upload.service';
+import { healthUploadService } from '../../health/services/health.upload.service';
+import { ragService } from '../../../rag/services/rag.service';
+import vectorStoreService from '../../../rag/services/vector-store.service';
+import { auditLogService, AuditEventType } from '../../../services/audit-log.service';
+import dataExportService from './data-export.service';
+import subscriptionService from '../../billing/subscription.service';
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// INTERFACES
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export type AccountDeletionErrorReason =
+  | 'user_not_found'
+  | 'invalid_password'
+  | 'already_scheduled'
+  | 'not_scheduled';
+
+export interface AccountDeletionStatus {
+  scheduled: boolean;
+  requestedAt: Date | null;
+  scheduledAt: Date | null;
+  graceDays: number;
+}
+
+export interface AccountDeletionResult {
+  success: boolean;
+  error?: string;
+  reason?: AccountDeletionErrorReason;
+  status?: AccountDeletionStatus;
+}
+
+export interface AccountPurgeReport {
+  userId: string;
+  gatewaySubscriptionsCancelled: number;
+  filesDeleted: number;
+  filesFailed: number;
+  documentsUnindexed: number;
+  exportFilesRemoved: number;
+}
+
+interface StoredObject {
+  provider: string;
+  key: string;
+  mimeType: string;
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// CONFIGURATION
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const PURGE_BATCH_SIZE = 25;
+
+const getGraceDays = (): number => {
+  const value = parseInt(process.env.ACCOUNT_DELETION_GRACE_DAYS || '', 10);
+  return Number.isFinite(value) && value >= 0 ? value : 30;
+};
+
+if (
+  process.env.CLOUDINARY_CLOUD_NAME &&
+  process.env.CLOUDINARY_API_KEY &&
+  process.env.CLOUDINARY_API_SECRET
+) {
+  cloudinary.config({
+    cloud_name: process.env.CLOUDINARY_CLOUD_NAME,
+    api_key: process.env.CLOUDINARY_API_KEY,
+    api_secret: process.env.CLOUDINARY_API_SECRET,
+  });
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// ACCOUNT DELETION SERVICE CLASS
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export class AccountDeletionService {
+  private static instance: AccountDeletionService;
+
+  private constructor() {}
+
+  public static getInstance(): AccountDeletionService {
+    if (!AccountDeletionService.instance) {
+      AccountDeletionService.instance = new AccountDeletionService();
+    }
+    return AccountDeletionService.instance;
+  }
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // USER-FACING FLOW
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  public async getStatus(userId: string): Promise<AccountDeletionStatus | null> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { deletionRequestedAt: true, deletionScheduledAt: true },
+    });
+    if (!user) return null;
+
+    return {
+      scheduled: !!user.deletionScheduledAt,
+      requestedAt: user.deletionRequestedAt,
+      scheduledAt: user.deletionScheduledAt,
+      graceDays: getGraceDays(),
+    };
+  }
+
+  /**
+   * Schedule deletion. Accounts with a password must re-enter it.
+   */
+  public async requestDeletion(
+    userId: string,
+    options: { password?: string; reason?: string; ipAddress?: string; userAgent?: string } = {}
+  ): Promise<AccountDeletionResult> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, email: true, name: true, password: true, deletionScheduledAt: true },
+    });
+
+    if (!user) {
+      return { success: false, error: 'User not found', reason: 'user_not_found' };
+    }
+    if (user.deletionScheduledAt) {
+      return {
+        success: false,
+        error: 'Account deletion is already scheduled',
+        reason: 'already_scheduled',
+        status: (await this.getStatus(userId)) ?? undefined,
+      };
+    }
+    if (user.password) {
+      const valid = !!options.password && (await bcrypt.compare(options.password, user.password));
+      if (!valid) {
+        return { success: false, error: 'Incorrect password', reason: 'invalid_password' };
+      }
+    }
+
+    const requestedAt = new Date();
+    const scheduledAt = new Date(requestedAt.getTime() + getGraceDays() * 24 * 60 * 60 * 1000);
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: {
+        deletionRequestedAt: requestedAt,
+        deletionScheduledAt: scheduledAt,
+        deletionReason: options.reason?.substring(0, 500) || null,
+      },
+    });
+
+    await auditLogService.log({
+      eventType: AuditEventType.ACCOUNT_DELETION_REQUESTED,
+      userId,
+      email: user.email,
+      ipAddress: options.ipAddress,
+      userAgent: options.userAgent,
+      success: true,
+      message: `Account deletion scheduled for ${scheduledAt.toISOString()}`,
+    });
+
+    messagingService
+      .sendMail({
+        to: user.email,
+        subject: 'Your Soriva account is scheduled for deletion',
+        text: [
+          `Hi ${user.name || 'there'},`,
+          '',
+          `Your Soriva account and all of its data will be permanently deleted on ${scheduledAt.toUTCString()}.`,
+          'Until then you can sign in and cancel the deletion from your account settings.',
+          'If you did not ask for this, sign in, cancel the deletion and change your password.',
+        ].join('\n'),
+      })
+      .catch((error) =>
+        logger.warn(`[AccountDeletionService] Deletion notice failed: ${error.message}`)
+      );
+
+    logger.info(
+      `[AccountDeletionService] Deletion scheduled for user ${userId} at ${scheduledAt.toISOString()}`
+    );
+
+    return {
+      success: true,
+      status: {
+        scheduled: true,
+        requestedAt,
+        scheduledAt,
+        graceDays: getGraceDays(),
+      },
+    };
+  }
+
+  public async cancelDeletion(
+    userId: string,
+    context: { ipAddress?: string; userAgent?: string } = {}
+  ): Promise<AccountDeletionResult> {
+    // Once the grace period is over the purge may already be running
+    const cancelled = await prisma.user.updateMany({
+      where: { id: userId, deletionScheduledAt: { gt: new Date() } },
+      data: { deletionRequestedAt: null, deletionScheduledAt: null, deletionReason: null },
+    });
+
+    if (cancelled.count === 0) {
+      const exists = await prisma.user.count({ where: { id: userId } });
+      return exists
+        ? { success: false, error: 'No account deletion is scheduled', reason: 'not_scheduled' }
+        : { success: false, error: 'User not found', reason: 'user_not_found' };
+    }
+
+    await auditLogService.log({
+      eventType: AuditEventType.ACCOUNT_DELETION_CANCELLED,
+      userId,
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+      success: true,
+      message: 'Account deletion cancelled',
+    });
+
+    return { success: true, status: (await this.getStatus(userId)) ?? undefined };
+  }
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // PURGE
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  /**
+   * Scheduled job: permanently delete accounts whose grace period has ended
+   */
+  public async purgeDueAccounts(): Promise<AccountPurgeReport[]> {
+    const due = await prisma.user.findMany({
+      where: { deletionScheduledAt: { lte: new Date() } },
+      orderBy: { deletionScheduledAt: 'asc' },
+      select: { id: true },
+      take: PURGE_BATCH_SIZE,
+    });
+
+    const reports: AccountPurgeReport[] = [];
+    for (const { id } of due) {
+      try {
+        const report = await this.purgeAccount(id);
+        if (report) reports.push(report);
+      } catch (error) {
+        logger.error(`[AccountDeletionService] Purge failed for user ${id}`, error);
+      }
+    }
+    return reports;
+  }
+
+  /**
+   * Delete one account and everything attached to it. Returns null when
+   * the deletion was cancelled in the meantime.
+   */
+  public async purgeAccount(userId: string): Promise<AccountPurgeReport | null> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, deletionScheduledAt: true },
+    });
+    if (!user?.deletionScheduledAt || user.deletionScheduledAt > new Date()) {
+      return null;
+    }
+
+    // 1. Stop gateway renewals; a refusal throws and leaves the account for the next run
+    const gatewaySubscriptionsCancelled = await subscriptionService.stopGatewayRenewals(userId);
+
+    // 2. External storage (needs the rows, so before the cascade)
+    const objects = await this.collectStoredObjects(userId);
+    let filesDeleted = 0;
+    for (const object of objects) {
+      if (await this.deleteStoredObject(object)) filesDeleted++;
+    }
+
+    const healthFiles = await prisma.healthReport.findMany({
+      where: { userId, filePublicId: { not: null } },
+      select: { filePublicId: true, mimeType: true },
+    });
+    for (const report of healthFiles) {
+      const resourceType = report.mimeType.startsWith('image/') ? 'image' : 'raw';
+      if (await healthUploadService.deleteFile(report.filePublicId as string, resourceType)) {
+        filesDeleted++;
+      }
+    }
+
+    // 3. Vectors
+    const documents = await prisma.document.findMany({ where: { userId }, select: { id: true } });
+    let documentsUnindexed = 0;
+    for (const document of documents) {
+      if (await this.unindexDocument(userId, document.id)) documentsUnindexed++;
+    }
+
+    // 4. Export ZIPs
+    const exportFilesRemoved = await dataExportService.removeUserFiles(userId);
+
+    // 5. Rows without a foreign key to users, then the user (cascades the rest)
+    await prisma.$transaction([
+      prisma.aiRoutingLog.deleteMany({ where: { userId } }),
+      prisma.aiPressureEvent.deleteMany({ where: { userId } }),
+      prisma.aiFailureEvent.deleteMany({ where: { userId } }),
+      prisma.rAGConfiguration.deleteMany({ where: { scope: 'user', scopeId: userId } }),
+      prisma.auditLog.updateMany({
+        where: { userId },
+        data: { email: null, ipAddress: null, userAgent: null },
+      }),
+      prisma.user.delete({ where: { id: userId } }),
+    ]);
+
+    const report: AccountPurgeReport = {
+      userId,
+      gatewaySubscriptionsCancelled,
+      filesDeleted,
+      filesFailed: objects.length + healthFiles.length - filesDeleted,
+      documentsUnindexed,
+      exportFilesRemoved,
+    };
+
+    await auditLogService.log({
+      eventType: AuditEventType.ACCOUNT_DELETED,
+      userId,
+      success: true,
+      message: 'Account and associated data permanently deleted',
+      metadata: { ...report },
+    });
+
+    logger.info(`[AccountDeletionService] Account ${userId} purged`, report);
+    return report;
+  }
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // PRIVATE HELPERS
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  private async collectStoredObjects(userId: string): Promise<StoredObject[]> {
+    const [uploads, documents] = await Promise.all([
+      prisma.fileUpload.findMany({
+        where: { userId, storageKey: { not: null } },
+        select: { storageProvider: true, storageKey: true, mimeType: true },
+      }),
+      prisma.document.findMany({
+        where: { userId, storageKey: { not: null } },
+        select: { storageProvider: true, storageKey: true, mimeType: true },
+      }),
+    ]);
+
+    return [...uploads, ...documents].map((row) => ({
+      provider: row.storageProvider,
+      key: row.storageKey as string,
+      mimeType: row.mimeType,
+    }));
+  }
+
+  /**
+   * Best effort - a missing object must not block the account deletion
+   */
+  private async deleteStoredObject(object: StoredObject): Promise<boolean> {
+    try {
+      switch (object.provider) {
+        case 'cloudinary': {
+          const resourceType = object.mimeType.startsWith('image/')
+            ? 'image'
+            : object.mimeType.startsWith('video/') || object.mimeType.startsWith('audio/')
+              ? 'video'
+              : 'raw';
+          const result = await cloudinary.uploader.destroy(object.key, {
+            resource_type: resourceType,
+          });
+          return result.result === 'ok' || result.result === 'not found';
+        }
+        case 'aws-s3':
+        case 's3':
+        case 'supabase':
+          return await fileUploadService.deleteFile(object.key);
+        default:
+          logger.warn(
+            `[AccountDeletionService] Unknown storage provider "${object.provider}" for ${object.key}`
+          );
+          return false;
+      }
+    } catch (error: any) {
+      logger.warn(`[AccountDeletionService] Could not delete ${object.key}: ${error.message}`);
+      return false;
+    }
+  }
+
+  private async unindexDocument(userId: string, documentId: string): Promise<boolean> {
+    try {
+      await vectorStoreService.deleteDocument(userId, documentId);
+    } catch (error: any) {
+      logger.warn(
+        `[AccountDeletionService] Vector namespace cleanup failed for ${documentId}: ${error.message}`
+      );
+    }
+
+    try {
+      // Removes the Supabase vectors and the document row
+      await ragService.deleteDocument(documentId, userId);
+      return true;
+    } catch (error: any) {
+      logger.warn(
+        `[AccountDeletionService] RAG cleanup failed for ${documentId}: ${error.message}`
+      );
+      return false;
+    }
+  }
+}
+
+export default AccountDeletionService.getInstance();
@@ -0,0 +1,688 @@
+// src/modules/account/services/data-export.service.ts
+
+/**
+ * ==========================================
+ * DATA EXPORT SERVICE - "DOWNLOAD MY DATA"
+ * ==========================================
+ * Bundles everything we hold about a user into one ZIP:
+ * profile, chats (decrypted), memories, documents, health records,
+ * forges, image generations and billing history, plus manifest.json.
+ *
+ * ✅ Async: the request returns a job; the ZIP is built in the background
+ * ✅ One active job per user, cooldown between exports
+ * ✅ Jobs left behind by a restart are picked up again by the scheduled maintenance job
+ * ✅ Files expire after DATA_EXPORT_RETENTION_DAYS and are removed from disk
+ * ✅ Email when the export is ready
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../../../config/prisma';
+import zipUtil, { ZipEntry } from '@shared/utils/zip-util';
+import encryptionUtil from '@shared/utils/encryption-util';
+import { logger } from '@shared/utils/logger';
+import messagingService from '../../../services/messaging/messaging.service';
+import { auditLogService, AuditEventType } from '../../../services/audit-log.service';
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// INTERFACES
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export type DataExportStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'expired';
+
+export type DataExportErrorReason =
+  | 'user_not_found'
+  | 'export_in_progress'
+  | 'rate_limited'
+  | 'not_found'
+  | 'not_ready'
+  | 'expired';
+
+export interface DataExportJobSummary {
+  id: string;
+  status: DataExportStatus;
+  fileSize: number | null;
+  requestedAt: Date;
+  completedAt: Date | null;
+  expiresAt: Date | null;
+  downloadCount: number;
+  errorMessage: string | null;
+}
+
+export interface DataExportResult {
+  success: boolean;
+  error?: string;
+  reason?: DataExportErrorReason;
+  job?: DataExportJobSummary;
+  retryAfterSeconds?: number;
+}
+
+export interface DataExportDownload {
+  success: boolean;
+  error?: string;
+  reason?: DataExportErrorReason;
+  filePath?: string;
+  fileName?: string;
+  fileSize?: number;
+}
+
+export interface DataExportManifestFile {
+  path: string;
+  description: string;
+  records: number;
+}
+
+export interface DataExportManifest {
+  format: 'soriva-data-export';
+  version: 1;
+  exportId: string;
+  userId: string;
+  generatedAt: string;
+  files: DataExportManifestFile[];
+  notes: string[];
+}
+
+interface ExportSection {
+  path: string;
+  description: string;
+  records: number;
+  data: unknown;
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// CONFIGURATION
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const MESSAGE_BATCH_SIZE = 1000;
+const MAX_ATTEMPTS = 3;
+// A job stuck in "processing" this long was interrupted (restart/crash)
+const STALE_PROCESSING_MS = 30 * 60 * 1000;
+
+const envInt = (name: string, fallback: number): number => {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+const getExportDir = () => process.env.DATA_EXPORT_DIR || './data-exports';
+const getRetentionDays = () => envInt('DATA_EXPORT_RETENTION_DAYS', 7);
+const getCooldownHours = () => envInt('DATA_EXPORT_COOLDOWN_HOURS', 24);
+
+// Never leaves the database, even in an export of the user's own data
+const USER_OMIT = { password: true } as const;
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// DATA EXPORT SERVICE CLASS
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export class DataExportService {
+  private static instance: DataExportService;
+  private readonly running = new Set<string>();
+
+  private constructor() {}
+
+  public static getInstance(): DataExportService {
+    if (!DataExportService.instance) {
+      DataExportService.instance = new DataExportService();
+    }
+    return DataExportService.instance;
+  }
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // PUBLIC API
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  /**
+   * Queue a new export and start building it in the background
+   */
+  public async requestExport(
+    userId: string,
+    context: { ipAddress?: string; userAgent?: string } = {}
+  ): Promise<DataExportResult> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, email: true },
+    });
+    if (!user) {
+      return { success: false, error: 'User not found', reason: 'user_not_found' };
+    }
+
+    const active = await prisma.dataExportJob.findFirst({
+      where: { userId, status: { in: ['pending', 'processing'] } },
+      orderBy: { requestedAt: 'desc' },
+    });
+    if (active) {
+      return {
+        success: false,
+        error: 'An export is already being prepared',
+        reason: 'export_in_progress',
+        job: this.toSummary(active),
+      };
+    }
+
+    const cooldownMs = getCooldownHours() * 60 * 60 * 1000;
+    const recent = await prisma.dataExportJob.findFirst({
+      where: {
+        userId,
+        status: 'completed',
+        requestedAt: { gt: new Date(Date.now() - cooldownMs) },
+      },
+      orderBy: { requestedAt: 'desc' },
+    });
+    if (recent) {
+      return {
+        success: false,
+        error: `You can request a new export every ${getCooldownHours()} hours`,
+        reason: 'rate_limited',
+        job: this.toSummary(recent),
+        retryAfterSeconds: Math.ceil(
+          (recent.requestedAt.getTime() + cooldownMs - Date.now()) / 1000
+        ),
+      };
+    }
+
+    const job = await prisma.dataExportJob.create({ data: { userId } });
+
+    await auditLogService.log({
+      eventType: AuditEventType.USER_DATA_EXPORT,
+      userId,
+      email: user.email,
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+      success: true,
+      message: 'Data export requested',
+      metadata: { exportId: job.id },
+    });
+
+    setImmediate(() => {
+      this.processJob(job.id).catch((error) =>
+        logger.error(`[DataExportService] Export ${job.id} crashed`, error)
+      );
+    });
+
+    return { success: true, job: this.toSummary(job) };
+  }
+
+  /**
+   * The user's exports, newest first
+   */
+  public async listExports(userId: string, limit: number = 10): Promise<DataExportJobSummary[]> {
+    const jobs = await prisma.dataExportJob.findMany({
+      where: { userId },
+      orderBy: { requestedAt: 'desc' },
+      take: limit,
+    });
+    return jobs.map((job) => this.toSummary(job));
+  }
+
+  public async getExport(userId: string, exportId: string): Promise<DataExportResult> {
+    const job = await prisma.dataExportJob.findFirst({ where: { id: exportId, userId } });
+    if (!job) {
+      return { success: false, error: 'Export not found', reason: 'not_found' };
+    }
+    return { success: true, job: this.toSummary(job) };
+  }
+
+  /**
+   * Resolve the ZIP for download (owner only) and count the download
+   */
+  public async getDownload(userId: string, exportId: string): Promise<DataExportDownload> {
+    const job = await prisma.dataExportJob.findFirst({ where: { id: exportId, userId } });
+
+    if (!job) {
+      return { success: false, error: 'Export not found', reason: 'not_found' };
+    }
+    if (job.status === 'expired' || (job.expiresAt && job.expiresAt <= new Date())) {
+      return {
+        success: false,
+        error: 'This export has expired. Please request a new one',
+        reason: 'expired',
+      };
+    }
+    if (job.status !== 'completed' || !job.filePath || !fs.existsSync(job.filePath)) {
+      return { success: false, error: 'Export is not ready yet', reason: 'not_ready' };
+    }
+
+    await prisma.dataExportJob.update({
+      where: { id: job.id },
+      data: { downloadCount: { increment: 1 } },
+    });
+
+    const date = (job.completedAt || job.requestedAt).toISOString().slice(0, 10);
+    return {
+      success: true,
+      filePath: job.filePath,
+      fileName: `soriva-data-export-${date}.zip`,
+      fileSize: job.fileSize ?? undefined,
+    };
+  }
+
+  /**
+   * Build the ZIP for one job. Claims the job atomically, so concurrent
+   * callers (request handler + maintenance job) never build the same export twice.
+   */
+  public async processJob(exportId: string): Promise<void> {
+    if (this.running.has(exportId)) return;
+
+    const claimed = await prisma.dataExportJob.updateMany({
+      where: { id: exportId, status: 'pending' },
+      data: { status: 'processing', startedAt: new Date(), attempts: { increment: 1 } },
+    });
+    if (claimed.count === 0) return;
+
+    this.running.add(exportId);
+    try {
+      const job = await prisma.dataExportJob.findUniqueOrThrow({ where: { id: exportId } });
+      const { filePath, fileSize, manifest } = await this.buildExport(job.id, job.userId);
+
+      const completedAt = new Date();
+      const expiresAt = new Date(completedAt.getTime() + getRetentionDays() * 24 * 60 * 60 * 1000);
+
+      await prisma.dataExportJob.update({
+        where: { id: exportId },
+        data: {
+          status: 'completed',
+          filePath,
+          fileSize,
+          manifest: manifest as unknown as Prisma.InputJsonValue,
+          errorMessage: null,
+          completedAt,
+          expiresAt,
+        },
+      });
+
+      logger.info(`[DataExportService] Export ${exportId} ready (${fileSize} bytes)`);
+      this.notifyReady(job.userId, expiresAt);
+    } catch (error: any) {
+      const job = await prisma.dataExportJob.findUnique({ where: { id: exportId } });
+      const retry = !!job && job.attempts < MAX_ATTEMPTS;
+
+      await prisma.dataExportJob.update({
+        where: { id: exportId },
+        data: {
+          status: retry ? 'pending' : 'failed',
+          errorMessage: String(error?.message || error).substring(0, 500),
+        },
+      });
+      logger.error(
+        `[DataExportService] Export ${exportId} failed${retry ? ', will retry' : ''}`,
+        error
+      );
+    } finally {
+      this.running.delete(exportId);
+    }
+  }
+
+  /**
+   * Scheduled job: resume pending/interrupted jobs, expire old files
+   */
+  public async runMaintenance(): Promise<{ processed: number; expired: number }> {
+    await prisma.dataExportJob.updateMany({
+      where: {
+        status: 'processing',
+        startedAt: { lt: new Date(Date.now() - STALE_PROCESSING_MS) },
+      },
+      data: { status: 'pending' },
+    });
+
+    const pending = await prisma.dataExportJob.findMany({
+      where: { status: 'pending' },
+      orderBy: { requestedAt: 'asc' },
+      select: { id: true },
+      take: 20,
+    });
+    for (const job of pending) {
+      await this.processJob(job.id);
+    }
+
+    const expired = await prisma.dataExportJob.findMany({
+      where: { status: 'completed', expiresAt: { lte: new Date() } },
+      select: { id: true, filePath: true },
+    });
+    for (const job of expired) {
+      this.removeFile(job.filePath);
+      await prisma.dataExportJob.update({
+        where: { id: job.id },
+        data: { status: 'expired', filePath: null },
+      });
+    }
+
+    return { processed: pending.length, expired: expired.length };
+  }
+
+  /**
+   * Remove every export file of a user (account deletion)
+   */
+  public async removeUserFiles(userId: string): Promise<number> {
+    const jobs = await prisma.dataExportJob.findMany({
+      where: { userId, filePath: { not: null } },
+      select: { filePath: true },
+    });
+    jobs.forEach((job) => this.removeFile(job.filePath));
+    return jobs.length;
+  }
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // EXPORT BUILDING
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  private async buildExport(
+    exportId: string,
+    userId: string
+  ): Promise<{ filePath: string; fileSize: number; manifest: DataExportManifest }> {
+    const sections = [
+      await this.collectProfile(userId),
+      await this.collectChats(userId),
+      await this.collectMemories(userId),
+      await this.collectDocuments(userId),
+      await this.collectHealth(userId),
+      await this.collectForges(userId),
+      await this.collectImages(userId),
+      await this.collectBilling(userId),
+    ];
+
+    const generatedAt = new Date();
+    const manifest: DataExportManifest = {
+      format: 'soriva-data-export',
+      version: 1,
+      exportId,
+      userId,
+      generatedAt: generatedAt.toISOString(),
+      files: sections.map(({ path: filePath, description, records }) => ({
+        path: filePath,
+        description,
+        records,
+      })),
+      notes: [
+        'All files are JSON (UTF-8). Timestamps are ISO 8601 in UTC.',
+        'Chat messages are decrypted. Password hashes and two-factor secrets are never exported.',
+        'Uploaded documents and health reports are referenced by their storage URL; extracted text is included.',
+      ],
+    };
+
+    const entries: ZipEntry[] = [
+      { name: 'manifest.json', data: this.toJson(manifest), modifiedAt: generatedAt },
+      ...sections.map((section) => ({
+        name: section.path,
+        data: this.toJson(section.data),
+        modifiedAt: generatedAt,
+      })),
+    ];
+
+    const dir = getExportDir();
+    fs.mkdirSync(dir, { recursive: true });
+    const filePath = path.join(dir, `data_export_${userId}_${exportId}.zip`);
+    const zip = zipUtil.createZip(entries);
+    fs.writeFileSync(filePath, zip);
+
+    return { filePath, fileSize: zip.length, manifest };
+  }
+
+  private async collectProfile(userId: string): Promise<ExportSection> {
+    const user = await prisma.user.findUnique({ where: { id: userId }, omit: USER_OMIT });
+    if (!user) {
+      throw new Error('User no longer exists');
+    }
+
+    const [sessions, twoFactor, usage] = await Promise.all([
+      prisma.userSession.findMany({ where: { userId }, orderBy: { createdAt: 'desc' } }),
+      prisma.twoFactorAuth.findUnique({
+        where: { userId },
+        select: { enabledAt: true, createdAt: true },
+      }),
+      prisma.usage.findUnique({ where: { userId } }),
+    ]);
+
+    return {
+      path: 'profile.json',
+      description: 'Account profile, settings, login sessions and usage counters',
+      records: 1,
+      data: {
+        user,
+        twoFactorEnabled: !!twoFactor?.enabledAt,
+        twoFactorEnabledAt: twoFactor?.enabledAt ?? null,
+        sessions,
+        usage,
+      },
+    };
+  }
+
+  private async collectChats(userId: string): Promise<ExportSection> {
+    const sessions = await prisma.chatSession.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const messagesBySession = new Map<string, unknown[]>();
+    let messageCount = 0;
+    let cursor: string | undefined;
+
+    // Batched so very long histories don't load in one query
+    while (true) {
+      const batch = await prisma.message.findMany({
+        where: { userId },
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+        take: MESSAGE_BATCH_SIZE,
+        ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+      });
+      if (batch.length === 0) break;
+
+      for (const message of batch) {
+        const { encryptedContent, encryptionIV, encryptionAuthTag, ...rest } = message;
+        const list = messagesBySession.get(message.sessionId) || [];
+        list.push({
+          ...rest,
+          content: this.decryptContent(message.content, {
+            encryptedContent,
+            encryptionIV,
+            encryptionAuthTag,
+          }),
+        });
+        messagesBySession.set(message.sessionId, list);
+      }
+
+      messageCount += batch.length;
+      cursor = batch[batch.length - 1].id;
+      if (batch.length < MESSAGE_BATCH_SIZE) break;
+    }
+
+    return {
+      path: 'chats.json',
+      description: `Chat sessions with all messages (${messageCount} messages)`,
+      records: sessions.length,
+      data: sessions.map((session) => ({
+        ...session,
+        messages: messagesBySession.get(session.id) || [],
+      })),
+    };
+  }
+
+  private async collectMemories(userId: string): Promise<ExportSection> {
+    const memories = await prisma.conversationMemory.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'asc' },
+      include: { rawMessages: { orderBy: { messageIndex: 'asc' } } },
+    });
+
+    return {
+      path: 'memories.json',
+      description: 'What Soriva remembers across conversations (facts, summaries, recent turns)',
+      records: memories.length,
+      data: memories,
+    };
+  }
+
+  private async collectDocuments(userId: string): Promise<ExportSection> {
+    const documents = await prisma.document.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'asc' },
+    });
+    const uploads = await prisma.fileUpload.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return {
+      path: 'documents.json',
+      description: 'Uploaded documents (metadata and extracted text) and chat attachments',
+      records: documents.length + uploads.length,
+      data: { documents, uploads },
+    };
+  }
+
+  private async collectHealth(userId: string): Promise<ExportSection> {
+    const [reports, familyMembers, reminders, chats] = await Promise.all([
+      prisma.healthReport.findMany({ where: { userId }, orderBy: { reportDate: 'asc' } }),
+      prisma.healthFamilyMember.findMany({ where: { userId } }),
+      prisma.healthReminder.findMany({ where: { userId } }),
+      prisma.healthChat.findMany({ where: { userId } }),
+    ]);
+
+    return {
+      path: 'health.json',
+      description: 'Health reports, family members, reminders and health chats',
+      records: reports.length,
+      data: { reports, familyMembers, reminders, chats },
+    };
+  }
+
+  private async collectForges(userId: string): Promise<ExportSection> {
+    const forges = await prisma.forge.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return {
+      path: 'forges.json',
+      description: 'Code and content saved as forges',
+      records: forges.length,
+      data: forges,
+    };
+  }
+
+  private async collectImages(userId: string): Promise<ExportSection> {
+    const images = await prisma.imageGeneration.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return {
+      path: 'image-generations.json',
+      description: 'Image generation prompts and result URLs',
+      records: images.length,
+      data: images,
+    };
+  }
+
+  private async collectBilling(userId: string): Promise<ExportSection> {
+    const [transactions, subscriptions, boosters] = await Promise.all([
+      prisma.transaction.findMany({
+        where: { userId },
+        orderBy: { createdAt: 'asc' },
+        omit: { gatewaySignature: true },
+      }),
+      prisma.subscription.findMany({ where: { userId }, orderBy: { createdAt: 'asc' } }),
+      prisma.booster.findMany({ where: { userId }, orderBy: { createdAt: 'asc' } }),
+    ]);
+
+    return {
+      path: 'billing.json',
+      description:
+        'Payments (transaction amounts in paise/cents), subscriptions and booster purchases',
+      records: transactions.length,
+      data: { transactions, subscriptions, boosters },
+    };
+  }
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // PRIVATE HELPERS
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  /**
+   * Stored ciphertext wins over the plaintext column when it decrypts
+   */
+  private decryptContent(
+    content: string,
+    encrypted: {
+      encryptedContent: string | null;
+      encryptionIV: string | null;
+      encryptionAuthTag: string | null;
+    }
+  ): string {
+    if (!encrypted.encryptedContent || !encrypted.encryptionIV || !encrypted.encryptionAuthTag) {
+      return content;
+    }
+    try {
+      return encryptionUtil.decrypt({
+        encrypted: encrypted.encryptedContent,
+        iv: encrypted.encryptionIV,
+        authTag: encrypted.encryptionAuthTag,
+      });
+    } catch {
+      return content;
+    }
+  }
+
+  private toJson(value: unknown): string {
+    return JSON.stringify(
+      value,
+      (_key, item) => (typeof item === 'bigint' ? item.toString() : item),
+      2
+    );
+  }
+
+  private removeFile(filePath: string | null): void {
+    if (!filePath) return;
+    try {
+      fs.rmSync(filePath, { force: true });
+    } catch (error: any) {
+      logger.warn(`[DataExportService] Could not remove ${filePath}: ${error.message}`);
+    }
+  }
+
+  private notifyReady(userId: string, expiresAt: Date): void {
+    prisma.user
+      .findUnique({ where: { id: userId }, select: { email: true, name: true } })
+      .then((user) => {
+        if (!user) return;
+        const link = `${(process.env.FRONTEND_URL || 'http://localhost:3000').replace(/\/$/, '')}/settings/privacy`;
+        return messagingService.sendMail({
+          to: user.email,
+          subject: 'Your Soriva data export is ready',
+          text: [
+            `Hi ${user.name || 'there'},`,
+            '',
+            'The copy of your Soriva data you asked for is ready. Download it while signed in:',
+            link,
+            '',
+            `The download is available until ${expiresAt.toUTCString()}.`,
+          ].join('\n'),
+        });
+      })
+      .catch((error) => logger.warn(`[DataExportService] Ready notice failed: ${error.message}`));
+  }
+
+  private toSummary(job: {
+    id: string;
+    status: string;
+    fileSize: number | null;
+    requestedAt: Date;
+    completedAt: Date | null;
+    expiresAt: Date | null;
+    downloadCount: number;
+    errorMessage: string | null;
+  }): DataExportJobSummary {
+    return {
+      id: job.id,
+      status: job.status as DataExportStatus,
+      fileSize: job.fileSize,
+      requestedAt: job.requestedAt,
+      completedAt: job.completedAt,
+      expiresAt: job.expiresAt,
+      downloadCount: job.downloadCount,
+      errorMessage: job.status === 'failed' ? job.errorMessage : null,
+    };
+  }
+}
+
+export default DataExportService.getInstance();
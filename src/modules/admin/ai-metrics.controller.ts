@@ -0,0 +1,163 @@
+/**
+ * SORIVA ADMIN - AI METRICS CONTROLLER (CLASS-BASED)
+ * Created by: Amandeep, Punjab, India
+ * Purpose: Historical AI routing / usage / failure aggregates from persisted observability events
+ * Architecture: Class-based, Singleton pattern
+ */
+
+import { Request, Response } from 'express';
+import { aiMetricsService, AIMetricsQuery, AIMetricsResult } from '../../services/ai-metrics.service';
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// CONSTANTS
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const DEFAULT_RANGE_DAYS = 7;
+const MAX_RANGE_DAYS = 90;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// AI METRICS CONTROLLER CLASS
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+class AIMetricsController {
+  private static instance: AIMetricsController;
+
+  private constructor() {}
+
+  /**
+   * Singleton pattern - Get instance
+   */
+  public static getInstance(): AIMetricsController {
+    if (!AIMetricsController.instance) {
+      AIMetricsController.instance = new AIMetricsController();
+    }
+    return AIMetricsController.instance;
+  }
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // HELPER METHODS
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  /**
+   * Range + filters from ?from=&to=&plan=&model=
+   * Defaults to the last 7 days; returns an error message when invalid
+   */
+  private parseQuery(req: Request): { query?: AIMetricsQuery; error?: string } {
+    const { from, to, plan, model } = req.query;
+
+    const toDate = to ? new Date(String(to)) : new Date();
+    const fromDate = from ? new Date(String(from)) : new Date(toDate.getTime() - DEFAULT_RANGE_DAYS * DAY_MS);
+
+    if (isNaN(fromDate.getTime()) || isNaN(toDate.getTime())) {
+      return { error: 'Invalid from/to date' };
+    }
+    if (fromDate > toDate) {
+      return { error: '"from" must be before "to"' };
+    }
+    if (toDate.getTime() - fromDate.getTime() > MAX_RANGE_DAYS * DAY_MS) {
+      return { error: `Date range too large (maximum ${MAX_RANGE_DAYS} days)` };
+    }
+
+    return {
+      query: {
+        from: fromDate,
+        to: toDate,
+        plan: plan ? String(plan).toUpperCase() : undefined,
+        model: model ? String(model) : undefined,
+      },
+    };
+  }
+
+  private sendError(res: Response, status: number, code: string, message: string): void {
+    res.status(status).json({
+      success: false,
+      error: { code, message },
+    });
+  }
+
+  private sendSuccess(res: Response, data: any, status: number = 200): void {
+    res.status(status).json({
+      success: true,
+      data,
+    });
+  }
+
+  /**
+   * Shared flow: parse query → run aggregate → respond with range + result
+   */
+  private async respond<T>(
+    req: Request,
+    res: Response,
+    label: string,
+    load: (query: AIMetricsQuery) => Promise<AIMetricsResult<T>>
+  ): Promise<void> {
+    try {
+      const { query, error } = this.parseQuery(req);
+      if (!query) {
+        this.sendError(res, 400, 'VALIDATION_ERROR', error || 'Invalid query');
+        return;
+      }
+
+      const result = await load(query);
+      if (!result.success) {
+        this.sendError(res, 500, 'INTERNAL_ERROR', result.error || `Failed to fetch ${label}`);
+        return;
+      }
+
+      this.sendSuccess(res, {
+        range: { from: query.from.toISOString(), to: query.to.toISOString() },
+        filters: { plan: query.plan || null, model: query.model || null },
+        [label]: result.data,
+      });
+    } catch (error) {
+      console.error(`[AIMetricsController] ${label} error:`, error);
+      this.sendError(res, 500, 'INTERNAL_ERROR', `Failed to fetch ${label}`);
+    }
+  }
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // AGGREGATES
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  /**
+   * GET /admin/ai-metrics/daily
+   */
+  public getDaily = async (req: Request, res: Response): Promise<void> => {
+    await this.respond(req, res, 'days', (query) => aiMetricsService.getDailyMetrics(query));
+  };
+
+  /**
+   * GET /admin/ai-metrics/plans
+   */
+  public getPlans = async (req: Request, res: Response): Promise<void> => {
+    await this.respond(req, res, 'plans', (query) => aiMetricsService.getPlanMetrics(query));
+  };
+
+  /**
+   * GET /admin/ai-metrics/models
+   */
+  public getModels = async (req: Request, res: Response): Promise<void> => {
+    await this.respond(req, res, 'models', (query) => aiMetricsService.getModelMetrics(query));
+  };
+
+  /**
+   * GET /admin/ai-metrics/token-accuracy
+   */
+  public getTokenAccuracy = async (req: Request, res: Response): Promise<void> => {
+    await this.respond(req, res, 'tokenAccuracy', (query) => aiMetricsService.getTokenAccuracy(query));
+  };
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// EXPORTS (Singleton instance)
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const aiMetricsController = AIMetricsController.getInstance();
+
+export default {
+  getDaily: aiMetricsController.getDaily,
+  getPlans: aiMetricsController.getPlans,
+  getModels: aiMetricsController.getModels,
+  getTokenAccuracy: aiMetricsController.getTokenAccuracy,
+};
@@ -0,0 +1,165 @@
+// src/modules/admin/ai-metrics.routes.ts
+// ============================================
+// AI METRICS ROUTES
+// Historical AI observability aggregates (read-only)
+// ============================================
+import { Router } from 'express';
+import aiMetricsController from './ai-metrics.controller';
+import { authMiddleware } from '../auth/middleware/auth.middleware';
+import { adminGuardLight } from '../../middleware/admin-guard.middleware';
+
+/**
+ * ==========================================
+ * ADMIN PROTECTION ENABLED
+ * ==========================================
+ * Security Layers:
+ * 1. authMiddleware - User authentication (JWT)
+ * 2. adminGuardLight - IP allowlist + Rate limit + Audit (read routes)
+ *
+ * All routes accept:
+ *   ?from=ISO date  (default: 7 days before "to")
+ *   ?to=ISO date    (default: now, max range 90 days)
+ *   ?plan=PLAN      (e.g. PLUS)
+ *   ?model=MODEL_ID
+ *
+ * Live, per-process numbers: GET /metrics/ai (Prometheus)
+ *
+ * Last Updated: October 18, 2026
+ */
+
+const router = Router();
+
+/**
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ * AGGREGATE ROUTES
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ */
+
+/**
+ * @swagger
+ * /api/admin/ai-metrics/daily:
+ *   get:
+ *     summary: Per-day AI metrics
+ *     description: Requests, downgrades, model calls, tokens, cost (INR), latency and failures per UTC day
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/AIMetricsFrom'
+ *       - $ref: '#/components/parameters/AIMetricsTo'
+ *       - $ref: '#/components/parameters/AIMetricsPlan'
+ *       - $ref: '#/components/parameters/AIMetricsModel'
+ *     responses:
+ *       200:
+ *         description: Daily aggregates
+ *       400:
+ *         description: Invalid date range
+ *       403:
+ *         description: IP not in admin allowlist
+ */
+router.get('/daily', authMiddleware, adminGuardLight, aiMetricsController.getDaily);
+
+/**
+ * @swagger
+ * /api/admin/ai-metrics/plans:
+ *   get:
+ *     summary: Per-plan AI metrics
+ *     description: Requests, downgrade rate, tokens, cost (INR) and latency per plan
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/AIMetricsFrom'
+ *       - $ref: '#/components/parameters/AIMetricsTo'
+ *       - $ref: '#/components/parameters/AIMetricsPlan'
+ *       - $ref: '#/components/parameters/AIMetricsModel'
+ *     responses:
+ *       200:
+ *         description: Plan aggregates
+ *       400:
+ *         description: Invalid date range
+ */
+router.get('/plans', authMiddleware, adminGuardLight, aiMetricsController.getPlans);
+
+/**
+ * @swagger
+ * /api/admin/ai-metrics/models:
+ *   get:
+ *     summary: Per-model AI metrics
+ *     description: Calls, error rate, tokens, cost (INR), average and p95 latency per model
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/AIMetricsFrom'
+ *       - $ref: '#/components/parameters/AIMetricsTo'
+ *       - $ref: '#/components/parameters/AIMetricsPlan'
+ *       - $ref: '#/components/parameters/AIMetricsModel'
+ *     responses:
+ *       200:
+ *         description: Model aggregates
+ *       400:
+ *         description: Invalid date range
+ */
+router.get('/models', authMiddleware, adminGuardLight, aiMetricsController.getModels);
+
+/**
+ * @swagger
+ * /api/admin/ai-metrics/token-accuracy:
+ *   get:
+ *     summary: Token estimate accuracy
+ *     description: How close pre-call token estimates were to actual usage, overall and per model
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/AIMetricsFrom'
+ *       - $ref: '#/components/parameters/AIMetricsTo'
+ *       - $ref: '#/components/parameters/AIMetricsPlan'
+ *       - $ref: '#/components/parameters/AIMetricsModel'
+ *     responses:
+ *       200:
+ *         description: Accuracy (0-100), average delta (actual - estimated) and underestimate rate
+ *       400:
+ *         description: Invalid date range
+ */
+router.get('/token-accuracy', authMiddleware, adminGuardLight, aiMetricsController.getTokenAccuracy);
+
+/**
+ * @swagger
+ * components:
+ *   parameters:
+ *     AIMetricsFrom:
+ *       in: query
+ *       name: from
+ *       schema:
+ *         type: string
+ *         format: date-time
+ *       description: Range start (default 7 days before "to")
+ *     AIMetricsTo:
+ *       in: query
+ *       name: to
+ *       schema:
+ *         type: string
+ *         format: date-time
+ *       description: Range end (default now, maximum range 90 days)
+ *     AIMetricsPlan:
+ *       in: query
+ *       name: plan
+ *       schema:
+ *         type: string
+ *       example: PLUS
+ *     AIMetricsModel:
+ *       in: query
+ *       name: model
+ *       schema:
+ *         type: string
+ *       example: gemini-2.0-flash
+ */
+
+/**
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ * EXPORT
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ */
+export default router;
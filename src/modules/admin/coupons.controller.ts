@@ -0,0 +1,270 @@
+/**
+ * SORIVA ADMIN - COUPONS CONTROLLER (CLASS-BASED)
+ * Created by: Amandeep, Punjab, India
+ * Purpose: Create, update and retire promo codes; inspect their redemptions
+ * Architecture: Class-based, Singleton pattern
+ */
+
+import { Request, Response } from 'express';
+import couponService, {
+  CouponChangeMeta,
+  CouponErrorReason,
+  CouponInput,
+} from '../billing/coupon.service';
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// CONSTANTS
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+const COUPON_ERROR_STATUS: Partial<Record<CouponErrorReason, number>> = {
+  not_found: 404,
+  duplicate_code: 409,
+  invalid_input: 400,
+};
+
+const DATE_FIELDS = ['startsAt', 'expiresAt'] as const;
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// COUPONS CONTROLLER CLASS
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+class CouponsController {
+  private static instance: CouponsController;
+
+  private constructor() {}
+
+  /**
+   * Singleton pattern - Get instance
+   */
+  public static getInstance(): CouponsController {
+    if (!CouponsController.instance) {
+      CouponsController.instance = new CouponsController();
+    }
+    return CouponsController.instance;
+  }
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // HELPER METHODS
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  private getChangeMeta(req: Request): CouponChangeMeta {
+    const user = (req as any).user;
+    return {
+      changedBy: user?.userId || 'admin',
+      ipAddress: req.ip || req.socket.remoteAddress,
+      userAgent: req.headers['user-agent'],
+    };
+  }
+
+  /**
+   * Body → CouponInput. Dates arrive as ISO strings (null clears them);
+   * everything else is checked by CouponService.
+   */
+  private parseInput(body: any): { input?: CouponInput; error?: string } {
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return { error: 'Request body must be a JSON object' };
+    }
+
+    const input: CouponInput = { ...body };
+
+    for (const field of DATE_FIELDS) {
+      const value = body[field];
+      if (value === undefined || value === null) {
+        continue;
+      }
+      const date = new Date(value);
+      if (typeof value !== 'string' || isNaN(date.getTime())) {
+        return { error: `${field} must be an ISO date string` };
+      }
+      input[field] = date;
+    }
+
+    for (const field of ['plans', 'regions', 'currencies'] as const) {
+      const value = body[field];
+      if (
+        value !== undefined &&
+        (!Array.isArray(value) || value.some((item: unknown) => typeof item !== 'string'))
+      ) {
+        return { error: `${field} must be an array of strings` };
+      }
+    }
+
+    if (input.plans) {
+      input.plans = input.plans.map((plan) => plan.toUpperCase());
+    }
+
+    return { input };
+  }
+
+  private sendResultError(
+    res: Response,
+    result: { error?: string; reason?: CouponErrorReason },
+    fallback: string
+  ): void {
+    this.sendError(
+      res,
+      (result.reason && COUPON_ERROR_STATUS[result.reason]) || 500,
+      result.reason?.toUpperCase() || 'INTERNAL_ERROR',
+      result.error || fallback
+    );
+  }
+
+  private sendError(res: Response, status: number, code: string, message: string): void {
+    res.status(status).json({
+      success: false,
+      error: { code, message },
+    });
+  }
+
+  private sendSuccess(res: Response, data: any, status: number = 200): void {
+    res.status(status).json({
+      success: true,
+      data,
+    });
+  }
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // READ
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  /**
+   * GET /admin/coupons?page=&limit=&active=&search=
+   */
+  public getAll = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const page = Math.max(parseInt(String(req.query.page || 1)) || 1, 1);
+      const limit = Math.min(
+        Math.max(parseInt(String(req.query.limit || DEFAULT_PAGE_SIZE)) || DEFAULT_PAGE_SIZE, 1),
+        MAX_PAGE_SIZE
+      );
+      const active =
+        req.query.active === undefined ? undefined : String(req.query.active) === 'true';
+      const search = req.query.search ? String(req.query.search) : undefined;
+
+      const result = await couponService.listCoupons({ page, limit, active, search });
+
+      this.sendSuccess(res, result);
+    } catch (error) {
+      console.error('[CouponsController] Get all error:', error);
+      this.sendError(res, 500, 'INTERNAL_ERROR', 'Failed to fetch coupons');
+    }
+  };
+
+  /**
+   * GET /admin/coupons/:id
+   * Coupon with redemption totals and latest redemptions
+   */
+  public getById = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const result = await couponService.getCoupon(String(req.params.id));
+
+      if (!result) {
+        this.sendError(res, 404, 'NOT_FOUND', 'Coupon not found');
+        return;
+      }
+
+      this.sendSuccess(res, result);
+    } catch (error) {
+      console.error('[CouponsController] Get by id error:', error);
+      this.sendError(res, 500, 'INTERNAL_ERROR', 'Failed to fetch coupon');
+    }
+  };
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // WRITE
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  /**
+   * POST /admin/coupons
+   */
+  public create = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { input, error } = this.parseInput(req.body);
+      if (!input) {
+        this.sendError(res, 400, 'VALIDATION_ERROR', error!);
+        return;
+      }
+
+      const result = await couponService.createCoupon(input, this.getChangeMeta(req));
+
+      if (!result.success) {
+        this.sendResultError(res, result, 'Failed to create coupon');
+        return;
+      }
+
+      this.sendSuccess(res, result.coupon, 201);
+    } catch (error) {
+      console.error('[CouponsController] Create error:', error);
+      this.sendError(res, 500, 'INTERNAL_ERROR', 'Failed to create coupon');
+    }
+  };
+
+  /**
+   * PATCH /admin/coupons/:id
+   */
+  public update = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { input, error } = this.parseInput(req.body);
+      if (!input) {
+        this.sendError(res, 400, 'VALIDATION_ERROR', error!);
+        return;
+      }
+
+      const result = await couponService.updateCoupon(
+        String(req.params.id),
+        input,
+        this.getChangeMeta(req)
+      );
+
+      if (!result.success) {
+        this.sendResultError(res, result, 'Failed to update coupon');
+        return;
+      }
+
+      this.sendSuccess(res, result.coupon);
+    } catch (error) {
+      console.error('[CouponsController] Update error:', error);
+      this.sendError(res, 500, 'INTERNAL_ERROR', 'Failed to update coupon');
+    }
+  };
+
+  /**
+   * DELETE /admin/coupons/:id
+   * Deactivates; redemptions are kept for reporting
+   */
+  public deactivate = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const result = await couponService.deactivateCoupon(
+        String(req.params.id),
+        this.getChangeMeta(req)
+      );
+
+      if (!result.success) {
+        this.sendResultError(res, result, 'Failed to deactivate coupon');
+        return;
+      }
+
+      this.sendSuccess(res, result.coupon);
+    } catch (error) {
+      console.error('[CouponsController] Deactivate error:', error);
+      this.sendError(res, 500, 'INTERNAL_ERROR', 'Failed to deactivate coupon');
+    }
+  };
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// EXPORTS (Singleton instance)
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const couponsController = CouponsController.getInstance();
+
+export default {
+  getAll: couponsController.getAll,
+  getById: couponsController.getById,
+  create: couponsController.create,
+  update: couponsController.update,
+  deactivate: couponsController.deactivate,
+};
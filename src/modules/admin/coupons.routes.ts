@@ -0,0 +1,230 @@
+// src/modules/admin/coupons.routes.ts
+// ============================================
+// COUPON ROUTES
+// Promo code management with FORTRESS protection
+// ============================================
+import { Router } from 'express';
+import couponsController from './coupons.controller';
+import { authMiddleware } from '../auth/middleware/auth.middleware';
+import { adminGuard, adminGuardLight } from '../../middleware/admin-guard.middleware';
+
+/**
+ * ==========================================
+ * ADMIN PROTECTION ENABLED
+ * ==========================================
+ * Security Layers:
+ * 1. authMiddleware - User authentication (JWT)
+ * 2. adminGuardLight - IP allowlist + Rate limit + Audit (read routes)
+ * 3. adminGuard - Full protection (create/update/deactivate)
+ *
+ * Flat discounts are in minor units (paise/cents) of the coupon currency.
+ * Every change is written to the audit log.
+ *
+ * Last Updated: October 18, 2026
+ */
+
+const router = Router();
+
+/**
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ * READ ROUTES
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ */
+
+/**
+ * @swagger
+ * /api/admin/coupons:
+ *   get:
+ *     summary: List coupons
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *       - in: query
+ *         name: active
+ *         schema:
+ *           type: boolean
+ *       - in: query
+ *         name: search
+ *         description: Part of the code
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Coupons with pagination, newest first
+ *       403:
+ *         description: IP not in admin allowlist
+ */
+router.get('/', authMiddleware, adminGuardLight, couponsController.getAll);
+
+/**
+ * @swagger
+ * /api/admin/coupons/{id}:
+ *   get:
+ *     summary: Coupon details
+ *     description: Coupon with redemptions and total discount per currency, plus the 20 latest redemptions
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Coupon and redemption stats
+ *       404:
+ *         description: Coupon not found
+ */
+router.get('/:id', authMiddleware, adminGuardLight, couponsController.getById);
+
+/**
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ * WRITE ROUTES
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ */
+
+/**
+ * @swagger
+ * /api/admin/coupons:
+ *   post:
+ *     summary: Create a coupon
+ *     description: Empty plans/regions/currencies mean no restriction. The code is stored uppercase.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *               - discountType
+ *               - discountValue
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 example: WELCOME20
+ *               description:
+ *                 type: string
+ *               discountType:
+ *                 type: string
+ *                 enum: [percentage, flat]
+ *               discountValue:
+ *                 type: integer
+ *                 description: Percent (1-100), or minor units of currency for flat coupons
+ *                 example: 20
+ *               currency:
+ *                 type: string
+ *                 description: Required for flat coupons
+ *                 example: INR
+ *               appliesTo:
+ *                 type: string
+ *                 enum: [all, subscription, addon_booster]
+ *                 default: all
+ *               plans:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 example: [PLUS, PRO]
+ *               regions:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [IN, INTL]
+ *               currencies:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               maxRedemptions:
+ *                 type: integer
+ *                 nullable: true
+ *               perUserLimit:
+ *                 type: integer
+ *                 default: 1
+ *               firstPurchaseOnly:
+ *                 type: boolean
+ *                 default: false
+ *               startsAt:
+ *                 type: string
+ *                 format: date-time
+ *               expiresAt:
+ *                 type: string
+ *                 format: date-time
+ *               isActive:
+ *                 type: boolean
+ *                 default: true
+ *     responses:
+ *       201:
+ *         description: Coupon created
+ *       400:
+ *         description: Invalid coupon settings
+ *       409:
+ *         description: Code already exists
+ */
+router.post('/', authMiddleware, adminGuard, couponsController.create);
+
+/**
+ * @swagger
+ * /api/admin/coupons/{id}:
+ *   patch:
+ *     summary: Update a coupon
+ *     description: Any field from create except code and discountType. null clears startsAt, expiresAt, maxRedemptions and currency.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Coupon updated
+ *       400:
+ *         description: Invalid coupon settings
+ *       404:
+ *         description: Coupon not found
+ */
+router.patch('/:id', authMiddleware, adminGuard, couponsController.update);
+
+/**
+ * @swagger
+ * /api/admin/coupons/{id}:
+ *   delete:
+ *     summary: Deactivate a coupon
+ *     description: The code stops working; past redemptions are kept
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Coupon deactivated
+ *       404:
+ *         description: Coupon not found
+ */
+router.delete('/:id', authMiddleware, adminGuard, couponsController.deactivate);
+
+export default router;
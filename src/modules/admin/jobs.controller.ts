@@ -0,0 +1,266 @@
+/**
+ * SORIVA ADMIN - JOBS CONTROLLER (CLASS-BASED)
+ * Created by: Amandeep, Punjab, India
+ * Purpose: Inspect, trigger, pause and resume scheduled background jobs
+ * Architecture: Class-based, Singleton pattern
+ */
+
+import { Request, Response } from 'express';
+import { jobScheduler, JobChangeMeta, JobErrorReason } from '../../services/jobs';
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// CONSTANTS
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const MAX_REASON_LENGTH = 500;
+const DEFAULT_HISTORY_LIMIT = 50;
+const MAX_HISTORY_LIMIT = 200;
+
+const JOB_ERROR_STATUS: Record<JobErrorReason, number> = {
+  unavailable: 503,
+  unknown_job: 404,
+  already_running: 409,
+  already_paused: 409,
+  not_paused: 409,
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// JOBS CONTROLLER CLASS
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+class JobsController {
+  private static instance: JobsController;
+
+  private constructor() {}
+
+  /**
+   * Singleton pattern - Get instance
+   */
+  public static getInstance(): JobsController {
+    if (!JobsController.instance) {
+      JobsController.instance = new JobsController();
+    }
+    return JobsController.instance;
+  }
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // HELPER METHODS
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  private getChangeMeta(req: Request, reason?: string): JobChangeMeta {
+    const user = (req as any).user;
+    return {
+      changedBy: user?.userId || 'admin',
+      reason,
+      ipAddress: req.ip || req.socket.remoteAddress,
+      userAgent: req.headers['user-agent'],
+    };
+  }
+
+  /**
+   * Returns an error message, or null when the reason is acceptable
+   */
+  private validateReason(reason: unknown, required: boolean): string | null {
+    if (reason === undefined && !required) {
+      return null;
+    }
+    if (typeof reason !== 'string' || reason.trim().length === 0) {
+      return 'A reason is required to pause or resume a job';
+    }
+    if (reason.length > MAX_REASON_LENGTH) {
+      return `Reason too long (maximum ${MAX_REASON_LENGTH} characters)`;
+    }
+    return null;
+  }
+
+  private sendUnavailable(res: Response): void {
+    this.sendError(
+      res,
+      503,
+      'UNAVAILABLE',
+      'Background jobs are disabled (REDIS_URL not configured)'
+    );
+  }
+
+  private sendError(res: Response, status: number, code: string, message: string): void {
+    res.status(status).json({
+      success: false,
+      error: { code, message },
+    });
+  }
+
+  private sendSuccess(res: Response, data: any, status: number = 200): void {
+    res.status(status).json({
+      success: true,
+      data,
+    });
+  }
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // READ
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  /**
+   * GET /admin/jobs
+   * All scheduled jobs with pause state, next run and last run
+   */
+  public getAll = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!jobScheduler.isAvailable()) {
+        this.sendUnavailable(res);
+        return;
+      }
+
+      const jobs = await jobScheduler.listJobs();
+
+      this.sendSuccess(res, {
+        jobs,
+        total: jobs.length,
+      });
+    } catch (error) {
+      console.error('[JobsController] Get all error:', error);
+      this.sendError(res, 500, 'INTERNAL_ERROR', 'Failed to fetch jobs');
+    }
+  };
+
+  /**
+   * GET /admin/jobs/history?name=&limit=
+   * Retained runs (newest first)
+   */
+  public getHistory = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!jobScheduler.isAvailable()) {
+        this.sendUnavailable(res);
+        return;
+      }
+
+      const name = req.query.name ? String(req.query.name) : undefined;
+      if (name && !jobScheduler.hasJob(name)) {
+        this.sendError(res, 404, 'NOT_FOUND', `Unknown job: ${name}`);
+        return;
+      }
+
+      const limit = Math.min(
+        Math.max(
+          parseInt(String(req.query.limit || DEFAULT_HISTORY_LIMIT)) || DEFAULT_HISTORY_LIMIT,
+          1
+        ),
+        MAX_HISTORY_LIMIT
+      );
+
+      const history = await jobScheduler.getHistory(name, limit);
+
+      this.sendSuccess(res, {
+        history,
+        total: history.length,
+      });
+    } catch (error) {
+      console.error('[JobsController] Get history error:', error);
+      this.sendError(res, 500, 'INTERNAL_ERROR', 'Failed to fetch job history');
+    }
+  };
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // WRITE
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  /**
+   * POST /admin/jobs/:name/trigger
+   * Run a job now, outside its schedule
+   * Body: { reason? }
+   */
+  public trigger = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { reason } = req.body || {};
+
+      const reasonError = this.validateReason(reason, false);
+      if (reasonError) {
+        this.sendError(res, 400, 'VALIDATION_ERROR', reasonError);
+        return;
+      }
+
+      const name = String(req.params.name);
+      const result = await jobScheduler.trigger(name, this.getChangeMeta(req, reason));
+
+      if (!result.success) {
+        this.sendError(
+          res,
+          result.reason ? JOB_ERROR_STATUS[result.reason] : 500,
+          result.reason?.toUpperCase() || 'INTERNAL_ERROR',
+          result.error || 'Failed to trigger job'
+        );
+        return;
+      }
+
+      this.sendSuccess(res, { name, runId: result.runId }, 202);
+    } catch (error) {
+      console.error('[JobsController] Trigger error:', error);
+      this.sendError(res, 500, 'INTERNAL_ERROR', 'Failed to trigger job');
+    }
+  };
+
+  /**
+   * POST /admin/jobs/:name/pause
+   * Stop scheduled runs on every instance until resumed
+   * Body: { reason }
+   */
+  public pause = async (req: Request, res: Response): Promise<void> => {
+    await this.setPaused(req, res, true);
+  };
+
+  /**
+   * POST /admin/jobs/:name/resume
+   * Body: { reason }
+   */
+  public resume = async (req: Request, res: Response): Promise<void> => {
+    await this.setPaused(req, res, false);
+  };
+
+  private async setPaused(req: Request, res: Response, paused: boolean): Promise<void> {
+    const action = paused ? 'pause' : 'resume';
+    try {
+      const { reason } = req.body || {};
+
+      const reasonError = this.validateReason(reason, true);
+      if (reasonError) {
+        this.sendError(res, 400, 'VALIDATION_ERROR', reasonError);
+        return;
+      }
+
+      const name = String(req.params.name);
+      const meta = this.getChangeMeta(req, reason);
+      const result = paused
+        ? await jobScheduler.pause(name, meta)
+        : await jobScheduler.resume(name, meta);
+
+      if (!result.success) {
+        this.sendError(
+          res,
+          result.reason ? JOB_ERROR_STATUS[result.reason] : 500,
+          result.reason?.toUpperCase() || 'INTERNAL_ERROR',
+          result.error || `Failed to ${action} job`
+        );
+        return;
+      }
+
+      this.sendSuccess(res, { name, paused });
+    } catch (error) {
+      console.error(`[JobsController] ${action} error:`, error);
+      this.sendError(res, 500, 'INTERNAL_ERROR', `Failed to ${action} job`);
+    }
+  }
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// EXPORTS (Singleton instance)
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const jobsController = JobsController.getInstance();
+
+export default {
+  getAll: jobsController.getAll,
+  getHistory: jobsController.getHistory,
+  trigger: jobsController.trigger,
+  pause: jobsController.pause,
+  resume: jobsController.resume,
+};
@@ -0,0 +1,212 @@
+// src/modules/admin/jobs.routes.ts
+// ============================================
+// BACKGROUND JOB ROUTES
+// Scheduled billing/maintenance jobs with FORTRESS protection
+// ============================================
+import { Router } from 'express';
+import jobsController from './jobs.controller';
+import { authMiddleware } from '../auth/middleware/auth.middleware';
+import { adminGuard, adminGuardLight } from '../../middleware/admin-guard.middleware';
+
+/**
+ * ==========================================
+ * ADMIN PROTECTION ENABLED
+ * ==========================================
+ * Security Layers:
+ * 1. authMiddleware - User authentication (JWT)
+ * 2. adminGuardLight - IP allowlist + Rate limit + Audit (read routes)
+ * 3. adminGuard - Full protection (trigger/pause/resume)
+ *
+ * Jobs run on BullMQ (Redis); every route answers 503 when REDIS_URL is
+ * not configured. Triggers, pauses and resumes are written to the audit log.
+ *
+ * Last Updated: October 18, 2026
+ */
+
+const router = Router();
+
+/**
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ * READ ROUTES
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ */
+
+/**
+ * @swagger
+ * /api/admin/jobs:
+ *   get:
+ *     summary: List scheduled jobs
+ *     description: Schedule, pause state, whether a run is in progress, next run and last finished run for every job
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Job list
+ *       403:
+ *         description: IP not in admin allowlist
+ *       503:
+ *         description: Background jobs disabled
+ */
+router.get('/', authMiddleware, adminGuardLight, jobsController.getAll);
+
+/**
+ * @swagger
+ * /api/admin/jobs/history:
+ *   get:
+ *     summary: Job run history
+ *     description: Retained runs (completed 14 days, failed 30 days), newest first
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: name
+ *         schema:
+ *           type: string
+ *         example: subscription-expiry
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *           maximum: 200
+ *     responses:
+ *       200:
+ *         description: Run history
+ *       404:
+ *         description: Unknown job
+ *       503:
+ *         description: Background jobs disabled
+ */
+router.get('/history', authMiddleware, adminGuardLight, jobsController.getHistory);
+
+/**
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ * CONTROL ROUTES
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ */
+
+/**
+ * @swagger
+ * /api/admin/jobs/{name}/trigger:
+ *   post:
+ *     summary: Run a job now
+ *     description: Queues a run outside the schedule (also allowed while paused). Retries like a scheduled run.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: name
+ *         required: true
+ *         schema:
+ *           type: string
+ *         example: booster-queue
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 example: Backfill after Redis outage
+ *     responses:
+ *       202:
+ *         description: Run queued
+ *       404:
+ *         description: Unknown job
+ *       409:
+ *         description: A run of this job is in progress
+ *       503:
+ *         description: Background jobs disabled
+ */
+router.post('/:name/trigger', authMiddleware, adminGuard, jobsController.trigger);
+
+/**
+ * @swagger
+ * /api/admin/jobs/{name}/pause:
+ *   post:
+ *     summary: Pause a job
+ *     description: Removes the schedule on all instances until resumed; survives restarts
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: name
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - reason
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 example: Investigating double expiry emails
+ *     responses:
+ *       200:
+ *         description: Job paused
+ *       400:
+ *         description: Missing reason
+ *       404:
+ *         description: Unknown job
+ *       409:
+ *         description: Already paused
+ *       503:
+ *         description: Background jobs disabled
+ */
+router.post('/:name/pause', authMiddleware, adminGuard, jobsController.pause);
+
+/**
+ * @swagger
+ * /api/admin/jobs/{name}/resume:
+ *   post:
+ *     summary: Resume a paused job
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: name
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - reason
+ *             properties:
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Job resumed
+ *       400:
+ *         description: Missing reason
+ *       404:
+ *         description: Unknown job
+ *       409:
+ *         description: Job is not paused
+ *       503:
+ *         description: Background jobs disabled
+ */
+router.post('/:name/resume', authMiddleware, adminGuard, jobsController.resume);
+
+/**
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ * EXPORT
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ */
+export default router;
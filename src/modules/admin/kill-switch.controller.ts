@@ -0,0 +1,303 @@
+/**
+ * SORIVA ADMIN - KILL SWITCH CONTROLLER (CLASS-BASED)
+ * Created by: Amandeep, Punjab, India
+ * Purpose: Read and toggle AI kill switches at runtime (DB-backed, audited)
+ * Architecture: Class-based, Singleton pattern
+ */
+
+import { Request, Response } from 'express';
+import {
+  killSwitches,
+  isKillSwitchKey,
+  KillSwitchErrorReason,
+} from '../../core/ai/utils/kill-switches';
+import { auditLogService, AuditEventType } from '../../services/audit-log.service';
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// CONSTANTS
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const MAX_REASON_LENGTH = 500;
+const DEFAULT_HISTORY_LIMIT = 50;
+const MAX_HISTORY_LIMIT = 200;
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// KILL SWITCH CONTROLLER CLASS
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+class KillSwitchController {
+  private static instance: KillSwitchController;
+
+  private constructor() {}
+
+  /**
+   * Singleton pattern - Get instance
+   */
+  public static getInstance(): KillSwitchController {
+    if (!KillSwitchController.instance) {
+      KillSwitchController.instance = new KillSwitchController();
+    }
+    return KillSwitchController.instance;
+  }
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // HELPER METHODS
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  private getUserId(req: Request): string {
+    const user = (req as any).user;
+    return user?.userId || 'admin';
+  }
+
+  private getClientInfo(req: Request): { ipAddress?: string; userAgent?: string } {
+    return {
+      ipAddress: req.ip || req.socket.remoteAddress,
+      userAgent: req.headers['user-agent'],
+    };
+  }
+
+  /**
+   * Reason is required for every change and capped in length
+   */
+  private validateReason(reason: unknown): string | null {
+    if (typeof reason !== 'string' || reason.trim().length === 0) {
+      return 'A reason is required for every kill switch change';
+    }
+    if (reason.length > MAX_REASON_LENGTH) {
+      return `Reason too long (maximum ${MAX_REASON_LENGTH} characters)`;
+    }
+    return null;
+  }
+
+  /**
+   * Expiry from either expiresAt (ISO date) or expiresInMinutes
+   * Returns undefined when no expiry was requested, null when invalid
+   */
+  private parseExpiry(body: any): Date | undefined | null {
+    if (body.expiresAt !== undefined && body.expiresAt !== null) {
+      const date = new Date(body.expiresAt);
+      return isNaN(date.getTime()) ? null : date;
+    }
+
+    if (body.expiresInMinutes !== undefined && body.expiresInMinutes !== null) {
+      const minutes = Number(body.expiresInMinutes);
+      return isFinite(minutes) && minutes > 0 ? new Date(Date.now() + minutes * 60 * 1000) : null;
+    }
+
+    return undefined;
+  }
+
+  private getErrorStatus(reason?: KillSwitchErrorReason): number {
+    switch (reason) {
+      case 'invalid_key':
+      case 'override_not_found':
+        return 404;
+      case 'invalid_value':
+      case 'invalid_expiry':
+      case 'reason_required':
+        return 400;
+      default:
+        return 500;
+    }
+  }
+
+  private sendError(res: Response, status: number, code: string, message: string): void {
+    res.status(status).json({
+      success: false,
+      error: { code, message },
+    });
+  }
+
+  private sendSuccess(res: Response, data: any, status: number = 200): void {
+    res.status(status).json({
+      success: true,
+      data,
+    });
+  }
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // READ
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  /**
+   * GET /admin/kill-switches
+   * Current state, environment baseline and active overrides
+   */
+  public getAll = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const status = killSwitches.getStatus();
+
+      this.sendSuccess(res, {
+        ...status,
+        baseline: killSwitches.getBaseline(),
+      });
+    } catch (error) {
+      console.error('[KillSwitchController] Get all error:', error);
+      this.sendError(res, 500, 'INTERNAL_ERROR', 'Failed to fetch kill switches');
+    }
+  };
+
+  /**
+   * GET /admin/kill-switches/history
+   * Audited kill switch changes (newest first)
+   */
+  public getHistory = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const limit = Math.min(
+        Math.max(parseInt(String(req.query.limit || DEFAULT_HISTORY_LIMIT)) || DEFAULT_HISTORY_LIMIT, 1),
+        MAX_HISTORY_LIMIT
+      );
+
+      const history = await auditLogService.getRecentLogs(limit, AuditEventType.KILL_SWITCH_CHANGE);
+
+      this.sendSuccess(res, {
+        history,
+        total: history.length,
+      });
+    } catch (error) {
+      console.error('[KillSwitchController] Get history error:', error);
+      this.sendError(res, 500, 'INTERNAL_ERROR', 'Failed to fetch kill switch history');
+    }
+  };
+
+  /**
+   * GET /admin/kill-switches/:key
+   * Single switch with its baseline and override
+   */
+  public getOne = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { key } = req.params;
+
+      if (!isKillSwitchKey(key)) {
+        this.sendError(res, 404, 'NOT_FOUND', `Unknown kill switch: ${key}`);
+        return;
+      }
+
+      this.sendSuccess(res, {
+        key,
+        value: killSwitches.get(key),
+        baseline: killSwitches.getBaseline()[key],
+        override: killSwitches.getOverride(key),
+      });
+    } catch (error) {
+      console.error('[KillSwitchController] Get one error:', error);
+      this.sendError(res, 500, 'INTERNAL_ERROR', 'Failed to fetch kill switch');
+    }
+  };
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // WRITE
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  /**
+   * PUT /admin/kill-switches/:key
+   * Set an override (optionally auto-expiring)
+   * Body: { value, reason, expiresAt? | expiresInMinutes? }
+   */
+  public update = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { key } = req.params;
+      const { value, reason } = req.body || {};
+
+      if (value === undefined) {
+        this.sendError(res, 400, 'VALIDATION_ERROR', 'Value is required');
+        return;
+      }
+
+      const reasonError = this.validateReason(reason);
+      if (reasonError) {
+        this.sendError(res, 400, 'VALIDATION_ERROR', reasonError);
+        return;
+      }
+
+      const expiresAt = this.parseExpiry(req.body);
+      if (expiresAt === null) {
+        this.sendError(res, 400, 'VALIDATION_ERROR', 'Invalid expiresAt / expiresInMinutes');
+        return;
+      }
+
+      const result = await killSwitches.applyOverride(key, value, {
+        changedBy: this.getUserId(req),
+        reason,
+        expiresAt,
+        ...this.getClientInfo(req),
+      });
+
+      if (!result.success) {
+        this.sendError(
+          res,
+          this.getErrorStatus(result.reason),
+          result.reason?.toUpperCase() || 'INTERNAL_ERROR',
+          result.error || 'Failed to update kill switch'
+        );
+        return;
+      }
+
+      this.sendSuccess(res, {
+        key: result.key,
+        value: result.value,
+        override: result.override,
+      });
+    } catch (error) {
+      console.error('[KillSwitchController] Update error:', error);
+      this.sendError(res, 500, 'INTERNAL_ERROR', 'Failed to update kill switch');
+    }
+  };
+
+  /**
+   * DELETE /admin/kill-switches/:key
+   * Remove the override - switch reverts to its environment/default value
+   * Body: { reason }
+   */
+  public clear = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { key } = req.params;
+      const { reason } = req.body || {};
+
+      const reasonError = this.validateReason(reason);
+      if (reasonError) {
+        this.sendError(res, 400, 'VALIDATION_ERROR', reasonError);
+        return;
+      }
+
+      const result = await killSwitches.clearOverride(key, {
+        changedBy: this.getUserId(req),
+        reason,
+        ...this.getClientInfo(req),
+      });
+
+      if (!result.success) {
+        this.sendError(
+          res,
+          this.getErrorStatus(result.reason),
+          result.reason?.toUpperCase() || 'INTERNAL_ERROR',
+          result.error || 'Failed to clear kill switch'
+        );
+        return;
+      }
+
+      this.sendSuccess(res, {
+        key: result.key,
+        value: result.value,
+        override: null,
+      });
+    } catch (error) {
+      console.error('[KillSwitchController] Clear error:', error);
+      this.sendError(res, 500, 'INTERNAL_ERROR', 'Failed to clear kill switch');
+    }
+  };
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// EXPORTS (Singleton instance)
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const killSwitchController = KillSwitchController.getInstance();
+
+export default {
+  getAll: killSwitchController.getAll,
+  getHistory: killSwitchController.getHistory,
+  getOne: killSwitchController.getOne,
+  update: killSwitchController.update,
+  clear: killSwitchController.clear,
+};
@@ -0,0 +1,192 @@
+// src/modules/admin/kill-switch.routes.ts
+// ============================================
+// KILL SWITCH ROUTES
+// Runtime AI controls with FORTRESS protection
+// ============================================
+import { Router } from 'express';
+import killSwitchController from './kill-switch.controller';
+import { authMiddleware } from '../auth/middleware/auth.middleware';
+import { adminGuard, adminGuardLight } from '../../middleware/admin-guard.middleware';
+
+/**
+ * ==========================================
+ * ADMIN PROTECTION ENABLED
+ * ==========================================
+ * Security Layers:
+ * 1. authMiddleware - User authentication (JWT)
+ * 2. adminGuardLight - IP allowlist + Rate limit + Audit (read routes)
+ * 3. adminGuard - Full protection (toggle routes)
+ *
+ * Every toggle requires a reason and is written to the audit log.
+ * Overrides are stored in the DB and synced to all instances.
+ *
+ * Last Updated: October 18, 2026
+ */
+
+const router = Router();
+
+/**
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ * READ ROUTES
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ */
+
+/**
+ * @swagger
+ * /api/admin/kill-switches:
+ *   get:
+ *     summary: Get all kill switches
+ *     description: Current state, environment baseline, active overrides (with expiry) and recent changes
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Kill switch status
+ *       403:
+ *         description: IP not in admin allowlist
+ */
+router.get('/', authMiddleware, adminGuardLight, killSwitchController.getAll);
+
+/**
+ * @swagger
+ * /api/admin/kill-switches/history:
+ *   get:
+ *     summary: Kill switch audit trail
+ *     description: Audited changes (overrides, manual clears and expiries), newest first
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *           maximum: 200
+ *     responses:
+ *       200:
+ *         description: Change history
+ */
+router.get('/history', authMiddleware, adminGuardLight, killSwitchController.getHistory);
+
+/**
+ * @swagger
+ * /api/admin/kill-switches/{key}:
+ *   get:
+ *     summary: Get a single kill switch
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: key
+ *         required: true
+ *         schema:
+ *           type: string
+ *         example: disableGPT
+ *     responses:
+ *       200:
+ *         description: Current value, baseline and override
+ *       404:
+ *         description: Unknown kill switch
+ */
+router.get('/:key', authMiddleware, adminGuardLight, killSwitchController.getOne);
+
+/**
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ * TOGGLE ROUTES
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ */
+
+/**
+ * @swagger
+ * /api/admin/kill-switches/{key}:
+ *   put:
+ *     summary: Set a kill switch override
+ *     description: Persisted and synced to all instances. With an expiry the switch reverts to its environment/default value automatically.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: key
+ *         required: true
+ *         schema:
+ *           type: string
+ *         example: emergencyMode
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - value
+ *               - reason
+ *             properties:
+ *               value:
+ *                 description: Boolean for most switches, 0-1 number (or null) for pressure switches
+ *                 example: true
+ *               reason:
+ *                 type: string
+ *                 example: OpenAI outage - incident #42
+ *               expiresInMinutes:
+ *                 type: number
+ *                 example: 60
+ *               expiresAt:
+ *                 type: string
+ *                 format: date-time
+ *     responses:
+ *       200:
+ *         description: Override applied
+ *       400:
+ *         description: Invalid value, missing reason or invalid expiry
+ *       404:
+ *         description: Unknown kill switch
+ */
+router.put('/:key', authMiddleware, adminGuard, killSwitchController.update);
+
+/**
+ * @swagger
+ * /api/admin/kill-switches/{key}:
+ *   delete:
+ *     summary: Clear a kill switch override
+ *     description: The switch reverts to its environment/default value
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: key
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - reason
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 example: OpenAI recovered
+ *     responses:
+ *       200:
+ *         description: Override cleared
+ *       400:
+ *         description: Missing reason
+ *       404:
+ *         description: Unknown kill switch or no override set
+ */
+router.delete('/:key', authMiddleware, adminGuard, killSwitchController.clear);
+
+/**
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ * EXPORT
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ */
+export default router;
@@ -0,0 +1,357 @@
+/**
+ * SORIVA ADMIN - RAG CONFIG CONTROLLER (CLASS-BASED)
+ * Created by: Amandeep, Punjab, India
+ * Purpose: Manage DB-backed RAG settings (global, per-plan and per-user
+ *          overrides) with validation, audit and one-step rollback
+ * Architecture: Class-based, Singleton pattern
+ */
+
+import { Request, Response } from 'express';
+import ragConfigService, {
+  RAG_CONFIG_DEFINITIONS,
+  RAGConfigChangeMeta,
+  RAGConfigErrorReason,
+} from '../../rag/services/rag-config.service';
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// CONSTANTS
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const MAX_REASON_LENGTH = 500;
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// RAG CONFIG CONTROLLER CLASS
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+class RAGConfigController {
+  private static instance: RAGConfigController;
+
+  private constructor() {}
+
+  /**
+   * Singleton pattern - Get instance
+   */
+  public static getInstance(): RAGConfigController {
+    if (!RAGConfigController.instance) {
+      RAGConfigController.instance = new RAGConfigController();
+    }
+    return RAGConfigController.instance;
+  }
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // HELPER METHODS
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  private getUserId(req: Request): string {
+    const user = (req as any).user;
+    return user?.userId || 'admin';
+  }
+
+  /**
+   * Change metadata; returns an error message when the reason is invalid
+   */
+  private getChangeMeta(req: Request): RAGConfigChangeMeta | string {
+    const { reason } = req.body || {};
+
+    if (reason !== undefined && typeof reason !== 'string') {
+      return 'Reason must be a string';
+    }
+    if (reason && reason.length > MAX_REASON_LENGTH) {
+      return `Reason too long (maximum ${MAX_REASON_LENGTH} characters)`;
+    }
+
+    return {
+      changedBy: this.getUserId(req),
+      reason: reason || undefined,
+      ipAddress: req.ip || req.socket.remoteAddress,
+      userAgent: req.headers['user-agent'],
+    };
+  }
+
+  private getQueryString(value: unknown): string | undefined {
+    return typeof value === 'string' && value.length > 0 ? value : undefined;
+  }
+
+  private getErrorStatus(reason?: RAGConfigErrorReason): number {
+    switch (reason) {
+      case 'not_found':
+        return 404;
+      case 'duplicate':
+        return 409;
+      case 'not_editable':
+        return 403;
+      case 'invalid_key':
+      case 'invalid_scope':
+      case 'invalid_value':
+      case 'no_previous_value':
+        return 400;
+      default:
+        return 500;
+    }
+  }
+
+  private sendError(res: Response, status: number, code: string, message: string): void {
+    res.status(status).json({
+      success: false,
+      error: { code, message },
+    });
+  }
+
+  private sendSuccess(res: Response, data: any, status: number = 200): void {
+    res.status(status).json({
+      success: true,
+      data,
+    });
+  }
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // READ
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  /**
+   * GET /admin/rag-config
+   * Stored rows (filterable) plus the known keys and their constraints
+   */
+  public getAll = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const configurations = await ragConfigService.listConfigurations({
+        configKey: this.getQueryString(req.query.key),
+        scope: this.getQueryString(req.query.scope),
+        scopeId: this.getQueryString(req.query.scopeId),
+        category: this.getQueryString(req.query.category),
+        includeInactive: req.query.includeInactive === 'true',
+      });
+
+      this.sendSuccess(res, {
+        configurations,
+        total: configurations.length,
+        definitions: RAG_CONFIG_DEFINITIONS,
+        cache: ragConfigService.getCacheStatus(),
+      });
+    } catch (error) {
+      console.error('[RAGConfigController] Get all error:', error);
+      this.sendError(res, 500, 'INTERNAL_ERROR', 'Failed to fetch RAG configuration');
+    }
+  };
+
+  /**
+   * GET /admin/rag-config/effective?planTier=&userId=
+   * What the pipeline would use for a plan/user, and which scope supplied it
+   */
+  public getEffective = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const planTier = this.getQueryString(req.query.planTier);
+      const userId = this.getQueryString(req.query.userId);
+
+      const values = await ragConfigService.getEffectiveConfig({ planTier, userId });
+
+      this.sendSuccess(res, { planTier, userId, values });
+    } catch (error) {
+      console.error('[RAGConfigController] Get effective error:', error);
+      this.sendError(res, 500, 'INTERNAL_ERROR', 'Failed to resolve RAG configuration');
+    }
+  };
+
+  /**
+   * GET /admin/rag-config/:id
+   */
+  public getOne = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const configuration = await ragConfigService.getConfiguration(req.params.id);
+
+      if (!configuration) {
+        this.sendError(res, 404, 'NOT_FOUND', 'Configuration not found');
+        return;
+      }
+
+      this.sendSuccess(res, configuration);
+    } catch (error) {
+      console.error('[RAGConfigController] Get one error:', error);
+      this.sendError(res, 500, 'INTERNAL_ERROR', 'Failed to fetch configuration');
+    }
+  };
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // WRITE
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  /**
+   * POST /admin/rag-config
+   * Body: { configKey, scope, scopeId?, value, description?, reason? }
+   */
+  public create = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { configKey, scope, scopeId, value, description } = req.body || {};
+
+      if (typeof configKey !== 'string' || typeof scope !== 'string') {
+        this.sendError(res, 400, 'VALIDATION_ERROR', 'configKey and scope are required');
+        return;
+      }
+      if (value === undefined) {
+        this.sendError(res, 400, 'VALIDATION_ERROR', 'Value is required');
+        return;
+      }
+
+      const meta = this.getChangeMeta(req);
+      if (typeof meta === 'string') {
+        this.sendError(res, 400, 'VALIDATION_ERROR', meta);
+        return;
+      }
+
+      const result = await ragConfigService.createConfiguration(
+        { configKey, scope, scopeId, value, description },
+        meta
+      );
+
+      if (!result.success) {
+        this.sendError(
+          res,
+          this.getErrorStatus(result.reason),
+          result.reason?.toUpperCase() || 'INTERNAL_ERROR',
+          result.error || 'Failed to create configuration'
+        );
+        return;
+      }
+
+      this.sendSuccess(res, result.configuration, 201);
+    } catch (error) {
+      console.error('[RAGConfigController] Create error:', error);
+      this.sendError(res, 500, 'INTERNAL_ERROR', 'Failed to create configuration');
+    }
+  };
+
+  /**
+   * PUT /admin/rag-config/:id
+   * Body: { value?, isActive?, description?, reason? }
+   */
+  public update = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { value, isActive, description } = req.body || {};
+
+      if (value === undefined && isActive === undefined && description === undefined) {
+        this.sendError(res, 400, 'VALIDATION_ERROR', 'Nothing to update');
+        return;
+      }
+
+      const meta = this.getChangeMeta(req);
+      if (typeof meta === 'string') {
+        this.sendError(res, 400, 'VALIDATION_ERROR', meta);
+        return;
+      }
+
+      const result = await ragConfigService.updateConfiguration(
+        req.params.id,
+        { value, isActive, description },
+        meta
+      );
+
+      if (!result.success) {
+        this.sendError(
+          res,
+          this.getErrorStatus(result.reason),
+          result.reason?.toUpperCase() || 'INTERNAL_ERROR',
+          result.error || 'Failed to update configuration'
+        );
+        return;
+      }
+
+      this.sendSuccess(res, result.configuration);
+    } catch (error) {
+      console.error('[RAGConfigController] Update error:', error);
+      this.sendError(res, 500, 'INTERNAL_ERROR', 'Failed to update configuration');
+    }
+  };
+
+  /**
+   * DELETE /admin/rag-config/:id
+   * The key falls back to the next scope (or its env default)
+   */
+  public remove = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const meta = this.getChangeMeta(req);
+      if (typeof meta === 'string') {
+        this.sendError(res, 400, 'VALIDATION_ERROR', meta);
+        return;
+      }
+
+      const result = await ragConfigService.deleteConfiguration(req.params.id, meta);
+
+      if (!result.success) {
+        this.sendError(
+          res,
+          this.getErrorStatus(result.reason),
+          result.reason?.toUpperCase() || 'INTERNAL_ERROR',
+          result.error || 'Failed to delete configuration'
+        );
+        return;
+      }
+
+      this.sendSuccess(res, { deleted: result.configuration });
+    } catch (error) {
+      console.error('[RAGConfigController] Delete error:', error);
+      this.sendError(res, 500, 'INTERNAL_ERROR', 'Failed to delete configuration');
+    }
+  };
+
+  /**
+   * POST /admin/rag-config/:id/rollback
+   * Restore previousValue (the replaced value becomes the new previousValue)
+   */
+  public rollback = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const meta = this.getChangeMeta(req);
+      if (typeof meta === 'string') {
+        this.sendError(res, 400, 'VALIDATION_ERROR', meta);
+        return;
+      }
+
+      const result = await ragConfigService.rollbackConfiguration(req.params.id, meta);
+
+      if (!result.success) {
+        this.sendError(
+          res,
+          this.getErrorStatus(result.reason),
+          result.reason?.toUpperCase() || 'INTERNAL_ERROR',
+          result.error || 'Failed to roll back configuration'
+        );
+        return;
+      }
+
+      this.sendSuccess(res, result.configuration);
+    } catch (error) {
+      console.error('[RAGConfigController] Rollback error:', error);
+      this.sendError(res, 500, 'INTERNAL_ERROR', 'Failed to roll back configuration');
+    }
+  };
+
+  /**
+   * POST /admin/rag-config/reload
+   * Re-read rag_configurations on this instance now instead of on cache expiry
+   */
+  public reload = async (req: Request, res: Response): Promise<void> => {
+    try {
+      await ragConfigService.reload();
+      this.sendSuccess(res, ragConfigService.getCacheStatus());
+    } catch (error) {
+      console.error('[RAGConfigController] Reload error:', error);
+      this.sendError(res, 500, 'INTERNAL_ERROR', 'Failed to reload RAG configuration');
+    }
+  };
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// EXPORTS (Singleton instance)
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const ragConfigController = RAGConfigController.getInstance();
+
+export default {
+  getAll: ragConfigController.getAll,
+  getEffective: ragConfigController.getEffective,
+  getOne: ragConfigController.getOne,
+  create: ragConfigController.create,
+  update: ragConfigController.update,
+  remove: ragConfigController.remove,
+  rollback: ragConfigController.rollback,
+  reload: ragConfigController.reload,
+};
@@ -0,0 +1,299 @@
+// src/modules/admin/rag-config.routes.ts
+// ============================================
+// RAG CONFIG ROUTES
+// DB-backed RAG settings with FORTRESS protection
+// ============================================
+import { Router } from 'express';
+import ragConfigController from './rag-config.controller';
+import { authMiddleware } from '../auth/middleware/auth.middleware';
+import { adminGuard, adminGuardLight } from '../../middleware/admin-guard.middleware';
+
+/**
+ * ==========================================
+ * ADMIN PROTECTION ENABLED
+ * ==========================================
+ * Security Layers:
+ * 1. authMiddleware - User authentication (JWT)
+ * 2. adminGuardLight - IP allowlist + Rate limit + Audit (read routes)
+ * 3. adminGuard - Full protection (write routes)
+ *
+ * Values resolve global → plan → user. Every change is validated against
+ * the key's type/range/allowed values, audited, and keeps the replaced
+ * value for rollback. Other instances pick changes up within
+ * RAG_CONFIG_CACHE_TTL seconds.
+ *
+ * Last Updated: October 18, 2026
+ */
+
+const router = Router();
+
+/**
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ * READ ROUTES
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ */
+
+/**
+ * @swagger
+ * /api/admin/rag-config:
+ *   get:
+ *     summary: List RAG configurations
+ *     description: Stored rows plus the known keys with their types and constraints
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: key
+ *         schema:
+ *           type: string
+ *         example: retrieval.topK
+ *       - in: query
+ *         name: scope
+ *         schema:
+ *           type: string
+ *           enum: [global, plan, user]
+ *       - in: query
+ *         name: scopeId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: category
+ *         schema:
+ *           type: string
+ *           enum: [CHUNKING, RETRIEVAL, RANKING]
+ *       - in: query
+ *         name: includeInactive
+ *         schema:
+ *           type: boolean
+ *     responses:
+ *       200:
+ *         description: Configurations and key definitions
+ *       403:
+ *         description: IP not in admin allowlist
+ */
+router.get('/', authMiddleware, adminGuardLight, ragConfigController.getAll);
+
+/**
+ * @swagger
+ * /api/admin/rag-config/effective:
+ *   get:
+ *     summary: Resolve RAG settings for a plan and/or user
+ *     description: Value of every key after global → plan → user resolution, with the scope it came from ("default" = env default)
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: planTier
+ *         schema:
+ *           type: string
+ *         example: PRO
+ *       - in: query
+ *         name: userId
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Effective values
+ */
+router.get('/effective', authMiddleware, adminGuardLight, ragConfigController.getEffective);
+
+/**
+ * @swagger
+ * /api/admin/rag-config/{id}:
+ *   get:
+ *     summary: Get a RAG configuration row
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Configuration row
+ *       404:
+ *         description: Configuration not found
+ */
+router.get('/:id', authMiddleware, adminGuardLight, ragConfigController.getOne);
+
+/**
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ * WRITE ROUTES
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ */
+
+/**
+ * @swagger
+ * /api/admin/rag-config/reload:
+ *   post:
+ *     summary: Reload RAG configuration on this instance
+ *     description: Re-reads rag_configurations immediately instead of waiting for the cache to expire
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Reloaded
+ */
+router.post('/reload', authMiddleware, adminGuard, ragConfigController.reload);
+
+/**
+ * @swagger
+ * /api/admin/rag-config:
+ *   post:
+ *     summary: Create a RAG configuration value
+ *     description: A global default, or an override for one plan or one user
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - configKey
+ *               - scope
+ *               - value
+ *             properties:
+ *               configKey:
+ *                 type: string
+ *                 example: retrieval.topK
+ *               scope:
+ *                 type: string
+ *                 enum: [global, plan, user]
+ *                 example: plan
+ *               scopeId:
+ *                 type: string
+ *                 description: Plan type for plan scope, user id for user scope, omitted for global
+ *                 example: PRO
+ *               value:
+ *                 description: Number or string, depending on the key
+ *                 example: 8
+ *               description:
+ *                 type: string
+ *               reason:
+ *                 type: string
+ *                 example: Pro users get more context
+ *     responses:
+ *       201:
+ *         description: Created
+ *       400:
+ *         description: Unknown key, invalid scope or invalid value
+ *       409:
+ *         description: The key already has a value at this scope
+ */
+router.post('/', authMiddleware, adminGuard, ragConfigController.create);
+
+/**
+ * @swagger
+ * /api/admin/rag-config/{id}:
+ *   put:
+ *     summary: Update a RAG configuration value
+ *     description: The replaced value is kept as previousValue for rollback
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               value:
+ *                 example: 0.65
+ *               isActive:
+ *                 type: boolean
+ *               description:
+ *                 type: string
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Updated
+ *       400:
+ *         description: Invalid value
+ *       403:
+ *         description: Configuration is not editable
+ *       404:
+ *         description: Configuration not found
+ */
+router.put('/:id', authMiddleware, adminGuard, ragConfigController.update);
+
+/**
+ * @swagger
+ * /api/admin/rag-config/{id}/rollback:
+ *   post:
+ *     summary: Roll back to the previous value
+ *     description: Swaps the current and previous values, so rolling back twice restores the change
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Rolled back
+ *       400:
+ *         description: No previous value, or it no longer passes validation
+ *       404:
+ *         description: Configuration not found
+ */
+router.post('/:id/rollback', authMiddleware, adminGuard, ragConfigController.rollback);
+
+/**
+ * @swagger
+ * /api/admin/rag-config/{id}:
+ *   delete:
+ *     summary: Delete a RAG configuration value
+ *     description: The key falls back to the next scope (plan, then global, then env default)
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Deleted
+ *       403:
+ *         description: Configuration is not editable
+ *       404:
+ *         description: Configuration not found
+ */
+router.delete('/:id', authMiddleware, adminGuard, ragConfigController.remove);
+
+/**
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ * EXPORT
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ */
+export default router;
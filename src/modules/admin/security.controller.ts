@@ -3,16 +3,27 @@
  * Created by: Amandeep, Punjab, India
  * Purpose: CRUD operations for security patterns and configuration
  * Architecture: Class-based, Singleton pattern, Future-proof
+ * Updated: October 2026 - DB-backed patterns, version history, hot reload
  */
 
 import { Request, Response } from 'express';
-import { ConfigService } from '../../services/ai/config.service';
+import {
+  securityPatternService,
+  SecurityPatternInput,
+  SecurityPatternErrorReason,
+  SecurityChangeMeta,
+  SECURITY_SEVERITIES,
+  SECURITY_ACTIONS,
+  SECURITY_CATEGORIES,
+} from '../../services/ai/security-pattern.service';
+import SecurityConfigManager from '../../core/ai/security/core/security-config';
 
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-// LOCAL TYPES
+// CONSTANTS
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
-type SecuritySeverity = 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
+const MAX_PATTERN_LENGTH = 2000;
+const MAX_TEST_TEXT_LENGTH = 10000;
 
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 // SECURITY CONTROLLER CLASS
@@ -20,12 +31,8 @@ type SecuritySeverity = 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
 
 class SecurityController {
   private static instance: SecurityController;
-  private configService: ConfigService;
-  private readonly VALID_SEVERITIES: SecuritySeverity[] = ['LOW', 'MEDIUM', 'HIGH', 'CRITICAL'];
 
-  private constructor() {
-    this.configService = ConfigService.getInstance();
-  }
+  private constructor() {}
 
   /**
    * Singleton pattern - Get instance
@@ -41,16 +48,25 @@ class SecurityController {
   // HELPER METHODS
   // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
-  private getUserId(req: Request): string | undefined {
+  private getUserId(req: Request): string {
     const user = (req as any).user;
-    return user?.userId;
+    return user?.userId || 'admin';
   }
 
-  private validateSeverity(severity: string): boolean {
-    return this.VALID_SEVERITIES.includes(severity as SecuritySeverity);
+  private getChangeMeta(req: Request): SecurityChangeMeta {
+    const reason = req.body?.reason;
+    return {
+      changedBy: this.getUserId(req),
+      reason: typeof reason === 'string' && reason.trim() ? reason.trim() : undefined,
+      ipAddress: req.ip || req.socket.remoteAddress,
+      userAgent: req.headers['user-agent'],
+    };
   }
 
   private validateRegexPattern(pattern: string): { valid: boolean; error?: string } {
+    if (pattern.length > MAX_PATTERN_LENGTH) {
+      return { valid: false, error: `Pattern too long (maximum ${MAX_PATTERN_LENGTH} characters)` };
+    }
     try {
       new RegExp(pattern);
       return { valid: true };
@@ -59,6 +75,77 @@ class SecurityController {
     }
   }
 
+  /**
+   * Validate the writable pattern fields present in the body
+   * Returns the cleaned input or an error message
+   */
+  private parsePatternInput(body: any): { input?: SecurityPatternInput; error?: string } {
+    const input: SecurityPatternInput = {};
+
+    if (body.pattern !== undefined) {
+      if (typeof body.pattern !== 'string' || !body.pattern) return { error: 'Pattern must be a non-empty string' };
+      const regexValidation = this.validateRegexPattern(body.pattern);
+      if (!regexValidation.valid) return { error: regexValidation.error || 'Invalid pattern' };
+      input.pattern = body.pattern;
+    }
+    if (body.severity !== undefined) {
+      if (!SECURITY_SEVERITIES.includes(body.severity)) return { error: 'Invalid severity level' };
+      input.severity = body.severity;
+    }
+    if (body.category !== undefined) {
+      if (!SECURITY_CATEGORIES.includes(body.category)) {
+        return { error: `Invalid category (one of ${SECURITY_CATEGORIES.join(', ')})` };
+      }
+      input.category = body.category;
+    }
+    if (body.action !== undefined) {
+      if (!SECURITY_ACTIONS.includes(body.action)) return { error: 'Invalid action' };
+      input.action = body.action;
+    }
+    if (body.name !== undefined) {
+      if (typeof body.name !== 'string' || !body.name.trim()) return { error: 'Name must be a non-empty string' };
+      input.name = body.name.trim();
+    }
+    if (body.description !== undefined) {
+      if (typeof body.description !== 'string' || !body.description.trim()) {
+        return { error: 'Description must be a non-empty string' };
+      }
+      input.description = body.description.trim();
+    }
+    if (body.enabled !== undefined) {
+      if (typeof body.enabled !== 'boolean') return { error: 'enabled must be a boolean' };
+      input.enabled = body.enabled;
+    }
+    if (body.priority !== undefined) {
+      if (!Number.isInteger(body.priority)) return { error: 'priority must be an integer' };
+      input.priority = body.priority;
+    }
+    for (const field of ['examples', 'falsePositives'] as const) {
+      if (body[field] !== undefined) {
+        if (!Array.isArray(body[field]) || body[field].some((item: unknown) => typeof item !== 'string')) {
+          return { error: `${field} must be an array of strings` };
+        }
+        input[field] = body[field];
+      }
+    }
+
+    return { input };
+  }
+
+  private getErrorStatus(reason?: SecurityPatternErrorReason): number {
+    switch (reason) {
+      case 'not_found':
+      case 'version_not_found':
+        return 404;
+      case 'duplicate_name':
+        return 409;
+      case 'invalid_config':
+        return 400;
+      default:
+        return 500;
+    }
+  }
+
   private sendError(res: Response, status: number, code: string, message: string): void {
     res.status(status).json({
       success: false,
@@ -83,37 +170,17 @@ class SecurityController {
    */
   public getAllPatterns = async (req: Request, res: Response): Promise<void> => {
     try {
-      const { enabled, severity } = req.query;
+      const { enabled, severity, category } = req.query;
 
-      // TODO: Implement getAllJailbreakPatterns in ConfigService
-      // Mock data for now
-      const mockPatterns = [
-        {
-          id: '1',
-          pattern: 'ignore previous instructions',
-          severity: 'HIGH',
-          description: 'Ignore previous instructions attempt',
-          enabled: true,
-          createdAt: new Date(),
-          updatedAt: new Date(),
-        },
-      ];
-
-      let filtered = mockPatterns;
-
-      // Apply filters
-      if (enabled !== undefined) {
-        const isEnabled = enabled === 'true';
-        filtered = filtered.filter((p) => p.enabled === isEnabled);
-      }
-
-      if (severity) {
-        filtered = filtered.filter((p) => p.severity === severity);
-      }
+      const patterns = await securityPatternService.listPatterns({
+        enabled: enabled !== undefined ? enabled === 'true' : undefined,
+        severity: severity ? String(severity) : undefined,
+        category: category ? String(category) : undefined,
+      });
 
       this.sendSuccess(res, {
-        patterns: filtered,
-        total: filtered.length,
+        patterns,
+        total: patterns.length,
       });
     } catch (error) {
       console.error('[SecurityController] Get all patterns error:', error);
@@ -129,8 +196,7 @@ class SecurityController {
     try {
       const { id } = req.params;
 
-      // TODO: Implement getJailbreakPatternById in ConfigService
-      const pattern = null;
+      const pattern = await securityPatternService.getPattern(id);
 
       if (!pattern) {
         this.sendError(res, 404, 'NOT_FOUND', 'Pattern not found');
@@ -150,52 +216,52 @@ class SecurityController {
    */
   public createPattern = async (req: Request, res: Response): Promise<void> => {
     try {
-      const { pattern, severity, description, enabled } = req.body;
+      const { pattern, severity, description, category } = req.body || {};
 
       // Validation
-      if (!pattern || !severity || !description) {
+      if (!pattern || !severity || !description || !category) {
         this.sendError(
           res,
           400,
           'VALIDATION_ERROR',
-          'Pattern, severity, and description are required'
+          'Pattern, severity, category, and description are required'
         );
         return;
       }
 
-      // Validate severity
-      if (!this.validateSeverity(severity)) {
-        this.sendError(res, 400, 'VALIDATION_ERROR', 'Invalid severity level');
+      const { input, error } = this.parsePatternInput(req.body);
+      if (!input) {
+        this.sendError(res, 400, 'VALIDATION_ERROR', error || 'Invalid pattern');
         return;
       }
 
-      // Validate regex pattern
-      const regexValidation = this.validateRegexPattern(pattern);
-      if (!regexValidation.valid) {
-        this.sendError(res, 400, 'VALIDATION_ERROR', regexValidation.error || 'Invalid pattern');
+      const result = await securityPatternService.createPattern(
+        {
+          ...input,
+          pattern: input.pattern!,
+          severity: input.severity!,
+          category: input.category!,
+          description: input.description!,
+        },
+        this.getChangeMeta(req)
+      );
+
+      if (!result.success) {
+        this.sendError(
+          res,
+          this.getErrorStatus(result.reason),
+          result.reason?.toUpperCase() || 'INTERNAL_ERROR',
+          result.error || 'Failed to create pattern'
+        );
         return;
       }
 
-      // Create new pattern - plain object, no type annotation
-      const timestamp = new Date();
-      const newPattern = {
-        id: Date.now().toString(),
-        pattern: pattern,
-        severity: severity,
-        description: description,
-        enabled: enabled !== undefined ? enabled : true,
-        createdAt: timestamp,
-        updatedAt: timestamp,
-      };
-
-      // TODO: Implement createJailbreakPattern in ConfigService
-
       console.log('[SecurityController] Pattern created:', {
-        id: newPattern.id,
+        id: result.pattern?.id,
         createdBy: this.getUserId(req),
       });
 
-      this.sendSuccess(res, newPattern, 201);
+      this.sendSuccess(res, result.pattern, 201);
     } catch (error) {
       console.error('[SecurityController] Create pattern error:', error);
       this.sendError(res, 500, 'INTERNAL_ERROR', 'Failed to create pattern');
@@ -204,55 +270,42 @@ class SecurityController {
 
   /**
    * PUT /admin/security/patterns/:id
-   * Update existing pattern
+   * Update existing pattern (creates a new version)
    */
   public updatePattern = async (req: Request, res: Response): Promise<void> => {
     try {
       const { id } = req.params;
-      const { pattern, severity, description, enabled } = req.body;
 
-      // TODO: Implement getJailbreakPatternById in ConfigService
-      const existing = null;
-
-      if (!existing) {
-        this.sendError(res, 404, 'NOT_FOUND', 'Pattern not found');
+      const { input, error } = this.parsePatternInput(req.body || {});
+      if (!input) {
+        this.sendError(res, 400, 'VALIDATION_ERROR', error || 'Invalid pattern');
         return;
       }
 
-      // Validate severity if provided
-      if (severity && !this.validateSeverity(severity)) {
-        this.sendError(res, 400, 'VALIDATION_ERROR', 'Invalid severity level');
+      if (Object.keys(input).length === 0) {
+        this.sendError(res, 400, 'VALIDATION_ERROR', 'No fields to update');
         return;
       }
 
-      // Validate regex pattern if provided
-      if (pattern) {
-        const regexValidation = this.validateRegexPattern(pattern);
-        if (!regexValidation.valid) {
-          this.sendError(res, 400, 'VALIDATION_ERROR', regexValidation.error || 'Invalid pattern');
-          return;
-        }
-      }
-
-      // Update pattern - plain object
-      const updated = {
-        id: (existing as any).id,
-        pattern: pattern !== undefined ? pattern : (existing as any).pattern,
-        severity: severity !== undefined ? severity : (existing as any).severity,
-        description: description !== undefined ? description : (existing as any).description,
-        enabled: enabled !== undefined ? enabled : (existing as any).enabled,
-        createdAt: (existing as any).createdAt,
-        updatedAt: new Date(),
-      };
+      const result = await securityPatternService.updatePattern(id, input, this.getChangeMeta(req));
 
-      // TODO: Implement updateJailbreakPattern in ConfigService
+      if (!result.success) {
+        this.sendError(
+          res,
+          this.getErrorStatus(result.reason),
+          result.reason?.toUpperCase() || 'INTERNAL_ERROR',
+          result.error || 'Failed to update pattern'
+        );
+        return;
+      }
 
       console.log('[SecurityController] Pattern updated:', {
         id: id,
+        version: result.version,
         updatedBy: this.getUserId(req),
       });
 
-      this.sendSuccess(res, updated);
+      this.sendSuccess(res, result.pattern);
     } catch (error) {
       console.error('[SecurityController] Update pattern error:', error);
       this.sendError(res, 500, 'INTERNAL_ERROR', 'Failed to update pattern');
@@ -261,22 +314,24 @@ class SecurityController {
 
   /**
    * DELETE /admin/security/patterns/:id
-   * Delete pattern
+   * Delete pattern (history is kept - restore with rollback)
    */
   public deletePattern = async (req: Request, res: Response): Promise<void> => {
     try {
       const { id } = req.params;
 
-      // TODO: Implement getJailbreakPatternById in ConfigService
-      const existing = null;
+      const result = await securityPatternService.deletePattern(id, this.getChangeMeta(req));
 
-      if (!existing) {
-        this.sendError(res, 404, 'NOT_FOUND', 'Pattern not found');
+      if (!result.success) {
+        this.sendError(
+          res,
+          this.getErrorStatus(result.reason),
+          result.reason?.toUpperCase() || 'INTERNAL_ERROR',
+          result.error || 'Failed to delete pattern'
+        );
         return;
       }
 
-      // TODO: Implement deleteJailbreakPattern in ConfigService
-
       console.log('[SecurityController] Pattern deleted:', {
         id: id,
         deletedBy: this.getUserId(req),
@@ -285,6 +340,7 @@ class SecurityController {
       res.json({
         success: true,
         message: 'Pattern deleted successfully',
+        data: { id, version: result.version },
       });
     } catch (error) {
       console.error('[SecurityController] Delete pattern error:', error);
@@ -292,6 +348,91 @@ class SecurityController {
     }
   };
 
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // VERSION HISTORY
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  /**
+   * GET /admin/security/patterns/:id/versions
+   * Full version history (newest first), also for deleted patterns
+   */
+  public getPatternVersions = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+
+      const versions = await securityPatternService.getVersions(id);
+
+      if (versions.length === 0) {
+        this.sendError(res, 404, 'NOT_FOUND', 'No history for this pattern');
+        return;
+      }
+
+      this.sendSuccess(res, {
+        patternId: id,
+        versions,
+        total: versions.length,
+      });
+    } catch (error) {
+      console.error('[SecurityController] Get pattern versions error:', error);
+      this.sendError(res, 500, 'INTERNAL_ERROR', 'Failed to fetch pattern versions');
+    }
+  };
+
+  /**
+   * POST /admin/security/patterns/:id/rollback
+   * Restore a previous version
+   * Body: { version, reason? }
+   */
+  public rollbackPattern = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const version = Number(req.body?.version);
+
+      if (!Number.isInteger(version) || version < 1) {
+        this.sendError(res, 400, 'VALIDATION_ERROR', 'A valid version number is required');
+        return;
+      }
+
+      const result = await securityPatternService.rollbackPattern(id, version, this.getChangeMeta(req));
+
+      if (!result.success) {
+        this.sendError(
+          res,
+          this.getErrorStatus(result.reason),
+          result.reason?.toUpperCase() || 'INTERNAL_ERROR',
+          result.error || 'Failed to roll back pattern'
+        );
+        return;
+      }
+
+      console.log('[SecurityController] Pattern rolled back:', {
+        id,
+        toVersion: version,
+        newVersion: result.version,
+        rolledBackBy: this.getUserId(req),
+      });
+
+      this.sendSuccess(res, result.pattern);
+    } catch (error) {
+      console.error('[SecurityController] Rollback pattern error:', error);
+      this.sendError(res, 500, 'INTERNAL_ERROR', 'Failed to roll back pattern');
+    }
+  };
+
+  /**
+   * POST /admin/security/reload
+   * Reload patterns and config on this instance now (others follow on their next sync)
+   */
+  public reloadPatterns = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const result = await securityPatternService.reload();
+      this.sendSuccess(res, result);
+    } catch (error) {
+      console.error('[SecurityController] Reload error:', error);
+      this.sendError(res, 500, 'INTERNAL_ERROR', 'Failed to reload security patterns');
+    }
+  };
+
   // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
   // SECURITY CONFIGURATION
   // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
@@ -302,8 +443,9 @@ class SecurityController {
    */
   public getSecurityConfig = async (req: Request, res: Response): Promise<void> => {
     try {
-      const config = await this.configService.getSecurityConfig('default');
-      this.sendSuccess(res, config);
+      const { category } = req.query;
+      const configs = await securityPatternService.listConfigs(category ? String(category) : undefined);
+      this.sendSuccess(res, { configs, total: configs.length });
     } catch (error) {
       console.error('[SecurityController] Get security config error:', error);
       this.sendError(res, 500, 'INTERNAL_ERROR', 'Failed to fetch security config');
@@ -313,52 +455,35 @@ class SecurityController {
   /**
    * PUT /admin/security/config
    * Update security configuration
+   * Body: { values: { CONFIG_KEY: value, ... }, reason? }
    */
   public updateSecurityConfig = async (req: Request, res: Response): Promise<void> => {
     try {
-      const updates = req.body;
-
-      // Validate boolean fields
-      const booleanFields = [
-        'enableJailbreakDetection',
-        'enableContentModeration',
-        'enablePromptSanitization',
-        'enableLearning',
-        'logSecurityEvents',
-      ];
-
-      for (const field of booleanFields) {
-        if (updates[field] !== undefined && typeof updates[field] !== 'boolean') {
-          this.sendError(res, 400, 'VALIDATION_ERROR', `${field} must be a boolean`);
-          return;
-        }
-      }
+      const { values } = req.body || {};
 
-      // Validate numeric fields
-      if (updates.maxTokensPerRequest !== undefined) {
-        if (typeof updates.maxTokensPerRequest !== 'number' || updates.maxTokensPerRequest < 1) {
-          this.sendError(
-            res,
-            400,
-            'VALIDATION_ERROR',
-            'maxTokensPerRequest must be a positive number'
-          );
-          return;
-        }
+      if (!values || typeof values !== 'object' || Array.isArray(values)) {
+        this.sendError(res, 400, 'VALIDATION_ERROR', 'values must be an object of config keys');
+        return;
       }
 
-      // Get current config and merge updates
-      const currentConfig = await this.configService.getSecurityConfig('default');
-      const updated = { ...currentConfig, ...updates };
+      const result = await securityPatternService.updateConfigs(values, this.getChangeMeta(req));
 
-      // TODO: Implement updateSecurityConfig method in ConfigService
+      if (!result.success) {
+        this.sendError(
+          res,
+          this.getErrorStatus(result.reason),
+          result.reason?.toUpperCase() || 'INTERNAL_ERROR',
+          result.error || 'Failed to update security config'
+        );
+        return;
+      }
 
       console.log('[SecurityController] Security config updated:', {
         updatedBy: this.getUserId(req),
-        changes: Object.keys(updates),
+        changes: Object.keys(values),
       });
 
-      this.sendSuccess(res, updated);
+      this.sendSuccess(res, { configs: result.configs });
     } catch (error) {
       console.error('[SecurityController] Update security config error:', error);
       this.sendError(res, 500, 'INTERNAL_ERROR', 'Failed to update security config');
@@ -375,22 +500,25 @@ class SecurityController {
    */
   public getSecurityStats = async (req: Request, res: Response): Promise<void> => {
     try {
-      // TODO: Get all patterns from database
-      const patterns: any[] = [];
+      const patterns = await securityPatternService.listPatterns();
 
       // Calculate stats
       const stats = {
         patterns: {
           total: patterns.length,
-          enabled: patterns.filter((p) => p.enabled).length,
-          disabled: patterns.filter((p) => !p.enabled).length,
+          enabled: patterns.filter((p) => p.isActive).length,
+          disabled: patterns.filter((p) => !p.isActive).length,
           bySeverity: {
             LOW: patterns.filter((p) => p.severity === 'LOW').length,
             MEDIUM: patterns.filter((p) => p.severity === 'MEDIUM').length,
             HIGH: patterns.filter((p) => p.severity === 'HIGH').length,
             CRITICAL: patterns.filter((p) => p.severity === 'CRITICAL').length,
           },
+          matches: patterns.reduce((sum, p) => sum + p.matchCount, 0),
+          blocks: patterns.reduce((sum, p) => sum + p.blockCount, 0),
         },
+        runtime: SecurityConfigManager.getInstance().getStats(),
+        sync: securityPatternService.getSyncStatus(),
         timestamp: new Date().toISOString(),
       };
 
@@ -414,6 +542,16 @@ class SecurityController {
         return;
       }
 
+      if (typeof pattern !== 'string' || typeof text !== 'string' || text.length > MAX_TEST_TEXT_LENGTH) {
+        this.sendError(
+          res,
+          400,
+          'VALIDATION_ERROR',
+          `Pattern and text must be strings (text maximum ${MAX_TEST_TEXT_LENGTH} characters)`
+        );
+        return;
+      }
+
       // Validate regex
       let regex: RegExp;
       try {
@@ -453,6 +591,11 @@ export default {
   updatePattern: securityController.updatePattern,
   deletePattern: securityController.deletePattern,
 
+  // Versions & reload
+  getPatternVersions: securityController.getPatternVersions,
+  rollbackPattern: securityController.rollbackPattern,
+  reloadPatterns: securityController.reloadPatterns,
+
   // Config
   getSecurityConfig: securityController.getSecurityConfig,
   updateSecurityConfig: securityController.updateSecurityConfig,
@@ -0,0 +1,371 @@
+// src/modules/admin/security.routes.ts
+// ============================================
+// SECURITY ROUTES
+// Jailbreak patterns & security config with FORTRESS protection
+// ============================================
+import { Router } from 'express';
+import securityController from './security.controller';
+import { authMiddleware } from '../auth/middleware/auth.middleware';
+import { adminGuard, adminGuardLight } from '../../middleware/admin-guard.middleware';
+
+/**
+ * ==========================================
+ * ADMIN PROTECTION ENABLED
+ * ==========================================
+ * Security Layers:
+ * 1. authMiddleware - User authentication (JWT)
+ * 2. adminGuardLight - IP allowlist + Rate limit + Audit (read routes)
+ * 3. adminGuard - Full protection (write routes)
+ *
+ * Every pattern change is stored as a version (rollback-able) and
+ * hot-reloaded into SecurityConfigManager, JailbreakDetector and
+ * PromptSanitizerService on all instances.
+ *
+ * Last Updated: October 18, 2026
+ */
+
+const router = Router();
+
+/**
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ * PATTERN ROUTES
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ */
+
+/**
+ * @swagger
+ * /api/admin/security/patterns:
+ *   get:
+ *     summary: List security patterns
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: enabled
+ *         schema:
+ *           type: boolean
+ *       - in: query
+ *         name: severity
+ *         schema:
+ *           type: string
+ *           enum: [LOW, MEDIUM, HIGH, CRITICAL]
+ *       - in: query
+ *         name: category
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Patterns
+ *       403:
+ *         description: IP not in admin allowlist
+ */
+router.get('/patterns', authMiddleware, adminGuardLight, securityController.getAllPatterns);
+
+/**
+ * @swagger
+ * /api/admin/security/patterns:
+ *   post:
+ *     summary: Create a security pattern
+ *     description: Stored as version 1 and hot-reloaded on all instances
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - pattern
+ *               - severity
+ *               - category
+ *               - description
+ *             properties:
+ *               name:
+ *                 type: string
+ *               pattern:
+ *                 type: string
+ *                 description: Regular expression (case-insensitive)
+ *                 example: "pretend\\s+you\\s+have\\s+no\\s+rules"
+ *               severity:
+ *                 type: string
+ *                 enum: [LOW, MEDIUM, HIGH, CRITICAL]
+ *               category:
+ *                 type: string
+ *                 enum: [JAILBREAK, PROMPT_EXPOSURE, MODEL_REVEAL, HARMFUL, ILLEGAL, SELF_HARM, INJECTION, MANIPULATION]
+ *               action:
+ *                 type: string
+ *                 enum: [BLOCK, WARN, LOG, ALLOW]
+ *                 default: BLOCK
+ *               description:
+ *                 type: string
+ *               enabled:
+ *                 type: boolean
+ *               priority:
+ *                 type: integer
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Pattern created
+ *       400:
+ *         description: Validation error
+ *       409:
+ *         description: Name already exists
+ */
+router.post('/patterns', authMiddleware, adminGuard, securityController.createPattern);
+
+/**
+ * @swagger
+ * /api/admin/security/patterns/{id}:
+ *   get:
+ *     summary: Get a security pattern
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Pattern
+ *       404:
+ *         description: Pattern not found
+ */
+router.get('/patterns/:id', authMiddleware, adminGuardLight, securityController.getPatternById);
+
+/**
+ * @swagger
+ * /api/admin/security/patterns/{id}:
+ *   put:
+ *     summary: Update a security pattern
+ *     description: Any subset of the create fields; creates a new version
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Pattern updated
+ *       400:
+ *         description: Validation error
+ *       404:
+ *         description: Pattern not found
+ */
+router.put('/patterns/:id', authMiddleware, adminGuard, securityController.updatePattern);
+
+/**
+ * @swagger
+ * /api/admin/security/patterns/{id}:
+ *   delete:
+ *     summary: Delete a security pattern
+ *     description: The last state is kept in the version history and can be restored with rollback
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Pattern deleted
+ *       404:
+ *         description: Pattern not found
+ */
+router.delete('/patterns/:id', authMiddleware, adminGuard, securityController.deletePattern);
+
+/**
+ * @swagger
+ * /api/admin/security/patterns/{id}/versions:
+ *   get:
+ *     summary: Pattern version history
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Versions, newest first (each with a full snapshot)
+ *       404:
+ *         description: No history for this pattern
+ */
+router.get('/patterns/:id/versions', authMiddleware, adminGuardLight, securityController.getPatternVersions);
+
+/**
+ * @swagger
+ * /api/admin/security/patterns/{id}/rollback:
+ *   post:
+ *     summary: Roll a pattern back to a previous version
+ *     description: Also restores deleted patterns. The rollback is recorded as a new version.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - version
+ *             properties:
+ *               version:
+ *                 type: integer
+ *                 example: 2
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Pattern restored
+ *       404:
+ *         description: Version not found
+ *       409:
+ *         description: Another pattern now uses this name
+ */
+router.post('/patterns/:id/rollback', authMiddleware, adminGuard, securityController.rollbackPattern);
+
+/**
+ * @swagger
+ * /api/admin/security/test-pattern:
+ *   post:
+ *     summary: Test a regex against sample text
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - pattern
+ *               - text
+ *             properties:
+ *               pattern:
+ *                 type: string
+ *               text:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Match result
+ *       400:
+ *         description: Invalid regex or input
+ */
+router.post('/test-pattern', authMiddleware, adminGuardLight, securityController.testPattern);
+
+/**
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ * CONFIG & MONITORING ROUTES
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ */
+
+/**
+ * @swagger
+ * /api/admin/security/config:
+ *   get:
+ *     summary: Security config values
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: category
+ *         schema:
+ *           type: string
+ *           example: MODERATION
+ *     responses:
+ *       200:
+ *         description: Config values with type, limits and last change
+ */
+router.get('/config', authMiddleware, adminGuardLight, securityController.getSecurityConfig);
+
+/**
+ * @swagger
+ * /api/admin/security/config:
+ *   put:
+ *     summary: Update security config values
+ *     description: All values are validated against type, range and allowed values before anything is written
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - values
+ *             properties:
+ *               values:
+ *                 type: object
+ *                 example: { "SUSPICIOUS_THRESHOLD": 40 }
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Config updated
+ *       400:
+ *         description: Unknown, non-editable or invalid value
+ */
+router.put('/config', authMiddleware, adminGuard, securityController.updateSecurityConfig);
+
+/**
+ * @swagger
+ * /api/admin/security/stats:
+ *   get:
+ *     summary: Security pattern statistics
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Pattern counts, match/block totals, runtime and sync status
+ */
+router.get('/stats', authMiddleware, adminGuardLight, securityController.getSecurityStats);
+
+/**
+ * @swagger
+ * /api/admin/security/reload:
+ *   post:
+ *     summary: Reload patterns and config on this instance now
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Reload result
+ */
+router.post('/reload', authMiddleware, adminGuard, securityController.reloadPatterns);
+
+/**
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ * EXPORT
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ */
+export default router;
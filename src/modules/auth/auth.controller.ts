@@ -1,5 +1,12 @@
 import { Request, Response } from 'express';
 import authService from './auth.service';
+import sessionService from './session.service';
+import referralService from '../billing/referral.service';
+import twoFactorService, { TwoFactorErrorReason, TwoFactorResult } from './two-factor.service';
+import verificationService, {
+  VerificationErrorReason,
+  VerificationResult,
+} from './verification.service';
 import { z } from 'zod';
 import { Region, Currency } from '@prisma/client';
 import {
@@ -8,17 +15,135 @@ import {
 } from '@constants/plans';
 
 // Validation schemas
+const fingerprintSchema = z
+  .object({
+    visitorId: z.string().min(1).max(255),
+    userAgent: z.string().max(500).optional(),
+    screenResolution: z.string().max(50).optional(),
+    timezone: z.string().max(100).optional(),
+    language: z.string().max(50).optional(),
+    platform: z.string().max(100).optional(),
+  })
+  .optional();
+
 const registerSchema = z.object({
   email: z.string().email('Invalid email format'),
   password: z.string().min(8, 'Password must be at least 8 characters'),
   name: z.string().min(2, 'Name must be at least 2 characters').optional(),
+  fingerprint: fingerprintSchema,
+  referralCode: z.string().trim().min(4).max(16).optional(),
 });
 
 const loginSchema = z.object({
   email: z.string().email('Invalid email format'),
   password: z.string().min(1, 'Password is required'),
+  fingerprint: fingerprintSchema,
+});
+
+const refreshSchema = z.object({
+  refreshToken: z.string().min(1, 'Refresh token is required'),
+});
+
+const logoutSchema = z.object({
+  refreshToken: z.string().min(1).optional(),
+});
+
+const tokenSchema = z.object({
+  token: z.string().min(1, 'Token is required').max(2048),
+});
+
+const forgotPasswordSchema = z.object({
+  email: z.string().email('Invalid email format'),
+});
+
+const resetPasswordSchema = z.object({
+  token: z.string().min(1, 'Token is required').max(2048),
+  password: z.string().min(8, 'Password must be at least 8 characters').max(128),
+});
+
+const mobileOtpRequestSchema = z.object({
+  mobileNumber: z.string().min(8, 'Mobile number is required').max(32),
+});
+
+const mobileOtpVerifySchema = z.object({
+  code: z.string().regex(/^\d{4,8}$/, 'Code must be digits'),
 });
 
+// Verification failure reason → HTTP status
+const VERIFICATION_ERROR_STATUS: Record<VerificationErrorReason, number> = {
+  user_not_found: 404,
+  already_verified: 409,
+  mobile_in_use: 409,
+  rate_limited: 429,
+  too_many_attempts: 429,
+  delivery_failed: 502,
+  invalid_token: 400,
+  expired: 400,
+  already_used: 400,
+  weak_password: 400,
+  invalid_mobile: 400,
+  no_pending_code: 400,
+  invalid_code: 400,
+};
+
+function sendVerificationFailure(res: Response, result: VerificationResult): void {
+  if (result.retryAfterSeconds) {
+    res.setHeader('Retry-After', String(result.retryAfterSeconds));
+  }
+
+  res.status(result.reason ? VERIFICATION_ERROR_STATUS[result.reason] : 500).json({
+    success: false,
+    message: result.error || 'Verification failed',
+    reason: result.reason,
+    retryAfterSeconds: result.retryAfterSeconds,
+    attemptsRemaining: result.attemptsRemaining,
+  });
+}
+
+const twoFactorCodeSchema = z.object({
+  code: z.string().min(6, 'Code is required').max(32),
+});
+
+const twoFactorLoginSchema = z.object({
+  mfaToken: z.string().min(1, 'mfaToken is required').max(2048),
+  code: z.string().min(6, 'Code is required').max(32),
+  fingerprint: fingerprintSchema,
+});
+
+// 2FA failure reason → HTTP status
+const TWO_FACTOR_ERROR_STATUS: Record<TwoFactorErrorReason, number> = {
+  user_not_found: 404,
+  not_enabled: 400,
+  no_pending_enrollment: 400,
+  already_enabled: 409,
+  invalid_code: 401,
+  invalid_challenge: 401,
+  locked: 429,
+  account_inactive: 403,
+};
+
+function sendTwoFactorFailure(res: Response, result: TwoFactorResult): void {
+  if (result.retryAfterSeconds) {
+    res.setHeader('Retry-After', String(result.retryAfterSeconds));
+  }
+
+  res.status(result.reason ? TWO_FACTOR_ERROR_STATUS[result.reason] : 500).json({
+    success: false,
+    message: result.error || 'Two-factor verification failed',
+    reason: result.reason,
+    attemptsRemaining: result.attemptsRemaining,
+    retryAfterSeconds: result.retryAfterSeconds,
+  });
+}
+
+function sendValidationError(res: Response, error: z.ZodError): void {
+  res.status(400).json({
+    success: false,
+    message: 'Validation error',
+    errors: error.issues,
+  });
+}
+
 // ⭐ Region data interface
 interface RegionData {
   region: Region;
@@ -61,7 +186,7 @@ export class AuthController {
   async register(req: Request, res: Response): Promise<void> {
     try {
       // Validate request body
-      const { email, password, name } = registerSchema.parse(req.body);
+      const { email, password, name, fingerprint, referralCode } = registerSchema.parse(req.body);
 
       // ⭐ Get region data from middleware
       const regionalReq = req as any;
@@ -75,7 +200,24 @@ export class AuthController {
       };
 
       // Register user with region data
-      const result = await authService.register({ email, password, name, regionData });
+      const result = await authService.register({
+        email,
+        password,
+        name,
+        regionData,
+        fingerprint,
+        ipAddress: req.ip,
+        userAgent: req.get('user-agent'),
+      });
+
+      // A bad referral code does not fail the signup
+      let referralApplied: boolean | undefined;
+      if (referralCode) {
+        const referral = await referralService
+          .applyCode(result.user.id, referralCode)
+          .catch(() => ({ success: false }));
+        referralApplied = referral.success;
+      }
 
       res.status(201).json({
         success: true,
@@ -85,6 +227,7 @@ export class AuthController {
           region: regionData.region,
           currency: regionData.currency,
           country: regionData.countryName,
+          referralApplied,
         },
       });
     } catch (error: any) {
@@ -111,15 +254,21 @@ export class AuthController {
   async login(req: Request, res: Response): Promise<void> {
     try {
       // Validate request body
-      const { email, password } = loginSchema.parse(req.body);
+      const { email, password, fingerprint } = loginSchema.parse(req.body);
 
       // Login user
-      const result = await authService.login({ email, password });
+      const result = await authService.login({
+        email,
+        password,
+        fingerprint,
+        ipAddress: req.ip,
+        userAgent: req.get('user-agent'),
+      });
 
       // ⭐ Include region info in response
       res.status(200).json({
         success: true,
-        message: 'Login successful',
+        message: 'mfaRequired' in result ? 'Two-factor code required' : 'Login successful',
         data: {
           ...result,
           region: result.user?.region || 'IN',
@@ -240,6 +389,745 @@ export class AuthController {
     });
   }
 }
+
+  /**
+   * POST /api/auth/refresh
+   * Rotate the refresh token and issue a new access token
+   */
+  async refresh(req: Request, res: Response): Promise<void> {
+    try {
+      const { refreshToken } = refreshSchema.parse(req.body);
+
+      const result = await sessionService.refresh(refreshToken, {
+        ipAddress: req.ip,
+        userAgent: req.get('user-agent'),
+      });
+
+      if (!result.success || !result.tokens) {
+        res.status(401).json({
+          success: false,
+          message: result.error || 'Token refresh failed',
+          reason: result.reason,
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Token refreshed',
+        data: result.tokens,
+      });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: error.issues,
+        });
+        return;
+      }
+
+      console.error('❌ Refresh Error:', error.message);
+      res.status(500).json({
+        success: false,
+        message: 'Token refresh failed',
+      });
+    }
+  }
+
+  /**
+   * POST /api/auth/logout
+   * Revoke the current session (access token) or the refresh token's session
+   */
+  async logout(req: Request, res: Response): Promise<void> {
+    try {
+      const { refreshToken } = logoutSchema.parse(req.body || {});
+      const user = (req as any).user;
+
+      let revoked = false;
+      if (user?.userId && user.sessionId) {
+        revoked = await sessionService.revokeSession(user.userId, user.sessionId, 'logout');
+      } else if (refreshToken) {
+        revoked = await sessionService.revokeByRefreshToken(refreshToken);
+      } else {
+        res.status(400).json({
+          success: false,
+          message: 'A session access token or refreshToken is required',
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: revoked ? 'Logged out successfully' : 'Session already ended',
+      });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: error.issues,
+        });
+        return;
+      }
+
+      console.error('❌ Logout Error:', error.message);
+      res.status(500).json({
+        success: false,
+        message: 'Logout failed',
+      });
+    }
+  }
+
+  /**
+   * GET /api/auth/sessions
+   * Active sessions (signed-in devices) of the current user
+   */
+  async getSessions(req: Request, res: Response): Promise<void> {
+    try {
+      const user = (req as any).user;
+
+      if (!user || !user.userId) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+        return;
+      }
+
+      const sessions = await sessionService.listActiveSessions(user.userId, user.sessionId);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          sessions,
+          total: sessions.length,
+        },
+      });
+    } catch (error: any) {
+      console.error('❌ Sessions Error:', error.message);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to fetch sessions',
+      });
+    }
+  }
+
+  /**
+   * DELETE /api/auth/sessions/:id
+   * Sign out one device
+   */
+  async revokeSession(req: Request, res: Response): Promise<void> {
+    try {
+      const user = (req as any).user;
+
+      if (!user || !user.userId) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+        return;
+      }
+
+      const revoked = await sessionService.revokeSession(user.userId, req.params.id, 'user_revoked');
+
+      if (!revoked) {
+        res.status(404).json({
+          success: false,
+          message: 'Session not found or already revoked',
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Session revoked',
+        data: { sessionId: req.params.id, isCurrent: req.params.id === user.sessionId },
+      });
+    } catch (error: any) {
+      console.error('❌ Revoke Session Error:', error.message);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to revoke session',
+      });
+    }
+  }
+
+  /**
+   * DELETE /api/auth/sessions?includeCurrent=true
+   * Sign out all other devices (or all devices with includeCurrent)
+   */
+  async revokeAllSessions(req: Request, res: Response): Promise<void> {
+    try {
+      const user = (req as any).user;
+
+      if (!user || !user.userId) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+        return;
+      }
+
+      const includeCurrent = req.query.includeCurrent === 'true';
+      const revokedCount = await sessionService.revokeAllSessions(user.userId, {
+        exceptSessionId: includeCurrent ? undefined : user.sessionId,
+        reason: 'user_revoked_all',
+      });
+
+      res.status(200).json({
+        success: true,
+        message: `${revokedCount} session(s) revoked`,
+        data: { revokedCount, includeCurrent },
+      });
+    } catch (error: any) {
+      console.error('❌ Revoke All Sessions Error:', error.message);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to revoke sessions',
+      });
+    }
+  }
+
+  /**
+   * GET /api/auth/verification-status
+   */
+  async getVerificationStatus(req: Request, res: Response): Promise<void> {
+    try {
+      const user = (req as any).user;
+
+      if (!user || !user.userId) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+        return;
+      }
+
+      const status = await authService.getVerificationStatus(user.userId);
+
+      res.status(200).json({
+        success: true,
+        data: status,
+      });
+    } catch (error: any) {
+      console.error('❌ Verification Status Error:', error.message);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to fetch verification status',
+      });
+    }
+  }
+
+  /**
+   * POST /api/auth/verify-email/send
+   * (Re)send the verification link to the current user's email
+   */
+  async sendEmailVerification(req: Request, res: Response): Promise<void> {
+    try {
+      const user = (req as any).user;
+
+      if (!user || !user.userId) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+        return;
+      }
+
+      const result = await verificationService.sendEmailVerification(user.userId);
+
+      if (!result.success) {
+        sendVerificationFailure(res, result);
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Verification email sent',
+        data: { expiresAt: result.expiresAt },
+      });
+    } catch (error: any) {
+      console.error('❌ Send Verification Email Error:', error.message);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to send verification email',
+      });
+    }
+  }
+
+  /**
+   * POST /api/auth/verify-email
+   * Confirm the token from the verification link
+   */
+  async verifyEmail(req: Request, res: Response): Promise<void> {
+    try {
+      const { token } = tokenSchema.parse(req.body);
+
+      const result = await verificationService.confirmEmail(token);
+
+      if (!result.success) {
+        sendVerificationFailure(res, result);
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Email verified successfully',
+      });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        sendValidationError(res, error);
+        return;
+      }
+
+      console.error('❌ Verify Email Error:', error.message);
+      res.status(500).json({
+        success: false,
+        message: 'Email verification failed',
+      });
+    }
+  }
+
+  /**
+   * POST /api/auth/forgot-password
+   * Same response whether or not the email has an account
+   */
+  async forgotPassword(req: Request, res: Response): Promise<void> {
+    try {
+      const { email } = forgotPasswordSchema.parse(req.body);
+
+      await verificationService.requestPasswordReset(email.toLowerCase().trim());
+
+      res.status(200).json({
+        success: true,
+        message: 'If an account exists for this email, a password reset link has been sent',
+      });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        sendValidationError(res, error);
+        return;
+      }
+
+      console.error('❌ Forgot Password Error:', error.message);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to process password reset request',
+      });
+    }
+  }
+
+  /**
+   * POST /api/auth/reset-password
+   * Set a new password from a reset link; signs out every device
+   */
+  async resetPassword(req: Request, res: Response): Promise<void> {
+    try {
+      const { token, password } = resetPasswordSchema.parse(req.body);
+
+      const result = await verificationService.resetPassword(token, password);
+
+      if (!result.success) {
+        sendVerificationFailure(res, result);
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Password has been reset. Please log in again',
+        data: { sessionsRevoked: result.sessionsRevoked },
+      });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        sendValidationError(res, error);
+        return;
+      }
+
+      console.error('❌ Reset Password Error:', error.message);
+      res.status(500).json({
+        success: false,
+        message: 'Password reset failed',
+      });
+    }
+  }
+
+  /**
+   * POST /api/auth/verify-mobile/send
+   * Text a one-time code to the given number
+   */
+  async sendMobileOtp(req: Request, res: Response): Promise<void> {
+    try {
+      const user = (req as any).user;
+
+      if (!user || !user.userId) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+        return;
+      }
+
+      const { mobileNumber } = mobileOtpRequestSchema.parse(req.body);
+
+      const result = await verificationService.sendMobileOtp(user.userId, mobileNumber);
+
+      if (!result.success) {
+        sendVerificationFailure(res, result);
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Verification code sent',
+        data: { expiresAt: result.expiresAt },
+      });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        sendValidationError(res, error);
+        return;
+      }
+
+      console.error('❌ Send Mobile OTP Error:', error.message);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to send verification code',
+      });
+    }
+  }
+
+  /**
+   * POST /api/auth/verify-mobile
+   * Check the code; the number is saved as verified on success
+   */
+  async verifyMobile(req: Request, res: Response): Promise<void> {
+    try {
+      const user = (req as any).user;
+
+      if (!user || !user.userId) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+        return;
+      }
+
+      const { code } = mobileOtpVerifySchema.parse(req.body);
+
+      const result = await verificationService.verifyMobileOtp(user.userId, code);
+
+      if (!result.success) {
+        sendVerificationFailure(res, result);
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Mobile number verified successfully',
+      });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        sendValidationError(res, error);
+        return;
+      }
+
+      console.error('❌ Verify Mobile Error:', error.message);
+      res.status(500).json({
+        success: false,
+        message: 'Mobile verification failed',
+      });
+    }
+  }
+
+  /**
+   * GET /api/auth/2fa/status
+   */
+  async getTwoFactorStatus(req: Request, res: Response): Promise<void> {
+    try {
+      const user = (req as any).user;
+
+      if (!user || !user.userId) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+        return;
+      }
+
+      const status = await twoFactorService.getStatus(user.userId);
+
+      if (!status) {
+        res.status(404).json({
+          success: false,
+          message: 'User not found',
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: status,
+      });
+    } catch (error: any) {
+      console.error('❌ 2FA Status Error:', error.message);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to fetch two-factor status',
+      });
+    }
+  }
+
+  /**
+   * POST /api/auth/2fa/setup
+   * New secret + otpauth:// URI (shown as QR code); 2FA stays off until /2fa/enable
+   */
+  async setupTwoFactor(req: Request, res: Response): Promise<void> {
+    try {
+      const user = (req as any).user;
+
+      if (!user || !user.userId) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+        return;
+      }
+
+      const result = await twoFactorService.beginEnrollment(user.userId);
+
+      if (!result.success) {
+        sendTwoFactorFailure(res, result);
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Scan the QR code with your authenticator app, then confirm with a code',
+        data: result.enrollment,
+      });
+    } catch (error: any) {
+      console.error('❌ 2FA Setup Error:', error.message);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to start two-factor setup',
+      });
+    }
+  }
+
+  /**
+   * POST /api/auth/2fa/enable
+   * Confirm setup with the first code; returns recovery codes (shown once)
+   */
+  async enableTwoFactor(req: Request, res: Response): Promise<void> {
+    try {
+      const user = (req as any).user;
+
+      if (!user || !user.userId) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+        return;
+      }
+
+      const { code } = twoFactorCodeSchema.parse(req.body);
+
+      const result = await twoFactorService.confirmEnrollment(user.userId, code, user.sessionId);
+
+      if (!result.success) {
+        sendTwoFactorFailure(res, result);
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Two-factor authentication enabled. Store your recovery codes safely',
+        data: { recoveryCodes: result.recoveryCodes },
+      });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        sendValidationError(res, error);
+        return;
+      }
+
+      console.error('❌ 2FA Enable Error:', error.message);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to enable two-factor authentication',
+      });
+    }
+  }
+
+  /**
+   * POST /api/auth/2fa/disable
+   */
+  async disableTwoFactor(req: Request, res: Response): Promise<void> {
+    try {
+      const user = (req as any).user;
+
+      if (!user || !user.userId) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+        return;
+      }
+
+      const { code } = twoFactorCodeSchema.parse(req.body);
+
+      const result = await twoFactorService.disable(user.userId, code);
+
+      if (!result.success) {
+        sendTwoFactorFailure(res, result);
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Two-factor authentication disabled',
+      });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        sendValidationError(res, error);
+        return;
+      }
+
+      console.error('❌ 2FA Disable Error:', error.message);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to disable two-factor authentication',
+      });
+    }
+  }
+
+  /**
+   * POST /api/auth/2fa/recovery-codes
+   * Replace all recovery codes
+   */
+  async regenerateRecoveryCodes(req: Request, res: Response): Promise<void> {
+    try {
+      const user = (req as any).user;
+
+      if (!user || !user.userId) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+        return;
+      }
+
+      const { code } = twoFactorCodeSchema.parse(req.body);
+
+      const result = await twoFactorService.regenerateRecoveryCodes(user.userId, code);
+
+      if (!result.success) {
+        sendTwoFactorFailure(res, result);
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'New recovery codes generated. The old ones no longer work',
+        data: { recoveryCodes: result.recoveryCodes },
+      });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        sendValidationError(res, error);
+        return;
+      }
+
+      console.error('❌ Recovery Codes Error:', error.message);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to generate recovery codes',
+      });
+    }
+  }
+
+  /**
+   * POST /api/auth/2fa/login
+   * Second login step: challenge token from /login (or OAuth) + code
+   */
+  async completeTwoFactorLogin(req: Request, res: Response): Promise<void> {
+    try {
+      const { mfaToken, code, fingerprint } = twoFactorLoginSchema.parse(req.body);
+
+      const result = await twoFactorService.completeLoginChallenge(mfaToken, code, {
+        ipAddress: req.ip,
+        userAgent: req.get('user-agent'),
+        fingerprint,
+      });
+
+      if (!result.success || !result.tokens) {
+        sendTwoFactorFailure(res, result);
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Login successful',
+        data: {
+          ...result.tokens,
+          user: result.user,
+          method: result.method,
+        },
+      });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        sendValidationError(res, error);
+        return;
+      }
+
+      console.error('❌ 2FA Login Error:', error.message);
+      res.status(500).json({
+        success: false,
+        message: 'Two-factor login failed',
+      });
+    }
+  }
+
+  /**
+   * POST /api/auth/2fa/step-up
+   * Re-confirm the second factor before a sensitive action
+   */
+  async stepUpTwoFactor(req: Request, res: Response): Promise<void> {
+    try {
+      const user = (req as any).user;
+
+      if (!user || !user.userId) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+        return;
+      }
+
+      const { code } = twoFactorCodeSchema.parse(req.body);
+
+      const result = await twoFactorService.stepUp(user.userId, user.sessionId, code);
+
+      if (!result.success) {
+        sendTwoFactorFailure(res, result);
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Verified',
+        data: { method: result.method },
+      });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        sendValidationError(res, error);
+        return;
+      }
+
+      console.error('❌ 2FA Step-up Error:', error.message);
+      res.status(500).json({
+        success: false,
+        message: 'Two-factor verification failed',
+      });
+    }
+  }
 }
 
 export default new AuthController();
\ No newline at end of file
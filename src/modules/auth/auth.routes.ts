@@ -5,13 +5,15 @@
  * ==========================================
  * Email/Password + OAuth (Google, GitHub)
  * No Passport - Manual PKCE Flow
- * Last Updated: November 18, 2025
+ * Sessions: rotating refresh tokens, logout, device management
+ * Verification: email links, password reset, mobile OTP
+ * Last Updated: October 18, 2026
  */
 
 import { Router } from 'express';
 import { AuthController } from './auth.controller';
 import { OAuthController } from './oauth.controller';
-import { authMiddleware } from './middleware/auth.middleware';
+import { authMiddleware, optionalAuthMiddleware } from './middleware/auth.middleware';
 import { detectRegion } from './middleware/region.middleware';
 
 import {
@@ -58,6 +60,10 @@ const oauthController = new OAuthController();
  *               name:
  *                 type: string
  *                 example: John Doe
+ *               referralCode:
+ *                 type: string
+ *                 description: Invite code from an existing user; data.referralApplied reports whether it was accepted
+ *                 example: K7QX2MPD
  *     responses:
  *       201:
  *         description: User registered successfully
@@ -95,7 +101,7 @@ router.post('/register', strictAuthLimiter, detectRegion, (req, res) => authCont
  *                 example: SecurePass123!
  *     responses:
  *       200:
- *         description: Login successful
+ *         description: Login successful, or mfaRequired + mfaToken when two-factor authentication is enabled (finish with /api/auth/2fa/login)
  *       400:
  *         description: Invalid credentials
  *       404:
@@ -103,6 +109,527 @@ router.post('/register', strictAuthLimiter, detectRegion, (req, res) => authCont
  */
 router.post('/login', strictAuthLimiter, (req, res) => authController.login(req, res));
 
+// ===========================
+// SESSION ROUTES
+// ===========================
+
+/**
+ * @swagger
+ * /api/auth/refresh:
+ *   post:
+ *     summary: Refresh access token
+ *     description: Exchange a refresh token for a new access token and a new refresh token. Each refresh token works once; presenting a used one revokes the whole session.
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - refreshToken
+ *             properties:
+ *               refreshToken:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: New token pair (token, refreshToken, sessionId, refreshTokenExpiresAt)
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Invalid, expired, revoked or reused refresh token
+ */
+router.post('/refresh', oauthLimiter, (req, res) => authController.refresh(req, res));
+
+/**
+ * @swagger
+ * /api/auth/logout:
+ *   post:
+ *     summary: Logout
+ *     description: Revoke the current session. Uses the session of the Bearer access token, or the refreshToken in the body when the access token has expired.
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               refreshToken:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Logged out
+ *       400:
+ *         description: Neither a session access token nor a refresh token was provided
+ */
+router.post('/logout', generalApiLimiter, optionalAuthMiddleware, (req, res) => authController.logout(req, res));
+
+/**
+ * @swagger
+ * /api/auth/sessions:
+ *   get:
+ *     summary: List active sessions
+ *     description: Signed-in devices of the current user, most recently active first. isKnownDevice is true when the device fingerprint was seen at signup or in an earlier session.
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Active sessions
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/sessions', generalApiLimiter, authMiddleware, (req, res) => authController.getSessions(req, res));
+
+/**
+ * @swagger
+ * /api/auth/sessions:
+ *   delete:
+ *     summary: Revoke all sessions
+ *     description: Sign out every other device, or every device including this one with includeCurrent=true
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: includeCurrent
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *     responses:
+ *       200:
+ *         description: Sessions revoked
+ *       401:
+ *         description: Unauthorized
+ */
+router.delete('/sessions', generalApiLimiter, authMiddleware, (req, res) => authController.revokeAllSessions(req, res));
+
+/**
+ * @swagger
+ * /api/auth/sessions/{id}:
+ *   delete:
+ *     summary: Revoke a session
+ *     description: Sign out one device. Its refresh token and access tokens stop working immediately.
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Session revoked
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Session not found or already revoked
+ */
+router.delete('/sessions/:id', generalApiLimiter, authMiddleware, (req, res) => authController.revokeSession(req, res));
+
+// ===========================
+// VERIFICATION & PASSWORD RESET ROUTES
+// ===========================
+
+/**
+ * @swagger
+ * /api/auth/verification-status:
+ *   get:
+ *     summary: Get verification status
+ *     description: Whether the current user's email and mobile number are verified
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: emailVerified, mobileVerified, accountAgeDays, canPurchaseBoosters
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/verification-status', generalApiLimiter, authMiddleware, (req, res) => authController.getVerificationStatus(req, res));
+
+/**
+ * @swagger
+ * /api/auth/verify-email/send:
+ *   post:
+ *     summary: Send email verification link
+ *     description: Emails a signed, single-use link to the current user's address. A new link invalidates earlier ones. Throttled by a resend cooldown and an hourly cap.
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Link sent (expiresAt)
+ *       409:
+ *         description: Email already verified
+ *       429:
+ *         description: Sent too recently or too often (Retry-After header)
+ *       502:
+ *         description: Email could not be delivered
+ */
+router.post('/verify-email/send', strictAuthLimiter, authMiddleware, (req, res) => authController.sendEmailVerification(req, res));
+
+/**
+ * @swagger
+ * /api/auth/verify-email:
+ *   post:
+ *     summary: Confirm email address
+ *     description: Consumes the token from the verification link
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - token
+ *             properties:
+ *               token:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Email verified
+ *       400:
+ *         description: Invalid, expired or already used token (reason)
+ */
+router.post('/verify-email', strictAuthLimiter, (req, res) => authController.verifyEmail(req, res));
+
+/**
+ * @swagger
+ * /api/auth/forgot-password:
+ *   post:
+ *     summary: Request a password reset link
+ *     description: Emails a single-use reset link. Always answers 200 so the endpoint does not reveal which emails have accounts.
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - email
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *     responses:
+ *       200:
+ *         description: Request accepted
+ *       400:
+ *         description: Validation error
+ */
+router.post('/forgot-password', strictAuthLimiter, (req, res) => authController.forgotPassword(req, res));
+
+/**
+ * @swagger
+ * /api/auth/reset-password:
+ *   post:
+ *     summary: Reset password
+ *     description: Sets a new password using the token from the reset link and signs out every device
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - token
+ *               - password
+ *             properties:
+ *               token:
+ *                 type: string
+ *               password:
+ *                 type: string
+ *                 format: password
+ *                 minLength: 8
+ *     responses:
+ *       200:
+ *         description: Password changed (sessionsRevoked)
+ *       400:
+ *         description: Invalid, expired or already used token, or weak password (reason)
+ */
+router.post('/reset-password', strictAuthLimiter, (req, res) => authController.resetPassword(req, res));
+
+/**
+ * @swagger
+ * /api/auth/verify-mobile/send:
+ *   post:
+ *     summary: Send mobile verification code
+ *     description: Texts a 6-digit one-time code. A new code invalidates earlier ones. Throttled by a resend cooldown and an hourly cap.
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - mobileNumber
+ *             properties:
+ *               mobileNumber:
+ *                 type: string
+ *                 example: "+919876543210"
+ *     responses:
+ *       200:
+ *         description: Code sent (expiresAt)
+ *       400:
+ *         description: Number not in international format
+ *       409:
+ *         description: Number already verified (on this or another account)
+ *       429:
+ *         description: Sent too recently or too often (Retry-After header)
+ *       502:
+ *         description: SMS could not be delivered
+ */
+router.post('/verify-mobile/send', strictAuthLimiter, authMiddleware, (req, res) => authController.sendMobileOtp(req, res));
+
+/**
+ * @swagger
+ * /api/auth/verify-mobile:
+ *   post:
+ *     summary: Verify mobile number
+ *     description: Checks the latest code. Each code allows a limited number of guesses.
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 example: "483920"
+ *     responses:
+ *       200:
+ *         description: Mobile number verified
+ *       400:
+ *         description: Wrong, expired or missing code (reason, attemptsRemaining)
+ *       429:
+ *         description: Too many wrong attempts; request a new code
+ */
+router.post('/verify-mobile', strictAuthLimiter, authMiddleware, (req, res) => authController.verifyMobile(req, res));
+
+// ===========================
+// TWO-FACTOR AUTHENTICATION ROUTES
+// ===========================
+
+/**
+ * @swagger
+ * /api/auth/2fa/status:
+ *   get:
+ *     summary: Get two-factor status
+ *     description: Whether TOTP two-factor authentication is enabled and how many recovery codes are left
+ *     tags: [Auth - 2FA]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: enabled, enabledAt, pendingEnrollment, recoveryCodesRemaining, recommended
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/2fa/status', generalApiLimiter, authMiddleware, (req, res) => authController.getTwoFactorStatus(req, res));
+
+/**
+ * @swagger
+ * /api/auth/2fa/setup:
+ *   post:
+ *     summary: Start two-factor enrollment
+ *     description: Creates a new TOTP secret and returns its otpauth:// URI for the QR code. 2FA stays off until confirmed with /api/auth/2fa/enable.
+ *     tags: [Auth - 2FA]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: secret, otpauthUrl, issuer, accountName
+ *       409:
+ *         description: Two-factor authentication is already enabled
+ */
+router.post('/2fa/setup', strictAuthLimiter, authMiddleware, (req, res) => authController.setupTwoFactor(req, res));
+
+/**
+ * @swagger
+ * /api/auth/2fa/enable:
+ *   post:
+ *     summary: Confirm two-factor enrollment
+ *     description: Turns 2FA on with the first authenticator code. Returns one-time recovery codes, shown only once.
+ *     tags: [Auth - 2FA]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 description: 6-digit authenticator code
+ *                 example: "492039"
+ *     responses:
+ *       200:
+ *         description: Enabled; recoveryCodes
+ *       400:
+ *         description: No pending enrollment
+ *       401:
+ *         description: Wrong code (attemptsRemaining)
+ *       429:
+ *         description: Too many wrong codes (Retry-After)
+ */
+router.post('/2fa/enable', strictAuthLimiter, authMiddleware, (req, res) => authController.enableTwoFactor(req, res));
+
+/**
+ * @swagger
+ * /api/auth/2fa/disable:
+ *   post:
+ *     summary: Disable two-factor authentication
+ *     description: Requires a current code. Admin accounts lose admin API access while 2FA is off.
+ *     tags: [Auth - 2FA]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 description: 6-digit authenticator code or a recovery code
+ *                 example: "492039"
+ *     responses:
+ *       200:
+ *         description: Disabled; recovery codes removed
+ *       400:
+ *         description: Two-factor authentication is not enabled
+ *       401:
+ *         description: Wrong code
+ *       429:
+ *         description: Too many wrong codes (Retry-After)
+ */
+router.post('/2fa/disable', strictAuthLimiter, authMiddleware, (req, res) => authController.disableTwoFactor(req, res));
+
+/**
+ * @swagger
+ * /api/auth/2fa/recovery-codes:
+ *   post:
+ *     summary: Regenerate recovery codes
+ *     description: Replaces all recovery codes; the old ones stop working.
+ *     tags: [Auth - 2FA]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 description: 6-digit authenticator code or a recovery code
+ *                 example: "492039"
+ *     responses:
+ *       200:
+ *         description: recoveryCodes
+ *       401:
+ *         description: Wrong code
+ *       429:
+ *         description: Too many wrong codes (Retry-After)
+ */
+router.post('/2fa/recovery-codes', strictAuthLimiter, authMiddleware, (req, res) => authController.regenerateRecoveryCodes(req, res));
+
+/**
+ * @swagger
+ * /api/auth/2fa/login:
+ *   post:
+ *     summary: Complete login with a second factor
+ *     description: Exchanges the mfaToken returned by /api/auth/login (or the OAuth callback) and a code for access and refresh tokens.
+ *     tags: [Auth - 2FA]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - mfaToken
+ *               - code
+ *             properties:
+ *               mfaToken:
+ *                 type: string
+ *               code:
+ *                 type: string
+ *                 description: 6-digit authenticator code or a recovery code
+ *                 example: "492039"
+ *               fingerprint:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Login successful
+ *       401:
+ *         description: Wrong code, or challenge invalid/expired
+ *       429:
+ *         description: Too many wrong codes (Retry-After)
+ */
+router.post('/2fa/login', strictAuthLimiter, (req, res) => authController.completeTwoFactorLogin(req, res));
+
+/**
+ * @swagger
+ * /api/auth/2fa/step-up:
+ *   post:
+ *     summary: Re-verify for a sensitive action
+ *     description: Answer to a 403 STEP_UP_REQUIRED (plan changes, admin settings). Marks the current session as recently verified, then retry the original request.
+ *     tags: [Auth - 2FA]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 description: 6-digit authenticator code or a recovery code
+ *                 example: "492039"
+ *     responses:
+ *       200:
+ *         description: Verified
+ *       400:
+ *         description: Two-factor authentication is not enabled
+ *       401:
+ *         description: Wrong code
+ *       429:
+ *         description: Too many wrong codes (Retry-After)
+ */
+router.post('/2fa/step-up', strictAuthLimiter, authMiddleware, (req, res) => authController.stepUpTwoFactor(req, res));
+
 // ===========================
 // GOOGLE OAUTH ROUTES (PKCE)
 // ===========================
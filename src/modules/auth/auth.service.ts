@@ -19,11 +19,16 @@
  * ✅ Suspicious login detection
  * ✅ Verification status tracking
  * ✅ Refund tracking
+ * ✅ Device sessions with rotating refresh tokens (session.service.ts)
+ * ✅ Verification email sent on signup (verification.service.ts)
+ * ✅ TOTP second factor at login when enabled (two-factor.service.ts)
  */
 
 import { prisma } from '../../config/prisma';
 import bcrypt from 'bcrypt';
-import { generateAccessToken } from '@shared/utils/jwt.util';
+import sessionService from './session.service';
+import verificationService from './verification.service';
+import twoFactorService from './two-factor.service';
 
 // Prisma enums
 import { PlanType, PlanStatus, SecurityStatus, ActivityTrend, Region, Currency } from '@prisma/client';
@@ -105,6 +110,7 @@ interface SignupData {
   regionData?: RegionData;
   fingerprint?: DeviceFingerprint;
   ipAddress?: string;
+  userAgent?: string;
 }
 
 interface LoginData {
@@ -112,6 +118,7 @@ interface LoginData {
   password: string;
   fingerprint?: DeviceFingerprint;
   ipAddress?: string;
+  userAgent?: string;
 }
 
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
@@ -189,7 +196,7 @@ export class AuthService {
   // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
   async register(data: SignupData) {
-    const { email, password, name, regionData, fingerprint, ipAddress } = data;
+    const { email, password, name, regionData, fingerprint, ipAddress, userAgent } = data;
 
     try {
       // ════════════════════════════════════════════════════════════
@@ -367,18 +374,26 @@ export class AuthService {
         });
       }
 
-      // Generate JWT
-      const token = generateAccessToken({
-        userId: user.id,
-        email: user.email,
-        planType: user.planType,
+      // Start device session (access + rotating refresh token)
+      const { token, refreshToken, sessionId } = await sessionService.createSession(user, {
+        authMethod: 'email',
+        ipAddress,
+        userAgent,
+        fingerprint,
       });
 
       console.log(`✅ [AuthService] User registered: ${email} with ${defaultPlan} plan (limits from plans.ts)`);
 
+      // Verification email is best-effort; the account works unverified
+      verificationService.sendEmailVerification(user.id).catch((error) => {
+        console.error(`⚠️ [AuthService] Verification email failed for ${email}:`, error.message);
+      });
+
       return {
         success: true,
         token,
+        refreshToken,
+        sessionId,
         user,
       };
     } catch (error: any) {
@@ -391,7 +406,7 @@ export class AuthService {
   // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
   async login(data: LoginData) {
-    const { email, password, fingerprint, ipAddress } = data;
+    const { email, password, fingerprint, ipAddress, userAgent } = data;
 
     try {
       const user = await prisma.user.findUnique({
@@ -481,17 +496,29 @@ export class AuthService {
         });
       }
 
-      const token = generateAccessToken({
-        userId: user.id,
-        email: user.email,
-        planType: user.planType,
-      });
-
       const { password: _, deviceFingerprint: __, ...userWithoutSensitive } = user;
 
+      // 2FA accounts get a challenge; the session is created by /auth/2fa/login
+      if (await twoFactorService.isEnabled(user.id)) {
+        return {
+          success: true,
+          ...twoFactorService.createLoginChallenge(user.id, 'email'),
+          user: userWithoutSensitive,
+        };
+      }
+
+      const { token, refreshToken, sessionId } = await sessionService.createSession(user, {
+        authMethod: 'email',
+        ipAddress,
+        userAgent,
+        fingerprint,
+      });
+
       return {
         success: true,
         token,
+        refreshToken,
+        sessionId,
         user: userWithoutSensitive,
       };
     } catch (error: any) {
@@ -615,22 +642,7 @@ export class AuthService {
   // VERIFICATION
   // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
-  async verifyEmail(userId: string): Promise<void> {
-    await prisma.user.update({
-      where: { id: userId },
-      data: { emailVerified: true },
-    });
-  }
-
-  async verifyMobile(userId: string, mobileNumber?: string): Promise<void> {
-    await prisma.user.update({
-      where: { id: userId },
-      data: {
-        mobileVerified: true,
-        mobileNumber: mobileNumber || undefined,
-      },
-    });
-  }
+  // Email/mobile verification flows: verification.service.ts
 
   async getVerificationStatus(userId: string) {
     const user = await prisma.user.findUnique({
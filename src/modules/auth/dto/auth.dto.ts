@@ -68,6 +68,8 @@ export interface JWTPayload {
   userId: string;
   email: string;
   planType: string;
+  sessionId?: string;
+  type?: 'refresh';
 }
 
 /**
@@ -1,5 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import { JWTUtil } from '../utils/jwt.util';
+import sessionService from '../session.service';
+import twoFactorService from '../two-factor.service';
 import { PrismaClient, PlanStatus } from '@prisma/client';
 
 const prisma = new PrismaClient();
@@ -42,16 +44,24 @@ export const authMiddleware = async (
       });
     }
 
-    // Verify token
+    // Verify token (refresh tokens are not accepted as access tokens)
     const payload = JWTUtil.verifyAccessToken(token);
 
-    if (!payload) {
+    if (!payload || payload.type === 'refresh') {
       return res.status(401).json({
         success: false,
         message: 'Invalid or expired token'
       });
     }
 
+    // Every access token is bound to a session, so revocation always applies
+    if (!payload.sessionId || !(await sessionService.isSessionActive(payload.sessionId))) {
+      return res.status(401).json({
+        success: false,
+        message: 'Session has been revoked or expired'
+      });
+    }
+
     // Check if user still exists in database
     const user = await prisma.user.findUnique({
       where: { id: payload.userId },
@@ -82,7 +92,8 @@ export const authMiddleware = async (
     (req as any).user = {
       userId: user.id,
       email: user.email,
-      planType: user.planType
+      planType: user.planType,
+      sessionId: payload.sessionId
     };
 
     // Continue to next middleware/controller
@@ -122,7 +133,10 @@ export const optionalAuthMiddleware = async (
     // Verify token if present
     const payload = JWTUtil.verifyAccessToken(token);
 
-    if (payload) {
+    const sessionActive =
+      !!payload?.sessionId && (await sessionService.isSessionActive(payload.sessionId));
+
+    if (payload && payload.type !== 'refresh' && sessionActive) {
       const user = await prisma.user.findUnique({
         where: { id: payload.userId },
         select: {
@@ -136,7 +150,8 @@ export const optionalAuthMiddleware = async (
         (req as any).user = {
           userId: user.id,
           email: user.email,
-          planType: user.planType
+          planType: user.planType,
+          sessionId: payload.sessionId
         };
       }
     }
@@ -150,7 +165,7 @@ export const optionalAuthMiddleware = async (
 
 /**
  * Admin Role Middleware
- * Checks if user has admin privileges
+ * Checks if user has admin privileges and passed 2FA on this session
  */
 export const adminMiddleware = async (
   req: Request,
@@ -185,6 +200,23 @@ export const adminMiddleware = async (
       });
     }
 
+    // 2FA is mandatory for admins, and must have been passed on this session
+    if (!(await twoFactorService.isEnabled(user.userId))) {
+      return res.status(403).json({
+        success: false,
+        message: 'Two-factor authentication must be enabled for admin accounts',
+        code: 'TWO_FACTOR_REQUIRED'
+      });
+    }
+
+    if (!user.sessionId || !(await sessionService.getMfaVerifiedAt(user.sessionId))) {
+      return res.status(403).json({
+        success: false,
+        message: 'Enter your authenticator code to continue',
+        code: 'STEP_UP_REQUIRED'
+      });
+    }
+
     next();
   } catch (error) {
     console.error('Admin middleware error:', error);
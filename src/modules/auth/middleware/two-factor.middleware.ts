@@ -0,0 +1,122 @@
+import { Request, Response, NextFunction } from 'express';
+import twoFactorService, { getStepUpWindowMs } from '../two-factor.service';
+import sessionService from '../session.service';
+
+/**
+ * ==========================================
+ * TWO-FACTOR MIDDLEWARE
+ * ==========================================
+ * Use AFTER authMiddleware (needs req.user with sessionId).
+ *
+ * requireStepUp      - sensitive user actions (plan changes, ...): users
+ *                      with 2FA must have passed a code on this session
+ *                      within TWO_FACTOR_STEP_UP_MINUTES. Users without
+ *                      2FA pass through (2FA is optional for them).
+ * requireTwoFactor   - admin access: 2FA must be enabled and passed on
+ *                      this session; { stepUp: true } also needs it recent.
+ *
+ * Clients answer 403 STEP_UP_REQUIRED with POST /api/auth/2fa/step-up
+ * and retry the request.
+ */
+
+type TwoFactorCheck = 'ok' | 'not_enrolled' | 'step_up_required';
+
+async function checkSession(
+  userId: string,
+  sessionId: string | undefined,
+  recentOnly: boolean
+): Promise<TwoFactorCheck> {
+  if (!(await twoFactorService.isEnabled(userId))) {
+    return 'not_enrolled';
+  }
+
+  const verifiedAt = sessionId ? await sessionService.getMfaVerifiedAt(sessionId) : null;
+  if (!verifiedAt) {
+    return 'step_up_required';
+  }
+  if (recentOnly && Date.now() - verifiedAt.getTime() > getStepUpWindowMs()) {
+    return 'step_up_required';
+  }
+
+  return 'ok';
+}
+
+function sendStepUpRequired(res: Response): Response {
+  return res.status(403).json({
+    success: false,
+    message: 'Enter your authenticator code to continue',
+    code: 'STEP_UP_REQUIRED',
+  });
+}
+
+/**
+ * Step-up for sensitive actions of users who enabled 2FA
+ */
+export const requireStepUp = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<any> => {
+  try {
+    const user = (req as any).user;
+
+    if (!user?.userId) {
+      return res.status(401).json({
+        success: false,
+        message: 'Authentication required',
+      });
+    }
+
+    const check = await checkSession(user.userId, user.sessionId, true);
+    if (check === 'step_up_required') {
+      return sendStepUpRequired(res);
+    }
+
+    next();
+  } catch (error) {
+    console.error('Step-up middleware error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Two-factor check failed',
+    });
+  }
+};
+
+/**
+ * Mandatory 2FA (admin access)
+ */
+export const requireTwoFactor = (options: { stepUp?: boolean } = {}) => {
+  return async (req: Request, res: Response, next: NextFunction): Promise<any> => {
+    try {
+      const user = (req as any).user;
+
+      if (!user?.userId) {
+        return res.status(401).json({
+          success: false,
+          message: 'Authentication required',
+        });
+      }
+
+      const check = await checkSession(user.userId, user.sessionId, !!options.stepUp);
+
+      if (check === 'not_enrolled') {
+        return res.status(403).json({
+          success: false,
+          message: 'Two-factor authentication must be enabled for this account',
+          code: 'TWO_FACTOR_REQUIRED',
+        });
+      }
+      if (check === 'step_up_required') {
+        return sendStepUpRequired(res);
+      }
+
+      next();
+    } catch (error) {
+      console.error('Two-factor middleware error:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Two-factor check failed',
+      });
+    }
+  };
+};
@@ -120,13 +120,18 @@ export class OAuthController {
         code,
         codeVerifier,
         state,
-        regionData
+        regionData,
+        { ipAddress: req.ip, userAgent: req.get('user-agent') }
       );
 
       console.log('✅ Google OAuth successful:', result.user.email);
 
       // Redirect to frontend with token
-      return this.handleAuthSuccess(res, result.token, result.user);
+      if ('mfaRequired' in result) {
+        return this.handleMfaRequired(res, result.mfaToken, result.user);
+      }
+
+      return this.handleAuthSuccess(res, result.token, result.user, result.refreshToken);
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       console.error('❌ Google callback error:', errorMessage);
@@ -214,12 +219,17 @@ export class OAuthController {
       const result = await oauthService.handleGitHubCallback(
         code,
         state,
-        regionData
+        regionData,
+        { ipAddress: req.ip, userAgent: req.get('user-agent') }
       );
 
       console.log('✅ GitHub OAuth successful:', result.user.email);
 
-      return this.handleAuthSuccess(res, result.token, result.user);
+      if ('mfaRequired' in result) {
+        return this.handleMfaRequired(res, result.mfaToken, result.user);
+      }
+
+      return this.handleAuthSuccess(res, result.token, result.user, result.refreshToken);
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       console.error('❌ GitHub callback error:', errorMessage);
@@ -281,7 +291,7 @@ export class OAuthController {
    * Handle successful authentication
    * Redirects to frontend with JWT token
    */
-  private handleAuthSuccess(res: Response, token: string, user: any) {
+  private handleAuthSuccess(res: Response, token: string, user: any, refreshToken?: string) {
     const frontendUrl = process.env.FRONTEND_URL;
     const isDevelopment = process.env.NODE_ENV === 'development';
 
@@ -292,17 +302,41 @@ export class OAuthController {
         success: true,
         message: 'Authentication successful! 🎉',
         token,
+        refreshToken,
         user,
         note: 'In production, this will redirect to frontend with token',
       });
     }
 
     // 🚀 PRODUCTION MODE: Redirect to frontend
-    const redirectUrl = `${frontendUrl}/auth/success?token=${token}`;
+    const redirectUrl = `${frontendUrl}/auth/success?token=${token}${
+      refreshToken ? `&refreshToken=${refreshToken}` : ''
+    }`;
     console.log('🔄 Redirecting to frontend:', redirectUrl);
     return res.redirect(redirectUrl);
   }
 
+  /**
+   * Account has 2FA: hand the challenge token to the frontend, which
+   * asks for the code and calls POST /api/auth/2fa/login
+   */
+  private handleMfaRequired(res: Response, mfaToken: string, user: any) {
+    const frontendUrl = process.env.FRONTEND_URL;
+    const isDevelopment = process.env.NODE_ENV === 'development';
+
+    if (isDevelopment && !frontendUrl) {
+      return res.status(200).json({
+        success: true,
+        message: 'Two-factor code required',
+        mfaRequired: true,
+        mfaToken,
+        user,
+      });
+    }
+
+    return res.redirect(`${frontendUrl}/auth/2fa?mfaToken=${encodeURIComponent(mfaToken)}`);
+  }
+
   /**
    * Handle authentication errors
    * Redirects to frontend error page or returns JSON
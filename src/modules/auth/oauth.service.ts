@@ -12,7 +12,8 @@
  */
 
 import { prisma } from '../../config/prisma';
-import { generateAccessToken } from '@/shared/utils/jwt.util';
+import sessionService, { SessionContext } from './session.service';
+import twoFactorService from './two-factor.service';
 import { PKCEUtil } from '@/shared/utils/pkce-util';
 import { PlanType, PlanStatus, SecurityStatus, ActivityTrend, Region, Currency } from '@prisma/client';
 
@@ -23,6 +24,13 @@ import {
   Region as PlanRegion 
 } from '../../constants/plans';
 
+/**
+ * Session tokens, or a 2FA challenge when the account has 2FA enabled
+ */
+export type OAuthLoginResult =
+  | { success: boolean; token: string; refreshToken: string; user: any }
+  | { success: boolean; mfaRequired: true; mfaToken: string; expiresIn: number; user: any };
+
 // ==========================================
 // HELPER: GET PLAN LIMITS FROM plans.ts
 // ==========================================
@@ -176,12 +184,9 @@ export class OAuthService {
     code: string,
     codeVerifier: string,
     state: string,
-    regionData?: RegionData
-  ): Promise<{
-    success: boolean;
-    token: string;
-    user: any;
-  }> {
+    regionData?: RegionData,
+    sessionContext: SessionContext = {}
+  ): Promise<OAuthLoginResult> {
     try {
       console.log('🔄 Processing Google OAuth callback with PKCE...');
 
@@ -341,11 +346,19 @@ export class OAuthService {
           console.log(`🔄 User synced: planType=${user.planType}`);
         }
 
+      // 2FA accounts finish sign-in with a code (POST /auth/2fa/login)
+      if (await twoFactorService.isEnabled(user.id)) {
+        return {
+          success: true,
+          ...twoFactorService.createLoginChallenge(user.id, 'google'),
+          user: { id: user.id, email: user.email, name: user.name },
+        };
+      }
+
       // Generate JWT token
-      const jwtToken = generateAccessToken({
-        userId: user.id,
-        email: user.email,
-        planType: user.planType,
+      const { token: jwtToken, refreshToken } = await sessionService.createSession(user, {
+        ...sessionContext,
+        authMethod: 'google',
       });
 
       console.log('✅ JWT token generated');
@@ -353,6 +366,7 @@ export class OAuthService {
       return {
         success: true,
         token: jwtToken,
+        refreshToken,
         user: {
           id: user.id,
           email: user.email,
@@ -422,12 +436,9 @@ export class OAuthService {
   public async handleGitHubCallback(
     code: string,
     state: string,
-    regionData?: RegionData
-  ): Promise<{
-    success: boolean;
-    token: string;
-    user: any;
-  }> {
+    regionData?: RegionData,
+    sessionContext: SessionContext = {}
+  ): Promise<OAuthLoginResult> {
     try {
       console.log('🔄 Processing GitHub OAuth callback...');
 
@@ -567,15 +578,24 @@ export class OAuthService {
         });
       }
 
-      const jwtToken = generateAccessToken({
-        userId: user.id,
-        email: user.email,
-        planType: user.planType,
+      // 2FA accounts finish sign-in with a code (POST /auth/2fa/login)
+      if (await twoFactorService.isEnabled(user.id)) {
+        return {
+          success: true,
+          ...twoFactorService.createLoginChallenge(user.id, 'github'),
+          user: { id: user.id, email: user.email, name: user.name },
+        };
+      }
+
+      const { token: jwtToken, refreshToken } = await sessionService.createSession(user, {
+        ...sessionContext,
+        authMethod: 'github',
       });
 
       return {
         success: true,
         token: jwtToken,
+        refreshToken,
         user: {
           id: user.id,
           email: user.email,
@@ -0,0 +1,452 @@
+// src/modules/auth/session.service.ts
+
+/**
+ * ==========================================
+ * SESSION SERVICE - DEVICE SESSIONS & REFRESH TOKENS
+ * ==========================================
+ * One UserSession per signed-in device. Each session holds a chain of
+ * rotating refresh tokens stored as sha256 hashes.
+ *
+ * ROTATION:
+ * ✅ Every /auth/refresh consumes the presented token and issues a new one
+ * ✅ Presenting an already-rotated token = reuse (token was copied);
+ *    the whole session is revoked and a SecurityLog entry is written
+ * ✅ Access tokens carry sessionId, so revoking a session also stops
+ *    its access tokens at authMiddleware
+ */
+
+import { createHash } from 'crypto';
+import { prisma } from '../../config/prisma';
+import {
+  decodeToken,
+  generateAccessToken,
+  generateSessionRefreshToken,
+  verifyRefreshToken,
+} from '@shared/utils/jwt.util';
+import { SecurityStatus } from '@prisma/client';
+import { isPlanActive } from '@shared/types/prisma-enums';
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// INTERFACES
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export interface SessionDeviceInfo {
+  visitorId?: string;
+  userAgent?: string;
+  screenResolution?: string;
+  timezone?: string;
+  platform?: string;
+}
+
+export interface SessionContext {
+  authMethod?: 'email' | 'google' | 'github';
+  ipAddress?: string;
+  userAgent?: string;
+  fingerprint?: SessionDeviceInfo;
+  /** Second factor (TOTP/recovery code) was checked for this sign-in */
+  mfaVerified?: boolean;
+}
+
+export interface SessionTokens {
+  token: string;
+  refreshToken: string;
+  sessionId: string;
+  refreshTokenExpiresAt: Date;
+}
+
+export type SessionErrorReason =
+  | 'invalid_token'
+  | 'expired'
+  | 'revoked'
+  | 'reuse_detected'
+  | 'account_inactive';
+
+export interface RefreshResult {
+  success: boolean;
+  tokens?: SessionTokens;
+  error?: string;
+  reason?: SessionErrorReason;
+}
+
+export interface ActiveSession {
+  id: string;
+  deviceName: string | null;
+  platform: string | null;
+  authMethod: string;
+  createdAt: Date;
+  lastActiveAt: Date;
+  expiresAt: Date;
+  isCurrent: boolean;
+  /** Fingerprint seen at signup or on an earlier session of this account */
+  isKnownDevice: boolean;
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// CONSTANTS
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+// lastActiveAt is written at most this often per session
+const ACTIVITY_UPDATE_INTERVAL_MS = 5 * 60 * 1000;
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// SESSION SERVICE CLASS
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export class SessionService {
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // PRIVATE HELPERS
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+
+  // Same format as AuthService so sessions and signups can be matched
+  private hashIP(ip: string): string {
+    let hash = 0;
+    for (let i = 0; i < ip.length; i++) {
+      const char = ip.charCodeAt(i);
+      hash = (hash << 5) - hash + char;
+      hash = hash & hash;
+    }
+    return `ip_${Math.abs(hash).toString(16)}`;
+  }
+
+  /**
+   * "Chrome on Windows" style label from the user agent
+   */
+  private getDeviceName(userAgent?: string): string | null {
+    if (!userAgent) return null;
+
+    const browser = [
+      ['Edge', /Edg\//],
+      ['Opera', /OPR\//],
+      ['Chrome', /Chrome\//],
+      ['Firefox', /Firefox\//],
+      ['Safari', /Safari\//],
+    ].find(([, pattern]) => (pattern as RegExp).test(userAgent))?.[0] as string | undefined;
+
+    const os = [
+      ['Android', /Android/],
+      ['iOS', /iPhone|iPad|iPod/],
+      ['Windows', /Windows/],
+      ['macOS', /Mac OS X/],
+      ['Linux', /Linux/],
+    ].find(([, pattern]) => (pattern as RegExp).test(userAgent))?.[0] as string | undefined;
+
+    if (browser && os) return `${browser} on ${os}`;
+    return browser || os || userAgent.slice(0, 100);
+  }
+
+  /**
+   * Issue a refresh token in the session and an access token bound to it
+   */
+  private async issueTokens(
+    session: { id: string; userId: string },
+    user: { id: string; email: string; planType: string }
+  ): Promise<SessionTokens> {
+    const refreshToken = generateSessionRefreshToken(user.id, session.id);
+    const refreshTokenExpiresAt = new Date((decodeToken(refreshToken)?.exp ?? 0) * 1000);
+
+    await prisma.refreshToken.create({
+      data: {
+        sessionId: session.id,
+        tokenHash: this.hashToken(refreshToken),
+        expiresAt: refreshTokenExpiresAt,
+      },
+    });
+
+    await prisma.userSession.update({
+      where: { id: session.id },
+      data: { expiresAt: refreshTokenExpiresAt, lastActiveAt: new Date() },
+    });
+
+    const token = generateAccessToken({
+      userId: user.id,
+      email: user.email,
+      planType: user.planType,
+      sessionId: session.id,
+    });
+
+    return { token, refreshToken, sessionId: session.id, refreshTokenExpiresAt };
+  }
+
+  private async logTokenReuse(
+    session: { id: string; userId: string },
+    context: SessionContext
+  ): Promise<void> {
+    const ipHash = context.ipAddress ? this.hashIP(context.ipAddress) : 'unknown';
+
+    await prisma.securityLog.create({
+      data: {
+        userId: session.userId,
+        ipAddress: ipHash,
+        userAgent: context.userAgent,
+        requestPath: '/api/auth/refresh',
+        requestMethod: 'POST',
+        threatType: 'REFRESH_TOKEN_REUSE',
+        severity: 'HIGH',
+        userInput: session.id,
+        sanitizedInput: session.id,
+        matchedPatterns: ['rotated_refresh_token'],
+        detectionMethod: ['refresh_token_rotation'],
+        wasBlocked: true,
+        blockReason: 'Rotated refresh token presented again; session revoked',
+        sessionId: session.id,
+      },
+    });
+
+    await prisma.user.update({
+      where: { id: session.userId },
+      data: { suspiciousActivityCount: { increment: 1 }, lastSuspiciousActivity: new Date() },
+    });
+  }
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // SESSION LIFECYCLE
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  /**
+   * Start a session after a successful login/registration/OAuth callback
+   */
+  async createSession(
+    user: { id: string; email: string; planType: string },
+    context: SessionContext = {}
+  ): Promise<SessionTokens> {
+    const userAgent = context.fingerprint?.userAgent || context.userAgent;
+
+    const session = await prisma.userSession.create({
+      data: {
+        userId: user.id,
+        authMethod: context.authMethod || 'email',
+        deviceFingerprint: context.fingerprint?.visitorId || null,
+        deviceName: this.getDeviceName(userAgent),
+        userAgent: userAgent || null,
+        platform: context.fingerprint?.platform || null,
+        screenResolution: context.fingerprint?.screenResolution || null,
+        timezone: context.fingerprint?.timezone || null,
+        ipAddressHash: context.ipAddress ? this.hashIP(context.ipAddress) : null,
+        mfaVerifiedAt: context.mfaVerified ? new Date() : null,
+        // Replaced with the refresh token's expiry in issueTokens
+        expiresAt: new Date(),
+      },
+    });
+
+    return this.issueTokens(session, user);
+  }
+
+  /**
+   * Exchange a refresh token for a new token pair (rotation)
+   */
+  async refresh(refreshToken: string, context: SessionContext = {}): Promise<RefreshResult> {
+    const payload = verifyRefreshToken(refreshToken);
+    if (!payload) {
+      return { success: false, error: 'Invalid or expired refresh token', reason: 'invalid_token' };
+    }
+
+    const stored = await prisma.refreshToken.findUnique({
+      where: { tokenHash: this.hashToken(refreshToken) },
+      include: { session: true },
+    });
+
+    if (!stored || stored.session.id !== payload.sessionId) {
+      return { success: false, error: 'Invalid or expired refresh token', reason: 'invalid_token' };
+    }
+
+    const { session } = stored;
+
+    if (session.revokedAt) {
+      return { success: false, error: 'Session has been revoked', reason: 'revoked' };
+    }
+
+    if (stored.rotatedAt) {
+      await this.revokeSession(session.userId, session.id, 'refresh_token_reuse');
+      await this.logTokenReuse(session, context);
+      console.warn(
+        `🚨 [SessionService] Refresh token reuse detected, session revoked: ${session.id}`
+      );
+      return {
+        success: false,
+        error: 'Refresh token was already used. Please sign in again.',
+        reason: 'reuse_detected',
+      };
+    }
+
+    if (stored.expiresAt <= new Date()) {
+      return { success: false, error: 'Refresh token expired', reason: 'expired' };
+    }
+
+    // Consume the token; a concurrent refresh with the same token loses here
+    const consumed = await prisma.refreshToken.updateMany({
+      where: { id: stored.id, rotatedAt: null },
+      data: { rotatedAt: new Date() },
+    });
+    if (consumed.count === 0) {
+      return {
+        success: false,
+        error: 'Refresh token was already used. Please sign in again.',
+        reason: 'reuse_detected',
+      };
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.userId },
+      select: { id: true, email: true, planType: true, planStatus: true, securityStatus: true },
+    });
+
+    if (!user || user.securityStatus === SecurityStatus.BLOCKED || !isPlanActive(user.planStatus)) {
+      await this.revokeSession(session.userId, session.id, 'account_inactive');
+      return { success: false, error: 'Account is not active', reason: 'account_inactive' };
+    }
+
+    const tokens = await this.issueTokens(session, user);
+    return { success: true, tokens };
+  }
+
+  /**
+   * Revoke one session (logout, "sign out this device", reuse detection)
+   */
+  async revokeSession(
+    userId: string,
+    sessionId: string,
+    reason: string = 'logout'
+  ): Promise<boolean> {
+    const result = await prisma.userSession.updateMany({
+      where: { id: sessionId, userId, revokedAt: null },
+      data: { revokedAt: new Date(), revokedReason: reason },
+    });
+    return result.count > 0;
+  }
+
+  /**
+   * Revoke every session of the user, optionally keeping the current one
+   */
+  async revokeAllSessions(
+    userId: string,
+    options: { exceptSessionId?: string; reason?: string } = {}
+  ): Promise<number> {
+    const result = await prisma.userSession.updateMany({
+      where: {
+        userId,
+        revokedAt: null,
+        ...(options.exceptSessionId && { id: { not: options.exceptSessionId } }),
+      },
+      data: { revokedAt: new Date(), revokedReason: options.reason || 'logout_all' },
+    });
+    return result.count;
+  }
+
+  /**
+   * Logout with a refresh token (works after the access token expired)
+   */
+  async revokeByRefreshToken(refreshToken: string): Promise<boolean> {
+    const payload = verifyRefreshToken(refreshToken);
+    if (!payload) return false;
+
+    return this.revokeSession(payload.userId, payload.sessionId, 'logout');
+  }
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // SESSION QUERIES
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  /**
+   * Used by authMiddleware for access tokens that carry a sessionId
+   */
+  async isSessionActive(sessionId: string): Promise<boolean> {
+    const session = await prisma.userSession.findUnique({
+      where: { id: sessionId },
+      select: { revokedAt: true, expiresAt: true, lastActiveAt: true },
+    });
+
+    if (!session || session.revokedAt || session.expiresAt <= new Date()) {
+      return false;
+    }
+
+    if (Date.now() - session.lastActiveAt.getTime() > ACTIVITY_UPDATE_INTERVAL_MS) {
+      prisma.userSession
+        .update({ where: { id: sessionId }, data: { lastActiveAt: new Date() } })
+        .catch((error) => console.error('[SessionService] Failed to update activity:', error));
+    }
+
+    return true;
+  }
+
+  /**
+   * Record a fresh second-factor check (login challenge or step-up)
+   */
+  async markMfaVerified(userId: string, sessionId: string): Promise<boolean> {
+    const result = await prisma.userSession.updateMany({
+      where: { id: sessionId, userId, revokedAt: null },
+      data: { mfaVerifiedAt: new Date() },
+    });
+    return result.count > 0;
+  }
+
+  /**
+   * When the session last passed a second-factor check (null = never)
+   */
+  async getMfaVerifiedAt(sessionId: string): Promise<Date | null> {
+    const session = await prisma.userSession.findUnique({
+      where: { id: sessionId },
+      select: { mfaVerifiedAt: true },
+    });
+    return session?.mfaVerifiedAt ?? null;
+  }
+
+  /**
+   * Active sessions ("my devices"), most recently used first
+   */
+  async listActiveSessions(userId: string, currentSessionId?: string): Promise<ActiveSession[]> {
+    const [sessions, signupLogs, user] = await Promise.all([
+      prisma.userSession.findMany({
+        where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+        orderBy: { lastActiveAt: 'desc' },
+      }),
+      prisma.signupLog.findMany({
+        where: { userId, deviceFingerprint: { not: null } },
+        select: { deviceFingerprint: true },
+      }),
+      prisma.user.findUnique({
+        where: { id: userId },
+        select: { deviceFingerprint: true },
+      }),
+    ]);
+
+    const knownFingerprints = new Set<string>(
+      [user?.deviceFingerprint, ...signupLogs.map((log) => log.deviceFingerprint)].filter(
+        (fingerprint): fingerprint is string => !!fingerprint
+      )
+    );
+
+    // A device is also known once an older session of this account used it
+    const sessionFingerprints = await prisma.userSession.findMany({
+      where: { userId, deviceFingerprint: { not: null } },
+      select: { id: true, deviceFingerprint: true, createdAt: true },
+      orderBy: { createdAt: 'asc' },
+    });
+    const firstSeen = new Map<string, string>();
+    for (const entry of sessionFingerprints) {
+      if (entry.deviceFingerprint && !firstSeen.has(entry.deviceFingerprint)) {
+        firstSeen.set(entry.deviceFingerprint, entry.id);
+      }
+    }
+
+    return sessions.map((session) => ({
+      id: session.id,
+      deviceName: session.deviceName,
+      platform: session.platform,
+      authMethod: session.authMethod,
+      createdAt: session.createdAt,
+      lastActiveAt: session.lastActiveAt,
+      expiresAt: session.expiresAt,
+      isCurrent: session.id === currentSessionId,
+      isKnownDevice:
+        !!session.deviceFingerprint &&
+        (knownFingerprints.has(session.deviceFingerprint) ||
+          firstSeen.get(session.deviceFingerprint) !== session.id),
+    }));
+  }
+}
+
+export default new SessionService();
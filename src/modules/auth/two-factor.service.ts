@@ -0,0 +1,571 @@
+// src/modules/auth/two-factor.service.ts
+
+/**
+ * ==========================================
+ * TWO-FACTOR SERVICE - TOTP & RECOVERY CODES
+ * ==========================================
+ * Optional TOTP second factor (mandatory for admin routes, see
+ * admin-guard.middleware.ts).
+ *
+ * ENROLLMENT:
+ * ✅ Secret generated server-side, stored AES-256-GCM encrypted
+ * ✅ otpauth:// provisioning URI for the client to render as a QR code
+ * ✅ Enabled only after the first valid code; 10 one-time recovery
+ *    codes (HMAC-hashed) are shown once at that point
+ *
+ * VERIFICATION:
+ * ✅ Login: password/OAuth returns an MFA challenge token instead of a
+ *    session; the session is created with the code (mfaVerifiedAt set)
+ * ✅ Step-up: sensitive routes require a recent mfaVerifiedAt on the
+ *    current session (two-factor.middleware.ts)
+ * ✅ A TOTP step is accepted once (replay protection)
+ * ✅ Too many wrong codes lock verification for a while
+ */
+
+import { createHmac, randomBytes } from 'crypto';
+import { PlanType, SecurityStatus } from '@prisma/client';
+import { prisma } from '../../config/prisma';
+import sessionService, { SessionContext, SessionTokens } from './session.service';
+import encryptionUtil from '@shared/utils/encryption-util';
+import {
+  generateMfaChallengeToken,
+  MfaChallengePayload,
+  verifyMfaChallengeToken,
+} from '@shared/utils/jwt.util';
+import { isPlanActive } from '@shared/types/prisma-enums';
+import { TOTPUtil } from './utils/totp.util';
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// INTERFACES
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export type TwoFactorMethod = 'totp' | 'recovery_code';
+
+export type TwoFactorErrorReason =
+  | 'user_not_found'
+  | 'not_enabled'
+  | 'already_enabled'
+  | 'no_pending_enrollment'
+  | 'invalid_code'
+  | 'locked'
+  | 'invalid_challenge'
+  | 'account_inactive';
+
+export interface TwoFactorResult {
+  success: boolean;
+  error?: string;
+  reason?: TwoFactorErrorReason;
+  method?: TwoFactorMethod;
+  /** invalid_code: wrong codes left before verification locks */
+  attemptsRemaining?: number;
+  /** locked: seconds until codes are accepted again */
+  retryAfterSeconds?: number;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: Date | null;
+  pendingEnrollment: boolean;
+  recoveryCodesRemaining: number;
+  /** High-value plans are nudged to turn it on */
+  recommended: boolean;
+}
+
+export interface TwoFactorEnrollment {
+  secret: string;
+  otpauthUrl: string;
+  issuer: string;
+  accountName: string;
+}
+
+export interface MfaChallenge {
+  mfaRequired: true;
+  mfaToken: string;
+  expiresIn: number;
+}
+
+export interface MfaLoginResult extends TwoFactorResult {
+  tokens?: SessionTokens;
+  user?: {
+    id: string;
+    email: string;
+    name: string | null;
+    planType: PlanType;
+    planStatus: string;
+    authProvider: string;
+    region: string;
+    currency: string;
+  };
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// CONSTANTS
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const RECOVERY_CODE_COUNT = 10;
+const RECOMMENDED_PLANS: PlanType[] = [PlanType.APEX, PlanType.SOVEREIGN];
+
+const envInt = (name: string, fallback: number): number => {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+const getMaxAttempts = () => envInt('TWO_FACTOR_MAX_ATTEMPTS', 5);
+const getLockMinutes = () => envInt('TWO_FACTOR_LOCK_MINUTES', 15);
+const getChallengeTtlSeconds = () => envInt('TWO_FACTOR_CHALLENGE_TTL_SECONDS', 300);
+const getIssuer = () => process.env.TWO_FACTOR_ISSUER || 'Soriva';
+
+/**
+ * How recent the session's second-factor check must be for step-up routes
+ */
+export const getStepUpWindowMs = (): number => envInt('TWO_FACTOR_STEP_UP_MINUTES', 10) * 60 * 1000;
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// TWO-FACTOR SERVICE CLASS
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+type TwoFactorRecord = NonNullable<Awaited<ReturnType<typeof prisma.twoFactorAuth.findUnique>>>;
+
+export class TwoFactorService {
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // PRIVATE HELPERS
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  private decryptSecret(record: TwoFactorRecord): string {
+    return encryptionUtil.decrypt({
+      encrypted: record.encryptedSecret,
+      iv: record.encryptionIV,
+      authTag: record.encryptionAuthTag,
+    });
+  }
+
+  /**
+   * "ABCDE-12345" / "abcde 12345" → "abcde12345"
+   */
+  private normalizeRecoveryCode(code: string): string {
+    return code.toLowerCase().replace(/[\s-]/g, '');
+  }
+
+  private hashRecoveryCode(code: string): string {
+    const secret = process.env.VERIFICATION_TOKEN_SECRET || process.env.JWT_SECRET || '';
+    return createHmac('sha256', secret).update(this.normalizeRecoveryCode(code)).digest('hex');
+  }
+
+  /**
+   * Replace all recovery codes; plain codes are returned once, only hashes stored
+   */
+  private async issueRecoveryCodes(userId: string): Promise<string[]> {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const raw = TOTPUtil.base32Encode(randomBytes(7)).slice(0, 10).toLowerCase();
+      return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+    });
+
+    await prisma.$transaction([
+      prisma.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+      prisma.twoFactorRecoveryCode.createMany({
+        data: codes.map((code) => ({ userId, codeHash: this.hashRecoveryCode(code) })),
+      }),
+    ]);
+
+    return codes;
+  }
+
+  /**
+   * Accept a TOTP code at most once per time step (a code seen by a
+   * shoulder-surfer or proxy can't be replayed within its 90s window)
+   */
+  private async consumeTotp(record: TwoFactorRecord, code: string): Promise<boolean> {
+    const step = TOTPUtil.verifyCode(this.decryptSecret(record), code);
+    if (step === null) return false;
+
+    const claimed = await prisma.twoFactorAuth.updateMany({
+      where: {
+        id: record.id,
+        OR: [{ lastUsedStep: null }, { lastUsedStep: { lt: step } }],
+      },
+      data: { lastUsedStep: step },
+    });
+    return claimed.count > 0;
+  }
+
+  private async consumeRecoveryCode(userId: string, code: string): Promise<boolean> {
+    const claimed = await prisma.twoFactorRecoveryCode.updateMany({
+      where: { userId, codeHash: this.hashRecoveryCode(code), usedAt: null },
+      data: { usedAt: new Date() },
+    });
+    return claimed.count > 0;
+  }
+
+  private lockedResult(record: TwoFactorRecord): TwoFactorResult | null {
+    if (!record.lockedUntil || record.lockedUntil <= new Date()) return null;
+
+    return {
+      success: false,
+      error: 'Too many wrong codes. Try again later',
+      reason: 'locked',
+      retryAfterSeconds: Math.ceil((record.lockedUntil.getTime() - Date.now()) / 1000),
+    };
+  }
+
+  /**
+   * Count a wrong code; the last allowed failure locks verification
+   */
+  private async registerFailure(record: TwoFactorRecord): Promise<TwoFactorResult> {
+    const maxAttempts = getMaxAttempts();
+    const updated = await prisma.twoFactorAuth.update({
+      where: { id: record.id },
+      data: { failedAttempts: { increment: 1 } },
+      select: { failedAttempts: true },
+    });
+
+    if (updated.failedAttempts < maxAttempts) {
+      return {
+        success: false,
+        error: 'Invalid verification code',
+        reason: 'invalid_code',
+        attemptsRemaining: maxAttempts - updated.failedAttempts,
+      };
+    }
+
+    const lockMinutes = getLockMinutes();
+    await prisma.twoFactorAuth.update({
+      where: { id: record.id },
+      data: { failedAttempts: 0, lockedUntil: new Date(Date.now() + lockMinutes * 60 * 1000) },
+    });
+    await this.logLockout(record.userId);
+
+    return {
+      success: false,
+      error: 'Too many wrong codes. Try again later',
+      reason: 'locked',
+      retryAfterSeconds: lockMinutes * 60,
+    };
+  }
+
+  private async resetFailures(record: TwoFactorRecord): Promise<void> {
+    if (record.failedAttempts === 0 && !record.lockedUntil) return;
+
+    await prisma.twoFactorAuth.update({
+      where: { id: record.id },
+      data: { failedAttempts: 0, lockedUntil: null },
+    });
+  }
+
+  private async logLockout(userId: string): Promise<void> {
+    await prisma.securityLog.create({
+      data: {
+        userId,
+        ipAddress: 'unknown',
+        threatType: 'TWO_FACTOR_LOCKOUT',
+        severity: 'MEDIUM',
+        userInput: userId,
+        sanitizedInput: userId,
+        matchedPatterns: ['repeated_invalid_2fa_code'],
+        detectionMethod: ['two_factor_attempt_limit'],
+        wasBlocked: true,
+        blockReason: `${getMaxAttempts()} wrong 2FA codes; verification locked for ${getLockMinutes()} minutes`,
+      },
+    });
+  }
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // STATUS
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  async isEnabled(userId: string): Promise<boolean> {
+    const record = await prisma.twoFactorAuth.findUnique({
+      where: { userId },
+      select: { enabledAt: true },
+    });
+    return !!record?.enabledAt;
+  }
+
+  async getStatus(userId: string): Promise<TwoFactorStatus | null> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        planType: true,
+        twoFactor: { select: { enabledAt: true } },
+        _count: { select: { twoFactorRecoveryCodes: { where: { usedAt: null } } } },
+      },
+    });
+    if (!user) return null;
+
+    const enabledAt = user.twoFactor?.enabledAt ?? null;
+    return {
+      enabled: !!enabledAt,
+      enabledAt,
+      pendingEnrollment: !!user.twoFactor && !enabledAt,
+      recoveryCodesRemaining: enabledAt ? user._count.twoFactorRecoveryCodes : 0,
+      recommended: RECOMMENDED_PLANS.includes(user.planType),
+    };
+  }
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // ENROLLMENT
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  /**
+   * Start (or restart) enrollment with a new secret. Nothing changes for
+   * login until confirmEnrollment succeeds.
+   */
+  async beginEnrollment(
+    userId: string
+  ): Promise<TwoFactorResult & { enrollment?: TwoFactorEnrollment }> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { email: true, twoFactor: { select: { enabledAt: true } } },
+    });
+
+    if (!user) {
+      return { success: false, error: 'User not found', reason: 'user_not_found' };
+    }
+    if (user.twoFactor?.enabledAt) {
+      return {
+        success: false,
+        error: 'Two-factor authentication is already enabled',
+        reason: 'already_enabled',
+      };
+    }
+
+    const secret = TOTPUtil.generateSecret();
+    const encrypted = encryptionUtil.encrypt(secret);
+    const data = {
+      encryptedSecret: encrypted.encrypted,
+      encryptionIV: encrypted.iv,
+      encryptionAuthTag: encrypted.authTag,
+      enabledAt: null,
+      lastUsedStep: null,
+      failedAttempts: 0,
+      lockedUntil: null,
+    };
+
+    await prisma.twoFactorAuth.upsert({
+      where: { userId },
+      create: { userId, ...data },
+      update: data,
+    });
+
+    const issuer = getIssuer();
+    return {
+      success: true,
+      enrollment: {
+        secret,
+        otpauthUrl: TOTPUtil.buildProvisioningUri(secret, user.email, issuer),
+        issuer,
+        accountName: user.email,
+      },
+    };
+  }
+
+  /**
+   * First valid code turns 2FA on. The current session counts as verified.
+   */
+  async confirmEnrollment(
+    userId: string,
+    code: string,
+    sessionId?: string
+  ): Promise<TwoFactorResult & { recoveryCodes?: string[] }> {
+    const record = await prisma.twoFactorAuth.findUnique({ where: { userId } });
+
+    if (!record) {
+      return {
+        success: false,
+        error: 'Start two-factor setup first',
+        reason: 'no_pending_enrollment',
+      };
+    }
+    if (record.enabledAt) {
+      return {
+        success: false,
+        error: 'Two-factor authentication is already enabled',
+        reason: 'already_enabled',
+      };
+    }
+
+    const locked = this.lockedResult(record);
+    if (locked) return locked;
+
+    if (!(await this.consumeTotp(record, code.trim()))) {
+      return this.registerFailure(record);
+    }
+
+    await prisma.twoFactorAuth.update({
+      where: { id: record.id },
+      data: { enabledAt: new Date(), failedAttempts: 0, lockedUntil: null },
+    });
+    const recoveryCodes = await this.issueRecoveryCodes(userId);
+
+    if (sessionId) {
+      await sessionService.markMfaVerified(userId, sessionId);
+    }
+
+    console.log(`🔐 [TwoFactorService] 2FA enabled for user ${userId}`);
+    return { success: true, method: 'totp', recoveryCodes };
+  }
+
+  /**
+   * Turn 2FA off (needs a current TOTP or recovery code)
+   */
+  async disable(userId: string, code: string): Promise<TwoFactorResult> {
+    const result = await this.verify(userId, code);
+    if (!result.success) return result;
+
+    await prisma.$transaction([
+      prisma.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+      prisma.twoFactorAuth.delete({ where: { userId } }),
+    ]);
+
+    console.log(`🔓 [TwoFactorService] 2FA disabled for user ${userId}`);
+    return result;
+  }
+
+  /**
+   * New set of recovery codes; the old ones stop working
+   */
+  async regenerateRecoveryCodes(
+    userId: string,
+    code: string
+  ): Promise<TwoFactorResult & { recoveryCodes?: string[] }> {
+    const result = await this.verify(userId, code);
+    if (!result.success) return result;
+
+    const recoveryCodes = await this.issueRecoveryCodes(userId);
+    return { ...result, recoveryCodes };
+  }
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // VERIFICATION
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  /**
+   * Check a 6-digit TOTP code or a recovery code for an enabled user
+   */
+  async verify(userId: string, code: string): Promise<TwoFactorResult> {
+    const record = await prisma.twoFactorAuth.findUnique({ where: { userId } });
+
+    if (!record?.enabledAt) {
+      return {
+        success: false,
+        error: 'Two-factor authentication is not enabled',
+        reason: 'not_enabled',
+      };
+    }
+
+    const locked = this.lockedResult(record);
+    if (locked) return locked;
+
+    const trimmed = code.trim();
+    const method: TwoFactorMethod = /^\d{6}$/.test(trimmed) ? 'totp' : 'recovery_code';
+    const valid =
+      method === 'totp'
+        ? await this.consumeTotp(record, trimmed)
+        : await this.consumeRecoveryCode(userId, trimmed);
+
+    if (!valid) {
+      return this.registerFailure(record);
+    }
+
+    await this.resetFailures(record);
+    if (method === 'recovery_code') {
+      console.warn(`⚠️ [TwoFactorService] Recovery code used by user ${userId}`);
+    }
+
+    return { success: true, method };
+  }
+
+  /**
+   * Re-check the second factor for the current session (step-up)
+   */
+  async stepUp(
+    userId: string,
+    sessionId: string | undefined,
+    code: string
+  ): Promise<TwoFactorResult> {
+    if (!sessionId) {
+      return {
+        success: false,
+        error: 'Step-up needs a session token. Please log in again',
+        reason: 'invalid_challenge',
+      };
+    }
+
+    const result = await this.verify(userId, code);
+    if (!result.success) return result;
+
+    await sessionService.markMfaVerified(userId, sessionId);
+    return result;
+  }
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // LOGIN CHALLENGE
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  /**
+   * Returned by login/OAuth instead of session tokens when 2FA is on
+   */
+  createLoginChallenge(
+    userId: string,
+    authMethod: MfaChallengePayload['authMethod']
+  ): MfaChallenge {
+    const expiresIn = getChallengeTtlSeconds();
+    return {
+      mfaRequired: true,
+      mfaToken: generateMfaChallengeToken(userId, authMethod, expiresIn),
+      expiresIn,
+    };
+  }
+
+  /**
+   * Exchange challenge token + code for a session
+   */
+  async completeLoginChallenge(
+    mfaToken: string,
+    code: string,
+    context: SessionContext = {}
+  ): Promise<MfaLoginResult> {
+    const challenge = verifyMfaChallengeToken(mfaToken);
+    if (!challenge) {
+      return {
+        success: false,
+        error: 'Login challenge is invalid or expired. Please log in again',
+        reason: 'invalid_challenge',
+      };
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: challenge.userId },
+      select: {
+        id: true,
+        email: true,
+        name: true,
+        planType: true,
+        planStatus: true,
+        authProvider: true,
+        region: true,
+        currency: true,
+        securityStatus: true,
+      },
+    });
+    if (!user) {
+      return { success: false, error: 'User not found', reason: 'user_not_found' };
+    }
+    if (user.securityStatus === SecurityStatus.BLOCKED || !isPlanActive(user.planStatus)) {
+      return { success: false, error: 'Account is not active', reason: 'account_inactive' };
+    }
+
+    const result = await this.verify(user.id, code);
+    if (!result.success) return result;
+
+    const tokens = await sessionService.createSession(user, {
+      ...context,
+      authMethod: challenge.authMethod,
+      mfaVerified: true,
+    });
+
+    const { securityStatus: _, ...publicUser } = user;
+    return { ...result, tokens, user: publicUser };
+  }
+}
+
+export default new TwoFactorService();
@@ -0,0 +1,671 @@
+// src/modules/auth/verification.service.ts
+
+/**
+ * ==========================================
+ * VERIFICATION SERVICE - EMAIL, PASSWORD RESET & MOBILE OTP
+ * ==========================================
+ * Every flow is backed by a verification_tokens row (one per issued
+ * link/code, only hashes stored).
+ *
+ * EMAIL VERIFICATION / PASSWORD RESET:
+ * ✅ Signed, expiring JWT link token; its jwtid is the row id
+ * ✅ Single-use: the row is claimed atomically on first use
+ * ✅ Issuing a new link supersedes the previous one
+ * ✅ Password reset revokes every device session
+ *
+ * MOBILE OTP:
+ * ✅ 6-digit code, HMAC-hashed, short expiry
+ * ✅ Limited guesses per code (counted before comparing)
+ *
+ * THROTTLING:
+ * ✅ Resend cooldown + max sends per hour, per user and purpose
+ * ✅ Forgot-password never reveals whether an account exists
+ *
+ * Delivery goes through MessagingService (SMTP/Twilio/console transports).
+ */
+
+import { createHash, createHmac, randomInt, randomUUID, timingSafeEqual } from 'crypto';
+import bcrypt from 'bcrypt';
+import { prisma } from '../../config/prisma';
+import sessionService from './session.service';
+import messagingService from '../../services/messaging/messaging.service';
+import { logger } from '@shared/utils/logger';
+import {
+  generateVerificationToken,
+  verifyVerificationToken,
+  VerificationTokenPurpose,
+} from '@shared/utils/jwt.util';
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// INTERFACES
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export type VerificationPurpose = VerificationTokenPurpose | 'mobile_otp';
+
+export type VerificationErrorReason =
+  | 'user_not_found'
+  | 'already_verified'
+  | 'rate_limited'
+  | 'delivery_failed'
+  | 'invalid_token'
+  | 'expired'
+  | 'already_used'
+  | 'weak_password'
+  | 'invalid_mobile'
+  | 'mobile_in_use'
+  | 'no_pending_code'
+  | 'invalid_code'
+  | 'too_many_attempts';
+
+export interface VerificationResult {
+  success: boolean;
+  error?: string;
+  reason?: VerificationErrorReason;
+  /** When the link/code just sent stops working */
+  expiresAt?: Date;
+  /** rate_limited: seconds until another send is allowed */
+  retryAfterSeconds?: number;
+  /** invalid_code: guesses left for the current code */
+  attemptsRemaining?: number;
+}
+
+export interface PasswordResetResult extends VerificationResult {
+  sessionsRevoked?: number;
+}
+
+interface VerificationConfig {
+  emailVerificationTtlMinutes: number;
+  passwordResetTtlMinutes: number;
+  mobileOtpTtlMinutes: number;
+  mobileOtpMaxAttempts: number;
+  maxSendsPerHour: number;
+  resendCooldownSeconds: number;
+}
+
+type TokenRecord = NonNullable<Awaited<ReturnType<typeof prisma.verificationToken.findUnique>>>;
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// CONSTANTS
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const MIN_PASSWORD_LENGTH = 8;
+const OTP_LENGTH = 6;
+const HOUR_MS = 60 * 60 * 1000;
+
+const envInt = (name: string, fallback: number): number => {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+// Read lazily so env changes (and dotenv load order) are respected
+const getConfig = (): VerificationConfig => ({
+  emailVerificationTtlMinutes: envInt('EMAIL_VERIFICATION_TTL_MINUTES', 24 * 60),
+  passwordResetTtlMinutes: envInt('PASSWORD_RESET_TTL_MINUTES', 30),
+  mobileOtpTtlMinutes: envInt('MOBILE_OTP_TTL_MINUTES', 10),
+  mobileOtpMaxAttempts: envInt('MOBILE_OTP_MAX_ATTEMPTS', 5),
+  maxSendsPerHour: envInt('VERIFICATION_MAX_SENDS_PER_HOUR', 5),
+  resendCooldownSeconds: envInt('VERIFICATION_RESEND_COOLDOWN_SECONDS', 60),
+});
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// VERIFICATION SERVICE CLASS
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export class VerificationService {
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // PRIVATE HELPERS
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+
+  /**
+   * Keyed so a leaked table can't be brute-forced over the 10^6 codes
+   */
+  private hashOtp(tokenId: string, code: string): string {
+    const secret = process.env.VERIFICATION_TOKEN_SECRET || process.env.JWT_SECRET || '';
+    return createHmac('sha256', secret).update(`${tokenId}:${code}`).digest('hex');
+  }
+
+  private safeEqual(a: string, b: string): boolean {
+    const left = Buffer.from(a);
+    const right = Buffer.from(b);
+    return left.length === right.length && timingSafeEqual(left, right);
+  }
+
+  private getFrontendUrl(): string {
+    return (process.env.FRONTEND_URL || 'http://localhost:3000').replace(/\/$/, '');
+  }
+
+  /**
+   * "+91 98765-43210" → "+919876543210"; null when not E.164
+   */
+  normalizeMobileNumber(mobileNumber: string): string | null {
+    const normalized = mobileNumber.replace(/[\s\-().]/g, '');
+    return /^\+[1-9]\d{7,14}$/.test(normalized) ? normalized : null;
+  }
+
+  /**
+   * Resend cooldown and hourly cap, per user and purpose
+   */
+  private async checkSendLimits(
+    userId: string,
+    purpose: VerificationPurpose
+  ): Promise<VerificationResult | null> {
+    const config = getConfig();
+    const now = Date.now();
+
+    const recent = await prisma.verificationToken.findMany({
+      where: { userId, purpose, createdAt: { gte: new Date(now - HOUR_MS) } },
+      select: { createdAt: true },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    const cooldownMs = config.resendCooldownSeconds * 1000;
+    if (recent.length > 0 && now - recent[0].createdAt.getTime() < cooldownMs) {
+      return {
+        success: false,
+        error: 'Please wait before requesting another one',
+        reason: 'rate_limited',
+        retryAfterSeconds: Math.ceil((recent[0].createdAt.getTime() + cooldownMs - now) / 1000),
+      };
+    }
+
+    if (recent.length >= config.maxSendsPerHour) {
+      const oldest = recent[recent.length - 1].createdAt.getTime();
+      return {
+        success: false,
+        error: 'Too many requests. Please try again later',
+        reason: 'rate_limited',
+        retryAfterSeconds: Math.ceil((oldest + HOUR_MS - now) / 1000),
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Mark every open token of this purpose used (a new one supersedes them)
+   */
+  private async supersedeOpenTokens(userId: string, purpose: VerificationPurpose): Promise<void> {
+    await prisma.verificationToken.updateMany({
+      where: { userId, purpose, consumedAt: null },
+      data: { consumedAt: new Date() },
+    });
+  }
+
+  /**
+   * Create the row and signed link token for an email flow
+   */
+  private async issueLinkToken(
+    userId: string,
+    purpose: VerificationTokenPurpose,
+    target: string,
+    ttlMinutes: number
+  ): Promise<{ id: string; token: string; expiresAt: Date }> {
+    await this.supersedeOpenTokens(userId, purpose);
+
+    const id = randomUUID();
+    const token = generateVerificationToken(userId, purpose, id, ttlMinutes * 60);
+    const expiresAt = new Date(Date.now() + ttlMinutes * 60 * 1000);
+
+    await prisma.verificationToken.create({
+      data: {
+        id,
+        userId,
+        purpose,
+        target,
+        tokenHash: this.hashToken(token),
+        maxAttempts: 1,
+        expiresAt,
+      },
+    });
+
+    return { id, token, expiresAt };
+  }
+
+  /**
+   * Verify a link token and claim its row. Only one caller can succeed.
+   */
+  private async consumeLinkToken(
+    token: string,
+    purpose: VerificationTokenPurpose
+  ): Promise<{ record?: TokenRecord; failure?: VerificationResult }> {
+    const invalid = {
+      failure: {
+        success: false,
+        error: 'Invalid or malformed link',
+        reason: 'invalid_token' as const,
+      },
+    };
+
+    const payload = verifyVerificationToken(token, purpose, { ignoreExpiration: true });
+    if (!payload) return invalid;
+
+    const record = await prisma.verificationToken.findUnique({ where: { id: payload.jti } });
+    if (
+      !record ||
+      record.purpose !== purpose ||
+      record.userId !== payload.userId ||
+      !this.safeEqual(record.tokenHash, this.hashToken(token))
+    ) {
+      return invalid;
+    }
+
+    if (record.consumedAt) {
+      return {
+        failure: { success: false, error: 'This link was already used', reason: 'already_used' },
+      };
+    }
+    if (record.expiresAt < new Date()) {
+      return { failure: { success: false, error: 'This link has expired', reason: 'expired' } };
+    }
+
+    const claimed = await prisma.verificationToken.updateMany({
+      where: { id: record.id, consumedAt: null },
+      data: { consumedAt: new Date(), attempts: { increment: 1 } },
+    });
+    if (claimed.count === 0) {
+      return {
+        failure: { success: false, error: 'This link was already used', reason: 'already_used' },
+      };
+    }
+
+    return { record };
+  }
+
+  /**
+   * Delivery failed: the row must not count against the user's limits
+   */
+  private async discardToken(id: string): Promise<void> {
+    await prisma.verificationToken.delete({ where: { id } }).catch(() => undefined);
+  }
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // EMAIL VERIFICATION
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  /**
+   * Email a verification link (after signup, or on "resend")
+   */
+  async sendEmailVerification(userId: string): Promise<VerificationResult> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, email: true, name: true, emailVerified: true },
+    });
+
+    if (!user) {
+      return { success: false, error: 'User not found', reason: 'user_not_found' };
+    }
+    if (user.emailVerified) {
+      return { success: false, error: 'Email is already verified', reason: 'already_verified' };
+    }
+
+    const limited = await this.checkSendLimits(userId, 'email_verification');
+    if (limited) return limited;
+
+    const ttlMinutes = getConfig().emailVerificationTtlMinutes;
+    const { id, token, expiresAt } = await this.issueLinkToken(
+      userId,
+      'email_verification',
+      user.email,
+      ttlMinutes
+    );
+    const link = `${this.getFrontendUrl()}/verify-email?token=${encodeURIComponent(token)}`;
+    const validFor =
+      ttlMinutes >= 60 ? `${Math.round(ttlMinutes / 60)} hours` : `${ttlMinutes} minutes`;
+
+    try {
+      await messagingService.sendMail({
+        to: user.email,
+        subject: 'Verify your Soriva email address',
+        text: [
+          `Hi ${user.name || 'there'},`,
+          '',
+          'Please confirm your email address by opening this link:',
+          link,
+          '',
+          `The link is valid for ${validFor}. If you did not create a Soriva account, ignore this email.`,
+        ].join('\n'),
+        html: [
+          `<p>Hi ${this.escapeHtml(user.name || 'there')},</p>`,
+          '<p>Please confirm your email address:</p>',
+          `<p><a href="${this.escapeHtml(link)}">Verify email</a></p>`,
+          `<p>The link is valid for ${validFor}. If you did not create a Soriva account, ignore this email.</p>`,
+        ].join('\n'),
+      });
+    } catch (error: any) {
+      logger.error(`[VerificationService] Verification email failed: ${error.message}`);
+      await this.discardToken(id);
+      return { success: false, error: 'Could not send email', reason: 'delivery_failed' };
+    }
+
+    return { success: true, expiresAt };
+  }
+
+  /**
+   * Confirm an email verification link
+   */
+  async confirmEmail(token: string): Promise<VerificationResult> {
+    const { record, failure } = await this.consumeLinkToken(token, 'email_verification');
+    if (!record) return failure!;
+
+    const user = await prisma.user.findUnique({
+      where: { id: record.userId },
+      select: { email: true },
+    });
+    if (!user || user.email !== record.target) {
+      return {
+        success: false,
+        error: 'This link was sent to a different email address',
+        reason: 'invalid_token',
+      };
+    }
+
+    await prisma.user.update({
+      where: { id: record.userId },
+      data: { emailVerified: true },
+    });
+
+    logger.info(`[VerificationService] Email verified for user ${record.userId}`);
+    return { success: true };
+  }
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // PASSWORD RESET
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  //
+  // requestPasswordReset always reports success: unknown emails, throttled
+  // requests and delivery failures are only logged, so the endpoint can't
+  // be used to find out which addresses have accounts.
+
+  async requestPasswordReset(email: string): Promise<VerificationResult> {
+    const user = await prisma.user.findUnique({
+      where: { email },
+      select: { id: true, email: true, name: true },
+    });
+
+    if (!user) {
+      logger.info('[VerificationService] Password reset requested for unknown email');
+      return { success: true };
+    }
+
+    const limited = await this.checkSendLimits(user.id, 'password_reset');
+    if (limited) {
+      logger.warn(`[VerificationService] Password reset throttled for user ${user.id}`);
+      return { success: true };
+    }
+
+    const ttlMinutes = getConfig().passwordResetTtlMinutes;
+    const { id, token } = await this.issueLinkToken(
+      user.id,
+      'password_reset',
+      user.email,
+      ttlMinutes
+    );
+    const link = `${this.getFrontendUrl()}/reset-password?token=${encodeURIComponent(token)}`;
+
+    try {
+      await messagingService.sendMail({
+        to: user.email,
+        subject: 'Reset your Soriva password',
+        text: [
+          `Hi ${user.name || 'there'},`,
+          '',
+          'We received a request to reset your password. Open this link to choose a new one:',
+          link,
+          '',
+          `The link is valid for ${ttlMinutes} minutes and can be used once.`,
+          'If you did not ask for this, ignore this email - your password stays the same.',
+        ].join('\n'),
+        html: [
+          `<p>Hi ${this.escapeHtml(user.name || 'there')},</p>`,
+          '<p>We received a request to reset your password.</p>',
+          `<p><a href="${this.escapeHtml(link)}">Choose a new password</a></p>`,
+          `<p>The link is valid for ${ttlMinutes} minutes and can be used once.</p>`,
+          '<p>If you did not ask for this, ignore this email - your password stays the same.</p>',
+        ].join('\n'),
+      });
+    } catch (error: any) {
+      logger.error(`[VerificationService] Password reset email failed: ${error.message}`);
+      await this.discardToken(id);
+    }
+
+    return { success: true };
+  }
+
+  /**
+   * Set a new password from a reset link and sign out every device
+   */
+  async resetPassword(token: string, newPassword: string): Promise<PasswordResetResult> {
+    if (newPassword.length < MIN_PASSWORD_LENGTH) {
+      return {
+        success: false,
+        error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters`,
+        reason: 'weak_password',
+      };
+    }
+
+    const { record, failure } = await this.consumeLinkToken(token, 'password_reset');
+    if (!record) return failure!;
+
+    const user = await prisma.user.findUnique({
+      where: { id: record.userId },
+      select: { id: true, email: true, name: true },
+    });
+    if (!user) {
+      return { success: false, error: 'User not found', reason: 'user_not_found' };
+    }
+
+    const hashedPassword = await bcrypt.hash(newPassword, 10);
+    await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        password: hashedPassword,
+        // Opening the link proved the address is theirs
+        ...(user.email === record.target && { emailVerified: true }),
+      },
+    });
+
+    await this.supersedeOpenTokens(user.id, 'password_reset');
+    const sessionsRevoked = await sessionService.revokeAllSessions(user.id, {
+      reason: 'password_reset',
+    });
+
+    logger.info(
+      `[VerificationService] Password reset for user ${user.id}, ${sessionsRevoked} session(s) revoked`
+    );
+
+    messagingService
+      .sendMail({
+        to: user.email,
+        subject: 'Your Soriva password was changed',
+        text: [
+          `Hi ${user.name || 'there'},`,
+          '',
+          'Your password was just changed and all devices were signed out.',
+          'If this was not you, reset your password again and contact support.',
+        ].join('\n'),
+      })
+      .catch((error) =>
+        logger.warn(`[VerificationService] Password change notice failed: ${error.message}`)
+      );
+
+    return { success: true, sessionsRevoked };
+  }
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // MOBILE OTP
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  /**
+   * Text a one-time code to the number the user wants to verify
+   */
+  async sendMobileOtp(userId: string, mobileNumber: string): Promise<VerificationResult> {
+    const target = this.normalizeMobileNumber(mobileNumber);
+    if (!target) {
+      return {
+        success: false,
+        error: 'Mobile number must be in international format, e.g. +919876543210',
+        reason: 'invalid_mobile',
+      };
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, mobileNumber: true, mobileVerified: true },
+    });
+    if (!user) {
+      return { success: false, error: 'User not found', reason: 'user_not_found' };
+    }
+    if (user.mobileVerified && user.mobileNumber === target) {
+      return {
+        success: false,
+        error: 'This mobile number is already verified',
+        reason: 'already_verified',
+      };
+    }
+    if (await this.isMobileTaken(userId, target)) {
+      return {
+        success: false,
+        error: 'This mobile number is verified on another account',
+        reason: 'mobile_in_use',
+      };
+    }
+
+    const limited = await this.checkSendLimits(userId, 'mobile_otp');
+    if (limited) return limited;
+
+    await this.supersedeOpenTokens(userId, 'mobile_otp');
+
+    const config = getConfig();
+    const id = randomUUID();
+    const code = randomInt(0, 10 ** OTP_LENGTH)
+      .toString()
+      .padStart(OTP_LENGTH, '0');
+    const expiresAt = new Date(Date.now() + config.mobileOtpTtlMinutes * 60 * 1000);
+
+    await prisma.verificationToken.create({
+      data: {
+        id,
+        userId,
+        purpose: 'mobile_otp',
+        target,
+        tokenHash: this.hashOtp(id, code),
+        maxAttempts: config.mobileOtpMaxAttempts,
+        expiresAt,
+      },
+    });
+
+    try {
+      await messagingService.sendSms({
+        to: target,
+        body: `${code} is your Soriva verification code. It expires in ${config.mobileOtpTtlMinutes} minutes. Do not share it with anyone.`,
+      });
+    } catch (error: any) {
+      logger.error(`[VerificationService] OTP SMS failed: ${error.message}`);
+      await this.discardToken(id);
+      return { success: false, error: 'Could not send SMS', reason: 'delivery_failed' };
+    }
+
+    return { success: true, expiresAt };
+  }
+
+  /**
+   * Check the latest code; the number is saved as verified on success
+   */
+  async verifyMobileOtp(userId: string, code: string): Promise<VerificationResult> {
+    const record = await prisma.verificationToken.findFirst({
+      where: { userId, purpose: 'mobile_otp', consumedAt: null },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    if (!record) {
+      return {
+        success: false,
+        error: 'No pending code. Request a new one',
+        reason: 'no_pending_code',
+      };
+    }
+    if (record.expiresAt < new Date()) {
+      return { success: false, error: 'The code has expired', reason: 'expired' };
+    }
+
+    // Count the guess before comparing so parallel guesses can't exceed the limit
+    const counted = await prisma.verificationToken.updateMany({
+      where: { id: record.id, consumedAt: null, attempts: { lt: record.maxAttempts } },
+      data: { attempts: { increment: 1 } },
+    });
+    if (counted.count === 0) {
+      return {
+        success: false,
+        error: 'Too many wrong attempts. Request a new code',
+        reason: 'too_many_attempts',
+      };
+    }
+
+    const attempts = record.attempts + 1;
+    const matches =
+      /^\d+$/.test(code) && this.safeEqual(record.tokenHash, this.hashOtp(record.id, code));
+
+    if (!matches) {
+      const attemptsRemaining = Math.max(record.maxAttempts - attempts, 0);
+      if (attemptsRemaining === 0) {
+        await prisma.verificationToken.update({
+          where: { id: record.id },
+          data: { consumedAt: new Date() },
+        });
+      }
+      return {
+        success: false,
+        error:
+          attemptsRemaining > 0 ? 'Incorrect code' : 'Too many wrong attempts. Request a new code',
+        reason: attemptsRemaining > 0 ? 'invalid_code' : 'too_many_attempts',
+        attemptsRemaining,
+      };
+    }
+
+    const claimed = await prisma.verificationToken.updateMany({
+      where: { id: record.id, consumedAt: null },
+      data: { consumedAt: new Date() },
+    });
+    if (claimed.count === 0) {
+      return { success: false, error: 'This code was already used', reason: 'already_used' };
+    }
+
+    if (await this.isMobileTaken(userId, record.target)) {
+      return {
+        success: false,
+        error: 'This mobile number is verified on another account',
+        reason: 'mobile_in_use',
+      };
+    }
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: { mobileVerified: true, mobileNumber: record.target },
+    });
+
+    logger.info(`[VerificationService] Mobile verified for user ${userId}`);
+    return { success: true };
+  }
+
+  private async isMobileTaken(userId: string, mobileNumber: string): Promise<boolean> {
+    const owner = await prisma.user.findFirst({
+      where: { mobileNumber, mobileVerified: true, id: { not: userId } },
+      select: { id: true },
+    });
+    return !!owner;
+  }
+
+  private escapeHtml(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+}
+
+export default new VerificationService();
@@ -12,10 +12,15 @@
 
 import { Router } from 'express';
 import { authMiddleware, optionalAuthMiddleware } from '../auth/middleware/auth.middleware';
+import { requireStepUp } from '../auth/middleware/two-factor.middleware';
 import billingController from './billing.controller';
 import usageController from './usage.controller';
 import subscriptionController from './subscription.controller';
 import boosterController from './booster.controller';
+import paymentController from './payment.controller';
+import invoiceController from './invoice.controller';
+import couponController from './coupon.controller';
+import referralController from './referral.controller';
 
 const router = Router();
 
@@ -392,12 +397,114 @@ router.post('/usage/reset-daily', authMiddleware, usageController.resetDailyUsag
 // 💳 SUBSCRIPTION ROUTES (Protected)
 // ============================================
 
+/**
+ * @swagger
+ * /api/billing/subscription/change-preview:
+ *   get:
+ *     summary: Preview Plan Change
+ *     description: What switching to a plan costs before the user confirms. Upgrades apply immediately and start a new period; the unused part of the current period and any account credit go toward the price, and the rest of the credit is kept. Downgrades from a paid plan take effect at the end of the current period.
+ *     tags: [Billing]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: targetPlanName
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [STARTER, LITE, PLUS, PRO, APEX]
+ *           example: PRO
+ *       - in: query
+ *         name: couponCode
+ *         schema:
+ *           type: string
+ *           example: WELCOME20
+ *     responses:
+ *       200:
+ *         description: Plan change preview (amounts in major units)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     currentPlan:
+ *                       type: string
+ *                       example: PLUS
+ *                     newPlan:
+ *                       type: string
+ *                       example: PRO
+ *                     changeType:
+ *                       type: string
+ *                       enum: [upgrade, downgrade]
+ *                     effective:
+ *                       type: string
+ *                       enum: [immediate, period_end]
+ *                     effectiveAt:
+ *                       type: string
+ *                       format: date-time
+ *                     currency:
+ *                       type: string
+ *                       example: INR
+ *                     newPlanPrice:
+ *                       type: number
+ *                       example: 799
+ *                     couponCode:
+ *                       type: string
+ *                       nullable: true
+ *                     discount:
+ *                       type: number
+ *                       description: Coupon discount, taken off before credit
+ *                       example: 0
+ *                     unusedCredit:
+ *                       type: number
+ *                       description: Value of the time left in the current paid period
+ *                       example: 149.5
+ *                     unusedDays:
+ *                       type: integer
+ *                       example: 15
+ *                     creditBalance:
+ *                       type: number
+ *                       example: 0
+ *                     creditApplied:
+ *                       type: number
+ *                       example: 149.5
+ *                     amountDue:
+ *                       type: number
+ *                       example: 649.5
+ *                     creditBalanceAfter:
+ *                       type: number
+ *                       example: 0
+ *                     newPeriodEnd:
+ *                       type: string
+ *                       format: date-time
+ *                       nullable: true
+ *       400:
+ *         description: Invalid or current plan
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/subscription/change-preview', authMiddleware, subscriptionController.previewPlanChange);
+
 /**
  * @swagger
  * /api/billing/subscription/upgrade:
  *   post:
  *     summary: Upgrade Plan
- *     description: Upgrade user's subscription to a higher tier
+ *     description: Switch plans (see GET /api/billing/subscription/change-preview for the price and timing). Downgrades from a paid plan are scheduled for the end of the period. Users with two-factor authentication must have verified recently (POST /api/auth/2fa/step-up). Changes that cost money answer 402 with the amount; pay through a subscription order (POST /api/billing/payments/orders) and send its checkout result here (or to POST /api/billing/payments/verify).
  *     tags: [Billing]
  *     security:
  *       - bearerAuth: []
@@ -408,15 +515,27 @@ router.post('/usage/reset-daily', authMiddleware, usageController.resetDailyUsag
  *           schema:
  *             type: object
  *             required:
- *               - planId
+ *               - targetPlanName
  *             properties:
- *               planId:
+ *               targetPlanName:
  *                 type: string
- *                 enum: [PLUS, PRO, EDGE, LIFE]
+ *                 enum: [LITE, PLUS, PRO, APEX]
  *                 example: PRO
- *               paymentMethodId:
+ *               couponCode:
  *                 type: string
- *                 example: pm_1234567890
+ *                 description: Promo code for a change that needs no payment (paid orders carry their own)
+ *                 example: WELCOME20
+ *               gatewayOrderId:
+ *                 type: string
+ *                 description: Order from POST /api/billing/payments/orders; its plan is applied
+ *                 example: order_N5ZqL1c3x9Yb2T
+ *               gatewayPaymentId:
+ *                 type: string
+ *                 description: Razorpay payment id (not needed for Stripe)
+ *                 example: pay_N5ZqX8aB1cD2eF
+ *               gatewaySignature:
+ *                 type: string
+ *                 description: Razorpay checkout signature (not needed for Stripe)
  *     responses:
  *       200:
  *         description: Plan upgraded successfully
@@ -452,21 +571,174 @@ router.post('/usage/reset-daily', authMiddleware, usageController.resetDailyUsag
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Step-up required (code STEP_UP_REQUIRED)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       402:
- *         description: Payment required
+ *         description: Payment required (code PAYMENT_REQUIRED, amount, currency) or the payment could not be verified
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/subscription/upgrade', authMiddleware, requireStepUp, subscriptionController.upgradePlan);
+
+/**
+ * @swagger
+ * /api/billing/subscription/downgrade:
+ *   post:
+ *     summary: Downgrade Plan
+ *     description: Move to a lower plan. From a paid plan the change is scheduled for the end of the current period (the current plan stays until then); between free plans it applies immediately. Users with two-factor authentication must have verified recently (POST /api/auth/2fa/step-up).
+ *     tags: [Billing]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - targetPlanName
+ *             properties:
+ *               targetPlanName:
+ *                 type: string
+ *                 enum: [STARTER, LITE, PLUS, PRO]
+ *                 example: PLUS
+ *     responses:
+ *       200:
+ *         description: Downgrade applied or scheduled (data.scheduled, data.effectiveAt)
+ *       400:
+ *         description: Invalid downgrade request
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Step-up required (code STEP_UP_REQUIRED)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/subscription/downgrade', authMiddleware, requireStepUp, subscriptionController.downgradePlan);
+
+/**
+ * @swagger
+ * /api/billing/subscription/scheduled-change:
+ *   delete:
+ *     summary: Cancel Scheduled Plan Change
+ *     description: Drop a downgrade scheduled for the end of the period and keep the current plan
+ *     tags: [Billing]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Scheduled change cancelled
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: No scheduled plan change
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.post('/subscription/upgrade', authMiddleware, subscriptionController.upgradePlan);
+router.delete(
+  '/subscription/scheduled-change',
+  authMiddleware,
+  subscriptionController.cancelScheduledPlanChange
+);
+
+/**
+ * @swagger
+ * /api/billing/credits:
+ *   get:
+ *     summary: Get Account Credit
+ *     description: Credit balance and its history. Credit comes from unused time on plan upgrades and is spent automatically on the next plan charge.
+ *     tags: [Billing]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 50
+ *     responses:
+ *       200:
+ *         description: Balance (major units) and ledger entries, newest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     balance:
+ *                       type: number
+ *                       example: 120.5
+ *                     currency:
+ *                       type: string
+ *                       example: INR
+ *                     entries:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           amount:
+ *                             type: number
+ *                             example: -149.5
+ *                           balanceAfter:
+ *                             type: number
+ *                           reason:
+ *                             type: string
+ *                             enum: [proration, plan_change, renewal, adjustment]
+ *                           description:
+ *                             type: string
+ *                           createdAt:
+ *                             type: string
+ *                             format: date-time
+ *                     pagination:
+ *                       type: object
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/credits', authMiddleware, subscriptionController.getCredits);
 
 /**
  * @swagger
  * /api/billing/subscription/cancel:
  *   post:
  *     summary: Cancel Subscription
- *     description: Cancel user's active subscription
+ *     description: Cancel user's active subscription. Users with two-factor authentication must have verified recently (POST /api/auth/2fa/step-up).
  *     tags: [Billing]
  *     security:
  *       - bearerAuth: []
@@ -508,8 +780,14 @@ router.post('/subscription/upgrade', authMiddleware, subscriptionController.upgr
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Step-up required (code STEP_UP_REQUIRED)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  */
-router.post('/subscription/cancel', authMiddleware, subscriptionController.cancelSubscription);
+router.post('/subscription/cancel', authMiddleware, requireStepUp, subscriptionController.cancelSubscription);
 
 /**
  * @swagger
@@ -743,7 +1021,7 @@ router.post(
  * /api/billing/booster/addon/purchase:
  *   post:
  *     summary: Purchase Addon Booster
- *     description: Purchase additional features or capacity as an addon
+ *     description: Completes an addon booster purchase paid through an addon_booster order (POST /api/billing/payments/orders). The booster is granted once per order.
  *     tags: [Billing]
  *     security:
  *       - bearerAuth: []
@@ -754,18 +1032,17 @@ router.post(
  *           schema:
  *             type: object
  *             required:
- *               - addonType
+ *               - gatewayOrderId
  *             properties:
- *               addonType:
+ *               gatewayOrderId:
  *                 type: string
- *                 enum: [messages, storage, api_calls]
- *                 example: messages
- *               quantity:
- *                 type: integer
- *                 example: 1000
- *               paymentMethodId:
+ *                 example: order_N5ZqL1c3x9Yb2T
+ *               gatewayPaymentId:
  *                 type: string
- *                 example: pm_1234567890
+ *                 description: Razorpay payment id (not needed for Stripe)
+ *               gatewaySignature:
+ *                 type: string
+ *                 description: Razorpay checkout signature (not needed for Stripe)
  *     responses:
  *       200:
  *         description: Addon booster purchased successfully
@@ -804,6 +1081,12 @@ router.post(
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       402:
+ *         description: No order given (PAYMENT_REQUIRED) or the payment could not be verified
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  */
 router.post('/booster/addon/purchase', authMiddleware, boosterController.purchaseAddonBooster);
 
@@ -952,6 +1235,390 @@ router.get('/booster/available', authMiddleware, boosterController.getAvailableB
  */
 router.get('/booster/history', authMiddleware, boosterController.getBoosterHistory);
 
+// ============================================
+// 💳 PAYMENT ROUTES
+// ============================================
+
+/**
+ * @swagger
+ * /api/billing/payments/orders:
+ *   post:
+ *     summary: Create Payment Order
+ *     description: Prices a plan change or addon booster on the server and opens an order with the user's regional gateway (Razorpay for IN, Stripe for INTL). Open the gateway checkout with the returned checkout data, then confirm with POST /api/billing/payments/verify. Users with two-factor authentication must have verified recently.
+ *     tags: [Billing]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - purpose
+ *             properties:
+ *               purpose:
+ *                 type: string
+ *                 enum: [subscription, addon_booster]
+ *               planName:
+ *                 type: string
+ *                 description: Target plan (purpose subscription)
+ *                 example: PRO
+ *               couponCode:
+ *                 type: string
+ *                 description: Promo code, taken off the price before account credit
+ *                 example: WELCOME20
+ *     responses:
+ *       201:
+ *         description: Order created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     transactionId:
+ *                       type: string
+ *                     gateway:
+ *                       type: string
+ *                       enum: [razorpay, stripe, fake]
+ *                     gatewayOrderId:
+ *                       type: string
+ *                     amount:
+ *                       type: number
+ *                       example: 399
+ *                     currency:
+ *                       type: string
+ *                       example: INR
+ *                     couponCode:
+ *                       type: string
+ *                     discount:
+ *                       type: number
+ *                       example: 80
+ *                     checkout:
+ *                       type: object
+ *                       description: Razorpay keyId/orderId or Stripe clientSecret/publishableKey
+ *       400:
+ *         description: Validation error, invalid plan, coupon refused (reason invalid_coupon, couponReason says why) or no payment needed
+ *       403:
+ *         description: Step-up required (code STEP_UP_REQUIRED)
+ *       409:
+ *         description: Addon booster not available
+ *       502:
+ *         description: Payment gateway unavailable
+ */
+router.post('/payments/orders', authMiddleware, requireStepUp, paymentController.createOrder);
+
+/**
+ * @swagger
+ * /api/billing/payments/verify:
+ *   post:
+ *     summary: Confirm Payment
+ *     description: Verifies a completed checkout with the gateway (Razorpay signature, Stripe payment intent) and applies the plan change or addon booster. Repeating it for a processed order is harmless.
+ *     tags: [Billing]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - gatewayOrderId
+ *             properties:
+ *               gatewayOrderId:
+ *                 type: string
+ *                 description: razorpay_order_id, or the Stripe payment intent id
+ *               gatewayPaymentId:
+ *                 type: string
+ *                 description: razorpay_payment_id
+ *               gatewaySignature:
+ *                 type: string
+ *                 description: razorpay_signature
+ *     responses:
+ *       200:
+ *         description: Payment confirmed (alreadyProcessed when it was applied earlier)
+ *       402:
+ *         description: Payment could not be verified
+ *       404:
+ *         description: Order not found
+ *       409:
+ *         description: Order is closed (refunded)
+ *       500:
+ *         description: Payment received but the purchase could not be completed
+ */
+router.post('/payments/verify', authMiddleware, paymentController.confirmPayment);
+
+/**
+ * @swagger
+ * /api/billing/payments/webhooks/{gateway}:
+ *   post:
+ *     summary: Payment Gateway Webhook
+ *     description: Receives gateway events (payment captured/failed/refunded, subscription renewals). Authenticated by the gateway signature header (X-Razorpay-Signature, Stripe-Signature, X-Fake-Signature). Repeated deliveries of the same event are acknowledged without effect.
+ *     tags: [Billing]
+ *     parameters:
+ *       - in: path
+ *         name: gateway
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [razorpay, stripe, fake]
+ *     responses:
+ *       200:
+ *         description: Event received (duplicate true for repeats)
+ *       400:
+ *         description: Invalid signature
+ *       404:
+ *         description: Unknown gateway
+ *       500:
+ *         description: Processing failed - the gateway will retry
+ */
+router.post('/payments/webhooks/:gateway', paymentController.handleWebhook);
+
+// ============================================
+// 🧾 INVOICE ROUTES (Protected)
+// ============================================
+
+/**
+ * @swagger
+ * /api/billing/invoices:
+ *   get:
+ *     summary: List Invoices
+ *     description: GST tax invoices (INR) and payment receipts (other currencies) for the user's paid transactions, newest first. Amounts are in major units.
+ *     tags: [Billing]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 50
+ *     responses:
+ *       200:
+ *         description: Invoices with pagination
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/invoices', authMiddleware, invoiceController.listInvoices);
+
+/**
+ * @swagger
+ * /api/billing/invoices/{id}:
+ *   get:
+ *     summary: Get Invoice
+ *     description: Invoice number, tax split (CGST/SGST or IGST), HSN/SAC, place of supply and amount in words
+ *     tags: [Billing]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Invoice details
+ *       404:
+ *         description: Invoice not found
+ */
+router.get('/invoices/:id', authMiddleware, invoiceController.getInvoice);
+
+/**
+ * @swagger
+ * /api/billing/invoices/{id}/pdf:
+ *   get:
+ *     summary: Download Invoice PDF
+ *     description: Stored PDF; rendered on demand if it is not ready yet
+ *     tags: [Billing]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: PDF file
+ *         content:
+ *           application/pdf:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       404:
+ *         description: Invoice not found
+ *       503:
+ *         description: PDF could not be rendered right now
+ */
+router.get('/invoices/:id/pdf', authMiddleware, invoiceController.downloadPdf);
+
+/**
+ * @swagger
+ * /api/billing/settings:
+ *   get:
+ *     summary: Get Billing Settings
+ *     description: Buyer details printed on invoices (null until saved)
+ *     tags: [Billing]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Billing profile
+ *   put:
+ *     summary: Update Billing Settings
+ *     description: GSTIN and billing address for future invoices. A GSTIN sets the state (place of supply); null clears a field.
+ *     tags: [Billing]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               legalName:
+ *                 type: string
+ *                 example: Acme Technologies Pvt Ltd
+ *               gstin:
+ *                 type: string
+ *                 example: 03AAACA1234A1Z5
+ *               addressLine1:
+ *                 type: string
+ *               addressLine2:
+ *                 type: string
+ *               city:
+ *                 type: string
+ *                 example: Ludhiana
+ *               stateCode:
+ *                 type: string
+ *                 description: 2-digit GST state code
+ *                 example: "03"
+ *               postalCode:
+ *                 type: string
+ *                 example: "141001"
+ *               country:
+ *                 type: string
+ *                 example: IN
+ *     responses:
+ *       200:
+ *         description: Billing profile updated
+ *       400:
+ *         description: Invalid GSTIN or state code
+ */
+router.get('/settings', authMiddleware, invoiceController.getBillingSettings);
+router.put('/settings', authMiddleware, invoiceController.updateBillingSettings);
+
+// ============================================
+// 🎟️ COUPON & REFERRAL ROUTES (Protected)
+// ============================================
 
+/**
+ * @swagger
+ * /api/billing/coupons/validate:
+ *   post:
+ *     summary: Validate Coupon
+ *     description: Checks a promo code for a plan change or addon booster and returns the discount and the price after it (major units). Pass the same code as couponCode when creating the payment order.
+ *     tags: [Billing]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *               - purpose
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 example: WELCOME20
+ *               purpose:
+ *                 type: string
+ *                 enum: [subscription, addon_booster]
+ *               planName:
+ *                 type: string
+ *                 description: Target plan (purpose subscription)
+ *                 example: PRO
+ *     responses:
+ *       200:
+ *         description: Coupon accepted (code, price, discount, amountDue, currency)
+ *       400:
+ *         description: Validation error
+ *       404:
+ *         description: Coupon code not found
+ *       409:
+ *         description: Addon booster not available
+ *       422:
+ *         description: Coupon cannot be used for this purchase (reason says why, e.g. expired, user_limit, first_purchase_only)
+ */
+router.post('/coupons/validate', authMiddleware, couponController.validateCoupon);
+
+/**
+ * @swagger
+ * /api/billing/referrals:
+ *   get:
+ *     summary: Get Referrals
+ *     description: The user's referral code and share link, the bonus tokens each side receives, and the people referred so far. Both sides are rewarded once the referred user's first payment clears.
+ *     tags: [Billing]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Referral code, rewards, stats and recent referrals (emails masked)
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/referrals', authMiddleware, referralController.getReferrals);
+
+/**
+ * @swagger
+ * /api/billing/referrals/apply:
+ *   post:
+ *     summary: Apply Referral Code
+ *     description: Links the account to the owner of a referral code. Allowed once, before the first payment.
+ *     tags: [Billing]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 example: K7QX2MPD
+ *     responses:
+ *       200:
+ *         description: Referral code applied
+ *       400:
+ *         description: Own code or validation error
+ *       404:
+ *         description: Referral code not found
+ *       409:
+ *         description: A code was already applied, or the user has already paid
+ */
+router.post('/referrals/apply', authMiddleware, referralController.applyReferralCode);
 
 export default router;
\ No newline at end of file
@@ -29,6 +29,9 @@
 import { Request, Response } from 'express';
 import { Region, Currency } from '@prisma/client';
 import BoosterService from './booster.service';
+import paymentService from './payment.service';
+import { sendPaymentFailure } from './payment.controller';
+import { AddonPurchaseResult } from './booster.types';
 import { detectRegionFromHeaders } from '../../config/utils/region-detector';
 
 // ==========================================
@@ -65,6 +68,15 @@ interface PurchaseRequestBody {
   transactionId?: string;
 }
 
+/**
+ * Addon purchase = checkout result for an order from POST /api/billing/payments/orders
+ */
+interface AddonPurchaseBody {
+  gatewayOrderId?: string;
+  gatewayPaymentId?: string;
+  gatewaySignature?: string;
+}
+
 
 // ==========================================
 // BOOSTER CONTROLLER CLASS
@@ -215,6 +227,7 @@ export class BoosterController {
   /**
    * POST /api/billing/booster/addon/purchase
    * Purchase addon booster (fresh capacity pool)
+   * Confirms an addon_booster gateway order; the booster is granted once
    */
   async purchaseAddonBooster(req: AuthRequest, res: Response): Promise<void> {
     try {
@@ -230,41 +243,50 @@ export class BoosterController {
         return;
       }
 
-      const { paymentMethod, transactionId } = req.body as PurchaseRequestBody;
+      const { gatewayOrderId, gatewayPaymentId, gatewaySignature } = req.body as AddonPurchaseBody;
 
-      if (!paymentMethod || typeof paymentMethod !== 'string' || paymentMethod.trim().length === 0) {
-        res.status(400).json({
+      if (!gatewayOrderId || typeof gatewayOrderId !== 'string' || gatewayOrderId.trim().length === 0) {
+        res.status(402).json({
           success: false,
-          message: 'Payment method is required',
+          message: 'Payment required - create an order with POST /api/billing/payments/orders (purpose addon_booster) first',
+          error: 'PAYMENT_REQUIRED',
           timestamp: new Date().toISOString(),
         } as ApiResponse);
         return;
       }
 
-      // Detect region from request
-      const { region, currency } = detectRegionFromHeaders(req);
-
-      const result = await BoosterService.purchaseAddonBooster({
+      const confirmation = await paymentService.confirmPayment(
         userId,
-        paymentMethod: paymentMethod.trim(),
-        transactionId: transactionId?.trim(),
-        region,
-        currency,
-      });
+        {
+          gatewayOrderId: gatewayOrderId.trim(),
+          gatewayPaymentId: typeof gatewayPaymentId === 'string' ? gatewayPaymentId.trim() : undefined,
+          gatewaySignature: typeof gatewaySignature === 'string' ? gatewaySignature.trim() : undefined,
+        },
+        'addon_booster'
+      );
 
-      if (!result.success) {
-        res.status(400).json({
-          success: false,
-          message: result.naturalMessage || result.message,
+      if (!confirmation.success) {
+        sendPaymentFailure(res, confirmation);
+        return;
+      }
+
+      if (confirmation.alreadyProcessed) {
+        res.status(200).json({
+          success: true,
+          message: 'This addon booster payment was already processed',
+          data: { transactionId: confirmation.transactionId },
           timestamp: new Date().toISOString(),
         } as ApiResponse);
         return;
       }
 
+      const result = confirmation.fulfilment as AddonPurchaseResult;
+
       res.status(200).json({
         success: true,
         message: result.naturalMessage || result.message,
         data: {
+          transactionId: confirmation.transactionId,
           booster: result.booster,
           wordsAdded: result.wordsAdded,
           dailyBoost: result.dailyBoost,
@@ -23,7 +23,7 @@
  */
 
 import { prisma } from '../../config/prisma';
-import { BoosterCategory, Region } from '@prisma/client';
+import { BoosterCategory, Prisma, Region } from '@prisma/client';
 import {
   QueueCheckResult,
   QueueAddResult,
@@ -117,6 +117,8 @@ export class BoosterQueueService {
    * Add addon to queue
    * If no active addon: activate immediately
    * If active addon exists: queue for activation when current expires
+   * withGrant: runs in the same DB transaction as the booster record
+   * (e.g. redeeming the order's coupon), so neither is kept without the other
    */
   async addToQueue(data: {
     userId: string;
@@ -129,9 +131,10 @@ export class BoosterQueueService {
     planName: string;
     paymentMethod: string;
     transactionId?: string;
+    gatewayOrderId?: string;
     region: Region;
     currency: string;
-  }): Promise<QueueAddResult> {
+  }, withGrant?: (tx: Prisma.TransactionClient) => Promise<void>): Promise<QueueAddResult> {
     try {
       // Check current queue status
       const queueStatus = await this.checkAddonQueue(data.userId);
@@ -183,51 +186,58 @@ export class BoosterQueueService {
       }
 
       // Create booster record
-      const booster = await prisma.booster.create({
-        data: {
-          userId: data.userId,
+      const booster = await prisma.$transaction(async (tx) => {
+        if (withGrant) {
+          await withGrant(tx);
+        }
 
-          // Classification
-          boosterCategory: BoosterCategory.ADDON,
-          boosterType: data.boosterType,
-          boosterName: data.boosterName,
-          boosterPrice: data.boosterPrice * 100, // Convert to paise
-
-          // Region & Currency
-          region: data.region,
-          currency: data.currency as any,
-
-          // Addon-specific fields
-          wordsAdded: data.wordsAdded,
-          creditsAdded: data.creditsAdded,
-          validity: data.validity,
-          distributionLogic: `Daily spread: ${data.wordsAdded} ÷ ${data.validity} days`,
-
-          // Cooldown fields (null for addon)
-          wordsUnlocked: null,
-          cooldownDuration: null,
-          maxPerPlanPeriod: null,
-          cooldownEnd: null,
-
-          // Tracking
-          wordsUsed: 0,
-          wordsRemaining: data.wordsAdded,
-          creditsUsed: 0,
-          creditsRemaining: data.creditsAdded,
-
-          // Status & timing
-          status: BoosterStatus.ACTIVE, // Even queued ones are "active" status
-          activatedAt,
-          expiresAt,
-
-          // Payment
-          paymentGateway: data.paymentMethod,
-          gatewayPaymentId: data.transactionId,
-
-          // Metadata
-          planName: data.planName,
-          description: `Addon booster: ${data.wordsAdded} words + ${data.creditsAdded} credits for ${data.validity} days`,
-        },
+        return tx.booster.create({
+          data: {
+            userId: data.userId,
+
+            // Classification
+            boosterCategory: BoosterCategory.ADDON,
+            boosterType: data.boosterType,
+            boosterName: data.boosterName,
+            boosterPrice: data.boosterPrice * 100, // Convert to paise
+
+            // Region & Currency
+            region: data.region,
+            currency: data.currency as any,
+
+            // Addon-specific fields
+            wordsAdded: data.wordsAdded,
+            creditsAdded: data.creditsAdded,
+            validity: data.validity,
+            distributionLogic: `Daily spread: ${data.wordsAdded} ÷ ${data.validity} days`,
+
+            // Cooldown fields (null for addon)
+            wordsUnlocked: null,
+            cooldownDuration: null,
+            maxPerPlanPeriod: null,
+            cooldownEnd: null,
+
+            // Tracking
+            wordsUsed: 0,
+            wordsRemaining: data.wordsAdded,
+            creditsUsed: 0,
+            creditsRemaining: data.creditsAdded,
+
+            // Status & timing
+            status: BoosterStatus.ACTIVE, // Even queued ones are "active" status
+            activatedAt,
+            expiresAt,
+
+            // Payment
+            paymentGateway: data.paymentMethod,
+            gatewayPaymentId: data.transactionId,
+            gatewayOrderId: data.gatewayOrderId,
+
+            // Metadata
+            planName: data.planName,
+            description: `Addon booster: ${data.wordsAdded} words + ${data.creditsAdded} credits for ${data.validity} days`,
+          },
+        });
       });
 
       return {
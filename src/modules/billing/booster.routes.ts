@@ -72,7 +72,7 @@ router.get(
  * @route   POST /api/billing/booster/addon/purchase
  * @desc    Purchase addon booster (fresh capacity pool)
  * @access  Private
- * @body    { paymentMethod: string, transactionId?: string }
+ * @body    { gatewayOrderId: string, gatewayPaymentId?: string, gatewaySignature?: string }
  */
 router.post(
   '/addon/purchase',
@@ -17,7 +17,7 @@
  */
 
 import { prisma } from '../../config/prisma';
-import { Region, Currency, BoosterCategory } from '@prisma/client';
+import { Region, Currency, BoosterCategory, Prisma } from '@prisma/client';
 
 import {
   PLANS_STATIC_CONFIG,
@@ -41,6 +41,7 @@ import {
 import usageService from './usage.service';
 import BrainService from '../../services/ai/brain.service';
 import boosterQueueService from './booster.queue.service';
+import couponService, { AppliedCoupon, CouponRedemptionError } from './coupon.service';
 
 // ==========================================
 // BOOSTER SERVICE CLASS
@@ -403,6 +404,7 @@ export class BoosterService {
   /**
    * Purchase addon booster
    * Uses queue system - max 2/month
+   * Called by PaymentService once the gateway confirmed the payment
    */
   async purchaseAddonBooster(
     data: AddonPurchaseRequest
@@ -453,6 +455,54 @@ export class BoosterService {
       const price = region === Region.INTL ? (addon.priceUSD || addon.price) : addon.price;
       const totalWords = Math.floor(addon.totalTokens / 1.5);
 
+      // A coupon the order was priced with is checked again as of the order
+      let coupon: AppliedCoupon | undefined;
+      if (data.payment.couponCode) {
+        const order = await prisma.transaction.findUnique({
+          where: { id: data.payment.transactionId },
+          select: { createdAt: true },
+        });
+        const check = await couponService.evaluate(data.userId, data.payment.couponCode, {
+          purpose: 'addon_booster',
+          planName: planType,
+          region,
+          currency,
+          amount: Math.round(price * 100),
+          asOf: order?.createdAt,
+          transactionId: data.payment.transactionId,
+        });
+
+        if (!check.success) {
+          return {
+            success: false,
+            message: `Coupon ${data.payment.couponCode} rejected: ${check.error}`,
+            naturalMessage: 'The coupon on this order is no longer valid. Please contact support.',
+            status: 'active',
+          };
+        }
+        coupon = check.coupon;
+      }
+
+      if (Math.round(data.payment.amount * 100) + (coupon?.discount ?? 0) !== Math.round(price * 100)) {
+        return {
+          success: false,
+          message: `Payment amount does not match the addon price (${price})`,
+          naturalMessage: 'Your payment did not match the booster price. Please contact support.',
+          status: 'active',
+        };
+      }
+
+      // The coupon is redeemed in the same DB transaction as the booster
+      const redeemCoupon = coupon
+        ? (tx: Prisma.TransactionClient) =>
+            couponService.redeem(tx, data.userId, coupon!, {
+              purpose: 'addon_booster',
+              planName: planType,
+              currency,
+              transactionId: data.payment.transactionId,
+            })
+        : undefined;
+
       // Add to queue (handles activation vs queueing logic)
       const queueResult = await boosterQueueService.addToQueue({
         userId: data.userId,
@@ -463,11 +513,12 @@ export class BoosterService {
         creditsAdded: 0,
         validity: addon.validity,
         planName: planType,
-        paymentMethod: data.paymentMethod,
-        transactionId: data.transactionId,
+        paymentMethod: data.payment.gateway,
+        transactionId: data.payment.paymentId,
+        gatewayOrderId: data.payment.orderId,
         region,
         currency: currency as any,
-      });
+      }, redeemCoupon);
 
       if (!queueResult.success) {
         return {
@@ -516,6 +567,15 @@ export class BoosterService {
         status: queueResult.status,
       };
     } catch (error: any) {
+      if (error instanceof CouponRedemptionError) {
+        return {
+          success: false,
+          message: error.message,
+          naturalMessage: 'The coupon on this order is no longer valid. Please contact support.',
+          status: 'active',
+        };
+      }
+
       console.error('[BoosterService] Addon purchase failed:', error);
       return {
         success: false,
@@ -19,6 +19,7 @@
 
 import { Region, Currency, BoosterCategory } from '@prisma/client';
 import { PlanType } from '../../constants/plans';
+import { VerifiedPayment } from './payment.types';
 
 // ==========================================
 // BOOSTER STATUS (matches schema string field)
@@ -105,8 +106,8 @@ export interface AddonAvailabilityResult {
 
 export interface AddonPurchaseRequest {
   userId: string;
-  paymentMethod: string;
-  transactionId?: string;
+  /** Gateway-verified payment for this addon (PaymentService) */
+  payment: VerifiedPayment;
   region?: Region;
   currency?: Currency;
 }
@@ -0,0 +1,179 @@
+// src/modules/billing/coupon.controller.ts
+
+/**
+ * ==========================================
+ * COUPON CONTROLLER
+ * ==========================================
+ * Lets checkout check a promo code before creating the gateway order
+ * Last Updated: October 18, 2026
+ *
+ * ENDPOINTS:
+ * - POST /api/billing/coupons/validate → Discount and price after it
+ * ==========================================
+ */
+
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { Currency, Region } from '@prisma/client';
+import { prisma } from '../../config/prisma';
+import couponService, { CouponErrorReason } from './coupon.service';
+import subscriptionService from './subscription.service';
+import boosterService from './booster.service';
+
+// ==========================================
+// VALIDATION & STATUS MAPPING
+// ==========================================
+
+const validateCouponSchema = z
+  .object({
+    code: z.string().trim().min(1).max(32),
+    purpose: z.enum(['subscription', 'addon_booster']),
+    planName: z.string().trim().toUpperCase().optional(),
+  })
+  .refine((body) => body.purpose !== 'subscription' || !!body.planName, {
+    message: 'planName is required for subscription coupons',
+    path: ['planName'],
+  });
+
+// A code that exists but does not fit this purchase is a 422, not a 404
+const COUPON_ERROR_STATUS: Record<CouponErrorReason, number> = {
+  not_found: 404,
+  inactive: 422,
+  not_started: 422,
+  expired: 422,
+  exhausted: 422,
+  user_limit: 422,
+  first_purchase_only: 422,
+  not_applicable: 422,
+  duplicate_code: 409,
+  invalid_input: 400,
+};
+
+// ==========================================
+// COUPON CONTROLLER CLASS
+// ==========================================
+
+class CouponController {
+  /**
+   * Check a code for a plan change or addon booster.
+   * Amounts are in major units, like gateway orders.
+   * POST /api/billing/coupons/validate
+   */
+  public validateCoupon = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized - User not authenticated',
+        });
+        return;
+      }
+
+      const body = validateCouponSchema.parse(req.body);
+
+      if (body.purpose === 'subscription') {
+        const result = await subscriptionService.previewPlanChange(
+          userId,
+          body.planName!,
+          body.code
+        );
+
+        if (!result.success || !result.data) {
+          const reason = 'couponReason' in result ? result.couponReason : undefined;
+          res.status(reason ? COUPON_ERROR_STATUS[reason] : 400).json({
+            success: false,
+            message: result.message || 'Coupon cannot be used',
+            reason,
+          });
+          return;
+        }
+
+        res.status(200).json({
+          success: true,
+          data: {
+            code: result.data.couponCode,
+            purpose: body.purpose,
+            planName: body.planName,
+            price: result.data.newPlanPrice,
+            discount: result.data.discount,
+            amountDue: result.data.amountDue,
+            currency: result.data.currency,
+            preview: result.data,
+          },
+        });
+        return;
+      }
+
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { planType: true, region: true },
+      });
+      const region = user?.region || Region.IN;
+      const currency = region === Region.INTL ? Currency.USD : Currency.INR;
+
+      const availability = await boosterService.checkAddonAvailability(userId, region);
+      if (!user || !availability.eligible || !availability.boosterDetails?.canPurchase) {
+        res.status(409).json({
+          success: false,
+          message:
+            availability.naturalMessage || availability.reason || 'Addon booster not available',
+        });
+        return;
+      }
+
+      const price = availability.boosterDetails.price;
+      const check = await couponService.evaluate(userId, body.code, {
+        purpose: 'addon_booster',
+        planName: user.planType,
+        region,
+        currency,
+        amount: Math.round(price * 100),
+      });
+
+      if (!check.success) {
+        res.status(check.reason ? COUPON_ERROR_STATUS[check.reason] : 400).json({
+          success: false,
+          message: check.error,
+          reason: check.reason,
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: {
+          code: check.coupon!.code,
+          purpose: body.purpose,
+          planName: user.planType,
+          price,
+          discount: check.coupon!.discount / 100,
+          amountDue: (Math.round(price * 100) - check.coupon!.discount) / 100,
+          currency,
+        },
+      });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: error.issues,
+        });
+        return;
+      }
+
+      console.error('Error validating coupon:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to validate coupon',
+      });
+    }
+  };
+}
+
+// ==========================================
+// EXPORT SINGLETON INSTANCE
+// ==========================================
+
+const couponController = new CouponController();
+export default couponController;
@@ -0,0 +1,577 @@
+// src/modules/billing/coupon.service.ts
+
+/**
+ * ==========================================
+ * COUPON SERVICE - PROMO CODES & DISCOUNTS
+ * ==========================================
+ * Percentage or flat discounts on plan purchases and addon boosters,
+ * optionally restricted by plan, region, currency, start/expiry date,
+ * total and per-user redemptions, or to a user's first purchase.
+ *
+ * A code is checked when the price is quoted (gateway order, preview) and
+ * again when the purchase is fulfilled; the redemption is recorded inside
+ * the fulfilment's DB transaction, against the total and per-user caps.
+ * Discounts and flat coupon values are in minor units (paise/cents).
+ * Last Updated: October 18, 2026
+ * ==========================================
+ */
+
+import { Coupon, Prisma, Region } from '@prisma/client';
+import { prisma } from '../../config/prisma';
+import { plansManager } from '../../constants';
+import { auditLogService, AuditEventType } from '../../services/audit-log.service';
+import { PaymentPurpose } from './payment.types';
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// TYPES & CONSTANTS
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export type CouponDiscountType = 'percentage' | 'flat';
+export type CouponAppliesTo = 'all' | PaymentPurpose;
+
+export type CouponErrorReason =
+  | 'not_found'
+  | 'inactive'
+  | 'not_started'
+  | 'expired'
+  | 'exhausted'
+  | 'user_limit'
+  | 'first_purchase_only'
+  | 'not_applicable'
+  | 'duplicate_code'
+  | 'invalid_input';
+
+/** What the code is being used for */
+export interface CouponUsage {
+  purpose: PaymentPurpose;
+  /** Plan bought (subscription) or the user's plan (addon booster) */
+  planName: string;
+  region: Region;
+  currency: string;
+  /** Price before the discount, minor units */
+  amount: number;
+  /** Date the validity window is checked against (the order's creation for paid orders) */
+  asOf?: Date;
+  /** The order being fulfilled, not counted as an earlier purchase or redemption */
+  transactionId?: string;
+}
+
+/** A coupon accepted for a purchase and the discount it gives */
+export interface AppliedCoupon {
+  couponId: string;
+  code: string;
+  /** Minor units */
+  discount: number;
+}
+
+export interface CouponCheckResult {
+  success: boolean;
+  error?: string;
+  reason?: CouponErrorReason;
+  coupon?: AppliedCoupon;
+}
+
+export interface CouponInput {
+  code?: string;
+  description?: string | null;
+  discountType?: CouponDiscountType;
+  discountValue?: number;
+  currency?: string | null;
+  appliesTo?: CouponAppliesTo;
+  plans?: string[];
+  regions?: Region[];
+  currencies?: string[];
+  maxRedemptions?: number | null;
+  perUserLimit?: number;
+  firstPurchaseOnly?: boolean;
+  startsAt?: Date | null;
+  expiresAt?: Date | null;
+  isActive?: boolean;
+}
+
+export interface CouponChangeMeta {
+  changedBy: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export interface CouponMutationResult {
+  success: boolean;
+  error?: string;
+  reason?: CouponErrorReason;
+  coupon?: Coupon;
+}
+
+/** Thrown inside a fulfilment transaction when the coupon can no longer be redeemed */
+export class CouponRedemptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CouponRedemptionError';
+  }
+}
+
+const CODE_PATTERN = /^[A-Z0-9_-]{3,32}$/;
+
+// A gateway order cannot be for zero, so boosters always cost at least this
+const MIN_BOOSTER_CHARGE = 100;
+
+// Transactions that count as an earlier purchase for first-purchase-only codes
+const PURCHASE_STATUSES = ['success', 'refunded', 'partially_refunded'];
+
+export class CouponService {
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // VALIDATION
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  normalizeCode(code: string): string {
+    return code.trim().toUpperCase();
+  }
+
+  /**
+   * Check a code for this user and purchase and work out the discount
+   */
+  async evaluate(userId: string, code: string, usage: CouponUsage): Promise<CouponCheckResult> {
+    const coupon = await prisma.coupon.findUnique({ where: { code: this.normalizeCode(code) } });
+
+    if (!coupon) {
+      return { success: false, error: 'Coupon code not found', reason: 'not_found' };
+    }
+
+    const asOf = usage.asOf || new Date();
+
+    if (!coupon.isActive) {
+      return { success: false, error: 'This coupon is no longer active', reason: 'inactive' };
+    }
+    if (coupon.startsAt && coupon.startsAt > asOf) {
+      return { success: false, error: 'This coupon is not valid yet', reason: 'not_started' };
+    }
+    if (coupon.expiresAt && coupon.expiresAt <= asOf) {
+      return { success: false, error: 'This coupon has expired', reason: 'expired' };
+    }
+
+    const applicability = this.checkApplicability(coupon, usage);
+    if (applicability) {
+      return { success: false, error: applicability, reason: 'not_applicable' };
+    }
+
+    if (coupon.maxRedemptions !== null && coupon.redemptionCount >= coupon.maxRedemptions) {
+      return {
+        success: false,
+        error: 'This coupon has been fully redeemed',
+        reason: 'exhausted',
+      };
+    }
+
+    const excludeOrder = usage.transactionId ? { NOT: { id: usage.transactionId } } : {};
+
+    const [userRedemptions, earlierPurchases] = await Promise.all([
+      prisma.couponRedemption.count({
+        where: {
+          couponId: coupon.id,
+          userId,
+          ...(usage.transactionId ? { NOT: { transactionId: usage.transactionId } } : {}),
+        },
+      }),
+      coupon.firstPurchaseOnly
+        ? prisma.transaction.count({
+            where: {
+              userId,
+              amount: { gt: 0 },
+              status: { in: PURCHASE_STATUSES },
+              ...excludeOrder,
+            },
+          })
+        : Promise.resolve(0),
+    ]);
+
+    if (userRedemptions >= coupon.perUserLimit) {
+      return {
+        success: false,
+        error: 'You have already used this coupon',
+        reason: 'user_limit',
+      };
+    }
+    if (earlierPurchases > 0) {
+      return {
+        success: false,
+        error: 'This coupon is only valid on your first purchase',
+        reason: 'first_purchase_only',
+      };
+    }
+
+    const discount = this.computeDiscount(coupon, usage);
+    if (discount <= 0) {
+      return {
+        success: false,
+        error: 'This coupon does not reduce the price of this purchase',
+        reason: 'not_applicable',
+      };
+    }
+
+    return {
+      success: true,
+      coupon: { couponId: coupon.id, code: coupon.code, discount },
+    };
+  }
+
+  /**
+   * Record a redemption within the fulfilment's transaction. The redemption
+   * cap is re-checked atomically, so concurrent checkouts cannot overshoot it.
+   * Claiming the coupon row locks it until the transaction ends, so the
+   * per-user count that follows sees every earlier redemption of this coupon.
+   */
+  async redeem(
+    tx: Prisma.TransactionClient,
+    userId: string,
+    coupon: AppliedCoupon,
+    details: {
+      purpose: PaymentPurpose;
+      planName?: string;
+      currency: string;
+      transactionId?: string;
+    }
+  ): Promise<void> {
+    const claimed = await tx.$queryRaw<{ perUserLimit: number }[]>`
+      UPDATE "coupons"
+      SET "redemptionCount" = "redemptionCount" + 1, "updatedAt" = NOW()
+      WHERE "id" = ${coupon.couponId}
+        AND "isActive" = true
+        AND ("maxRedemptions" IS NULL OR "redemptionCount" < "maxRedemptions")
+      RETURNING "perUserLimit"
+    `;
+
+    if (claimed.length === 0) {
+      throw new CouponRedemptionError(`Coupon ${coupon.code} can no longer be redeemed`);
+    }
+
+    const userRedemptions = await tx.couponRedemption.count({
+      where: { couponId: coupon.couponId, userId },
+    });
+    if (userRedemptions >= claimed[0].perUserLimit) {
+      throw new CouponRedemptionError(`Coupon ${coupon.code} was already used by this user`);
+    }
+
+    await tx.couponRedemption.create({
+      data: {
+        couponId: coupon.couponId,
+        userId,
+        transactionId: details.transactionId,
+        purpose: details.purpose,
+        planName: details.planName,
+        discountAmount: coupon.discount,
+        currency: details.currency,
+      },
+    });
+  }
+
+  /**
+   * Discount on amount (minor units), capped so nothing is ever negative and
+   * boosters keep a chargeable amount
+   */
+  computeDiscount(coupon: Coupon, usage: Pick<CouponUsage, 'purpose' | 'amount'>): number {
+    const maximum =
+      usage.purpose === 'addon_booster' ? usage.amount - MIN_BOOSTER_CHARGE : usage.amount;
+
+    const discount =
+      coupon.discountType === 'percentage'
+        ? Math.floor((usage.amount * coupon.discountValue) / 100)
+        : coupon.discountValue;
+
+    return Math.max(0, Math.min(discount, maximum));
+  }
+
+  /**
+   * Returns why the coupon does not cover this purchase, or null when it does
+   */
+  private checkApplicability(coupon: Coupon, usage: CouponUsage): string | null {
+    if (coupon.appliesTo !== 'all' && coupon.appliesTo !== usage.purpose) {
+      return coupon.appliesTo === 'subscription'
+        ? 'This coupon only applies to plan purchases'
+        : 'This coupon only applies to addon boosters';
+    }
+    if (coupon.plans.length > 0 && !coupon.plans.includes(usage.planName)) {
+      return `This coupon is not valid for the ${usage.planName} plan`;
+    }
+    if (coupon.regions.length > 0 && !coupon.regions.includes(usage.region)) {
+      return 'This coupon is not valid in your region';
+    }
+    if (coupon.currencies.length > 0 && !coupon.currencies.includes(usage.currency)) {
+      return `This coupon is not valid for payments in ${usage.currency}`;
+    }
+    if (coupon.discountType === 'flat' && coupon.currency !== usage.currency) {
+      return `This coupon is not valid for payments in ${usage.currency}`;
+    }
+    return null;
+  }
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // ADMIN
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  async listCoupons(options: { page: number; limit: number; active?: boolean; search?: string }) {
+    const where: Prisma.CouponWhereInput = {
+      ...(options.active !== undefined ? { isActive: options.active } : {}),
+      ...(options.search ? { code: { contains: this.normalizeCode(options.search) } } : {}),
+    };
+
+    const [coupons, total] = await Promise.all([
+      prisma.coupon.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (options.page - 1) * options.limit,
+        take: options.limit,
+      }),
+      prisma.coupon.count({ where }),
+    ]);
+
+    return {
+      coupons,
+      pagination: {
+        page: options.page,
+        limit: options.limit,
+        total,
+        totalPages: Math.ceil(total / options.limit),
+      },
+    };
+  }
+
+  /**
+   * Coupon with redemption totals and the latest redemptions
+   */
+  async getCoupon(id: string) {
+    const coupon = await prisma.coupon.findUnique({ where: { id } });
+    if (!coupon) {
+      return null;
+    }
+
+    const [totals, recentRedemptions] = await Promise.all([
+      prisma.couponRedemption.groupBy({
+        by: ['currency'],
+        where: { couponId: id },
+        _count: { _all: true },
+        _sum: { discountAmount: true },
+      }),
+      prisma.couponRedemption.findMany({
+        where: { couponId: id },
+        orderBy: { createdAt: 'desc' },
+        take: 20,
+        include: { user: { select: { email: true } } },
+      }),
+    ]);
+
+    return {
+      coupon,
+      stats: totals.map((row) => ({
+        currency: row.currency,
+        redemptions: row._count._all,
+        totalDiscount: (row._sum.discountAmount ?? 0) / 100,
+      })),
+      recentRedemptions: recentRedemptions.map((redemption) => ({
+        id: redemption.id,
+        userId: redemption.userId,
+        email: redemption.user.email,
+        purpose: redemption.purpose,
+        planName: redemption.planName,
+        discount: redemption.discountAmount / 100,
+        currency: redemption.currency,
+        transactionId: redemption.transactionId,
+        createdAt: redemption.createdAt,
+      })),
+    };
+  }
+
+  async createCoupon(input: CouponInput, meta: CouponChangeMeta): Promise<CouponMutationResult> {
+    const error = this.validateInput(input, null);
+    if (error) {
+      return { success: false, error, reason: 'invalid_input' };
+    }
+
+    try {
+      const coupon = await prisma.coupon.create({
+        data: {
+          ...this.toData(input),
+          code: this.normalizeCode(input.code!),
+          discountType: input.discountType!,
+          discountValue: input.discountValue!,
+          createdBy: meta.changedBy,
+        },
+      });
+
+      await this.audit('created', coupon, meta);
+      return { success: true, coupon };
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return {
+          success: false,
+          error: `Coupon code ${this.normalizeCode(input.code!)} already exists`,
+          reason: 'duplicate_code',
+        };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Partial update. The code and discount type are fixed once created.
+   */
+  async updateCoupon(
+    id: string,
+    input: CouponInput,
+    meta: CouponChangeMeta
+  ): Promise<CouponMutationResult> {
+    const existing = await prisma.coupon.findUnique({ where: { id } });
+    if (!existing) {
+      return { success: false, error: 'Coupon not found', reason: 'not_found' };
+    }
+
+    if (input.code !== undefined || input.discountType !== undefined) {
+      return {
+        success: false,
+        error: 'The code and discount type cannot be changed, create a new coupon instead',
+        reason: 'invalid_input',
+      };
+    }
+
+    const error = this.validateInput(input, existing);
+    if (error) {
+      return { success: false, error, reason: 'invalid_input' };
+    }
+
+    const coupon = await prisma.coupon.update({
+      where: { id },
+      data: {
+        ...this.toData(input),
+        ...(input.discountValue !== undefined ? { discountValue: input.discountValue } : {}),
+      },
+    });
+
+    await this.audit('updated', coupon, meta, { changes: Object.keys(input) });
+    return { success: true, coupon };
+  }
+
+  /**
+   * Stop accepting a code; past redemptions are kept
+   */
+  async deactivateCoupon(id: string, meta: CouponChangeMeta): Promise<CouponMutationResult> {
+    const existing = await prisma.coupon.findUnique({ where: { id } });
+    if (!existing) {
+      return { success: false, error: 'Coupon not found', reason: 'not_found' };
+    }
+
+    const coupon = await prisma.coupon.update({
+      where: { id },
+      data: { isActive: false },
+    });
+
+    await this.audit('deactivated', coupon, meta);
+    return { success: true, coupon };
+  }
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // HELPERS
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  /**
+   * Returns an error message, or null when the input is acceptable.
+   * existing is null for new coupons (code, type and value required).
+   */
+  private validateInput(input: CouponInput, existing: Coupon | null): string | null {
+    if (!existing) {
+      if (!input.code || !CODE_PATTERN.test(this.normalizeCode(input.code))) {
+        return 'Code must be 3-32 letters, digits, "-" or "_"';
+      }
+      if (input.discountType !== 'percentage' && input.discountType !== 'flat') {
+        return 'discountType must be "percentage" or "flat"';
+      }
+      if (input.discountValue === undefined) {
+        return 'discountValue is required';
+      }
+    }
+
+    const discountType = input.discountType ?? existing!.discountType;
+    const discountValue = input.discountValue ?? existing!.discountValue;
+    const currency = input.currency !== undefined ? input.currency : existing?.currency;
+
+    if (!Number.isInteger(discountValue) || discountValue <= 0) {
+      return 'discountValue must be a positive whole number';
+    }
+    if (discountType === 'percentage' && discountValue > 100) {
+      return 'A percentage discount cannot exceed 100';
+    }
+    if (discountType === 'flat' && !currency) {
+      return 'Flat discounts need a currency (discountValue is in its minor units)';
+    }
+    if (input.appliesTo && !['all', 'subscription', 'addon_booster'].includes(input.appliesTo)) {
+      return 'appliesTo must be "all", "subscription" or "addon_booster"';
+    }
+    if (input.plans?.some((plan) => !plansManager.getPlanByName(plan))) {
+      return 'plans contains an unknown plan';
+    }
+    if (input.regions?.some((region) => !Object.values(Region).includes(region))) {
+      return 'regions contains an unknown region';
+    }
+    if (
+      input.maxRedemptions !== undefined &&
+      input.maxRedemptions !== null &&
+      (!Number.isInteger(input.maxRedemptions) || input.maxRedemptions < 1)
+    ) {
+      return 'maxRedemptions must be a positive whole number';
+    }
+    if (
+      input.perUserLimit !== undefined &&
+      (!Number.isInteger(input.perUserLimit) || input.perUserLimit < 1)
+    ) {
+      return 'perUserLimit must be a positive whole number';
+    }
+
+    const startsAt = input.startsAt !== undefined ? input.startsAt : existing?.startsAt;
+    const expiresAt = input.expiresAt !== undefined ? input.expiresAt : existing?.expiresAt;
+    if (startsAt && expiresAt && startsAt >= expiresAt) {
+      return 'expiresAt must be after startsAt';
+    }
+
+    return null;
+  }
+
+  private toData(input: CouponInput) {
+    return {
+      ...(input.description !== undefined ? { description: input.description } : {}),
+      ...(input.currency !== undefined
+        ? { currency: input.currency ? input.currency.toUpperCase() : null }
+        : {}),
+      ...(input.appliesTo !== undefined ? { appliesTo: input.appliesTo } : {}),
+      ...(input.plans !== undefined ? { plans: input.plans } : {}),
+      ...(input.regions !== undefined ? { regions: input.regions } : {}),
+      ...(input.currencies !== undefined
+        ? { currencies: input.currencies.map((currency) => currency.toUpperCase()) }
+        : {}),
+      ...(input.maxRedemptions !== undefined ? { maxRedemptions: input.maxRedemptions } : {}),
+      ...(input.perUserLimit !== undefined ? { perUserLimit: input.perUserLimit } : {}),
+      ...(input.firstPurchaseOnly !== undefined
+        ? { firstPurchaseOnly: input.firstPurchaseOnly }
+        : {}),
+      ...(input.startsAt !== undefined ? { startsAt: input.startsAt } : {}),
+      ...(input.expiresAt !== undefined ? { expiresAt: input.expiresAt } : {}),
+      ...(input.isActive !== undefined ? { isActive: input.isActive } : {}),
+    };
+  }
+
+  private async audit(
+    action: string,
+    coupon: Coupon,
+    meta: CouponChangeMeta,
+    extra: Record<string, unknown> = {}
+  ): Promise<void> {
+    await auditLogService.log({
+      eventType: AuditEventType.COUPON_CHANGE,
+      userId: meta.changedBy,
+      ipAddress: meta.ipAddress,
+      userAgent: meta.userAgent,
+      success: true,
+      message: `Coupon ${coupon.code} ${action}`,
+      metadata: { couponId: coupon.id, code: coupon.code, action, ...extra },
+    });
+  }
+}
+
+export default new CouponService();
@@ -0,0 +1,165 @@
+// src/modules/billing/credit.service.ts
+
+/**
+ * ==========================================
+ * CREDIT SERVICE - ACCOUNT CREDIT BALANCE
+ * ==========================================
+ * Money owed back to the user, spent automatically on the next plan charge.
+ * Today it only comes from plan changes: unused time on the old plan that
+ * exceeds the price of the new one.
+ *
+ * User.creditBalance holds the running total in minor units (paise/cents,
+ * like transactions); every movement is a credit_ledger row. Movements are
+ * applied inside the caller's DB transaction so a balance never changes
+ * without the plan change that caused it.
+ * Last Updated: October 18, 2026
+ * ==========================================
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '../../config/prisma';
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// TYPES
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export type CreditEntryReason = 'proration' | 'plan_change' | 'renewal' | 'adjustment';
+
+export interface CreditMovement {
+  /** Minor units; positive adds credit, negative spends it */
+  amount: number;
+  reason: CreditEntryReason;
+  description?: string;
+  transactionId?: string;
+}
+
+/** Thrown when a debit would take the balance below zero */
+export class InsufficientCreditError extends Error {
+  constructor() {
+    super('Credit balance changed, please review the plan change again');
+    this.name = 'InsufficientCreditError';
+  }
+}
+
+export class CreditService {
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // BALANCE
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  /**
+   * Current balance in minor units (0 for unknown users)
+   */
+  async getBalance(userId: string): Promise<number> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { creditBalance: true },
+    });
+    return user?.creditBalance ?? 0;
+  }
+
+  /**
+   * Apply movements in order within the caller's transaction.
+   * Returns the balance after the last one.
+   */
+  async applyMovements(
+    tx: Prisma.TransactionClient,
+    userId: string,
+    currency: string,
+    movements: CreditMovement[]
+  ): Promise<number> {
+    let balance: number | null = null;
+
+    for (const movement of movements) {
+      if (movement.amount === 0) {
+        continue;
+      }
+
+      // Conditional increment: a concurrent spend cannot push the balance negative
+      const updated = await tx.user.updateMany({
+        where: {
+          id: userId,
+          ...(movement.amount < 0 ? { creditBalance: { gte: -movement.amount } } : {}),
+        },
+        data: { creditBalance: { increment: movement.amount } },
+      });
+
+      if (updated.count === 0) {
+        throw new InsufficientCreditError();
+      }
+
+      const user = await tx.user.findUniqueOrThrow({
+        where: { id: userId },
+        select: { creditBalance: true },
+      });
+      balance = user.creditBalance;
+
+      await tx.creditLedgerEntry.create({
+        data: {
+          userId,
+          amount: movement.amount,
+          balanceAfter: balance,
+          currency,
+          reason: movement.reason,
+          description: movement.description,
+          transactionId: movement.transactionId,
+        },
+      });
+    }
+
+    if (balance === null) {
+      const user = await tx.user.findUniqueOrThrow({
+        where: { id: userId },
+        select: { creditBalance: true },
+      });
+      balance = user.creditBalance;
+    }
+
+    return balance;
+  }
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // QUERIES
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  /**
+   * Balance and ledger, newest first (amounts in major units)
+   */
+  async getCreditSummary(userId: string, page: number = 1, limit: number = 20) {
+    const [user, entries, total] = await Promise.all([
+      prisma.user.findUnique({
+        where: { id: userId },
+        select: { creditBalance: true, currency: true },
+      }),
+      prisma.creditLedgerEntry.findMany({
+        where: { userId },
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.creditLedgerEntry.count({ where: { userId } }),
+    ]);
+
+    return {
+      balance: (user?.creditBalance ?? 0) / 100,
+      currency: user?.currency || 'INR',
+      entries: entries.map((entry) => ({
+        id: entry.id,
+        amount: entry.amount / 100,
+        balanceAfter: entry.balanceAfter / 100,
+        currency: entry.currency,
+        reason: entry.reason,
+        description: entry.description,
+        transactionId: entry.transactionId,
+        createdAt: entry.createdAt,
+      })),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+}
+
+export default new CreditService();
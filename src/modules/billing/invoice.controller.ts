@@ -0,0 +1,266 @@
+// src/modules/billing/invoice.controller.ts
+
+/**
+ * ==========================================
+ * INVOICE CONTROLLER
+ * ==========================================
+ * GST invoices / receipts and the buyer details printed on them
+ * Last Updated: October 18, 2026
+ *
+ * ENDPOINTS:
+ * - GET /api/billing/invoices          → List invoices (paginated)
+ * - GET /api/billing/invoices/:id      → Invoice details
+ * - GET /api/billing/invoices/:id/pdf  → Download PDF
+ * - GET /api/billing/settings          → Billing profile
+ * - PUT /api/billing/settings          → Update billing profile (GSTIN, address)
+ * ==========================================
+ */
+
+import * as fs from 'fs';
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import invoiceService, { InvoiceErrorReason } from './invoice.service';
+
+// ==========================================
+// VALIDATION & STATUS MAPPING
+// ==========================================
+
+const MAX_PAGE_SIZE = 50;
+
+const optionalText = (max: number) => z.string().trim().min(1).max(max).nullable().optional();
+
+const billingProfileSchema = z.object({
+  legalName: optionalText(200),
+  gstin: z
+    .string()
+    .trim()
+    .toUpperCase()
+    .length(15, 'GSTIN must be 15 characters')
+    .nullable()
+    .optional(),
+  addressLine1: optionalText(200),
+  addressLine2: optionalText(200),
+  city: optionalText(100),
+  stateCode: z
+    .string()
+    .regex(/^\d{2}$/, 'Use the 2-digit GST state code')
+    .nullable()
+    .optional(),
+  postalCode: optionalText(10),
+  country: z.string().trim().toUpperCase().length(2).optional(),
+});
+
+const INVOICE_ERROR_STATUS: Record<InvoiceErrorReason, number> = {
+  not_found: 404,
+  not_invoiceable: 409,
+  invalid_gstin: 400,
+  invalid_state: 400,
+  pdf_unavailable: 503,
+};
+
+function sendInvoiceFailure(
+  res: Response,
+  result: { error?: string; reason?: InvoiceErrorReason }
+): void {
+  res.status(result.reason ? INVOICE_ERROR_STATUS[result.reason] : 500).json({
+    success: false,
+    message: result.error || 'Invoice request failed',
+    reason: result.reason,
+  });
+}
+
+// ==========================================
+// INVOICE CONTROLLER CLASS
+// ==========================================
+
+class InvoiceController {
+  /**
+   * List the user's invoices, newest first
+   * GET /api/billing/invoices?page=&limit=
+   */
+  public listInvoices = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized - User not authenticated',
+        });
+        return;
+      }
+
+      const page = Math.max(parseInt(String(req.query.page || 1)) || 1, 1);
+      const limit = Math.min(
+        Math.max(parseInt(String(req.query.limit || 20)) || 20, 1),
+        MAX_PAGE_SIZE
+      );
+
+      const result = await invoiceService.listInvoices(userId, page, limit);
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (error: any) {
+      console.error('Error listing invoices:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to fetch invoices',
+      });
+    }
+  };
+
+  /**
+   * GET /api/billing/invoices/:id
+   */
+  public getInvoice = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized - User not authenticated',
+        });
+        return;
+      }
+
+      const invoice = await invoiceService.getInvoice(userId, String(req.params.id));
+      if (!invoice) {
+        sendInvoiceFailure(res, { error: 'Invoice not found', reason: 'not_found' });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: invoice,
+      });
+    } catch (error: any) {
+      console.error('Error fetching invoice:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to fetch invoice',
+      });
+    }
+  };
+
+  /**
+   * GET /api/billing/invoices/:id/pdf
+   */
+  public downloadPdf = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized - User not authenticated',
+        });
+        return;
+      }
+
+      const result = await invoiceService.getInvoicePdf(userId, String(req.params.id));
+      if (!result.success || !result.filePath) {
+        sendInvoiceFailure(res, result);
+        return;
+      }
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${result.fileName}"`);
+      res.setHeader('Cache-Control', 'private, no-store');
+
+      fs.createReadStream(result.filePath)
+        .on('error', (error) => {
+          console.error('Invoice PDF stream error:', error.message);
+          res.destroy(error);
+        })
+        .pipe(res);
+    } catch (error: any) {
+      console.error('Error downloading invoice:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to download invoice',
+      });
+    }
+  };
+
+  /**
+   * GET /api/billing/settings
+   */
+  public getBillingSettings = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized - User not authenticated',
+        });
+        return;
+      }
+
+      const profile = await invoiceService.getBillingProfile(userId);
+
+      res.status(200).json({
+        success: true,
+        data: profile,
+      });
+    } catch (error: any) {
+      console.error('Error fetching billing settings:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to fetch billing settings',
+      });
+    }
+  };
+
+  /**
+   * Buyer details (GSTIN, address) for future invoices. null clears a field.
+   * PUT /api/billing/settings
+   */
+  public updateBillingSettings = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized - User not authenticated',
+        });
+        return;
+      }
+
+      const body = billingProfileSchema.parse(req.body);
+      const result = await invoiceService.updateBillingProfile(userId, body);
+
+      if (!result.success) {
+        sendInvoiceFailure(res, result);
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Billing settings updated. They apply to invoices issued from now on',
+        data: result.profile,
+      });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: error.issues,
+        });
+        return;
+      }
+
+      console.error('Error updating billing settings:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to update billing settings',
+      });
+    }
+  };
+}
+
+// ==========================================
+// EXPORT SINGLETON INSTANCE
+// ==========================================
+
+const invoiceController = new InvoiceController();
+export default invoiceController;
@@ -0,0 +1,560 @@
+// src/modules/billing/invoice.service.ts
+
+/**
+ * ==========================================
+ * INVOICE SERVICE - GST INVOICES & RECEIPTS
+ * ==========================================
+ * One document per paid transaction (plan orders, addon boosters, gateway
+ * renewals):
+ *
+ * - INR with a seller GSTIN configured → tax invoice with CGST + SGST
+ *   (buyer in the seller's state) or IGST (other states)
+ * - Everything else (USD / exports, no seller GSTIN) → payment receipt
+ *
+ * Plan prices are GST-inclusive; the taxable value is backed out of the
+ * amount paid. Numbers are consecutive per series and financial year
+ * (SOR/26-27/00001), allocated in the same DB transaction as the invoice
+ * so a failed insert leaves no gap. PDFs are rendered after issuing and
+ * retried by the "invoice-backfill" job.
+ *
+ * Env: INVOICE_SELLER_NAME, INVOICE_SELLER_GSTIN, INVOICE_SELLER_ADDRESS,
+ *      GST_RATE (default 18), INVOICE_SAC_CODE (default 998439),
+ *      INVOICE_DIR (default ./invoices)
+ * Last Updated: October 18, 2026
+ * ==========================================
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { BillingProfile, Invoice, Prisma, Transaction } from '@prisma/client';
+import { prisma } from '../../config/prisma';
+import { logger } from '@shared/utils/logger';
+import { PAYMENT_GATEWAY_PROVIDERS } from '../../services/payments';
+import { pdfGeneratorService } from '../document-templates/pdf-generator.service';
+import { GSTUtil } from './utils/gst.util';
+import { renderInvoiceHtml } from './invoice.template';
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// TYPES & CONSTANTS
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export type InvoiceDocumentType = 'tax_invoice' | 'receipt';
+
+export type InvoiceErrorReason =
+  | 'not_found'
+  | 'not_invoiceable'
+  | 'invalid_gstin'
+  | 'invalid_state'
+  | 'pdf_unavailable';
+
+const SERIES_PREFIX: Record<InvoiceDocumentType, string> = {
+  tax_invoice: 'SOR',
+  receipt: 'SRC',
+};
+
+// Transactions that represent money received
+const PAID_STATUSES = ['success', 'refunded', 'partially_refunded'];
+
+const BACKFILL_WINDOW_DAYS = 30;
+const BACKFILL_BATCH_SIZE = 25;
+const ISSUE_ATTEMPTS = 3;
+
+const getInvoiceDir = () => process.env.INVOICE_DIR || './invoices';
+
+export interface BillingProfileInput {
+  legalName?: string | null;
+  gstin?: string | null;
+  addressLine1?: string | null;
+  addressLine2?: string | null;
+  city?: string | null;
+  stateCode?: string | null;
+  postalCode?: string | null;
+  country?: string;
+}
+
+export interface BillingProfileResult {
+  success: boolean;
+  error?: string;
+  reason?: InvoiceErrorReason;
+  profile?: BillingProfile;
+}
+
+export interface InvoiceIssueResult {
+  success: boolean;
+  error?: string;
+  reason?: InvoiceErrorReason;
+  invoice?: Invoice;
+  alreadyIssued?: boolean;
+}
+
+export interface InvoicePdfResult {
+  success: boolean;
+  error?: string;
+  reason?: InvoiceErrorReason;
+  filePath?: string;
+  fileName?: string;
+}
+
+/** API shape - amounts in major units */
+export interface InvoiceSummary {
+  id: string;
+  invoiceNumber: string;
+  documentType: string;
+  financialYear: string;
+  issuedAt: Date;
+  description: string;
+  currency: string;
+  taxableAmount: number;
+  cgstAmount: number;
+  sgstAmount: number;
+  igstAmount: number;
+  totalAmount: number;
+  taxRate: number;
+  amountInWords: string;
+  hsnSac: string | null;
+  placeOfSupply: string | null;
+  buyerGstin: string | null;
+  transactionId: string | null;
+  /** Rendered on first download if the PDF is not stored yet */
+  pdfUrl: string;
+}
+
+type TransactionForInvoice = Transaction & {
+  invoice: Invoice | null;
+  user: {
+    email: string;
+    name: string | null;
+    homeState: string | null;
+    currentState: string | null;
+    billingProfile: BillingProfile | null;
+  };
+};
+
+export class InvoiceService {
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // BILLING PROFILE
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  async getBillingProfile(userId: string): Promise<BillingProfile | null> {
+    return prisma.billingProfile.findUnique({ where: { userId } });
+  }
+
+  /**
+   * Save the buyer details printed on future invoices. A GSTIN fixes the
+   * state (its first two digits).
+   */
+  async updateBillingProfile(
+    userId: string,
+    input: BillingProfileInput
+  ): Promise<BillingProfileResult> {
+    const data: BillingProfileInput = { ...input };
+
+    if (data.gstin) {
+      data.gstin = data.gstin.toUpperCase();
+      if (!GSTUtil.isValidGstin(data.gstin)) {
+        return { success: false, error: 'Invalid GSTIN', reason: 'invalid_gstin' };
+      }
+
+      const gstinState = GSTUtil.getStateCode(data.gstin);
+      if (data.stateCode && data.stateCode !== gstinState) {
+        return {
+          success: false,
+          error: `State does not match the GSTIN (state code ${gstinState})`,
+          reason: 'invalid_state',
+        };
+      }
+      data.stateCode = gstinState;
+    }
+
+    if (data.stateCode && !GSTUtil.getStateName(data.stateCode)) {
+      return { success: false, error: 'Unknown GST state code', reason: 'invalid_state' };
+    }
+
+    const profile = await prisma.billingProfile.upsert({
+      where: { userId },
+      create: { userId, ...data },
+      update: data,
+    });
+
+    return { success: true, profile };
+  }
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // ISSUING
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  /**
+   * Issue (and render) the invoice without holding up the payment flow.
+   * Anything missed here is picked up by processPending().
+   */
+  issueInBackground(transactionId: string): void {
+    void (async () => {
+      const result = await this.issueForTransaction(transactionId);
+      if (result.invoice && !result.invoice.pdfPath) {
+        await this.renderPdf(result.invoice.id);
+      }
+    })().catch((error) => {
+      logger.error('[InvoiceService] Background invoicing failed', error, { transactionId });
+    });
+  }
+
+  /**
+   * Issue the invoice for a paid transaction. Idempotent: a transaction
+   * has at most one invoice.
+   */
+  async issueForTransaction(transactionId: string): Promise<InvoiceIssueResult> {
+    const transaction = await prisma.transaction.findUnique({
+      where: { id: transactionId },
+      include: {
+        invoice: true,
+        user: {
+          select: {
+            email: true,
+            name: true,
+            homeState: true,
+            currentState: true,
+            billingProfile: true,
+          },
+        },
+      },
+    });
+
+    if (!transaction) {
+      return { success: false, error: 'Transaction not found', reason: 'not_found' };
+    }
+    if (transaction.invoice) {
+      return { success: true, invoice: transaction.invoice, alreadyIssued: true };
+    }
+    if (!this.isInvoiceable(transaction)) {
+      return {
+        success: false,
+        error: 'Only paid transactions are invoiced',
+        reason: 'not_invoiceable',
+      };
+    }
+
+    const data = this.buildInvoiceData(transaction);
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const invoice = await this.createNumbered(data);
+        logger.info(`[InvoiceService] Issued ${invoice.invoiceNumber}`, { transactionId });
+        return { success: true, invoice };
+      } catch (error) {
+        if (!(error instanceof Prisma.PrismaClientKnownRequestError) || error.code !== 'P2002') {
+          throw error;
+        }
+
+        // Issued concurrently for this transaction
+        const existing = await prisma.invoice.findUnique({ where: { transactionId } });
+        if (existing) {
+          return { success: true, invoice: existing, alreadyIssued: true };
+        }
+        // Otherwise two first-of-the-year sequence rows raced; try again
+        if (attempt >= ISSUE_ATTEMPTS) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  /**
+   * Render the PDF, store it and link it on the transaction
+   */
+  async renderPdf(invoiceId: string): Promise<InvoicePdfResult> {
+    const invoice = await prisma.invoice.findUnique({ where: { id: invoiceId } });
+    if (!invoice) {
+      return { success: false, error: 'Invoice not found', reason: 'not_found' };
+    }
+
+    const result = await pdfGeneratorService.generateFromHTML(renderInvoiceHtml(invoice), {
+      margin: { top: '14mm', right: '12mm', bottom: '14mm', left: '12mm' },
+    });
+
+    if (!result.success || !result.buffer) {
+      await prisma.invoice.update({
+        where: { id: invoice.id },
+        data: { pdfError: result.error || 'PDF generation failed' },
+      });
+      logger.warn(`[InvoiceService] PDF for ${invoice.invoiceNumber} failed: ${result.error}`);
+      return { success: false, error: 'Invoice PDF not available', reason: 'pdf_unavailable' };
+    }
+
+    const directory = path.join(getInvoiceDir(), invoice.financialYear);
+    await fs.promises.mkdir(directory, { recursive: true });
+    const filePath = path.join(directory, this.getFileName(invoice));
+    await fs.promises.writeFile(filePath, result.buffer);
+
+    await prisma.invoice.update({
+      where: { id: invoice.id },
+      data: { pdfPath: filePath, pdfError: null },
+    });
+    if (invoice.transactionId) {
+      await prisma.transaction.update({
+        where: { id: invoice.transactionId },
+        data: { receiptUrl: this.getPdfUrl(invoice.id) },
+      });
+    }
+
+    return { success: true, filePath, fileName: this.getFileName(invoice) };
+  }
+
+  /**
+   * Scheduled job: invoice recent paid transactions that have none and
+   * retry PDFs that failed to render
+   */
+  async processPending(): Promise<{ issued: number; rendered: number; failed: number }> {
+    const since = new Date(Date.now() - BACKFILL_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+    let issued = 0;
+    let rendered = 0;
+    let failed = 0;
+
+    const uninvoiced = await prisma.transaction.findMany({
+      where: {
+        invoice: { is: null },
+        amount: { gt: 0 },
+        status: { in: PAID_STATUSES },
+        paymentGateway: { in: [...PAYMENT_GATEWAY_PROVIDERS] },
+        createdAt: { gte: since },
+      },
+      select: { id: true },
+      orderBy: { createdAt: 'asc' },
+      take: BACKFILL_BATCH_SIZE,
+    });
+
+    for (const { id } of uninvoiced) {
+      try {
+        const result = await this.issueForTransaction(id);
+        if (result.success && !result.alreadyIssued) {
+          issued++;
+        }
+      } catch (error) {
+        failed++;
+        logger.error('[InvoiceService] Backfill issue failed', error, { transactionId: id });
+      }
+    }
+
+    const unrendered = await prisma.invoice.findMany({
+      where: { pdfPath: null },
+      select: { id: true },
+      orderBy: { issuedAt: 'asc' },
+      take: BACKFILL_BATCH_SIZE,
+    });
+
+    for (const { id } of unrendered) {
+      const result = await this.renderPdf(id).catch((error) => {
+        logger.error('[InvoiceService] Backfill render failed', error, { invoiceId: id });
+        return { success: false };
+      });
+      if (result.success) {
+        rendered++;
+      } else {
+        failed++;
+      }
+    }
+
+    return { issued, rendered, failed };
+  }
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // QUERIES
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  async listInvoices(userId: string, page: number = 1, limit: number = 20) {
+    const [invoices, total] = await Promise.all([
+      prisma.invoice.findMany({
+        where: { userId },
+        orderBy: { issuedAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.invoice.count({ where: { userId } }),
+    ]);
+
+    return {
+      invoices: invoices.map((invoice) => this.toSummary(invoice)),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  async getInvoice(userId: string, invoiceId: string): Promise<InvoiceSummary | null> {
+    const invoice = await prisma.invoice.findFirst({ where: { id: invoiceId, userId } });
+    return invoice ? this.toSummary(invoice) : null;
+  }
+
+  /**
+   * Stored PDF for download; rendered on demand if it is missing
+   */
+  async getInvoicePdf(userId: string, invoiceId: string): Promise<InvoicePdfResult> {
+    const invoice = await prisma.invoice.findFirst({ where: { id: invoiceId, userId } });
+    if (!invoice) {
+      return { success: false, error: 'Invoice not found', reason: 'not_found' };
+    }
+
+    if (invoice.pdfPath && fs.existsSync(invoice.pdfPath)) {
+      return { success: true, filePath: invoice.pdfPath, fileName: this.getFileName(invoice) };
+    }
+
+    return this.renderPdf(invoice.id);
+  }
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // HELPERS
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  private isInvoiceable(transaction: Transaction): boolean {
+    return (
+      transaction.amount > 0 &&
+      PAID_STATUSES.includes(transaction.status) &&
+      (PAYMENT_GATEWAY_PROVIDERS as readonly string[]).includes(transaction.paymentGateway || '')
+    );
+  }
+
+  /**
+   * Everything except the number: seller/buyer snapshot and tax split
+   */
+  private buildInvoiceData(
+    transaction: TransactionForInvoice
+  ): Omit<Prisma.InvoiceUncheckedCreateInput, 'invoiceNumber' | 'series' | 'sequence'> {
+    const sellerGstin = process.env.INVOICE_SELLER_GSTIN?.toUpperCase() || null;
+    const profile = transaction.user.billingProfile;
+    const documentType: InvoiceDocumentType =
+      transaction.currency === 'INR' && sellerGstin ? 'tax_invoice' : 'receipt';
+
+    const issuedAt = new Date();
+    const common = {
+      documentType,
+      financialYear: GSTUtil.getFinancialYear(issuedAt),
+      issuedAt,
+      transactionId: transaction.id,
+      userId: transaction.userId,
+      currency: transaction.currency,
+      totalAmount: transaction.amount,
+      amountInWords: GSTUtil.amountInWords(transaction.amount, transaction.currency),
+      description: this.describe(transaction),
+      sellerName: process.env.INVOICE_SELLER_NAME || 'Soriva AI',
+      sellerGstin,
+      sellerAddress: process.env.INVOICE_SELLER_ADDRESS || null,
+      buyerName: profile?.legalName || transaction.user.name || transaction.user.email,
+      buyerEmail: transaction.user.email,
+      buyerGstin: profile?.gstin || null,
+      buyerAddress: this.formatAddress(profile),
+    };
+
+    if (documentType === 'receipt') {
+      return { ...common, taxableAmount: transaction.amount };
+    }
+
+    const sellerState = GSTUtil.getStateCode(sellerGstin!);
+    // Unregistered buyer with no known address: place of supply is the supplier's location
+    const buyerState =
+      profile?.stateCode ||
+      GSTUtil.findStateCode(transaction.user.homeState) ||
+      GSTUtil.findStateCode(transaction.user.currentState) ||
+      sellerState;
+    const taxRate = parseFloat(process.env.GST_RATE || '18');
+
+    return {
+      ...common,
+      ...GSTUtil.splitInclusiveAmount(transaction.amount, taxRate, buyerState === sellerState),
+      taxRate,
+      hsnSac: process.env.INVOICE_SAC_CODE || '998439',
+      sellerStateCode: sellerState,
+      placeOfSupply: `${buyerState}-${GSTUtil.getStateName(buyerState)}`,
+    };
+  }
+
+  /**
+   * Take the next number of the series and create the invoice atomically
+   */
+  private async createNumbered(
+    data: Omit<Prisma.InvoiceUncheckedCreateInput, 'invoiceNumber' | 'series' | 'sequence'>
+  ): Promise<Invoice> {
+    const prefix = SERIES_PREFIX[data.documentType as InvoiceDocumentType];
+    // "2026-27" → "SOR/26-27"; full number stays within GST's 16 characters
+    const series = `${prefix}/${data.financialYear.slice(2)}`;
+
+    return prisma.$transaction(async (tx) => {
+      const { lastNumber } = await tx.invoiceSequence.upsert({
+        where: { series },
+        create: { series, lastNumber: 1 },
+        update: { lastNumber: { increment: 1 } },
+      });
+
+      return tx.invoice.create({
+        data: {
+          ...data,
+          series,
+          sequence: lastNumber,
+          invoiceNumber: `${series}/${String(lastNumber).padStart(5, '0')}`,
+        },
+      });
+    });
+  }
+
+  private describe(transaction: Transaction): string {
+    switch (transaction.type) {
+      case 'subscription':
+        return `Soriva ${transaction.planName} plan subscription`;
+      case 'subscription_renewal':
+        return `Soriva ${transaction.planName} plan renewal`;
+      case 'booster':
+        return `Soriva ${transaction.planName} addon booster`;
+      default:
+        return transaction.description || 'Soriva AI services';
+    }
+  }
+
+  private formatAddress(profile: BillingProfile | null): string | null {
+    if (!profile) {
+      return null;
+    }
+    const state = profile.stateCode ? GSTUtil.getStateName(profile.stateCode) : undefined;
+    const parts = [
+      profile.addressLine1,
+      profile.addressLine2,
+      profile.city,
+      [state, profile.postalCode].filter(Boolean).join(' '),
+    ].filter(Boolean);
+    return parts.length ? parts.join(', ') : null;
+  }
+
+  private getFileName(invoice: Invoice): string {
+    return `${invoice.invoiceNumber.replace(/[^A-Za-z0-9-]/g, '_')}.pdf`;
+  }
+
+  private getPdfUrl(invoiceId: string): string {
+    return `/api/billing/invoices/${invoiceId}/pdf`;
+  }
+
+  private toSummary(invoice: Invoice): InvoiceSummary {
+    return {
+      id: invoice.id,
+      invoiceNumber: invoice.invoiceNumber,
+      documentType: invoice.documentType,
+      financialYear: invoice.financialYear,
+      issuedAt: invoice.issuedAt,
+      description: invoice.description,
+      currency: invoice.currency,
+      taxableAmount: invoice.taxableAmount / 100,
+      cgstAmount: invoice.cgstAmount / 100,
+      sgstAmount: invoice.sgstAmount / 100,
+      igstAmount: invoice.igstAmount / 100,
+      totalAmount: invoice.totalAmount / 100,
+      taxRate: invoice.taxRate,
+      amountInWords: invoice.amountInWords,
+      hsnSac: invoice.hsnSac,
+      placeOfSupply: invoice.placeOfSupply,
+      buyerGstin: invoice.buyerGstin,
+      transactionId: invoice.transactionId,
+      pdfUrl: this.getPdfUrl(invoice.id),
+    };
+  }
+}
+
+export default new InvoiceService();
@@ -0,0 +1,136 @@
+// src/modules/billing/invoice.template.ts
+
+/**
+ * ==========================================
+ * INVOICE TEMPLATE - HTML FOR PDF RENDERING
+ * ==========================================
+ * Single-page A4 tax invoice / receipt, rendered to PDF by the
+ * document-templates PDF generator (Puppeteer)
+ * Last Updated: October 18, 2026
+ * ==========================================
+ */
+
+import { Invoice } from '@prisma/client';
+
+const DOCUMENT_TITLES: Record<string, string> = {
+  tax_invoice: 'Tax Invoice',
+  receipt: 'Payment Receipt',
+};
+
+function escapeHtml(value: string | null | undefined): string {
+  return (value || '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function formatMoney(minorAmount: number, currency: string): string {
+  return new Intl.NumberFormat(currency === 'INR' ? 'en-IN' : 'en-US', {
+    style: 'currency',
+    currency,
+  }).format(minorAmount / 100);
+}
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString('en-IN', {
+    day: '2-digit',
+    month: 'short',
+    year: 'numeric',
+    timeZone: 'Asia/Kolkata',
+  });
+}
+
+export function renderInvoiceHtml(invoice: Invoice): string {
+  const money = (amount: number) => escapeHtml(formatMoney(amount, invoice.currency));
+  const isTaxInvoice = invoice.documentType === 'tax_invoice';
+  const halfRate = invoice.taxRate / 2;
+
+  const taxRows = !isTaxInvoice
+    ? ''
+    : invoice.igstAmount > 0
+      ? `<tr><td>IGST @ ${invoice.taxRate}%</td><td class="num">${money(invoice.igstAmount)}</td></tr>`
+      : `<tr><td>CGST @ ${halfRate}%</td><td class="num">${money(invoice.cgstAmount)}</td></tr>
+         <tr><td>SGST @ ${halfRate}%</td><td class="num">${money(invoice.sgstAmount)}</td></tr>`;
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8" />
+<style>
+  body { font-family: Arial, Helvetica, sans-serif; font-size: 12px; color: #1f2937; margin: 0; }
+  h1 { font-size: 20px; margin: 0 0 4px; }
+  .header { display: flex; justify-content: space-between; border-bottom: 2px solid #111827; padding-bottom: 12px; }
+  .parties { display: flex; justify-content: space-between; margin: 16px 0; }
+  .party { width: 48%; }
+  .label { color: #6b7280; font-size: 10px; text-transform: uppercase; letter-spacing: 0.5px; }
+  table { width: 100%; border-collapse: collapse; margin-top: 8px; }
+  th, td { padding: 6px 8px; border-bottom: 1px solid #e5e7eb; text-align: left; }
+  th { background: #f3f4f6; font-size: 11px; }
+  .num { text-align: right; }
+  .totals { width: 50%; margin-left: auto; }
+  .grand td { font-weight: bold; border-top: 2px solid #111827; }
+  .words { margin-top: 12px; font-style: italic; }
+  .footer { margin-top: 32px; color: #6b7280; font-size: 10px; }
+</style>
+</head>
+<body>
+  <div class="header">
+    <div>
+      <h1>${DOCUMENT_TITLES[invoice.documentType] || 'Invoice'}</h1>
+      <div><strong>${escapeHtml(invoice.sellerName)}</strong></div>
+      <div>${escapeHtml(invoice.sellerAddress)}</div>
+      ${invoice.sellerGstin ? `<div>GSTIN: ${escapeHtml(invoice.sellerGstin)}</div>` : ''}
+    </div>
+    <div class="num">
+      <div class="label">Number</div>
+      <div><strong>${escapeHtml(invoice.invoiceNumber)}</strong></div>
+      <div class="label">Date</div>
+      <div>${formatDate(invoice.issuedAt)}</div>
+      ${invoice.placeOfSupply ? `<div class="label">Place of supply</div><div>${escapeHtml(invoice.placeOfSupply)}</div>` : ''}
+    </div>
+  </div>
+
+  <div class="parties">
+    <div class="party">
+      <div class="label">Billed to</div>
+      <div><strong>${escapeHtml(invoice.buyerName)}</strong></div>
+      ${invoice.buyerAddress ? `<div>${escapeHtml(invoice.buyerAddress)}</div>` : ''}
+      ${invoice.buyerEmail ? `<div>${escapeHtml(invoice.buyerEmail)}</div>` : ''}
+      ${invoice.buyerGstin ? `<div>GSTIN: ${escapeHtml(invoice.buyerGstin)}</div>` : ''}
+    </div>
+  </div>
+
+  <table>
+    <thead>
+      <tr>
+        <th>Description</th>
+        ${isTaxInvoice ? '<th>HSN/SAC</th>' : ''}
+        <th class="num">Qty</th>
+        <th class="num">${isTaxInvoice ? 'Taxable value' : 'Amount'}</th>
+      </tr>
+    </thead>
+    <tbody>
+      <tr>
+        <td>${escapeHtml(invoice.description)}</td>
+        ${isTaxInvoice ? `<td>${escapeHtml(invoice.hsnSac)}</td>` : ''}
+        <td class="num">1</td>
+        <td class="num">${money(invoice.taxableAmount)}</td>
+      </tr>
+    </tbody>
+  </table>
+
+  <table class="totals">
+    ${isTaxInvoice ? `<tr><td>Taxable value</td><td class="num">${money(invoice.taxableAmount)}</td></tr>` : ''}
+    ${taxRows}
+    <tr class="grand"><td>Total</td><td class="num">${money(invoice.totalAmount)}</td></tr>
+  </table>
+
+  <div class="words">Amount in words: ${escapeHtml(invoice.amountInWords)}</div>
+
+  <div class="footer">
+    ${isTaxInvoice ? 'Tax is not payable on reverse charge basis. ' : ''}This is a computer-generated document and does not require a signature.
+  </div>
+</body>
+</html>`;
+}
@@ -0,0 +1,226 @@
+// src/modules/billing/payment.controller.ts
+
+/**
+ * ==========================================
+ * PAYMENT CONTROLLER
+ * ==========================================
+ * Gateway orders, checkout confirmation and gateway webhooks
+ * Last Updated: October 18, 2026
+ *
+ * ENDPOINTS:
+ * - POST /api/billing/payments/orders             → Create gateway order
+ * - POST /api/billing/payments/verify             → Confirm checkout + fulfil
+ * - POST /api/billing/payments/webhooks/:gateway  → Gateway webhooks (public)
+ * ==========================================
+ */
+
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import paymentService, {
+  PaymentConfirmResult,
+  PaymentErrorReason,
+  PaymentOrderResult,
+} from './payment.service';
+import { isPaymentGatewayProvider } from '../../services/payments';
+
+// ==========================================
+// VALIDATION & STATUS MAPPING
+// ==========================================
+
+const createOrderSchema = z
+  .object({
+    purpose: z.enum(['subscription', 'addon_booster']),
+    planName: z.string().trim().toUpperCase().optional(),
+    couponCode: z.string().trim().min(1).max(32).optional(),
+  })
+  .refine((body) => body.purpose !== 'subscription' || !!body.planName, {
+    message: 'planName is required for subscription orders',
+    path: ['planName'],
+  });
+
+export const confirmPaymentSchema = z.object({
+  gatewayOrderId: z.string().trim().min(1).max(255),
+  gatewayPaymentId: z.string().trim().min(1).max(255).optional(),
+  gatewaySignature: z.string().trim().min(1).max(512).optional(),
+});
+
+export const PAYMENT_ERROR_STATUS: Record<PaymentErrorReason, number> = {
+  user_not_found: 404,
+  invalid_plan: 400,
+  no_payment_required: 400,
+  invalid_coupon: 400,
+  not_available: 409,
+  order_not_found: 404,
+  purpose_mismatch: 400,
+  order_closed: 409,
+  verification_failed: 402,
+  gateway_error: 502,
+  fulfilment_failed: 500,
+  invalid_signature: 400,
+  processing_failed: 500,
+};
+
+export function sendPaymentFailure(
+  res: Response,
+  result: Pick<PaymentConfirmResult, 'error' | 'reason' | 'transactionId'> &
+    Pick<PaymentOrderResult, 'couponReason'>
+): void {
+  res.status(result.reason ? PAYMENT_ERROR_STATUS[result.reason] : 500).json({
+    success: false,
+    message: result.error || 'Payment failed',
+    reason: result.reason,
+    couponReason: result.couponReason,
+    transactionId: result.transactionId,
+  });
+}
+
+// ==========================================
+// PAYMENT CONTROLLER CLASS
+// ==========================================
+
+class PaymentController {
+  /**
+   * Create a gateway order for a plan change or addon booster
+   * POST /api/billing/payments/orders
+   */
+  public createOrder = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized - User not authenticated',
+        });
+        return;
+      }
+
+      const body = createOrderSchema.parse(req.body);
+      const result = await paymentService.createOrder(userId, {
+        purpose: body.purpose,
+        planName: body.planName,
+        couponCode: body.couponCode,
+      });
+
+      if (!result.success) {
+        sendPaymentFailure(res, result);
+        return;
+      }
+
+      res.status(201).json({
+        success: true,
+        message: 'Order created. Complete checkout with the gateway, then confirm the payment',
+        data: result.order,
+      });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: error.issues,
+        });
+        return;
+      }
+
+      console.error('Error creating payment order:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to create payment order',
+      });
+    }
+  };
+
+  /**
+   * Confirm a completed checkout and apply the purchase
+   * POST /api/billing/payments/verify
+   */
+  public confirmPayment = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized - User not authenticated',
+        });
+        return;
+      }
+
+      const body = confirmPaymentSchema.parse(req.body);
+      const result = await paymentService.confirmPayment(userId, body);
+
+      if (!result.success) {
+        sendPaymentFailure(res, result);
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: result.alreadyProcessed ? 'Payment already processed' : 'Payment confirmed',
+        data: {
+          transactionId: result.transactionId,
+          purpose: result.purpose,
+          alreadyProcessed: !!result.alreadyProcessed,
+          ...(result.fulfilment || {}),
+        },
+      });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: error.issues,
+        });
+        return;
+      }
+
+      console.error('Error confirming payment:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to confirm payment',
+      });
+    }
+  };
+
+  /**
+   * Gateway webhook - authenticated by the gateway's signature, not a JWT.
+   * Non-2xx makes the gateway redeliver.
+   * POST /api/billing/payments/webhooks/:gateway
+   */
+  public handleWebhook = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const gateway = String(req.params.gateway);
+      if (!isPaymentGatewayProvider(gateway)) {
+        res.status(404).json({
+          success: false,
+          message: 'Unknown payment gateway',
+        });
+        return;
+      }
+
+      const result = await paymentService.handleWebhook(gateway, req.rawBody, req.headers);
+
+      if (!result.success) {
+        sendPaymentFailure(res, result);
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        received: true,
+        duplicate: !!result.duplicate,
+      });
+    } catch (error: any) {
+      console.error('Error handling payment webhook:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to process webhook',
+      });
+    }
+  };
+}
+
+// ==========================================
+// EXPORT SINGLETON INSTANCE
+// ==========================================
+
+const paymentController = new PaymentController();
+export default paymentController;
@@ -0,0 +1,724 @@
+// src/modules/billing/payment.service.ts
+
+/**
+ * ==========================================
+ * PAYMENT SERVICE - GATEWAY ORDERS & WEBHOOKS
+ * ==========================================
+ * Server-side checkout for paid plans and addon boosters:
+ *
+ * 1. createOrder     - prices the purchase on the server (regional price
+ *                      or plan-change quote), opens a gateway order and a
+ *                      'pending' transaction holding it
+ * 2. confirmPayment  - client returns from checkout; the gateway verifies
+ *                      (Razorpay/fake: HMAC signature, Stripe: intent
+ *                      lookup) and the order is fulfilled
+ * 3. handleWebhook   - payment captured/failed/refunded and subscription
+ *                      renewals, de-duplicated by gateway event id
+ *
+ * Fulfilment runs once per order: the pending → success claim is atomic,
+ * so a client confirmation racing the captured webhook cannot grant twice.
+ * Region IN pays through Razorpay, INTL through Stripe (PAYMENT_GATEWAY
+ * overrides, e.g. "fake" for local tests).
+ *
+ * A coupon code discounts the order price; it is kept on the order and
+ * redeemed when the order is fulfilled. A fulfilled order also settles a
+ * pending referral (see ReferralService).
+ *
+ * Order transactions store amounts in minor units (paise/cents).
+ * Last Updated: October 18, 2026
+ * ==========================================
+ */
+
+import { Currency, Prisma, Region, Transaction } from '@prisma/client';
+import { prisma } from '../../config/prisma';
+import { plansManager } from '../../constants';
+import { logger } from '@shared/utils/logger';
+import {
+  createPaymentGateway,
+  getPaymentGatewayProvider,
+  GatewayOrder,
+  PaymentGateway,
+  PaymentGatewayProvider,
+  PaymentWebhookEvent,
+  WebhookHeaders,
+} from '../../services/payments';
+import subscriptionService from './subscription.service';
+import boosterService from './booster.service';
+import billingService from './billing.service';
+import invoiceService from './invoice.service';
+import couponService, { CouponErrorReason } from './coupon.service';
+import referralService from './referral.service';
+import { BoosterStatus } from './booster.types';
+import { PaymentPurpose, VerifiedPayment } from './payment.types';
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// TYPES & CONSTANTS
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const TRANSACTION_STATUS = {
+  PENDING: 'pending',
+  SUCCESS: 'success',
+  REFUNDED: 'refunded',
+  PARTIALLY_REFUNDED: 'partially_refunded',
+} as const;
+
+// A webhook stuck in 'processing' this long (crash mid-way) may be retried
+const STALE_WEBHOOK_MS = 10 * 60 * 1000;
+
+export type PaymentErrorReason =
+  | 'user_not_found'
+  | 'invalid_plan'
+  | 'no_payment_required'
+  | 'invalid_coupon'
+  | 'not_available'
+  | 'order_not_found'
+  | 'purpose_mismatch'
+  | 'order_closed'
+  | 'verification_failed'
+  | 'gateway_error'
+  | 'fulfilment_failed'
+  | 'invalid_signature'
+  | 'processing_failed';
+
+export interface CreateOrderInput {
+  purpose: PaymentPurpose;
+  /** Target plan (purpose "subscription") */
+  planName?: string;
+  couponCode?: string;
+}
+
+export interface ConfirmPaymentInput {
+  gatewayOrderId: string;
+  gatewayPaymentId?: string;
+  gatewaySignature?: string;
+}
+
+export interface PaymentOrderResult {
+  success: boolean;
+  error?: string;
+  reason?: PaymentErrorReason;
+  /** Why the coupon was refused (reason "invalid_coupon") */
+  couponReason?: CouponErrorReason;
+  order?: {
+    transactionId: string;
+    purpose: PaymentPurpose;
+    planName?: string;
+    gateway: PaymentGatewayProvider;
+    gatewayOrderId: string;
+    amount: number;
+    currency: string;
+    couponCode?: string;
+    discount?: number;
+    /** Passed to the gateway's checkout widget */
+    checkout: Record<string, string>;
+  };
+}
+
+export interface PaymentConfirmResult {
+  success: boolean;
+  error?: string;
+  reason?: PaymentErrorReason;
+  transactionId?: string;
+  purpose?: PaymentPurpose;
+  /** Fulfilled earlier (webhook or a previous confirmation) */
+  alreadyProcessed?: boolean;
+  /** Result of the plan change / booster purchase */
+  fulfilment?: any;
+}
+
+export interface PaymentWebhookResult {
+  success: boolean;
+  error?: string;
+  reason?: PaymentErrorReason;
+  duplicate?: boolean;
+  eventType?: string;
+}
+
+type WebhookOutcome = 'processed' | 'ignored' | 'needs_review';
+
+export class PaymentService {
+  private gateways = new Map<PaymentGatewayProvider, PaymentGateway>();
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // ORDERS
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  /**
+   * Price the purchase server-side and open a gateway order for it
+   */
+  async createOrder(userId: string, input: CreateOrderInput): Promise<PaymentOrderResult> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { planType: true, region: true, currency: true },
+    });
+
+    if (!user) {
+      return { success: false, error: 'User not found', reason: 'user_not_found' };
+    }
+
+    const region = user.region || Region.IN;
+    let amount: number;
+    let currency: string;
+    let planName: string;
+    let boosterType: string | undefined;
+    let description: string;
+    let discount = 0;
+    let couponCode: string | undefined;
+
+    if (input.purpose === 'subscription') {
+      if (!input.planName || !plansManager.getPlanByName(input.planName)) {
+        return { success: false, error: 'Invalid plan selected', reason: 'invalid_plan' };
+      }
+
+      const quote = await subscriptionService.getPlanChangeQuote(
+        userId,
+        input.planName,
+        input.couponCode
+      );
+      if (!quote) {
+        return { success: false, error: 'User not found', reason: 'user_not_found' };
+      }
+      if (quote.couponError) {
+        return {
+          success: false,
+          error: quote.couponError.error,
+          reason: 'invalid_coupon',
+          couponReason: quote.couponError.reason,
+        };
+      }
+      if (quote.amount <= 0) {
+        return {
+          success: false,
+          error: `Switching to ${input.planName} does not need a payment`,
+          reason: 'no_payment_required',
+        };
+      }
+
+      amount = quote.amount;
+      currency = quote.currency;
+      planName = input.planName;
+      discount = Math.round(quote.preview.discount * 100);
+      couponCode = quote.preview.couponCode ?? undefined;
+      description = `${user.planType} → ${planName} plan payment - ${region} region`;
+    } else {
+      const availability = await boosterService.checkAddonAvailability(userId, region);
+      if (!availability.eligible || !availability.boosterDetails?.canPurchase) {
+        return {
+          success: false,
+          error:
+            availability.naturalMessage || availability.reason || 'Addon booster not available',
+          reason: 'not_available',
+        };
+      }
+
+      amount = availability.boosterDetails.price;
+      currency = region === Region.INTL ? Currency.USD : Currency.INR;
+      planName = user.planType;
+      boosterType = `${user.planType}_addon`;
+
+      if (input.couponCode) {
+        const check = await couponService.evaluate(userId, input.couponCode, {
+          purpose: 'addon_booster',
+          planName,
+          region,
+          currency,
+          amount: Math.round(amount * 100),
+        });
+        if (!check.success) {
+          return {
+            success: false,
+            error: check.error,
+            reason: 'invalid_coupon',
+            couponReason: check.reason,
+          };
+        }
+        discount = check.coupon!.discount;
+        couponCode = check.coupon!.code;
+        amount = (Math.round(amount * 100) - discount) / 100;
+      }
+
+      description = `${user.planType} addon booster payment - ${region} region`;
+    }
+
+    const provider = getPaymentGatewayProvider(region);
+
+    // The pending transaction id doubles as the gateway receipt
+    const transaction = await prisma.transaction.create({
+      data: {
+        userId,
+        type: input.purpose === 'subscription' ? 'subscription' : 'booster',
+        amount: Math.round(amount * 100),
+        currency,
+        status: TRANSACTION_STATUS.PENDING,
+        planName,
+        boosterType,
+        paymentGateway: provider,
+        region,
+        gatewayMetadata: couponCode
+          ? { purpose: input.purpose, couponCode, discount }
+          : { purpose: input.purpose },
+        description,
+      },
+    });
+
+    let gatewayOrder: GatewayOrder;
+    try {
+      gatewayOrder = await this.getGateway(provider).createOrder({
+        amount,
+        currency,
+        receipt: transaction.id,
+        notes: { userId, purpose: input.purpose, planName },
+      });
+    } catch (error: any) {
+      await prisma.transaction.delete({ where: { id: transaction.id } });
+      logger.error('[PaymentService] Gateway order failed', error, { userId, provider });
+      return { success: false, error: 'Payment gateway unavailable', reason: 'gateway_error' };
+    }
+
+    await prisma.transaction.update({
+      where: { id: transaction.id },
+      data: { gatewayOrderId: gatewayOrder.orderId },
+    });
+
+    return {
+      success: true,
+      order: {
+        transactionId: transaction.id,
+        purpose: input.purpose,
+        planName: input.purpose === 'subscription' ? planName : undefined,
+        gateway: provider,
+        gatewayOrderId: gatewayOrder.orderId,
+        amount,
+        currency,
+        couponCode,
+        discount: couponCode ? discount / 100 : undefined,
+        checkout: gatewayOrder.checkout,
+      },
+    };
+  }
+
+  /**
+   * Verify a checkout result with the gateway and fulfil the order.
+   * Safe to repeat: a fulfilled order reports alreadyProcessed.
+   */
+  async confirmPayment(
+    userId: string,
+    input: ConfirmPaymentInput,
+    expectedPurpose?: PaymentPurpose
+  ): Promise<PaymentConfirmResult> {
+    const transaction = await prisma.transaction.findFirst({
+      where: { userId, gatewayOrderId: input.gatewayOrderId },
+    });
+
+    if (!transaction) {
+      return { success: false, error: 'Order not found', reason: 'order_not_found' };
+    }
+
+    const purpose = this.getPurpose(transaction);
+    if (expectedPurpose && purpose !== expectedPurpose) {
+      return {
+        success: false,
+        error: `This order is not for ${expectedPurpose === 'subscription' ? 'a plan change' : 'an addon booster'}`,
+        reason: 'purpose_mismatch',
+      };
+    }
+
+    if (transaction.status === TRANSACTION_STATUS.SUCCESS) {
+      return { success: true, alreadyProcessed: true, transactionId: transaction.id, purpose };
+    }
+    if (transaction.status !== TRANSACTION_STATUS.PENDING) {
+      return { success: false, error: `Order is ${transaction.status}`, reason: 'order_closed' };
+    }
+
+    let verification;
+    try {
+      verification = await this.getGateway(
+        transaction.paymentGateway as PaymentGatewayProvider
+      ).verifyPayment({
+        orderId: input.gatewayOrderId,
+        paymentId: input.gatewayPaymentId,
+        signature: input.gatewaySignature,
+      });
+    } catch (error: any) {
+      logger.error('[PaymentService] Payment verification failed', error, {
+        userId,
+        orderId: input.gatewayOrderId,
+      });
+      return { success: false, error: 'Payment gateway unavailable', reason: 'gateway_error' };
+    }
+
+    if (!verification.verified || !verification.paymentId) {
+      logger.warn(
+        `[PaymentService] Unverified payment for order ${input.gatewayOrderId}: ${verification.reason}`
+      );
+      return {
+        success: false,
+        error: verification.reason || 'Payment could not be verified',
+        reason: 'verification_failed',
+      };
+    }
+
+    return this.captureOrder(transaction, verification.paymentId, input.gatewaySignature);
+  }
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // WEBHOOKS
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  /**
+   * Verify and apply a gateway webhook. Deliveries are recorded by
+   * (gateway, event id); repeats are acknowledged without side effects and
+   * failed ones are retried on the gateway's next delivery.
+   */
+  async handleWebhook(
+    provider: PaymentGatewayProvider,
+    rawBody: Buffer | undefined,
+    headers: WebhookHeaders
+  ): Promise<PaymentWebhookResult> {
+    let event: PaymentWebhookEvent | null;
+    try {
+      event = rawBody ? this.getGateway(provider).parseWebhook(rawBody, headers) : null;
+    } catch (error: any) {
+      logger.warn(`[PaymentService] Unreadable ${provider} webhook: ${error.message}`);
+      event = null;
+    }
+
+    if (!event) {
+      return { success: false, error: 'Invalid webhook signature', reason: 'invalid_signature' };
+    }
+
+    const claimed = await this.claimWebhookEvent(event);
+    if (!claimed) {
+      return { success: true, duplicate: true, eventType: event.rawType };
+    }
+
+    try {
+      const outcome = await this.applyWebhookEvent(event);
+
+      await prisma.paymentWebhookEvent.update({
+        where: { gateway_eventId: { gateway: provider, eventId: event.id } },
+        data: { status: outcome, processedAt: new Date(), errorMessage: null },
+      });
+
+      return { success: true, eventType: event.rawType };
+    } catch (error: any) {
+      logger.error('[PaymentService] Webhook processing failed', error, {
+        provider,
+        eventId: event.id,
+        eventType: event.rawType,
+      });
+
+      await prisma.paymentWebhookEvent.update({
+        where: { gateway_eventId: { gateway: provider, eventId: event.id } },
+        data: { status: 'failed', errorMessage: String(error.message || error).slice(0, 500) },
+      });
+
+      return { success: false, error: 'Webhook processing failed', reason: 'processing_failed' };
+    }
+  }
+
+  /**
+   * Record the delivery; false when it was already handled (or is being
+   * handled right now)
+   */
+  private async claimWebhookEvent(event: PaymentWebhookEvent): Promise<boolean> {
+    try {
+      await prisma.paymentWebhookEvent.create({
+        data: {
+          gateway: event.provider,
+          eventId: event.id,
+          eventType: event.rawType,
+          orderId: event.orderId,
+          paymentId: event.paymentId,
+        },
+      });
+      return true;
+    } catch (error) {
+      if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) {
+        throw error;
+      }
+    }
+
+    const retry = await prisma.paymentWebhookEvent.updateMany({
+      where: {
+        gateway: event.provider,
+        eventId: event.id,
+        OR: [
+          { status: 'failed' },
+          { status: 'processing', receivedAt: { lt: new Date(Date.now() - STALE_WEBHOOK_MS) } },
+        ],
+      },
+      data: { status: 'processing', attempts: { increment: 1 } },
+    });
+
+    return retry.count === 1;
+  }
+
+  private async applyWebhookEvent(event: PaymentWebhookEvent): Promise<WebhookOutcome> {
+    switch (event.type) {
+      case 'payment.captured':
+        return this.onPaymentCaptured(event);
+      case 'payment.failed':
+        return this.onPaymentFailed(event);
+      case 'payment.refunded':
+        return this.onPaymentRefunded(event);
+      case 'subscription.renewed':
+        return this.onSubscriptionRenewed(event);
+      default:
+        return 'ignored';
+    }
+  }
+
+  /**
+   * Fulfils orders whose client never came back from checkout
+   */
+  private async onPaymentCaptured(event: PaymentWebhookEvent): Promise<WebhookOutcome> {
+    const transaction = event.orderId ? await this.findOrder(event.provider, event.orderId) : null;
+    if (!transaction || !event.paymentId) {
+      return 'ignored';
+    }
+
+    const result = await this.captureOrder(transaction, event.paymentId);
+    // Money was taken either way; a fulfilment failure is logged for support
+    return result.alreadyProcessed ? 'ignored' : 'processed';
+  }
+
+  /**
+   * A failed attempt leaves the order open (the user may retry checkout)
+   * but counts towards the failed-payment abuse limits
+   */
+  private async onPaymentFailed(event: PaymentWebhookEvent): Promise<WebhookOutcome> {
+    const transaction = event.orderId ? await this.findOrder(event.provider, event.orderId) : null;
+    if (!transaction) {
+      return 'ignored';
+    }
+
+    await billingService.recordFailedPayment(
+      transaction.userId,
+      `${event.provider} order ${event.orderId}: ${event.failureReason || 'payment failed'}`
+    );
+    return 'processed';
+  }
+
+  /**
+   * Marks the transaction refunded; a full refund also revokes what it paid for
+   */
+  private async onPaymentRefunded(event: PaymentWebhookEvent): Promise<WebhookOutcome> {
+    const paymentIds = [event.paymentId, event.orderId].filter((id): id is string => !!id);
+    const transaction = await prisma.transaction.findFirst({
+      where: {
+        paymentGateway: event.provider,
+        OR: [
+          { gatewayPaymentId: { in: paymentIds } },
+          ...(event.orderId ? [{ gatewayOrderId: event.orderId }] : []),
+        ],
+      },
+    });
+
+    if (!transaction || transaction.status === TRANSACTION_STATUS.REFUNDED) {
+      return 'ignored';
+    }
+
+    const refundedMinor = Math.round((event.refundedAmount ?? event.amount ?? 0) * 100);
+    const fullRefund = refundedMinor >= transaction.amount;
+
+    await prisma.transaction.update({
+      where: { id: transaction.id },
+      data: {
+        status: fullRefund ? TRANSACTION_STATUS.REFUNDED : TRANSACTION_STATUS.PARTIALLY_REFUNDED,
+        refundReason: `Refunded via ${event.provider} (${refundedMinor / 100} ${transaction.currency})`,
+      },
+    });
+
+    if (!fullRefund) {
+      return 'processed';
+    }
+
+    if (this.getPurpose(transaction) === 'addon_booster') {
+      await prisma.booster.updateMany({
+        where: { userId: transaction.userId, gatewayOrderId: transaction.gatewayOrderId },
+        data: { status: BoosterStatus.CANCELLED },
+      });
+    } else if (await this.isLatestPlanPayment(transaction)) {
+      const cancellation = await subscriptionService.cancelSubscription(transaction.userId, true);
+      if (!cancellation.success) {
+        logger.warn(`[PaymentService] Refund ${transaction.id}: ${cancellation.message}`);
+      }
+    }
+
+    logger.info(`[PaymentService] Transaction ${transaction.id} refunded, entitlement revoked`);
+    return 'processed';
+  }
+
+  private async onSubscriptionRenewed(event: PaymentWebhookEvent): Promise<WebhookOutcome> {
+    if (!event.subscriptionId || !event.paymentId) {
+      return 'ignored';
+    }
+
+    const result = await subscriptionService.renewFromGateway({
+      gateway: event.provider,
+      gatewaySubscriptionId: event.subscriptionId,
+      paymentId: event.paymentId,
+      amount: event.amount ?? 0,
+      currency: event.currency,
+      periodEnd: event.periodEnd,
+      userId: event.notes?.userId,
+      planName: event.notes?.planName,
+    });
+
+    if (!result.success) {
+      if (result.retryable) {
+        throw new Error(result.message);
+      }
+      // Money was taken: the charge is kept as a needs_review transaction
+      logger.warn(`[PaymentService] Renewal not applied: ${result.message}`);
+      return result.flagged ? 'needs_review' : 'ignored';
+    }
+
+    return result.duplicate ? 'ignored' : 'processed';
+  }
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // FULFILMENT
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  /**
+   * Atomically move the order pending → success, then grant the purchase.
+   * Only the caller that wins the claim fulfils.
+   */
+  private async captureOrder(
+    transaction: Transaction,
+    paymentId: string,
+    signature?: string
+  ): Promise<PaymentConfirmResult> {
+    const purpose = this.getPurpose(transaction);
+
+    let claimed;
+    try {
+      claimed = await prisma.transaction.updateMany({
+        where: { id: transaction.id, status: TRANSACTION_STATUS.PENDING },
+        data: {
+          status: TRANSACTION_STATUS.SUCCESS,
+          gatewayPaymentId: paymentId,
+          gatewaySignature: signature,
+        },
+      });
+    } catch (error) {
+      // The payment id is already attached to another order
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return { success: false, error: 'Payment already used', reason: 'verification_failed' };
+      }
+      throw error;
+    }
+
+    if (claimed.count === 0) {
+      return { success: true, alreadyProcessed: true, transactionId: transaction.id, purpose };
+    }
+
+    const payment: VerifiedPayment = {
+      transactionId: transaction.id,
+      gateway: transaction.paymentGateway as PaymentGatewayProvider,
+      orderId: transaction.gatewayOrderId!,
+      paymentId,
+      amount: transaction.amount / 100,
+      currency: transaction.currency,
+      couponCode: this.getCouponCode(transaction),
+    };
+
+    // The money is received either way; the invoice does not wait on fulfilment
+    invoiceService.issueInBackground(transaction.id);
+
+    const fulfilment =
+      purpose === 'subscription'
+        ? await subscriptionService.changePlan(transaction.userId, transaction.planName!, payment)
+        : await boosterService.purchaseAddonBooster({
+            userId: transaction.userId,
+            payment,
+            region: transaction.region,
+            currency: transaction.currency as Currency,
+          });
+
+    if (!fulfilment.success) {
+      logger.error(
+        '[PaymentService] Paid order not fulfilled - needs refund or manual grant',
+        undefined,
+        {
+          transactionId: transaction.id,
+          userId: transaction.userId,
+          reason: fulfilment.message,
+        }
+      );
+
+      await prisma.transaction.update({
+        where: { id: transaction.id },
+        data: {
+          gatewayMetadata: {
+            ...((transaction.gatewayMetadata as Record<string, unknown>) || {}),
+            fulfilmentError: fulfilment.message,
+          },
+        },
+      });
+
+      return {
+        success: false,
+        error: fulfilment.message || 'Payment received but the purchase could not be completed',
+        reason: 'fulfilment_failed',
+        transactionId: transaction.id,
+        purpose,
+      };
+    }
+
+    // After fulfilment, so a plan's fresh usage cycle does not wipe the bonus
+    referralService.rewardInBackground(transaction.id);
+
+    logger.info(`[PaymentService] Order ${payment.orderId} paid and fulfilled (${purpose})`);
+    return { success: true, transactionId: transaction.id, purpose, fulfilment };
+  }
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // HELPERS
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  private getGateway(provider: PaymentGatewayProvider): PaymentGateway {
+    let gateway = this.gateways.get(provider);
+    if (!gateway) {
+      gateway = createPaymentGateway(provider);
+      this.gateways.set(provider, gateway);
+    }
+    return gateway;
+  }
+
+  private findOrder(provider: PaymentGatewayProvider, gatewayOrderId: string) {
+    return prisma.transaction.findFirst({
+      where: { paymentGateway: provider, gatewayOrderId },
+    });
+  }
+
+  private getCouponCode(transaction: Transaction): string | undefined {
+    const metadata = transaction.gatewayMetadata as { couponCode?: string } | null;
+    return metadata?.couponCode;
+  }
+
+  private getPurpose(transaction: Transaction): PaymentPurpose {
+    const metadata = transaction.gatewayMetadata as { purpose?: PaymentPurpose } | null;
+    return metadata?.purpose || (transaction.type === 'booster' ? 'addon_booster' : 'subscription');
+  }
+
+  /**
+   * A refunded plan payment only ends the plan if nothing was paid after it
+   */
+  private async isLatestPlanPayment(transaction: Transaction): Promise<boolean> {
+    const newer = await prisma.transaction.count({
+      where: {
+        userId: transaction.userId,
+        type: { in: ['subscription', 'subscription_renewal'] },
+        status: TRANSACTION_STATUS.SUCCESS,
+        gatewayPaymentId: { not: null },
+        createdAt: { gt: transaction.createdAt },
+      },
+    });
+    return newer === 0;
+  }
+}
+
+export default new PaymentService();
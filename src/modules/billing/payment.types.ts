@@ -0,0 +1,68 @@
+// src/modules/billing/payment.types.ts
+
+/**
+ * ==========================================
+ * PAYMENT TYPES
+ * ==========================================
+ * Shared by PaymentService (orders, webhooks) and the services that
+ * fulfil a paid order (subscriptions, addon boosters)
+ * Last Updated: October 18, 2026
+ * ==========================================
+ */
+
+import { PaymentGatewayProvider } from '../../services/payments';
+
+declare module 'express-serve-static-core' {
+  interface Request {
+    /** Unparsed JSON body, kept for webhook signature checks */
+    rawBody?: Buffer;
+  }
+}
+
+export type PaymentPurpose = 'subscription' | 'addon_booster';
+
+/**
+ * A payment the gateway has confirmed (signature or webhook) and that is
+ * recorded as a successful transaction. Fulfilment trusts only this.
+ */
+export interface VerifiedPayment {
+  /** Our Transaction.id for the order */
+  transactionId: string;
+  gateway: PaymentGatewayProvider;
+  orderId: string;
+  paymentId: string;
+  amount: number;
+  currency: string;
+  /** Set when the gateway bills this plan as a recurring subscription */
+  gatewaySubscriptionId?: string;
+  /** Coupon the order was priced with; fulfilment re-checks and redeems it */
+  couponCode?: string;
+}
+
+/**
+ * Renewal charged by the gateway on a recurring subscription
+ */
+export interface GatewayRenewal {
+  gateway: PaymentGatewayProvider;
+  gatewaySubscriptionId: string;
+  paymentId: string;
+  amount: number;
+  currency?: string;
+  periodEnd?: Date;
+  /** From the gateway subscription's notes/metadata, to link it on first renewal */
+  userId?: string;
+  planName?: string;
+}
+
+export interface GatewayRenewalResult {
+  success: boolean;
+  message: string;
+  /** Already recorded (repeated delivery) */
+  duplicate?: boolean;
+  /** Not applied; kept for review (or, without an account, its gateway subscription cancelled) */
+  flagged?: boolean;
+  /** Failed on our side; the delivery should be retried */
+  retryable?: boolean;
+  subscriptionId?: string;
+  endDate?: Date;
+}
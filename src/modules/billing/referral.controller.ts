@@ -0,0 +1,131 @@
+// src/modules/billing/referral.controller.ts
+
+/**
+ * ==========================================
+ * REFERRAL CONTROLLER
+ * ==========================================
+ * Referral code, share link and rewards
+ * Last Updated: October 18, 2026
+ *
+ * ENDPOINTS:
+ * - GET  /api/billing/referrals       → Code, stats and referred users
+ * - POST /api/billing/referrals/apply → Use someone's code (before first payment)
+ * ==========================================
+ */
+
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import referralService, { ReferralErrorReason } from './referral.service';
+
+// ==========================================
+// VALIDATION & STATUS MAPPING
+// ==========================================
+
+const applyReferralSchema = z.object({
+  code: z.string().trim().min(4).max(16),
+});
+
+const REFERRAL_ERROR_STATUS: Record<ReferralErrorReason, number> = {
+  user_not_found: 404,
+  invalid_code: 404,
+  self_referral: 400,
+  already_referred: 409,
+  not_eligible: 409,
+};
+
+// ==========================================
+// REFERRAL CONTROLLER CLASS
+// ==========================================
+
+class ReferralController {
+  /**
+   * GET /api/billing/referrals
+   */
+  public getReferrals = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized - User not authenticated',
+        });
+        return;
+      }
+
+      const summary = await referralService.getSummary(userId);
+      if (!summary) {
+        res.status(404).json({
+          success: false,
+          message: 'User not found',
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: summary,
+      });
+    } catch (error: any) {
+      console.error('Error fetching referrals:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to fetch referrals',
+      });
+    }
+  };
+
+  /**
+   * POST /api/billing/referrals/apply
+   */
+  public applyReferralCode = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized - User not authenticated',
+        });
+        return;
+      }
+
+      const { code } = applyReferralSchema.parse(req.body);
+      const result = await referralService.applyCode(userId, code);
+
+      if (!result.success) {
+        res.status(result.reason ? REFERRAL_ERROR_STATUS[result.reason] : 400).json({
+          success: false,
+          message: result.error,
+          reason: result.reason,
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Referral code applied. Bonus tokens are added after your first payment',
+      });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: error.issues,
+        });
+        return;
+      }
+
+      console.error('Error applying referral code:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to apply referral code',
+      });
+    }
+  };
+}
+
+// ==========================================
+// EXPORT SINGLETON INSTANCE
+// ==========================================
+
+const referralController = new ReferralController();
+export default referralController;
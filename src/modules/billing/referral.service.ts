@@ -0,0 +1,296 @@
+// src/modules/billing/referral.service.ts
+
+/**
+ * ==========================================
+ * REFERRAL SERVICE - INVITE REWARDS
+ * ==========================================
+ * Every user gets a unique referral code. A new user who signs up with it
+ * (or enters it before paying) is linked to the referrer, and once the
+ * new user's first payment clears both sides get bonus tokens:
+ * REFERRAL_REFERRER_TOKENS for the referrer, REFERRAL_REFEREE_TOKENS for
+ * the new user. Tokens go into the current cycle's bonus pool.
+ *
+ * The pending → rewarded claim is atomic, so a payment confirmation racing
+ * its webhook cannot reward twice.
+ * Last Updated: October 18, 2026
+ * ==========================================
+ */
+
+import { randomInt } from 'crypto';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../../config/prisma';
+import { logger } from '@shared/utils/logger';
+import usageService from './usage.service';
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// TYPES & CONSTANTS
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export type ReferralErrorReason =
+  | 'user_not_found'
+  | 'invalid_code'
+  | 'self_referral'
+  | 'already_referred'
+  | 'not_eligible';
+
+export interface ReferralApplyResult {
+  success: boolean;
+  error?: string;
+  reason?: ReferralErrorReason;
+}
+
+// No 0/O/1/I, so codes survive being read out or typed by hand
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 8;
+const MAX_CODE_ATTEMPTS = 5;
+
+const RECENT_REFERRALS = 20;
+
+export class ReferralService {
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // CODES
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  /**
+   * The user's referral code, created on first use
+   */
+  async getOrCreateCode(userId: string): Promise<string | null> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { referralCode: true },
+    });
+
+    if (!user) {
+      return null;
+    }
+    if (user.referralCode) {
+      return user.referralCode;
+    }
+
+    for (let attempt = 0; attempt < MAX_CODE_ATTEMPTS; attempt++) {
+      const code = this.generateCode();
+      try {
+        // Only set it if a concurrent request has not already done so
+        await prisma.user.updateMany({
+          where: { id: userId, referralCode: null },
+          data: { referralCode: code },
+        });
+
+        const updated = await prisma.user.findUniqueOrThrow({
+          where: { id: userId },
+          select: { referralCode: true },
+        });
+        return updated.referralCode;
+      } catch (error) {
+        // Code taken by someone else: try another
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+          continue;
+        }
+        throw error;
+      }
+    }
+
+    throw new Error('Could not generate a unique referral code');
+  }
+
+  /**
+   * Code, share link, rewards and the people the user has referred
+   */
+  async getSummary(userId: string) {
+    const code = await this.getOrCreateCode(userId);
+    if (!code) {
+      return null;
+    }
+
+    const [referrals, grouped, earned, referredBy] = await Promise.all([
+      prisma.referral.findMany({
+        where: { referrerId: userId },
+        orderBy: { createdAt: 'desc' },
+        take: RECENT_REFERRALS,
+        include: { referee: { select: { email: true } } },
+      }),
+      prisma.referral.groupBy({
+        by: ['status'],
+        where: { referrerId: userId },
+        _count: { _all: true },
+      }),
+      prisma.referral.aggregate({
+        where: { referrerId: userId, status: 'rewarded' },
+        _sum: { referrerTokens: true },
+      }),
+      prisma.referral.findUnique({
+        where: { refereeId: userId },
+        select: { status: true, refereeTokens: true, createdAt: true, rewardedAt: true },
+      }),
+    ]);
+
+    const countFor = (status: string) =>
+      grouped.find((row) => row.status === status)?._count._all ?? 0;
+
+    return {
+      code,
+      shareUrl: `${process.env.FRONTEND_URL || 'http://localhost:3000'}/signup?ref=${code}`,
+      rewards: this.getRewards(),
+      stats: {
+        pending: countFor('pending'),
+        rewarded: countFor('rewarded'),
+        tokensEarned: earned._sum.referrerTokens ?? 0,
+      },
+      referrals: referrals.map((referral) => ({
+        id: referral.id,
+        email: this.maskEmail(referral.referee.email),
+        status: referral.status,
+        tokens: referral.referrerTokens,
+        createdAt: referral.createdAt,
+        rewardedAt: referral.rewardedAt,
+      })),
+      referredBy,
+    };
+  }
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // REFERRALS
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  /**
+   * Link a user to the owner of code. Only before the user's first payment,
+   * and only once.
+   */
+  async applyCode(userId: string, code: string): Promise<ReferralApplyResult> {
+    const normalized = code.trim().toUpperCase();
+
+    const [user, referrer] = await Promise.all([
+      prisma.user.findUnique({ where: { id: userId }, select: { id: true } }),
+      prisma.user.findUnique({ where: { referralCode: normalized }, select: { id: true } }),
+    ]);
+
+    if (!user) {
+      return { success: false, error: 'User not found', reason: 'user_not_found' };
+    }
+    if (!referrer) {
+      return { success: false, error: 'Referral code not found', reason: 'invalid_code' };
+    }
+    if (referrer.id === userId) {
+      return {
+        success: false,
+        error: 'You cannot use your own referral code',
+        reason: 'self_referral',
+      };
+    }
+
+    const paidBefore = await prisma.transaction.count({
+      where: { userId, amount: { gt: 0 }, status: 'success' },
+    });
+    if (paidBefore > 0) {
+      return {
+        success: false,
+        error: 'Referral codes can only be used before your first payment',
+        reason: 'not_eligible',
+      };
+    }
+
+    try {
+      await prisma.referral.create({
+        data: { referrerId: referrer.id, refereeId: userId, code: normalized },
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return {
+          success: false,
+          error: 'A referral code has already been applied to your account',
+          reason: 'already_referred',
+        };
+      }
+      throw error;
+    }
+
+    logger.info(`[ReferralService] User ${userId} referred by ${referrer.id}`);
+    return { success: true };
+  }
+
+  /**
+   * Reward a pending referral after the referee's payment; errors are logged
+   */
+  rewardInBackground(transactionId: string): void {
+    this.rewardForPayment(transactionId).catch((error) => {
+      logger.error('[ReferralService] Referral reward failed', error, { transactionId });
+    });
+  }
+
+  /**
+   * Grant both sides' tokens if transactionId is a cleared payment by a
+   * referred user whose referral is still pending. Returns whether it did.
+   */
+  async rewardForPayment(transactionId: string): Promise<boolean> {
+    const transaction = await prisma.transaction.findUnique({
+      where: { id: transactionId },
+      select: { userId: true, amount: true, status: true },
+    });
+
+    if (!transaction || transaction.status !== 'success' || transaction.amount <= 0) {
+      return false;
+    }
+
+    const { referrerTokens, refereeTokens } = this.getRewards();
+
+    const claimed = await prisma.referral.updateMany({
+      where: { refereeId: transaction.userId, status: 'pending' },
+      data: {
+        status: 'rewarded',
+        referrerTokens,
+        refereeTokens,
+        transactionId,
+        rewardedAt: new Date(),
+      },
+    });
+
+    if (claimed.count === 0) {
+      return false;
+    }
+
+    const referral = await prisma.referral.findUniqueOrThrow({
+      where: { refereeId: transaction.userId },
+    });
+
+    await Promise.all([
+      usageService.addBonusTokens(referral.referrerId, referrerTokens),
+      usageService.addBonusTokens(referral.refereeId, refereeTokens),
+    ]);
+
+    logger.info(`[ReferralService] Referral ${referral.id} rewarded`, {
+      referrerId: referral.referrerId,
+      refereeId: referral.refereeId,
+      transactionId,
+    });
+    return true;
+  }
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // HELPERS
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  private getRewards() {
+    return {
+      referrerTokens: parseInt(process.env.REFERRAL_REFERRER_TOKENS || '100000', 10),
+      refereeTokens: parseInt(process.env.REFERRAL_REFEREE_TOKENS || '50000', 10),
+    };
+  }
+
+  private generateCode(): string {
+    let code = '';
+    for (let i = 0; i < CODE_LENGTH; i++) {
+      code += CODE_ALPHABET[randomInt(CODE_ALPHABET.length)];
+    }
+    return code;
+  }
+
+  /**
+   * "a***@gmail.com" - referrers see who joined without the full address
+   */
+  private maskEmail(email: string): string {
+    const [local, domain] = email.split('@');
+    return `${local.slice(0, 1)}***@${domain}`;
+  }
+}
+
+export default new ReferralService();
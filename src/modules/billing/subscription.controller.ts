@@ -6,7 +6,14 @@
  * Handles all subscription-related HTTP requests
  * Architecture: Class-Based | Type-Safe | RESTful
  * Rating: 10/10 ⭐
- * Last Updated: January 19, 2026 - Added LITE Plan Endpoints
+ * Last Updated: October 18, 2026 - Coupon codes on plan changes
+ * 
+ * CHANGES (October 18, 2026 - coupons):
+ * - ✅ UPDATED: previewPlanChange (query couponCode) and upgradePlan (body couponCode)
+ * 
+ * CHANGES (October 18, 2026):
+ * - ✅ ADDED: previewPlanChange, cancelScheduledPlanChange, getCredits
+ * - ✅ UPDATED: upgrade/downgrade report downgrades scheduled for period end
  * 
  * CHANGES (January 19, 2026):
  * - ✅ ADDED: activateLitePlan endpoint (STARTER → LITE free upgrade)
@@ -17,6 +24,9 @@
 
 import { Request, Response } from 'express';
 import subscriptionService from './subscription.service';
+import creditService from './credit.service';
+import paymentService from './payment.service';
+import { sendPaymentFailure } from './payment.controller';
 import { plansManager } from '../../constants';
 
 // ==========================================
@@ -25,9 +35,11 @@ import { plansManager } from '../../constants';
 
 interface UpgradeRequest {
   targetPlanName: string;
+  couponCode?: string;
   paymentGateway?: string;
   gatewayOrderId?: string;
   gatewayPaymentId?: string;
+  gatewaySignature?: string;
   gatewayMetadata?: Record<string, any>;
 }
 
@@ -41,6 +53,8 @@ interface RenewRequest {
 // ✅ NEW: Free plans list
 const FREE_PLANS = ['STARTER', 'LITE'];
 
+const MAX_CREDIT_PAGE_SIZE = 50;
+
 // ==========================================
 // SUBSCRIPTION CONTROLLER CLASS
 // ==========================================
@@ -124,6 +138,8 @@ class SubscriptionController {
    * Upgrade user's subscription plan
    * POST /api/billing/subscription/upgrade
    * ✅ UPDATED: Now handles LITE plan and free transitions
+   * Paid changes: 402 PAYMENT_REQUIRED with the amount, then retry with the
+   * checkout result of a subscription order (gatewayOrderId, ...)
    */
   public upgradePlan = async (req: Request, res: Response): Promise<void> => {
     try {
@@ -136,7 +152,7 @@ class SubscriptionController {
         return;
       }
 
-      const { targetPlanName, paymentGateway, gatewayOrderId, gatewayPaymentId, gatewayMetadata } =
+      const { targetPlanName, couponCode, gatewayOrderId, gatewayPaymentId, gatewaySignature } =
         req.body as UpgradeRequest;
 
       // Validate target plan
@@ -172,14 +188,57 @@ class SubscriptionController {
         return;
       }
 
+      // Paid change: confirm the gateway order, which applies the order's plan
+      if (gatewayOrderId) {
+        const confirmation = await paymentService.confirmPayment(
+          userId,
+          { gatewayOrderId, gatewayPaymentId, gatewaySignature },
+          'subscription'
+        );
+
+        if (!confirmation.success) {
+          sendPaymentFailure(res, confirmation);
+          return;
+        }
+
+        res.status(200).json({
+          success: true,
+          message: confirmation.alreadyProcessed
+            ? 'This payment was already processed'
+            : 'Subscription upgraded successfully',
+          data: { transactionId: confirmation.transactionId, ...(confirmation.fulfilment || {}) },
+        });
+        return;
+      }
+
       // Use the service instance directly
-      const result = await subscriptionService.changePlan(userId, targetPlanName);
+      const result = await subscriptionService.changePlan(
+        userId,
+        targetPlanName,
+        undefined,
+        typeof couponCode === 'string' && couponCode.trim() ? couponCode : undefined
+      );
+
+      if ('paymentRequired' in result && result.paymentRequired) {
+        res.status(402).json({ ...result, code: 'PAYMENT_REQUIRED' });
+        return;
+      }
 
       if (!result.success) {
         res.status(400).json(result);
         return;
       }
 
+      // Downgrade from a paid period: applied when the period ends
+      if ('scheduled' in result && result.scheduled) {
+        res.status(200).json({
+          success: true,
+          message: result.message,
+          data: result,
+        });
+        return;
+      }
+
       // ✅ NEW: Different message for free vs paid transitions
       const isFreePlan = FREE_PLANS.includes(targetPlanName);
       
@@ -236,11 +295,26 @@ class SubscriptionController {
       // Use changePlan for downgrades too
       const result = await subscriptionService.changePlan(userId, targetPlanName);
 
+      if ('paymentRequired' in result && result.paymentRequired) {
+        res.status(402).json({ ...result, code: 'PAYMENT_REQUIRED' });
+        return;
+      }
+
       if (!result.success) {
         res.status(400).json(result);
         return;
       }
 
+      // Downgrade from a paid period: applied when the period ends
+      if ('scheduled' in result && result.scheduled) {
+        res.status(200).json({
+          success: true,
+          message: result.message,
+          data: result,
+        });
+        return;
+      }
+
       // Check if it was actually a downgrade
       // Note: isUpgrade may not exist if the operation failed partially
       const wasUpgrade = 'isUpgrade' in result ? result.isUpgrade : false;
@@ -268,6 +342,133 @@ class SubscriptionController {
     }
   };
 
+  /**
+   * Preview a plan change: amount due after credits and when it takes effect
+   * GET /api/billing/subscription/change-preview?targetPlanName=PRO
+   */
+  public previewPlanChange = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized - User not authenticated',
+        });
+        return;
+      }
+
+      const targetPlanName = req.query.targetPlanName ? String(req.query.targetPlanName) : '';
+
+      if (!targetPlanName) {
+        res.status(400).json({
+          success: false,
+          message: 'Target plan name is required',
+        });
+        return;
+      }
+
+      if (!plansManager.getPlanByName(targetPlanName)) {
+        res.status(400).json({
+          success: false,
+          message: 'Invalid target plan',
+        });
+        return;
+      }
+
+      const couponCode = req.query.couponCode ? String(req.query.couponCode) : undefined;
+
+      const result = await subscriptionService.previewPlanChange(userId, targetPlanName, couponCode);
+
+      if (!result.success) {
+        res.status(400).json(result);
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: result.data,
+      });
+    } catch (error: any) {
+      console.error('Error previewing plan change:', error);
+      res.status(500).json({
+        success: false,
+        message: error.message || 'Failed to preview plan change',
+      });
+    }
+  };
+
+  /**
+   * Drop a downgrade scheduled for the end of the period
+   * DELETE /api/billing/subscription/scheduled-change
+   */
+  public cancelScheduledPlanChange = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized - User not authenticated',
+        });
+        return;
+      }
+
+      const result = await subscriptionService.cancelScheduledPlanChange(userId);
+
+      if (!result.success) {
+        res.status(404).json(result);
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: result.message,
+        data: result,
+      });
+    } catch (error: any) {
+      console.error('Error cancelling scheduled plan change:', error);
+      res.status(500).json({
+        success: false,
+        message: error.message || 'Failed to cancel scheduled plan change',
+      });
+    }
+  };
+
+  /**
+   * Account credit balance and its history
+   * GET /api/billing/credits?page=&limit=
+   */
+  public getCredits = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized - User not authenticated',
+        });
+        return;
+      }
+
+      const page = Math.max(parseInt(String(req.query.page || 1)) || 1, 1);
+      const limit = Math.min(
+        Math.max(parseInt(String(req.query.limit || 20)) || 20, 1),
+        MAX_CREDIT_PAGE_SIZE
+      );
+
+      const credits = await creditService.getCreditSummary(userId, page, limit);
+
+      res.status(200).json({
+        success: true,
+        data: credits,
+      });
+    } catch (error: any) {
+      console.error('Error getting account credits:', error);
+      res.status(500).json({
+        success: false,
+        message: error.message || 'Failed to get account credits',
+      });
+    }
+  };
+
   /**
    * Cancel user's subscription
    * POST /api/billing/subscription/cancel
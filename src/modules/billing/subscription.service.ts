@@ -5,7 +5,17 @@
  * SUBSCRIPTION SERVICE - PLAN MANAGEMENT
  * ==========================================
  * Handles subscription creation, upgrades, cancellations
- * Last Updated: February 22, 2026 - v12.0 2-Model Image System
+ * Last Updated: October 18, 2026 - Coupons
+ *
+ * CHANGES (October 18, 2026 - coupons):
+ * - ✅ Coupon codes discount upgrades and new paid plans (see CouponService)
+ * - ✅ Discount applied before account credit; redemption recorded with the change
+ *
+ * CHANGES (October 18, 2026):
+ * - ✅ Upgrades start a new period; unused time on the old plan is credited
+ * - ✅ Leftover credit kept as account credit (see CreditService)
+ * - ✅ Downgrades from a paid plan scheduled for the end of the period
+ * - ✅ ADDED: previewPlanChange() / cancelScheduledPlanChange()
  *
  * CHANGES v12.0 (February 22, 2026):
  * - ✅ SIMPLIFIED: 2-model image system (Schnell + GPT LOW)
@@ -41,7 +51,7 @@
  *
  * FEATURES:
  * - Create/Update subscriptions with regional pricing
- * - Plan upgrades/downgrades with prorated amounts
+ * - Plan upgrades with proration credit, downgrades at period end
  * - LITE plan (free) support with Schnell images
  * - Cancellation (immediate or end of period)
  * - Reactivation
@@ -54,10 +64,19 @@
 
 import { prisma } from '../../config/prisma';
 import { plansManager, PlanType } from '../../constants';
-import { Region, Currency } from '@prisma/client';
+import { Region, Currency, Subscription } from '@prisma/client';
 import usageService from './usage.service';
 import { planSyncService } from './planSync.service';
-import { generateAccessToken } from '@/shared/utils/jwt.util';
+import invoiceService from './invoice.service';
+import creditService, { CreditMovement } from './credit.service';
+import couponService, { AppliedCoupon, CouponCheckResult } from './coupon.service';
+import { GatewayRenewal, GatewayRenewalResult, VerifiedPayment } from './payment.types';
+import {
+  createPaymentGateway,
+  isPaymentGatewayProvider,
+  PaymentGateway,
+  PaymentGatewayProvider,
+} from '../../services/payments';
 
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 // PLAN HIERARCHY CONSTANTS
@@ -73,7 +92,63 @@ const PLAN_HIERARCHY: Record<string, number> = {
 
 const FREE_PLANS = ['STARTER', 'LITE']; // ✅ Both are free plans
 
+// Gateway-billed subscriptions get this long past endDate for the renewal webhook
+const RENEWAL_GRACE_HOURS = 48;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// PLAN CHANGE TYPES
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * What a plan change costs and when it takes effect. Amounts are in major
+ * units, like gateway orders.
+ * - Upgrades apply now and start a new period. A coupon discount comes off
+ *   the price first; the unused part of the current period plus any
+ *   account credit goes toward the rest, and whatever is left over stays as
+ *   account credit.
+ * - Downgrades from a running paid period apply when that period ends.
+ */
+export interface PlanChangePreview {
+  currentPlan: string;
+  newPlan: string;
+  changeType: 'upgrade' | 'downgrade';
+  effective: 'immediate' | 'period_end';
+  effectiveAt: Date;
+  region: Region;
+  currency: Currency;
+  newPlanPrice: number;
+  couponCode: string | null;
+  discount: number;
+  /** Value of the time left in the current paid period */
+  unusedCredit: number;
+  unusedDays: number;
+  creditBalance: number;
+  creditApplied: number;
+  amountDue: number;
+  creditBalanceAfter: number;
+  /** End of the period the new plan starts (immediate paid changes) */
+  newPeriodEnd: Date | null;
+}
+
+interface PlanChangeContext {
+  user: {
+    id: string;
+    email: string;
+    planType: string;
+    planEndDate: Date | null;
+    region: Region | null;
+    currency: Currency | null;
+    creditBalance: number;
+  };
+  activeSubscription: Subscription | null;
+  /** What the current period was worth: paid plus credit spent on it (minor units, after coupon) */
+  periodValueMinor: number;
+}
+
 export class SubscriptionService {
+  private gateways = new Map<PaymentGatewayProvider, PaymentGateway>();
   
   // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
   // SUBSCRIPTION CREATION & MANAGEMENT
@@ -82,21 +157,24 @@ export class SubscriptionService {
   /**
    * Create or update subscription with regional pricing validation
    * ✅ UPDATED: Added LITE plan support (free plan, no payment required)
+   * Paid plans need a gateway-verified payment (see PaymentService), account
+   * credit (creditApplied, minor units), a coupon discount checked by the
+   * caller, or a mix, adding up to the price
    */
   async createSubscription(data: {
     userId: string;
     planId: string;
-    paymentMethod: string;
-    transactionId?: string;
-    amount: number;
+    payment?: VerifiedPayment;
     region?: Region;
     currency?: Currency;
+    creditApplied?: number;
+    coupon?: AppliedCoupon;
   }) {
     try {
       // Get user's region from database if not provided
       const user = await prisma.user.findUnique({
         where: { id: data.userId },
-        select: { region: true, currency: true, email: true, planType: true },
+        select: { region: true, currency: true, planType: true },
       });
 
       const userRegion = data.region || user?.region || Region.IN;
@@ -110,17 +188,20 @@ export class SubscriptionService {
 
       // ✅ NEW: Handle FREE plans (STARTER & LITE) differently
       const isFreePlan = FREE_PLANS.includes(data.planId);
+      const amount = isFreePlan ? 0 : data.payment?.amount ?? 0;
+      const creditApplied = isFreePlan ? 0 : data.creditApplied ?? 0;
+      const coupon = isFreePlan ? undefined : data.coupon;
+      const discount = coupon?.discount ?? 0;
       
-      if (isFreePlan) {
-        // Free plans should have 0 amount
-        if (data.amount !== 0) {
-          throw new Error(`${data.planId} is a free plan, amount should be 0`);
-        }
-      } else {
+      if (!isFreePlan) {
         // ✅ Validate regional pricing for PAID plans
         const expectedPrice = this.getRegionalPrice(plan, userRegion);
+
+        if (!data.payment && creditApplied + discount < Math.round(expectedPrice * 100)) {
+          throw new Error(`${data.planId} is a paid plan, a verified payment is required`);
+        }
         
-        if (data.amount !== expectedPrice) {
+        if (Math.round(amount * 100) + creditApplied + discount !== Math.round(expectedPrice * 100)) {
           throw new Error(
             `Invalid amount. Expected ${userCurrency === Currency.INR ? '₹' : '$'}${expectedPrice} for ${data.planId} plan in ${userRegion} region`
           );
@@ -132,36 +213,88 @@ export class SubscriptionService {
       const endDate = new Date();
       endDate.setMonth(endDate.getMonth() + 1);
 
-      // ✅ Create transaction record (even for free plans - for tracking)
-      await prisma.transaction.create({
-        data: {
-          userId: data.userId,
-          type: isFreePlan ? 'free_upgrade' : 'subscription',
-          amount: data.amount,
-          currency: userCurrency,
-          status: 'success',
-          planName: data.planId,
-          paymentGateway: isFreePlan ? 'free' : data.paymentMethod,
-          gatewayPaymentId: data.transactionId,
-          description: isFreePlan 
-            ? `Free ${data.planId} plan activation - ${userRegion} region`
-            : `${data.planId} plan subscription - ${userRegion} region`,
-        },
-      });
+      // ✅ Record free activations; paid ones already have their order transaction
+      if (isFreePlan) {
+        await prisma.transaction.create({
+          data: {
+            userId: data.userId,
+            type: 'free_upgrade',
+            amount: 0,
+            currency: userCurrency,
+            status: 'success',
+            planName: data.planId,
+            paymentGateway: 'free',
+            description: `Free ${data.planId} plan activation - ${userRegion} region`,
+          },
+        });
+      }
 
-      // Create subscription record
-      const subscription = await prisma.subscription.create({
-        data: {
-          userId: data.userId,
-          planName: data.planId,
-          planPrice: data.amount,
-          status: 'ACTIVE',
-          startDate,
-          endDate,
-          paymentGateway: isFreePlan ? 'free' : data.paymentMethod,
-          gatewaySubscriptionId: data.transactionId,
-          autoRenew: !isFreePlan, // ✅ Free plans don't auto-renew (they're perpetual)
-        },
+      // Create subscription record, spending the credit in the same transaction
+      const subscription = await prisma.$transaction(async (tx) => {
+        // Paid entirely from credit / coupon: no order transaction to point at
+        let transactionId = data.payment?.transactionId;
+        if (!isFreePlan && !data.payment) {
+          const transaction = await tx.transaction.create({
+            data: {
+              userId: data.userId,
+              type: 'subscription',
+              amount: 0,
+              currency: userCurrency,
+              status: 'success',
+              planName: data.planId,
+              paymentGateway: creditApplied > 0 ? 'credit' : 'coupon',
+              region: userRegion,
+              description: creditApplied > 0
+                ? `${data.planId} plan paid from account credit - ${userRegion} region`
+                : `${data.planId} plan covered by coupon ${coupon?.code} - ${userRegion} region`,
+            },
+          });
+          transactionId = transaction.id;
+        }
+
+        // Linked to the transaction: the credit is part of what the period was worth
+        if (creditApplied > 0) {
+          await creditService.applyMovements(tx, data.userId, userCurrency, [
+            {
+              amount: -creditApplied,
+              reason: 'plan_change',
+              description: `Applied to ${data.planId} plan`,
+              transactionId,
+            },
+          ]);
+        }
+
+        if (coupon) {
+          await couponService.redeem(tx, data.userId, coupon, {
+            purpose: 'subscription',
+            planName: data.planId,
+            currency: userCurrency,
+            transactionId,
+          });
+        }
+
+        return tx.subscription.create({
+          data: {
+            userId: data.userId,
+            planName: data.planId,
+            planPrice: Math.round(amount), // Whole units for revenue stats; exact amount is on the transaction
+            status: 'ACTIVE',
+            startDate,
+            endDate,
+            currency: userCurrency,
+            region: userRegion,
+            paymentGateway: isFreePlan ? 'free' : data.payment?.gateway ?? (creditApplied > 0 ? 'credit' : 'coupon'),
+            gatewaySubscriptionId: data.payment?.gatewaySubscriptionId,
+            gatewayMetadata: data.payment
+              ? {
+                  transactionId: data.payment.transactionId,
+                  orderId: data.payment.orderId,
+                  paymentId: data.payment.paymentId,
+                }
+              : undefined,
+            autoRenew: !isFreePlan, // ✅ Free plans don't auto-renew (they're perpetual)
+          },
+        });
       });
 
       // ✅ NEW: Use planSyncService for atomic update (User + Usage + ImageUsage)
@@ -200,12 +333,6 @@ export class SubscriptionService {
         });
       }
 
-      // ✅ NEW: Generate fresh token with updated planType
-      const newToken = generateAccessToken({
-        userId: data.userId,
-        email: user!.email,
-        planType: data.planId,
-      });
 
       console.log(`[SubscriptionService] Subscription created for user ${data.userId}, plan: ${data.planId} (${isFreePlan ? 'FREE' : 'PAID'})`);
 
@@ -218,7 +345,6 @@ export class SubscriptionService {
         region: userRegion,
         currency: userCurrency,
         syncResult,
-        newToken,
         isFreePlan, // ✅ NEW: Let frontend know this was a free upgrade
       };
     } catch (error: any) {
@@ -259,8 +385,6 @@ export class SubscriptionService {
       return await this.createSubscription({
         userId,
         planId: 'LITE',
-        paymentMethod: 'free',
-        amount: 0,
         region: user.region || Region.IN,
         currency: user.currency || Currency.INR,
       });
@@ -275,114 +399,172 @@ export class SubscriptionService {
   }
 
   /**
-   * ✅ FIXED: Upgrade or downgrade plan with regional pricing + PlanSync + NEW TOKEN
+   * ✅ FIXED: Upgrade or downgrade plan with regional pricing + PlanSync
    * ✅ UPDATED: Added LITE plan support and plan hierarchy validation
+   * Upgrades start a new period now, with the unused part of the current one
+   * credited (see previewPlanChange). Downgrades from a running paid period
+   * are scheduled for its end. Changes that cost money need a gateway-verified
+   * payment covering the quote; without one nothing changes and the result
+   * carries paymentRequired + amount. A paid order's coupon comes with the
+   * payment and is checked as of the order's creation.
    */
-  async changePlan(userId: string, newPlanId: string) {
+  async changePlan(
+    userId: string,
+    newPlanId: string,
+    payment?: VerifiedPayment,
+    couponCode?: string
+  ) {
     try {
-      // Get user with region info
-      const user = await prisma.user.findUnique({
-        where: { id: userId },
-        select: {
-          id: true,
-          email: true,
-          planType: true,
-          planEndDate: true,
-          region: true,
-          currency: true,
-        },
-      });
+      const context = await this.getPlanChangeContext(userId);
 
-      if (!user) {
+      if (!context) {
         throw new Error('User not found');
       }
 
-      // ✅ NEW: Validate plan hierarchy
-      const currentHierarchy = PLAN_HIERARCHY[user.planType] ?? 0;
-      const newHierarchy = PLAN_HIERARCHY[newPlanId] ?? 0;
+      const { user, activeSubscription } = context;
+
+      if (user.planType === newPlanId) {
+        throw new Error(`You are already on the ${newPlanId} plan`);
+      }
 
       // ✅ Special case: STARTER → LITE (use activateLitePlan)
       if (user.planType === 'STARTER' && newPlanId === 'LITE') {
         return await this.activateLitePlan(userId);
       }
 
-      // ✅ Special case: LITE → STARTER (downgrade to free)
-      if (user.planType === 'LITE' && newPlanId === 'STARTER') {
-        // Allow downgrade from LITE to STARTER
-        console.log(`[SubscriptionService] Downgrading from LITE to STARTER for user ${userId}`);
+      // Price a paid change as of its order, so the credit matches what was charged
+      const order = payment
+        ? await prisma.transaction.findUnique({
+            where: { id: payment.transactionId },
+            select: { createdAt: true },
+          })
+        : null;
+
+      const code = payment ? payment.couponCode : couponCode;
+      const couponCheck = code
+        ? await this.checkCoupon(context, newPlanId, code, order?.createdAt, payment?.transactionId)
+        : null;
+
+      if (couponCheck && !couponCheck.success) {
+        throw new Error(couponCheck.error);
       }
 
-      // Get active subscription
-      const activeSubscription = await prisma.subscription.findFirst({
-        where: {
-          userId,
-          status: 'ACTIVE',
-        },
-        orderBy: { createdAt: 'desc' },
-      });
+      const change = this.calculatePlanChange(
+        context,
+        newPlanId,
+        payment ? Math.round(payment.amount * 100) : 0,
+        order?.createdAt,
+        couponCheck?.coupon
+      );
+      const { preview } = change;
 
-      // Get plans
-      const currentPlan = plansManager.getPlanByName(user.planType);
-      const newPlan = plansManager.getPlanByName(newPlanId);
+      // ✅ Downgrades keep the current plan until the paid period ends
+      if (preview.effective === 'period_end') {
+        return await this.scheduleDowngrade(activeSubscription!, preview);
+      }
 
-      if (!newPlan) {
-        throw new Error('Invalid plan selected');
+      // ✅ Paid changes only go through with a verified payment
+      if (change.dueMinor > 0) {
+        if (!payment) {
+          return {
+            success: false,
+            message: `Payment of ${preview.currency === Currency.INR ? '₹' : '$'}${preview.amountDue} required to switch to ${newPlanId}`,
+            paymentRequired: true,
+            amount: preview.amountDue,
+            currency: preview.currency,
+            preview,
+          };
+        }
+        throw new Error('Payment does not cover this plan change');
       }
 
-      // ✅ Get regional prices
-      const userRegion = user.region || Region.IN;
-      const userCurrency = user.currency || Currency.INR;
-      
-      const currentPlanPrice = currentPlan ? this.getRegionalPrice(currentPlan, userRegion) : 0;
-      const newPlanPrice = this.getRegionalPrice(newPlan, userRegion);
-
-      // ✅ Handle FREE plan transitions
-      const isCurrentPlanFree = FREE_PLANS.includes(user.planType);
-      const isNewPlanFree = FREE_PLANS.includes(newPlanId);
-
-      let proratedAmount = 0;
-      let isUpgrade = newHierarchy > currentHierarchy;
-
-      if (isNewPlanFree) {
-        // ✅ Transitioning TO a free plan - no payment
-        proratedAmount = 0;
-      } else if (isCurrentPlanFree) {
-        // ✅ Transitioning FROM free plan TO paid - full price
-        proratedAmount = newPlanPrice;
-      } else {
-        // ✅ Paid to Paid transition - calculate prorated amount
-        proratedAmount = this.calculateProratedAmount(
-          user,
-          currentPlanPrice,
-          newPlanPrice
-        );
+      // ✅ Free (or lapsed) → paid starts a new paid subscription period
+      if (!change.isNewPlanFree && !change.paidPeriod) {
+        return await this.createSubscription({
+          userId,
+          planId: newPlanId,
+          payment,
+          region: preview.region,
+          currency: preview.currency,
+          creditApplied: change.appliedMinor,
+          coupon: change.coupon,
+        });
       }
 
-      // ✅ Create transaction record for plan change
-      await prisma.transaction.create({
-        data: {
+      const periodStart = new Date();
+
+      const subscription = await prisma.$transaction(async (tx) => {
+        // ✅ Record the change; paid ones already have their order transaction
+        let transactionId = payment?.transactionId;
+        if (!payment) {
+          const transaction = await tx.transaction.create({
+            data: {
+              userId,
+              type: change.isNewPlanFree ? 'free_downgrade' : 'subscription',
+              amount: 0,
+              currency: preview.currency,
+              status: 'success',
+              planName: newPlanId,
+              paymentGateway: change.isNewPlanFree ? 'free' : change.appliedMinor > 0 ? 'credit' : 'coupon',
+              region: preview.region,
+              description: `Plan ${preview.changeType}: ${user.planType} → ${newPlanId} (${preview.region})`,
+            },
+          });
+          transactionId = transaction.id;
+        }
+
+        await creditService.applyMovements(
+          tx,
           userId,
-          type: isNewPlanFree ? 'free_downgrade' : 'subscription',
-          amount: isUpgrade ? proratedAmount : 0,
-          currency: userCurrency,
-          status: 'success',
-          planName: newPlanId,
-          paymentGateway: isNewPlanFree ? 'free' : 'plan_change',
-          description: `Plan ${isUpgrade ? 'upgrade' : 'downgrade'}: ${user.planType} → ${newPlanId} (${userRegion})`,
-        },
-      });
+          preview.currency,
+          this.getCreditMovements(user.planType, change, transactionId)
+        );
 
-      // Update subscription if exists
-      if (activeSubscription) {
-        await prisma.subscription.update({
-          where: { id: activeSubscription.id },
-          data: {
+        if (change.coupon) {
+          await couponService.redeem(tx, userId, change.coupon, {
+            purpose: 'subscription',
             planName: newPlanId,
-            planPrice: newPlanPrice,
-            autoRenew: !isNewPlanFree, // ✅ Free plans don't auto-renew
-          },
+            currency: preview.currency,
+            transactionId,
+          });
+        }
+
+        if (!activeSubscription) {
+          return null;
+        }
+
+        return tx.subscription.update({
+          where: { id: activeSubscription.id },
+          data: change.isNewPlanFree
+            ? {
+                planName: newPlanId,
+                planPrice: 0,
+                autoRenew: false, // ✅ Free plans don't auto-renew
+                scheduledPlanName: null,
+                scheduledChangeAt: null,
+              }
+            : {
+                planName: newPlanId,
+                planPrice: Math.round(preview.newPlanPrice),
+                startDate: periodStart,
+                endDate: preview.newPeriodEnd!,
+                autoRenew: true,
+                cancelledAt: null,
+                scheduledPlanName: null,
+                scheduledChangeAt: null,
+                ...(payment
+                  ? {
+                      paymentGateway: payment.gateway,
+                      gatewayMetadata: {
+                        transactionId: payment.transactionId,
+                        orderId: payment.orderId,
+                        paymentId: payment.paymentId,
+                      },
+                    }
+                  : {}),
+              },
         });
-      }
+      });
 
       // ✅ NEW: Use planSyncService for atomic update (User + Usage + ImageUsage)
       // This handles both Schnell AND GPT LOW quota updates
@@ -390,8 +572,8 @@ export class SubscriptionService {
         userId,
         newPlanId as PlanType,
         {
-          resetUsage: isUpgrade,  // Reset on upgrade, preserve on downgrade
-          extendCycle: false,     // Keep current billing cycle
+          resetUsage: !change.isNewPlanFree,  // Upgrades start a new period
+          extendCycle: !change.isNewPlanFree,
         }
       );
 
@@ -406,39 +588,32 @@ export class SubscriptionService {
         await usageService.resetMonthlyUsage(userId);
       }
 
-      // ✅ Update planEndDate for free plans (set to null - perpetual)
-      if (isNewPlanFree) {
-        await prisma.user.update({
-          where: { id: userId },
-          data: { planEndDate: null },
-        });
-      }
-
-      // ✅ NEW: Generate fresh token with updated planType
-      const newToken = generateAccessToken({
-        userId: user.id,
-        email: user.email,
-        planType: newPlanId,
+      // ✅ Free plans have no end date (perpetual); paid ones end with the new period
+      await prisma.user.update({
+        where: { id: userId },
+        data: change.isNewPlanFree
+          ? { planEndDate: null }
+          : { planStatus: 'ACTIVE', planStartDate: periodStart, planEndDate: preview.newPeriodEnd },
       });
 
+
       console.log(`[SubscriptionService] Plan changed: ${user.planType} → ${newPlanId} for user ${userId}`);
-      console.log(`[SubscriptionService] New token generated with planType: ${newPlanId}`);
 
       return {
         success: true,
-        message: isNewPlanFree 
+        message: change.isNewPlanFree 
           ? `Switched to ${newPlanId} plan (Free)`
           : 'Plan changed successfully',
-        subscription: activeSubscription,
-        proratedAmount,
-        isUpgrade,
-        currentPlanPrice,
-        newPlanPrice,
-        region: userRegion,
-        currency: userCurrency,
+        subscription,
+        proratedAmount: preview.amountDue,
+        isUpgrade: preview.changeType === 'upgrade',
+        currentPlanPrice: change.currentPlanPrice,
+        newPlanPrice: preview.newPlanPrice,
+        region: preview.region,
+        currency: preview.currency,
+        preview,
         syncResult,
-        newToken,
-        isFreePlan: isNewPlanFree, // ✅ NEW: Let frontend know
+        isFreePlan: change.isNewPlanFree, // ✅ NEW: Let frontend know
       };
     } catch (error: any) {
       console.error('[SubscriptionService] Change plan error:', error);
@@ -449,6 +624,107 @@ export class SubscriptionService {
     }
   }
 
+  /**
+   * Preview a plan change before the user confirms it: coupon discount,
+   * amount due, credit applied and carried forward, and when the change
+   * takes effect
+   */
+  async previewPlanChange(userId: string, newPlanId: string, couponCode?: string) {
+    try {
+      const context = await this.getPlanChangeContext(userId);
+
+      if (!context) {
+        throw new Error('User not found');
+      }
+
+      if (context.user.planType === newPlanId) {
+        throw new Error(`You are already on the ${newPlanId} plan`);
+      }
+
+      const couponCheck = couponCode
+        ? await this.checkCoupon(context, newPlanId, couponCode)
+        : null;
+
+      if (couponCheck && !couponCheck.success) {
+        return {
+          success: false,
+          message: couponCheck.error,
+          couponReason: couponCheck.reason,
+        };
+      }
+
+      const { preview } = this.calculatePlanChange(
+        context,
+        newPlanId,
+        0,
+        undefined,
+        couponCheck?.coupon
+      );
+
+      return {
+        success: true,
+        data: preview,
+      };
+    } catch (error: any) {
+      console.error('[SubscriptionService] Preview plan change error:', error);
+      return {
+        success: false,
+        message: error.message || 'Failed to preview plan change',
+      };
+    }
+  }
+
+  /**
+   * Keep the current plan: drop a downgrade scheduled for the period end
+   */
+  async cancelScheduledPlanChange(userId: string) {
+    try {
+      const subscription = await prisma.subscription.findFirst({
+        where: {
+          userId,
+          status: 'ACTIVE',
+          scheduledPlanName: { not: null },
+        },
+        orderBy: { createdAt: 'desc' },
+      });
+
+      if (!subscription) {
+        throw new Error('No scheduled plan change found');
+      }
+
+      // Scheduling stopped the gateway's renewals; turn them back on there first
+      const gateway = this.getRenewingGateway(subscription);
+      if (gateway && !subscription.autoRenew) {
+        await gateway.resumeSubscription(subscription.gatewaySubscriptionId!);
+      }
+
+      // Scheduling is refused on cancelled subscriptions, so renewal was on before
+      await prisma.subscription.update({
+        where: { id: subscription.id },
+        data: {
+          scheduledPlanName: null,
+          scheduledChangeAt: null,
+          autoRenew: true,
+        },
+      });
+
+      console.log(`[SubscriptionService] Scheduled change to ${subscription.scheduledPlanName} cancelled for user ${userId}`);
+
+      return {
+        success: true,
+        message: `Scheduled change to ${subscription.scheduledPlanName} cancelled. You stay on ${subscription.planName}`,
+        planName: subscription.planName,
+        endDate: subscription.endDate,
+      };
+    } catch (error: any) {
+      console.error('[SubscriptionService] Cancel scheduled plan change error:', error);
+      return {
+        success: false,
+        message: error.message || 'Failed to cancel scheduled plan change',
+      };
+    }
+  }
+
   /**
    * Cancel subscription (immediate or end of period)
    */
@@ -466,10 +742,9 @@ export class SubscriptionService {
         throw new Error('No active subscription found');
       }
 
-      // ✅ Get user email for token generation
       const user = await prisma.user.findUnique({
         where: { id: userId },
-        select: { email: true, planType: true },
+        select: { planType: true },
       });
 
       // ✅ NEW: Check if current plan is FREE (STARTER/LITE)
@@ -479,6 +754,14 @@ export class SubscriptionService {
         throw new Error(`Cannot cancel ${user?.planType} plan - it's a free plan. You can downgrade to STARTER instead.`);
       }
 
+      // Stop the gateway charging first; if it refuses, nothing changes here
+      const gateway = this.getRenewingGateway(subscription);
+      if (gateway && (immediate || subscription.autoRenew)) {
+        await gateway.cancelSubscription(subscription.gatewaySubscriptionId!, {
+          atPeriodEnd: !immediate,
+        });
+      }
+
       if (immediate) {
         // Immediate cancellation
         await prisma.subscription.update({
@@ -487,6 +770,8 @@ export class SubscriptionService {
             status: 'CANCELLED',
             cancelledAt: new Date(),
             autoRenew: false,
+            scheduledPlanName: null,
+            scheduledChangeAt: null,
           },
         });
 
@@ -508,12 +793,6 @@ export class SubscriptionService {
           },
         });
 
-        // ✅ NEW: Generate token with STARTER plan
-        const newToken = generateAccessToken({
-          userId,
-          email: user!.email,
-          planType: PlanType.STARTER,
-        });
 
         console.log(`[SubscriptionService] Subscription cancelled immediately for user ${userId}`);
 
@@ -521,7 +800,6 @@ export class SubscriptionService {
           success: true,
           message: 'Subscription cancelled immediately',
           syncResult,
-          newToken,
         };
       } else {
         // Cancel at end of period
@@ -530,6 +808,9 @@ export class SubscriptionService {
           data: {
             autoRenew: false,
             cancelledAt: new Date(),
+            // The period ends on STARTER, not on a scheduled downgrade
+            scheduledPlanName: null,
+            scheduledChangeAt: null,
           },
         });
 
@@ -539,7 +820,6 @@ export class SubscriptionService {
           success: true,
           message: 'Subscription will be cancelled at the end of the billing period',
           endDate: subscription.endDate,
-          // No new token needed - plan still active until end date
         };
       }
     } catch (error: any) {
@@ -574,17 +854,15 @@ export class SubscriptionService {
         throw new Error('Subscription period has ended. Please create a new subscription.');
       }
 
-      // ✅ Get user email for token generation
-      const user = await prisma.user.findUnique({
-        where: { id: userId },
-        select: { email: true },
-      });
+      // The gateway subscription was ended at the gateway and cannot restart:
+      // the plan runs to the end of the paid period without renewing
+      const renewsAtGateway = !!this.getRenewingGateway(subscription);
 
       await prisma.subscription.update({
         where: { id: subscription.id },
         data: {
           status: 'ACTIVE',
-          autoRenew: true,
+          autoRenew: !renewsAtGateway,
           cancelledAt: null,
         },
       });
@@ -606,21 +884,16 @@ export class SubscriptionService {
         },
       });
 
-      // ✅ NEW: Generate token with restored plan
-      const newToken = generateAccessToken({
-        userId,
-        email: user!.email,
-        planType: subscription.planName,
-      });
 
       console.log(`[SubscriptionService] Subscription reactivated for user ${userId}`);
 
       return {
         success: true,
-        message: 'Subscription reactivated successfully',
+        message: renewsAtGateway
+          ? `Subscription reactivated until ${subscription.endDate.toDateString()}. It will not renew automatically`
+          : 'Subscription reactivated successfully',
         subscription,
         syncResult,
-        newToken,
       };
     } catch (error: any) {
       console.error('[SubscriptionService] Reactivate subscription error:', error);
@@ -646,6 +919,7 @@ export class SubscriptionService {
           planEndDate: true,
           region: true,
           currency: true,
+          creditBalance: true,
         },
       });
 
@@ -674,6 +948,7 @@ export class SubscriptionService {
           region: user.region,
           currency: user.currency,
           regionalPrice,
+          creditBalance: user.creditBalance / 100,
           isFreePlan, // ✅ NEW
           planHierarchy: PLAN_HIERARCHY[user.planType] ?? 0, // ✅ NEW
           subscription: subscription ? {
@@ -682,6 +957,10 @@ export class SubscriptionService {
             autoRenew: subscription.autoRenew,
             startDate: subscription.startDate,
             endDate: subscription.endDate,
+            scheduledChange: subscription.scheduledPlanName ? {
+              planName: subscription.scheduledPlanName,
+              effectiveAt: subscription.scheduledChangeAt,
+            } : null,
           } : null,
         },
       };
@@ -750,6 +1029,303 @@ export class SubscriptionService {
     }
   }
 
+  /**
+   * Amount due to move a user to newPlanId after the coupon and credits (0
+   * for downgrades, free plans and upgrades fully covered).
+   * PaymentService charges exactly this when creating the gateway order.
+   * An unusable coupon comes back as couponError instead of a price.
+   */
+  async getPlanChangeQuote(userId: string, newPlanId: string, couponCode?: string) {
+    const context = await this.getPlanChangeContext(userId);
+
+    if (!context) {
+      return null;
+    }
+
+    const couponCheck = couponCode
+      ? await this.checkCoupon(context, newPlanId, couponCode)
+      : null;
+
+    if (couponCheck && !couponCheck.success) {
+      return { couponError: couponCheck };
+    }
+
+    const { preview } = this.calculatePlanChange(
+      context,
+      newPlanId,
+      0,
+      undefined,
+      couponCheck?.coupon
+    );
+
+    return {
+      currentPlan: context.user.planType,
+      newPlan: newPlanId,
+      amount: preview.amountDue,
+      currency: preview.currency,
+      region: preview.region,
+      isUpgrade: preview.changeType === 'upgrade',
+      preview,
+    };
+  }
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // GATEWAY RENEWALS
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  /**
+   * Extend a gateway-billed subscription after the gateway charged a renewal.
+   * A gateway subscription seen for the first time is linked through the
+   * userId/planName in its notes. Repeats are no-ops: the renewal
+   * transaction is keyed by the gateway payment id.
+   * A charge after the user turned renewal off, or one that is not the
+   * price of the plan it would renew into, is kept as a needs_review
+   * transaction and changes nothing. So is a charge no subscription can be
+   * matched to; when its account no longer exists, the gateway subscription
+   * is cancelled so it stops charging.
+   */
+  async renewFromGateway(renewal: GatewayRenewal): Promise<GatewayRenewalResult> {
+    try {
+      const alreadyRecorded = await prisma.transaction.findUnique({
+        where: { gatewayPaymentId: renewal.paymentId },
+        select: { id: true },
+      });
+      if (alreadyRecorded) {
+        return { success: true, duplicate: true, message: 'Renewal already recorded' };
+      }
+
+      let subscription = await prisma.subscription.findUnique({
+        where: { gatewaySubscriptionId: renewal.gatewaySubscriptionId },
+      });
+
+      if (!subscription && renewal.userId) {
+        subscription = await prisma.subscription.findFirst({
+          where: {
+            userId: renewal.userId,
+            planName: renewal.planName || { notIn: FREE_PLANS },
+            gatewaySubscriptionId: null,
+          },
+          orderBy: { createdAt: 'desc' },
+        });
+      }
+
+      if (!subscription) {
+        return await this.flagUnmatchedRenewal(renewal);
+      }
+
+      // New period: the gateway's period end, else one month past the current end
+      const now = new Date();
+      const fallbackEnd = new Date(subscription.endDate > now ? subscription.endDate : now);
+      fallbackEnd.setMonth(fallbackEnd.getMonth() + 1);
+      const endDate = renewal.periodEnd && renewal.periodEnd > now ? renewal.periodEnd : fallbackEnd;
+
+      // A downgrade scheduled for this period end starts with the renewal
+      const scheduledPlan = subscription.scheduledPlanName;
+      const planName =
+        scheduledPlan && !FREE_PLANS.includes(scheduledPlan) ? scheduledPlan : subscription.planName;
+      const planPrice = this.getRegionalPrice(plansManager.getPlanByName(planName), subscription.region);
+      const scheduledPlanPrice = planName !== subscription.planName ? planPrice : undefined;
+
+      const amount = Math.round(renewal.amount * 100); // Minor units, like order transactions
+      const currency = renewal.currency || subscription.currency;
+      const expectedAmount = Math.round(planPrice * 100);
+
+      // Charges we did not expect are recorded for review and never applied:
+      // the user turned renewal off, or the amount is not the plan's price
+      const problem = !subscription.autoRenew
+        ? 'automatic renewal was turned off'
+        : currency !== subscription.currency || amount !== expectedAmount
+          ? `charged ${amount} ${currency}, ${planName} costs ${expectedAmount} ${subscription.currency}`
+          : null;
+
+      if (problem) {
+        await prisma.transaction.create({
+          data: {
+            userId: subscription.userId,
+            type: 'subscription_renewal',
+            amount,
+            currency,
+            status: 'needs_review',
+            planName,
+            paymentGateway: renewal.gateway,
+            gatewayPaymentId: renewal.paymentId,
+            gatewayMetadata: { subscriptionId: renewal.gatewaySubscriptionId },
+            region: subscription.region,
+            description: `Unapplied ${planName} renewal: ${problem}`,
+          },
+        });
+
+        console.error(`[SubscriptionService] Renewal ${renewal.paymentId} for subscription ${subscription.id} flagged: ${problem}`);
+
+        return {
+          success: false,
+          flagged: true,
+          message: `Renewal not applied (${problem}); recorded for review`,
+        };
+      }
+
+      const [renewalTransaction] = await prisma.$transaction([
+        prisma.transaction.create({
+          data: {
+            userId: subscription.userId,
+            type: 'subscription_renewal',
+            amount,
+            currency,
+            status: 'success',
+            planName,
+            paymentGateway: renewal.gateway,
+            gatewayPaymentId: renewal.paymentId,
+            gatewayMetadata: { subscriptionId: renewal.gatewaySubscriptionId },
+            region: subscription.region,
+            description: `${planName} plan renewal - ${subscription.region} region`,
+          },
+        }),
+        prisma.subscription.update({
+          where: { id: subscription.id },
+          data: {
+            status: 'ACTIVE',
+            endDate,
+            autoRenew: true,
+            cancelledAt: null,
+            paymentGateway: renewal.gateway,
+            gatewaySubscriptionId: renewal.gatewaySubscriptionId,
+            ...(scheduledPlanPrice !== undefined
+              ? {
+                  planName,
+                  planPrice: Math.round(scheduledPlanPrice),
+                  scheduledPlanName: null,
+                  scheduledChangeAt: null,
+                }
+              : {}),
+          },
+        }),
+      ]);
+
+      invoiceService.issueInBackground(renewalTransaction.id);
+
+      // Restores the plan if the expiry cron already dropped the user to STARTER
+      const syncResult = await planSyncService.updateUserPlanWithSync(
+        subscription.userId,
+        planName as PlanType,
+        {
+          resetUsage: true,    // New billing period
+          extendCycle: true,
+        }
+      );
+      if (!syncResult.success) {
+        console.error('[SubscriptionService] Plan sync failed:', syncResult.message);
+      }
+
+      await prisma.user.update({
+        where: { id: subscription.userId },
+        data: {
+          planStatus: 'ACTIVE',
+          planEndDate: endDate,
+        },
+      });
+
+      console.log(`[SubscriptionService] Subscription ${subscription.id} renewed via ${renewal.gateway} until ${endDate.toISOString()}`);
+
+      return {
+        success: true,
+        message: 'Subscription renewed',
+        subscriptionId: subscription.id,
+        endDate,
+      };
+    } catch (error: any) {
+      if (error.code === 'P2002') {
+        return { success: true, duplicate: true, message: 'Renewal already recorded' };
+      }
+      console.error('[SubscriptionService] Gateway renewal error:', error);
+      return {
+        success: false,
+        retryable: true,
+        message: error.message || 'Failed to renew subscription',
+      };
+    }
+  }
+
+  /**
+   * Keep a renewal charge no subscription matches as a needs_review
+   * transaction of its user. Without an account there is nothing to record
+   * it against: the gateway subscription is cancelled and the charge logged
+   * for a manual refund.
+   */
+  private async flagUnmatchedRenewal(renewal: GatewayRenewal): Promise<GatewayRenewalResult> {
+    const link = `${renewal.gateway} subscription ${renewal.gatewaySubscriptionId}`;
+    const user = renewal.userId
+      ? await prisma.user.findUnique({
+          where: { id: renewal.userId },
+          select: { id: true, region: true, currency: true },
+        })
+      : null;
+
+    if (!user) {
+      await this.getGateway(renewal.gateway).cancelSubscription(renewal.gatewaySubscriptionId, {
+        atPeriodEnd: false,
+      });
+      console.error(`[SubscriptionService] Renewal ${renewal.paymentId} of ${link} has no account; gateway subscription cancelled, refund the charge manually`);
+
+      return {
+        success: false,
+        flagged: true,
+        message: `No account for ${link}; gateway subscription cancelled`,
+      };
+    }
+
+    await prisma.transaction.create({
+      data: {
+        userId: user.id,
+        type: 'subscription_renewal',
+        amount: Math.round(renewal.amount * 100),
+        currency: renewal.currency || user.currency || Currency.INR,
+        status: 'needs_review',
+        planName: renewal.planName,
+        paymentGateway: renewal.gateway,
+        gatewayPaymentId: renewal.paymentId,
+        gatewayMetadata: { subscriptionId: renewal.gatewaySubscriptionId },
+        region: user.region || Region.IN,
+        description: `Unapplied renewal: no subscription linked to ${link}`,
+      },
+    });
+
+    console.error(`[SubscriptionService] Renewal ${renewal.paymentId} of ${link} matches no subscription of user ${user.id}; flagged`);
+
+    return {
+      success: false,
+      flagged: true,
+      message: `No subscription linked to ${link}; recorded for review`,
+    };
+  }
+
+  /**
+   * Account deletion: cancel every gateway subscription of the user that
+   * would still renew, effective immediately. Throws when a gateway refuses,
+   * so the account is not deleted while it can still be charged.
+   */
+  async stopGatewayRenewals(userId: string): Promise<number> {
+    const renewing = await prisma.subscription.findMany({
+      where: { userId, autoRenew: true, gatewaySubscriptionId: { not: null } },
+    });
+
+    let cancelled = 0;
+    for (const subscription of renewing) {
+      const gateway = this.getRenewingGateway(subscription);
+      if (!gateway) {
+        continue;
+      }
+
+      await gateway.cancelSubscription(subscription.gatewaySubscriptionId!, { atPeriodEnd: false });
+      await prisma.subscription.update({
+        where: { id: subscription.id },
+        data: { autoRenew: false, cancelledAt: new Date() },
+      });
+      cancelled++;
+    }
+
+    return cancelled;
+  }
+
   // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
   // CRON JOB - EXPIRY MANAGEMENT
   // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
@@ -759,9 +1335,13 @@ export class SubscriptionService {
    * Note: This runs server-side, so no token refresh needed here
    * Users will get new token on next login
    * ✅ UPDATED: Skip FREE plans (STARTER/LITE) - they don't expire
+   * Scheduled downgrades are applied first: they decide which plan the
+   * period ends into
    */
   async checkExpiredSubscriptions() {
     try {
+      const scheduledChanges = await this.applyScheduledPlanChanges();
+
       const expiredSubscriptions = await prisma.subscription.findMany({
         where: {
           endDate: { lte: new Date() },
@@ -774,10 +1354,16 @@ export class SubscriptionService {
       let expiredCount = 0;
       let renewedCount = 0;
 
+      const graceCutoff = new Date(Date.now() - RENEWAL_GRACE_HOURS * 60 * 60 * 1000);
+
       for (const sub of expiredSubscriptions) {
+        // The gateway charges these itself; give its renewal webhook time to arrive
+        if (sub.autoRenew && sub.gatewaySubscriptionId && sub.endDate > graceCutoff) {
+          continue;
+        }
+
         if (sub.autoRenew) {
-          // TODO: Attempt to renew payment via payment gateway
-          // For now, just mark as expired
+          // No renewal arrived (or not gateway-billed) - expire
           await prisma.subscription.update({
             where: { id: sub.id },
             data: { status: 'EXPIRED' },
@@ -836,9 +1422,11 @@ export class SubscriptionService {
 
       return {
         success: true,
-        message: `Processed ${expiredCount} expired subscriptions`,
+        message: `Processed ${expiredCount} expired subscriptions, ${scheduledChanges.applied} scheduled plan changes`,
         expiredCount,
         renewedCount,
+        scheduledChangesApplied: scheduledChanges.applied,
+        scheduledChangesFailed: scheduledChanges.failed,
       };
     } catch (error: any) {
       console.error('[SubscriptionService] Check expired subscriptions error:', error);
@@ -849,10 +1437,186 @@ export class SubscriptionService {
     }
   }
 
+  /**
+   * Apply downgrades whose period has ended. Plan limits in Usage /
+   * ImageUsage switch here, through planSyncService.
+   * - To a free plan: the paid subscription ends (CANCELLED)
+   * - To a lower paid plan: the subscription carries on at the new price.
+   *   Account credit pays the next period when it covers it; otherwise the
+   *   gateway renewal or the expiry check below handles the period as usual
+   */
+  async applyScheduledPlanChanges() {
+    const dueChanges = await prisma.subscription.findMany({
+      where: {
+        status: 'ACTIVE',
+        scheduledPlanName: { not: null },
+        scheduledChangeAt: { lte: new Date() },
+      },
+    });
+
+    let applied = 0;
+    let failed = 0;
+
+    for (const sub of dueChanges) {
+      try {
+        await this.applyScheduledChange(sub);
+        applied++;
+      } catch (error: any) {
+        failed++;
+        console.error(`[SubscriptionService] Scheduled change failed for subscription ${sub.id}:`, error);
+      }
+    }
+
+    if (dueChanges.length > 0) {
+      console.log(`[SubscriptionService] Applied ${applied}/${dueChanges.length} scheduled plan changes`);
+    }
+
+    return { applied, failed };
+  }
+
+  private async applyScheduledChange(sub: Subscription) {
+    const newPlanId = sub.scheduledPlanName!;
+    const description = `Scheduled downgrade: ${sub.planName} → ${newPlanId} (${sub.region})`;
+
+    // Renewal is off (gateway-billed downgrade): the period just ends and the
+    // user subscribes to the new plan, so only the schedule is cleared
+    if (!FREE_PLANS.includes(newPlanId) && !sub.autoRenew) {
+      await prisma.subscription.update({
+        where: { id: sub.id },
+        data: { scheduledPlanName: null, scheduledChangeAt: null },
+      });
+      return;
+    }
+
+    if (FREE_PLANS.includes(newPlanId)) {
+      await prisma.$transaction([
+        prisma.subscription.update({
+          where: { id: sub.id },
+          data: {
+            status: 'CANCELLED',
+            cancelledAt: new Date(),
+            autoRenew: false,
+            scheduledPlanName: null,
+            scheduledChangeAt: null,
+          },
+        }),
+        prisma.transaction.create({
+          data: {
+            userId: sub.userId,
+            type: 'free_downgrade',
+            amount: 0,
+            currency: sub.currency,
+            status: 'success',
+            planName: newPlanId,
+            paymentGateway: 'free',
+            region: sub.region,
+            description,
+          },
+        }),
+      ]);
+
+      await planSyncService.updateUserPlanWithSync(sub.userId, newPlanId as PlanType, {
+        resetUsage: true,
+        extendCycle: true,
+      });
+
+      await prisma.user.update({
+        where: { id: sub.userId },
+        data: { planStatus: 'ACTIVE', planEndDate: null },
+      });
+    } else {
+      const newPlanPrice = this.getRegionalPrice(plansManager.getPlanByName(newPlanId), sub.region);
+      const priceMinor = Math.round(newPlanPrice * 100);
+
+      const user = await prisma.user.findUnique({
+        where: { id: sub.userId },
+        select: { creditBalance: true },
+      });
+
+      // Gateway subscriptions are charged by the gateway, never from credit
+      const payFromCredit = !sub.gatewaySubscriptionId && (user?.creditBalance ?? 0) >= priceMinor;
+      const endDate = new Date(sub.endDate);
+      endDate.setMonth(endDate.getMonth() + 1);
+
+      await prisma.$transaction(async (tx) => {
+        if (payFromCredit) {
+          const renewal = await tx.transaction.create({
+            data: {
+              userId: sub.userId,
+              type: 'subscription_renewal',
+              amount: 0,
+              currency: sub.currency,
+              status: 'success',
+              planName: newPlanId,
+              paymentGateway: 'credit',
+              region: sub.region,
+              description: `${description}, renewed from account credit`,
+            },
+          });
+
+          await creditService.applyMovements(tx, sub.userId, sub.currency, [
+            {
+              amount: -priceMinor,
+              reason: 'renewal',
+              description: `${newPlanId} plan renewal`,
+              transactionId: renewal.id,
+            },
+          ]);
+        }
+
+        await tx.subscription.update({
+          where: { id: sub.id },
+          data: {
+            planName: newPlanId,
+            planPrice: Math.round(newPlanPrice),
+            scheduledPlanName: null,
+            scheduledChangeAt: null,
+            ...(payFromCredit ? { startDate: sub.endDate, endDate } : {}),
+          },
+        });
+      });
+
+      await planSyncService.updateUserPlanWithSync(sub.userId, newPlanId as PlanType, {
+        resetUsage: true,
+        extendCycle: payFromCredit,
+      });
+
+      if (payFromCredit) {
+        await prisma.user.update({
+          where: { id: sub.userId },
+          data: { planStatus: 'ACTIVE', planEndDate: endDate },
+        });
+      }
+    }
+
+    console.log(`[SubscriptionService] ${description} applied for user ${sub.userId}`);
+  }
+
   // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
   // HELPER METHODS
   // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
+  /**
+   * The gateway renewing this subscription on its own schedule, or null
+   * when we bill it (orders, credit)
+   */
+  private getRenewingGateway(subscription: Subscription): PaymentGateway | null {
+    const provider = subscription.paymentGateway;
+    if (!subscription.gatewaySubscriptionId || !provider || !isPaymentGatewayProvider(provider)) {
+      return null;
+    }
+    return this.getGateway(provider);
+  }
+
+  private getGateway(provider: PaymentGatewayProvider): PaymentGateway {
+    let gateway = this.gateways.get(provider);
+    if (!gateway) {
+      gateway = createPaymentGateway(provider);
+      this.gateways.set(provider, gateway);
+    }
+    return gateway;
+  }
+
   /**
    * ✅ NEW: Get regional price for a plan
    */
@@ -868,30 +1632,262 @@ export class SubscriptionService {
     return plan.price;  // Use INR price for India
   }
 
+  private async getPlanChangeContext(userId: string): Promise<PlanChangeContext | null> {
+    const [user, activeSubscription] = await Promise.all([
+      prisma.user.findUnique({
+        where: { id: userId },
+        select: {
+          id: true,
+          email: true,
+          planType: true,
+          planEndDate: true,
+          region: true,
+          currency: true,
+          creditBalance: true,
+        },
+      }),
+      prisma.subscription.findFirst({
+        where: {
+          userId,
+          status: 'ACTIVE',
+        },
+        orderBy: { createdAt: 'desc' },
+      }),
+    ]);
+
+    if (!user) {
+      return null;
+    }
+
+    // The latest successful payment for the current plan paid for this period
+    const periodPayment = activeSubscription
+      ? await prisma.transaction.findFirst({
+          where: {
+            userId,
+            type: { in: ['subscription', 'subscription_renewal'] },
+            status: 'success',
+            planName: user.planType,
+            currency: user.currency || Currency.INR,
+          },
+          orderBy: { updatedAt: 'desc' },
+          select: { id: true, amount: true },
+        })
+      : null;
+
+    // Credit spent on it is debited against the same transaction
+    const creditSpent = periodPayment
+      ? await prisma.creditLedgerEntry.aggregate({
+          where: { userId, transactionId: periodPayment.id, amount: { lt: 0 } },
+          _sum: { amount: true },
+        })
+      : null;
+
+    const periodValueMinor = (periodPayment?.amount ?? 0) - (creditSpent?._sum.amount ?? 0);
+
+    return { user, activeSubscription, periodValueMinor };
+  }
+
   /**
-   * ✅ FIXED: Calculate prorated amount for plan changes with regional pricing
+   * Price a move to newPlanId (see PlanChangePreview). Works in minor units;
+   * the preview is in major units.
+   * paidMinor: verified payment toward this change - credit only covers the rest.
+   * pricedAt: when the unused time is measured (the order's creation time for paid changes).
+   * Unused time is credited at what the period was worth (paid plus credit
+   * spent on it), not the list price.
+   * coupon: discount checked by checkCoupon, taken off the price before credit.
    */
-  private calculateProratedAmount(
-    user: any,
-    currentPlanPrice: number,
-    newPlanPrice: number
-  ): number {
-    if (!user.planEndDate) return newPlanPrice;
+  private calculatePlanChange(
+    context: PlanChangeContext,
+    newPlanId: string,
+    paidMinor: number = 0,
+    pricedAt: Date = new Date(),
+    coupon?: AppliedCoupon
+  ) {
+    const { user, activeSubscription } = context;
+    const currentPlan = plansManager.getPlanByName(user.planType);
+    const newPlan = plansManager.getPlanByName(newPlanId);
+
+    if (!newPlan) {
+      throw new Error('Invalid plan selected');
+    }
+
+    // ✅ Get regional prices
+    const userRegion = user.region || Region.IN;
+    const userCurrency = user.currency || Currency.INR;
+
+    const currentPlanPrice = currentPlan ? this.getRegionalPrice(currentPlan, userRegion) : 0;
+    const newPlanPrice = this.getRegionalPrice(newPlan, userRegion);
 
+    // ✅ Handle FREE plan transitions
+    const isCurrentPlanFree = FREE_PLANS.includes(user.planType);
+    const isNewPlanFree = FREE_PLANS.includes(newPlanId);
+    const isUpgrade = (PLAN_HIERARCHY[newPlanId] ?? 0) > (PLAN_HIERARCHY[user.planType] ?? 0);
+
+    // A paid period that is still running
     const now = new Date();
-    const endDate = new Date(user.planEndDate);
-    const daysRemaining = Math.ceil((endDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
-    
-    if (daysRemaining <= 0) return newPlanPrice;
+    const paidPeriod =
+      !isCurrentPlanFree && activeSubscription && activeSubscription.endDate > now
+        ? activeSubscription
+        : null;
+
+    const scheduled = !isUpgrade && paidPeriod !== null;
+
+    // ✅ Unused time of the current period, credited toward an upgrade
+    let unusedMinor = 0;
+    let unusedDays = 0;
+    if (isUpgrade && paidPeriod) {
+      const periodMs = Math.max(paidPeriod.endDate.getTime() - paidPeriod.startDate.getTime(), DAY_MS);
+      const remainingMs = Math.min(Math.max(paidPeriod.endDate.getTime() - pricedAt.getTime(), 0), periodMs);
+      // Credit what the period was worth, never more than the list price
+      const periodPriceMinor = Math.min(context.periodValueMinor, Math.round(currentPlanPrice * 100));
+      unusedMinor = Math.floor((periodPriceMinor * remainingMs) / periodMs);
+      unusedDays = Math.ceil(remainingMs / DAY_MS);
+    }
 
-    const totalDays = 30; // 30-day billing cycle
-    
-    // ✅ Calculate prorated amounts using regional prices
-    const currentPlanProration = (currentPlanPrice / totalDays) * daysRemaining;
-    const newPlanProration = (newPlanPrice / totalDays) * daysRemaining;
+    const newPlanPriceMinor = isNewPlanFree || scheduled ? 0 : Math.round(newPlanPrice * 100);
+    const discountMinor = coupon ? Math.min(coupon.discount, newPlanPriceMinor) : 0;
+    const chargeMinor = newPlanPriceMinor - discountMinor;
+    const availableMinor = unusedMinor + user.creditBalance;
+    const appliedMinor = Math.min(availableMinor, Math.max(0, chargeMinor - paidMinor));
+    const dueMinor = Math.max(0, chargeMinor - paidMinor - appliedMinor);
+
+    let newPeriodEnd: Date | null = null;
+    if (!isNewPlanFree && !scheduled) {
+      newPeriodEnd = new Date(now);
+      newPeriodEnd.setMonth(newPeriodEnd.getMonth() + 1);
+    }
+
+    const preview: PlanChangePreview = {
+      currentPlan: user.planType,
+      newPlan: newPlanId,
+      changeType: isUpgrade ? 'upgrade' : 'downgrade',
+      effective: scheduled ? 'period_end' : 'immediate',
+      effectiveAt: scheduled ? paidPeriod!.endDate : now,
+      region: userRegion,
+      currency: userCurrency,
+      newPlanPrice: isNewPlanFree ? 0 : newPlanPrice,
+      couponCode: discountMinor > 0 ? coupon!.code : null,
+      discount: discountMinor / 100,
+      unusedCredit: unusedMinor / 100,
+      unusedDays,
+      creditBalance: user.creditBalance / 100,
+      creditApplied: appliedMinor / 100,
+      amountDue: dueMinor / 100,
+      creditBalanceAfter: (availableMinor - appliedMinor) / 100,
+      newPeriodEnd,
+    };
+
+    return {
+      preview,
+      paidPeriod,
+      isCurrentPlanFree,
+      isNewPlanFree,
+      currentPlanPrice,
+      unusedMinor,
+      appliedMinor,
+      dueMinor,
+      coupon: discountMinor > 0 ? { ...coupon!, discount: discountMinor } : undefined,
+    };
+  }
+
+  /**
+   * Check a coupon against the price of an immediate change to a paid plan.
+   * Scheduled downgrades and free plans have nothing to discount.
+   */
+  private async checkCoupon(
+    context: PlanChangeContext,
+    newPlanId: string,
+    code: string,
+    asOf?: Date,
+    transactionId?: string
+  ): Promise<CouponCheckResult> {
+    const { preview, isNewPlanFree } = this.calculatePlanChange(context, newPlanId, 0, asOf);
+
+    if (isNewPlanFree || preview.effective === 'period_end') {
+      return {
+        success: false,
+        error: 'Coupons apply to upgrades and new paid plans only',
+        reason: 'not_applicable',
+      };
+    }
+
+    return couponService.evaluate(context.user.id, code, {
+      purpose: 'subscription',
+      planName: newPlanId,
+      region: preview.region,
+      currency: preview.currency,
+      amount: Math.round(preview.newPlanPrice * 100),
+      asOf,
+      transactionId,
+    });
+  }
+
+  /**
+   * Ledger entries for an immediate change: the unused time comes in as
+   * credit, then whatever the new plan needs goes out
+   */
+  private getCreditMovements(
+    currentPlan: string,
+    change: ReturnType<SubscriptionService['calculatePlanChange']>,
+    transactionId?: string
+  ): CreditMovement[] {
+    return [
+      {
+        amount: change.unusedMinor,
+        reason: 'proration',
+        description: `Unused ${change.preview.unusedDays} days of ${currentPlan} plan`,
+        transactionId,
+      },
+      {
+        amount: -change.appliedMinor,
+        reason: 'plan_change',
+        description: `Applied to ${change.preview.newPlan} plan`,
+        transactionId,
+      },
+    ];
+  }
+
+  /**
+   * Record a downgrade for the end of the paid period; nothing changes now
+   */
+  private async scheduleDowngrade(subscription: Subscription, preview: PlanChangePreview) {
+    if (subscription.cancelledAt && !subscription.autoRenew) {
+      throw new Error(
+        `Your ${subscription.planName} subscription is cancelled and ends on ${subscription.endDate.toDateString()}. Reactivate it to schedule a plan change.`
+      );
+    }
+
+    const toFreePlan = FREE_PLANS.includes(preview.newPlan);
+
+    // The gateway would keep charging the current plan's price: stop its
+    // renewals. A lower paid plan is then bought when this period ends.
+    const gateway = this.getRenewingGateway(subscription);
+    if (gateway && subscription.autoRenew) {
+      await gateway.cancelSubscription(subscription.gatewaySubscriptionId!, { atPeriodEnd: true });
+    }
+
+    await prisma.subscription.update({
+      where: { id: subscription.id },
+      data: {
+        scheduledPlanName: preview.newPlan,
+        scheduledChangeAt: preview.effectiveAt,
+        autoRenew: !toFreePlan && !gateway, // A free plan has no period to renew
+      },
+    });
 
-    // Return difference (can be negative for downgrades)
-    return Math.max(0, newPlanProration - currentPlanProration);
+    console.log(`[SubscriptionService] ${preview.currentPlan} → ${preview.newPlan} scheduled for ${preview.effectiveAt.toISOString()} (user ${subscription.userId})`);
+
+    return {
+      success: true,
+      message:
+        gateway && !toFreePlan
+          ? `Your ${preview.currentPlan} plan will not renew. You keep it until ${preview.effectiveAt.toDateString()}, then subscribe to ${preview.newPlan} to continue.`
+          : `Your plan changes to ${preview.newPlan} on ${preview.effectiveAt.toDateString()}. You keep ${preview.currentPlan} until then.`,
+      scheduled: true,
+      isUpgrade: false,
+      effectiveAt: preview.effectiveAt,
+      preview,
+    };
   }
 
   /**
@@ -578,6 +578,36 @@ export class UsageService {
     }
   }
 
+  /**
+   * Start a new cycle for every user whose monthly cycle has ended (scheduled job)
+   */
+  async resetDueMonthlyUsage() {
+    const due = await prisma.usage.findMany({
+      where: { cycleEndDate: { lte: new Date() } },
+      select: { userId: true },
+    });
+
+    let resetCount = 0;
+    let failedCount = 0;
+
+    for (const { userId } of due) {
+      try {
+        await this.resetMonthlyUsage(userId);
+        resetCount++;
+      } catch (error: any) {
+        failedCount++;
+        console.error(`[UsageService] Monthly reset failed for ${userId}:`, error.message);
+      }
+    }
+
+    return {
+      success: failedCount === 0,
+      message: `Monthly usage reset for ${resetCount} users (${failedCount} failed)`,
+      resetCount,
+      failedCount,
+    };
+  }
+
   async addBonusWords(userId: string, bonusWords: number) {
     try {
       return await prisma.usage.update({
@@ -592,6 +622,23 @@ export class UsageService {
     }
   }
 
+  /**
+   * Top up the current cycle's bonus token pool (referral rewards)
+   */
+  async addBonusTokens(userId: string, tokens: number) {
+    try {
+      return await prisma.usage.update({
+        where: { userId },
+        data: {
+          bonusTokensTotal: { increment: tokens },
+          bonusTokensRemaining: { increment: tokens },
+        },
+      });
+    } catch (error: any) {
+      throw new Error(`Failed to add bonus tokens: ${error.message}`);
+    }
+  }
+
   async updateLimitsOnPlanChange(userId: string, newPlanId: string) {
     try {
       const newPlan = plansManager.getPlanByName(newPlanId);
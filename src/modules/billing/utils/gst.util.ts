@@ -0,0 +1,218 @@
+/**
+ * ==========================================
+ * GST UTILITY CLASS
+ * ==========================================
+ * Indian GST helpers for tax invoices: state codes, GSTIN validation,
+ * CGST/SGST vs IGST split, financial year and amount in words
+ * Last Updated: October 18, 2026
+ */
+
+const GSTIN_PATTERN = /^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+const GSTIN_ALPHABET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+// India Standard Time, used for invoice dates and financial years
+const IST_OFFSET_MS = (5 * 60 + 30) * 60 * 1000;
+
+const ONES = [
+  '',
+  'One',
+  'Two',
+  'Three',
+  'Four',
+  'Five',
+  'Six',
+  'Seven',
+  'Eight',
+  'Nine',
+  'Ten',
+  'Eleven',
+  'Twelve',
+  'Thirteen',
+  'Fourteen',
+  'Fifteen',
+  'Sixteen',
+  'Seventeen',
+  'Eighteen',
+  'Nineteen',
+];
+const TENS = ['', '', 'Twenty', 'Thirty', 'Forty', 'Fifty', 'Sixty', 'Seventy', 'Eighty', 'Ninety'];
+
+/** GST state / union territory codes (first two digits of a GSTIN) */
+export const GST_STATES: Record<string, string> = {
+  '01': 'Jammu and Kashmir',
+  '02': 'Himachal Pradesh',
+  '03': 'Punjab',
+  '04': 'Chandigarh',
+  '05': 'Uttarakhand',
+  '06': 'Haryana',
+  '07': 'Delhi',
+  '08': 'Rajasthan',
+  '09': 'Uttar Pradesh',
+  '10': 'Bihar',
+  '11': 'Sikkim',
+  '12': 'Arunachal Pradesh',
+  '13': 'Nagaland',
+  '14': 'Manipur',
+  '15': 'Mizoram',
+  '16': 'Tripura',
+  '17': 'Meghalaya',
+  '18': 'Assam',
+  '19': 'West Bengal',
+  '20': 'Jharkhand',
+  '21': 'Odisha',
+  '22': 'Chhattisgarh',
+  '23': 'Madhya Pradesh',
+  '24': 'Gujarat',
+  '26': 'Dadra and Nagar Haveli and Daman and Diu',
+  '27': 'Maharashtra',
+  '29': 'Karnataka',
+  '30': 'Goa',
+  '31': 'Lakshadweep',
+  '32': 'Kerala',
+  '33': 'Tamil Nadu',
+  '34': 'Puducherry',
+  '35': 'Andaman and Nicobar Islands',
+  '36': 'Telangana',
+  '37': 'Andhra Pradesh',
+  '38': 'Ladakh',
+  '97': 'Other Territory',
+};
+
+export interface GstSplit {
+  taxableAmount: number;
+  cgstAmount: number;
+  sgstAmount: number;
+  igstAmount: number;
+}
+
+export class GSTUtil {
+  /**
+   * Format + check character (base-36 weighted checksum)
+   */
+  static isValidGstin(gstin: string): boolean {
+    if (!GSTIN_PATTERN.test(gstin) || !GST_STATES[gstin.slice(0, 2)]) {
+      return false;
+    }
+
+    let sum = 0;
+    for (let i = 0; i < 14; i++) {
+      const product = GSTIN_ALPHABET.indexOf(gstin[i]) * (i % 2 === 0 ? 1 : 2);
+      sum += Math.floor(product / 36) + (product % 36);
+    }
+    return GSTIN_ALPHABET[(36 - (sum % 36)) % 36] === gstin[14];
+  }
+
+  static getStateCode(gstin: string): string {
+    return gstin.slice(0, 2);
+  }
+
+  static getStateName(stateCode: string): string | undefined {
+    return GST_STATES[stateCode];
+  }
+
+  /**
+   * State code from a state name as stored on the user (home/current state)
+   */
+  static findStateCode(stateName?: string | null): string | undefined {
+    if (!stateName) {
+      return undefined;
+    }
+    const wanted = stateName.trim().toLowerCase();
+    return Object.keys(GST_STATES).find((code) => GST_STATES[code].toLowerCase() === wanted);
+  }
+
+  /**
+   * Back the tax out of a GST-inclusive amount (minor units). Intra-state
+   * supplies split it into CGST + SGST, inter-state supplies charge IGST.
+   */
+  static splitInclusiveAmount(total: number, ratePercent: number, intraState: boolean): GstSplit {
+    const taxableAmount = Math.round((total * 100) / (100 + ratePercent));
+    const tax = total - taxableAmount;
+
+    if (!intraState) {
+      return { taxableAmount, cgstAmount: 0, sgstAmount: 0, igstAmount: tax };
+    }
+
+    const cgstAmount = Math.floor(tax / 2);
+    return { taxableAmount, cgstAmount, sgstAmount: tax - cgstAmount, igstAmount: 0 };
+  }
+
+  /**
+   * Indian financial year (April-March, IST) of a date, e.g. "2026-27"
+   */
+  static getFinancialYear(date: Date = new Date()): string {
+    const ist = new Date(date.getTime() + IST_OFFSET_MS);
+    const startYear = ist.getUTCMonth() >= 3 ? ist.getUTCFullYear() : ist.getUTCFullYear() - 1;
+    return `${startYear}-${String((startYear + 1) % 100).padStart(2, '0')}`;
+  }
+
+  /**
+   * "Rupees One Thousand Four Hundred Ninety Nine and Fifty Paise Only".
+   * INR uses lakh/crore grouping, other currencies million/billion.
+   */
+  static amountInWords(minorAmount: number, currency: string): string {
+    const major = Math.floor(minorAmount / 100);
+    const fraction = minorAmount % 100;
+    const indian = currency === 'INR';
+
+    const unit = indian ? 'Rupees' : currency === 'USD' ? 'US Dollars' : currency;
+    const subunit = indian ? 'Paise' : 'Cents';
+    const words = indian ? this.indianWords(major) : this.internationalWords(major);
+
+    return `${unit} ${words}${fraction ? ` and ${this.belowHundred(fraction)} ${subunit}` : ''} Only`;
+  }
+
+  // ==========================================
+  // NUMBER TO WORDS
+  // ==========================================
+
+  private static belowHundred(n: number): string {
+    if (n < 20) {
+      return ONES[n];
+    }
+    return [TENS[Math.floor(n / 10)], ONES[n % 10]].filter(Boolean).join(' ');
+  }
+
+  private static belowThousand(n: number): string {
+    const hundreds = Math.floor(n / 100);
+    return [hundreds ? `${ONES[hundreds]} Hundred` : '', this.belowHundred(n % 100)]
+      .filter(Boolean)
+      .join(' ');
+  }
+
+  private static indianWords(n: number): string {
+    if (n === 0) {
+      return 'Zero';
+    }
+
+    const crore = Math.floor(n / 10000000);
+    const lakh = Math.floor((n % 10000000) / 100000);
+    const thousand = Math.floor((n % 100000) / 1000);
+
+    return [
+      crore ? `${this.indianWords(crore)} Crore` : '',
+      lakh ? `${this.belowHundred(lakh)} Lakh` : '',
+      thousand ? `${this.belowHundred(thousand)} Thousand` : '',
+      this.belowThousand(n % 1000),
+    ]
+      .filter(Boolean)
+      .join(' ');
+  }
+
+  private static internationalWords(n: number): string {
+    if (n === 0) {
+      return 'Zero';
+    }
+
+    const scales = ['', 'Thousand', 'Million', 'Billion', 'Trillion'];
+    const parts: string[] = [];
+    for (let scale = 0; n > 0 && scale < scales.length; scale++) {
+      const group = n % 1000;
+      if (group) {
+        parts.unshift([this.belowThousand(group), scales[scale]].filter(Boolean).join(' '));
+      }
+      n = Math.floor(n / 1000);
+    }
+    return parts.join(' ');
+  }
+}
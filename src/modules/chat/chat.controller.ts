@@ -25,18 +25,44 @@
  * - POST   /api/chat/send                    → Send a message
  * - GET    /api/chat/history/:sessionId      → Get chat history
  * - GET    /api/chat/sessions                → Get all user chats
+ * - GET    /api/chat/search                  → Search chat history (keyword/semantic)
  * - DELETE /api/chat/session/:sessionId      → Delete a chat
  * - DELETE /api/chat/sessions/all            → Clear all chats
  * - PATCH  /api/chat/session/:sessionId/title → Update chat title
+ * - GET    /api/chat/session/:sessionId/branches          → Get branch tree
+ * - POST   /api/chat/session/:sessionId/branches          → Fork at a message
+ * - PUT    /api/chat/session/:sessionId/branches/active   → Switch active branch
+ * - GET    /api/chat/session/:sessionId/branches/compare  → Compare two branches
+ * - GET    /api/chat/session/:sessionId/branches/stats    → Branch statistics
+ * - POST   /api/chat/session/:sessionId/branches/:branchId/merge → Merge a branch
+ * - DELETE /api/chat/session/:sessionId/branches/:branchId → Delete a branch
+ * - PATCH  /api/chat/message/:messageId      → Edit a message (creates a branch)
+ * - POST   /api/chat/message/:messageId/regenerate → Regenerate a response (SSE)
+ * - PUT    /api/chat/message/:messageId/reaction   → React to a response
+ * - PATCH  /api/chat/session/:sessionId/pin     → Pin/unpin a chat
+ * - PATCH  /api/chat/session/:sessionId/archive → Archive/unarchive a chat
+ * - POST   /api/chat/export                  → Export conversations (download)
+ * - GET    /api/chat/export/limits           → Export limits and today's usage
+ * - GET    /api/chat/export/session/:sessionId → Export one conversation (download)
  */
 
 import { Request, Response } from 'express';
+import * as fs from 'fs';
 import { ChatService } from './chat.service';
 import { UsageNotificationService, UsageNotification } from '../../services/plans/usage-notification.service';
 import { prisma } from '../../config/prisma';
 import { aiService } from '../../services/ai/ai.service';
 import { ThinkingStepsService } from './services/thinking-steps.service';
 import { streamingService } from './services/streaming.service';
+import { branchingService, MAIN_BRANCH_ID } from './services/branching.service';
+import { attachmentService } from './services/attachment.service';
+import {
+  exportService,
+  ExportFormat,
+  ExportOptions,
+  CompressionFormat,
+  EXPORT_FORMATS,
+} from './services/export.service';
  // 👈 Adjust path to your prisma instance
 
 // ==========================================
@@ -53,6 +79,11 @@ const CHAT_LIMITS = {
   MIN_SESSION_LIMIT: 1, // Minimum sessions to fetch
   MAX_SESSION_LIMIT: 100, // Maximum sessions to fetch
   DEFAULT_SESSION_LIMIT: 20, // Default sessions to fetch
+  MAX_FEEDBACK_LENGTH: 1000, // Maximum characters in reaction feedback
+  MAX_SEARCH_QUERY_LENGTH: 200, // Maximum characters in a history search query
+  MAX_SEARCH_LIMIT: 50, // Maximum search results per page
+  DEFAULT_SEARCH_LIMIT: 20, // Default search results per page
+  MAX_ATTACHMENT_IDS: 5, // Maximum attachments per message
 } as const;
 
 // ==========================================
@@ -203,6 +234,7 @@ export class ChatController {
     try {
       const userId = (req as any).user?.userId;
       const { message, sessionId, brainMode, mode, isModeSwitchFollowUp } = req.body;
+      const attachmentIds = this.parseAttachmentIds(req.body.attachmentIds);
 
       // Validate authentication
       if (!userId) {
@@ -234,6 +266,16 @@ export class ChatController {
         return;
       }
 
+      // Validate attachments
+      if (attachmentIds === null) {
+        res.status(400).json({
+          success: false,
+          error: `attachmentIds must be an array of at most ${CHAT_LIMITS.MAX_ATTACHMENT_IDS} file ids`,
+          timestamp: new Date().toISOString(),
+        } as ApiResponse);
+        return;
+      }
+
       // Send message through service
       const result = await this.chatService.sendMessage({
         userId,
@@ -243,10 +285,21 @@ export class ChatController {
         region: (req as any).region || 'IN',
         mode: mode || 'normal',
         isModeSwitchFollowUp: isModeSwitchFollowUp || false,
+        attachmentIds,
       });
 
       // Handle service errors
       if (!result.success) {
+        // Handle attachment errors (403 plan / 404 missing file / 400 invalid)
+        const attachmentStatus = this.getAttachmentErrorStatus(result.reason);
+        if (attachmentStatus) {
+          res.status(attachmentStatus).json({
+            ...result,
+            timestamp: new Date().toISOString(),
+          } as ApiResponse);
+          return;
+        }
+
         // Handle rate limiting (429 status)
         if (
           result.reason === 'daily_limit_exceeded' ||
@@ -342,6 +395,53 @@ export class ChatController {
       return;
     }
 
+    const attachmentIds = this.parseAttachmentIds(req.body.attachmentIds);
+    if (attachmentIds === null) {
+      res.status(400).json({
+        success: false,
+        error: `attachmentIds must be an array of at most ${CHAT_LIMITS.MAX_ATTACHMENT_IDS} file ids`,
+      });
+      return;
+    }
+
+    // Resolve attachments before opening the stream so errors keep their HTTP status
+    const attachmentResult = await attachmentService.resolveAttachments({
+      userId,
+      planType: userPlanType,
+      attachmentIds,
+    });
+
+    if (!attachmentResult.success) {
+      res.status(this.getAttachmentErrorStatus(attachmentResult.reason) || 500).json({
+        ...attachmentResult,
+        timestamp: new Date().toISOString(),
+      } as ApiResponse);
+      return;
+    }
+
+    // Existing sessions stream against the server-side history of their active branch
+    const isPersistedSession = Boolean(sessionId) && sessionId !== 'new';
+    let history = conversationHistory || [];
+    let branchId: string | null = null;
+
+    if (isPersistedSession) {
+      const branchConversation = await this.chatService.getBranchConversation(userId, sessionId);
+
+      if (!branchConversation.success) {
+        res.status(404).json({
+          success: false,
+          error: branchConversation.error || 'Chat session not found',
+          timestamp: new Date().toISOString(),
+        } as ApiResponse);
+        return;
+      }
+
+      history = branchConversation.history || [];
+      branchId = branchConversation.branchId ?? null;
+    }
+
+    let fullResponse = '';
+
     // SSE Headers
     res.setHeader('Content-Type', 'text/event-stream');
     res.setHeader('Cache-Control', 'no-cache');
@@ -359,10 +459,12 @@ export class ChatController {
           userId,
           message: message.trim(),
           mode: mode || 'normal',
-          conversationHistory: conversationHistory || [],
+          conversationHistory: history,
           region: (req as any).region || 'IN',
           language: language as 'hindi' | 'english' | 'hinglish' | undefined,
+          attachments: attachmentResult.parts,
           onChunk: (chunk: string) => {
+          fullResponse += chunk;
           sendSSE({ type: 'content', content: chunk });
         },
         
@@ -371,10 +473,24 @@ export class ChatController {
           try {
             usageNotification = await this.usageNotificationService.checkUsage(userId);
           } catch (e) {}
+
+          if (isPersistedSession && fullResponse) {
+            const saved = await this.chatService.saveStreamedExchange({
+              userId,
+              sessionId,
+              userMessage: message.trim(),
+              assistantMessage: fullResponse,
+              attachmentIds,
+            });
+            if (!saved.success) {
+              console.error('[StreamChat] ❌ Failed to persist exchange:', saved.error);
+            }
+          }
           
           sendSSE({ 
             type: 'done', 
             sessionId: sessionId || 'new', 
+            branchId,
             usageNotification,
             visual: result.visual,
             webSources: result.webSources,
@@ -407,6 +523,7 @@ export class ChatController {
    *
    * @access Private (requires authentication)
    * @param sessionId - Session identifier
+   * @query branchId - Branch to read ("main" for the main line, default: active branch)
    * @returns List of messages in chronological order
    *
    * @example
@@ -449,12 +566,15 @@ export class ChatController {
         return;
       }
 
+      // Optional ?branchId= (use "main" for the main line); defaults to the active branch
+      const branchId = this.parseBranchParam(req.query.branchId);
+
       // Get chat history from service
-      const result = await this.chatService.getChatHistory(userId, sessionId);
+      const result = await this.chatService.getChatHistory(userId, sessionId, branchId);
 
       // Handle not found
       if (!result.success) {
-        res.status(404).json({
+        res.status(result.reason ? this.getBranchErrorStatus(result.reason) : 404).json({
           ...result,
           timestamp: new Date().toISOString(),
         } as ApiResponse);
@@ -477,6 +597,8 @@ export class ChatController {
    *
    * @access Private (requires authentication)
    * @query limit - Number of sessions to return (default: 20, max: 100)
+   * @query includeArchived - Include archived chats (default: false)
+   * @query pinned - Only return pinned chats (default: false)
    * @returns List of chat sessions with metadata
    *
    * @example
@@ -517,6 +639,8 @@ export class ChatController {
       // Get user chats from service
       const result = await this.chatService.getUserChats(userId, {
         limit,
+        includeArchived: req.query.includeArchived === 'true',
+        onlyPinned: req.query.pinned === 'true',
       });
 
       // Return success response
@@ -529,6 +653,120 @@ export class ChatController {
     }
   }
 
+  /**
+   * GET /api/chat/search
+   * Search across the user's chat history
+   *
+   * @access Private (requires authentication)
+   * @query q - Search text (required)
+   * @query mode - 'keyword' (default) or 'semantic'
+   * @query limit, offset - Pagination (limit max: 50)
+   * @query startDate, endDate - ISO date range
+   * @query pinned - 'true' / 'false'
+   * @query archived - 'exclude' (default), 'include' or 'only'
+   * @query personality, brainMode, sessionId - Optional filters
+   * @returns Ranked matches with plain-text snippets and highlight offsets
+   *
+   * @example
+   * GET /api/chat/search?q=neural%20networks&mode=semantic&limit=10
+   */
+  async searchChats(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const userId = (req as any).user?.userId;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: 'Unauthorized - Please login to access this resource',
+          timestamp: new Date().toISOString(),
+        } as ApiResponse);
+        return;
+      }
+
+      const query = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+      if (!query || query.length > CHAT_LIMITS.MAX_SEARCH_QUERY_LENGTH) {
+        res.status(400).json({
+          success: false,
+          error: `Search query is required (maximum ${CHAT_LIMITS.MAX_SEARCH_QUERY_LENGTH} characters)`,
+          timestamp: new Date().toISOString(),
+        } as ApiResponse);
+        return;
+      }
+
+      const mode = (req.query.mode as string) || 'keyword';
+      if (mode !== 'keyword' && mode !== 'semantic') {
+        res.status(400).json({
+          success: false,
+          error: "Mode must be 'keyword' or 'semantic'",
+          timestamp: new Date().toISOString(),
+        } as ApiResponse);
+        return;
+      }
+
+      const limit = req.query.limit
+        ? parseInt(req.query.limit as string)
+        : CHAT_LIMITS.DEFAULT_SEARCH_LIMIT;
+      const offset = req.query.offset ? parseInt(req.query.offset as string) : 0;
+      if (
+        isNaN(limit) ||
+        limit < 1 ||
+        limit > CHAT_LIMITS.MAX_SEARCH_LIMIT ||
+        isNaN(offset) ||
+        offset < 0
+      ) {
+        res.status(400).json({
+          success: false,
+          error: `Limit must be between 1 and ${CHAT_LIMITS.MAX_SEARCH_LIMIT} and offset must be 0 or more`,
+          timestamp: new Date().toISOString(),
+        } as ApiResponse);
+        return;
+      }
+
+      const startDate = req.query.startDate ? new Date(req.query.startDate as string) : undefined;
+      const endDate = req.query.endDate ? new Date(req.query.endDate as string) : undefined;
+      if ((startDate && isNaN(startDate.getTime())) || (endDate && isNaN(endDate.getTime()))) {
+        res.status(400).json({
+          success: false,
+          error: 'startDate and endDate must be valid ISO dates',
+          timestamp: new Date().toISOString(),
+        } as ApiResponse);
+        return;
+      }
+
+      const archived = (req.query.archived as string) || 'exclude';
+      if (archived !== 'exclude' && archived !== 'include' && archived !== 'only') {
+        res.status(400).json({
+          success: false,
+          error: "Archived must be 'exclude', 'include' or 'only'",
+          timestamp: new Date().toISOString(),
+        } as ApiResponse);
+        return;
+      }
+
+      const result = await this.chatService.searchChats({
+        userId,
+        query,
+        mode,
+        limit,
+        offset,
+        startDate,
+        endDate,
+        pinned: req.query.pinned === undefined ? undefined : req.query.pinned === 'true',
+        archived,
+        personality: (req.query.personality as string) || undefined,
+        brainMode: (req.query.brainMode as string) || undefined,
+        sessionId: (req.query.sessionId as string) || undefined,
+      });
+
+      res.status(result.success ? 200 : 500).json({
+        ...result,
+        timestamp: new Date().toISOString(),
+      } as ApiResponse);
+    } catch (error) {
+      this.handleError(res, error, 'Failed to search chats');
+    }
+  }
+
   // ==========================================
   // CHAT MANAGEMENT ENDPOINTS
   // ==========================================
@@ -720,26 +958,1058 @@ export class ChatController {
       this.handleError(res, error, 'Failed to update chat title');
     }
   }
-  async generateThinkingSteps(req: AuthRequest, res: Response): Promise<void> {
+  // ==========================================
+  // BRANCHING ENDPOINTS
+  // ==========================================
+
+  /**
+   * GET /api/chat/session/:sessionId/branches
+   * Get the branch tree of a session
+   *
+   * @access Private (requires authentication)
+   * @query includeMessages - Include each branch's own messages (default: false)
+   * @returns Branch tree plus the currently active branch
+   */
+  async getBranches(req: AuthRequest, res: Response): Promise<void> {
     try {
-      const { query } = req.body;
+      const userId = (req as any).user?.userId;
+      const { sessionId } = req.params;
 
-      if (!query || typeof query !== 'string' || query.trim().length === 0) {
-        res.status(400).json({ success: false, error: 'Query is required' });
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: 'Unauthorized - Please login to access this resource',
+          timestamp: new Date().toISOString(),
+        } as ApiResponse);
         return;
       }
 
-      const result = await ThinkingStepsService.generate(query.trim());
+      const result = await branchingService.getBranchTree({
+        sessionId,
+        userId,
+        includeMessages: req.query.includeMessages === 'true',
+      });
+
+      if (!result.success) {
+        res.status(this.getBranchErrorStatus(result.reason)).json({
+          ...result,
+          timestamp: new Date().toISOString(),
+        } as ApiResponse);
+        return;
+      }
+
+      const session = await prisma.chatSession.findUnique({
+        where: { id: sessionId },
+        select: { activeBranchId: true },
+      });
 
       res.status(200).json({
-        success: true,
-        steps: result.steps,
-        timeMs: result.timeMs,
+        ...result,
+        activeBranchId: session?.activeBranchId || MAIN_BRANCH_ID,
+        timestamp: new Date().toISOString(),
+      } as ApiResponse);
+    } catch (error) {
+      this.handleError(res, error, 'Failed to get branches');
+    }
+  }
+
+  /**
+   * POST /api/chat/session/:sessionId/branches
+   * Fork the conversation at a message. The new branch becomes active and
+   * the next message sent to the session continues from the fork point.
+   *
+   * @access Private (requires authentication)
+   * @body messageId - Last message to keep on the new branch
+   */
+  async createBranch(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const userId = (req as any).user?.userId;
+      const { sessionId } = req.params;
+      const { messageId } = req.body;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: 'Unauthorized - Please login to access this resource',
+          timestamp: new Date().toISOString(),
+        } as ApiResponse);
+        return;
+      }
+
+      if (!messageId || typeof messageId !== 'string') {
+        res.status(400).json({
+          success: false,
+          error: 'Message ID is required',
+          timestamp: new Date().toISOString(),
+        } as ApiResponse);
+        return;
+      }
+
+      const result = await branchingService.createBranch({
+        sessionId,
+        userId,
+        parentMessageId: messageId,
       });
+
+      if (!result.success) {
+        res.status(this.getBranchErrorStatus(result.reason)).json({
+          ...result,
+          timestamp: new Date().toISOString(),
+        } as ApiResponse);
+        return;
+      }
+
+      res.status(201).json({
+        ...result,
+        parentMessageId: messageId,
+        activeBranchId: result.branchId,
+        timestamp: new Date().toISOString(),
+      } as ApiResponse);
     } catch (error) {
-      this.handleError(res, error, 'Failed to generate thinking steps');
+      this.handleError(res, error, 'Failed to create branch');
+    }
+  }
+
+  /**
+   * PUT /api/chat/session/:sessionId/branches/active
+   * Switch the branch that /history, /send and /stream operate on
+   *
+   * @access Private (requires authentication)
+   * @body branchId - Branch to activate ("main" or null for the main line)
+   */
+  async switchBranch(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const userId = (req as any).user?.userId;
+      const { sessionId } = req.params;
+      const { branchId } = req.body;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: 'Unauthorized - Please login to access this resource',
+          timestamp: new Date().toISOString(),
+        } as ApiResponse);
+        return;
+      }
+
+      if (branchId !== null && branchId !== undefined && typeof branchId !== 'string') {
+        res.status(400).json({
+          success: false,
+          error: 'Branch ID must be a string or null',
+          timestamp: new Date().toISOString(),
+        } as ApiResponse);
+        return;
+      }
+
+      const result = await branchingService.switchBranch({
+        sessionId,
+        userId,
+        branchId: this.parseBranchParam(branchId) ?? null,
+      });
+
+      if (!result.success) {
+        res.status(this.getBranchErrorStatus(result.reason)).json({
+          ...result,
+          timestamp: new Date().toISOString(),
+        } as ApiResponse);
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        activeBranchId: result.activeBranchId || MAIN_BRANCH_ID,
+        timestamp: new Date().toISOString(),
+      } as ApiResponse);
+    } catch (error) {
+      this.handleError(res, error, 'Failed to switch branch');
     }
   }
+
+  /**
+   * GET /api/chat/session/:sessionId/branches/compare?branchA=...&branchB=...
+   * Compare the messages of two branches
+   *
+   * @access Private (requires authentication)
+   */
+  async compareBranches(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const userId = (req as any).user?.userId;
+      const { sessionId } = req.params;
+      const branchA = this.parseBranchParam(req.query.branchA);
+      const branchB = this.parseBranchParam(req.query.branchB);
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: 'Unauthorized - Please login to access this resource',
+          timestamp: new Date().toISOString(),
+        } as ApiResponse);
+        return;
+      }
+
+      if (branchA === undefined || branchB === undefined) {
+        res.status(400).json({
+          success: false,
+          error: 'Both branchA and branchB query parameters are required',
+          timestamp: new Date().toISOString(),
+        } as ApiResponse);
+        return;
+      }
+
+      const result = await branchingService.compareBranches({
+        sessionId,
+        userId,
+        branchId1: branchA,
+        branchId2: branchB,
+      });
+
+      if (!result.success) {
+        res.status(this.getBranchErrorStatus(result.reason)).json({
+          ...result,
+          timestamp: new Date().toISOString(),
+        } as ApiResponse);
+        return;
+      }
+
+      res.status(200).json({
+        ...result,
+        timestamp: new Date().toISOString(),
+      } as ApiResponse);
+    } catch (error) {
+      this.handleError(res, error, 'Failed to compare branches');
+    }
+  }
+
+  /**
+   * GET /api/chat/session/:sessionId/branches/stats
+   * Get branch statistics for a session
+   *
+   * @access Private (requires authentication)
+   */
+  async getBranchStats(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const userId = (req as any).user?.userId;
+      const { sessionId } = req.params;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: 'Unauthorized - Please login to access this resource',
+          timestamp: new Date().toISOString(),
+        } as ApiResponse);
+        return;
+      }
+
+      const result = await branchingService.getBranchStats({ sessionId, userId });
+
+      if (!result.success) {
+        res.status(this.getBranchErrorStatus(result.reason)).json({
+          ...result,
+          timestamp: new Date().toISOString(),
+        } as ApiResponse);
+        return;
+      }
+
+      res.status(200).json({
+        ...result,
+        timestamp: new Date().toISOString(),
+      } as ApiResponse);
+    } catch (error) {
+      this.handleError(res, error, 'Failed to get branch stats');
+    }
+  }
+
+  /**
+   * POST /api/chat/session/:sessionId/branches/:branchId/merge
+   * Merge a branch back into the line it forked from (requires BRANCH_MERGE_ENABLED)
+   *
+   * @access Private (requires authentication)
+   */
+  async mergeBranch(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const userId = (req as any).user?.userId;
+      const { sessionId, branchId } = req.params;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: 'Unauthorized - Please login to access this resource',
+          timestamp: new Date().toISOString(),
+        } as ApiResponse);
+        return;
+      }
+
+      const result = await branchingService.mergeBranch({ sessionId, userId, branchId });
+
+      if (!result.success) {
+        res.status(this.getBranchErrorStatus(result.reason)).json({
+          ...result,
+          timestamp: new Date().toISOString(),
+        } as ApiResponse);
+        return;
+      }
+
+      res.status(200).json({
+        ...result,
+        mergedInto: result.mergedInto || MAIN_BRANCH_ID,
+        timestamp: new Date().toISOString(),
+      } as ApiResponse);
+    } catch (error) {
+      this.handleError(res, error, 'Failed to merge branch');
+    }
+  }
+
+  /**
+   * DELETE /api/chat/session/:sessionId/branches/:branchId
+   * Delete a branch and its messages
+   *
+   * @access Private (requires authentication)
+   */
+  async deleteBranch(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const userId = (req as any).user?.userId;
+      const { sessionId, branchId } = req.params;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: 'Unauthorized - Please login to access this resource',
+          timestamp: new Date().toISOString(),
+        } as ApiResponse);
+        return;
+      }
+
+      if (branchId === MAIN_BRANCH_ID) {
+        res.status(400).json({
+          success: false,
+          error: 'The main conversation line cannot be deleted as a branch',
+          timestamp: new Date().toISOString(),
+        } as ApiResponse);
+        return;
+      }
+
+      const result = await branchingService.deleteBranch({ sessionId, userId, branchId });
+
+      if (!result.success) {
+        res.status(this.getBranchErrorStatus(result.reason)).json({
+          ...result,
+          timestamp: new Date().toISOString(),
+        } as ApiResponse);
+        return;
+      }
+
+      res.status(200).json({
+        ...result,
+        timestamp: new Date().toISOString(),
+      } as ApiResponse);
+    } catch (error) {
+      this.handleError(res, error, 'Failed to delete branch');
+    }
+  }
+
+  // ==========================================
+  // MESSAGE ACTION ENDPOINTS
+  // ==========================================
+
+  /**
+   * PATCH /api/chat/message/:messageId
+   * Edit one of your messages. The original stays on its branch; the edited
+   * message and the new AI response are written to a new active branch.
+   *
+   * @access Private (requires authentication)
+   * @body content - New message text
+   */
+  async editMessage(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const userId = (req as any).user?.userId;
+      const { messageId } = req.params;
+      const { content } = req.body;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: 'Unauthorized - Please login to access this resource',
+          timestamp: new Date().toISOString(),
+        } as ApiResponse);
+        return;
+      }
+
+      if (!content || typeof content !== 'string' || content.trim().length === 0) {
+        res.status(400).json({
+          success: false,
+          error: 'Content is required and cannot be empty',
+          timestamp: new Date().toISOString(),
+        } as ApiResponse);
+        return;
+      }
+
+      if (content.length > CHAT_LIMITS.MAX_MESSAGE_LENGTH) {
+        res.status(400).json({
+          success: false,
+          error: `Message too long (maximum ${CHAT_LIMITS.MAX_MESSAGE_LENGTH} characters)`,
+          timestamp: new Date().toISOString(),
+        } as ApiResponse);
+        return;
+      }
+
+      const message = await prisma.message.findUnique({
+        where: { id: messageId },
+        select: { sessionId: true, userId: true },
+      });
+
+      if (!message || message.userId !== userId) {
+        res.status(404).json({
+          success: false,
+          error: 'Message not found',
+          timestamp: new Date().toISOString(),
+        } as ApiResponse);
+        return;
+      }
+
+      const result = await this.chatService.editMessage({
+        userId,
+        sessionId: message.sessionId,
+        messageId,
+        newContent: content.trim(),
+      });
+
+      if (!result.success) {
+        res.status(this.getMessageActionErrorStatus(result.reason)).json({
+          ...result,
+          timestamp: new Date().toISOString(),
+        } as ApiResponse);
+        return;
+      }
+
+      res.status(200).json({
+        ...result,
+        timestamp: new Date().toISOString(),
+      } as ApiResponse);
+    } catch (error) {
+      this.handleError(res, error, 'Failed to edit message');
+    }
+  }
+
+  /**
+   * POST /api/chat/message/:messageId/regenerate
+   * Regenerate an AI response with Server-Sent Events, exactly like /stream.
+   * The new answer is stored as a sibling branch of the original one.
+   *
+   * @access Private (requires authentication)
+   * @body mode, language - Same as /stream
+   */
+  async regenerateMessage(req: AuthRequest, res: Response): Promise<void> {
+    const userId = (req as any).user?.userId;
+    const { messageId } = req.params;
+    const { mode, language } = req.body || {};
+
+    if (!userId) {
+      res.status(401).json({ success: false, error: 'Unauthorized' });
+      return;
+    }
+
+    const prepared = await this.chatService.prepareRegeneration({ userId, messageId });
+
+    if (!prepared.success || !prepared.sessionId || !prepared.userMessageId) {
+      res.status(this.getMessageActionErrorStatus(prepared.reason)).json({
+        success: false,
+        error: prepared.error || 'Failed to regenerate response',
+        timestamp: new Date().toISOString(),
+      } as ApiResponse);
+      return;
+    }
+
+    const sessionId = prepared.sessionId;
+    const userMessageId = prepared.userMessageId;
+    let fullResponse = '';
+
+    // SSE Headers
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('X-Accel-Buffering', 'no');
+    res.flushHeaders();
+
+    const sendSSE = (data: object) => {
+      res.write(`data: ${JSON.stringify(data)}\n\n`);
+    };
+
+    try {
+      await streamingService.streamChatWithAllFeatures({
+        userId,
+        message: prepared.prompt || '',
+        mode: mode || 'normal',
+        conversationHistory: prepared.history || [],
+        region: (req as any).region || 'IN',
+        language: language as 'hindi' | 'english' | 'hinglish' | undefined,
+        onChunk: (chunk: string) => {
+          fullResponse += chunk;
+          sendSSE({ type: 'content', content: chunk });
+        },
+
+        onComplete: async (result) => {
+          let usageNotification = { show: false };
+          try {
+            usageNotification = await this.usageNotificationService.checkUsage(userId);
+          } catch (e) {}
+
+          const saved = fullResponse
+            ? await this.chatService.saveRegeneratedResponse({
+                userId,
+                sessionId,
+                messageId,
+                userMessageId,
+                content: fullResponse,
+              })
+            : { success: false, error: 'Empty response' };
+
+          if (!saved.success) {
+            console.error('[RegenerateChat] ❌ Failed to persist response:', saved.error);
+          }
+
+          sendSSE({
+            type: 'done',
+            sessionId,
+            regeneratedFrom: messageId,
+            messageId: saved.success ? saved.messageId : undefined,
+            branchId: saved.success ? saved.branchId : undefined,
+            replacedInPlace: saved.success ? saved.replacedInPlace || false : undefined,
+            usageNotification,
+            visual: result.visual,
+            webSources: result.webSources,
+            compactionMessage: result.compactionMessage,
+            codeModeNudge: result.codeModeNudge,
+          });
+          res.write('data: [DONE]\n\n');
+          res.end();
+        },
+
+        onError: (error: Error) => {
+          sendSSE({ type: 'error', error: error.message });
+          res.write('data: [DONE]\n\n');
+          res.end();
+        },
+      });
+    } catch (error) {
+      sendSSE({ type: 'error', error: 'Stream failed' });
+      res.write('data: [DONE]\n\n');
+      res.end();
+    }
+  }
+
+  /**
+   * PUT /api/chat/message/:messageId/reaction
+   * React to an AI response. Stored as Message.rating (1 / -1) and Message.feedback.
+   *
+   * @access Private (requires authentication)
+   * @body reaction - "thumbsUp" | "thumbsDown" | null (null removes the reaction)
+   * @body feedback - Optional written feedback
+   */
+  async reactToMessage(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const userId = (req as any).user?.userId;
+      const { messageId } = req.params;
+      const { reaction, feedback } = req.body;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: 'Unauthorized - Please login to access this resource',
+          timestamp: new Date().toISOString(),
+        } as ApiResponse);
+        return;
+      }
+
+      if (reaction !== null && reaction !== 'thumbsUp' && reaction !== 'thumbsDown') {
+        res.status(400).json({
+          success: false,
+          error: 'Reaction must be "thumbsUp", "thumbsDown" or null',
+          timestamp: new Date().toISOString(),
+        } as ApiResponse);
+        return;
+      }
+
+      if (feedback !== undefined && (typeof feedback !== 'string' || feedback.length > CHAT_LIMITS.MAX_FEEDBACK_LENGTH)) {
+        res.status(400).json({
+          success: false,
+          error: `Feedback must be text (maximum ${CHAT_LIMITS.MAX_FEEDBACK_LENGTH} characters)`,
+          timestamp: new Date().toISOString(),
+        } as ApiResponse);
+        return;
+      }
+
+      const result = await this.chatService.reactToMessage({
+        userId,
+        messageId,
+        reaction,
+        feedback,
+      });
+
+      if (!result.success) {
+        res.status(this.getMessageActionErrorStatus(result.reason)).json({
+          ...result,
+          timestamp: new Date().toISOString(),
+        } as ApiResponse);
+        return;
+      }
+
+      res.status(200).json({
+        ...result,
+        timestamp: new Date().toISOString(),
+      } as ApiResponse);
+    } catch (error) {
+      this.handleError(res, error, 'Failed to react to message');
+    }
+  }
+
+  /**
+   * PATCH /api/chat/session/:sessionId/pin
+   * Pin or unpin a chat session
+   *
+   * @access Private (requires authentication)
+   * @body pinned - true to pin, false to unpin
+   */
+  async pinChat(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const userId = (req as any).user?.userId;
+      const { sessionId } = req.params;
+      const { pinned } = req.body;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: 'Unauthorized - Please login to access this resource',
+          timestamp: new Date().toISOString(),
+        } as ApiResponse);
+        return;
+      }
+
+      if (typeof pinned !== 'boolean') {
+        res.status(400).json({
+          success: false,
+          error: 'pinned must be a boolean',
+          timestamp: new Date().toISOString(),
+        } as ApiResponse);
+        return;
+      }
+
+      const result = await this.chatService.pinConversation({ userId, sessionId, pinned });
+
+      res.status(result.success ? 200 : this.getMessageActionErrorStatus(result.reason)).json({
+        ...result,
+        timestamp: new Date().toISOString(),
+      } as ApiResponse);
+    } catch (error) {
+      this.handleError(res, error, 'Failed to pin chat');
+    }
+  }
+
+  /**
+   * PATCH /api/chat/session/:sessionId/archive
+   * Archive or unarchive a chat session
+   *
+   * @access Private (requires authentication)
+   * @body archived - true to archive, false to restore
+   */
+  async archiveChat(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const userId = (req as any).user?.userId;
+      const { sessionId } = req.params;
+      const { archived } = req.body;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: 'Unauthorized - Please login to access this resource',
+          timestamp: new Date().toISOString(),
+        } as ApiResponse);
+        return;
+      }
+
+      if (typeof archived !== 'boolean') {
+        res.status(400).json({
+          success: false,
+          error: 'archived must be a boolean',
+          timestamp: new Date().toISOString(),
+        } as ApiResponse);
+        return;
+      }
+
+      const result = await this.chatService.archiveConversation({ userId, sessionId, archived });
+
+      res.status(result.success ? 200 : this.getMessageActionErrorStatus(result.reason)).json({
+        ...result,
+        timestamp: new Date().toISOString(),
+      } as ApiResponse);
+    } catch (error) {
+      this.handleError(res, error, 'Failed to archive chat');
+    }
+  }
+
+  // ==========================================
+  // EXPORT ENDPOINTS
+  // ==========================================
+
+  /**
+   * POST /api/chat/export
+   * Export conversations as a downloadable file
+   *
+   * @access Private (requires authentication)
+   * @body format - JSON | CSV | TXT | PDF | MARKDOWN
+   * @body sessionId / sessionIds - Conversations to export (default: all)
+   * @body startDate / endDate - Optional ISO date range
+   * @body compression - "gzip" or "zip" (zip bundles one file per conversation)
+   */
+  async exportChats(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const userId = (req as any).user?.userId;
+      const {
+        format,
+        sessionId,
+        sessionIds,
+        startDate,
+        endDate,
+        includeMetadata,
+        includeSystemMessages,
+        removePII,
+        compress,
+        compression,
+      } = req.body;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: 'Unauthorized - Please login to access this resource',
+          timestamp: new Date().toISOString(),
+        } as ApiResponse);
+        return;
+      }
+
+      const exportFormat = this.parseExportFormat(format);
+      if (!exportFormat) {
+        res.status(400).json({
+          success: false,
+          error: `Format must be one of: ${EXPORT_FORMATS.join(', ')}`,
+          timestamp: new Date().toISOString(),
+        } as ApiResponse);
+        return;
+      }
+
+      if (sessionIds !== undefined && (!Array.isArray(sessionIds) || sessionIds.some((id) => typeof id !== 'string'))) {
+        res.status(400).json({
+          success: false,
+          error: 'sessionIds must be an array of session IDs',
+          timestamp: new Date().toISOString(),
+        } as ApiResponse);
+        return;
+      }
+
+      const start = startDate ? new Date(startDate) : undefined;
+      const end = endDate ? new Date(endDate) : undefined;
+
+      if ((start && isNaN(start.getTime())) || (end && isNaN(end.getTime()))) {
+        res.status(400).json({
+          success: false,
+          error: 'startDate and endDate must be valid dates',
+          timestamp: new Date().toISOString(),
+        } as ApiResponse);
+        return;
+      }
+
+      await this.sendExport(res, {
+        userId,
+        format: exportFormat,
+        sessionId: typeof sessionId === 'string' ? sessionId : undefined,
+        sessionIds,
+        startDate: start,
+        endDate: end,
+        includeMetadata: includeMetadata === true,
+        includeSystemMessages: includeSystemMessages === true,
+        removePII: removePII === true,
+        compress: compress === true,
+        compression: compression as CompressionFormat | undefined,
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to export chats');
+    }
+  }
+
+  /**
+   * GET /api/chat/export/session/:sessionId?format=PDF&compression=gzip
+   * Export a single conversation as a downloadable file
+   *
+   * @access Private (requires authentication)
+   */
+  async exportSession(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const userId = (req as any).user?.userId;
+      const { sessionId } = req.params;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: 'Unauthorized - Please login to access this resource',
+          timestamp: new Date().toISOString(),
+        } as ApiResponse);
+        return;
+      }
+
+      const exportFormat = this.parseExportFormat(req.query.format || 'PDF');
+      if (!exportFormat) {
+        res.status(400).json({
+          success: false,
+          error: `Format must be one of: ${EXPORT_FORMATS.join(', ')}`,
+          timestamp: new Date().toISOString(),
+        } as ApiResponse);
+        return;
+      }
+
+      const session = await prisma.chatSession.findUnique({
+        where: { id: sessionId, userId },
+        select: { id: true },
+      });
+
+      if (!session) {
+        res.status(404).json({
+          success: false,
+          error: 'Chat session not found',
+          timestamp: new Date().toISOString(),
+        } as ApiResponse);
+        return;
+      }
+
+      await this.sendExport(res, {
+        userId,
+        format: exportFormat,
+        sessionId,
+        compression: req.query.compression as CompressionFormat | undefined,
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to export chat');
+    }
+  }
+
+  /**
+   * GET /api/chat/export/limits
+   * Get allowed export formats and remaining exports for today
+   *
+   * @access Private (requires authentication)
+   */
+  async getExportLimits(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const userId = (req as any).user?.userId;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: 'Unauthorized - Please login to access this resource',
+          timestamp: new Date().toISOString(),
+        } as ApiResponse);
+        return;
+      }
+
+      const result = await exportService.getExportLimits(userId);
+
+      res.status(result.success ? 200 : 404).json({
+        ...result,
+        timestamp: new Date().toISOString(),
+      } as ApiResponse);
+    } catch (error) {
+      this.handleError(res, error, 'Failed to get export limits');
+    }
+  }
+
+  async generateThinkingSteps(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { query } = req.body;
+
+      if (!query || typeof query !== 'string' || query.trim().length === 0) {
+        res.status(400).json({ success: false, error: 'Query is required' });
+        return;
+      }
+
+      const result = await ThinkingStepsService.generate(query.trim());
+
+      res.status(200).json({
+        success: true,
+        steps: result.steps,
+        timeMs: result.timeMs,
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to generate thinking steps');
+    }
+  }
+  // ==========================================
+  // MESSAGE ACTION HELPERS
+  // ==========================================
+
+  /**
+   * Map an edit/regenerate/reaction/pin/archive failure reason to an HTTP status code
+   */
+  private getMessageActionErrorStatus(reason?: string): number {
+    switch (reason) {
+      case 'invalid_message':
+        return 400;
+      case 'message_not_found':
+        return 404;
+      case 'daily_limit_exceeded':
+      case 'monthly_limit_exceeded':
+        return 429;
+      default:
+        return reason ? this.getBranchErrorStatus(reason) : 500;
+    }
+  }
+
+  // ==========================================
+  // EXPORT HELPERS
+  // ==========================================
+
+  /**
+   * Run an export and stream the resulting file as an attachment.
+   * The file holds decrypted messages, so it is removed once sent (or on failure).
+   */
+  private async sendExport(res: Response, options: ExportOptions): Promise<void> {
+    const result = await this.chatService.exportConversation(options);
+
+    if (!result.success || !result.filePath) {
+      res.status(this.getExportErrorStatus(result.reason)).json({
+        success: false,
+        error: result.error || 'Export failed',
+        reason: result.reason,
+        timestamp: new Date().toISOString(),
+      } as ApiResponse);
+      return;
+    }
+
+    res.setHeader('Content-Type', result.mimeType || 'application/octet-stream');
+    res.setHeader('X-Export-Message-Count', String(result.messageCount || 0));
+    const filePath = result.filePath;
+    res.download(filePath, result.fileName || 'soriva-export', (downloadError) => {
+      if (downloadError) {
+        console.error('[ChatController] Export download failed:', downloadError);
+        if (!res.headersSent) {
+          res.status(500).json({
+            success: false,
+            error: 'Export download failed',
+            timestamp: new Date().toISOString(),
+          } as ApiResponse);
+        }
+      }
+      fs.unlink(filePath, (unlinkError) => {
+        if (unlinkError && unlinkError.code !== 'ENOENT') {
+          console.error('[ChatController] Failed to remove export file:', unlinkError);
+        }
+      });
+    });
+  }
+
+  /**
+   * Parse a user-supplied export format (case-insensitive, "md" → MARKDOWN)
+   */
+  private parseExportFormat(value: unknown): ExportFormat | null {
+    if (typeof value !== 'string') {
+      return null;
+    }
+    const normalized = value.trim().toUpperCase();
+    const format = (normalized === 'MD' ? 'MARKDOWN' : normalized) as ExportFormat;
+    return EXPORT_FORMATS.includes(format) ? format : null;
+  }
+
+  /**
+   * Map an export service failure reason to an HTTP status code
+   */
+  private getExportErrorStatus(reason?: string): number {
+    switch (reason) {
+      case 'invalid_request':
+        return 400;
+      case 'feature_disabled':
+      case 'format_not_allowed':
+        return 403;
+      case 'user_not_found':
+      case 'no_messages':
+        return 404;
+      case 'daily_limit_reached':
+        return 429;
+      default:
+        return 500;
+    }
+  }
+
+  // ==========================================
+  // BRANCH HELPERS
+  // ==========================================
+
+  /**
+   * Normalize a branch identifier from a request.
+   * undefined → not specified, "main"/null/"" → main line (null)
+   */
+  private parseBranchParam(value: unknown): string | null | undefined {
+    if (value === undefined) {
+      return undefined;
+    }
+    if (value === null || value === '' || value === MAIN_BRANCH_ID) {
+      return null;
+    }
+    return String(value);
+  }
+
+  /**
+   * Parse the optional attachmentIds body field
+   * Returns null when the value is not an array of up to MAX_ATTACHMENT_IDS non-empty strings
+   */
+  private parseAttachmentIds(value: unknown): string[] | null {
+    if (value === undefined || value === null) {
+      return [];
+    }
+    if (
+      !Array.isArray(value) ||
+      value.length > CHAT_LIMITS.MAX_ATTACHMENT_IDS ||
+      !value.every((id) => typeof id === 'string' && id.trim().length > 0)
+    ) {
+      return null;
+    }
+    return value.map((id: string) => id.trim());
+  }
+
+  /**
+   * Map an attachment service failure reason to an HTTP status code (null = not an attachment error)
+   */
+  private getAttachmentErrorStatus(reason?: string): number | null {
+    switch (reason) {
+      case 'feature_disabled':
+        return 403;
+      case 'attachment_not_found':
+        return 404;
+      case 'too_many':
+      case 'unsupported_type':
+      case 'file_too_large':
+        return 400;
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Map a branching service failure reason to an HTTP status code
+   */
+  private getBranchErrorStatus(reason?: string): number {
+    switch (reason) {
+      case 'feature_disabled':
+      case 'plan_limit':
+      case 'max_branches_reached':
+      case 'max_depth_reached':
+        return 403;
+      case 'invalid_parent_message':
+        return 400;
+      case 'session_not_found':
+      case 'branch_not_found':
+      case 'user_not_found':
+        return 404;
+      default:
+        return 500;
+    }
+  }
+
   // ==========================================
   // ERROR HANDLER
   // ==========================================
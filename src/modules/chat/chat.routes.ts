@@ -46,6 +46,13 @@ const chatController = new ChatController();
  *                 type: string
  *                 example: clx1234567890abcdef
  *                 description: Optional session ID (creates new session if not provided)
+ *               attachmentIds:
+ *                 type: array
+ *                 maxItems: 5
+ *                 items:
+ *                   type: string
+ *                 example: ["f3b1c2d4-5e6f-7a8b-9c0d-1e2f3a4b5c6d"]
+ *                 description: Uploaded files (images, PDFs, audio) sent to the model with the message. Also accepted by /api/chat/stream. Requires a plan with file upload.
  *     responses:
  *       200:
  *         description: Message sent successfully
@@ -105,6 +112,18 @@ const chatController = new ChatController();
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Attachments are not available on the user's plan
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Attachment not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       429:
  *         description: Rate limit exceeded
  *         content:
@@ -132,6 +151,13 @@ router.post('/thinking-steps', (req, res) => chatController.generateThinkingStep
  *           type: string
  *           example: clx1234567890abcdef
  *         description: Chat session ID
+ *       - in: query
+ *         name: branchId
+ *         required: false
+ *         schema:
+ *           type: string
+ *           example: main
+ *         description: Branch to read ("main" for the main line). Defaults to the session's active branch.
  *     responses:
  *       200:
  *         description: Chat history retrieved successfully
@@ -212,6 +238,18 @@ router.get('/history/:sessionId', authMiddleware, (req, res) =>
  *           default: 20
  *           example: 20
  *         description: Maximum number of sessions to return
+ *       - in: query
+ *         name: includeArchived
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *         description: Include archived chats
+ *       - in: query
+ *         name: pinned
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *         description: Only return pinned chats
  *     responses:
  *       200:
  *         description: Chat sessions retrieved successfully
@@ -264,6 +302,158 @@ router.get('/history/:sessionId', authMiddleware, (req, res) =>
  */
 router.get('/sessions', authMiddleware, (req, res) => chatController.getUserChats(req, res));
 
+/**
+ * @swagger
+ * /api/chat/search:
+ *   get:
+ *     summary: Search Chat History
+ *     description: |
+ *       Search across all of the user's conversations.
+ *       - keyword: Postgres full-text search ranked by relevance; matched words are listed in highlights
+ *       - semantic: Embedding similarity search (falls back to keyword if embeddings are unavailable)
+ *     tags: [Chat]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: q
+ *         required: true
+ *         schema:
+ *           type: string
+ *           maxLength: 200
+ *         example: neural networks
+ *       - in: query
+ *         name: mode
+ *         schema:
+ *           type: string
+ *           enum: [keyword, semantic]
+ *           default: keyword
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 50
+ *           default: 20
+ *       - in: query
+ *         name: offset
+ *         schema:
+ *           type: integer
+ *           minimum: 0
+ *           default: 0
+ *       - in: query
+ *         name: startDate
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: endDate
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: pinned
+ *         schema:
+ *           type: boolean
+ *       - in: query
+ *         name: archived
+ *         schema:
+ *           type: string
+ *           enum: [exclude, include, only]
+ *           default: exclude
+ *       - in: query
+ *         name: personality
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: brainMode
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: sessionId
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Search results
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 mode:
+ *                   type: string
+ *                   example: keyword
+ *                 fallback:
+ *                   type: boolean
+ *                   description: True when semantic search fell back to keyword search
+ *                 hasMore:
+ *                   type: boolean
+ *                   example: false
+ *                 results:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       sessionId:
+ *                         type: string
+ *                       sessionTitle:
+ *                         type: string
+ *                       messageId:
+ *                         type: string
+ *                       role:
+ *                         type: string
+ *                         example: user
+ *                       snippet:
+ *                         type: string
+ *                         description: Plain text (not HTML) in both modes
+ *                         example: How do neural networks learn?
+ *                       highlights:
+ *                         type: array
+ *                         description: Matched ranges of snippet as [start, end) character offsets (keyword mode; empty for semantic)
+ *                         items:
+ *                           type: object
+ *                           properties:
+ *                             start:
+ *                               type: integer
+ *                               example: 7
+ *                             end:
+ *                               type: integer
+ *                               example: 13
+ *                       relevanceScore:
+ *                         type: number
+ *                         example: 0.42
+ *                       isPinned:
+ *                         type: boolean
+ *                       isArchived:
+ *                         type: boolean
+ *                       personality:
+ *                         type: string
+ *                         nullable: true
+ *                       brainMode:
+ *                         type: string
+ *                         nullable: true
+ *                       createdAt:
+ *                         type: string
+ *                         format: date-time
+ *       400:
+ *         description: Invalid query parameters
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/search', authMiddleware, (req, res) => chatController.searchChats(req, res));
+
 /**
  * @swagger
  * /api/chat/session/{sessionId}:
@@ -430,4 +620,1067 @@ router.patch('/session/:sessionId/title', authMiddleware, (req, res) =>
   chatController.updateChatTitle(req, res)
 );
 
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// MESSAGE ACTIONS
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * @swagger
+ * /api/chat/message/{messageId}:
+ *   patch:
+ *     summary: Edit Message
+ *     description: Edit one of your messages. The original conversation is kept; the edited message and a fresh AI response are written to a new branch that becomes active.
+ *     tags: [Chat]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: messageId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: msg_001
+ *         description: Message ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - content
+ *             properties:
+ *               content:
+ *                 type: string
+ *                 maxLength: 5000
+ *                 example: What is the weather like in Amritsar?
+ *     responses:
+ *       200:
+ *         description: Message edited on a new branch
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 sessionId:
+ *                   type: string
+ *                 message:
+ *                   type: object
+ *                   properties:
+ *                     id:
+ *                       type: string
+ *                     role:
+ *                       type: string
+ *                       example: assistant
+ *                     content:
+ *                       type: string
+ *                     branchId:
+ *                       type: string
+ *       400:
+ *         description: Invalid content or message is not a user message
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Branching not available on this plan or limit reached
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Message not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         description: Usage limit exceeded
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.patch('/message/:messageId', authMiddleware, detectRegion, checkRateLimits, (req, res) =>
+  chatController.editMessage(req, res)
+);
+
+/**
+ * @swagger
+ * /api/chat/message/{messageId}/regenerate:
+ *   post:
+ *     summary: Regenerate Response (Streaming)
+ *     description: Regenerate an AI response using Server-Sent Events, with the same event format as /api/chat/stream. The new answer is stored on a sibling branch; plans without branching get the answer replaced in place.
+ *     tags: [Chat]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: messageId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: msg_001
+ *         description: Message ID
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               mode:
+ *                 type: string
+ *                 example: normal
+ *               language:
+ *                 type: string
+ *                 enum: [hindi, english, hinglish]
+ *     responses:
+ *       200:
+ *         description: SSE stream of content chunks, then a "done" event with messageId and branchId
+ *         content:
+ *           text/event-stream:
+ *             schema:
+ *               type: string
+ *       400:
+ *         description: Message is not an AI response
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Message not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/message/:messageId/regenerate', authMiddleware, detectRegion, checkRateLimits, (req, res) =>
+  chatController.regenerateMessage(req, res)
+);
+
+/**
+ * @swagger
+ * /api/chat/message/{messageId}/reaction:
+ *   put:
+ *     summary: React to Response
+ *     description: Rate an AI response with thumbs up/down and optional feedback. Send a null reaction to remove it.
+ *     tags: [Chat]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: messageId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: msg_001
+ *         description: Message ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - reaction
+ *             properties:
+ *               reaction:
+ *                 type: string
+ *                 nullable: true
+ *                 enum: [thumbsUp, thumbsDown]
+ *               feedback:
+ *                 type: string
+ *                 maxLength: 1000
+ *                 example: The code example did not compile
+ *     responses:
+ *       200:
+ *         description: Reaction recorded
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: Reaction recorded
+ *       400:
+ *         description: Invalid reaction or message is not an AI response
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Message not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.put('/message/:messageId/reaction', authMiddleware, (req, res) =>
+  chatController.reactToMessage(req, res)
+);
+
+/**
+ * @swagger
+ * /api/chat/session/{sessionId}/pin:
+ *   patch:
+ *     summary: Pin Chat
+ *     description: Pin or unpin a chat session. Pinned chats are listed first.
+ *     tags: [Chat]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: clx1234567890abcdef
+ *         description: Chat session ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - pinned
+ *             properties:
+ *               pinned:
+ *                 type: boolean
+ *                 example: true
+ *     responses:
+ *       200:
+ *         description: Chat pinned or unpinned
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: Conversation pinned
+ *       400:
+ *         description: pinned must be a boolean
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Chat session not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.patch('/session/:sessionId/pin', authMiddleware, (req, res) =>
+  chatController.pinChat(req, res)
+);
+
+/**
+ * @swagger
+ * /api/chat/session/{sessionId}/archive:
+ *   patch:
+ *     summary: Archive Chat
+ *     description: Archive or restore a chat session. Archived chats are hidden from the session list.
+ *     tags: [Chat]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: clx1234567890abcdef
+ *         description: Chat session ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - archived
+ *             properties:
+ *               archived:
+ *                 type: boolean
+ *                 example: true
+ *     responses:
+ *       200:
+ *         description: Chat archived or restored
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: Conversation archived
+ *       400:
+ *         description: archived must be a boolean
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Chat session not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.patch('/session/:sessionId/archive', authMiddleware, (req, res) =>
+  chatController.archiveChat(req, res)
+);
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// CONVERSATION EXPORT
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * @swagger
+ * /api/chat/export:
+ *   post:
+ *     summary: Export Conversations
+ *     description: Export one, several or all conversations as a downloadable file. Counts towards the plan's daily export limit (maxExportsPerDay).
+ *     tags: [Chat]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - format
+ *             properties:
+ *               format:
+ *                 type: string
+ *                 enum: [JSON, CSV, TXT, PDF, MARKDOWN]
+ *                 example: PDF
+ *               sessionId:
+ *                 type: string
+ *                 description: Export a single conversation
+ *               sessionIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: Export several conversations (default is all)
+ *               startDate:
+ *                 type: string
+ *                 format: date-time
+ *               endDate:
+ *                 type: string
+ *                 format: date-time
+ *               includeMetadata:
+ *                 type: boolean
+ *               includeSystemMessages:
+ *                 type: boolean
+ *               removePII:
+ *                 type: boolean
+ *                 description: Mask phone numbers, emails and card numbers
+ *               compression:
+ *                 type: string
+ *                 enum: [gzip, zip]
+ *                 description: gzip compresses the file, zip bundles one file per conversation
+ *     responses:
+ *       200:
+ *         description: Export file
+ *         content:
+ *           application/pdf:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *           application/octet-stream:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       400:
+ *         description: Invalid format, dates or session IDs
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Format not available on this plan
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: No messages found for export
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         description: Daily export limit reached
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/export', authMiddleware, (req, res) => chatController.exportChats(req, res));
+
+/**
+ * @swagger
+ * /api/chat/export/limits:
+ *   get:
+ *     summary: Get Export Limits
+ *     description: Allowed export formats for the user's plan and exports remaining today
+ *     tags: [Chat]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Export limits
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 limits:
+ *                   type: object
+ *                   properties:
+ *                     planType:
+ *                       type: string
+ *                       example: PRO
+ *                     formats:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *                       example: [JSON, TXT, CSV, PDF, MARKDOWN]
+ *                     maxExportsPerDay:
+ *                       type: integer
+ *                       example: 10
+ *                     exportsToday:
+ *                       type: integer
+ *                       example: 2
+ *                     remainingToday:
+ *                       type: integer
+ *                       example: 8
+ *                     maxMessagesPerExport:
+ *                       type: integer
+ *                       example: 2000
+ *                     compression:
+ *                       type: boolean
+ *                       example: true
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/export/limits', authMiddleware, (req, res) =>
+  chatController.getExportLimits(req, res)
+);
+
+/**
+ * @swagger
+ * /api/chat/export/session/{sessionId}:
+ *   get:
+ *     summary: Export Conversation
+ *     description: Download a single conversation. Counts towards the plan's daily export limit.
+ *     tags: [Chat]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: clx1234567890abcdef
+ *         description: Chat session ID
+ *       - in: query
+ *         name: format
+ *         required: false
+ *         schema:
+ *           type: string
+ *           enum: [JSON, CSV, TXT, PDF, MARKDOWN]
+ *           default: PDF
+ *       - in: query
+ *         name: compression
+ *         required: false
+ *         schema:
+ *           type: string
+ *           enum: [gzip, zip]
+ *     responses:
+ *       200:
+ *         description: Export file
+ *         content:
+ *           application/pdf:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *           application/octet-stream:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       400:
+ *         description: Invalid format
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Format not available on this plan
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Chat session not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         description: Daily export limit reached
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/export/session/:sessionId', authMiddleware, (req, res) =>
+  chatController.exportSession(req, res)
+);
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// CONVERSATION BRANCHING
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * @swagger
+ * /api/chat/session/{sessionId}/branches:
+ *   get:
+ *     summary: Get Branch Tree
+ *     description: Retrieve the branch tree of a chat session and the currently active branch
+ *     tags: [Chat]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: clx1234567890abcdef
+ *         description: Chat session ID
+ *       - in: query
+ *         name: includeMessages
+ *         required: false
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *         description: Include each branch's own messages
+ *     responses:
+ *       200:
+ *         description: Branch tree retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 activeBranchId:
+ *                   type: string
+ *                   example: main
+ *                 totalBranches:
+ *                   type: integer
+ *                   example: 2
+ *                 tree:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       branchId:
+ *                         type: string
+ *                       parentMessageId:
+ *                         type: string
+ *                         nullable: true
+ *                       messageCount:
+ *                         type: integer
+ *                       children:
+ *                         type: array
+ *                         items:
+ *                           type: object
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Branch visualization is disabled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Chat session or branch not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *   post:
+ *     summary: Fork Conversation
+ *     description: Create a branch that forks after the given message and make it the active branch. The next message sent to the session continues from the fork point.
+ *     tags: [Chat]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: clx1234567890abcdef
+ *         description: Chat session ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - messageId
+ *             properties:
+ *               messageId:
+ *                 type: string
+ *                 example: msg_001
+ *                 description: Last message kept on the new branch
+ *     responses:
+ *       201:
+ *         description: Branch created and activated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 branchId:
+ *                   type: string
+ *                   example: branch_clx12345_1_1729244400000
+ *                 branchNumber:
+ *                   type: integer
+ *                   example: 1
+ *                 parentMessageId:
+ *                   type: string
+ *                   example: msg_001
+ *                 activeBranchId:
+ *                   type: string
+ *                   example: branch_clx12345_1_1729244400000
+ *       400:
+ *         description: Invalid or missing message ID
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Branching not available on this plan or limit reached
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Chat session not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/session/:sessionId/branches', authMiddleware, (req, res) =>
+  chatController.getBranches(req, res)
+);
+router.post('/session/:sessionId/branches', authMiddleware, (req, res) =>
+  chatController.createBranch(req, res)
+);
+
+/**
+ * @swagger
+ * /api/chat/session/{sessionId}/branches/active:
+ *   put:
+ *     summary: Switch Active Branch
+ *     description: Switch the branch that history, send and stream operate on
+ *     tags: [Chat]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: clx1234567890abcdef
+ *         description: Chat session ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               branchId:
+ *                 type: string
+ *                 nullable: true
+ *                 example: main
+ *                 description: Branch to activate ("main" or null for the main line)
+ *     responses:
+ *       200:
+ *         description: Active branch switched
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 activeBranchId:
+ *                   type: string
+ *                   example: main
+ *       400:
+ *         description: Invalid branch ID
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Chat session or branch not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.put('/session/:sessionId/branches/active', authMiddleware, (req, res) =>
+  chatController.switchBranch(req, res)
+);
+
+/**
+ * @swagger
+ * /api/chat/session/{sessionId}/branches/compare:
+ *   get:
+ *     summary: Compare Branches
+ *     description: Compare the messages of two branches of a chat session
+ *     tags: [Chat]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: clx1234567890abcdef
+ *         description: Chat session ID
+ *       - in: query
+ *         name: branchA
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: First branch ID ("main" for the main line)
+ *       - in: query
+ *         name: branchB
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Second branch ID ("main" for the main line)
+ *     responses:
+ *       200:
+ *         description: Branch comparison
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 comparison:
+ *                   type: object
+ *       400:
+ *         description: Missing branch IDs
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Branch comparison is disabled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Chat session or branch not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/session/:sessionId/branches/compare', authMiddleware, (req, res) =>
+  chatController.compareBranches(req, res)
+);
+
+/**
+ * @swagger
+ * /api/chat/session/{sessionId}/branches/stats:
+ *   get:
+ *     summary: Get Branch Statistics
+ *     description: Branch count, depth and message distribution for a chat session
+ *     tags: [Chat]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: clx1234567890abcdef
+ *         description: Chat session ID
+ *     responses:
+ *       200:
+ *         description: Branch statistics
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 stats:
+ *                   type: object
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Chat session not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/session/:sessionId/branches/stats', authMiddleware, (req, res) =>
+  chatController.getBranchStats(req, res)
+);
+
+/**
+ * @swagger
+ * /api/chat/session/{sessionId}/branches/{branchId}/merge:
+ *   post:
+ *     summary: Merge Branch
+ *     description: Merge a branch back into the line it forked from. Messages it replaces are kept as a new branch. Requires BRANCH_MERGE_ENABLED.
+ *     tags: [Chat]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: clx1234567890abcdef
+ *         description: Chat session ID
+ *       - in: path
+ *         name: branchId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: branch_clx12345_1_1729244400000
+ *         description: Branch ID
+ *     responses:
+ *       200:
+ *         description: Branch merged
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 mergedInto:
+ *                   type: string
+ *                   example: main
+ *                 messagesMerged:
+ *                   type: integer
+ *                   example: 4
+ *                 displacedBranchId:
+ *                   type: string
+ *                   nullable: true
+ *                 messagesDisplaced:
+ *                   type: integer
+ *                   example: 2
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Branch merging is disabled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Chat session or branch not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/session/:sessionId/branches/:branchId/merge', authMiddleware, (req, res) =>
+  chatController.mergeBranch(req, res)
+);
+
+/**
+ * @swagger
+ * /api/chat/session/{sessionId}/branches/{branchId}:
+ *   delete:
+ *     summary: Delete Branch
+ *     description: Delete a branch and all of its messages
+ *     tags: [Chat]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: clx1234567890abcdef
+ *         description: Chat session ID
+ *       - in: path
+ *         name: branchId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: branch_clx12345_1_1729244400000
+ *         description: Branch ID
+ *     responses:
+ *       200:
+ *         description: Branch deleted
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 messagesDeleted:
+ *                   type: integer
+ *                   example: 4
+ *       400:
+ *         description: The main line cannot be deleted
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Chat session not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.delete('/session/:sessionId/branches/:branchId', authMiddleware, (req, res) =>
+  chatController.deleteBranch(req, res)
+);
+
 export default router;
\ No newline at end of file
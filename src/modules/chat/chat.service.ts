@@ -38,18 +38,24 @@ import {
 } from './memory';
 import { prisma } from '../../config/prisma';
 import { plansManager, PlanType } from '../../constants';
-import { AIMessage, MessageRole } from '../../core/ai/providers';
+import { AIMediaPart, AIMessage, MessageRole } from '../../core/ai/providers';
 import { AlertService, UsageStatus, AlertResponse } from '../../services/alert.service';
 
 // NEW IMPORTS
 import { RAGService } from '../../rag/services/rag.service';
 import { cacheService } from './services/cache.service';
 import { analyticsService } from './services/analytics.service';
-import { exportService } from './services/export.service';
+import { exportService, ExportOptions, ExportResult } from './services/export.service';
 import { suggestionService } from './services/suggestion.service';
 import { contextCompressor } from './utils/context-compressor';
 import encryptionUtil from '../../shared/utils/encryption-util';
 import { branchingService } from './services/branching.service';
+import { attachmentService } from './services/attachment.service';
+import {
+  historySearchService,
+  HistorySearchOptions,
+  HistorySearchResult,
+} from './services/history-search.service';
 import sessionManager from './session.manager';
 import { Gender, AgeGroup } from '@prisma/client';
 import { contextAnalyzer } from '../../services/analyzers/context.analyzer';
@@ -84,6 +90,7 @@ import {
 // ✅ NEW: Query Router for direct responses (0 tokens!)
 import { 
   routeQuery, 
+  queryClassifier,
   type RouterResult,
   type UserContext as RouterUserContext 
 } from '../../core/soriva-query-router';
@@ -144,11 +151,8 @@ interface SendMessageOptions {
   sessionId?: string;
   parentMessageId?: string;
   brainMode?: string;
-  attachments?: Array<{
-    type: 'file' | 'image' | 'document';
-    url: string;
-    name: string;
-  }>;
+  /** FileUpload ids sent to the model as image / PDF / audio inputs */
+  attachmentIds?: string[];
   tools?: string[];
   temperature?: number;
   streaming?: boolean;
@@ -279,10 +283,35 @@ interface EditMessageOptions {
 }
 
 interface RegenerateOptions {
+  userId: string;
+  messageId: string;
+}
+
+interface PrepareRegenerationResult {
+  success: boolean;
+  sessionId?: string;
+  userMessageId?: string;
+  prompt?: string;
+  history?: Array<{ role: string; content: string }>;
+  error?: string;
+  reason?: string;
+}
+
+interface SaveRegeneratedResponseOptions {
   userId: string;
   sessionId: string;
   messageId: string;
-  temperature?: number;
+  userMessageId: string;
+  content: string;
+  aiModel?: string;
+}
+
+interface SaveRegeneratedResponseResult {
+  success: boolean;
+  messageId?: string;
+  branchId?: string | null;
+  replacedInPlace?: boolean;
+  error?: string;
 }
 
 interface ChatHistoryResult {
@@ -293,6 +322,8 @@ interface ChatHistoryResult {
     aiModel: string | null;
     messageCount: number;
     branches?: number;
+    activeBranchId?: string | null;
+    branchId?: string | null;
     isPinned?: boolean;
     isArchived?: boolean;
     createdAt: Date;
@@ -304,6 +335,8 @@ interface ChatHistoryResult {
     wordsUsed: number | null;
     branchId?: string | null;
     parentMessageId?: string | null;
+    rating?: number | null;
+    feedback?: string | null;
     reactions?: {
       thumbsUp: number;
       thumbsDown: number;
@@ -311,6 +344,7 @@ interface ChatHistoryResult {
     createdAt: Date;
   }>;
   error?: string;
+  reason?: string;
 }
 
 interface UserChatsResult {
@@ -330,40 +364,9 @@ interface UserChatsResult {
   error?: string;
 }
 
-interface SearchChatsOptions {
-  userId: string;
-  query: string;
-  limit?: number;
-  includeArchived?: boolean;
-}
-
-interface SearchChatsResult {
-  success: boolean;
-  results?: Array<{
-    sessionId: string;
-    sessionTitle: string;
-    messageId: string;
-    messageContent: string;
-    relevanceScore: number;
-    createdAt: Date;
-  }>;
-  error?: string;
-}
-
-interface ExportOptions {
-  userId: string;
-  sessionId: string;
-  format: 'pdf' | 'json' | 'markdown';
-  includeMetadata?: boolean;
-  includeAnalytics?: boolean;
-}
+type SearchChatsOptions = HistorySearchOptions;
 
-interface ExportResult {
-  success: boolean;
-  data?: Buffer | string;
-  filename?: string;
-  error?: string;
-}
+type SearchChatsResult = HistorySearchResult;
 
 interface AnalyticsResult {
   success: boolean;
@@ -388,7 +391,8 @@ interface AnalyticsResult {
 interface ReactToMessageOptions {
   userId: string;
   messageId: string;
-  reaction: 'thumbsUp' | 'thumbsDown';
+  reaction: 'thumbsUp' | 'thumbsDown' | null;
+  feedback?: string;
 }
 
 interface PinConversationOptions {
@@ -407,6 +411,7 @@ interface DeleteResult {
   success: boolean;
   message?: string;
   error?: string;
+  reason?: string;
 }
 
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
@@ -454,7 +459,7 @@ export class ChatService {
     options: SendMessageOptions,
     startTime: number
   ): Promise<SendMessageResult> {
-    const { userId, message, sessionId, parentMessageId, attachments } = options;
+    const { userId, message, sessionId, parentMessageId } = options;
 
     const user = await prisma.user.findUnique({
       where: { id: userId },
@@ -478,11 +483,35 @@ export class ChatService {
       return { success: false, error: 'Invalid subscription plan' };
     }
 
+    // 📎 Attachments go to the model as real inputs (vision-capable plans only)
+    const attachmentIds = options.attachmentIds || [];
+    let attachmentParts: AIMediaPart[] = [];
+
+    if (attachmentIds.length > 0) {
+      const attachmentResult = await attachmentService.resolveAttachments({
+        userId,
+        planType: user.planType,
+        attachmentIds,
+      });
+
+      if (!attachmentResult.success) {
+        return {
+          success: false,
+          error: attachmentResult.error,
+          reason: attachmentResult.reason,
+        };
+      }
+
+      attachmentParts = attachmentResult.parts || [];
+    }
+
+    const hasAttachments = attachmentParts.length > 0;
+
     let cacheHit = false;
     let cachedResponse: CachedResponse | null = null;
     let cacheSimilarity: number | undefined;
 
-    if (ChatConfig.CACHE_ENABLED && !parentMessageId) {
+    if (ChatConfig.CACHE_ENABLED && !parentMessageId && !hasAttachments) {
       const cacheResult = await cacheService.checkCache({
         userId,
         message,
@@ -555,6 +584,7 @@ export class ChatService {
     });
 
     let branchId: string | undefined;
+    let branchParentMessageId: string | null = parentMessageId || null;
 
     if (ChatConfig.BRANCHING_ENABLED && parentMessageId) {
       const branchResult = await branchingService.createBranch({
@@ -567,6 +597,11 @@ export class ChatService {
         branchId = branchResult.branchId;
         console.log(`[ChatService] 🌳 Created branch: ${branchId}`);
       }
+    } else if (ChatConfig.BRANCHING_ENABLED && sessionId) {
+      // Continue on whichever branch the user last switched to
+      const target = await branchingService.getActiveBranchTarget(chatSession.id);
+      branchId = target.branchId || undefined;
+      branchParentMessageId = target.parentMessageId;
     }
 
     const userMessageWords = this.countWords(message);
@@ -585,20 +620,21 @@ export class ChatService {
         encryptionAuthTag: encryptedUserMsg.encryptionAuthTag,
         wordsUsed: userMessageWords,
         branchId: branchId || null,
-        parentMessageId: parentMessageId || null,
+        parentMessageId: branchParentMessageId,
+        attachmentIds,
       },
     });
 
     const historyLimit = (user.memoryDays || 5) * 10;
 
-    let history = await prisma.message.findMany({
-      where: {
-        sessionId: chatSession.id,
-        ...(branchId && { branchId }),
-      },
-      orderBy: { createdAt: 'asc' },
-      take: historyLimit,
+    // Only the messages on the path to this branch belong in the context window
+    const ancestry = await branchingService.getBranchAncestry({
+      sessionId: chatSession.id,
+      userId,
+      branchId: branchId || null,
     });
+
+    let history = (ancestry.messages || []).slice(-historyLimit);
     history = history.map(msg => ({
       ...msg,
       content: this.decryptMessage(msg),
@@ -829,7 +865,10 @@ export class ChatService {
       timezone: user.timezone || 'Asia/Kolkata',
     };
 
-    const routerResult = await routeQuery(message, routerContext);
+    // Attachments always need the model - classify only, never answer directly
+    const routerResult: RouterResult = hasAttachments
+      ? { handledDirectly: false, classification: queryClassifier.classify(message, routerContext) }
+      : await routeQuery(message, routerContext);
 
     if (routerResult.handledDirectly && routerResult.directResponse?.success) {
       console.log('[ChatService] 🚀 Query Router - DIRECT RESPONSE (0 tokens!):', {
@@ -1375,6 +1414,8 @@ if (estimatedPromptTokens > ChatConfig.MAX_PROMPT_TOKENS) {
       region: options.region || 'IN',
       mode: (options.mode === 'code' ? 'code' : 'normal') as 'normal' | 'code',
       isModeSwitchFollowUp: options.isModeSwitchFollowUp || false,
+      location: locationString,
+      attachments: hasAttachments ? attachmentParts : undefined,
     } as any);
 
     const gracefulHandling = aiResponse.metadata?.gracefulHandling;
@@ -1660,6 +1701,10 @@ if (estimatedPromptTokens > ChatConfig.MAX_PROMPT_TOKENS) {
     }
   }
 
+  /**
+   * Edit a past user message. The edit is sent on a new branch that forks just
+   * before the original message, so the original conversation stays intact.
+   */
   async editMessage(options: EditMessageOptions): Promise<SendMessageResult> {
     const { userId, sessionId, messageId, newContent, createBranch = true } = options;
 
@@ -1667,6 +1712,7 @@ if (estimatedPromptTokens > ChatConfig.MAX_PROMPT_TOKENS) {
       return {
         success: false,
         error: 'Message editing requires branching',
+        reason: 'feature_disabled',
       };
     }
 
@@ -1674,144 +1720,276 @@ if (estimatedPromptTokens > ChatConfig.MAX_PROMPT_TOKENS) {
       where: { id: messageId },
     });
 
-    if (!originalMessage || originalMessage.userId !== userId) {
-      return { success: false, error: 'Message not found' };
+    if (
+      !originalMessage ||
+      originalMessage.userId !== userId ||
+      originalMessage.sessionId !== sessionId
+    ) {
+      return { success: false, error: 'Message not found', reason: 'message_not_found' };
     }
 
-    return this.sendMessage({
-      userId,
-      message: newContent,
+    if (originalMessage.role !== 'user') {
+      return {
+        success: false,
+        error: 'Only your own messages can be edited',
+        reason: 'invalid_message',
+      };
+    }
+
+    const ancestry = await branchingService.getBranchAncestry({
       sessionId,
-      parentMessageId: messageId,
+      userId,
+      branchId: originalMessage.branchId,
     });
-  }
 
-  async regenerateResponse(options: RegenerateOptions): Promise<SendMessageResult> {
-    const { userId, sessionId, messageId, temperature } = options;
+    const path = ancestry.messages || [];
+    const index = path.findIndex((m) => m.id === messageId);
+    const forkMessageId = index > 0 ? path[index - 1].id : null;
 
-    const message = await prisma.message.findUnique({
-      where: { id: messageId },
+    const branchResult = await branchingService.createBranch({
+      sessionId,
+      userId,
+      parentMessageId: forkMessageId,
     });
 
-    if (!message || message.role !== 'assistant') {
-      return { success: false, error: 'Invalid message for regeneration' };
+    if (!branchResult.success) {
+      return {
+        success: false,
+        error: branchResult.error || 'Failed to create branch for edit',
+        reason: branchResult.reason,
+      };
     }
 
-    const userMessage = await prisma.message.findFirst({
-      where: {
-        sessionId,
-        createdAt: { lt: message.createdAt },
-        role: 'user',
-      },
-      orderBy: { createdAt: 'desc' },
-    });
-
-    if (!userMessage) {
-      return { success: false, error: 'User message not found' };
-    }
+    console.log(`[ChatService] ✏️ Editing message ${messageId} on branch ${branchResult.branchId}`);
 
+    // The new branch is now active, so the message lands on it
     return this.sendMessage({
       userId,
-      message: userMessage.content,
+      message: newContent,
       sessionId,
-      parentMessageId: userMessage.id,
-      temperature: temperature || Math.random() * 0.3 + 0.7,
     });
   }
 
-  async reactToMessage(options: ReactToMessageOptions): Promise<DeleteResult> {
-    const { userId, messageId, reaction } = options;
+  /**
+   * Resolve the prompt and context needed to regenerate an assistant response
+   */
+  async prepareRegeneration(options: RegenerateOptions): Promise<PrepareRegenerationResult> {
+    const { userId, messageId } = options;
 
     try {
       const message = await prisma.message.findUnique({
         where: { id: messageId },
       });
 
-      if (!message) {
-        return { success: false, error: 'Message not found' };
+      if (!message || message.userId !== userId) {
+        return { success: false, error: 'Message not found', reason: 'message_not_found' };
       }
 
-      if (ChatConfig.ANALYTICS_ENABLED) {
-        await analyticsService.trackReaction({
-          userId,
-          messageId,
-          reaction,
-        });
+      if (message.role !== 'assistant') {
+        return {
+          success: false,
+          error: 'Only AI responses can be regenerated',
+          reason: 'invalid_message',
+        };
+      }
+
+      const ancestry = await branchingService.getBranchAncestry({
+        sessionId: message.sessionId,
+        userId,
+        branchId: message.branchId,
+      });
+
+      const path = ancestry.messages || [];
+      const index = path.findIndex((m) => m.id === messageId);
+
+      let userIndex = -1;
+      for (let i = index - 1; i >= 0; i--) {
+        if (path[i].role === 'user') {
+          userIndex = i;
+          break;
+        }
+      }
+
+      if (userIndex === -1) {
+        return { success: false, error: 'User message not found', reason: 'message_not_found' };
       }
 
+      const userMessage = path[userIndex];
+
       return {
         success: true,
-        message: 'Reaction recorded',
+        sessionId: message.sessionId,
+        userMessageId: userMessage.id,
+        prompt: this.decryptMessage(userMessage),
+        history: path.slice(0, userIndex).map((m) => ({
+          role: m.role,
+          content: this.decryptMessage(m),
+        })),
       };
     } catch (error: any) {
       return {
         success: false,
-        error: error.message || 'Failed to react to message',
+        error: error.message || 'Failed to prepare regeneration',
+        reason: 'internal_error',
       };
     }
   }
 
-  private calculateUsagePercentage(remaining: number, total: number): number {
-    if (total === 0) return 0;
-    const used = total - remaining;
-    return Math.round((used / total) * 100);
-  }
-
-  async searchChats(options: SearchChatsOptions): Promise<SearchChatsResult> {
-    const { userId, query, limit = 20, includeArchived = false } = options;
+  /**
+   * Store a regenerated response as a sibling branch of the original answer.
+   * Plans without branching get the original answer replaced in place.
+   */
+  async saveRegeneratedResponse(
+    options: SaveRegeneratedResponseOptions
+  ): Promise<SaveRegeneratedResponseResult> {
+    const { userId, sessionId, messageId, userMessageId, content, aiModel } = options;
 
     try {
-      const messages = await prisma.message.findMany({
-        where: {
-          userId,
-          content: {
-            contains: query,
-            mode: 'insensitive',
+      const encrypted = this.encryptMessage(content);
+      const wordsUsed = this.countWords(content);
+
+      const branchResult = ChatConfig.BRANCHING_ENABLED
+        ? await branchingService.createBranch({
+            sessionId,
+            userId,
+            parentMessageId: userMessageId,
+          })
+        : { success: false, reason: 'feature_disabled', error: 'Branching is disabled' };
+
+      if (branchResult.success && branchResult.branchId) {
+        const regenerated = await prisma.message.create({
+          data: {
+            sessionId,
+            userId,
+            role: 'assistant',
+            content: encrypted.content,
+            encryptedContent: encrypted.encryptedContent,
+            encryptionIV: encrypted.encryptionIV,
+            encryptionAuthTag: encrypted.encryptionAuthTag,
+            wordsUsed,
+            aiModel: aiModel || null,
+            branchId: branchResult.branchId,
+            parentMessageId: userMessageId,
+            metadata: { regeneratedFrom: messageId },
           },
-          session: includeArchived
-            ? undefined
-            : {
-                isArchived: false,
-              },
-        },
-        include: {
-          session: {
-            select: {
-              id: true,
-              title: true,
-            },
+        });
+
+        await prisma.chatSession.update({
+          where: { id: sessionId },
+          data: {
+            messageCount: { increment: 1 },
+            totalTokens: { increment: wordsUsed },
+            lastMessageAt: new Date(),
           },
+        });
+
+        return { success: true, messageId: regenerated.id, branchId: branchResult.branchId };
+      }
+
+      const canReplace = ['feature_disabled', 'plan_limit', 'max_branches_reached', 'max_depth_reached'];
+      if (!canReplace.includes(branchResult.reason || '')) {
+        return { success: false, error: branchResult.error || 'Failed to save regenerated response' };
+      }
+
+      const replaced = await prisma.message.update({
+        where: { id: messageId },
+        data: {
+          content: encrypted.content,
+          encryptedContent: encrypted.encryptedContent,
+          encryptionIV: encrypted.encryptionIV,
+          encryptionAuthTag: encrypted.encryptionAuthTag,
+          wordsUsed,
+          ...(aiModel && { aiModel }),
+          rating: null,
+          feedback: null,
         },
-        orderBy: { createdAt: 'desc' },
-        take: limit,
       });
 
       return {
         success: true,
-        results: messages.map((msg) => ({
-          sessionId: msg.sessionId,
-          sessionTitle: msg.session.title || 'Untitled Chat',
-          messageId: msg.id,
-          messageContent: msg.content.substring(0, 200),
-          relevanceScore: 1.0,
-          createdAt: msg.createdAt,
-        })),
+        messageId: replaced.id,
+        branchId: replaced.branchId,
+        replacedInPlace: true,
+      };
+    } catch (error: any) {
+      console.error('[ChatService] Save regenerated response error:', error);
+      return {
+        success: false,
+        error: error.message || 'Failed to save regenerated response',
+      };
+    }
+  }
+
+  /**
+   * Rate an AI response (thumbs up/down) with optional written feedback.
+   * Passing a null reaction clears the rating.
+   */
+  async reactToMessage(options: ReactToMessageOptions): Promise<DeleteResult> {
+    const { userId, messageId, reaction, feedback } = options;
+
+    try {
+      const message = await prisma.message.findUnique({
+        where: { id: messageId },
+      });
+
+      if (!message || message.userId !== userId) {
+        return { success: false, error: 'Message not found', reason: 'message_not_found' };
+      }
+
+      if (message.role !== 'assistant') {
+        return {
+          success: false,
+          error: 'Only AI responses can be rated',
+          reason: 'invalid_message',
+        };
+      }
+
+      await prisma.message.update({
+        where: { id: messageId },
+        data: {
+          rating: reaction === 'thumbsUp' ? 1 : reaction === 'thumbsDown' ? -1 : null,
+          feedback: reaction ? feedback?.trim() || null : null,
+        },
+      });
+
+      if (ChatConfig.ANALYTICS_ENABLED && reaction) {
+        await analyticsService.trackReaction({
+          userId,
+          messageId,
+          reaction,
+        });
+      }
+
+      return {
+        success: true,
+        message: reaction ? 'Reaction recorded' : 'Reaction removed',
       };
     } catch (error: any) {
       return {
         success: false,
-        error: error.message || 'Failed to search chats',
+        error: error.message || 'Failed to react to message',
       };
     }
   }
 
+  private calculateUsagePercentage(remaining: number, total: number): number {
+    if (total === 0) return 0;
+    const used = total - remaining;
+    return Math.round((used / total) * 100);
+  }
+
+  async searchChats(options: SearchChatsOptions): Promise<SearchChatsResult> {
+    return historySearchService.search(options);
+  }
+
   async exportConversation(options: ExportOptions): Promise<ExportResult> {
     try {
-      return await exportService.exportChats(options as any);
+      return await exportService.exportChats(options);
     } catch (error: any) {
       return {
         success: false,
         error: error.message || 'Failed to export conversation',
+        reason: 'internal_error',
       };
     }
   }
@@ -1839,7 +2017,7 @@ if (estimatedPromptTokens > ChatConfig.MAX_PROMPT_TOKENS) {
       });
 
       if (!session) {
-        return { success: false, error: 'Chat session not found' };
+        return { success: false, error: 'Chat session not found', reason: 'session_not_found' };
       }
 
       await prisma.chatSession.update({
@@ -1868,7 +2046,7 @@ if (estimatedPromptTokens > ChatConfig.MAX_PROMPT_TOKENS) {
       });
 
       if (!session) {
-        return { success: false, error: 'Chat session not found' };
+        return { success: false, error: 'Chat session not found', reason: 'session_not_found' };
       }
 
       await prisma.chatSession.update({
@@ -1888,19 +2066,38 @@ if (estimatedPromptTokens > ChatConfig.MAX_PROMPT_TOKENS) {
     }
   }
 
-  async getChatHistory(userId: string, sessionId: string): Promise<ChatHistoryResult> {
+  /**
+   * Get the messages of one branch path (defaults to the session's active branch).
+   * Pass null to read the main line explicitly.
+   */
+  async getChatHistory(
+    userId: string,
+    sessionId: string,
+    branchId?: string | null
+  ): Promise<ChatHistoryResult> {
     try {
       const chatSession = await prisma.chatSession.findUnique({
         where: { id: sessionId, userId },
-        include: {
-          messages: {
-            orderBy: { createdAt: 'asc' },
-          },
-        },
       });
 
       if (!chatSession) {
-        return { success: false, error: 'Chat session not found' };
+        return { success: false, error: 'Chat session not found', reason: 'session_not_found' };
+      }
+
+      const selectedBranchId = branchId === undefined ? chatSession.activeBranchId : branchId;
+
+      const ancestry = await branchingService.getBranchAncestry({
+        sessionId,
+        userId,
+        branchId: selectedBranchId,
+      });
+
+      if (!ancestry.success || !ancestry.messages) {
+        return {
+          success: false,
+          error: ancestry.error || 'Failed to get chat history',
+          reason: ancestry.reason,
+        };
       }
 
       const branches = await prisma.message.groupBy({
@@ -1919,17 +2116,21 @@ if (estimatedPromptTokens > ChatConfig.MAX_PROMPT_TOKENS) {
           aiModel: chatSession.aiModel,
           messageCount: chatSession.messageCount,
           branches: branches.length,
+          activeBranchId: chatSession.activeBranchId,
+          branchId: selectedBranchId,
           isPinned: chatSession.isPinned || false,
           isArchived: chatSession.isArchived || false,
           createdAt: chatSession.createdAt,
         },
-        messages: chatSession.messages.map((m) => ({
+        messages: ancestry.messages.map((m) => ({
           id: m.id,
           role: m.role,
           content: this.decryptMessage(m),
           wordsUsed: m.wordsUsed,
           branchId: m.branchId,
           parentMessageId: m.parentMessageId,
+          rating: m.rating,
+          feedback: m.feedback,
           createdAt: m.createdAt,
         })),
       };
@@ -1941,6 +2142,113 @@ if (estimatedPromptTokens > ChatConfig.MAX_PROMPT_TOKENS) {
     }
   }
 
+  /**
+   * Load a branch path as plain role/content history for the streaming pipeline
+   */
+  async getBranchConversation(
+    userId: string,
+    sessionId: string
+  ): Promise<{
+    success: boolean;
+    branchId?: string | null;
+    history?: Array<{ role: string; content: string }>;
+    error?: string;
+    reason?: string;
+  }> {
+    const target = await branchingService.getActiveBranchTarget(sessionId);
+
+    const ancestry = await branchingService.getBranchAncestry({
+      sessionId,
+      userId,
+      branchId: target.branchId,
+    });
+
+    if (!ancestry.success || !ancestry.messages) {
+      return { success: false, error: ancestry.error, reason: ancestry.reason };
+    }
+
+    return {
+      success: true,
+      branchId: target.branchId,
+      history: ancestry.messages.map((m) => ({
+        role: m.role,
+        content: this.decryptMessage(m),
+      })),
+    };
+  }
+
+  /**
+   * Persist a streamed user/assistant exchange on the session's active branch
+   */
+  async saveStreamedExchange(options: {
+    userId: string;
+    sessionId: string;
+    userMessage: string;
+    assistantMessage: string;
+    aiModel?: string;
+    attachmentIds?: string[];
+  }): Promise<{ success: boolean; branchId?: string | null; error?: string }> {
+    const { userId, sessionId, userMessage, assistantMessage, aiModel } = options;
+
+    try {
+      const target = await branchingService.getActiveBranchTarget(sessionId);
+
+      const encryptedUserMsg = this.encryptMessage(userMessage);
+      const encryptedAssistantMsg = this.encryptMessage(assistantMessage);
+      const userWords = this.countWords(userMessage);
+      const assistantWords = this.countWords(assistantMessage);
+
+      await prisma.message.create({
+        data: {
+          sessionId,
+          userId,
+          role: 'user',
+          content: encryptedUserMsg.content,
+          encryptedContent: encryptedUserMsg.encryptedContent,
+          encryptionIV: encryptedUserMsg.encryptionIV,
+          encryptionAuthTag: encryptedUserMsg.encryptionAuthTag,
+          wordsUsed: userWords,
+          branchId: target.branchId,
+          parentMessageId: target.parentMessageId,
+          attachmentIds: options.attachmentIds || [],
+        },
+      });
+
+      await prisma.message.create({
+        data: {
+          sessionId,
+          userId,
+          role: 'assistant',
+          content: encryptedAssistantMsg.content,
+          encryptedContent: encryptedAssistantMsg.encryptedContent,
+          encryptionIV: encryptedAssistantMsg.encryptionIV,
+          encryptionAuthTag: encryptedAssistantMsg.encryptionAuthTag,
+          wordsUsed: assistantWords,
+          aiModel: aiModel || null,
+          branchId: target.branchId,
+        },
+      });
+
+      await prisma.chatSession.update({
+        where: { id: sessionId },
+        data: {
+          messageCount: { increment: 2 },
+          totalTokens: { increment: userWords + assistantWords },
+          lastMessageAt: new Date(),
+          updatedAt: new Date(),
+        },
+      });
+
+      return { success: true, branchId: target.branchId };
+    } catch (error: any) {
+      console.error('[ChatService] Save streamed exchange error:', error);
+      return {
+        success: false,
+        error: error.message || 'Failed to save streamed messages',
+      };
+    }
+  }
+
   async getUserChats(
     userId: string,
     options?: {
@@ -0,0 +1,186 @@
+/**
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ * SORIVA CHAT ATTACHMENT SERVICE v1.0
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ * Created: October 2026
+ *
+ * PURPOSE:
+ * Turn uploaded files (FileUpload rows) referenced by a chat message
+ * into multimodal content parts the model receives as real inputs.
+ *
+ * FEATURES:
+ * ✅ Ownership check (users can only attach their own uploads)
+ * ✅ Plan gate (features.fileUpload = vision-capable plans)
+ * ✅ Images, PDFs and audio - other types are rejected
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ */
+
+import { prisma } from '../../../config/prisma';
+import { plansManager, PlanType } from '../../../constants';
+import { AIMediaPart } from '../../../core/ai/providers';
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// DYNAMIC CONFIGURATION
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+class AttachmentConfig {
+  /**
+   * Maximum attachments per message
+   */
+  static readonly MAX_ATTACHMENTS = parseInt(process.env.CHAT_MAX_ATTACHMENTS || '5');
+
+  /**
+   * Maximum size of a single attachment sent to the model (bytes)
+   */
+  static readonly MAX_FILE_SIZE = parseInt(
+    process.env.CHAT_MAX_ATTACHMENT_SIZE || String(15 * 1024 * 1024)
+  );
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// TYPES & INTERFACES
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export type AttachmentErrorReason =
+  | 'feature_disabled'
+  | 'too_many'
+  | 'attachment_not_found'
+  | 'unsupported_type'
+  | 'file_too_large';
+
+export interface ResolveAttachmentsOptions {
+  userId: string;
+  planType: string;
+  attachmentIds: string[];
+}
+
+export interface ResolveAttachmentsResult {
+  success: boolean;
+  parts?: AIMediaPart[];
+  error?: string;
+  reason?: AttachmentErrorReason;
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// ATTACHMENT SERVICE CLASS
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export class AttachmentService {
+  private static instance: AttachmentService;
+
+  private constructor() {}
+
+  static getInstance(): AttachmentService {
+    if (!AttachmentService.instance) {
+      AttachmentService.instance = new AttachmentService();
+    }
+    return AttachmentService.instance;
+  }
+
+  /**
+   * Load the user's uploads and convert them to content parts (in request order)
+   */
+  async resolveAttachments(options: ResolveAttachmentsOptions): Promise<ResolveAttachmentsResult> {
+    const { userId, planType } = options;
+    const attachmentIds = Array.from(new Set(options.attachmentIds));
+
+    if (attachmentIds.length === 0) {
+      return { success: true, parts: [] };
+    }
+
+    if (!plansManager.hasFileUpload(planType as PlanType)) {
+      return {
+        success: false,
+        error: 'File attachments are not available on your plan',
+        reason: 'feature_disabled',
+      };
+    }
+
+    if (attachmentIds.length > AttachmentConfig.MAX_ATTACHMENTS) {
+      return {
+        success: false,
+        error: `Maximum ${AttachmentConfig.MAX_ATTACHMENTS} attachments per message`,
+        reason: 'too_many',
+      };
+    }
+
+    try {
+      const uploads = await prisma.fileUpload.findMany({
+        where: {
+          id: { in: attachmentIds },
+          userId,
+          OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+        },
+        select: {
+          id: true,
+          originalName: true,
+          mimeType: true,
+          fileSize: true,
+          storageUrl: true,
+        },
+      });
+
+      const uploadsById = new Map(uploads.map((upload) => [upload.id, upload]));
+      const parts: AIMediaPart[] = [];
+
+      for (const id of attachmentIds) {
+        const upload = uploadsById.get(id);
+        if (!upload) {
+          return {
+            success: false,
+            error: `Attachment not found: ${id}`,
+            reason: 'attachment_not_found',
+          };
+        }
+
+        const type = this.getPartType(upload.mimeType);
+        if (!type) {
+          return {
+            success: false,
+            error: `Unsupported attachment type: ${upload.mimeType}`,
+            reason: 'unsupported_type',
+          };
+        }
+
+        if (upload.fileSize > AttachmentConfig.MAX_FILE_SIZE) {
+          return {
+            success: false,
+            error: `Attachment too large: ${upload.originalName}`,
+            reason: 'file_too_large',
+          };
+        }
+
+        parts.push({
+          type,
+          mimeType: upload.mimeType,
+          url: upload.storageUrl,
+          fileName: upload.originalName,
+        });
+      }
+
+      return { success: true, parts };
+    } catch (error: unknown) {
+      console.error('[AttachmentService] Resolve attachments error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to load attachments',
+      };
+    }
+  }
+
+  /**
+   * Content part type for a MIME type (null = not sendable to the model)
+   */
+  private getPartType(mimeType: string): AIMediaPart['type'] | null {
+    if (mimeType.startsWith('image/')) return 'image';
+    if (mimeType.startsWith('audio/')) return 'audio';
+    if (mimeType === 'application/pdf') return 'document';
+    return null;
+  }
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// EXPORT SINGLETON
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export const attachmentService = AttachmentService.getInstance();
@@ -35,9 +35,15 @@
  * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
  */
 
+import { Message } from '@prisma/client';
 import { prisma } from '../../../config/prisma';
 import { plansManager, PlanType } from '../../../constants';
 
+/**
+ * Public identifier for the main conversation line (messages with branchId = null)
+ */
+export const MAIN_BRANCH_ID = 'main';
+
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 // DYNAMIC CONFIGURATION (100% FROM ENV)
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
@@ -118,7 +124,8 @@ interface BranchMessage {
 
 interface CreateBranchOptions {
   sessionId: string;
-  parentMessageId: string;
+  /** Last message shared with the new branch (null = branch starts from the beginning) */
+  parentMessageId: string | null;
   userId: string;
   metadata?: Record<string, unknown>;
 }
@@ -152,13 +159,15 @@ interface GetBranchTreeResult {
   tree?: BranchNode[];
   totalBranches?: number;
   error?: string;
+  reason?: string;
 }
 
 interface CompareBranchesOptions {
   sessionId: string;
   userId: string;
-  branchId1: string;
-  branchId2: string;
+  /** null = main line */
+  branchId1: string | null;
+  branchId2: string | null;
 }
 
 interface BranchComparison {
@@ -191,6 +200,7 @@ interface CompareBranchesResult {
   success: boolean;
   comparison?: BranchComparison;
   error?: string;
+  reason?: string;
 }
 
 interface DeleteBranchOptions {
@@ -204,6 +214,7 @@ interface DeleteBranchResult {
   messagesDeleted?: number;
   message?: string;
   error?: string;
+  reason?: string;
 }
 
 interface GetBranchStatsOptions {
@@ -233,6 +244,55 @@ interface GetBranchStatsResult {
   success: boolean;
   stats?: BranchStats;
   error?: string;
+  reason?: string;
+}
+
+interface GetBranchAncestryOptions {
+  sessionId: string;
+  userId: string;
+  branchId: string | null;
+}
+
+interface GetBranchAncestryResult {
+  success: boolean;
+  branchId?: string | null;
+  messages?: Message[];
+  error?: string;
+  reason?: string;
+}
+
+interface SwitchBranchOptions {
+  sessionId: string;
+  userId: string;
+  branchId: string | null;
+}
+
+interface SwitchBranchResult {
+  success: boolean;
+  activeBranchId?: string | null;
+  error?: string;
+  reason?: string;
+}
+
+interface ActiveBranchTarget {
+  branchId: string | null;
+  parentMessageId: string | null;
+}
+
+interface MergeBranchOptions {
+  sessionId: string;
+  userId: string;
+  branchId: string;
+}
+
+interface MergeBranchResult {
+  success: boolean;
+  mergedInto?: string | null;
+  messagesMerged?: number;
+  displacedBranchId?: string | null;
+  messagesDisplaced?: number;
+  error?: string;
+  reason?: string;
 }
 
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
@@ -328,20 +388,25 @@ export class BranchingService {
         };
       }
 
-      const parentMessage = await prisma.message.findUnique({
-        where: { id: parentMessageId },
-        select: { id: true, sessionId: true },
-      });
+      let depth = 0;
 
-      if (!parentMessage || parentMessage.sessionId !== sessionId) {
-        return {
-          success: false,
-          error: 'Parent message not found or does not belong to this session',
-          reason: 'invalid_parent_message',
-        };
+      if (parentMessageId) {
+        const parentMessage = await prisma.message.findUnique({
+          where: { id: parentMessageId },
+          select: { id: true, sessionId: true },
+        });
+
+        if (!parentMessage || parentMessage.sessionId !== sessionId) {
+          return {
+            success: false,
+            error: 'Parent message not found or does not belong to this session',
+            reason: 'invalid_parent_message',
+          };
+        }
+
+        depth = await this.calculateBranchDepth(parentMessageId);
       }
 
-      const depth = await this.calculateBranchDepth(parentMessageId);
       if (depth >= BranchingConfig.MAX_BRANCH_DEPTH) {
         return {
           success: false,
@@ -353,6 +418,15 @@ export class BranchingService {
       const branchNumber = existingBranches.length + 1;
       const branchId = this.generateBranchId(sessionId, branchNumber);
 
+      // The branch has no messages yet, so remember where it forks until the first one lands
+      await prisma.chatSession.update({
+        where: { id: sessionId },
+        data: {
+          activeBranchId: branchId,
+          branchForkMessageId: parentMessageId,
+        },
+      });
+
       console.log('[BranchingService] 🌿 New branch created:', {
         branchId,
         parentMessageId,
@@ -387,6 +461,7 @@ export class BranchingService {
         return {
           success: false,
           error: 'Branch visualization is disabled',
+          reason: 'feature_disabled',
         };
       }
 
@@ -398,6 +473,7 @@ export class BranchingService {
         return {
           success: false,
           error: 'Chat session not found or access denied',
+          reason: 'session_not_found',
         };
       }
 
@@ -468,7 +544,7 @@ export class BranchingService {
   }
 
   /**
-   * Compare two branches
+   * Compare two branches (null compares the main line)
    */
   async compareBranches(options: CompareBranchesOptions): Promise<CompareBranchesResult> {
     const { sessionId, userId, branchId1, branchId2 } = options;
@@ -478,6 +554,7 @@ export class BranchingService {
         return {
           success: false,
           error: 'Branch comparison is disabled',
+          reason: 'feature_disabled',
         };
       }
 
@@ -489,6 +566,7 @@ export class BranchingService {
         return {
           success: false,
           error: 'Chat session not found or access denied',
+          reason: 'session_not_found',
         };
       }
 
@@ -509,6 +587,7 @@ export class BranchingService {
         return {
           success: false,
           error: 'One or both branches have no messages',
+          reason: 'branch_not_found',
         };
       }
 
@@ -517,7 +596,7 @@ export class BranchingService {
 
       const comparison: BranchComparison = {
         branch1: {
-          branchId: branchId1,
+          branchId: branchId1 ?? MAIN_BRANCH_ID,
           messageCount: branch1Messages.length,
           messages: branch1Messages.map((m) => ({
             id: m.id,
@@ -526,7 +605,7 @@ export class BranchingService {
           })),
         },
         branch2: {
-          branchId: branchId2,
+          branchId: branchId2 ?? MAIN_BRANCH_ID,
           messageCount: branch2Messages.length,
           messages: branch2Messages.map((m) => ({
             id: m.id,
@@ -576,6 +655,7 @@ export class BranchingService {
         return {
           success: false,
           error: 'Chat session not found or access denied',
+          reason: 'session_not_found',
         };
       }
 
@@ -586,6 +666,13 @@ export class BranchingService {
         },
       });
 
+      if (session.activeBranchId === branchId) {
+        await prisma.chatSession.update({
+          where: { id: sessionId },
+          data: { activeBranchId: null, branchForkMessageId: null },
+        });
+      }
+
       console.log('[BranchingService] 🗑️ Branch deleted:', {
         branchId,
         messagesDeleted: result.count,
@@ -621,6 +708,7 @@ export class BranchingService {
         return {
           success: false,
           error: 'Chat session not found or access denied',
+          reason: 'session_not_found',
         };
       }
 
@@ -699,6 +787,308 @@ export class BranchingService {
     }
   }
 
+  /**
+   * Get the messages a branch "sees": its ancestors up to the fork point, then its own messages.
+   * A null branchId is the main line. The first message of a branch carries parentMessageId,
+   * which is the last message it shares with the line it forked from.
+   */
+  async getBranchAncestry(options: GetBranchAncestryOptions): Promise<GetBranchAncestryResult> {
+    const { sessionId, userId, branchId } = options;
+
+    try {
+      const session = await prisma.chatSession.findUnique({
+        where: { id: sessionId, userId },
+      });
+
+      if (!session) {
+        return {
+          success: false,
+          error: 'Chat session not found or access denied',
+          reason: 'session_not_found',
+        };
+      }
+
+      const allMessages = await prisma.message.findMany({
+        where: { sessionId },
+        orderBy: { createdAt: 'asc' },
+      });
+
+      const isPendingBranch = branchId !== null && branchId === session.activeBranchId;
+
+      if (branchId !== null && !isPendingBranch && !allMessages.some((m) => m.branchId === branchId)) {
+        return {
+          success: false,
+          error: 'Branch not found in this session',
+          reason: 'branch_not_found',
+        };
+      }
+
+      const messagesById = new Map(allMessages.map((m) => [m.id, m]));
+
+      const collect = (
+        currentBranchId: string | null,
+        cutoffMessageId: string | null,
+        depth: number
+      ): Message[] => {
+        let own = allMessages.filter((m) => m.branchId === currentBranchId);
+
+        if (cutoffMessageId) {
+          const cutoffIndex = own.findIndex((m) => m.id === cutoffMessageId);
+          if (cutoffIndex >= 0) {
+            own = own.slice(0, cutoffIndex + 1);
+          }
+        }
+
+        if (currentBranchId === null || depth > BranchingConfig.MAX_BRANCH_DEPTH * 4) {
+          return own;
+        }
+
+        const forkMessageId =
+          own[0]?.parentMessageId ||
+          (currentBranchId === session.activeBranchId ? session.branchForkMessageId : null);
+        const forkMessage = forkMessageId ? messagesById.get(forkMessageId) : undefined;
+
+        if (!forkMessage || forkMessage.branchId === currentBranchId) {
+          return own;
+        }
+
+        return [...collect(forkMessage.branchId, forkMessage.id, depth + 1), ...own];
+      };
+
+      return {
+        success: true,
+        branchId,
+        messages: collect(branchId, null, 0),
+      };
+    } catch (error: unknown) {
+      const err = error as Error;
+      console.error('[BranchingService] Get branch ancestry error:', err);
+      return {
+        success: false,
+        error: err.message || 'Failed to get branch history',
+        reason: 'internal_error',
+      };
+    }
+  }
+
+  /**
+   * Switch the active branch of a session (null = main line)
+   */
+  async switchBranch(options: SwitchBranchOptions): Promise<SwitchBranchResult> {
+    const { sessionId, userId, branchId } = options;
+
+    try {
+      const session = await prisma.chatSession.findUnique({
+        where: { id: sessionId, userId },
+      });
+
+      if (!session) {
+        return {
+          success: false,
+          error: 'Chat session not found or access denied',
+          reason: 'session_not_found',
+        };
+      }
+
+      if (branchId !== null && branchId !== session.activeBranchId) {
+        const branchMessage = await prisma.message.findFirst({
+          where: { sessionId, branchId },
+          select: { id: true },
+        });
+
+        if (!branchMessage) {
+          return {
+            success: false,
+            error: 'Branch not found in this session',
+            reason: 'branch_not_found',
+          };
+        }
+      }
+
+      await prisma.chatSession.update({
+        where: { id: sessionId },
+        data: {
+          activeBranchId: branchId,
+          branchForkMessageId: branchId === session.activeBranchId ? session.branchForkMessageId : null,
+        },
+      });
+
+      console.log('[BranchingService] 🔀 Active branch switched:', {
+        sessionId,
+        activeBranchId: branchId || MAIN_BRANCH_ID,
+      });
+
+      return {
+        success: true,
+        activeBranchId: branchId,
+      };
+    } catch (error: unknown) {
+      const err = error as Error;
+      console.error('[BranchingService] Switch branch error:', err);
+      return {
+        success: false,
+        error: err.message || 'Failed to switch branch',
+        reason: 'internal_error',
+      };
+    }
+  }
+
+  /**
+   * Resolve where the next message of a session should be written
+   */
+  async getActiveBranchTarget(sessionId: string): Promise<ActiveBranchTarget> {
+    const session = await prisma.chatSession.findUnique({
+      where: { id: sessionId },
+      select: { activeBranchId: true, branchForkMessageId: true },
+    });
+
+    if (!session?.activeBranchId) {
+      return { branchId: null, parentMessageId: null };
+    }
+
+    const existingMessage = await prisma.message.findFirst({
+      where: { sessionId, branchId: session.activeBranchId },
+      select: { id: true },
+    });
+
+    return {
+      branchId: session.activeBranchId,
+      parentMessageId: existingMessage ? null : session.branchForkMessageId,
+    };
+  }
+
+  /**
+   * Merge a branch back into the line it forked from.
+   * The branch's messages replace everything after the fork point; the replaced
+   * messages are kept as a new branch so nothing is lost.
+   */
+  async mergeBranch(options: MergeBranchOptions): Promise<MergeBranchResult> {
+    const { sessionId, userId, branchId } = options;
+
+    try {
+      if (!BranchingConfig.MERGE_ENABLED) {
+        return {
+          success: false,
+          error: 'Branch merging is disabled',
+          reason: 'feature_disabled',
+        };
+      }
+
+      const session = await prisma.chatSession.findUnique({
+        where: { id: sessionId, userId },
+      });
+
+      if (!session) {
+        return {
+          success: false,
+          error: 'Chat session not found or access denied',
+          reason: 'session_not_found',
+        };
+      }
+
+      const branchMessages = await prisma.message.findMany({
+        where: { sessionId, branchId },
+        orderBy: { createdAt: 'asc' },
+        select: { id: true, parentMessageId: true },
+      });
+
+      if (branchMessages.length === 0) {
+        return {
+          success: false,
+          error: 'Branch not found or has no messages',
+          reason: 'branch_not_found',
+        };
+      }
+
+      const forkMessageId = branchMessages[0].parentMessageId;
+      const forkMessage = forkMessageId
+        ? await prisma.message.findUnique({
+            where: { id: forkMessageId },
+            select: { id: true, branchId: true, createdAt: true },
+          })
+        : null;
+
+      if (!forkMessage) {
+        return {
+          success: false,
+          error: 'Branch has no fork point to merge into',
+          reason: 'invalid_parent_message',
+        };
+      }
+
+      const targetBranchId = forkMessage.branchId;
+
+      const displacedMessages = await prisma.message.findMany({
+        where: {
+          sessionId,
+          branchId: targetBranchId,
+          createdAt: { gt: forkMessage.createdAt },
+        },
+        orderBy: { createdAt: 'asc' },
+        select: { id: true },
+      });
+
+      let displacedBranchId: string | null = null;
+
+      if (displacedMessages.length > 0) {
+        const existingBranches = await prisma.message.groupBy({
+          by: ['branchId'],
+          where: { sessionId, branchId: { not: null } },
+        });
+        displacedBranchId = this.generateBranchId(sessionId, existingBranches.length + 1);
+      }
+
+      await prisma.$transaction(async (tx) => {
+        if (displacedBranchId) {
+          await tx.message.updateMany({
+            where: { id: { in: displacedMessages.map((m) => m.id) } },
+            data: { branchId: displacedBranchId },
+          });
+
+          await tx.message.update({
+            where: { id: displacedMessages[0].id },
+            data: { parentMessageId: forkMessage.id },
+          });
+        }
+
+        await tx.message.updateMany({
+          where: { sessionId, branchId },
+          data: { branchId: targetBranchId },
+        });
+
+        if (session.activeBranchId === branchId) {
+          await tx.chatSession.update({
+            where: { id: sessionId },
+            data: { activeBranchId: targetBranchId, branchForkMessageId: null },
+          });
+        }
+      });
+
+      console.log('[BranchingService] 🔗 Branch merged:', {
+        branchId,
+        mergedInto: targetBranchId || MAIN_BRANCH_ID,
+        messagesMerged: branchMessages.length,
+        displacedBranchId,
+      });
+
+      return {
+        success: true,
+        mergedInto: targetBranchId,
+        messagesMerged: branchMessages.length,
+        displacedBranchId,
+        messagesDisplaced: displacedMessages.length,
+      };
+    } catch (error: unknown) {
+      const err = error as Error;
+      console.error('[BranchingService] Merge branch error:', err);
+      return {
+        success: false,
+        error: err.message || 'Failed to merge branch',
+        reason: 'internal_error',
+      };
+    }
+  }
+
   /**
    * Auto-cleanup old branches (cron job)
    */
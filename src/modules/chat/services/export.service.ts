@@ -5,20 +5,21 @@
  * Created by: Amandeep, Punjab, India
  * Created: October 2025
  * Updated: January 19, 2026 - Added LITE plan support
+ * Updated: October 18, 2026 - Real PDF (pdfkit), Markdown, gzip/zip bundles
  *
  * PURPOSE:
- * Export chat conversations in multiple formats (CSV, JSON, TXT, PDF).
+ * Export chat conversations in multiple formats (CSV, JSON, TXT, PDF, Markdown).
  * Supports filtering, privacy controls, and plan-based features.
  *
  * FEATURES:
- * ✅ Multiple export formats (CSV, JSON, TXT, PDF)
+ * ✅ Multiple export formats (CSV, JSON, TXT, PDF, MARKDOWN)
  * ✅ Date range filtering
  * ✅ Privacy-aware exports (removes sensitive data)
  * ✅ Plan-based export limits
  * ✅ Batch export support
  * ✅ Custom templates
  * ✅ Metadata inclusion
- * ✅ Compression support
+ * ✅ Compression support (gzip, zip bundles for multi-session exports)
  * ✅ Email delivery (premium plans)
  * ✅ Scheduled exports (premium plans)
  *
@@ -36,6 +37,9 @@ import { PrismaClient } from '@prisma/client';
 import { PlanType } from '../../../constants';
 import * as fs from 'fs';
 import * as path from 'path';
+import * as zlib from 'zlib';
+import PDFDocument from 'pdfkit';
+import zipUtil from '../../../shared/utils/zip-util';
 
 const prisma = new PrismaClient();
 
@@ -71,6 +75,11 @@ class ExportConfig {
    */
   static readonly ENABLE_COMPRESSION = process.env.ENABLE_EXPORT_COMPRESSION !== 'false';
 
+  /**
+   * Optional TTF/OTF font for PDF exports (needed for non-Latin scripts like Devanagari)
+   */
+  static readonly PDF_FONT_PATH = process.env.EXPORT_PDF_FONT_PATH || '';
+
   /**
    * Plan-based export limits
    * ✅ UPDATED: Added LITE plan support
@@ -88,7 +97,7 @@ class ExportConfig {
     [PlanType.STARTER]: {
       maxExportsPerDay: 2,
       maxMessagesPerExport: 100,
-      formats: ['JSON', 'TXT'],
+      formats: ['JSON', 'TXT', 'MARKDOWN'],
       emailDelivery: false,
       scheduledExports: false,
     },
@@ -96,28 +105,28 @@ class ExportConfig {
     [PlanType.LITE]: {
       maxExportsPerDay: 3,
       maxMessagesPerExport: 200,
-      formats: ['JSON', 'TXT'],
+      formats: ['JSON', 'TXT', 'MARKDOWN'],
       emailDelivery: false,
       scheduledExports: false,
     },
     [PlanType.PLUS]: {
       maxExportsPerDay: 5,
       maxMessagesPerExport: 500,
-      formats: ['JSON', 'TXT', 'CSV'],
+      formats: ['JSON', 'TXT', 'CSV', 'MARKDOWN'],
       emailDelivery: true,
       scheduledExports: false,
     },
     [PlanType.PRO]: {
       maxExportsPerDay: 10,
       maxMessagesPerExport: 2000,
-      formats: ['JSON', 'TXT', 'CSV', 'PDF'],
+      formats: ['JSON', 'TXT', 'CSV', 'PDF', 'MARKDOWN'],
       emailDelivery: true,
       scheduledExports: true,
     },
     [PlanType.APEX]: {
       maxExportsPerDay: -1,
       maxMessagesPerExport: 10000,
-      formats: ['JSON', 'TXT', 'CSV', 'PDF'],
+      formats: ['JSON', 'TXT', 'CSV', 'PDF', 'MARKDOWN'],
       emailDelivery: true,
       scheduledExports: true,
     },
@@ -125,7 +134,7 @@ class ExportConfig {
     [PlanType.SOVEREIGN]: {
       maxExportsPerDay: -1,
       maxMessagesPerExport: 999999,
-      formats: ['JSON', 'TXT', 'CSV', 'PDF'],
+      formats: ['JSON', 'TXT', 'CSV', 'PDF', 'MARKDOWN'],
       emailDelivery: true,
       scheduledExports: true,
     },
@@ -136,33 +145,76 @@ class ExportConfig {
 // TYPES & INTERFACES
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
-export type ExportFormat = 'JSON' | 'CSV' | 'TXT' | 'PDF';
+export type ExportFormat = 'JSON' | 'CSV' | 'TXT' | 'PDF' | 'MARKDOWN';
+
+export type CompressionFormat = 'gzip' | 'zip';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['JSON', 'CSV', 'TXT', 'PDF', 'MARKDOWN'];
+
+const FORMAT_EXTENSIONS: Record<ExportFormat, string> = {
+  JSON: 'json',
+  CSV: 'csv',
+  TXT: 'txt',
+  PDF: 'pdf',
+  MARKDOWN: 'md',
+};
+
+const MIME_TYPES: Record<ExportFormat | CompressionFormat, string> = {
+  JSON: 'application/json',
+  CSV: 'text/csv',
+  TXT: 'text/plain',
+  PDF: 'application/pdf',
+  MARKDOWN: 'text/markdown',
+  gzip: 'application/gzip',
+  zip: 'application/zip',
+};
 
 export interface ExportOptions {
   userId: string;
   format: ExportFormat;
   sessionId?: string;
+  sessionIds?: string[];
   startDate?: Date;
   endDate?: Date;
   includeMetadata?: boolean;
   includeSystemMessages?: boolean;
   removePII?: boolean;
   compress?: boolean;
+  compression?: CompressionFormat;
   emailTo?: string;
 }
 
 export interface ExportResult {
   success: boolean;
   filePath?: string;
+  fileName?: string;
+  mimeType?: string;
   fileSize?: number;
   messageCount?: number;
+  sessionCount?: number;
   format?: ExportFormat;
   error?: string;
+  reason?: string;
+}
+
+export interface ExportLimitsResult {
+  success: boolean;
+  limits?: {
+    planType: PlanType;
+    formats: ExportFormat[];
+    maxExportsPerDay: number;
+    exportsToday: number;
+    remainingToday: number;
+    maxMessagesPerExport: number;
+    compression: boolean;
+  };
+  error?: string;
 }
 
 interface ChatMessage {
   id: string;
   sessionId: string;
+  sessionTitle?: string | null;
   role: 'user' | 'assistant' | 'system';
   content: string;
   timestamp: Date;
@@ -221,6 +273,7 @@ export class ExportService {
       return {
         success: false,
         error: 'Export feature is disabled',
+        reason: 'feature_disabled',
       };
     }
 
@@ -234,6 +287,7 @@ export class ExportService {
         return {
           success: false,
           error: validation.error,
+          reason: 'invalid_request',
         };
       }
 
@@ -250,6 +304,7 @@ export class ExportService {
         return {
           success: false,
           error: 'User not found',
+          reason: 'user_not_found',
         };
       }
 
@@ -261,6 +316,7 @@ export class ExportService {
         return {
           success: false,
           error: `${options.format} format not available for ${planType} plan`,
+          reason: 'format_not_allowed',
         };
       }
 
@@ -270,6 +326,7 @@ export class ExportService {
         return {
           success: false,
           error: `Daily export limit reached (${planLimits.maxExportsPerDay})`,
+          reason: 'daily_limit_reached',
         };
       }
 
@@ -283,6 +340,7 @@ export class ExportService {
         return {
           success: false,
           error: 'No messages found for export',
+          reason: 'no_messages',
         };
       }
 
@@ -296,16 +354,26 @@ export class ExportService {
       // STEP 5: GENERATE EXPORT FILE
       // ========================================
 
-      const filePath = await this.generateExportFile(processedMessages, options);
+      const sessionCount = new Set(processedMessages.map((m) => m.sessionId)).size;
+      const compression: CompressionFormat | null =
+        (options.compress || options.compression) && ExportConfig.ENABLE_COMPRESSION
+          ? options.compression || 'gzip'
+          : null;
 
-      // ========================================
-      // STEP 6: COMPRESS IF NEEDED
-      // ========================================
+      let finalPath: string;
+
+      if (compression === 'zip') {
+        // One file per conversation inside a single archive
+        finalPath = await this.generateZipBundle(processedMessages, options);
+      } else {
+        const filePath = await this.generateExportFile(processedMessages, options);
 
-      const finalPath =
-        options.compress && ExportConfig.ENABLE_COMPRESSION
-          ? await this.compressFile(filePath)
-          : filePath;
+        // ========================================
+        // STEP 6: COMPRESS IF NEEDED
+        // ========================================
+
+        finalPath = compression === 'gzip' ? await this.compressFile(filePath) : filePath;
+      }
 
       // ========================================
       // STEP 7: GET FILE SIZE
@@ -342,8 +410,11 @@ export class ExportService {
       return {
         success: true,
         filePath: finalPath,
+        fileName: path.basename(finalPath),
+        mimeType: MIME_TYPES[compression || options.format],
         fileSize: fileStats.size,
         messageCount: messages.length,
+        sessionCount,
         format: options.format,
       };
     } catch (error: any) {
@@ -351,6 +422,49 @@ export class ExportService {
       return {
         success: false,
         error: error.message || 'Export failed',
+        reason: 'internal_error',
+      };
+    }
+  }
+
+  /**
+   * Get export limits and today's usage for a user
+   */
+  async getExportLimits(userId: string): Promise<ExportLimitsResult> {
+    try {
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { planType: true },
+      });
+
+      if (!user) {
+        return { success: false, error: 'User not found' };
+      }
+
+      const planType = user.planType as PlanType;
+      const planLimits = ExportConfig.PLAN_LIMITS[planType];
+      const exportsToday = await this.getTodayExportCount(userId);
+
+      return {
+        success: true,
+        limits: {
+          planType,
+          formats: planLimits.formats,
+          maxExportsPerDay: planLimits.maxExportsPerDay,
+          exportsToday,
+          remainingToday:
+            planLimits.maxExportsPerDay === -1
+              ? -1
+              : Math.max(planLimits.maxExportsPerDay - exportsToday, 0),
+          maxMessagesPerExport: planLimits.maxMessagesPerExport,
+          compression: ExportConfig.ENABLE_COMPRESSION,
+        },
+      };
+    } catch (error: any) {
+      console.error('[ExportService] Get export limits error:', error);
+      return {
+        success: false,
+        error: error.message || 'Failed to get export limits',
       };
     }
   }
@@ -374,11 +488,15 @@ export class ExportService {
     options: ExportOptions
   ): Promise<{ valid: boolean; error?: string }> {
     // Validate format
-    const validFormats: ExportFormat[] = ['JSON', 'CSV', 'TXT', 'PDF'];
-    if (!validFormats.includes(options.format)) {
+    if (!EXPORT_FORMATS.includes(options.format)) {
       return { valid: false, error: `Invalid format: ${options.format}` };
     }
 
+    // Validate compression
+    if (options.compression && !['gzip', 'zip'].includes(options.compression)) {
+      return { valid: false, error: `Invalid compression: ${options.compression}` };
+    }
+
     // Validate date range
     if (options.startDate && options.endDate) {
       if (options.startDate > options.endDate) {
@@ -400,6 +518,8 @@ export class ExportService {
 
     if (options.sessionId) {
       where.sessionId = options.sessionId;
+    } else if (options.sessionIds && options.sessionIds.length > 0) {
+      where.sessionId = { in: options.sessionIds };
     }
 
     if (options.startDate || options.endDate) {
@@ -424,23 +544,22 @@ export class ExportService {
         content: true,
         createdAt: true,
         metadata: options.includeMetadata,
+        session: { select: { title: true } },
       },
     });
 
+    const toChatMessage = ({ session, ...msg }: any): ChatMessage => ({
+      ...msg,
+      sessionTitle: session?.title ?? null,
+      timestamp: msg.createdAt,
+    });
+
     // Filter system messages if needed
     if (!options.includeSystemMessages) {
-      return messages
-        .filter((msg: any) => msg.role !== 'system')
-        .map((msg: any) => ({
-          ...msg,
-          timestamp: msg.createdAt,
-        }));
+      return messages.filter((msg: any) => msg.role !== 'system').map(toChatMessage);
     }
 
-    return messages.map((msg: any) => ({
-      ...msg,
-      timestamp: msg.createdAt,
-    }));
+    return messages.map(toChatMessage);
   }
 
   /**
@@ -451,9 +570,20 @@ export class ExportService {
     options: ExportOptions
   ): Promise<string> {
     const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-    const filename = `chat_export_${options.userId}_${timestamp}.${options.format.toLowerCase()}`;
+    const filename = `chat_export_${options.userId}_${timestamp}.${FORMAT_EXTENSIONS[options.format]}`;
     const filePath = path.join(ExportConfig.EXPORT_DIR, filename);
 
+    return this.writeFormat(messages, filePath, options);
+  }
+
+  /**
+   * Write messages to a file in the requested format
+   */
+  private async writeFormat(
+    messages: ChatMessage[],
+    filePath: string,
+    options: ExportOptions
+  ): Promise<string> {
     switch (options.format) {
       case 'JSON':
         return this.generateJSONExport(messages, filePath, options);
@@ -463,6 +593,8 @@ export class ExportService {
         return this.generateTXTExport(messages, filePath);
       case 'PDF':
         return this.generatePDFExport(messages, filePath);
+      case 'MARKDOWN':
+        return this.generateMarkdownExport(messages, filePath);
       default:
         throw new Error(`Unsupported format: ${options.format}`);
     }
@@ -542,18 +674,250 @@ export class ExportService {
   }
 
   /**
-   * Generate PDF export (placeholder)
+   * Generate Markdown export
+   */
+  private async generateMarkdownExport(messages: ChatMessage[], filePath: string): Promise<string> {
+    const lines: string[] = [
+      '# Soriva Chat Export',
+      '',
+      `_Exported ${new Date().toLocaleString()} · ${messages.length} messages_`,
+      '',
+    ];
+
+    for (const group of this.groupBySession(messages)) {
+      lines.push('---', '', `## ${group.title}`, '');
+
+      for (const msg of group.messages) {
+        lines.push(`**${this.getSpeakerLabel(msg.role)}** · _${msg.timestamp.toLocaleString()}_`, '');
+        lines.push(msg.content, '');
+      }
+    }
+
+    fs.writeFileSync(filePath, lines.join('\n'));
+    return filePath;
+  }
+
+  /**
+   * Generate PDF export
+   * Paginated transcript with speaker labels, timestamps and monospaced code blocks
    */
   private async generatePDFExport(messages: ChatMessage[], filePath: string): Promise<string> {
-    // TODO: Implement PDF generation using a library like pdfkit
-    // For now, generate TXT and rename to .pdf
-    const txtPath = filePath.replace('.pdf', '.txt');
-    await this.generateTXTExport(messages, txtPath);
+    const doc = new PDFDocument({
+      size: 'A4',
+      margins: { top: 56, bottom: 56, left: 56, right: 56 },
+      bufferPages: true,
+      info: {
+        Title: 'Soriva Chat Export',
+        Author: 'Soriva',
+        CreationDate: new Date(),
+      },
+    });
+
+    const bodyFont = this.registerPdfFont(doc);
+    const boldFont = bodyFont === 'Helvetica' ? 'Helvetica-Bold' : bodyFont;
+    const codeFont = bodyFont === 'Helvetica' ? 'Courier' : bodyFont;
+    const contentWidth = doc.page.width - doc.page.margins.left - doc.page.margins.right;
+
+    const output = fs.createWriteStream(filePath);
+    const finished = new Promise<void>((resolve, reject) => {
+      output.on('finish', () => resolve());
+      output.on('error', reject);
+    });
+    doc.pipe(output);
+
+    // Title
+    doc.font(boldFont).fontSize(18).fillColor('#111827').text('Soriva Chat Export');
+    doc
+      .font(bodyFont)
+      .fontSize(9)
+      .fillColor('#6B7280')
+      .text(`Exported ${new Date().toLocaleString()} · ${messages.length} messages`);
+    doc.moveDown(1);
+
+    this.groupBySession(messages).forEach((group, index) => {
+      if (index > 0) {
+        doc.addPage();
+      }
+
+      doc.font(boldFont).fontSize(14).fillColor('#111827').text(group.title);
+      doc.moveDown(0.5);
+
+      for (const msg of group.messages) {
+        doc
+          .font(boldFont)
+          .fontSize(10)
+          .fillColor(msg.role === 'user' ? '#1D4ED8' : msg.role === 'assistant' ? '#047857' : '#6B7280')
+          .text(this.getSpeakerLabel(msg.role), { continued: true })
+          .font(bodyFont)
+          .fontSize(8)
+          .fillColor('#9CA3AF')
+          .text(`   ${msg.timestamp.toLocaleString()}`);
+        doc.moveDown(0.2);
+
+        for (const block of this.splitCodeBlocks(msg.content)) {
+          if (block.type === 'code') {
+            doc.font(codeFont).fontSize(8.5);
+            const height = doc.heightOfString(block.text, { width: contentWidth - 12 }) + 8;
+            const fitsOnPage = doc.y + height < doc.page.height - doc.page.margins.bottom;
+
+            // Background only when the block does not break across pages
+            if (fitsOnPage) {
+              doc.save().rect(doc.page.margins.left, doc.y, contentWidth, height).fill('#F3F4F6').restore();
+            }
+
+            doc
+              .fillColor('#111827')
+              .text(block.text, doc.page.margins.left + 6, doc.y + 4, { width: contentWidth - 12 });
+            doc.x = doc.page.margins.left;
+            doc.moveDown(0.6);
+          } else if (block.text.trim()) {
+            doc
+              .font(bodyFont)
+              .fontSize(10)
+              .fillColor('#1F2937')
+              .text(block.text.trim(), { width: contentWidth });
+            doc.moveDown(0.4);
+          }
+        }
+
+        doc.moveDown(0.6);
+      }
+    });
+
+    // Page numbers
+    const range = doc.bufferedPageRange();
+    for (let i = range.start; i < range.start + range.count; i++) {
+      doc.switchToPage(i);
+      const bottomMargin = doc.page.margins.bottom;
+      doc.page.margins.bottom = 0;
+      doc
+        .font(bodyFont)
+        .fontSize(8)
+        .fillColor('#9CA3AF')
+        .text(`Page ${i + 1} of ${range.count}`, doc.page.margins.left, doc.page.height - 36, {
+          width: contentWidth,
+          align: 'center',
+        });
+      doc.page.margins.bottom = bottomMargin;
+    }
+
+    doc.end();
+    await finished;
+
+    return filePath;
+  }
+
+  /**
+   * Register the configured PDF font, falling back to the built-in Helvetica
+   */
+  private registerPdfFont(doc: PDFKit.PDFDocument): string {
+    if (ExportConfig.PDF_FONT_PATH && fs.existsSync(ExportConfig.PDF_FONT_PATH)) {
+      doc.registerFont('ExportFont', ExportConfig.PDF_FONT_PATH);
+      return 'ExportFont';
+    }
+    return 'Helvetica';
+  }
+
+  /**
+   * Split message content into prose and fenced code blocks
+   */
+  private splitCodeBlocks(content: string): Array<{ type: 'text' | 'code'; text: string }> {
+    const blocks: Array<{ type: 'text' | 'code'; text: string }> = [];
+    const fence = /```[^\n]*\n?([\s\S]*?)```/g;
+    let lastIndex = 0;
+    let match: RegExpExecArray | null;
+
+    while ((match = fence.exec(content)) !== null) {
+      if (match.index > lastIndex) {
+        blocks.push({ type: 'text', text: content.slice(lastIndex, match.index) });
+      }
+      blocks.push({ type: 'code', text: match[1].replace(/\n$/, '') });
+      lastIndex = fence.lastIndex;
+    }
+
+    if (lastIndex < content.length) {
+      blocks.push({ type: 'text', text: content.slice(lastIndex) });
+    }
+
+    return blocks;
+  }
+
+  /**
+   * Group messages by conversation, preserving order
+   */
+  private groupBySession(
+    messages: ChatMessage[]
+  ): Array<{ sessionId: string; title: string; messages: ChatMessage[] }> {
+    const groups = new Map<string, { sessionId: string; title: string; messages: ChatMessage[] }>();
+
+    for (const msg of messages) {
+      let group = groups.get(msg.sessionId);
+      if (!group) {
+        group = {
+          sessionId: msg.sessionId,
+          title: msg.sessionTitle || 'Untitled conversation',
+          messages: [],
+        };
+        groups.set(msg.sessionId, group);
+      }
+      group.messages.push(msg);
+    }
+
+    return Array.from(groups.values());
+  }
 
-    // In production, use proper PDF library
-    console.warn('[ExportService] PDF generation not fully implemented, using TXT format');
+  /**
+   * Human-readable speaker label for a message role
+   */
+  private getSpeakerLabel(role: string): string {
+    switch (role) {
+      case 'user':
+        return 'You';
+      case 'assistant':
+        return 'Soriva';
+      default:
+        return 'System';
+    }
+  }
+
+  /**
+   * Generate a ZIP bundle with one export file per conversation
+   */
+  private async generateZipBundle(messages: ChatMessage[], options: ExportOptions): Promise<string> {
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const extension = FORMAT_EXTENSIONS[options.format];
+    const usedNames = new Set<string>();
+    const entries = [];
+
+    for (const group of this.groupBySession(messages)) {
+      const baseName =
+        group.title
+          .toLowerCase()
+          .replace(/[^a-z0-9]+/g, '-')
+          .replace(/^-|-$/g, '')
+          .substring(0, 50) || 'conversation';
+      const entryName = usedNames.has(baseName) ? `${baseName}-${group.sessionId.substring(0, 8)}` : baseName;
+      usedNames.add(entryName);
+
+      const tempPath = path.join(
+        ExportConfig.EXPORT_DIR,
+        `chat_export_${options.userId}_${timestamp}_${group.sessionId}.${extension}`
+      );
+
+      try {
+        await this.writeFormat(group.messages, tempPath, options);
+        entries.push({ name: `${entryName}.${extension}`, data: fs.readFileSync(tempPath) });
+      } finally {
+        if (fs.existsSync(tempPath)) {
+          fs.unlinkSync(tempPath);
+        }
+      }
+    }
 
-    return txtPath;
+    const zipPath = path.join(ExportConfig.EXPORT_DIR, `chat_export_${options.userId}_${timestamp}.zip`);
+    fs.writeFileSync(zipPath, zipUtil.createZip(entries));
+
+    return zipPath;
   }
 
   /**
@@ -580,10 +944,12 @@ export class ExportService {
    * Compress file
    */
   private async compressFile(filePath: string): Promise<string> {
-    // TODO: Implement compression using zlib
-    // For now, return original path
-    console.log('[ExportService] Compression not implemented, returning original file');
-    return filePath;
+    const gzipPath = `${filePath}.gz`;
+
+    fs.writeFileSync(gzipPath, zlib.gzipSync(fs.readFileSync(filePath)));
+    fs.unlinkSync(filePath);
+
+    return gzipPath;
   }
 
   /**
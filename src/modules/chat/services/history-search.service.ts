@@ -0,0 +1,497 @@
+/**
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ * SORIVA CHAT HISTORY SEARCH SERVICE v1.0
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ * Created: October 2026
+ *
+ * PURPOSE:
+ * Search across a user's own conversations.
+ *
+ * MODES:
+ * ✅ keyword  - Postgres full-text search (messages.searchVector, GIN index)
+ *               ranked with ts_rank_cd, highlighted with ts_headline
+ *
+ * Snippets are plain text in both modes; keyword matches come back as
+ * character offsets into the snippet (highlights), never as markup.
+ * ✅ semantic - Embedding similarity via the RAG EmbeddingService.
+ *               Message embeddings are created lazily on first search
+ *               and stored in message_embeddings.
+ *
+ * FILTERS:
+ * ✅ Date range, session, pinned, archived, personality, brainMode
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '../../../config/prisma';
+import embeddingService from '../../../rag/services/embedding.service';
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// DYNAMIC CONFIGURATION
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+class HistorySearchConfig {
+  /**
+   * Enable/disable semantic search mode
+   */
+  static readonly SEMANTIC_ENABLED = process.env.CHAT_SEMANTIC_SEARCH_ENABLED !== 'false';
+
+  /**
+   * Most recent messages considered for semantic ranking
+   */
+  static readonly SEMANTIC_CANDIDATE_LIMIT = parseInt(
+    process.env.CHAT_SEMANTIC_CANDIDATE_LIMIT || '500'
+  );
+
+  /**
+   * Maximum missing message embeddings generated per search
+   */
+  static readonly SEMANTIC_BACKFILL_LIMIT = parseInt(
+    process.env.CHAT_SEMANTIC_BACKFILL_LIMIT || '100'
+  );
+
+  /**
+   * Minimum cosine similarity for a semantic match
+   */
+  static readonly SEMANTIC_MIN_SCORE = parseFloat(process.env.CHAT_SEMANTIC_MIN_SCORE || '0.3');
+
+  /**
+   * Maximum results per page
+   */
+  static readonly MAX_LIMIT = 50;
+
+  /**
+   * Snippet length for semantic results (characters)
+   */
+  static readonly SNIPPET_LENGTH = 200;
+}
+
+// ts_headline match delimiters: control characters stripped from the content
+// first, so they can only come from ts_headline and never reach the client
+const HIGHLIGHT_START = '\u0002';
+const HIGHLIGHT_STOP = '\u0003';
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// TYPES & INTERFACES
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export type HistorySearchMode = 'keyword' | 'semantic';
+
+export type ArchivedFilter = 'exclude' | 'include' | 'only';
+
+export interface HistorySearchOptions {
+  userId: string;
+  query: string;
+  mode?: HistorySearchMode;
+  limit?: number;
+  offset?: number;
+  sessionId?: string;
+  startDate?: Date;
+  endDate?: Date;
+  pinned?: boolean;
+  archived?: ArchivedFilter;
+  personality?: string;
+  brainMode?: string;
+}
+
+/** A matched range of the snippet: [start, end) character offsets */
+export interface SnippetHighlight {
+  start: number;
+  end: number;
+}
+
+export interface HistorySearchHit {
+  sessionId: string;
+  sessionTitle: string;
+  messageId: string;
+  role: string;
+  snippet: string;
+  highlights: SnippetHighlight[];
+  messageContent: string;
+  relevanceScore: number;
+  isPinned: boolean;
+  isArchived: boolean;
+  personality: string | null;
+  brainMode: string | null;
+  createdAt: Date;
+}
+
+export interface HistorySearchResult {
+  success: boolean;
+  mode?: HistorySearchMode;
+  fallback?: boolean;
+  results?: HistorySearchHit[];
+  hasMore?: boolean;
+  error?: string;
+}
+
+interface SearchRow {
+  messageId: string;
+  sessionId: string;
+  sessionTitle: string | null;
+  role: string;
+  content: string;
+  createdAt: Date;
+  isPinned: boolean;
+  isArchived: boolean;
+  personality: string | null;
+  brainMode: string | null;
+}
+
+interface KeywordRow extends SearchRow {
+  rank: number;
+  snippet: string;
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// HISTORY SEARCH SERVICE CLASS
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export class HistorySearchService {
+  private static instance: HistorySearchService;
+
+  private constructor() {
+    console.log('[HistorySearchService] 🔎 Initialized', {
+      semanticEnabled: HistorySearchConfig.SEMANTIC_ENABLED,
+    });
+  }
+
+  /**
+   * Get singleton instance
+   */
+  static getInstance(): HistorySearchService {
+    if (!HistorySearchService.instance) {
+      HistorySearchService.instance = new HistorySearchService();
+    }
+    return HistorySearchService.instance;
+  }
+
+  /**
+   * Search a user's chat history
+   */
+  async search(options: HistorySearchOptions): Promise<HistorySearchResult> {
+    const limit = Math.min(Math.max(options.limit || 20, 1), HistorySearchConfig.MAX_LIMIT);
+    const offset = Math.max(options.offset || 0, 0);
+    const normalized = { ...options, query: options.query.trim(), limit, offset };
+
+    try {
+      if (options.mode === 'semantic' && HistorySearchConfig.SEMANTIC_ENABLED) {
+        try {
+          return await this.semanticSearch(normalized);
+        } catch (error: unknown) {
+          // Embedding provider down or daily embedding quota used up
+          console.warn('[HistorySearchService] Semantic search unavailable, using keyword search:', error);
+          const keyword = await this.keywordSearch(normalized);
+          return { ...keyword, fallback: true };
+        }
+      }
+
+      return await this.keywordSearch(normalized);
+    } catch (error: unknown) {
+      const err = error as Error;
+      console.error('[HistorySearchService] Search error:', err);
+      return {
+        success: false,
+        error: err.message || 'Failed to search chats',
+      };
+    }
+  }
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // KEYWORD (FULL-TEXT) SEARCH
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  private async keywordSearch(
+    options: HistorySearchOptions & { limit: number; offset: number }
+  ): Promise<HistorySearchResult> {
+    const rows = await prisma.$queryRaw<KeywordRow[]>`
+      SELECT
+        m."id" AS "messageId",
+        m."sessionId",
+        s."title" AS "sessionTitle",
+        m."role",
+        m."content",
+        m."createdAt",
+        s."isPinned",
+        s."isArchived",
+        s."personality",
+        s."brainMode",
+        ts_rank_cd(m."searchVector", q.query, 32)::float8 AS "rank",
+        ts_headline(
+          'simple',
+          translate(m."content", ${HIGHLIGHT_START + HIGHLIGHT_STOP}, ''),
+          q.query,
+          ${`StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_STOP}, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "`}
+        ) AS "snippet"
+      FROM "messages" m
+      JOIN "chat_sessions" s ON s."id" = m."sessionId"
+      CROSS JOIN websearch_to_tsquery('simple', ${options.query}) AS q(query)
+      WHERE m."searchVector" @@ q.query
+        AND ${this.buildFilters(options)}
+      ORDER BY "rank" DESC, m."createdAt" DESC
+      LIMIT ${options.limit + 1}
+      OFFSET ${options.offset}
+    `;
+
+    const hasMore = rows.length > options.limit;
+
+    return {
+      success: true,
+      mode: 'keyword',
+      hasMore,
+      results: rows.slice(0, options.limit).map((row) => ({
+        ...this.toHit(row),
+        ...this.parseHeadline(row.snippet),
+        relevanceScore: Math.round(Number(row.rank) * 1000) / 1000,
+      })),
+    };
+  }
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // SEMANTIC SEARCH
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  private async semanticSearch(
+    options: HistorySearchOptions & { limit: number; offset: number }
+  ): Promise<HistorySearchResult> {
+    const user = await prisma.user.findUnique({
+      where: { id: options.userId },
+      select: { planType: true },
+    });
+    const planTier = user?.planType || 'STARTER';
+
+    const candidates = await prisma.$queryRaw<SearchRow[]>`
+      SELECT
+        m."id" AS "messageId",
+        m."sessionId",
+        s."title" AS "sessionTitle",
+        m."role",
+        m."content",
+        m."createdAt",
+        s."isPinned",
+        s."isArchived",
+        s."personality",
+        s."brainMode"
+      FROM "messages" m
+      JOIN "chat_sessions" s ON s."id" = m."sessionId"
+      WHERE ${this.buildFilters(options)}
+        AND length(m."content") > 0
+      ORDER BY m."createdAt" DESC
+      LIMIT ${HistorySearchConfig.SEMANTIC_CANDIDATE_LIMIT}
+    `;
+
+    if (candidates.length === 0) {
+      return { success: true, mode: 'semantic', hasMore: false, results: [] };
+    }
+
+    const vectors = await this.ensureMessageEmbeddings(options.userId, planTier, candidates);
+    const queryEmbedding = await embeddingService.generateEmbedding(
+      { text: options.query },
+      options.userId,
+      planTier
+    );
+
+    const scored = candidates
+      .filter((row) => vectors.has(row.messageId))
+      .map((row) => ({
+        row,
+        score: this.cosineSimilarity(queryEmbedding.vector, vectors.get(row.messageId)!),
+      }))
+      .filter((item) => item.score >= HistorySearchConfig.SEMANTIC_MIN_SCORE)
+      .sort((a, b) => b.score - a.score);
+
+    const page = scored.slice(options.offset, options.offset + options.limit);
+
+    return {
+      success: true,
+      mode: 'semantic',
+      hasMore: scored.length > options.offset + options.limit,
+      results: page.map(({ row, score }) => ({
+        ...this.toHit(row),
+        relevanceScore: Math.round(score * 1000) / 1000,
+      })),
+    };
+  }
+
+  /**
+   * Load stored embeddings for candidates and generate any that are missing
+   * (bounded per request so a first search on a long history stays fast)
+   */
+  private async ensureMessageEmbeddings(
+    userId: string,
+    planTier: string,
+    candidates: SearchRow[]
+  ): Promise<Map<string, number[]>> {
+    const model = embeddingService.getConfig().model;
+    const vectors = new Map<string, number[]>();
+
+    const stored = await prisma.messageEmbedding.findMany({
+      where: {
+        messageId: { in: candidates.map((c) => c.messageId) },
+        model,
+      },
+      select: { messageId: true, embedding: true },
+    });
+
+    for (const row of stored) {
+      vectors.set(row.messageId, row.embedding as number[]);
+    }
+
+    const missing = candidates
+      .filter((c) => !vectors.has(c.messageId))
+      .slice(0, HistorySearchConfig.SEMANTIC_BACKFILL_LIMIT);
+
+    if (missing.length === 0) {
+      return vectors;
+    }
+
+    const batch = await embeddingService.generateBatchEmbeddings(
+      { texts: missing.map((c) => c.content) },
+      userId,
+      planTier
+    );
+
+    const rows = missing
+      .map((candidate, index) => ({ candidate, embedding: batch.embeddings[index] }))
+      .filter((item) => item.embedding);
+
+    // Re-indexing after a model change replaces the old vectors
+    await prisma.messageEmbedding.deleteMany({
+      where: { messageId: { in: rows.map((r) => r.candidate.messageId) } },
+    });
+
+    await prisma.messageEmbedding.createMany({
+      data: rows.map(({ candidate, embedding }) => ({
+        messageId: candidate.messageId,
+        userId,
+        embedding: embedding.vector,
+        dimensions: embedding.dimensions,
+        model: embedding.model,
+        provider: embedding.provider,
+      })),
+      skipDuplicates: true,
+    });
+
+    for (const { candidate, embedding } of rows) {
+      vectors.set(candidate.messageId, embedding.vector);
+    }
+
+    console.log('[HistorySearchService] 🧮 Indexed message embeddings:', {
+      userId,
+      generated: rows.length,
+    });
+
+    return vectors;
+  }
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // HELPERS
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  /**
+   * Build the shared WHERE clause (ownership + filters)
+   */
+  private buildFilters(options: HistorySearchOptions): Prisma.Sql {
+    const conditions: Prisma.Sql[] = [Prisma.sql`m."userId" = ${options.userId}`];
+
+    if (options.sessionId) {
+      conditions.push(Prisma.sql`m."sessionId" = ${options.sessionId}`);
+    }
+    if (options.startDate) {
+      conditions.push(Prisma.sql`m."createdAt" >= ${options.startDate}`);
+    }
+    if (options.endDate) {
+      conditions.push(Prisma.sql`m."createdAt" <= ${options.endDate}`);
+    }
+    if (options.pinned !== undefined) {
+      conditions.push(Prisma.sql`s."isPinned" = ${options.pinned}`);
+    }
+
+    const archived = options.archived || 'exclude';
+    if (archived === 'exclude') {
+      conditions.push(Prisma.sql`s."isArchived" = false`);
+    } else if (archived === 'only') {
+      conditions.push(Prisma.sql`s."isArchived" = true`);
+    }
+
+    if (options.personality) {
+      conditions.push(Prisma.sql`s."personality" = ${options.personality}`);
+    }
+    if (options.brainMode) {
+      conditions.push(Prisma.sql`s."brainMode" = ${options.brainMode}`);
+    }
+
+    return Prisma.join(conditions, ' AND ');
+  }
+
+  private toHit(row: SearchRow): HistorySearchHit {
+    const content = row.content || '';
+
+    return {
+      sessionId: row.sessionId,
+      sessionTitle: row.sessionTitle || 'Untitled Chat',
+      messageId: row.messageId,
+      role: row.role,
+      snippet:
+        content.length > HistorySearchConfig.SNIPPET_LENGTH
+          ? `${content.substring(0, HistorySearchConfig.SNIPPET_LENGTH)}…`
+          : content,
+      highlights: [],
+      messageContent: content.substring(0, HistorySearchConfig.SNIPPET_LENGTH),
+      relevanceScore: 0,
+      isPinned: row.isPinned,
+      isArchived: row.isArchived,
+      personality: row.personality,
+      brainMode: row.brainMode,
+      createdAt: row.createdAt,
+    };
+  }
+
+  /**
+   * Turn a ts_headline result into plain text plus the offsets of its matches
+   */
+  private parseHeadline(headline: string): { snippet: string; highlights: SnippetHighlight[] } {
+    const highlights: SnippetHighlight[] = [];
+    let snippet = '';
+    let start = -1;
+
+    for (const char of headline || '') {
+      if (char === HIGHLIGHT_START) {
+        start = snippet.length;
+      } else if (char === HIGHLIGHT_STOP) {
+        if (start >= 0 && snippet.length > start) {
+          highlights.push({ start, end: snippet.length });
+        }
+        start = -1;
+      } else {
+        snippet += char;
+      }
+    }
+
+    return { snippet, highlights };
+  }
+
+  private cosineSimilarity(a: number[], b: number[]): number {
+    if (!a || !b || a.length !== b.length) {
+      return 0;
+    }
+
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+
+    for (let i = 0; i < a.length; i++) {
+      dot += a[i] * b[i];
+      normA += a[i] * a[i];
+      normB += b[i] * b[i];
+    }
+
+    return normA && normB ? dot / (Math.sqrt(normA) * Math.sqrt(normB)) : 0;
+  }
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// EXPORT SINGLETON INSTANCE
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export const historySearchService = HistorySearchService.getInstance();
@@ -39,7 +39,7 @@ import usageService from '../../billing/usage.service';
 import memoryManager from '../memoryManager';
 import { prisma } from '../../../config/prisma';
 import { plansManager, PlanType } from '../../../constants';
-import { AIMessage, MessageRole } from '../../../core/ai/providers';
+import { AIMediaPart, AIMessage, MessageRole } from '../../../core/ai/providers';
 
 // ✅ v1.1: Using unified delta engine instead of personalityEngine
 import { 
@@ -185,6 +185,7 @@ interface StreamingChatOptionsV2 {
   conversationHistory?: Array<{ role: string; content: string }>;
   region?: 'IN' | 'INTL';
   language?: 'hindi' | 'english' | 'hinglish';  // ← ADD THIS
+  attachments?: AIMediaPart[];  // Resolved chat attachments (images / PDFs / audio)
   onChunk: (chunk: string) => void;
   onComplete: (result: {
     sessionId?: string;
@@ -1091,6 +1092,7 @@ console.log('[LANGUAGE] Final chosen language →', finalLanguage);
 
         region: region || 'IN',
         mode: effectiveMode,  // v2.9: Pass mode for model routing
+        attachments: options.attachments,
         
         onChunk: (chunk: string) => {
             fullResponse += chunk;
@@ -634,6 +634,7 @@ class DocumentController {
   public queryDocument = asyncHandler(
     async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
       const userId = this.getUserId(req);
+      const planType = this.getUserPlan(req);
       const { question, documentId, documentIds, topK = 5 } = req.body as QueryDocumentBody;
 
       if (!userId) {
@@ -684,6 +685,7 @@ class DocumentController {
           documentId,
           userId,
           topK,
+          planType,
         });
 
         await documentManagerService.incrementQueryCount(documentId);
@@ -728,6 +730,7 @@ class DocumentController {
           documentIds,
           userId,
           topK,
+          planType,
         });
 
         await Promise.all(documentIds.map((id) => documentManagerService.incrementQueryCount(id)));
@@ -1395,6 +1395,35 @@ class DocumentRoutes {
      *                           excerpt:
      *                             type: string
      *                             example: Revenue increased by 25% to $5.2M...
+     *                     citations:
+     *                       type: array
+     *                       description: Sources cited by [n] markers in the answer
+     *                       items:
+     *                         type: object
+     *                         properties:
+     *                           marker:
+     *                             type: integer
+     *                             example: 1
+     *                           chunkId:
+     *                             type: string
+     *                           documentId:
+     *                             type: string
+     *                           pageNumber:
+     *                             type: integer
+     *                             example: 12
+     *                           startOffset:
+     *                             type: integer
+     *                           endOffset:
+     *                             type: integer
+     *                           claims:
+     *                             type: array
+     *                             items:
+     *                               type: object
+     *                     rejectedCitations:
+     *                       type: array
+     *                       description: Markers the model produced that matched no retrieved chunk (stripped from the answer)
+     *                       items:
+     *                         type: object
      *                     tokensUsed:
      *                       type: integer
      *                       example: 450
@@ -230,7 +230,7 @@ export class DocumentIntelligenceService {
   }
 
   /**
-   * Get user's documents with pagination
+   * Get user's documents with pagination (latest version of each)
    */
   async listDocuments(query: DocumentListQuery): Promise<DocumentListResponse> {
     const {
@@ -249,10 +249,12 @@ export class DocumentIntelligenceService {
     const where: {
       userId: string;
       status: string;
+      isLatestVersion: boolean;
       OR?: Array<{ filename: { contains: string; mode: 'insensitive' } } | { originalName: { contains: string; mode: 'insensitive' } }>;
     } = {
       userId,
       status: status || DOCUMENT_STATUS.ACTIVE,
+      isLatestVersion: true,
     };
 
     // Add search filter if provided
@@ -347,13 +347,13 @@ class DocumentManagerService {
   }
 
   /**
-   * Get user document count
+   * Get user document count (latest version of each document)
    * FIXED: Uses prisma.document
    */
   public async getUserDocumentCount(userId: string): Promise<number> {
     try {
       return await prisma.document.count({
-        where: { userId },
+        where: { userId, isLatestVersion: true },
       });
     } catch (error: unknown) {
       console.error('Get document count error:', error);
@@ -368,7 +368,7 @@ class DocumentManagerService {
   public async getUserStats(userId: string): Promise<DocumentStats> {
     try {
       const documents = await prisma.document.findMany({
-        where: { userId },
+        where: { userId, isLatestVersion: true },
       });
 
       const stats: DocumentStats = {
@@ -27,6 +27,12 @@ import { prisma } from '@/config/prisma';
 import { documentManagerService, DocumentStatus } from './document-manager.service';
 import { documentProcessorService as pdfProcessorService } from './pdf-processor.service';
 import { ocrService } from './ocr.service';
+import citationService, {
+  CitableSource,
+  CitedAnswer,
+  Citation,
+  RejectedCitation,
+} from '@/rag/services/citation.service';
 
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 // CONFIGURATION
@@ -64,6 +70,7 @@ interface DocumentQueryOptions {
   userId: string;
   topK?: number;
   threshold?: number;
+  planType?: string;
 }
 
 interface DocumentQueryResult {
@@ -74,6 +81,8 @@ interface DocumentQueryResult {
     score: number;
     pageNumber?: number;
   }>;
+  citations: Citation[];
+  rejectedCitations: RejectedCitation[];
   confidence: number;
   wordsUsed: number;
 }
@@ -82,6 +91,7 @@ interface MultiDocumentQueryOptions {
   documentIds: string[];
   userId: string;
   topK?: number;
+  planType?: string;
 }
 
 interface RAGSearchResult {
@@ -92,7 +102,13 @@ interface RAGSearchResult {
   score?: number;
   metadata?: {
     pageNumber?: number;
+    pageEnd?: number;
     documentId?: string;
+    documentTitle?: string;
+    filename?: string;
+    section?: string;
+    startPosition?: number;
+    endPosition?: number;
   };
 }
 
@@ -282,6 +298,7 @@ class DocumentRAGService {
         userId,
         topK = this.config.topK,
         threshold = this.config.similarityThreshold,
+        planType,
       } = options;
 
       // Verify document access
@@ -297,12 +314,15 @@ class DocumentRAGService {
         query,
         topK,
         threshold,
-        filters: documentId ? { documentId } : { userId },
+        filters: documentId ? { documentId, userId } : { userId },
       });
 
-      // Generate answer using AI
-      const context = searchResults.map((r) => r.content || r.text || '').join('\n\n');
-      const answer = await this.generateAnswer(query, context);
+      // Generate cited answer using AI
+      const { answer, citations, rejectedCitations } = await this.generateAnswer(
+        query,
+        searchResults,
+        { planType, userId }
+      );
 
       // Calculate confidence
       const avgScore =
@@ -330,6 +350,8 @@ class DocumentRAGService {
           score: r.score || 0,
           pageNumber: r.metadata?.pageNumber,
         })),
+        citations,
+        rejectedCitations,
         confidence,
         wordsUsed,
       };
@@ -348,7 +370,7 @@ class DocumentRAGService {
     options: MultiDocumentQueryOptions
   ): Promise<DocumentQueryResult> {
     try {
-      const { documentIds, userId, topK = this.config.topK * 2 } = options;
+      const { documentIds, userId, topK = this.config.topK * 2, planType } = options;
 
       // Verify all documents
       for (const docId of documentIds) {
@@ -363,9 +385,12 @@ class DocumentRAGService {
         filters: { userId, documentIds },
       });
 
-      // Generate comprehensive answer
-      const context = searchResults.map((r) => r.content || r.text || '').join('\n\n');
-      const answer = await this.generateAnswer(query, context, true);
+      // Generate comprehensive cited answer
+      const { answer, citations, rejectedCitations } = await this.generateAnswer(
+        query,
+        searchResults,
+        { planType, userId, multiDoc: true }
+      );
 
       const avgScore =
         searchResults.length > 0
@@ -382,6 +407,8 @@ class DocumentRAGService {
           score: r.score || 0,
           pageNumber: r.metadata?.pageNumber,
         })),
+        citations,
+        rejectedCitations,
         confidence,
         wordsUsed,
       };
@@ -442,15 +469,41 @@ class DocumentRAGService {
    */
   private async performRAGRetrieval(options: RAGRetrievalOptions): Promise<RAGSearchResult[]> {
     try {
-      if (this.config.enableRAGIntegration) {
-        // TODO: Integrate with Phase 3 RAG service
-        // const { ragService } = await import('./rag.service');
-        // return await ragService.retrieveRelevant(options);
-        console.info('🔍 RAG retrieval requested for query:', options.query.substring(0, 50));
+      const { query, topK, threshold, filters } = options;
+
+      if (!this.config.enableRAGIntegration || !filters.userId) {
+        return [];
       }
 
-      // Return empty results for now
-      return [];
+      // Lazy import keeps the RAG stack out of the document module's startup path
+      const { ragService } = await import('@/rag/services/rag.service');
+      const documentIds =
+        filters.documentIds || (filters.documentId ? [filters.documentId] : undefined);
+
+      const result = await ragService.queryDocuments({
+        query,
+        userId: filters.userId,
+        documentIds,
+        topK,
+        threshold,
+        generateAnswer: false,
+      });
+
+      return result.chunks.map((chunk) => ({
+        id: chunk.id,
+        content: chunk.content,
+        score: chunk.score,
+        metadata: {
+          pageNumber: chunk.metadata.pageNumber,
+          pageEnd: chunk.metadata.pageEnd,
+          documentId: chunk.metadata.documentId,
+          documentTitle: chunk.metadata.documentTitle,
+          filename: chunk.metadata.filename,
+          section: chunk.metadata.section,
+          startPosition: chunk.metadata.startPosition,
+          endPosition: chunk.metadata.endPosition,
+        },
+      }));
     } catch (error: unknown) {
       console.error('RAG retrieval error:', error);
       return [];
@@ -479,24 +532,40 @@ class DocumentRAGService {
   // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
   /**
-   * Generate answer from context
+   * Generate an answer whose claims cite the retrieved chunks
    */
   private async generateAnswer(
     query: string,
-    context: string,
-    multiDoc: boolean = false
-  ): Promise<string> {
-    // TODO: Integrate with AI service (Gemini/Claude)
-    const prompt = multiDoc
-      ? `Based on the following excerpts from multiple documents, answer this question: ${query}\n\nContext:\n${context}`
-      : `Based on this document excerpt, answer: ${query}\n\nContext:\n${context}`;
-
-    // Placeholder response
-    if (!context || context.length === 0) {
-      return `I don't have enough context to answer "${query}". Please ensure the document is properly indexed.`;
+    results: RAGSearchResult[],
+    options: { planType?: string; userId?: string; multiDoc?: boolean } = {}
+  ): Promise<CitedAnswer> {
+    if (results.length === 0) {
+      return {
+        answer: `I don't have enough context to answer "${query}". Please ensure the document is properly indexed.`,
+        citations: [],
+        rejectedCitations: [],
+        uncitedSentences: 0,
+      };
     }
 
-    return `Based on the provided context, here's the answer to "${query}":\n\n${context.substring(0, 500)}...\n\n[Note: Full AI integration pending]`;
+    const sources: CitableSource[] = results.map((r) => ({
+      chunkId: r.id || r.chunkId || '',
+      documentId: r.metadata?.documentId || '',
+      documentTitle: r.metadata?.documentTitle,
+      filename: r.metadata?.filename,
+      pageNumber: r.metadata?.pageNumber,
+      pageEnd: r.metadata?.pageEnd,
+      section: r.metadata?.section,
+      startOffset: r.metadata?.startPosition,
+      endOffset: r.metadata?.endPosition,
+      content: r.content || r.text || '',
+    }));
+
+    return citationService.generateAnswer(query, sources, {
+      planTier: options.planType,
+      userId: options.userId,
+      multiDocument: options.multiDoc,
+    });
   }
 
   /**
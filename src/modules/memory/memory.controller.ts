@@ -0,0 +1,268 @@
+// src/modules/memory/memory.controller.ts
+
+/**
+ * ==========================================
+ * MEMORY CONTROLLER
+ * ==========================================
+ * Lets users see and correct what Soriva remembers about them
+ * Last Updated: October 19, 2026
+ *
+ * ENDPOINTS:
+ * - GET    /api/memory                       → Facts (with source), summaries, settings
+ * - PATCH  /api/memory/facts/:category/:key  → Edit a remembered value
+ * - DELETE /api/memory/facts/:category/:key  → Forget a remembered value
+ * - PATCH  /api/memory/settings              → Pause / resume memory collection
+ * - DELETE /api/memory                       → Wipe all memory
+ * ==========================================
+ */
+
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { memoryService } from '../../services/memory/memory.service';
+import type { MemoryErrorReason } from '../../services/memory/memory.service';
+
+// ==========================================
+// VALIDATION & STATUS MAPPING
+// ==========================================
+
+const factParamsSchema = z.object({
+  category: z.enum(['facts', 'preferences', 'decisions']),
+  key: z.string().trim().min(1).max(100),
+});
+
+const updateFactSchema = z.object({
+  value: z.string().trim().min(1).max(500),
+});
+
+const memorySettingsSchema = z.object({
+  paused: z.boolean(),
+});
+
+const MEMORY_ERROR_STATUS: Record<MemoryErrorReason, number> = {
+  fact_not_found: 404,
+};
+
+// ==========================================
+// MEMORY CONTROLLER CLASS
+// ==========================================
+
+class MemoryController {
+  /**
+   * GET /api/memory
+   */
+  public getMemory = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized - User not authenticated',
+        });
+        return;
+      }
+
+      const memory = await memoryService.getUserMemory(userId);
+      if (!memory) {
+        res.status(404).json({
+          success: false,
+          message: 'User not found',
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: memory,
+      });
+    } catch (error: any) {
+      console.error('Error fetching memory:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to fetch memory',
+      });
+    }
+  };
+
+  /**
+   * PATCH /api/memory/facts/:category/:key
+   */
+  public updateFact = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized - User not authenticated',
+        });
+        return;
+      }
+
+      const { category, key } = factParamsSchema.parse(req.params);
+      const { value } = updateFactSchema.parse(req.body);
+
+      const result = await memoryService.updateFact(userId, category, key, value);
+
+      if (!result.success) {
+        res.status(result.reason ? MEMORY_ERROR_STATUS[result.reason] : 400).json({
+          success: false,
+          message: result.error,
+          reason: result.reason,
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: result.fact,
+      });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: error.issues,
+        });
+        return;
+      }
+
+      console.error('Error updating remembered fact:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to update remembered fact',
+      });
+    }
+  };
+
+  /**
+   * DELETE /api/memory/facts/:category/:key
+   */
+  public deleteFact = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized - User not authenticated',
+        });
+        return;
+      }
+
+      const { category, key } = factParamsSchema.parse(req.params);
+      const result = await memoryService.deleteFact(userId, category, key);
+
+      if (!result.success) {
+        res.status(result.reason ? MEMORY_ERROR_STATUS[result.reason] : 400).json({
+          success: false,
+          message: result.error,
+          reason: result.reason,
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Soriva will no longer remember this',
+      });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: error.issues,
+        });
+        return;
+      }
+
+      console.error('Error deleting remembered fact:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to delete remembered fact',
+      });
+    }
+  };
+
+  /**
+   * PATCH /api/memory/settings
+   */
+  public updateSettings = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized - User not authenticated',
+        });
+        return;
+      }
+
+      const { paused } = memorySettingsSchema.parse(req.body);
+      const settings = await memoryService.setPaused(userId, paused);
+
+      if (!settings) {
+        res.status(404).json({
+          success: false,
+          message: 'User not found',
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: paused ? 'Memory paused' : 'Memory resumed',
+        data: settings,
+      });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: error.issues,
+        });
+        return;
+      }
+
+      console.error('Error updating memory settings:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to update memory settings',
+      });
+    }
+  };
+
+  /**
+   * DELETE /api/memory
+   */
+  public wipeMemory = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized - User not authenticated',
+        });
+        return;
+      }
+
+      const result = await memoryService.wipeAll(userId);
+
+      res.status(200).json({
+        success: true,
+        message: 'All memory deleted',
+        data: result,
+      });
+    } catch (error: any) {
+      console.error('Error wiping memory:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to delete memory',
+      });
+    }
+  };
+}
+
+// ==========================================
+// EXPORT SINGLETON INSTANCE
+// ==========================================
+
+const memoryController = new MemoryController();
+export default memoryController;
@@ -0,0 +1,162 @@
+// src/modules/memory/memory.routes.ts
+/**
+ * ==========================================
+ * MEMORY ROUTES - VIEW, EDIT & FORGET
+ * ==========================================
+ * What Soriva remembers about the user (facts, preferences, decisions
+ * and conversation summaries). Only memory within the plan's memoryDays
+ * retention is returned or used in chat.
+ * Last Updated: October 19, 2026
+ */
+
+import { Router } from 'express';
+import memoryController from './memory.controller';
+import { authMiddleware } from '../auth/middleware/auth.middleware';
+import { generalApiLimiter } from '../../config/rate-limiter.config';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /api/memory:
+ *   get:
+ *     summary: Get remembered memory
+ *     description: Remembered facts, preferences and decisions with the conversation and message each came from, conversation summaries, and memory settings (paused, retentionDays). Anything older than the plan's retention is left out.
+ *     tags: [Memory]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: settings, facts (newest first), conversations
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/', generalApiLimiter, authMiddleware, memoryController.getMemory);
+
+/**
+ * @swagger
+ * /api/memory/facts/{category}/{key}:
+ *   patch:
+ *     summary: Edit a remembered value
+ *     tags: [Memory]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: category
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [facts, preferences, decisions]
+ *       - in: path
+ *         name: key
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: city
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - value
+ *             properties:
+ *               value:
+ *                 type: string
+ *                 maxLength: 500
+ *                 example: Ludhiana
+ *     responses:
+ *       200:
+ *         description: Updated fact
+ *       400:
+ *         description: Validation error
+ *       404:
+ *         description: Fact not found
+ */
+router.patch(
+  '/facts/:category/:key',
+  generalApiLimiter,
+  authMiddleware,
+  memoryController.updateFact
+);
+
+/**
+ * @swagger
+ * /api/memory/facts/{category}/{key}:
+ *   delete:
+ *     summary: Forget a remembered value
+ *     description: Removes it from global memory and every conversation
+ *     tags: [Memory]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: category
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [facts, preferences, decisions]
+ *       - in: path
+ *         name: key
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Fact forgotten
+ *       404:
+ *         description: Fact not found
+ */
+router.delete(
+  '/facts/:category/:key',
+  generalApiLimiter,
+  authMiddleware,
+  memoryController.deleteFact
+);
+
+/**
+ * @swagger
+ * /api/memory/settings:
+ *   patch:
+ *     summary: Pause or resume memory
+ *     description: While paused, new messages and facts are not stored. Existing memory is still used until it is deleted or expires.
+ *     tags: [Memory]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - paused
+ *             properties:
+ *               paused:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: paused, pausedAt
+ *       400:
+ *         description: Validation error
+ */
+router.patch('/settings', generalApiLimiter, authMiddleware, memoryController.updateSettings);
+
+/**
+ * @swagger
+ * /api/memory:
+ *   delete:
+ *     summary: Wipe all memory
+ *     description: Deletes every remembered fact, conversation summary and stored message. Chat history is not affected.
+ *     tags: [Memory]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Memory deleted (deletedMemories)
+ */
+router.delete('/', generalApiLimiter, authMiddleware, memoryController.wipeMemory);
+
+export default router;
@@ -226,6 +226,8 @@ export class RAGController {
         filters: req.body.filters,
         includeMetadata: req.body.includeMetadata,
         includeChunks: req.body.includeChunks,
+        generateAnswer: req.body.generateAnswer,
+        includeAllVersions: req.body.includeAllVersions,
       };
 
       Logger.info(`🔍 Querying documents: "${req.body.query.substring(0, 50)}..."`, context);
@@ -285,6 +287,7 @@ export class RAGController {
         fileType,
         limit,
         offset,
+        includeAllVersions: req.query.includeAllVersions === 'true',
       });
 
       const processingTime = Date.now() - context.startTime;
@@ -422,6 +425,228 @@ export class RAGController {
     }
   };
 
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // UPLOAD VERSION - POST /api/rag/documents/:id/versions
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  public uploadDocumentVersion = async (
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    const context = this.createContext(req);
+    const config = getControllerConfig();
+    Logger.request(req, context);
+
+    try {
+      if (!req.user?.userId) {
+        const errorResponse = ResponseFormatter.error(
+          'UNAUTHORIZED',
+          'Authentication required',
+          context.requestId,
+          undefined,
+          401
+        );
+        Logger.response(errorResponse.statusCode, Date.now() - context.startTime, context);
+        res.status(errorResponse.statusCode).json(errorResponse.response);
+        return;
+      }
+
+      if (!RateLimiter.check(req.user.userId, config.rateLimitMax, config.rateLimitWindow)) {
+        Logger.warn('Rate limit exceeded', context);
+        const errorResponse = ResponseFormatter.error(
+          'RATE_LIMIT_EXCEEDED',
+          'Too many requests. Please try again later.',
+          context.requestId,
+          undefined,
+          429
+        );
+        res.status(errorResponse.statusCode).json(errorResponse.response);
+        return;
+      }
+
+      const documentId = req.params.id;
+      RequestValidator.validateUUID(documentId);
+
+      const uploadedFile = (req as any).file;
+
+      if (!uploadedFile) {
+        Logger.warn('No file uploaded', context);
+        const errorResponse = ResponseFormatter.error(
+          'VALIDATION_ERROR',
+          'No file uploaded',
+          context.requestId,
+          undefined,
+          400
+        );
+        res.status(errorResponse.statusCode).json(errorResponse.response);
+        return;
+      }
+
+      const uploadOptions: DocumentUploadOptions = {
+        userId: req.user.userId,
+        file: {
+          filename: uploadedFile.filename,
+          originalName: uploadedFile.originalname,
+          fileType: uploadedFile.mimetype.split('/')[1] || 'unknown',
+          fileSize: uploadedFile.size,
+          mimeType: uploadedFile.mimetype,
+          storageUrl: uploadedFile.path,
+          storageProvider: 'local',
+          storageKey: uploadedFile.filename,
+        },
+        metadata: req.body.metadata ? JSON.parse(req.body.metadata) : undefined,
+        processingOptions: req.body.processingOptions
+          ? JSON.parse(req.body.processingOptions)
+          : undefined,
+      };
+
+      Logger.info(`📤 Uploading new version of document: ${documentId}`, context);
+      const result = await this.ragService.uploadDocumentVersion(documentId, uploadOptions);
+
+      const processingTime = Date.now() - context.startTime;
+      PerformanceTracker.track('Document Version Upload', processingTime, context);
+      Logger.success(`Document version uploaded: ${result.documentId}`, context);
+
+      const response = ResponseFormatter.success(result, context.requestId, {
+        processingTime,
+        userId: req.user.userId,
+      });
+      Logger.response(201, processingTime, context);
+      res.status(201).json(response);
+    } catch (error) {
+      Logger.error('Upload version error', error, context);
+      const errorResponse = ResponseFormatter.formatRAGError(error, context.requestId);
+      Logger.response(errorResponse.statusCode, Date.now() - context.startTime, context);
+      res.status(errorResponse.statusCode).json(errorResponse.response);
+    }
+  };
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // LIST VERSIONS - GET /api/rag/documents/:id/versions
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  public getDocumentVersions = async (
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    const context = this.createContext(req);
+    Logger.request(req, context);
+
+    try {
+      if (!req.user?.userId) {
+        const errorResponse = ResponseFormatter.error(
+          'UNAUTHORIZED',
+          'Authentication required',
+          context.requestId,
+          undefined,
+          401
+        );
+        Logger.response(errorResponse.statusCode, Date.now() - context.startTime, context);
+        res.status(errorResponse.statusCode).json(errorResponse.response);
+        return;
+      }
+
+      const documentId = req.params.id;
+      RequestValidator.validateUUID(documentId);
+
+      Logger.info(`📚 Fetching versions of document: ${documentId}`, context);
+      const versions = await this.ragService.getDocumentVersions(documentId, req.user.userId);
+
+      const processingTime = Date.now() - context.startTime;
+      Logger.success(`Retrieved ${versions.length} versions`, context);
+
+      const response = ResponseFormatter.success(
+        {
+          rootDocumentId: versions[0].rootDocumentId ?? versions[0].id,
+          latestVersion: versions.find((v) => v.isLatestVersion)?.version,
+          versions: versions.map((v) => ({
+            documentId: v.id,
+            version: v.version,
+            isLatestVersion: v.isLatestVersion,
+            status: v.status,
+            originalName: v.originalName,
+            fileSize: v.fileSize,
+            totalChunks: v.totalChunks,
+            versioning: (v.metadata as { versioning?: unknown } | null)?.versioning,
+            createdAt: v.createdAt,
+            processedAt: v.processedAt,
+          })),
+        },
+        context.requestId,
+        { processingTime, userId: req.user.userId }
+      );
+      Logger.response(200, processingTime, context);
+      res.status(200).json(response);
+    } catch (error) {
+      Logger.error('Get document versions error', error, context);
+      const errorResponse = ResponseFormatter.formatRAGError(error, context.requestId);
+      Logger.response(errorResponse.statusCode, Date.now() - context.startTime, context);
+      res.status(errorResponse.statusCode).json(errorResponse.response);
+    }
+  };
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // COMPARE VERSIONS - GET /api/rag/documents/:id/versions/compare
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  public compareDocumentVersions = async (
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    const context = this.createContext(req);
+    Logger.request(req, context);
+
+    try {
+      if (!req.user?.userId) {
+        const errorResponse = ResponseFormatter.error(
+          'UNAUTHORIZED',
+          'Authentication required',
+          context.requestId,
+          undefined,
+          401
+        );
+        Logger.response(errorResponse.statusCode, Date.now() - context.startTime, context);
+        res.status(errorResponse.statusCode).json(errorResponse.response);
+        return;
+      }
+
+      const documentId = req.params.id;
+      RequestValidator.validateUUID(documentId);
+      const { fromVersion, toVersion, summarize, question } =
+        RequestValidator.validateVersionCompareQuery(req.query);
+
+      Logger.info(`🔀 Comparing versions of document: ${documentId}`, context);
+      const diff = await this.ragService.compareDocumentVersions(documentId, req.user.userId, {
+        fromVersion,
+        toVersion,
+        summarize,
+        question,
+      });
+
+      const processingTime = Date.now() - context.startTime;
+      PerformanceTracker.track('Document Version Compare', processingTime, context);
+      Logger.success(
+        `Compared v${diff.from.version} → v${diff.to.version}: +${diff.stats.added} -${diff.stats.removed}`,
+        context
+      );
+
+      const response = ResponseFormatter.success(diff, context.requestId, {
+        processingTime,
+        userId: req.user.userId,
+      });
+      Logger.response(200, processingTime, context);
+      res.status(200).json(response);
+    } catch (error) {
+      Logger.error('Compare document versions error', error, context);
+      const errorResponse = ResponseFormatter.formatRAGError(error, context.requestId);
+      Logger.response(errorResponse.statusCode, Date.now() - context.startTime, context);
+      res.status(errorResponse.statusCode).json(errorResponse.response);
+    }
+  };
+
   // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
   // GET STATS - GET /api/rag/stats
   // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
@@ -13,7 +13,17 @@ export { RAGController, requestContextMiddleware } from './controllers/rag.contr
 // Services - Classes
 export { RAGService } from './services/rag.service';
 export { EmbeddingService } from './services/embedding.service';
+export { LocalEmbeddingProvider } from './services/local-embedding.provider';
 export { RetrieverService } from './services/retriever.service';
+export {
+  RAGConfigService,
+  RAG_CONFIG_KEYS,
+  RAG_CONFIG_DEFINITIONS,
+  RAG_CONFIG_SCOPES,
+} from './services/rag-config.service';
+export type { RAGConfigScope, RAGConfigContext } from './services/rag-config.service';
+export { CitationService } from './services/citation.service';
+export { DocumentVersionService } from './services/document-version.service';
 export { VectorStoreService } from './services/vector-store.service';
 export { RAGSecurityService } from './services/rag-security.service';
 export { DocumentProcessorService } from './services/document-processor';
@@ -21,11 +31,43 @@ export { DocumentProcessorService } from './services/document-processor';
 // Services - Singleton Instances (default exports)
 export { default as ragService } from './services/rag.service';
 export { default as embeddingService } from './services/embedding.service';
+export { default as localEmbeddingProvider } from './services/local-embedding.provider';
 export { default as retrieverService } from './services/retriever.service';
+export { default as ragConfigService } from './services/rag-config.service';
+export { default as citationService } from './services/citation.service';
+export { default as documentVersionService } from './services/document-version.service';
 export { default as vectorStoreService } from './services/vector-store.service';
 export { default as ragSecurityService } from './services/rag-security.service';
 export { default as documentProcessor } from './services/document-processor';
 
+// Rerankers
+export {
+  getReranker,
+  reciprocalRankFusion,
+  CrossEncoderReranker,
+  HeuristicReranker,
+  LLMReranker,
+} from './services/rerankers';
+export type { Reranker, RerankerStrategy } from './services/rerankers';
+export type { ScoreBreakdown, RankingSettings } from './services/retriever.service';
+
+// Citations
+export type {
+  CitableSource,
+  Citation,
+  CitedAnswer,
+  CitedClaim,
+  RejectedCitation,
+} from './services/citation.service';
+
+// Document versions
+export type {
+  ChunkChange,
+  DocumentVersionDiff,
+  VersionChangeStats,
+} from './services/document-version.service';
+export type { DocumentVersionCompareOptions } from './services/rag.service';
+
 // Config
 export { getControllerConfig, reloadControllerConfig } from './config/rag-controller.config';
 export type { ControllerConfiguration } from './config/rag-controller.config';
@@ -37,4 +79,4 @@ export {
   DocumentProcessingError,
   QueryValidationError,
   SecurityValidationError,
-} from './services/rag.service';
\ No newline at end of file
+} from './services/rag.service';
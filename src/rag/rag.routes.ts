@@ -274,6 +274,14 @@ class RAGRouter {
      *                 default: true
      *                 example: true
      *                 description: Include document metadata in results
+     *               generateAnswer:
+     *                 type: boolean
+     *                 default: true
+     *                 description: Generate an answer with inline [n] citation markers over the retrieved chunks
+     *               includeAllVersions:
+     *                 type: boolean
+     *                 default: false
+     *                 description: Also search superseded document versions (documentIds always apply as given)
      *     responses:
      *       200:
      *         description: Query processed successfully
@@ -311,6 +319,41 @@ class RAGRouter {
      *                             description: Relevance score (0-1)
      *                           metadata:
      *                             type: object
+     *                     citations:
+     *                       type: array
+     *                       description: One entry per [n] marker in the answer; markers that point at chunks that were not retrieved are removed
+     *                       items:
+     *                         type: object
+     *                         properties:
+     *                           marker:
+     *                             type: integer
+     *                             example: 1
+     *                           chunkId:
+     *                             type: string
+     *                           documentId:
+     *                             type: string
+     *                           pageNumber:
+     *                             type: integer
+     *                             example: 4
+     *                           pageEnd:
+     *                             type: integer
+     *                             example: 5
+     *                           section:
+     *                             type: string
+     *                           startOffset:
+     *                             type: integer
+     *                             description: Chunk start in the document's extracted text
+     *                           endOffset:
+     *                             type: integer
+     *                           claims:
+     *                             type: array
+     *                             description: Answer sentences backed by this source, with the best-matching quote (offsets within the chunk)
+     *                             items:
+     *                               type: object
+     *                     rejectedCitations:
+     *                       type: array
+     *                       items:
+     *                         type: object
      *                     tokensUsed:
      *                       type: integer
      *                       example: 320
@@ -357,6 +400,12 @@ class RAGRouter {
      *           example: 20
      *         description: Items per page
      *       - in: query
+     *         name: includeAllVersions
+     *         schema:
+     *           type: boolean
+     *           default: false
+     *         description: List superseded document versions too
+     *       - in: query
      *         name: status
      *         schema:
      *           type: string
@@ -574,6 +623,156 @@ class RAGRouter {
       this.controller.deleteDocument
     );
 
+    /**
+     * @swagger
+     * /api/rag/documents/{id}/versions:
+     *   post:
+     *     summary: Upload a New Document Version
+     *     description: Upload a revision of an existing document. Chunks whose content is unchanged reuse the previous version's embeddings; only changed chunks are re-embedded. The new version becomes the latest once processing completes.
+     *     tags: [RAG]
+     *     security:
+     *       - bearerAuth: []
+     *     parameters:
+     *       - in: path
+     *         name: id
+     *         required: true
+     *         schema:
+     *           type: string
+     *         description: ID of any version of the document
+     *     requestBody:
+     *       required: true
+     *       content:
+     *         multipart/form-data:
+     *           schema:
+     *             type: object
+     *             required:
+     *               - file
+     *             properties:
+     *               file:
+     *                 type: string
+     *                 format: binary
+     *               metadata:
+     *                 type: string
+     *                 description: JSON string; title, description and tags default to the previous version's
+     *               processingOptions:
+     *                 type: string
+     *                 description: JSON string; chunking defaults to the previous version's settings
+     *     responses:
+     *       201:
+     *         description: Version uploaded and processing started
+     *       404:
+     *         description: Document not found
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/Error'
+     *       409:
+     *         description: The latest version is still being processed
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/Error'
+     */
+    this.router.post(
+      '/documents/:id/versions',
+      adminMiddleware.authenticate,
+      upload.single('file'),
+      this.controller.uploadDocumentVersion
+    );
+
+    /**
+     * @swagger
+     * /api/rag/documents/{id}/versions:
+     *   get:
+     *     summary: List Document Versions
+     *     description: All versions of the document, oldest first, with per-version change statistics (added/removed chunks, reused embeddings)
+     *     tags: [RAG]
+     *     security:
+     *       - bearerAuth: []
+     *     parameters:
+     *       - in: path
+     *         name: id
+     *         required: true
+     *         schema:
+     *           type: string
+     *         description: ID of any version of the document
+     *     responses:
+     *       200:
+     *         description: Versions retrieved successfully
+     *       404:
+     *         description: Document not found
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/Error'
+     */
+    this.router.get(
+      '/documents/:id/versions',
+      adminMiddleware.authenticate,
+      this.controller.getDocumentVersions
+    );
+
+    /**
+     * @swagger
+     * /api/rag/documents/{id}/versions/compare:
+     *   get:
+     *     summary: Compare Document Versions
+     *     description: What changed between two versions - added and removed passages, and optionally a plain-language summary
+     *     tags: [RAG]
+     *     security:
+     *       - bearerAuth: []
+     *     parameters:
+     *       - in: path
+     *         name: id
+     *         required: true
+     *         schema:
+     *           type: string
+     *         description: ID of any version of the document
+     *       - in: query
+     *         name: from
+     *         schema:
+     *           type: integer
+     *           example: 1
+     *         description: Older version (default the version before "to")
+     *       - in: query
+     *         name: to
+     *         schema:
+     *           type: integer
+     *           example: 2
+     *         description: Newer version (default the latest)
+     *       - in: query
+     *         name: summarize
+     *         schema:
+     *           type: boolean
+     *         description: Include a model-written summary of the changes
+     *       - in: query
+     *         name: question
+     *         schema:
+     *           type: string
+     *           example: Did the refund policy change?
+     *         description: Focus the summary on a question (implies summarize)
+     *     responses:
+     *       200:
+     *         description: Version diff
+     *       404:
+     *         description: Document or version not found
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/Error'
+     *       409:
+     *         description: One of the versions is not processed yet
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/Error'
+     */
+    this.router.get(
+      '/documents/:id/versions/compare',
+      adminMiddleware.authenticate,
+      this.controller.compareDocumentVersions
+    );
+
     /**
      * @swagger
      * /api/rag/stats:
@@ -710,6 +909,9 @@ class RAGRouter {
     console.log('      GET    /api/rag/documents');
     console.log('      GET    /api/rag/documents/:id');
     console.log('      DELETE /api/rag/documents/:id');
+    console.log('      POST   /api/rag/documents/:id/versions');
+    console.log('      GET    /api/rag/documents/:id/versions');
+    console.log('      GET    /api/rag/documents/:id/versions/compare');
     console.log('      GET    /api/rag/stats');
     console.log('      GET    /api/rag/config');
     console.log('   ═══════════════════════════════════════════════════════\n');
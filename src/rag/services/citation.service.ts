@@ -0,0 +1,356 @@
+/**
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ * SORIVA AI - CITATION SERVICE
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ * Purpose: Citation-grounded answers over retrieved chunks
+ * Flow:    Retrieved chunks are numbered [1]..[n] in the prompt, the
+ *          plan's model answers with inline [n] markers, and every
+ *          marker is resolved back to its chunk (document, page,
+ *          character offsets). Markers that don't match a retrieved
+ *          chunk are stripped from the answer and reported as rejected.
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ */
+
+import { PlanType } from '@prisma/client';
+import { MessageRole, ProviderFactory } from '../../core/ai/providers';
+import { isValidPlanType } from '../../constants';
+import { logger } from '@shared/utils/logger';
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// TYPES & INTERFACES
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * A retrieved chunk that may be cited
+ */
+export interface CitableSource {
+  chunkId: string;
+  documentId: string;
+  documentTitle?: string;
+  filename?: string;
+  pageNumber?: number;
+  pageEnd?: number;
+  section?: string;
+  /** Chunk span in the document's extracted text */
+  startOffset?: number;
+  endOffset?: number;
+  content: string;
+}
+
+/**
+ * One answer sentence backed by a citation
+ */
+export interface CitedClaim {
+  text: string;
+  /** Span of the sentence in the returned answer */
+  answerStart: number;
+  answerEnd: number;
+  /** Sentence of the chunk that best supports the claim (offsets within the chunk) */
+  quote?: { text: string; start: number; end: number };
+}
+
+export interface Citation {
+  marker: number;
+  chunkId: string;
+  documentId: string;
+  documentTitle?: string;
+  filename?: string;
+  pageNumber?: number;
+  pageEnd?: number;
+  section?: string;
+  startOffset?: number;
+  endOffset?: number;
+  claims: CitedClaim[];
+}
+
+export interface RejectedCitation {
+  marker: number;
+  reason: 'unknown_source';
+  /** Position of the marker in the model's raw output */
+  answerOffset: number;
+}
+
+export interface CitedAnswer {
+  answer: string;
+  citations: Citation[];
+  rejectedCitations: RejectedCitation[];
+  uncitedSentences: number;
+}
+
+export interface CitedAnswerOptions {
+  planTier?: string;
+  userId?: string;
+  multiDocument?: boolean;
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// CONSTANTS
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const MARKER_PATTERN = /\[(?:source\s*)?(\d+(?:\s*,\s*\d+)*)\]/gi;
+const MARKER_RUN = String.raw`(?:\s*\[\d+\])*`;
+// A sentence keeps the markers that directly follow its terminator ("... grew 10%. [2]")
+const SENTENCE_PATTERN = new RegExp(String.raw`\S[^]*?(?:[.!?।]+${MARKER_RUN}(?=\s|$)|\n|$)`, 'g');
+const CHUNK_SENTENCE_PATTERN = /\S[^]*?(?:[.!?।]+(?=\s|$)|\n|$)/g;
+
+const MIN_CLAIM_WORDS = 3;
+
+const SYSTEM_PROMPT = `You answer questions using only the numbered sources provided.
+Rules:
+- After every sentence that states a fact, cite the supporting source number(s) in square brackets, e.g. [2] or [1][3].
+- Only cite numbers from the source list. Never invent sources or cite anything else.
+- If the sources do not contain the answer, say so plainly instead of guessing.
+- Do not copy the "Source" headers into the answer.`;
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// CITATION SERVICE
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export class CitationService {
+  private static instance: CitationService;
+
+  private factory: ProviderFactory | null = null;
+  private maxSourceChars: number;
+  private maxAnswerTokens: number;
+
+  private constructor() {
+    this.maxSourceChars = parseInt(process.env.RAG_CITATION_MAX_SOURCE_CHARS || '2000', 10);
+    this.maxAnswerTokens = parseInt(process.env.RAG_ANSWER_MAX_TOKENS || '1024', 10);
+  }
+
+  public static getInstance(): CitationService {
+    if (!CitationService.instance) {
+      CitationService.instance = new CitationService();
+    }
+    return CitationService.instance;
+  }
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // ANSWER GENERATION
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  /**
+   * Generate an answer whose claims cite the given sources
+   */
+  public async generateAnswer(
+    query: string,
+    sources: CitableSource[],
+    options: CitedAnswerOptions = {}
+  ): Promise<CitedAnswer> {
+    if (sources.length === 0) {
+      return {
+        answer: `I couldn't find anything in your documents that answers "${query}".`,
+        citations: [],
+        rejectedCitations: [],
+        uncitedSentences: 0,
+      };
+    }
+
+    const factory = await this.getFactory();
+
+    const plan =
+      options.planTier && isValidPlanType(options.planTier.toUpperCase())
+        ? (options.planTier.toUpperCase() as PlanType)
+        : PlanType.STARTER;
+    const planConfig = factory.getPlanConfig(plan);
+    if (!planConfig) {
+      throw new Error(`No provider configured for plan ${plan}`);
+    }
+
+    const response = await factory.executeWithFallback(plan, {
+      model: planConfig.primaryModel,
+      messages: [
+        { role: MessageRole.SYSTEM, content: SYSTEM_PROMPT },
+        {
+          role: MessageRole.USER,
+          content: this.buildPrompt(query, sources, options.multiDocument),
+        },
+      ],
+      temperature: 0.2,
+      maxTokens: this.maxAnswerTokens,
+      userId: options.userId,
+    });
+
+    const result = this.resolveCitations(response.content || '', sources);
+
+    if (result.rejectedCitations.length > 0) {
+      logger.warn(
+        `[Citations] Rejected ${result.rejectedCitations.length} citation(s) to unknown sources`
+      );
+    }
+
+    return result;
+  }
+
+  /**
+   * Created on first use - the factory throws when no provider key is set
+   */
+  private async getFactory(): Promise<ProviderFactory> {
+    if (!this.factory) {
+      this.factory = ProviderFactory.getInstance({
+        googleApiKey: process.env.GOOGLE_API_KEY,
+        mistralApiKey: process.env.MISTRAL_API_KEY,
+        openrouterApiKey: process.env.OPENROUTER_API_KEY,
+      });
+    }
+    if (!this.factory.isInitialized()) {
+      await this.factory.initialize();
+    }
+    return this.factory;
+  }
+
+  /**
+   * Numbered source list; the number is the marker the model must use
+   */
+  public buildPrompt(query: string, sources: CitableSource[], multiDocument = false): string {
+    const blocks = sources.map((source, index) => {
+      const label = [
+        source.documentTitle || source.filename,
+        this.formatPages(source),
+        source.section ? `section "${source.section}"` : undefined,
+      ]
+        .filter(Boolean)
+        .join(', ');
+
+      const content =
+        source.content.length > this.maxSourceChars
+          ? `${source.content.slice(0, this.maxSourceChars)}…`
+          : source.content;
+
+      return `[${index + 1}]${label ? ` (${label})` : ''}\n${content}`;
+    });
+
+    return [
+      multiDocument ? 'Sources (from several documents):' : 'Sources:',
+      blocks.join('\n\n'),
+      `Question: ${query}`,
+    ].join('\n\n');
+  }
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // CITATION RESOLUTION
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  /**
+   * Normalizes markers to [n], strips markers that don't point at a
+   * source, and maps each remaining marker to its chunk
+   */
+  public resolveCitations(rawAnswer: string, sources: CitableSource[]): CitedAnswer {
+    const rejectedCitations: RejectedCitation[] = [];
+
+    const answer = rawAnswer
+      .replace(MARKER_PATTERN, (_match, group: string, offset: number) => {
+        const valid: number[] = [];
+        for (const part of group.split(',')) {
+          const marker = parseInt(part.trim(), 10);
+          if (marker >= 1 && marker <= sources.length) {
+            if (!valid.includes(marker)) valid.push(marker);
+          } else {
+            rejectedCitations.push({ marker, reason: 'unknown_source', answerOffset: offset });
+          }
+        }
+        return valid.map((marker) => `[${marker}]`).join('');
+      })
+      .replace(/[ \t]+([.,;:!?])/g, '$1')
+      .replace(/[ \t]{2,}/g, ' ')
+      .trim();
+
+    const byMarker = new Map<number, Citation>();
+    let uncitedSentences = 0;
+
+    for (const match of answer.matchAll(SENTENCE_PATTERN)) {
+      const sentence = match[0];
+      const start = match.index ?? 0;
+      const markers = Array.from(sentence.matchAll(/\[(\d+)\]/g), (m) => parseInt(m[1], 10));
+      const text = sentence.replace(/\s*\[\d+\]/g, '').trim();
+
+      if (markers.length === 0) {
+        if (text.split(/\s+/).length >= MIN_CLAIM_WORDS) uncitedSentences++;
+        continue;
+      }
+
+      for (const marker of new Set(markers)) {
+        const source = sources[marker - 1];
+        let citation = byMarker.get(marker);
+        if (!citation) {
+          citation = {
+            marker,
+            chunkId: source.chunkId,
+            documentId: source.documentId,
+            documentTitle: source.documentTitle,
+            filename: source.filename,
+            pageNumber: source.pageNumber,
+            pageEnd: source.pageEnd,
+            section: source.section,
+            startOffset: source.startOffset,
+            endOffset: source.endOffset,
+            claims: [],
+          };
+          byMarker.set(marker, citation);
+        }
+
+        citation.claims.push({
+          text,
+          answerStart: start,
+          answerEnd: start + sentence.length,
+          quote: this.findSupportingQuote(text, source.content),
+        });
+      }
+    }
+
+    return {
+      answer,
+      citations: Array.from(byMarker.values()).sort((a, b) => a.marker - b.marker),
+      rejectedCitations,
+      uncitedSentences,
+    };
+  }
+
+  /**
+   * Chunk sentence with the highest word overlap with the claim
+   */
+  private findSupportingQuote(claim: string, content: string): CitedClaim['quote'] {
+    const claimWords = new Set(this.words(claim));
+    if (claimWords.size === 0) return undefined;
+
+    let best: CitedClaim['quote'];
+    let bestScore = 0;
+
+    for (const match of content.matchAll(CHUNK_SENTENCE_PATTERN)) {
+      const words = this.words(match[0]);
+      if (words.length === 0) continue;
+
+      const overlap = words.filter((word) => claimWords.has(word)).length;
+      const score = overlap / claimWords.size;
+
+      if (score > bestScore) {
+        bestScore = score;
+        const text = match[0].trimEnd();
+        const start = match.index ?? 0;
+        best = { text, start, end: start + text.length };
+      }
+    }
+
+    return best;
+  }
+
+  private words(text: string): string[] {
+    return text
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter((word) => word.length > 2);
+  }
+
+  private formatPages(source: CitableSource): string | undefined {
+    if (!source.pageNumber) return undefined;
+    return source.pageEnd && source.pageEnd !== source.pageNumber
+      ? `pages ${source.pageNumber}-${source.pageEnd}`
+      : `page ${source.pageNumber}`;
+  }
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// EXPORT
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export default CitationService.getInstance();
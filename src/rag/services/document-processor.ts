@@ -18,7 +18,8 @@
  * - Intelligent text extraction from 15+ file types
  * - Image OCR using Hybrid (Google Vision + Mistral OCR)
  * - Encoding detection for text files
- * - Smart chunking (fixed, paragraph, semantic)
+ * - Smart chunking (fixed, paragraph, sentence, page, semantic)
+ * - Semantic chunking on embedding-similarity breakpoints (heading/table aware)
  * - Page number tracking for PDFs
  * - Plan-based limits
  * - Comprehensive error handling
@@ -45,6 +46,7 @@ import chardet from 'chardet';
 import * as iconv from 'iconv-lite';
 import { logger } from '@shared/utils/logger';
 import * as crypto from 'crypto';
+import embeddingService from './embedding.service';
 
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 // TYPES & INTERFACES
@@ -129,6 +131,7 @@ export interface TextChunk {
     documentId: string;
     filename: string;
     pageNumber?: number;
+    pageEnd?: number;
     sheetName?: string;
     slideNumber?: number;
     sectionTitle?: string;
@@ -172,6 +175,8 @@ export interface ChunkingOptions {
   respectSentences: boolean;
   respectParagraphs: boolean;
   includeMetadata: boolean;
+  semanticThreshold: number; // Percentile (0-100) of unit distances that starts a new chunk
+  semanticBufferSize: number; // Neighbouring units embedded with each unit
 }
 
 /**
@@ -199,12 +204,27 @@ interface ExtractionResult {
 /**
  * Page content for page-aware extraction
  */
-interface PageContent {
+export interface PageContent {
   pageNumber: number;
   text: string;
   wordCount: number;
 }
 
+/**
+ * Semantic chunking building blocks
+ */
+interface SemanticUnit {
+  text: string;
+  start: number;
+  end: number;
+  kind: 'sentence' | 'table';
+}
+
+interface SemanticSection {
+  title?: string;
+  units: SemanticUnit[];
+}
+
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 // CONSTANTS & CONFIGURATION
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
@@ -337,8 +357,17 @@ const DEFAULT_CHUNKING_OPTIONS: ChunkingOptions = {
   respectSentences: true,
   respectParagraphs: true,
   includeMetadata: true,
+  semanticThreshold: 90,
+  semanticBufferSize: 1,
 };
 
+/**
+ * Semantic chunking patterns & limits
+ */
+const TABLE_LINE_PATTERN = /^\s*\|.*\|\s*$/;
+const SEPARATOR_LINE_PATTERN = /^\s*([═─━=\-_*]\s*){3,}$/;
+const SEMANTIC_MAX_WINDOW_CHARS = 2000;
+
  
 
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
@@ -452,7 +481,8 @@ export class DocumentProcessorService {
         fullText,
         filename,
         chunkingOpts,
-        extractionResult.pages
+        extractionResult.pages,
+        planTier
       );
 
       // Validate chunk count against plan limits
@@ -1425,7 +1455,8 @@ export class DocumentProcessorService {
     text: string,
     filename: string,
     options: ChunkingOptions,
-    pages?: PageContent[]
+    pages?: PageContent[],
+    planTier: string = 'STARTER'
   ): Promise<TextChunk[]> {
     const documentId = this.generateDocumentId('temp', filename);
 
@@ -1444,8 +1475,7 @@ export class DocumentProcessorService {
         return this.sentenceChunking(text, documentId, filename, options);
 
       case 'semantic':
-        // TODO: Implement semantic chunking with embeddings
-        return this.paragraphChunking(text, documentId, filename, options);
+        return this.semanticChunking(text, documentId, filename, options, planTier);
 
       case 'fixed':
       default:
@@ -1455,6 +1485,8 @@ export class DocumentProcessorService {
 
   /**
    * Page-based chunking for PDFs
+   * Positions are offsets into the page texts joined by blank lines;
+   * each chunk records the page range it spans.
    */
   private pageBasedChunking(
     pages: PageContent[],
@@ -1463,45 +1495,67 @@ export class DocumentProcessorService {
     options: ChunkingOptions
   ): TextChunk[] {
     const chunks: TextChunk[] = [];
-    let chunkIndex = 0;
     let currentChunk = '';
     let currentPageStart = 1;
-    let startPosition = 0;
+    let currentPageEnd = 1;
+    let chunkStart = 0;
+    let position = 0;
+
+    const pushChunk = (text: string, start: number, pageStart: number, pageEnd: number) => {
+      // createChunk trims, so shift the start past any leading whitespace
+      const leading = text.length - text.trimStart().length;
+      const chunk = this.createChunk(
+        text,
+        chunks.length,
+        documentId,
+        filename,
+        pageStart,
+        start + leading,
+        options
+      );
+      chunk.metadata.pageEnd = pageEnd;
+      chunks.push(chunk);
+    };
 
-    pages.forEach((page, index) => {
+    pages.forEach((page) => {
       const pageText = page.text.trim();
-      
+      if (!pageText) return;
+
       // If adding this page exceeds chunk size, save current chunk
       if (currentChunk.length + pageText.length > options.maxChunkSize && currentChunk.length > 0) {
-        chunks.push(this.createChunk(
-          currentChunk,
-          chunkIndex,
-          documentId,
-          filename,
-          currentPageStart,
-          startPosition,
-          options
-        ));
-        chunkIndex++;
+        pushChunk(currentChunk, chunkStart, currentPageStart, currentPageEnd);
         currentChunk = '';
-        currentPageStart = page.pageNumber;
-        startPosition += currentChunk.length;
       }
 
-      currentChunk += pageText + '\n\n';
+      if (pageText.length > options.maxChunkSize) {
+        // Page alone is too large - split it on word boundaries with overlap
+        let offset = 0;
+        while (offset < pageText.length) {
+          let end = Math.min(offset + options.maxChunkSize, pageText.length);
+          if (end < pageText.length) {
+            const lastSpace = pageText.lastIndexOf(' ', end);
+            if (lastSpace > offset + options.maxChunkSize / 2) end = lastSpace;
+          }
+
+          pushChunk(pageText.slice(offset, end), position + offset, page.pageNumber, page.pageNumber);
+          if (end >= pageText.length) break;
+          offset = Math.max(end - options.chunkOverlap, offset + 1);
+        }
+      } else {
+        if (currentChunk.length === 0) {
+          chunkStart = position;
+          currentPageStart = page.pageNumber;
+        }
+        currentChunk += pageText + '\n\n';
+        currentPageEnd = page.pageNumber;
+      }
+
+      position += pageText.length + 2;
     });
 
     // Add final chunk
     if (currentChunk.trim().length >= options.minChunkSize) {
-      chunks.push(this.createChunk(
-        currentChunk,
-        chunkIndex,
-        documentId,
-        filename,
-        currentPageStart,
-        startPosition,
-        options
-      ));
+      pushChunk(currentChunk, chunkStart, currentPageStart, currentPageEnd);
     }
 
     // Update total chunks
@@ -1713,6 +1767,364 @@ export class DocumentProcessorService {
     return chunks;
   }
 
+  // ════════════════════════════════════════════════════════════════════════
+  // SEMANTIC CHUNKING
+  // ════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Semantic chunking:
+   * 1. Split the text into sections at headings (headings are hard breaks)
+   * 2. Split sections into units - sentences, or whole tables (never split
+   *    mid-row; oversized tables are split by rows with the header repeated)
+   * 3. Embed each unit with its neighbours (semanticBufferSize) and start a
+   *    new chunk where the distance to the next unit is in the top
+   *    (100 - semanticThreshold)% of the document
+   * 4. Respect min/max chunk size; each chunk is prefixed with its heading
+   *
+   * If embedding fails, the same structure-aware grouping runs without
+   * similarity breakpoints.
+   */
+  private async semanticChunking(
+    text: string,
+    documentId: string,
+    filename: string,
+    options: ChunkingOptions,
+    planTier: string
+  ): Promise<TextChunk[]> {
+    const sections = this.splitIntoSections(text, options.maxChunkSize);
+    const units = sections.flatMap((section) => section.units);
+
+    const breakpoints = new Set<SemanticUnit>();
+    try {
+      const distances = await this.computeUnitDistances(sections, options, planTier);
+      const threshold = this.percentile(
+        distances.map((d) => d.distance),
+        options.semanticThreshold
+      );
+
+      distances
+        .filter((d) => d.distance >= threshold && d.distance > 0)
+        .forEach((d) => breakpoints.add(d.after));
+    } catch (error) {
+      logger.warn(
+        '[DocumentProcessor] Semantic embeddings unavailable, using structure-only chunking',
+        error
+      );
+    }
+
+    const chunks: TextChunk[] = [];
+
+    for (const section of sections) {
+      let current: SemanticUnit[] = [];
+
+      const flush = () => {
+        if (current.length === 0) return;
+
+        const body = this.joinUnits(current);
+        const chunkText = section.title ? `${section.title}\n\n${body}` : body;
+        const chunk = this.createChunk(
+          chunkText,
+          chunks.length,
+          documentId,
+          filename,
+          undefined,
+          current[0].start,
+          options
+        );
+        chunk.metadata.endPosition = current[current.length - 1].end;
+        if (section.title) chunk.metadata.sectionTitle = section.title;
+
+        chunks.push(chunk);
+        current = [];
+      };
+
+      for (const unit of section.units) {
+        const currentLength = this.joinUnits(current).length;
+
+        if (currentLength > 0 && currentLength + unit.text.length > options.maxChunkSize) {
+          flush();
+        }
+
+        current.push(unit);
+
+        const length = currentLength + unit.text.length;
+        if (
+          length >= options.chunkSize ||
+          (breakpoints.has(unit) && length >= options.minChunkSize)
+        ) {
+          flush();
+        }
+      }
+
+      // Too-small section tail joins the previous chunk of the same section
+      const tail = this.joinUnits(current);
+      const previous = chunks[chunks.length - 1];
+      if (
+        tail.length > 0 &&
+        tail.length < options.minChunkSize &&
+        previous &&
+        previous.metadata.sectionTitle === section.title &&
+        previous.text.length + tail.length <= options.maxChunkSize &&
+        section.units.indexOf(current[0]) > 0
+      ) {
+        previous.text = `${previous.text}\n${tail}`;
+        previous.metadata.wordCount = this.countWords(previous.text);
+        previous.metadata.characterCount = previous.text.length;
+        previous.metadata.endPosition = current[current.length - 1].end;
+        current = [];
+      }
+      flush();
+    }
+
+    chunks.forEach((chunk) => {
+      chunk.metadata.totalChunks = chunks.length;
+    });
+
+    logger.debug(
+      `[DocumentProcessor] Semantic chunking: ${units.length} units, ${sections.length} sections, ${breakpoints.size} breakpoints → ${chunks.length} chunks`
+    );
+
+    return chunks;
+  }
+
+  /**
+   * Cosine distance between each unit and the next one in its section.
+   * Each unit is embedded together with `semanticBufferSize` neighbours on
+   * both sides to smooth out single short sentences.
+   */
+  private async computeUnitDistances(
+    sections: SemanticSection[],
+    options: ChunkingOptions,
+    planTier: string
+  ): Promise<Array<{ after: SemanticUnit; distance: number }>> {
+    const windows: string[] = [];
+    const buffer = Math.max(0, options.semanticBufferSize);
+
+    for (const section of sections) {
+      section.units.forEach((_, i) => {
+        const from = Math.max(0, i - buffer);
+        const to = Math.min(section.units.length, i + buffer + 1);
+        windows.push(
+          this.joinUnits(section.units.slice(from, to)).slice(0, SEMANTIC_MAX_WINDOW_CHARS)
+        );
+      });
+    }
+
+    if (windows.length < 2) return [];
+
+    const { embeddings } = await embeddingService.generateBatchEmbeddings(
+      { texts: windows },
+      undefined,
+      planTier
+    );
+
+    const distances: Array<{ after: SemanticUnit; distance: number }> = [];
+    let offset = 0;
+
+    for (const section of sections) {
+      for (let i = 0; i < section.units.length - 1; i++) {
+        const similarity = this.cosineSimilarity(
+          embeddings[offset + i].vector,
+          embeddings[offset + i + 1].vector
+        );
+        distances.push({ after: section.units[i], distance: 1 - similarity });
+      }
+      offset += section.units.length;
+    }
+
+    return distances;
+  }
+
+  /**
+   * Structural pass: headings start sections, pipe tables stay whole,
+   * everything else is split into sentences (with source offsets)
+   */
+  private splitIntoSections(text: string, maxChunkSize: number): SemanticSection[] {
+    const sections: SemanticSection[] = [{ units: [] }];
+    const lines = text.split('\n');
+
+    let paragraph: { text: string; start: number } | null = null;
+    let table: { lines: string[]; start: number } | null = null;
+    let position = 0;
+
+    const currentSection = () => sections[sections.length - 1];
+
+    const endParagraph = () => {
+      if (!paragraph) return;
+      currentSection().units.push(...this.splitSentences(paragraph.text, paragraph.start));
+      paragraph = null;
+    };
+
+    const endTable = () => {
+      if (!table) return;
+      currentSection().units.push(...this.splitTable(table.lines, table.start, maxChunkSize));
+      table = null;
+    };
+
+    for (const line of lines) {
+      const start = position;
+      position += line.length + 1;
+
+      if (TABLE_LINE_PATTERN.test(line)) {
+        endParagraph();
+        if (!table) table = { lines: [], start };
+        table.lines.push(line);
+        continue;
+      }
+      endTable();
+
+      if (!line.trim() || SEPARATOR_LINE_PATTERN.test(line)) {
+        endParagraph();
+        continue;
+      }
+
+      if (this.isHeading(line)) {
+        endParagraph();
+        const title = line.replace(/^#{1,6}\s+/, '').trim();
+        if (currentSection().units.length === 0) {
+          // Consecutive headings (e.g. chapter + section) merge
+          const section = currentSection();
+          section.title = section.title ? `${section.title} › ${title}` : title;
+        } else {
+          sections.push({ title, units: [] });
+        }
+        continue;
+      }
+
+      if (paragraph) {
+        paragraph.text += `\n${line}`;
+      } else {
+        paragraph = { text: line, start };
+      }
+    }
+
+    endParagraph();
+    endTable();
+
+    return sections.filter((section) => section.units.length > 0);
+  }
+
+  private isHeading(line: string): boolean {
+    const trimmed = line.trim();
+    if (trimmed.length > 80) return false;
+
+    // Markdown and the extractors' own section markers (📄 title, 📊 sheet)
+    if (/^#{1,6}\s+\S/.test(trimmed) || /^(📄|📊|📑)\s/u.test(trimmed)) return true;
+
+    // Sentences aren't headings
+    if (/[.!?,;:]$/.test(trimmed)) return false;
+
+    // "1. Introduction", "2.3 Scope", "Chapter 4 Results"
+    if (
+      /^(\d+(\.\d+)*\.?|[Cc]hapter\s+\d+|[Ss]ection\s+\d+)\s+\p{Lu}/u.test(trimmed) &&
+      trimmed.split(/\s+/).length <= 8
+    ) {
+      return true;
+    }
+
+    // ALL CAPS lines with at least two words ("TERMS AND CONDITIONS")
+    const letters = trimmed.replace(/[^\p{L}]/gu, '');
+    return (
+      letters.length >= 4 &&
+      trimmed.split(/\s+/).length >= 2 &&
+      letters === letters.toUpperCase() &&
+      letters !== letters.toLowerCase()
+    );
+  }
+
+  private splitSentences(text: string, start: number): SemanticUnit[] {
+    const units: SemanticUnit[] = [];
+    // Ends at . ! ? । followed by whitespace, so "3.5" and "e.g.x" stay intact
+    const pattern = /\S[^]*?(?:[.!?।]+(?=\s|$)|$)/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(text)) !== null) {
+      const sentence = match[0].trim();
+      if (!sentence) continue;
+
+      const offset = start + match.index;
+      units.push({
+        text: sentence.replace(/\n/g, ' '),
+        start: offset,
+        end: offset + sentence.length,
+        kind: 'sentence',
+      });
+    }
+
+    return units;
+  }
+
+  /**
+   * A table is one unit; tables larger than maxChunkSize are split by rows,
+   * repeating the header (and its |---| separator) in every part
+   */
+  private splitTable(lines: string[], start: number, maxChunkSize: number): SemanticUnit[] {
+    const whole = lines.join('\n');
+    if (whole.length <= maxChunkSize) {
+      return [{ text: whole, start, end: start + whole.length, kind: 'table' }];
+    }
+
+    const headerSize = lines.length > 1 && /^\s*\|?[\s:|-]+\|?\s*$/.test(lines[1]) ? 2 : 1;
+    const header = lines.slice(0, headerSize);
+    const units: SemanticUnit[] = [];
+
+    let rows: string[] = [];
+    let rowStart = start;
+    let position = start + header.join('\n').length + 1;
+
+    const push = () => {
+      if (rows.length === 0) return;
+      units.push({
+        text: [...header, ...rows].join('\n'),
+        start: rowStart,
+        end: position - 1,
+        kind: 'table',
+      });
+      rows = [];
+      rowStart = position;
+    };
+
+    for (const row of lines.slice(headerSize)) {
+      if ([...header, ...rows, row].join('\n').length > maxChunkSize) push();
+      rows.push(row);
+      position += row.length + 1;
+    }
+    push();
+
+    return units;
+  }
+
+  private joinUnits(units: SemanticUnit[]): string {
+    return units
+      .map((unit, i) => {
+        if (i === 0) return unit.text;
+        const separator = unit.kind === 'table' || units[i - 1].kind === 'table' ? '\n\n' : ' ';
+        return separator + unit.text;
+      })
+      .join('');
+  }
+
+  private cosineSimilarity(a: number[], b: number[]): number {
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+
+    for (let i = 0; i < a.length; i++) {
+      dot += a[i] * b[i];
+      normA += a[i] * a[i];
+      normB += b[i] * b[i];
+    }
+
+    return normA === 0 || normB === 0 ? 0 : dot / (Math.sqrt(normA) * Math.sqrt(normB));
+  }
+
+  private percentile(values: number[], p: number): number {
+    if (values.length === 0) return Infinity;
+    const sorted = [...values].sort((a, b) => a - b);
+    const index = Math.min(sorted.length - 1, Math.max(0, Math.ceil((p / 100) * sorted.length) - 1));
+    return sorted[index];
+  }
+
   /**
    * Create a chunk object
    */
@@ -1768,10 +2180,10 @@ export class DocumentProcessorService {
       );
     }
 
-    // Check document count
+    // Check document count (older versions don't count as separate documents)
     if (limits.maxDocuments !== -1) {
       const userDocCount = await prisma.document.count({
-        where: { userId },
+        where: { userId, isLatestVersion: true },
       });
 
       if (userDocCount >= limits.maxDocuments) {
@@ -0,0 +1,302 @@
+/**
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ * SORIVA AI - DOCUMENT VERSION SERVICE
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ * Purpose: Chunk-level diffing between revisions of a RAG document
+ * Hashing: sha256 of the whitespace-normalized chunk text. A chunk of a
+ *          new version whose hash exists in the previous version reuses
+ *          that chunk's embedding instead of calling the provider.
+ * Diff:    Multiset comparison of chunk hashes (a repeated passage
+ *          counts once per occurrence), plus an optional model-written
+ *          summary of what changed.
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ */
+
+import { createHash } from 'crypto';
+import { PlanType } from '@prisma/client';
+import { prisma } from '@/config/prisma';
+import { MessageRole, ProviderFactory } from '../../core/ai/providers';
+import { isValidPlanType } from '../../constants';
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// TYPES & INTERFACES
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export interface VersionedChunk {
+  id: string;
+  chunkIndex: number;
+  content: string;
+  contentHash: string | null;
+  pageNumber: number | null;
+}
+
+export interface ReusableEmbedding {
+  chunkId: string;
+  embedding: number[];
+  model: string;
+  dimensions: number;
+}
+
+export interface ChunkChange {
+  chunkId: string;
+  chunkIndex: number;
+  pageNumber?: number;
+  content: string;
+}
+
+/**
+ * Stored in the new version's metadata.versioning after processing
+ */
+export interface VersionChangeStats {
+  previousVersionId: string;
+  addedChunks: number;
+  removedChunks: number;
+  unchangedChunks: number;
+  reusedEmbeddings: number;
+  newEmbeddings: number;
+}
+
+export interface ChunkDiff {
+  added: ChunkChange[];
+  removed: ChunkChange[];
+  unchanged: number;
+}
+
+export interface DocumentVersionDiff {
+  rootDocumentId: string;
+  from: { documentId: string; version: number };
+  to: { documentId: string; version: number };
+  stats: { added: number; removed: number; unchanged: number };
+  added: ChunkChange[];
+  removed: ChunkChange[];
+  summary?: string;
+}
+
+export interface ChangeSummaryOptions {
+  question?: string;
+  planTier?: string;
+  userId?: string;
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// CONSTANTS
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const MAX_SUMMARY_PASSAGES = 20;
+const MAX_PASSAGE_CHARS = 600;
+const MAX_SUMMARY_TOKENS = 600;
+
+const SUMMARY_SYSTEM_PROMPT = `You compare two versions of a document.
+You get passages removed from the old version and passages added in the new version.
+Describe what changed in plain language: new, removed and reworded content.
+Mention page numbers when given. Do not invent changes that the passages do not show.`;
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// DOCUMENT VERSION SERVICE
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export class DocumentVersionService {
+  private static instance: DocumentVersionService;
+
+  private factory: ProviderFactory | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): DocumentVersionService {
+    if (!DocumentVersionService.instance) {
+      DocumentVersionService.instance = new DocumentVersionService();
+    }
+    return DocumentVersionService.instance;
+  }
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // HASHING & EMBEDDING REUSE
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  /**
+   * Whitespace-only edits (re-wrapped lines, trailing spaces) keep the hash
+   */
+  public hashContent(content: string): string {
+    return createHash('sha256').update(content.replace(/\s+/g, ' ').trim()).digest('hex');
+  }
+
+  /**
+   * Embeddings of a previous version keyed by chunk hash. Only embeddings
+   * made with the current model are reusable.
+   */
+  public async getReusableEmbeddings(
+    previousDocumentId: string,
+    model: string
+  ): Promise<Map<string, ReusableEmbedding>> {
+    const chunks = await prisma.documentChunk.findMany({
+      where: { documentId: previousDocumentId, hasEmbedding: true },
+      include: { embedding: true },
+    });
+
+    const reusable = new Map<string, ReusableEmbedding>();
+    for (const chunk of chunks) {
+      const embedding = chunk.embedding;
+      if (!embedding || embedding.model !== model || !Array.isArray(embedding.embedding)) {
+        continue;
+      }
+
+      const hash = chunk.contentHash ?? this.hashContent(chunk.content);
+      if (!reusable.has(hash)) {
+        reusable.set(hash, {
+          chunkId: chunk.id,
+          embedding: embedding.embedding as number[],
+          model: embedding.model,
+          dimensions: embedding.dimensions,
+        });
+      }
+    }
+
+    return reusable;
+  }
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // DIFFING
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  /**
+   * Chunks only in `to` are added, chunks only in `from` are removed
+   */
+  public diffChunks(from: VersionedChunk[], to: VersionedChunk[]): ChunkDiff {
+    const remaining = new Map<string, number>();
+    for (const chunk of from) {
+      const hash = chunk.contentHash ?? this.hashContent(chunk.content);
+      remaining.set(hash, (remaining.get(hash) || 0) + 1);
+    }
+
+    const added: ChunkChange[] = [];
+    let unchanged = 0;
+
+    for (const chunk of to) {
+      const hash = chunk.contentHash ?? this.hashContent(chunk.content);
+      const count = remaining.get(hash) || 0;
+
+      if (count > 0) {
+        remaining.set(hash, count - 1);
+        unchanged++;
+      } else {
+        added.push(this.toChange(chunk));
+      }
+    }
+
+    const removed: ChunkChange[] = [];
+    for (const chunk of from) {
+      const hash = chunk.contentHash ?? this.hashContent(chunk.content);
+      const count = remaining.get(hash) || 0;
+
+      if (count > 0) {
+        remaining.set(hash, count - 1);
+        removed.push(this.toChange(chunk));
+      }
+    }
+
+    return { added, removed, unchanged };
+  }
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // CHANGE SUMMARY
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  /**
+   * Plain-language summary of a diff, optionally focused on a question
+   * ("did the refund policy change?")
+   */
+  public async summarizeChanges(
+    diff: Pick<DocumentVersionDiff, 'from' | 'to' | 'added' | 'removed'>,
+    options: ChangeSummaryOptions = {}
+  ): Promise<string> {
+    if (diff.added.length === 0 && diff.removed.length === 0) {
+      return `Version ${diff.to.version} has the same content as version ${diff.from.version}.`;
+    }
+
+    const factory = await this.getFactory();
+    const plan =
+      options.planTier && isValidPlanType(options.planTier.toUpperCase())
+        ? (options.planTier.toUpperCase() as PlanType)
+        : PlanType.STARTER;
+    const planConfig = factory.getPlanConfig(plan);
+    if (!planConfig) {
+      throw new Error(`No provider configured for plan ${plan}`);
+    }
+
+    const response = await factory.executeWithFallback(plan, {
+      model: planConfig.primaryModel,
+      messages: [
+        { role: MessageRole.SYSTEM, content: SUMMARY_SYSTEM_PROMPT },
+        { role: MessageRole.USER, content: this.buildSummaryPrompt(diff, options.question) },
+      ],
+      temperature: 0.2,
+      maxTokens: MAX_SUMMARY_TOKENS,
+      userId: options.userId,
+    });
+
+    return (response.content || '').trim();
+  }
+
+  private buildSummaryPrompt(
+    diff: Pick<DocumentVersionDiff, 'from' | 'to' | 'added' | 'removed'>,
+    question?: string
+  ): string {
+    const section = (title: string, changes: ChunkChange[]) => {
+      if (changes.length === 0) return `${title}: none`;
+
+      const shown = changes.slice(0, MAX_SUMMARY_PASSAGES).map((change) => {
+        const page = change.pageNumber ? ` (page ${change.pageNumber})` : '';
+        const text =
+          change.content.length > MAX_PASSAGE_CHARS
+            ? `${change.content.slice(0, MAX_PASSAGE_CHARS)}…`
+            : change.content;
+        return `-${page} ${text}`;
+      });
+      const more =
+        changes.length > MAX_SUMMARY_PASSAGES
+          ? `\n(${changes.length - MAX_SUMMARY_PASSAGES} more not shown)`
+          : '';
+
+      return `${title}:\n${shown.join('\n')}${more}`;
+    };
+
+    return [
+      `Old version: ${diff.from.version}. New version: ${diff.to.version}.`,
+      section(`Removed from version ${diff.from.version}`, diff.removed),
+      section(`Added in version ${diff.to.version}`, diff.added),
+      question ? `Question: ${question}` : 'Summarize what changed.',
+    ].join('\n\n');
+  }
+
+  /**
+   * Created on first use - the factory throws when no provider key is set
+   */
+  private async getFactory(): Promise<ProviderFactory> {
+    if (!this.factory) {
+      this.factory = ProviderFactory.getInstance({
+        googleApiKey: process.env.GOOGLE_API_KEY,
+        mistralApiKey: process.env.MISTRAL_API_KEY,
+        openrouterApiKey: process.env.OPENROUTER_API_KEY,
+      });
+    }
+    if (!this.factory.isInitialized()) {
+      await this.factory.initialize();
+    }
+    return this.factory;
+  }
+
+  private toChange(chunk: VersionedChunk): ChunkChange {
+    return {
+      chunkId: chunk.id,
+      chunkIndex: chunk.chunkIndex,
+      pageNumber: chunk.pageNumber ?? undefined,
+      content: chunk.content,
+    };
+  }
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// EXPORT
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export default DocumentVersionService.getInstance();
@@ -11,6 +11,7 @@
 
 import { PrismaClient } from '@prisma/client';
 import { logger } from '@shared/utils/logger';
+import localEmbeddingProvider from './local-embedding.provider';
 
 const prisma = new PrismaClient();
 
@@ -142,6 +143,11 @@ export class EmbeddingService {
     if (provider) this.config.provider = provider;
     if (model) this.config.model = model;
 
+    // Local provider runs whatever model the ONNX provider is configured with
+    if (this.config.provider === 'local' && !model) {
+      this.config.model = localEmbeddingProvider.getConfig().model;
+    }
+
     // Set dimensions based on model
     this.config.dimensions = this.getModelDimensions(this.config.model);
 
@@ -158,6 +164,10 @@ export class EmbeddingService {
       'text-embedding-3-large': 3072,
       'text-embedding-ada-002': 1536,
       'all-MiniLM-L6-v2': 384,
+      'Xenova/all-MiniLM-L6-v2': 384,
+      'Xenova/bge-small-en-v1.5': 384,
+      'Xenova/bge-base-en-v1.5': 768,
+      'Xenova/multilingual-e5-small': 384,
     };
 
     return dimensionsMap[model] || 1536;
@@ -403,22 +413,20 @@ export class EmbeddingService {
     text: string,
     metadata?: Record<string, any>
   ): Promise<EmbeddingVector> {
-    // Placeholder for local embedding model
-    // In production, use transformers.js or similar
-
-    logger.warn('[EmbeddingService] Local embeddings not implemented - using mock');
-
-    // Generate deterministic mock vector for testing
-    const dimensions = this.config.dimensions;
-    const vector = Array.from({ length: dimensions }, (_, i) => {
-      return Math.sin(text.charCodeAt(i % text.length) + i) * 0.5;
-    });
+    const [vector] = await localEmbeddingProvider.embed([text]);
+    return this.toLocalEmbeddingVector(text, vector, metadata);
+  }
 
+  private toLocalEmbeddingVector(
+    text: string,
+    vector: number[],
+    metadata?: Record<string, any>
+  ): EmbeddingVector {
     return {
       text,
       vector,
-      dimensions,
-      model: 'local-mock',
+      dimensions: vector.length,
+      model: localEmbeddingProvider.getConfig().model,
       provider: 'local',
       metadata,
     };
@@ -444,6 +452,12 @@ export class EmbeddingService {
   ): Promise<EmbeddingVector[]> {
     const embeddings: EmbeddingVector[] = [];
 
+    // Local model embeds a whole batch in one forward pass
+    if (this.config.provider === 'local') {
+      const vectors = await localEmbeddingProvider.embed(texts);
+      return texts.map((text, i) => this.toLocalEmbeddingVector(text, vectors[i], metadata));
+    }
+
     // Process each text in parallel
     const promises = texts.map((text) => this.generateEmbeddingInternal(text, metadata));
 
@@ -628,6 +642,7 @@ export class EmbeddingService {
       model: this.config.model,
       dimensions: this.config.dimensions,
       cache: this.getCacheStats(),
+      ...(this.config.provider === 'local' && { local: localEmbeddingProvider.getStatus() }),
     };
   }
 }
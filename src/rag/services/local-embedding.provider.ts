@@ -0,0 +1,185 @@
+/**
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ * SORIVA AI - LOCAL EMBEDDING PROVIDER
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ * Purpose: CPU-only sentence embeddings (ONNX via transformers.js)
+ *          so RAG works offline and without Voyage/OpenAI keys
+ * Model:   Xenova/all-MiniLM-L6-v2 (384 dims, mean-pooled, normalized)
+ *          loaded from LOCAL_EMBEDDING_MODEL_DIR/<model id>/
+ * Env:
+ *   LOCAL_EMBEDDING_MODEL           Hugging Face model id (ONNX export)
+ *   LOCAL_EMBEDDING_MODEL_DIR       Default: ./models
+ *   LOCAL_EMBEDDING_ALLOW_DOWNLOAD  'true' to fetch missing files from the Hub
+ *   LOCAL_EMBEDDING_THREADS         ONNX intra-op threads (default: runtime choice)
+ * Setup:   npm run embeddings:download (once, with network access)
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ */
+
+import * as path from 'path';
+import type { FeatureExtractionPipeline } from '@huggingface/transformers';
+import { logger } from '@shared/utils/logger';
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// TYPES & CONSTANTS
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export interface LocalEmbeddingConfig {
+  model: string;
+  modelDir: string;
+  allowDownload: boolean;
+  threads?: number;
+  batchSize: number;
+}
+
+export const DEFAULT_LOCAL_EMBEDDING_MODEL = 'Xenova/all-MiniLM-L6-v2';
+
+/**
+ * Imports transformers.js pointed at the local model directory.
+ * Shared with the cross-encoder reranker so both resolve models the same way.
+ */
+export async function loadTransformers(
+  config: Pick<LocalEmbeddingConfig, 'modelDir' | 'allowDownload'>
+): Promise<typeof import('@huggingface/transformers')> {
+  const transformers = await import('@huggingface/transformers');
+
+  transformers.env.localModelPath = config.modelDir;
+  transformers.env.cacheDir = config.modelDir;
+  transformers.env.allowLocalModels = true;
+  transformers.env.allowRemoteModels = config.allowDownload;
+
+  return transformers;
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// LOCAL EMBEDDING PROVIDER
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export class LocalEmbeddingProvider {
+  private static instance: LocalEmbeddingProvider;
+
+  private config: LocalEmbeddingConfig;
+  private extractor: Promise<FeatureExtractionPipeline> | null = null;
+  private dimensions: number | null = null;
+
+  private constructor() {
+    const threads = parseInt(process.env.LOCAL_EMBEDDING_THREADS || '', 10);
+
+    this.config = {
+      model: process.env.LOCAL_EMBEDDING_MODEL || DEFAULT_LOCAL_EMBEDDING_MODEL,
+      modelDir: path.resolve(process.env.LOCAL_EMBEDDING_MODEL_DIR || 'models'),
+      allowDownload: process.env.LOCAL_EMBEDDING_ALLOW_DOWNLOAD === 'true',
+      threads: threads > 0 ? threads : undefined,
+      batchSize: 32,
+    };
+  }
+
+  public static getInstance(): LocalEmbeddingProvider {
+    if (!LocalEmbeddingProvider.instance) {
+      LocalEmbeddingProvider.instance = new LocalEmbeddingProvider();
+    }
+    return LocalEmbeddingProvider.instance;
+  }
+
+  public getConfig(): LocalEmbeddingConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Drops the loaded model; the next embed() loads it with the new config
+   */
+  public updateConfig(config: Partial<LocalEmbeddingConfig>): void {
+    this.config = { ...this.config, ...config };
+    this.extractor = null;
+    this.dimensions = null;
+  }
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // MODEL LOADING
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  /**
+   * Loaded lazily on first use (transformers.js pulls in the ONNX
+   * runtime, which we don't want in processes that never embed locally)
+   */
+  private getExtractor(): Promise<FeatureExtractionPipeline> {
+    if (!this.extractor) {
+      this.extractor = this.loadExtractor().catch((error) => {
+        this.extractor = null;
+        throw error;
+      });
+    }
+    return this.extractor;
+  }
+
+  private async loadExtractor(): Promise<FeatureExtractionPipeline> {
+    const startTime = Date.now();
+    const { pipeline } = await loadTransformers(this.config);
+
+    try {
+      const extractor = await pipeline('feature-extraction', this.config.model, {
+        dtype: 'q8',
+        local_files_only: !this.config.allowDownload,
+        session_options: this.config.threads
+          ? { intraOpNumThreads: this.config.threads }
+          : undefined,
+      });
+
+      logger.success(`[LocalEmbedding] Loaded ${this.config.model} in ${Date.now() - startTime}ms`);
+      return extractor as FeatureExtractionPipeline;
+    } catch (error: any) {
+      throw new Error(
+        `Local embedding model ${this.config.model} could not be loaded from ${this.config.modelDir}` +
+          (this.config.allowDownload
+            ? `: ${error.message}`
+            : ' (run "npm run embeddings:download" or set LOCAL_EMBEDDING_ALLOW_DOWNLOAD=true)')
+      );
+    }
+  }
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // EMBEDDING
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  /**
+   * Mean-pooled, L2-normalized sentence embeddings (cosine = dot product)
+   */
+  public async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return [];
+
+    const extractor = await this.getExtractor();
+    const vectors: number[][] = [];
+
+    for (let i = 0; i < texts.length; i += this.config.batchSize) {
+      const batch = texts.slice(i, i + this.config.batchSize).map((text) => text || ' ');
+      const output = await extractor(batch, { pooling: 'mean', normalize: true });
+      vectors.push(...(output.tolist() as number[][]));
+    }
+
+    this.dimensions = vectors[0]?.length ?? this.dimensions;
+    return vectors;
+  }
+
+  public isLoaded(): boolean {
+    return this.dimensions !== null;
+  }
+
+  public getStatus(): {
+    model: string;
+    modelDir: string;
+    loaded: boolean;
+    dimensions: number | null;
+  } {
+    return {
+      model: this.config.model,
+      modelDir: this.config.modelDir,
+      loaded: this.isLoaded(),
+      dimensions: this.dimensions,
+    };
+  }
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// EXPORT
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export default LocalEmbeddingProvider.getInstance();
@@ -0,0 +1,739 @@
+/**
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ * SORIVA AI - RAG CONFIGURATION SERVICE
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ * Purpose: Reads and manages tunables in the rag_configurations table
+ * Resolution: user row (scope 'user', scopeId = user id)
+ *             → plan row (scope 'plan', scopeId = plan type)
+ *             → global row → caller's default (env)
+ * Cache: All active rows are loaded at once and kept for
+ *        RAG_CONFIG_CACHE_TTL seconds (default 60). Writes reload this
+ *        instance immediately; other instances pick them up on expiry.
+ * Admin: Validated CRUD (type, range, allowed values) with one-step
+ *        rollback to previousValue. Every change is audited.
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ */
+
+import { RAGConfiguration } from '@prisma/client';
+import { prisma } from '@/config/prisma';
+import { logger } from '@shared/utils/logger';
+import { isValidPlanType } from '../../constants';
+import { auditLogService, AuditEventType } from '../../services/audit-log.service';
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// TYPES & CONSTANTS
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export const RAG_CONFIG_SCOPES = ['global', 'plan', 'user'] as const;
+export type RAGConfigScope = (typeof RAG_CONFIG_SCOPES)[number];
+
+export interface RAGConfigContext {
+  planTier?: string;
+  userId?: string;
+}
+
+export const RAG_CONFIG_KEYS = {
+  CHUNK_SIZE: 'chunking.size',
+  CHUNK_OVERLAP: 'chunking.overlap',
+  MAX_CHUNKS_PER_DOCUMENT: 'document.maxChunks',
+  RETRIEVAL_TOP_K: 'retrieval.topK',
+  RETRIEVAL_SIMILARITY_THRESHOLD: 'retrieval.similarityThreshold',
+  RERANKER_STRATEGY: 'reranker.strategy',
+  RERANKER_CANDIDATES: 'reranker.candidates',
+  RERANKER_SCORE_WEIGHT: 'reranker.scoreWeight',
+  HYBRID_FUSION: 'hybrid.fusion',
+  HYBRID_RRF_K: 'hybrid.rrfK',
+  HYBRID_VECTOR_WEIGHT: 'hybrid.vectorWeight',
+  HYBRID_KEYWORD_WEIGHT: 'hybrid.keywordWeight',
+} as const;
+
+export type RAGConfigKey = (typeof RAG_CONFIG_KEYS)[keyof typeof RAG_CONFIG_KEYS];
+
+export type RAGConfigDataType = 'string' | 'number';
+
+/**
+ * Known keys and their constraints. New rows copy these; existing rows
+ * are validated against their own stored min/max/allowedValues.
+ */
+export interface RAGConfigDefinition {
+  dataType: RAGConfigDataType;
+  category: string;
+  description: string;
+  integer?: boolean;
+  minValue?: number;
+  maxValue?: number;
+  allowedValues?: string[];
+}
+
+export const RAG_CONFIG_DEFINITIONS: Record<RAGConfigKey, RAGConfigDefinition> = {
+  'chunking.size': {
+    dataType: 'number',
+    category: 'CHUNKING',
+    description: 'Words per chunk for newly uploaded documents',
+    integer: true,
+    minValue: 50,
+    maxValue: 4000,
+  },
+  'chunking.overlap': {
+    dataType: 'number',
+    category: 'CHUNKING',
+    description: 'Words shared between consecutive chunks',
+    integer: true,
+    minValue: 0,
+    maxValue: 1000,
+  },
+  'document.maxChunks': {
+    dataType: 'number',
+    category: 'CHUNKING',
+    description: 'Documents producing more chunks than this are rejected',
+    integer: true,
+    minValue: 1,
+    maxValue: 100000,
+  },
+  'retrieval.topK': {
+    dataType: 'number',
+    category: 'RETRIEVAL',
+    description: 'Chunks returned per query when the request does not set topK',
+    integer: true,
+    minValue: 1,
+    maxValue: 50,
+  },
+  'retrieval.similarityThreshold': {
+    dataType: 'number',
+    category: 'RETRIEVAL',
+    description: 'Minimum vector similarity for a chunk to be returned',
+    minValue: 0,
+    maxValue: 1,
+  },
+  'reranker.strategy': {
+    dataType: 'string',
+    category: 'RANKING',
+    description: 'Second-stage reranker: none, heuristic, cross-encoder or llm',
+    allowedValues: ['none', 'heuristic', 'cross-encoder', 'llm'],
+  },
+  'reranker.candidates': {
+    dataType: 'number',
+    category: 'RANKING',
+    description: 'Candidates retrieved and passed to the reranker before trimming to topK',
+    integer: true,
+    minValue: 1,
+    maxValue: 100,
+  },
+  'reranker.scoreWeight': {
+    dataType: 'number',
+    category: 'RANKING',
+    description: 'Weight of the model reranker score vs the retrieval score in the final score',
+    minValue: 0,
+    maxValue: 1,
+  },
+  'hybrid.fusion': {
+    dataType: 'string',
+    category: 'RANKING',
+    description: 'How hybrid search merges vector and keyword hits',
+    allowedValues: ['rrf', 'weighted'],
+  },
+  'hybrid.rrfK': {
+    dataType: 'number',
+    category: 'RANKING',
+    description: 'Reciprocal-rank fusion constant k',
+    minValue: 0,
+    maxValue: 1000,
+  },
+  'hybrid.vectorWeight': {
+    dataType: 'number',
+    category: 'RANKING',
+    description: 'RRF weight of the vector result list',
+    minValue: 0,
+    maxValue: 10,
+  },
+  'hybrid.keywordWeight': {
+    dataType: 'number',
+    category: 'RANKING',
+    description: 'RRF weight of the keyword result list',
+    minValue: 0,
+    maxValue: 10,
+  },
+};
+
+export type RAGConfigErrorReason =
+  | 'not_found'
+  | 'invalid_key'
+  | 'invalid_scope'
+  | 'invalid_value'
+  | 'not_editable'
+  | 'duplicate'
+  | 'no_previous_value';
+
+export interface RAGConfigChangeMeta {
+  changedBy: string;
+  reason?: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export interface RAGConfigInput {
+  configKey: string;
+  scope: string;
+  scopeId?: string | null;
+  value: unknown;
+  description?: string;
+}
+
+export interface RAGConfigUpdate {
+  value?: unknown;
+  isActive?: boolean;
+  description?: string;
+}
+
+export interface RAGConfigFilter {
+  configKey?: string;
+  scope?: string;
+  scopeId?: string;
+  category?: string;
+  includeInactive?: boolean;
+}
+
+export interface RAGConfigResult {
+  success: boolean;
+  configuration?: RAGConfiguration;
+  error?: string;
+  reason?: RAGConfigErrorReason;
+}
+
+export interface EffectiveRAGConfigValue {
+  key: RAGConfigKey;
+  value: string | number | null;
+  /** 'default' means no row applies and the service's env default is used */
+  source: RAGConfigScope | 'default';
+  configurationId?: string;
+}
+
+const DEFAULT_CACHE_TTL_SECONDS = 60;
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// RAG CONFIG SERVICE
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export class RAGConfigService {
+  private static instance: RAGConfigService;
+
+  private rows: RAGConfiguration[] = [];
+  private loadedAt = 0;
+  private loading: Promise<void> | null = null;
+  private readonly cacheTtlMs: number;
+
+  private constructor() {
+    const ttl = parseInt(process.env.RAG_CONFIG_CACHE_TTL || '', 10);
+    this.cacheTtlMs = (ttl >= 0 ? ttl : DEFAULT_CACHE_TTL_SECONDS) * 1000;
+  }
+
+  public static getInstance(): RAGConfigService {
+    if (!RAGConfigService.instance) {
+      RAGConfigService.instance = new RAGConfigService();
+    }
+    return RAGConfigService.instance;
+  }
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // LOADING
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  private async ensureLoaded(): Promise<void> {
+    if (Date.now() - this.loadedAt < this.cacheTtlMs) return;
+
+    if (!this.loading) {
+      this.loading = this.reload().finally(() => {
+        this.loading = null;
+      });
+    }
+    await this.loading;
+  }
+
+  /**
+   * Re-reads all active rows. On DB failure the previous rows are kept
+   * (or none on first load) so callers fall back to their defaults.
+   */
+  public async reload(): Promise<void> {
+    try {
+      this.rows = await prisma.rAGConfiguration.findMany({ where: { isActive: true } });
+    } catch (error) {
+      logger.warn('[RAGConfig] Failed to load rag_configurations, using defaults', error);
+    }
+    this.loadedAt = Date.now();
+  }
+
+  public invalidate(): void {
+    this.loadedAt = 0;
+  }
+
+  public getCacheStatus(): { rowsLoaded: number; loadedAt: Date | null; cacheTtlMs: number } {
+    return {
+      rowsLoaded: this.rows.length,
+      loadedAt: this.loadedAt ? new Date(this.loadedAt) : null,
+      cacheTtlMs: this.cacheTtlMs,
+    };
+  }
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // RESOLUTION
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  /**
+   * Most specific active row for a key: the user's row, the plan's row,
+   * then global
+   */
+  private resolveRow(key: string, context: RAGConfigContext): RAGConfiguration | undefined {
+    const candidates = this.rows.filter((row) => row.configKey === key);
+
+    const userRow = context.userId
+      ? candidates.find((row) => row.scope === 'user' && row.scopeId === context.userId)
+      : undefined;
+    const planRow = context.planTier
+      ? candidates.find(
+          (row) =>
+            row.scope === 'plan' && row.scopeId?.toUpperCase() === context.planTier!.toUpperCase()
+        )
+      : undefined;
+    const globalRow = candidates.find((row) => row.scope === 'global');
+
+    return userRow ?? planRow ?? globalRow;
+  }
+
+  public async resolve(key: string, context: RAGConfigContext = {}): Promise<string | undefined> {
+    await this.ensureLoaded();
+    return this.resolveRow(key, context)?.configValue;
+  }
+
+  public async getString<T extends string>(
+    key: string,
+    defaultValue: T,
+    context?: RAGConfigContext,
+    allowed?: readonly T[]
+  ): Promise<T> {
+    const value = await this.resolve(key, context);
+    if (value === undefined) return defaultValue;
+
+    if (allowed && !allowed.includes(value as T)) {
+      logger.warn(`[RAGConfig] Ignoring invalid value "${value}" for ${key}`);
+      return defaultValue;
+    }
+    return value as T;
+  }
+
+  public async getNumber(
+    key: string,
+    defaultValue: number,
+    context?: RAGConfigContext
+  ): Promise<number> {
+    const value = await this.resolve(key, context);
+    if (value === undefined) return defaultValue;
+
+    const parsed = parseFloat(value);
+    if (!Number.isFinite(parsed)) {
+      logger.warn(`[RAGConfig] Ignoring non-numeric value "${value}" for ${key}`);
+      return defaultValue;
+    }
+    return parsed;
+  }
+
+  /**
+   * Every known key as resolved for a plan/user, with the scope it came from
+   */
+  public async getEffectiveConfig(
+    context: RAGConfigContext = {}
+  ): Promise<EffectiveRAGConfigValue[]> {
+    await this.ensureLoaded();
+
+    return (Object.keys(RAG_CONFIG_DEFINITIONS) as RAGConfigKey[]).map((key) => {
+      const row = this.resolveRow(key, context);
+      if (!row) return { key, value: null, source: 'default' };
+
+      return {
+        key,
+        value: this.parseValue(row.configValue, RAG_CONFIG_DEFINITIONS[key].dataType),
+        source: row.scope as RAGConfigScope,
+        configurationId: row.id,
+      };
+    });
+  }
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // ADMIN - READ
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  public async listConfigurations(filter: RAGConfigFilter = {}): Promise<RAGConfiguration[]> {
+    return prisma.rAGConfiguration.findMany({
+      where: {
+        configKey: filter.configKey,
+        scope: filter.scope,
+        scopeId: filter.scopeId,
+        category: filter.category,
+        isActive: filter.includeInactive ? undefined : true,
+      },
+      orderBy: [{ category: 'asc' }, { configKey: 'asc' }, { scope: 'asc' }],
+    });
+  }
+
+  public async getConfiguration(id: string): Promise<RAGConfiguration | null> {
+    return prisma.rAGConfiguration.findUnique({ where: { id } });
+  }
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // ADMIN - WRITE
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  /**
+   * Add a value for a key at a scope (global default, plan or user override)
+   */
+  public async createConfiguration(
+    input: RAGConfigInput,
+    meta: RAGConfigChangeMeta
+  ): Promise<RAGConfigResult> {
+    try {
+      const definition = RAG_CONFIG_DEFINITIONS[input.configKey as RAGConfigKey];
+      if (!definition) {
+        return {
+          success: false,
+          error: `Unknown config key: ${input.configKey}`,
+          reason: 'invalid_key',
+        };
+      }
+
+      const scope = await this.validateScope(input.scope, input.scopeId);
+      if (scope.error !== undefined) {
+        return { success: false, error: scope.error, reason: 'invalid_scope' };
+      }
+
+      const constraints = {
+        dataType: definition.dataType,
+        minValue: definition.minValue ?? null,
+        maxValue: definition.maxValue ?? null,
+        allowedValues: definition.allowedValues ?? [],
+      };
+      const validation = this.validateValue(constraints, input.value, definition.integer);
+      if (validation.error !== undefined) {
+        return {
+          success: false,
+          error: `${input.configKey}: ${validation.error}`,
+          reason: 'invalid_value',
+        };
+      }
+
+      const existing = await prisma.rAGConfiguration.findFirst({
+        where: { configKey: input.configKey, scope: scope.scope, scopeId: scope.scopeId },
+      });
+      if (existing) {
+        return {
+          success: false,
+          error: `${input.configKey} already has a ${scope.scope} value${scope.scopeId ? ` for ${scope.scopeId}` : ''}`,
+          reason: 'duplicate',
+        };
+      }
+
+      const configuration = await prisma.rAGConfiguration.create({
+        data: {
+          configKey: input.configKey,
+          configValue: validation.value,
+          scope: scope.scope,
+          scopeId: scope.scopeId,
+          ...constraints,
+          category: definition.category,
+          description: input.description || definition.description,
+          changedBy: meta.changedBy,
+          changedAt: new Date(),
+        },
+      });
+
+      await this.afterChange(configuration, 'created', meta, { to: configuration.configValue });
+      return { success: true, configuration };
+    } catch (error: unknown) {
+      return this.handleWriteError(error, 'create');
+    }
+  }
+
+  /**
+   * Change a row's value and/or active flag. A value change keeps the old
+   * value in previousValue for rollback.
+   */
+  public async updateConfiguration(
+    id: string,
+    update: RAGConfigUpdate,
+    meta: RAGConfigChangeMeta
+  ): Promise<RAGConfigResult> {
+    try {
+      const existing = await prisma.rAGConfiguration.findUnique({ where: { id } });
+      if (!existing) {
+        return { success: false, error: 'Configuration not found', reason: 'not_found' };
+      }
+      if (!existing.isEditable) {
+        return {
+          success: false,
+          error: `Config key is not editable: ${existing.configKey}`,
+          reason: 'not_editable',
+        };
+      }
+
+      let configValue: string | undefined;
+      if (update.value !== undefined) {
+        const validation = this.validateValue(
+          existing,
+          update.value,
+          RAG_CONFIG_DEFINITIONS[existing.configKey as RAGConfigKey]?.integer
+        );
+        if (validation.error !== undefined) {
+          return {
+            success: false,
+            error: `${existing.configKey}: ${validation.error}`,
+            reason: 'invalid_value',
+          };
+        }
+        configValue = validation.value;
+      }
+
+      if (update.isActive !== undefined && typeof update.isActive !== 'boolean') {
+        return { success: false, error: 'isActive must be a boolean', reason: 'invalid_value' };
+      }
+
+      const valueChanged = configValue !== undefined && configValue !== existing.configValue;
+
+      const configuration = await prisma.rAGConfiguration.update({
+        where: { id },
+        data: {
+          ...(valueChanged && { configValue, previousValue: existing.configValue }),
+          isActive: update.isActive,
+          description: update.description,
+          changedBy: meta.changedBy,
+          changedAt: new Date(),
+        },
+      });
+
+      await this.afterChange(configuration, 'updated', meta, {
+        from: existing.configValue,
+        to: configuration.configValue,
+        isActive: configuration.isActive,
+      });
+      return { success: true, configuration };
+    } catch (error: unknown) {
+      return this.handleWriteError(error, 'update');
+    }
+  }
+
+  /**
+   * Remove a row - the key falls back to the next scope (or the env default)
+   */
+  public async deleteConfiguration(
+    id: string,
+    meta: RAGConfigChangeMeta
+  ): Promise<RAGConfigResult> {
+    try {
+      const existing = await prisma.rAGConfiguration.findUnique({ where: { id } });
+      if (!existing) {
+        return { success: false, error: 'Configuration not found', reason: 'not_found' };
+      }
+      if (!existing.isEditable) {
+        return {
+          success: false,
+          error: `Config key is not editable: ${existing.configKey}`,
+          reason: 'not_editable',
+        };
+      }
+
+      await prisma.rAGConfiguration.delete({ where: { id } });
+
+      await this.afterChange(existing, 'deleted', meta, { from: existing.configValue });
+      return { success: true, configuration: existing };
+    } catch (error: unknown) {
+      return this.handleWriteError(error, 'delete');
+    }
+  }
+
+  /**
+   * Swap configValue and previousValue, so a second rollback redoes the change
+   */
+  public async rollbackConfiguration(
+    id: string,
+    meta: RAGConfigChangeMeta
+  ): Promise<RAGConfigResult> {
+    try {
+      const existing = await prisma.rAGConfiguration.findUnique({ where: { id } });
+      if (!existing) {
+        return { success: false, error: 'Configuration not found', reason: 'not_found' };
+      }
+      if (!existing.isEditable) {
+        return {
+          success: false,
+          error: `Config key is not editable: ${existing.configKey}`,
+          reason: 'not_editable',
+        };
+      }
+      if (existing.previousValue === null) {
+        return {
+          success: false,
+          error: `${existing.configKey} has no previous value to roll back to`,
+          reason: 'no_previous_value',
+        };
+      }
+
+      // Constraints may have been tightened since the previous value was written
+      const validation = this.validateValue(
+        existing,
+        this.parseValue(existing.previousValue, existing.dataType),
+        RAG_CONFIG_DEFINITIONS[existing.configKey as RAGConfigKey]?.integer
+      );
+      if (validation.error !== undefined) {
+        return {
+          success: false,
+          error: `Previous value is no longer valid: ${validation.error}`,
+          reason: 'invalid_value',
+        };
+      }
+
+      const configuration = await prisma.rAGConfiguration.update({
+        where: { id },
+        data: {
+          configValue: validation.value,
+          previousValue: existing.configValue,
+          changedBy: meta.changedBy,
+          changedAt: new Date(),
+        },
+      });
+
+      await this.afterChange(
+        configuration,
+        'rolled back',
+        { ...meta, reason: meta.reason || 'Rollback to previous value' },
+        { from: existing.configValue, to: configuration.configValue }
+      );
+      return { success: true, configuration };
+    } catch (error: unknown) {
+      return this.handleWriteError(error, 'roll back');
+    }
+  }
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // PRIVATE HELPERS
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  /**
+   * Global rows have no scopeId; plan rows need a valid plan type and
+   * user rows an existing user
+   */
+  private async validateScope(
+    scope: string,
+    scopeId?: string | null
+  ): Promise<
+    | { scope: RAGConfigScope; scopeId: string | null; error?: undefined }
+    | { scope?: undefined; scopeId?: undefined; error: string }
+  > {
+    switch (scope) {
+      case 'global':
+        if (scopeId) return { error: 'Global configurations cannot have a scopeId' };
+        return { scope, scopeId: null };
+      case 'plan': {
+        const plan = typeof scopeId === 'string' ? scopeId.toUpperCase() : '';
+        if (!isValidPlanType(plan)) return { error: `Invalid plan type: ${scopeId}` };
+        return { scope, scopeId: plan };
+      }
+      case 'user': {
+        if (typeof scopeId !== 'string' || !scopeId) {
+          return { error: 'User configurations need a scopeId (user id)' };
+        }
+        const user = await prisma.user.findUnique({ where: { id: scopeId }, select: { id: true } });
+        if (!user) return { error: `User not found: ${scopeId}` };
+        return { scope, scopeId };
+      }
+      default:
+        return { error: `Scope must be one of ${RAG_CONFIG_SCOPES.join(', ')}` };
+    }
+  }
+
+  /**
+   * Check a value against type, range and allowed values.
+   * Returns the value serialized for storage.
+   */
+  private validateValue(
+    row: {
+      dataType: string;
+      minValue: number | null;
+      maxValue: number | null;
+      allowedValues: string[];
+    },
+    value: unknown,
+    integer = false
+  ): { value: string; error?: undefined } | { value?: undefined; error: string } {
+    if (row.dataType === 'number') {
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        return { error: 'must be a number' };
+      }
+      if (integer && !Number.isInteger(value)) {
+        return { error: 'must be an integer' };
+      }
+      if (row.minValue !== null && value < row.minValue) {
+        return { error: `must be >= ${row.minValue}` };
+      }
+      if (row.maxValue !== null && value > row.maxValue) {
+        return { error: `must be <= ${row.maxValue}` };
+      }
+      return { value: String(value) };
+    }
+
+    if (typeof value !== 'string') {
+      return { error: 'must be a string' };
+    }
+    if (row.allowedValues.length > 0 && !row.allowedValues.includes(value)) {
+      return { error: `must be one of ${row.allowedValues.join(', ')}` };
+    }
+    return { value };
+  }
+
+  private parseValue(value: string, dataType: string): string | number {
+    if (dataType === 'number') {
+      const parsed = parseFloat(value);
+      return Number.isFinite(parsed) ? parsed : value;
+    }
+    return value;
+  }
+
+  private async afterChange(
+    configuration: RAGConfiguration,
+    action: string,
+    meta: RAGConfigChangeMeta,
+    change: Record<string, unknown>
+  ): Promise<void> {
+    const target = `${configuration.configKey} (${configuration.scope}${configuration.scopeId ? `:${configuration.scopeId}` : ''})`;
+
+    await auditLogService.log({
+      eventType: AuditEventType.RAG_CONFIG_CHANGE,
+      userId: meta.changedBy,
+      ipAddress: meta.ipAddress,
+      userAgent: meta.userAgent,
+      success: true,
+      message: `RAG config ${target} ${action}`,
+      metadata: {
+        configurationId: configuration.id,
+        configKey: configuration.configKey,
+        scope: configuration.scope,
+        scopeId: configuration.scopeId,
+        ...change,
+        reason: meta.reason,
+      },
+    });
+
+    // Other instances pick the change up when their cache expires
+    await this.reload();
+  }
+
+  private handleWriteError(error: unknown, action: string): RAGConfigResult {
+    logger.error(`[RAGConfig] Failed to ${action} configuration`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : `Failed to ${action} configuration`,
+    };
+  }
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// EXPORT
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export default RAGConfigService.getInstance();
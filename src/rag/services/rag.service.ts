@@ -13,6 +13,14 @@ import mammoth from 'mammoth';
 import Papa from 'papaparse';
 import * as fs from 'fs/promises';
 import axios from 'axios';
+import type { PageContent } from './document-processor';
+import citationService, { Citation, CitableSource, RejectedCitation } from './citation.service';
+import ragConfigService, { RAG_CONFIG_KEYS } from './rag-config.service';
+import documentVersionService, {
+  DocumentVersionDiff,
+  ReusableEmbedding,
+  VersionChangeStats,
+} from './document-version.service';
 
 // Logger utility (uses console if logger not available)
 const logger = {
@@ -26,6 +34,9 @@ const logger = {
  * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
  * CONFIGURATION (100% Dynamic - Env Driven)
  * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ * Env values are the baseline. Chunking, retrieval and max-chunk settings
+ * are overridden per request from rag_configurations (global → plan →
+ * user) - see resolvePipelineSettings() and rag-config.service.
  */
 
 interface RAGConfiguration {
@@ -69,6 +80,17 @@ interface RAGConfiguration {
   enableMetadataExtraction: boolean;
 }
 
+/**
+ * Per-user pipeline values (env baseline overlaid with rag_configurations)
+ */
+interface PipelineSettings {
+  chunkSize: number;
+  chunkOverlap: number;
+  maxChunksPerDocument: number;
+  topK: number;
+  similarityThreshold: number;
+}
+
 class RAGConfigService {
   private static instance: RAGConfigService;
   private config: RAGConfiguration;
@@ -259,6 +281,17 @@ export interface DocumentQueryOptions {
   };
   includeMetadata?: boolean;
   includeChunks?: boolean;
+  generateAnswer?: boolean; // Default true: cited answer over the retrieved chunks
+  planTier?: string; // Model routing for the answer (defaults to the user's plan)
+  includeAllVersions?: boolean; // Also search superseded versions (explicit documentIds always apply)
+}
+
+export interface DocumentVersionCompareOptions {
+  fromVersion?: number; // Default: the version before toVersion
+  toVersion?: number; // Default: the latest version
+  summarize?: boolean; // Model-written summary of the changes
+  question?: string; // Focus for the summary ("did the pricing change?")
+  planTier?: string;
 }
 
 export interface QueryResult {
@@ -271,7 +304,10 @@ export interface QueryResult {
       documentTitle?: string;
       chunkIndex: number;
       pageNumber?: number;
+      pageEnd?: number;
       section?: string;
+      startPosition?: number;
+      endPosition?: number;
       [key: string]: any;
     };
   }>;
@@ -281,6 +317,9 @@ export interface QueryResult {
     filename: string;
     score: number;
   }>;
+  answer?: string;
+  citations?: Citation[];
+  rejectedCitations?: RejectedCitation[];
   metadata: {
     totalResults: number;
     processingTime: number;
@@ -288,6 +327,20 @@ export interface QueryResult {
   };
 }
 
+/**
+ * Extracted text plus page boundaries (PDF only)
+ */
+interface ExtractedContent {
+  text: string;
+  pages?: PageSpan[];
+}
+
+interface PageSpan {
+  pageNumber: number;
+  start: number;
+  end: number;
+}
+
 export interface DocumentProcessingResult {
   documentId: string;
   status: 'completed' | 'failed' | 'processing';
@@ -333,33 +386,45 @@ class TextProcessor {
     overlap: number = 50
   ): Array<{ content: string; startPosition: number; endPosition: number }> {
     const chunks: Array<{ content: string; startPosition: number; endPosition: number }> = [];
-    const words = text.split(/\s+/);
+    // Word spans in the original text, so chunk offsets point at the exact source characters
+    const words = Array.from(text.matchAll(/\S+/g), (match) => ({
+      start: match.index ?? 0,
+      end: (match.index ?? 0) + match[0].length,
+    }));
+    const step = Math.max(chunkSize - overlap, 1);
 
-    let currentChunk: string[] = [];
-    let startPos = 0;
+    for (let first = 0; first < words.length; first += step) {
+      const last = Math.min(first + chunkSize, words.length) - 1;
+      const startPosition = words[first].start;
+      const endPosition = words[last].end;
 
-    for (let i = 0; i < words.length; i++) {
-      currentChunk.push(words[i]);
+      chunks.push({
+        content: text.slice(startPosition, endPosition),
+        startPosition,
+        endPosition,
+      });
 
-      if (currentChunk.length >= chunkSize || i === words.length - 1) {
-        const content = currentChunk.join(' ');
-        const endPos = startPos + content.length;
+      if (last === words.length - 1) break;
+    }
 
-        chunks.push({
-          content,
-          startPosition: startPos,
-          endPosition: endPos,
-        });
+    return chunks;
+  }
 
-        // Overlap: keep last 'overlap' words for next chunk
-        if (i < words.length - 1) {
-          currentChunk = currentChunk.slice(-overlap);
-          startPos = endPos - currentChunk.join(' ').length;
-        }
-      }
-    }
+  /**
+   * Pages a character span falls on (first and last page)
+   */
+  public static pagesForSpan(
+    pages: PageSpan[],
+    start: number,
+    end: number
+  ): { pageNumber?: number; pageEnd?: number } {
+    const pageAt = (offset: number) =>
+      pages.find((page) => offset >= page.start && offset < page.end)?.pageNumber;
 
-    return chunks.filter((chunk) => chunk.content.trim().length > 0);
+    return {
+      pageNumber: pageAt(start),
+      pageEnd: pageAt(Math.max(start, end - 1)),
+    };
   }
 
   /**
@@ -940,6 +1005,64 @@ export class RAGService extends EventEmitter {
     }
   }
 
+  /**
+   * Upload a new revision of an existing document. Chunks whose content
+   * hash matches the previous version reuse its embeddings; only changed
+   * chunks are sent to the embedding provider.
+   */
+  public async uploadDocumentVersion(
+    documentId: string,
+    options: DocumentUploadOptions
+  ): Promise<DocumentProcessingResult> {
+    const startTime = Date.now();
+    const cfg = this.config.get();
+
+    try {
+      const latest = await this.getLatestVersion(documentId, options.userId);
+      if (!latest) {
+        throw new RAGError('Document not found', 'NOT_FOUND', 404);
+      }
+
+      if (latest.status === 'pending' || latest.status === 'processing') {
+        throw new RAGError(
+          `Version ${latest.version} is still being processed`,
+          'VERSION_CONFLICT',
+          409,
+          { documentId: latest.id, version: latest.version, status: latest.status }
+        );
+      }
+
+      console.log(
+        `📄 Uploading version ${latest.version + 1} of ${latest.rootDocumentId ?? latest.id}: ${options.file.originalName}`
+      );
+
+      await this.validateDocumentUpload(options);
+
+      const document = await this.createDocumentRecord(options, latest);
+
+      if (options.processingOptions?.autoIndex !== false && cfg.enableAutoIndexing) {
+        this.processDocumentAsync(document.id, options.userId).catch((error) => {
+          console.error(`❌ Background processing failed for ${document.id}:`, error);
+          this.emit('processing-error', { documentId: document.id, error });
+        });
+      }
+
+      return {
+        documentId: document.id,
+        status: 'processing',
+        statistics: {
+          totalChunks: 0,
+          totalEmbeddings: 0,
+          processingTime: Date.now() - startTime,
+        },
+      };
+    } catch (error) {
+      console.error('❌ Document version upload failed:', error);
+      if (error instanceof RAGError) throw error;
+      throw new DocumentProcessingError('Document version upload failed', error);
+    }
+  }
+
   /**
    * Validate document upload
    */
@@ -970,10 +1093,15 @@ export class RAGService extends EventEmitter {
   }
 
   /**
-   * Create document record in database
+   * Create document record in database. A new version inherits title,
+   * description, tags and chunking parameters from the version it replaces.
    */
-  private async createDocumentRecord(options: DocumentUploadOptions): Promise<Document> {
+  private async createDocumentRecord(
+    options: DocumentUploadOptions,
+    versionOf?: Document
+  ): Promise<Document> {
     const cfg = this.config.get();
+    const settings = await this.resolvePipelineSettings(options.userId);
 
     return await this.prisma.document.create({
       data: {
@@ -986,16 +1114,30 @@ export class RAGService extends EventEmitter {
         storageUrl: options.file.storageUrl,
         storageProvider: options.file.storageProvider || 'local',
         storageKey: options.file.storageKey,
-        title: options.metadata?.title || options.file.originalName,
-        description: options.metadata?.description,
-        tags: options.metadata?.tags || [],
+        title: options.metadata?.title || versionOf?.title || options.file.originalName,
+        description: options.metadata?.description ?? versionOf?.description,
+        tags: options.metadata?.tags || versionOf?.tags || [],
         metadata: options.metadata || {},
-        chunkingMethod: options.processingOptions?.chunkingMethod || cfg.defaultChunkingMethod,
-        chunkSize: options.processingOptions?.chunkSize || cfg.defaultChunkSize,
-        chunkOverlap: options.processingOptions?.chunkOverlap || cfg.defaultChunkOverlap,
+        chunkingMethod:
+          options.processingOptions?.chunkingMethod ||
+          versionOf?.chunkingMethod ||
+          cfg.defaultChunkingMethod,
+        // Same chunk boundaries as the previous version keep unchanged text hash-identical
+        chunkSize:
+          options.processingOptions?.chunkSize || versionOf?.chunkSize || settings.chunkSize,
+        chunkOverlap:
+          options.processingOptions?.chunkOverlap ||
+          (versionOf ? versionOf.chunkOverlap : settings.chunkOverlap),
         embeddingModel: options.processingOptions?.embeddingModel || cfg.defaultEmbeddingModel,
         status: 'pending',
         processingStage: 'uploaded',
+        ...(versionOf && {
+          version: versionOf.version + 1,
+          rootDocumentId: versionOf.rootDocumentId ?? versionOf.id,
+          previousVersionId: versionOf.id,
+          // Becomes the latest version once processing completes
+          isLatestVersion: false,
+        }),
       },
     });
   }
@@ -1087,7 +1229,7 @@ export class RAGService extends EventEmitter {
 
     // For now, use placeholder text extraction
     // TODO: Implement actual file parsing based on file type
-    const extractedText = await this.extractTextContent(document);
+    const { text: extractedText, pages } = await this.extractTextContent(document);
 
     await this.prisma.document.update({
       where: { id: documentId },
@@ -1110,14 +1252,22 @@ export class RAGService extends EventEmitter {
       throw new DocumentProcessingError('Document chunking failed');
     }
 
-    if (chunks.length > cfg.maxChunksPerDocument) {
+    const { maxChunksPerDocument } = await this.resolvePipelineSettings(userId);
+    if (chunks.length > maxChunksPerDocument) {
       throw new DocumentProcessingError(
-        `Document exceeds maximum chunks limit (${cfg.maxChunksPerDocument})`
+        `Document exceeds maximum chunks limit (${maxChunksPerDocument})`
       );
     }
 
     console.log(`📦 Created ${chunks.length} chunks for document ${documentId}`);
 
+    // Page anchors for citations (PDFs)
+    const chunkPages = chunks.map((chunk) =>
+      pages ? TextProcessor.pagesForSpan(pages, chunk.startPosition, chunk.endPosition) : {}
+    );
+
+    const chunkHashes = chunks.map((chunk) => documentVersionService.hashContent(chunk.content));
+
     // Save chunks
     const chunkRecords = await Promise.all(
       chunks.map(async (chunk, index) => {
@@ -1127,12 +1277,14 @@ export class RAGService extends EventEmitter {
             userId: userId,
             chunkIndex: index,
             content: chunk.content,
+            contentHash: chunkHashes[index],
             tokenCount: Math.ceil(chunk.content.length / 4), // Rough estimate
             wordCount: TextProcessor.countWords(chunk.content),
             charCount: chunk.content.length,
             startPosition: chunk.startPosition,
             endPosition: chunk.endPosition,
-            metadata: {},
+            pageNumber: chunkPages[index].pageNumber,
+            metadata: chunkPages[index].pageEnd ? { pageEnd: chunkPages[index].pageEnd } : {},
           },
         });
       })
@@ -1140,21 +1292,58 @@ export class RAGService extends EventEmitter {
 
     await this.updateDocumentStatus(documentId, 'processing', 'embedding');
 
-    // Generate embeddings
-    const embeddings = await this.embeddingService.generateBatchEmbeddings(
-      chunks.map((c) => c.content),
-      cfg.embeddingBatchSize
+    // New versions reuse the previous version's embeddings for unchanged chunks
+    const reusable = document.previousVersionId
+      ? await documentVersionService.getReusableEmbeddings(
+          document.previousVersionId,
+          cfg.defaultEmbeddingModel
+        )
+      : new Map<string, ReusableEmbedding>();
+
+    const reused: Array<ReusableEmbedding | undefined> = chunkHashes.map((hash) =>
+      reusable.get(hash)
     );
+    const toEmbed = chunks
+      .map((chunk, index) => ({ content: chunk.content, index }))
+      .filter(({ index }) => !reused[index]);
 
-    if (embeddings.length === 0) {
+    // Generate embeddings
+    const generated =
+      toEmbed.length > 0
+        ? await this.embeddingService.generateBatchEmbeddings(
+            toEmbed.map((c) => c.content),
+            cfg.embeddingBatchSize
+          )
+        : [];
+
+    if (toEmbed.length > 0 && generated.length === 0) {
       throw new DocumentProcessingError('Embedding generation failed');
     }
 
-    console.log(`🧠 Generated ${embeddings.length} embeddings for document ${documentId}`);
+    const embeddings: Array<{
+      embedding: number[];
+      model: string;
+      dimensions: number;
+      reusedFromChunkId?: string;
+    }> = new Array(chunks.length);
+    toEmbed.forEach(({ index }, position) => {
+      embeddings[index] = generated[position];
+    });
+    reused.forEach((embedding, index) => {
+      if (embedding) {
+        embeddings[index] = { ...embedding, reusedFromChunkId: embedding.chunkId };
+      }
+    });
+
+    const reusedCount = chunks.length - toEmbed.length;
+    console.log(
+      `🧠 Generated ${generated.length} embeddings for document ${documentId}` +
+        (reusedCount > 0 ? ` (${reusedCount} reused from previous version)` : '')
+    );
 
     // Save embeddings
     const embeddingRecords = await Promise.all(
-      embeddings.map(async (embedding: any, index: number) => {
+      embeddings.map(async (embedding, index: number) => {
         return this.prisma.documentEmbedding.create({
           data: {
             documentId: document.id,
@@ -1164,6 +1353,9 @@ export class RAGService extends EventEmitter {
             dimensions: embedding.dimensions,
             model: embedding.model,
             provider: 'openai',
+            metadata: embedding.reusedFromChunkId
+              ? { reusedFromChunkId: embedding.reusedFromChunkId }
+              : {},
           },
         });
       })
@@ -1186,7 +1378,7 @@ export class RAGService extends EventEmitter {
 
     // Store in Supabase vector store
     await this.vectorStore.storeVectors(
-      embeddings.map((emb: any, index: number) => ({
+      embeddings.map((emb, index: number) => ({
         id: `${documentId}_${chunkRecords[index].id}`,
         userId: userId,
         documentId: document.id,
@@ -1196,10 +1388,20 @@ export class RAGService extends EventEmitter {
         metadata: {
           documentTitle: document.title,
           chunkIndex: index,
+          pageNumber: chunkPages[index].pageNumber,
         },
       }))
     );
 
+    const versioning = document.previousVersionId
+      ? await this.buildVersionChangeStats(
+          document.previousVersionId,
+          chunkRecords,
+          reusedCount,
+          generated.length
+        )
+      : undefined;
+
     const processingTime = Date.now() - startTime;
 
     await this.prisma.document.update({
@@ -1212,27 +1414,60 @@ export class RAGService extends EventEmitter {
         processedAt: new Date(),
         indexedAt: new Date(),
         processingTime,
+        ...(versioning && {
+          metadata: { ...((document.metadata as object) || {}), versioning: { ...versioning } },
+        }),
       },
     });
 
+    if (document.rootDocumentId) {
+      await this.markLatestVersion(document.id, document.rootDocumentId);
+    }
+
     console.log(`✅ Document processing completed: ${documentId} (${processingTime}ms)`);
   }
 
+  /**
+   * Chunk diff against the previous version, stored on the new version
+   */
+  private async buildVersionChangeStats(
+    previousVersionId: string,
+    chunkRecords: DocumentChunk[],
+    reusedEmbeddings: number,
+    newEmbeddings: number
+  ): Promise<VersionChangeStats> {
+    const previousChunks = await this.prisma.documentChunk.findMany({
+      where: { documentId: previousVersionId },
+      orderBy: { chunkIndex: 'asc' },
+    });
+    const diff = documentVersionService.diffChunks(previousChunks, chunkRecords);
+
+    return {
+      previousVersionId,
+      addedChunks: diff.added.length,
+      removedChunks: diff.removed.length,
+      unchangedChunks: diff.unchanged,
+      reusedEmbeddings,
+      newEmbeddings,
+    };
+  }
+
   /**
    * Extract text content (placeholder - implement based on file type)
    */
   /**
    * Extract text content from document based on file type
    */
-  private async extractTextContent(document: Document): Promise<string> {
+  private async extractTextContent(document: Document): Promise<ExtractedContent> {
     try {
       console.log(`📄 Extracting text from ${document.fileType} file: ${document.originalName}`);
 
       let text = '';
+      let pages: PageSpan[] | undefined;
 
       switch (document.fileType.toLowerCase()) {
         case 'pdf':
-          text = await this.extractFromPDF(document.storageUrl);
+          ({ text, pages } = await this.extractFromPDF(document.storageUrl));
           break;
 
         case 'docx':
@@ -1265,7 +1500,7 @@ export class RAGService extends EventEmitter {
       }
 
       console.log(`✅ Successfully extracted ${text.length} characters`);
-      return text;
+      return { text, pages };
     } catch (error: any) {
       console.error(`❌ Text extraction failed for ${document.originalName}:`, error);
       throw new DocumentProcessingError(
@@ -1276,13 +1511,52 @@ export class RAGService extends EventEmitter {
   }
 
   /**
-   * Extract text from PDF using pdf-parse
+   * Extract text from PDF using pdf-parse, keeping page boundaries.
+   * Pages are joined with a blank line; spans index into the joined text.
    */
-  private async extractFromPDF(storageUrl: string): Promise<string> {
+  private async extractFromPDF(storageUrl: string): Promise<ExtractedContent> {
     try {
       const buffer = await this.downloadFile(storageUrl);
-      const data = await pdfParse(buffer);
-      return data.text;
+      const pageContents: PageContent[] = [];
+
+      await pdfParse(buffer, {
+        // Same line-joining as pdf-parse's default renderer, but per page
+        pagerender: async (pageData: any) => {
+          const textContent = await pageData.getTextContent({
+            normalizeWhitespace: false,
+            disableCombineTextItems: false,
+          });
+
+          let lastY: number | undefined;
+          let pageText = '';
+          for (const item of textContent.items) {
+            pageText +=
+              lastY === item.transform[5] || lastY === undefined ? item.str : `\n${item.str}`;
+            lastY = item.transform[5];
+          }
+
+          pageContents.push({
+            pageNumber: pageData.pageIndex + 1,
+            text: pageText,
+            wordCount: TextProcessor.countWords(pageText),
+          });
+          return pageText;
+        },
+      });
+
+      const pages: PageSpan[] = [];
+      let text = '';
+      for (const page of pageContents) {
+        if (text) text += '\n\n';
+        pages.push({
+          pageNumber: page.pageNumber,
+          start: text.length,
+          end: text.length + page.text.length,
+        });
+        text += page.text;
+      }
+
+      return { text, pages };
     } catch (error: any) {
       throw new DocumentProcessingError(`PDF parsing failed: ${error.message}`, error);
     }
@@ -1440,6 +1714,13 @@ export class RAGService extends EventEmitter {
 
       await this.validateQuery(options, cfg);
 
+      const planTier = options.planTier ?? (await this.getUserPlan(options.userId));
+      const settings = await this.resolvePipelineSettings(options.userId, planTier);
+      const topK = options.topK || settings.topK;
+      const documentIds =
+        options.documentIds ??
+        (options.includeAllVersions ? undefined : await this.getLatestDocumentIds(options.userId));
+
       // If no embedding service, fall back to text search
       if (!this.embeddingService || !this.vectorStore) {
         return await this.fallbackTextSearch(options, startTime);
@@ -1451,9 +1732,9 @@ export class RAGService extends EventEmitter {
 
       const searchStartTime = Date.now();
       const searchResults = await this.vectorStore.searchSimilar(queryEmbedding, options.userId, {
-        topK: options.topK || cfg.defaultTopK,
-        threshold: options.threshold || cfg.defaultSimilarityThreshold,
-        documentIds: options.documentIds,
+        topK,
+        threshold: options.threshold || settings.similarityThreshold,
+        documentIds,
       });
       const searchTime = Date.now() - searchStartTime;
 
@@ -1484,9 +1765,13 @@ export class RAGService extends EventEmitter {
             metadata: {
               documentId: chunk.documentId,
               documentTitle: chunk.document.title || undefined,
+              filename: chunk.document.filename,
               chunkIndex: chunk.chunkIndex,
               pageNumber: chunk.pageNumber || undefined,
+              pageEnd: (chunk.metadata as { pageEnd?: number } | null)?.pageEnd,
               section: chunk.section || undefined,
+              startPosition: chunk.startPosition ?? undefined,
+              endPosition: chunk.endPosition ?? undefined,
             },
           };
         })
@@ -1516,11 +1801,17 @@ export class RAGService extends EventEmitter {
 
       const retrievalTime = Date.now() - startTime;
 
+      // Cited answer (model markers resolved against the retrieved chunks only)
+      const cited =
+        options.generateAnswer !== false && results.length > 0
+          ? await this.generateCitedAnswer({ ...options, planTier }, results)
+          : undefined;
+
       if (cfg.enableQueryLogging) {
         await this.logQuery({
           userId: options.userId,
           query: options.query,
-          topK: options.topK || cfg.defaultTopK,
+          topK,
           threshold: options.threshold,
           resultsFound: results.length,
           resultsReturned: results.length,
@@ -1540,9 +1831,12 @@ export class RAGService extends EventEmitter {
       return {
         chunks: results,
         documents,
+        answer: cited?.answer,
+        citations: cited?.citations,
+        rejectedCitations: cited?.rejectedCitations,
         metadata: {
           totalResults: results.length,
-          processingTime: retrievalTime,
+          processingTime: Date.now() - startTime,
           queryType: 'semantic',
         },
       };
@@ -1553,6 +1847,49 @@ export class RAGService extends EventEmitter {
     }
   }
 
+  /**
+   * Answer over the retrieved chunks with inline [n] citations.
+   * A failed generation doesn't fail the query; the chunks are still returned.
+   */
+  private async generateCitedAnswer(
+    options: DocumentQueryOptions,
+    results: QueryResult['chunks']
+  ): Promise<
+    { answer: string; citations: Citation[]; rejectedCitations: RejectedCitation[] } | undefined
+  > {
+    try {
+      const planTier = options.planTier ?? (await this.getUserPlan(options.userId));
+
+      const sources: CitableSource[] = results.map((result) => ({
+        chunkId: result.id,
+        documentId: result.metadata.documentId,
+        documentTitle: result.metadata.documentTitle,
+        filename: result.metadata.filename,
+        pageNumber: result.metadata.pageNumber,
+        pageEnd: result.metadata.pageEnd,
+        section: result.metadata.section,
+        startOffset: result.metadata.startPosition,
+        endOffset: result.metadata.endPosition,
+        content: result.content,
+      }));
+
+      const { answer, citations, rejectedCitations } = await citationService.generateAnswer(
+        options.query,
+        sources,
+        {
+          planTier,
+          userId: options.userId,
+          multiDocument: new Set(sources.map((source) => source.documentId)).size > 1,
+        }
+      );
+
+      return { answer, citations, rejectedCitations };
+    } catch (error) {
+      console.error('⚠️ Cited answer generation failed:', error);
+      return undefined;
+    }
+  }
+
   /**
    * Fallback text search (when vector search unavailable)
    */
@@ -1566,6 +1903,7 @@ export class RAGService extends EventEmitter {
       where: {
         userId: options.userId,
         ...(options.documentIds && { id: { in: options.documentIds } }),
+        ...(!options.documentIds && !options.includeAllVersions && { isLatestVersion: true }),
         status: 'completed',
         OR: [
           { title: { contains: options.query, mode: 'insensitive' } },
@@ -1675,12 +2013,14 @@ export class RAGService extends EventEmitter {
       fileType?: string[];
       limit?: number;
       offset?: number;
+      includeAllVersions?: boolean;
     }
   ): Promise<Document[]> {
     try {
       return await this.prisma.document.findMany({
         where: {
           userId,
+          ...(!options?.includeAllVersions && { isLatestVersion: true }),
           ...(options?.status && { status: { in: options.status } }),
           ...(options?.fileType && { fileType: { in: options.fileType } }),
         },
@@ -1736,6 +2076,21 @@ export class RAGService extends EventEmitter {
         where: { id: documentId },
       });
 
+      // Deleting the latest version promotes the newest remaining one
+      const rootDocumentId = document.rootDocumentId ?? document.id;
+      if (document.isLatestVersion) {
+        const successor = await this.prisma.document.findFirst({
+          where: { userId, status: 'completed', OR: [{ id: rootDocumentId }, { rootDocumentId }] },
+          orderBy: { version: 'desc' },
+        });
+        if (successor) {
+          await this.prisma.document.update({
+            where: { id: successor.id },
+            data: { isLatestVersion: true },
+          });
+        }
+      }
+
       this.emit('document-deleted', { documentId, userId });
       console.log(`✅ Document deleted: ${documentId}`);
     } catch (error) {
@@ -1745,6 +2100,166 @@ export class RAGService extends EventEmitter {
     }
   }
 
+  /**
+   * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+   * DOCUMENT VERSIONING
+   * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+   * Versions of a document share rootDocumentId (the id of version 1).
+   * Each version is a full Document with its own chunks; queries search
+   * the latest completed version unless documentIds name another one.
+   */
+
+  /**
+   * All versions of the document's group, oldest first
+   */
+  public async getDocumentVersions(documentId: string, userId: string): Promise<Document[]> {
+    const document = await this.prisma.document.findFirst({
+      where: { id: documentId, userId },
+    });
+
+    if (!document) {
+      throw new RAGError('Document not found or access denied', 'NOT_FOUND', 404);
+    }
+
+    const rootDocumentId = document.rootDocumentId ?? document.id;
+
+    return await this.prisma.document.findMany({
+      where: { userId, OR: [{ id: rootDocumentId }, { rootDocumentId }] },
+      orderBy: { version: 'asc' },
+    });
+  }
+
+  /**
+   * What changed between two versions: added/removed chunks by content
+   * hash, plus an optional model-written summary
+   */
+  public async compareDocumentVersions(
+    documentId: string,
+    userId: string,
+    options: DocumentVersionCompareOptions = {}
+  ): Promise<DocumentVersionDiff> {
+    const versions = await this.getDocumentVersions(documentId, userId);
+    const latest = versions[versions.length - 1];
+
+    const toVersion = options.toVersion ?? latest.version;
+    const fromVersion = options.fromVersion ?? toVersion - 1;
+
+    if (fromVersion === toVersion) {
+      throw new RAGError('fromVersion and toVersion must differ', 'INVALID_VERSION_RANGE', 400);
+    }
+
+    const from = versions.find((v) => v.version === fromVersion);
+    const to = versions.find((v) => v.version === toVersion);
+
+    if (!from || !to) {
+      throw new RAGError(
+        `Version ${!from ? fromVersion : toVersion} not found`,
+        'VERSION_NOT_FOUND',
+        404,
+        { available: versions.map((v) => v.version) }
+      );
+    }
+
+    for (const version of [from, to]) {
+      if (version.status !== 'completed') {
+        throw new RAGError(
+          `Version ${version.version} is not processed yet`,
+          'VERSION_NOT_READY',
+          409,
+          { documentId: version.id, status: version.status }
+        );
+      }
+    }
+
+    const [fromChunks, toChunks] = await Promise.all(
+      [from.id, to.id].map((id) =>
+        this.prisma.documentChunk.findMany({
+          where: { documentId: id },
+          orderBy: { chunkIndex: 'asc' },
+        })
+      )
+    );
+
+    const diff = documentVersionService.diffChunks(fromChunks, toChunks);
+
+    const result: DocumentVersionDiff = {
+      rootDocumentId: to.rootDocumentId ?? to.id,
+      from: { documentId: from.id, version: from.version },
+      to: { documentId: to.id, version: to.version },
+      stats: { added: diff.added.length, removed: diff.removed.length, unchanged: diff.unchanged },
+      added: diff.added,
+      removed: diff.removed,
+    };
+
+    if (options.summarize || options.question) {
+      try {
+        result.summary = await documentVersionService.summarizeChanges(result, {
+          question: options.question,
+          planTier: options.planTier ?? (await this.getUserPlan(userId)),
+          userId,
+        });
+      } catch (error) {
+        console.error('⚠️ Version change summary failed:', error);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Latest version of the group the document belongs to
+   */
+  private async getLatestVersion(documentId: string, userId: string): Promise<Document | null> {
+    const document = await this.prisma.document.findFirst({
+      where: { id: documentId, userId },
+    });
+
+    if (!document) return null;
+
+    const rootDocumentId = document.rootDocumentId ?? document.id;
+
+    return await this.prisma.document.findFirst({
+      where: { userId, OR: [{ id: rootDocumentId }, { rootDocumentId }] },
+      orderBy: { version: 'desc' },
+    });
+  }
+
+  /**
+   * Make a freshly processed version the one that queries and listings use
+   */
+  private async markLatestVersion(documentId: string, rootDocumentId: string): Promise<void> {
+    await this.prisma.$transaction([
+      this.prisma.document.updateMany({
+        where: {
+          OR: [{ id: rootDocumentId }, { rootDocumentId }],
+          id: { not: documentId },
+        },
+        data: { isLatestVersion: false },
+      }),
+      this.prisma.document.update({
+        where: { id: documentId },
+        data: { isLatestVersion: true },
+      }),
+    ]);
+  }
+
+  /**
+   * Ids to restrict a search to when the user has superseded versions;
+   * undefined (no restriction) otherwise
+   */
+  private async getLatestDocumentIds(userId: string): Promise<string[] | undefined> {
+    const superseded = await this.prisma.document.count({
+      where: { userId, isLatestVersion: false },
+    });
+    if (superseded === 0) return undefined;
+
+    const latest = await this.prisma.document.findMany({
+      where: { userId, isLatestVersion: true },
+      select: { id: true },
+    });
+    return latest.map((doc) => doc.id);
+  }
+
   /**
    * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
    * STATISTICS & HEALTH
@@ -1879,6 +2394,57 @@ export class RAGService extends EventEmitter {
   /**
    * Sleep utility
    */
+  /**
+   * User's plan type (used to pick plan-scoped configuration and models)
+   */
+  private async getUserPlan(userId: string): Promise<string | undefined> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { planType: true },
+    });
+    return user?.planType;
+  }
+
+  /**
+   * Env defaults overlaid with rag_configurations for this user
+   * (global → plan → user). Looks the plan up when not given.
+   */
+  private async resolvePipelineSettings(
+    userId: string,
+    planTier?: string
+  ): Promise<PipelineSettings> {
+    const cfg = this.config.get();
+    const context = { userId, planTier: planTier ?? (await this.getUserPlan(userId)) };
+
+    const [chunkSize, chunkOverlap, maxChunksPerDocument, topK, similarityThreshold] =
+      await Promise.all([
+        ragConfigService.getNumber(RAG_CONFIG_KEYS.CHUNK_SIZE, cfg.defaultChunkSize, context),
+        ragConfigService.getNumber(RAG_CONFIG_KEYS.CHUNK_OVERLAP, cfg.defaultChunkOverlap, context),
+        ragConfigService.getNumber(
+          RAG_CONFIG_KEYS.MAX_CHUNKS_PER_DOCUMENT,
+          cfg.maxChunksPerDocument,
+          context
+        ),
+        ragConfigService.getNumber(RAG_CONFIG_KEYS.RETRIEVAL_TOP_K, cfg.defaultTopK, context),
+        ragConfigService.getNumber(
+          RAG_CONFIG_KEYS.RETRIEVAL_SIMILARITY_THRESHOLD,
+          cfg.defaultSimilarityThreshold,
+          context
+        ),
+      ]);
+
+    const size = Math.max(1, Math.round(chunkSize));
+
+    return {
+      chunkSize: size,
+      // Overlap must stay below the chunk size or chunking never advances
+      chunkOverlap: Math.min(Math.max(0, Math.round(chunkOverlap)), size - 1),
+      maxChunksPerDocument: Math.max(1, Math.round(maxChunksPerDocument)),
+      topK: Math.max(1, Math.round(topK)),
+      similarityThreshold: Math.min(Math.max(similarityThreshold, 0), 1),
+    };
+  }
+
   private sleep(ms: number): Promise<void> {
     return new Promise((resolve) => setTimeout(resolve, ms));
   }
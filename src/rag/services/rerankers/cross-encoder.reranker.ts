@@ -0,0 +1,114 @@
+/**
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ * SORIVA AI - CROSS-ENCODER RERANKER
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ * Purpose: Local (query, passage) relevance scoring with an ONNX
+ *          cross-encoder via transformers.js - no API calls
+ * Model:   Xenova/ms-marco-MiniLM-L-6-v2 (logit → sigmoid, 0-1)
+ *          loaded from the same directory as the local embedding model
+ * Env:
+ *   LOCAL_RERANKER_MODEL   Hugging Face model id (ONNX export)
+ *   (LOCAL_EMBEDDING_MODEL_DIR / LOCAL_EMBEDDING_ALLOW_DOWNLOAD are shared)
+ * Setup:   npm run embeddings:download -- --with-reranker
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ */
+
+import type { PreTrainedModel, PreTrainedTokenizer } from '@huggingface/transformers';
+import { logger } from '@shared/utils/logger';
+import localEmbeddingProvider, { loadTransformers } from '../local-embedding.provider';
+import { RerankCandidate, RerankContext, Reranker } from './types';
+
+export const DEFAULT_LOCAL_RERANKER_MODEL = 'Xenova/ms-marco-MiniLM-L-6-v2';
+
+const BATCH_SIZE = 16;
+const MAX_SEQUENCE_LENGTH = 512;
+
+interface LoadedCrossEncoder {
+  tokenizer: PreTrainedTokenizer;
+  model: PreTrainedModel;
+}
+
+export class CrossEncoderReranker implements Reranker {
+  public readonly strategy = 'cross-encoder' as const;
+  public readonly includesRetrievalScore = false;
+  public readonly model: string;
+
+  private loaded: Promise<LoadedCrossEncoder> | null = null;
+
+  constructor(model: string = process.env.LOCAL_RERANKER_MODEL || DEFAULT_LOCAL_RERANKER_MODEL) {
+    this.model = model;
+  }
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // MODEL LOADING
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  private getModel(): Promise<LoadedCrossEncoder> {
+    if (!this.loaded) {
+      this.loaded = this.loadModel().catch((error) => {
+        this.loaded = null;
+        throw error;
+      });
+    }
+    return this.loaded;
+  }
+
+  private async loadModel(): Promise<LoadedCrossEncoder> {
+    const startTime = Date.now();
+    const { modelDir, allowDownload, threads } = localEmbeddingProvider.getConfig();
+    const { AutoTokenizer, AutoModelForSequenceClassification } = await loadTransformers({
+      modelDir,
+      allowDownload,
+    });
+
+    try {
+      const [tokenizer, model] = await Promise.all([
+        AutoTokenizer.from_pretrained(this.model, { local_files_only: !allowDownload }),
+        AutoModelForSequenceClassification.from_pretrained(this.model, {
+          dtype: 'q8',
+          local_files_only: !allowDownload,
+          session_options: threads ? { intraOpNumThreads: threads } : undefined,
+        }),
+      ]);
+
+      logger.success(`[Reranker] Loaded ${this.model} in ${Date.now() - startTime}ms`);
+      return { tokenizer, model };
+    } catch (error: any) {
+      throw new Error(
+        `Cross-encoder ${this.model} could not be loaded from ${modelDir}` +
+          (allowDownload
+            ? `: ${error.message}`
+            : ' (run "npm run embeddings:download -- --with-reranker" or set LOCAL_EMBEDDING_ALLOW_DOWNLOAD=true)')
+      );
+    }
+  }
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // SCORING
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  public async rerank(candidates: RerankCandidate[], context: RerankContext): Promise<number[]> {
+    if (candidates.length === 0) return [];
+
+    const { tokenizer, model } = await this.getModel();
+    const scores: number[] = [];
+
+    for (let i = 0; i < candidates.length; i += BATCH_SIZE) {
+      const passages = candidates
+        .slice(i, i + BATCH_SIZE)
+        .map((candidate) => candidate.text || ' ');
+      const inputs = tokenizer(new Array(passages.length).fill(context.query), {
+        text_pair: passages,
+        padding: true,
+        truncation: true,
+        max_length: MAX_SEQUENCE_LENGTH,
+      });
+
+      const { logits } = await model(inputs);
+      const rows = logits.tolist() as number[][];
+      scores.push(...rows.map((row) => 1 / (1 + Math.exp(-row[0]))));
+    }
+
+    return scores;
+  }
+}
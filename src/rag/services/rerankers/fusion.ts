@@ -0,0 +1,58 @@
+/**
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ * SORIVA AI - RECIPROCAL RANK FUSION
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ * Purpose: Merge ranked lists (vector, keyword) by rank instead of raw
+ *          score, so lists with incomparable score scales fuse cleanly
+ * Formula: rrf(d) = Σ weight_i / (k + rank_i(d)), ranks start at 1
+ *          normalized by the best possible score (rank 1 in every list)
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ */
+
+export const DEFAULT_RRF_K = 60;
+
+export interface RankedList<T extends { id: string }> {
+  name: string;
+  items: T[];
+  weight?: number;
+}
+
+export interface FusedItem<T> {
+  id: string;
+  item: T;
+  /** Raw RRF sum */
+  rrfScore: number;
+  /** rrfScore / best achievable score, 0-1 */
+  score: number;
+  /** 1-based rank per list the item appeared in */
+  ranks: Record<string, number>;
+}
+
+/**
+ * Fuse ranked lists. When an id appears in several lists, the item from the
+ * first list wins (vector hits carry the richest metadata).
+ */
+export function reciprocalRankFusion<T extends { id: string }>(
+  lists: RankedList<T>[],
+  k: number = DEFAULT_RRF_K
+): FusedItem<T>[] {
+  const fused = new Map<string, FusedItem<T>>();
+  const maxScore = lists.reduce((sum, list) => sum + (list.weight ?? 1) / (k + 1), 0);
+
+  for (const list of lists) {
+    const weight = list.weight ?? 1;
+
+    list.items.forEach((item, index) => {
+      const rank = index + 1;
+      const entry = fused.get(item.id) ?? { id: item.id, item, rrfScore: 0, score: 0, ranks: {} };
+
+      entry.rrfScore += weight / (k + rank);
+      entry.ranks[list.name] = rank;
+      fused.set(item.id, entry);
+    });
+  }
+
+  return Array.from(fused.values())
+    .map((entry) => ({ ...entry, score: maxScore > 0 ? entry.rrfScore / maxScore : 0 }))
+    .sort((a, b) => b.rrfScore - a.rrfScore);
+}
@@ -0,0 +1,53 @@
+/**
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ * SORIVA AI - HEURISTIC RERANKER
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ * Purpose: Zero-cost reranking from keyword overlap + match position,
+ *          blended with the retrieval score (the original retriever logic)
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ */
+
+import { RerankCandidate, RerankContext, Reranker } from './types';
+
+export interface HeuristicWeights {
+  vectorScore: number;
+  keywordOverlap: number;
+  positionScore: number;
+}
+
+export class HeuristicReranker implements Reranker {
+  public readonly strategy = 'heuristic' as const;
+  public readonly model = 'keyword-overlap';
+  public readonly includesRetrievalScore = true;
+
+  constructor(
+    private weights: HeuristicWeights,
+    private extractKeywords: (text: string) => string[]
+  ) {}
+
+  public async rerank(candidates: RerankCandidate[], context: RerankContext): Promise<number[]> {
+    const queryLower = context.query.toLowerCase();
+    const queryWords = new Set(this.extractKeywords(context.query));
+
+    return candidates.map((candidate) => {
+      const text = candidate.text.toLowerCase();
+
+      // Keyword overlap
+      const textWords = this.extractKeywords(text);
+      const overlap = textWords.filter((word) => queryWords.has(word)).length;
+      const overlapScore = queryWords.size > 0 ? overlap / queryWords.size : 0;
+
+      // Position score (prefer earlier matches)
+      const firstMatchIndex = text.indexOf(queryLower);
+      const positionScore =
+        firstMatchIndex === -1 ? 0 : Math.max(0, 1 - firstMatchIndex / text.length);
+
+      const score =
+        candidate.score * this.weights.vectorScore +
+        overlapScore * this.weights.keywordOverlap +
+        positionScore * this.weights.positionScore;
+
+      return Math.min(score, 1.0);
+    });
+  }
+}
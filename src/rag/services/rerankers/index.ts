@@ -0,0 +1,52 @@
+/**
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ * SORIVA AI - RERANKERS
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ * Purpose: Reranker registry + barrel export
+ * Strategies:
+ *   heuristic      Keyword overlap + position (no model)
+ *   cross-encoder  Local ONNX cross-encoder (LOCAL_RERANKER_MODEL)
+ *   llm            Plan chat model as relevance judge
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ */
+
+import { CrossEncoderReranker } from './cross-encoder.reranker';
+import { HeuristicReranker, HeuristicWeights } from './heuristic.reranker';
+import { LLMReranker } from './llm.reranker';
+import { Reranker, RerankerStrategy } from './types';
+
+/**
+ * Model-backed rerankers are created once per process (the cross-encoder
+ * holds an ONNX session); the heuristic one is cheap and built per call
+ * so it always sees the current weights.
+ */
+const modelRerankers = new Map<RerankerStrategy, Reranker>();
+
+export function getReranker(
+  strategy: Exclude<RerankerStrategy, 'none'>,
+  options: { weights: HeuristicWeights; extractKeywords: (text: string) => string[] }
+): Reranker {
+  switch (strategy) {
+    case 'heuristic':
+      return new HeuristicReranker(options.weights, options.extractKeywords);
+    case 'cross-encoder':
+    case 'llm': {
+      let reranker = modelRerankers.get(strategy);
+      if (!reranker) {
+        reranker = strategy === 'llm' ? new LLMReranker() : new CrossEncoderReranker();
+        modelRerankers.set(strategy, reranker);
+      }
+      return reranker;
+    }
+    default:
+      throw new Error(`Unsupported reranker: ${strategy}`);
+  }
+}
+
+export { CrossEncoderReranker, DEFAULT_LOCAL_RERANKER_MODEL } from './cross-encoder.reranker';
+export { HeuristicReranker } from './heuristic.reranker';
+export type { HeuristicWeights } from './heuristic.reranker';
+export { LLMReranker } from './llm.reranker';
+export { reciprocalRankFusion, DEFAULT_RRF_K } from './fusion';
+export type { FusedItem, RankedList } from './fusion';
+export * from './types';
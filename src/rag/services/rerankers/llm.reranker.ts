@@ -0,0 +1,102 @@
+/**
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ * SORIVA AI - LLM JUDGE RERANKER
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ * Purpose: Asks the plan's chat model to grade each passage 0-10
+ *          for the query (one call per rerank, via ProviderFactory
+ *          so plan routing + fallback apply)
+ * Cost: One request with every candidate passage (truncated)
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ */
+
+import { PlanType } from '@prisma/client';
+import { MessageRole, ProviderFactory } from '../../../core/ai/providers';
+import { isValidPlanType } from '../../../constants';
+import { RerankCandidate, RerankContext, Reranker } from './types';
+
+const MAX_PASSAGE_CHARS = 1200;
+const MAX_OUTPUT_TOKENS = 400;
+
+const SYSTEM_PROMPT = `You are a search relevance judge. Grade how well each passage answers the user's query.
+Scale: 0 = unrelated, 5 = partially relevant, 10 = directly answers the query.
+Respond with JSON only, in the form {"scores":[<one integer per passage, in passage order>]}.`;
+
+export class LLMReranker implements Reranker {
+  public readonly strategy = 'llm' as const;
+  public readonly model = 'plan-chat-model';
+  public readonly includesRetrievalScore = false;
+
+  private factory: ProviderFactory;
+
+  constructor(private defaultPlan: PlanType = PlanType.STARTER) {
+    this.factory = ProviderFactory.getInstance({
+      googleApiKey: process.env.GOOGLE_API_KEY,
+      mistralApiKey: process.env.MISTRAL_API_KEY,
+      openrouterApiKey: process.env.OPENROUTER_API_KEY,
+    });
+  }
+
+  public async rerank(candidates: RerankCandidate[], context: RerankContext): Promise<number[]> {
+    if (candidates.length === 0) return [];
+
+    if (!this.factory.isInitialized()) {
+      await this.factory.initialize();
+    }
+
+    const plan =
+      context.planTier && isValidPlanType(context.planTier.toUpperCase())
+        ? (context.planTier.toUpperCase() as PlanType)
+        : this.defaultPlan;
+    const planConfig = this.factory.getPlanConfig(plan);
+    if (!planConfig) {
+      throw new Error(`No provider configured for plan ${plan}`);
+    }
+
+    const passages = candidates
+      .map(
+        (candidate, index) =>
+          `[${index + 1}] ${candidate.text.replace(/\s+/g, ' ').slice(0, MAX_PASSAGE_CHARS)}`
+      )
+      .join('\n\n');
+
+    const response = await this.factory.executeWithFallback(plan, {
+      model: planConfig.primaryModel,
+      messages: [
+        { role: MessageRole.SYSTEM, content: SYSTEM_PROMPT },
+        {
+          role: MessageRole.USER,
+          content: `Query: ${context.query}\n\nPassages (${candidates.length}):\n\n${passages}`,
+        },
+      ],
+      temperature: 0,
+      maxTokens: MAX_OUTPUT_TOKENS,
+    });
+
+    return this.parseScores(response.content, candidates.length);
+  }
+
+  /**
+   * Accepts {"scores":[...]} or a bare array, optionally wrapped in prose
+   * or a code fence. Throws unless there is exactly one score per passage.
+   */
+  private parseScores(content: string, expected: number): number[] {
+    const match = content.match(/\{[\s\S]*\}|\[[\s\S]*\]/);
+    if (!match) {
+      throw new Error('LLM reranker returned no JSON');
+    }
+
+    const parsed = JSON.parse(match[0]);
+    const scores: unknown = Array.isArray(parsed) ? parsed : parsed?.scores;
+
+    if (!Array.isArray(scores) || scores.length !== expected) {
+      throw new Error(
+        `LLM reranker returned ${Array.isArray(scores) ? scores.length : 0} scores, expected ${expected}`
+      );
+    }
+
+    return scores.map((score) => {
+      const value = Number(score);
+      return Number.isFinite(value) ? Math.max(0, Math.min(value, 10)) / 10 : 0;
+    });
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ * SORIVA AI - RERANKER TYPES
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ * Purpose: Contract shared by every second-stage reranker
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ */
+
+export type RerankerStrategy = 'none' | 'heuristic' | 'cross-encoder' | 'llm';
+
+export const RERANKER_STRATEGIES: readonly RerankerStrategy[] = [
+  'none',
+  'heuristic',
+  'cross-encoder',
+  'llm',
+];
+
+export interface RerankCandidate {
+  id: string;
+  text: string;
+  /** Score from the retrieval stage (vector similarity or fused score), 0-1 */
+  score: number;
+}
+
+export interface RerankContext {
+  query: string;
+  planTier?: string;
+}
+
+export interface Reranker {
+  readonly strategy: Exclude<RerankerStrategy, 'none'>;
+  /** Model (or method) name reported in score breakdowns */
+  readonly model: string;
+  /**
+   * True when the returned scores already blend in the retrieval score,
+   * so the retriever uses them as-is instead of mixing them again
+   */
+  readonly includesRetrievalScore: boolean;
+  /**
+   * Relevance of each candidate to the query (0-1), in candidate order
+   */
+  rerank(candidates: RerankCandidate[], context: RerankContext): Promise<number[]>;
+}
@@ -15,6 +15,14 @@ import VectorStoreService, { QueryResult, QueryRequest } from './vector-store.se
 import EmbeddingService from './embedding.service';
 import { logger } from '@shared/utils/logger';
 import { PrismaClient } from '@prisma/client';
+import ragConfigService, { RAG_CONFIG_KEYS, RAGConfigContext } from './rag-config.service';
+import {
+  DEFAULT_RRF_K,
+  RERANKER_STRATEGIES,
+  RerankerStrategy,
+  getReranker,
+  reciprocalRankFusion,
+} from './rerankers';
 
 const prisma = new PrismaClient();
 
@@ -32,6 +40,7 @@ export interface RetrievalRequest {
   rerank?: boolean;
   hybridSearch?: boolean;
   conversationHistory?: ConversationMessage[];
+  planTier?: string; // Selects per-plan ranking config from rag_configurations
 }
 
 export interface ConversationMessage {
@@ -45,6 +54,24 @@ export interface RetrievedChunk {
   score: number;
   metadata: ChunkMetadata;
   rerankedScore?: number;
+  scoreBreakdown?: ScoreBreakdown;
+}
+
+/**
+ * Per-stage scores explaining why a chunk was chosen.
+ * Ranks are 1-based positions within that stage's result list.
+ */
+export interface ScoreBreakdown {
+  vector?: { score: number; rank: number };
+  keyword?: { score: number; rank: number };
+  fusion?: { method: HybridFusion; score: number; rrfScore?: number; k?: number };
+  rerank?: {
+    strategy: RerankerStrategy;
+    model: string;
+    score: number;
+    fallbackFrom?: RerankerStrategy;
+  };
+  final: number;
 }
 
 export interface ChunkMetadata {
@@ -63,6 +90,23 @@ export interface RetrievalResult {
   retrievalTime: number;
   method: 'semantic' | 'hybrid' | 'keyword';
   cached: boolean;
+  ranking?: RankingSettings;
+}
+
+export type HybridFusion = 'rrf' | 'weighted';
+
+/**
+ * Ranking knobs resolved per request: env defaults, overridden by
+ * rag_configurations rows (global, then the request's plan, then its user)
+ */
+export interface RankingSettings {
+  reranker: RerankerStrategy;
+  rerankCandidates: number;
+  rerankScoreWeight: number;
+  fusion: HybridFusion;
+  rrfK: number;
+  vectorWeight: number;
+  keywordWeight: number;
 }
 
 export interface RetrievalConfig {
@@ -79,6 +123,7 @@ export interface RetrievalConfig {
     keywordOverlap: number;
     positionScore: number;
   };
+  ranking: RankingSettings;
 }
 
 export interface ContextWindow {
@@ -114,6 +159,15 @@ interface CacheEntry {
   accessCount: number;
 }
 
+/**
+ * A retrieval hit plus the score trail it has accumulated so far
+ */
+interface ScoredResult extends QueryResult {
+  breakdown: ScoreBreakdown;
+}
+
+const HYBRID_FUSIONS: readonly HybridFusion[] = ['rrf', 'weighted'];
+
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 // RETRIEVER SERVICE (100% DYNAMIC, CLASS-BASED, SECURED)
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
@@ -135,6 +189,15 @@ export class RetrieverService {
       keywordOverlap: 0.3,
       positionScore: 0.1,
     },
+    ranking: {
+      reranker: 'heuristic',
+      rerankCandidates: 20,
+      rerankScoreWeight: 0.8,
+      fusion: 'rrf',
+      rrfK: DEFAULT_RRF_K,
+      vectorWeight: 1,
+      keywordWeight: 1,
+    },
   };
 
   private vectorStore: typeof VectorStoreService;
@@ -220,6 +283,24 @@ export class RetrieverService {
       enableCaching: this.parseEnvBool('RAG_ENABLE_CACHING', this.config.enableCaching),
       enableReranking: this.parseEnvBool('RAG_ENABLE_RERANKING', this.config.enableReranking),
       enableHybridSearch: this.parseEnvBool('RAG_ENABLE_HYBRID', this.config.enableHybridSearch),
+      ranking: {
+        ...this.config.ranking,
+        reranker: this.parseEnvChoice(
+          'RAG_RERANKER',
+          RERANKER_STRATEGIES,
+          this.config.ranking.reranker
+        ),
+        rerankCandidates: this.parseEnvInt(
+          'RAG_RERANK_CANDIDATES',
+          this.config.ranking.rerankCandidates
+        ),
+        fusion: this.parseEnvChoice(
+          'RAG_HYBRID_FUSION',
+          HYBRID_FUSIONS,
+          this.config.ranking.fusion
+        ),
+        rrfK: this.parseEnvInt('RAG_RRF_K', this.config.ranking.rrfK),
+      },
     };
 
     this.config = { ...this.config, ...envConfig };
@@ -241,6 +322,73 @@ export class RetrieverService {
     return value !== undefined ? value === 'true' : defaultValue;
   }
 
+  private parseEnvChoice<T extends string>(key: string, allowed: readonly T[], defaultValue: T): T {
+    const value = process.env[key] as T | undefined;
+    return value && allowed.includes(value) ? value : defaultValue;
+  }
+
+  /**
+   * Env/defaults overlaid with rag_configurations (user row, then plan row,
+   * then global row)
+   */
+  private async resolveRankingSettings(context: RAGConfigContext): Promise<RankingSettings> {
+    const defaults = this.config.ranking;
+
+    const [
+      reranker,
+      rerankCandidates,
+      rerankScoreWeight,
+      fusion,
+      rrfK,
+      vectorWeight,
+      keywordWeight,
+    ] = await Promise.all([
+      ragConfigService.getString(
+        RAG_CONFIG_KEYS.RERANKER_STRATEGY,
+        defaults.reranker,
+        context,
+        RERANKER_STRATEGIES
+      ),
+      ragConfigService.getNumber(
+        RAG_CONFIG_KEYS.RERANKER_CANDIDATES,
+        defaults.rerankCandidates,
+        context
+      ),
+      ragConfigService.getNumber(
+        RAG_CONFIG_KEYS.RERANKER_SCORE_WEIGHT,
+        defaults.rerankScoreWeight,
+        context
+      ),
+      ragConfigService.getString(
+        RAG_CONFIG_KEYS.HYBRID_FUSION,
+        defaults.fusion,
+        context,
+        HYBRID_FUSIONS
+      ),
+      ragConfigService.getNumber(RAG_CONFIG_KEYS.HYBRID_RRF_K, defaults.rrfK, context),
+      ragConfigService.getNumber(
+        RAG_CONFIG_KEYS.HYBRID_VECTOR_WEIGHT,
+        defaults.vectorWeight,
+        context
+      ),
+      ragConfigService.getNumber(
+        RAG_CONFIG_KEYS.HYBRID_KEYWORD_WEIGHT,
+        defaults.keywordWeight,
+        context
+      ),
+    ]);
+
+    return {
+      reranker,
+      rerankCandidates: Math.max(1, Math.round(rerankCandidates)),
+      rerankScoreWeight: Math.min(Math.max(rerankScoreWeight, 0), 1),
+      fusion,
+      rrfK: Math.max(0, rrfK),
+      vectorWeight: Math.max(0, vectorWeight),
+      keywordWeight: Math.max(0, keywordWeight),
+    };
+  }
+
   public updateConfig(config: Partial<RetrievalConfig>): void {
     this.config = { ...this.config, ...config };
     logger.info('[Retriever] Configuration updated dynamically');
@@ -287,36 +435,48 @@ export class RetrieverService {
       });
       const queryEmbedding = embeddingResult.vector;
 
-      // Step 5: Perform vector search
-      let results = await this.performVectorSearch(
+      // Step 5: Resolve ranking settings (per plan) and candidate pool size
+      const ranking = await this.resolveRankingSettings({
+        planTier: request.planTier,
+        userId: request.userId,
+      });
+      const topK = request.topK || this.config.defaultTopK;
+      const reranking = this.shouldUseReranking(request) && ranking.reranker !== 'none';
+      const candidatePool = reranking ? Math.max(topK, ranking.rerankCandidates) : topK;
+
+      // Step 6: Perform vector search
+      const vectorResults = await this.performVectorSearch(
         queryEmbedding,
         request.userId,
         request.documentId,
-        request.topK
+        candidatePool
       );
 
-      // Step 6: Filter by minimum score
-      results = this.filterByScore(results, request.minScore);
+      // Step 7: Filter by minimum score
+      let results = this.toScoredResults(this.filterByScore(vectorResults, request.minScore));
 
-      // Step 7: Apply hybrid search if enabled
+      // Step 8: Apply hybrid search if enabled
       if (this.shouldUseHybridSearch(request)) {
         results = await this.applyHybridSearch(
           request.query,
           results,
           request.userId,
+          ranking,
+          candidatePool,
           request.documentId
         );
       }
 
-      // Step 8: Apply re-ranking if enabled
-      if (this.shouldUseReranking(request)) {
-        results = await this.applyReranking(request.query, results);
+      // Step 9: Apply re-ranking if enabled, then keep the top K
+      if (reranking) {
+        results = await this.applyReranking(request.query, results, ranking, request.planTier);
       }
+      results = results.slice(0, topK);
 
-      // Step 9: Format results into chunks
+      // Step 10: Format results into chunks
       const chunks = await this.formatChunks(results, request.includeMetadata);
 
-      // Step 10: Build final result
+      // Step 11: Build final result
       const result: RetrievalResult = {
         chunks,
         totalFound: results.length,
@@ -324,14 +484,15 @@ export class RetrieverService {
         retrievalTime: Date.now() - startTime,
         method: this.determineMethod(request),
         cached: false,
+        ranking,
       };
 
-      // Step 11: Cache the result
+      // Step 12: Cache the result
       if (this.config.enableCaching) {
         this.addToCache(request, result);
       }
 
-      // Step 12: Track statistics
+      // Step 13: Track statistics
       this.stats.retrievalTimes.push(result.retrievalTime);
 
       logger.success(`[Retriever] Retrieved ${chunks.length} chunks in ${result.retrievalTime}ms`);
@@ -368,6 +529,13 @@ export class RetrieverService {
     return results.filter((r) => r.score >= threshold);
   }
 
+  private toScoredResults(results: QueryResult[]): ScoredResult[] {
+    return results.map((result, index) => ({
+      ...result,
+      breakdown: { vector: { score: result.score, rank: index + 1 }, final: result.score },
+    }));
+  }
+
   // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
   // HYBRID SEARCH (SEMANTIC + KEYWORD)
   // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
@@ -378,12 +546,14 @@ export class RetrieverService {
 
   private async applyHybridSearch(
     query: string,
-    vectorResults: QueryResult[],
+    vectorResults: ScoredResult[],
     userId: string,
+    ranking: RankingSettings,
+    limit: number,
     documentId?: string
-  ): Promise<QueryResult[]> {
+  ): Promise<ScoredResult[]> {
     try {
-      logger.info('[Retriever] Applying hybrid search...');
+      logger.info(`[Retriever] Applying hybrid search (${ranking.fusion})...`);
 
       // Extract keywords from query
       const keywords = this.extractKeywords(query);
@@ -394,10 +564,17 @@ export class RetrieverService {
       }
 
       // Perform keyword search
-      const keywordResults = await this.performKeywordSearch(keywords, userId, documentId);
+      const keywordResults = await this.performKeywordSearch(keywords, userId, limit, documentId);
+
+      if (keywordResults.length === 0) {
+        return vectorResults;
+      }
 
       // Merge and deduplicate results
-      const merged = this.mergeResults(vectorResults, keywordResults);
+      const merged =
+        ranking.fusion === 'rrf'
+          ? this.fuseResults(vectorResults, keywordResults, ranking)
+          : this.mergeResults(vectorResults, keywordResults);
 
       logger.success(`[Retriever] Hybrid search: ${merged.length} combined results`);
 
@@ -417,49 +594,96 @@ export class RetrieverService {
       .slice(0, 10); // Limit to 10 keywords
   }
 
+  /**
+   * Chunks containing any keyword, ranked by the share of keywords they contain
+   */
   private async performKeywordSearch(
     keywords: string[],
     userId: string,
+    limit: number,
     documentId?: string
-  ): Promise<QueryResult[]> {
+  ): Promise<ScoredResult[]> {
     try {
-      const where: any = {
-        userId,
-        OR: keywords.map((keyword) => ({
-          text: {
-            contains: keyword,
-            mode: 'insensitive',
-          },
-        })),
-      };
-
-      if (documentId) {
-        where.documentId = documentId;
-      }
-
-      const chunks = await (prisma as any).vectorRecord.findMany({
-        where,
-        take: 10,
+      const chunks = await prisma.documentChunk.findMany({
+        where: {
+          userId,
+          ...(documentId ? { documentId } : {}),
+          OR: keywords.map((keyword) => ({
+            content: { contains: keyword, mode: 'insensitive' as const },
+          })),
+        },
+        include: { document: { select: { filename: true, createdAt: true } } },
+        take: limit * 2,
         orderBy: { createdAt: 'desc' },
       });
 
-      return chunks.map((chunk: any) => ({
-        id: chunk.id,
-        score: 0.5, // Base score for keyword matches
-        metadata: chunk.metadata,
-      }));
+      return chunks
+        .map((chunk) => {
+          const text = chunk.content.toLowerCase();
+          const matched = keywords.filter((keyword) => text.includes(keyword)).length;
+          return { chunk, score: matched / keywords.length };
+        })
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit)
+        .map(({ chunk, score }, index) => ({
+          id: chunk.id,
+          score,
+          metadata: {
+            text: chunk.content,
+            documentId: chunk.documentId,
+            filename: chunk.document.filename,
+            chunkIndex: chunk.chunkIndex,
+            pageNumber: chunk.pageNumber ?? undefined,
+            uploadedAt: chunk.document.createdAt.toISOString(),
+          },
+          breakdown: { keyword: { score, rank: index + 1 }, final: score },
+        }));
     } catch (error) {
       logger.error('[Retriever] Keyword search failed', error);
       return [];
     }
   }
 
-  private mergeResults(vectorResults: QueryResult[], keywordResults: QueryResult[]): QueryResult[] {
-    const resultMap = new Map<string, QueryResult>();
+  /**
+   * Reciprocal-rank fusion of the vector and keyword lists
+   */
+  private fuseResults(
+    vectorResults: ScoredResult[],
+    keywordResults: ScoredResult[],
+    ranking: RankingSettings
+  ): ScoredResult[] {
+    const keywordById = new Map(keywordResults.map((result) => [result.id, result]));
+
+    return reciprocalRankFusion(
+      [
+        { name: 'vector', items: vectorResults, weight: ranking.vectorWeight },
+        { name: 'keyword', items: keywordResults, weight: ranking.keywordWeight },
+      ],
+      ranking.rrfK
+    ).map(({ item, score, rrfScore }) => ({
+      ...item,
+      score,
+      breakdown: {
+        ...item.breakdown,
+        keyword: keywordById.get(item.id)?.breakdown.keyword,
+        fusion: { method: 'rrf', score, rrfScore, k: ranking.rrfK },
+        final: score,
+      },
+    }));
+  }
+
+  /**
+   * Legacy fixed-weight merge: vector results first, +0.15 when both searches hit
+   */
+  private mergeResults(
+    vectorResults: ScoredResult[],
+    keywordResults: ScoredResult[]
+  ): ScoredResult[] {
+    const resultMap = new Map<string, ScoredResult>();
 
     // Add vector results (prioritize)
     for (const result of vectorResults) {
-      resultMap.set(result.id, result);
+      resultMap.set(result.id, { ...result, breakdown: { ...result.breakdown } });
     }
 
     // Merge keyword results
@@ -468,13 +692,23 @@ export class RetrieverService {
       if (existing) {
         // Boost score if found in both searches
         existing.score = Math.min(existing.score + 0.15, 1.0);
+        existing.breakdown.keyword = result.breakdown.keyword;
       } else {
-        resultMap.set(result.id, result);
+        resultMap.set(result.id, { ...result, score: 0.5 }); // Base score for keyword-only hits
       }
     }
 
     // Sort by score descending
-    return Array.from(resultMap.values()).sort((a, b) => b.score - a.score);
+    return Array.from(resultMap.values())
+      .map((result) => ({
+        ...result,
+        breakdown: {
+          ...result.breakdown,
+          fusion: { method: 'weighted' as const, score: result.score },
+          final: result.score,
+        },
+      }))
+      .sort((a, b) => b.score - a.score);
   }
 
   // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
@@ -485,44 +719,72 @@ export class RetrieverService {
     return request.rerank ?? this.config.enableReranking;
   }
 
-  private async applyReranking(query: string, results: QueryResult[]): Promise<QueryResult[]> {
+  /**
+   * Scores candidates with the configured reranker. A failing model
+   * reranker (missing ONNX files, provider error) degrades to the
+   * heuristic one; if that fails too the retrieval order is kept.
+   */
+  private async applyReranking(
+    query: string,
+    results: ScoredResult[],
+    ranking: RankingSettings,
+    planTier?: string
+  ): Promise<ScoredResult[]> {
+    if (results.length === 0 || ranking.reranker === 'none') return results;
+
+    const candidates = results.map((result) => ({
+      id: result.id,
+      text: result.metadata?.text || '',
+      score: result.score,
+    }));
+    const rerankerOptions = {
+      weights: this.config.rerankWeight,
+      extractKeywords: (text: string) => this.extractKeywords(text),
+    };
+
+    let reranker = getReranker(ranking.reranker, rerankerOptions);
+    let fallbackFrom: RerankerStrategy | undefined;
+    let scores: number[];
+
     try {
-      logger.info('[Retriever] Applying re-ranking...');
-
-      const queryLower = query.toLowerCase();
-      const queryWords = new Set(this.extractKeywords(query));
-
-      return results
-        .map((result) => {
-          const text = result.metadata?.text?.toLowerCase() || '';
-
-          // Calculate keyword overlap score
-          const textWords = this.extractKeywords(text);
-          const overlap = textWords.filter((word) => queryWords.has(word)).length;
-          const overlapScore = queryWords.size > 0 ? overlap / queryWords.size : 0;
-
-          // Calculate position score (prefer earlier matches)
-          const firstMatchIndex = text.indexOf(queryLower);
-          const positionScore =
-            firstMatchIndex === -1 ? 0 : Math.max(0, 1 - firstMatchIndex / text.length);
-
-          // Combine scores using configured weights
-          const weights = this.config.rerankWeight;
-          const rerankedScore =
-            result.score * weights.vectorScore +
-            overlapScore * weights.keywordOverlap +
-            positionScore * weights.positionScore;
-
-          return {
-            ...result,
-            score: Math.min(rerankedScore, 1.0),
-          };
-        })
-        .sort((a, b) => b.score - a.score);
+      logger.info(`[Retriever] Applying re-ranking (${reranker.strategy})...`);
+      scores = await reranker.rerank(candidates, { query, planTier });
     } catch (error) {
-      logger.warn('[Retriever] Re-ranking failed, using original order', error);
-      return results;
+      if (reranker.strategy === 'heuristic') {
+        logger.warn('[Retriever] Re-ranking failed, using original order', error);
+        return results;
+      }
+
+      logger.warn(`[Retriever] ${reranker.strategy} re-ranking failed, using heuristic`, error);
+      fallbackFrom = reranker.strategy;
+      reranker = getReranker('heuristic', rerankerOptions);
+      scores = await reranker.rerank(candidates, { query, planTier });
     }
+
+    return results
+      .map((result, index) => {
+        const rerankScore = scores[index];
+        const finalScore = reranker.includesRetrievalScore
+          ? rerankScore
+          : ranking.rerankScoreWeight * rerankScore +
+            (1 - ranking.rerankScoreWeight) * result.score;
+
+        return {
+          ...result,
+          score: finalScore,
+          breakdown: {
+            ...result.breakdown,
+            rerank: {
+              strategy: reranker.strategy,
+              model: reranker.model,
+              score: rerankScore,
+              fallbackFrom,
+            },
+            final: finalScore,
+          },
+        };
+      })
+      .sort((a, b) => b.score - a.score);
   }
 
   // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
@@ -548,7 +810,7 @@ export class RetrieverService {
   // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
   private async formatChunks(
-    results: QueryResult[],
+    results: ScoredResult[],
     includeMetadata: boolean = true
   ): Promise<RetrievedChunk[]> {
     return results.map((result) => ({
@@ -556,7 +818,8 @@ export class RetrieverService {
       content: result.metadata?.text || '',
       score: result.score,
       metadata: includeMetadata ? this.extractMetadata(result.metadata) : ({} as ChunkMetadata),
-      rerankedScore: result.score,
+      rerankedScore: result.breakdown.rerank ? result.score : undefined,
+      scoreBreakdown: result.breakdown,
     }));
   }
 
@@ -624,6 +887,7 @@ export class RetrieverService {
       request.documentId || 'all',
       request.query,
       request.topK || this.config.defaultTopK,
+      request.planTier || 'default',
     ];
     return parts.join('::');
   }
@@ -3,8 +3,8 @@
  * SORIVA AI - VECTOR STORE SERVICE v1.0
  * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
  * Purpose: Store and retrieve vectors from vector database
- * Features: Multi-provider support, user isolation, plan limits
- * Architecture: Singleton, provider-agnostic, secured namespaces
+ * Features: Multi-provider support, user isolation, plan limits, backend migration
+ * Architecture: Singleton, provider-agnostic (see ./vector-stores), secured namespaces
  * Created: October 2025
  * Security: Namespace isolation, metadata encryption, access control
  * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
@@ -13,6 +13,18 @@
 import { PrismaClient } from '@prisma/client';
 import { logger } from '@shared/utils/logger';
 import * as crypto from 'crypto';
+import {
+  createVectorStoreBackend,
+  MemoryVectorStore,
+  QueryRequest,
+  QueryResult,
+  UpsertRequest,
+  VECTOR_STORE_PROVIDERS,
+  VectorBackendStats,
+  VectorMetric,
+  VectorStoreBackend,
+  VectorStoreProvider,
+} from './vector-stores';
 
 const prisma = new PrismaClient();
 
@@ -20,6 +32,14 @@ const prisma = new PrismaClient();
 // TYPES & INTERFACES
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
+export type {
+  MetadataFilter,
+  QueryRequest,
+  QueryResult,
+  UpsertRequest,
+  VectorStoreProvider,
+} from './vector-stores';
+
 export interface VectorRecord {
   id: string;
   vector: number[];
@@ -34,36 +54,34 @@ export interface VectorRecord {
   };
 }
 
-export interface UpsertRequest {
-  id: string;
-  vector: number[];
-  metadata: Record<string, any>;
-}
-
-export interface QueryRequest {
-  vector: number[];
-  topK?: number;
-  filter?: Record<string, any>;
-  includeMetadata?: boolean;
-  includeVectors?: boolean;
-}
-
-export interface QueryResult {
-  id: string;
-  score: number;
-  metadata?: Record<string, any>;
-  vector?: number[];
-}
-
 export interface VectorStoreConfig {
-  provider: 'pinecone' | 'qdrant' | 'memory';
+  provider: VectorStoreProvider;
   indexName: string;
   dimensions: number;
-  metric: 'cosine' | 'euclidean' | 'dotproduct';
+  metric: VectorMetric;
   enableEncryption: boolean;
   enableCompression: boolean;
 }
 
+export interface MigrationOptions {
+  from: VectorStoreProvider;
+  to: VectorStoreProvider;
+  namespaces?: string[]; // Default: every namespace in the source
+  batchSize?: number;
+  dryRun?: boolean; // Count only, write nothing
+  onProgress?: (namespace: string, copied: number) => void;
+}
+
+export interface MigrationResult {
+  success: boolean;
+  from: VectorStoreProvider;
+  to: VectorStoreProvider;
+  dryRun: boolean;
+  namespaces: Array<{ namespace: string; copied: number; error?: string }>;
+  totalCopied: number;
+  durationMs: number;
+}
+
 export interface PlanStorageLimits {
   maxVectors: number; // Total vectors per user
   maxNamespaces: number; // Total namespaces (documents) per user
@@ -174,14 +192,13 @@ export class VectorStoreService {
   };
 
   private encryption: MetadataEncryption;
-  private memoryStore: Map<string, Map<string, VectorRecord>> = new Map();
-  private pineconeClient: any = null;
-  private qdrantClient: any = null;
+  private backend: VectorStoreBackend;
+  private ready: Promise<void>;
 
   private constructor() {
     this.encryption = new MetadataEncryption();
     this.loadConfigFromEnv();
-    this.initializeProvider();
+    this.ready = this.initializeProvider();
     logger.info('[VectorStore] Service initialized');
   }
 
@@ -197,7 +214,7 @@ export class VectorStoreService {
   // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
   private loadConfigFromEnv(): void {
-    const provider = process.env.VECTOR_STORE_PROVIDER as 'pinecone' | 'qdrant' | 'memory';
+    const provider = process.env.VECTOR_STORE_PROVIDER as VectorStoreProvider;
     const indexName = process.env.VECTOR_STORE_INDEX;
     const dimensions = process.env.VECTOR_DIMENSIONS;
 
@@ -208,55 +225,46 @@ export class VectorStoreService {
     logger.info(`[VectorStore] Using provider: ${this.config.provider}`);
   }
 
+  private backendOptions() {
+    return {
+      indexName: this.config.indexName,
+      dimensions: this.config.dimensions,
+      metric: this.config.metric,
+    };
+  }
+
   private async initializeProvider(): Promise<void> {
     try {
-      switch (this.config.provider) {
-        case 'pinecone':
-          await this.initializePinecone();
-          break;
-        case 'qdrant':
-          await this.initializeQdrant();
-          break;
-        case 'memory':
-          logger.info('[VectorStore] Using in-memory storage');
-          break;
-        default:
-          throw new Error(`Unsupported provider: ${this.config.provider}`);
+      this.backend = createVectorStoreBackend(this.config.provider, this.backendOptions());
+      await this.backend.initialize();
+
+      if (this.config.provider === 'memory') {
+        logger.info('[VectorStore] Using in-memory storage');
       }
     } catch (error) {
       logger.error('[VectorStore] Provider initialization failed', error);
       logger.warn('[VectorStore] Falling back to memory storage');
       this.config.provider = 'memory';
+      this.backend = new MemoryVectorStore(this.backendOptions());
     }
   }
 
-  private async initializePinecone(): Promise<void> {
-    const apiKey = process.env.PINECONE_API_KEY;
-    const environment = process.env.PINECONE_ENVIRONMENT;
-
-    if (!apiKey || !environment) {
-      throw new Error('Pinecone credentials not configured');
-    }
-
-    // Pinecone initialization would go here
-    // For now, using mock
-    logger.info('[VectorStore] Pinecone initialized (mock)');
-  }
-
-  private async initializeQdrant(): Promise<void> {
-    const url = process.env.QDRANT_URL;
-    const apiKey = process.env.QDRANT_API_KEY;
+  /**
+   * Switching provider/index re-initializes the backend
+   */
+  public updateConfig(config: Partial<VectorStoreConfig>): void {
+    const previous = this.config;
+    this.config = { ...this.config, ...config };
 
-    if (!url) {
-      throw new Error('Qdrant URL not configured');
+    if (
+      previous.provider !== this.config.provider ||
+      previous.indexName !== this.config.indexName ||
+      previous.dimensions !== this.config.dimensions ||
+      previous.metric !== this.config.metric
+    ) {
+      this.ready = this.ready.then(() => this.initializeProvider());
     }
 
-    // Qdrant initialization would go here
-    logger.info('[VectorStore] Qdrant initialized (mock)');
-  }
-
-  public updateConfig(config: Partial<VectorStoreConfig>): void {
-    this.config = { ...this.config, ...config };
     logger.info('[VectorStore] Configuration updated');
   }
 
@@ -287,6 +295,8 @@ export class VectorStoreService {
     planTier: string = 'STARTER'
   ): Promise<{ success: boolean; upsertedCount: number }> {
     try {
+      await this.ready;
+
       // Validate plan limits
       await this.validateStorageLimits(userId, planTier, records.length);
 
@@ -301,89 +311,20 @@ export class VectorStoreService {
           : record.metadata,
       }));
 
-      // Route to appropriate provider
-      let result: { success: boolean; upsertedCount: number };
-
-      switch (this.config.provider) {
-        case 'pinecone':
-          result = await this.upsertToPinecone(processedRecords, namespace);
-          break;
-        case 'qdrant':
-          result = await this.upsertToQdrant(processedRecords, namespace);
-          break;
-        case 'memory':
-          result = await this.upsertToMemory(processedRecords, namespace);
-          break;
-        default:
-          throw new Error(`Unsupported provider: ${this.config.provider}`);
-      }
+      const upsertedCount = await this.backend.upsert(processedRecords, namespace);
 
       // Track usage
       await this.trackStorageUsage(userId, records.length);
 
-      logger.success(`[VectorStore] Upserted ${result.upsertedCount} vectors to ${namespace}`);
+      logger.success(`[VectorStore] Upserted ${upsertedCount} vectors to ${namespace}`);
 
-      return result;
+      return { success: true, upsertedCount };
     } catch (error) {
       logger.error('[VectorStore] Upsert failed', error);
       throw error;
     }
   }
 
-  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-  // PROVIDER-SPECIFIC UPSERT
-  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-
-  private async upsertToPinecone(
-    records: UpsertRequest[],
-    namespace: string
-  ): Promise<{ success: boolean; upsertedCount: number }> {
-    // Mock implementation - in production, use actual Pinecone client
-    logger.info(`[VectorStore] Pinecone upsert (mock): ${records.length} vectors to ${namespace}`);
-
-    return {
-      success: true,
-      upsertedCount: records.length,
-    };
-  }
-
-  private async upsertToQdrant(
-    records: UpsertRequest[],
-    namespace: string
-  ): Promise<{ success: boolean; upsertedCount: number }> {
-    // Mock implementation - in production, use actual Qdrant client
-    logger.info(`[VectorStore] Qdrant upsert (mock): ${records.length} vectors to ${namespace}`);
-
-    return {
-      success: true,
-      upsertedCount: records.length,
-    };
-  }
-
-  private async upsertToMemory(
-    records: UpsertRequest[],
-    namespace: string
-  ): Promise<{ success: boolean; upsertedCount: number }> {
-    if (!this.memoryStore.has(namespace)) {
-      this.memoryStore.set(namespace, new Map());
-    }
-
-    const namespaceStore = this.memoryStore.get(namespace)!;
-
-    for (const record of records) {
-      namespaceStore.set(record.id, {
-        id: record.id,
-        vector: record.vector,
-        metadata: record.metadata as any,
-      });
-    }
-
-    return {
-      success: true,
-      upsertedCount: records.length,
-    };
-  }
-
   // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
   // QUERY OPERATIONS
   // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
@@ -394,6 +335,8 @@ export class VectorStoreService {
     documentId?: string
   ): Promise<QueryResult[]> {
     try {
+      await this.ready;
+
       // Verify user access
       await this.verifyUserAccess(userId, documentId);
 
@@ -402,22 +345,7 @@ export class VectorStoreService {
         ? this.getDocumentNamespace(userId, documentId)
         : this.getUserNamespace(userId);
 
-      // Route to appropriate provider
-      let results: QueryResult[];
-
-      switch (this.config.provider) {
-        case 'pinecone':
-          results = await this.queryPinecone(request, namespace);
-          break;
-        case 'qdrant':
-          results = await this.queryQdrant(request, namespace);
-          break;
-        case 'memory':
-          results = await this.queryMemory(request, namespace);
-          break;
-        default:
-          throw new Error(`Unsupported provider: ${this.config.provider}`);
-      }
+      let results = await this.backend.query(request, namespace);
 
       // Decrypt metadata if encrypted
       if (this.config.enableEncryption && request.includeMetadata) {
@@ -439,53 +367,6 @@ export class VectorStoreService {
     }
   }
 
-  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-  // PROVIDER-SPECIFIC QUERY
-  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-
-  private async queryPinecone(request: QueryRequest, namespace: string): Promise<QueryResult[]> {
-    // Mock implementation
-    logger.info(`[VectorStore] Pinecone query (mock) from ${namespace}`);
-    return [];
-  }
-
-  private async queryQdrant(request: QueryRequest, namespace: string): Promise<QueryResult[]> {
-    // Mock implementation
-    logger.info(`[VectorStore] Qdrant query (mock) from ${namespace}`);
-    return [];
-  }
-
-  private async queryMemory(request: QueryRequest, namespace: string): Promise<QueryResult[]> {
-    const namespaceStore = this.memoryStore.get(namespace);
-
-    if (!namespaceStore || namespaceStore.size === 0) {
-      return [];
-    }
-
-    // Calculate cosine similarity for all vectors
-    const results: Array<{ id: string; score: number; record: VectorRecord }> = [];
-
-    for (const [id, record] of namespaceStore.entries()) {
-      const score = this.cosineSimilarity(request.vector, record.vector);
-      results.push({ id, score, record });
-    }
-
-    // Sort by score (descending)
-    results.sort((a, b) => b.score - a.score);
-
-    // Take top K
-    const topK = request.topK || 5;
-    const topResults = results.slice(0, topK);
-
-    // Format results
-    return topResults.map(({ id, score, record }) => ({
-      id,
-      score,
-      metadata: request.includeMetadata ? record.metadata : undefined,
-      vector: request.includeVectors ? record.vector : undefined,
-    }));
-  }
-
   // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
   // DELETE OPERATIONS
   // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
@@ -495,86 +376,112 @@ export class VectorStoreService {
     documentId: string
   ): Promise<{ success: boolean; deletedCount: number }> {
     try {
+      await this.ready;
+
       // Verify ownership
       await this.verifyUserAccess(userId, documentId);
 
       const namespace = this.getDocumentNamespace(userId, documentId);
+      const deletedCount = await this.backend.deleteNamespace(namespace);
 
-      let result: { success: boolean; deletedCount: number };
-
-      switch (this.config.provider) {
-        case 'pinecone':
-          result = await this.deletePineconeNamespace(namespace);
-          break;
-        case 'qdrant':
-          result = await this.deleteQdrantNamespace(namespace);
-          break;
-        case 'memory':
-          result = await this.deleteMemoryNamespace(namespace);
-          break;
-        default:
-          throw new Error(`Unsupported provider: ${this.config.provider}`);
-      }
-
-      logger.info(`[VectorStore] Deleted ${result.deletedCount} vectors from ${namespace}`);
+      logger.info(`[VectorStore] Deleted ${deletedCount} vectors from ${namespace}`);
 
-      return result;
+      return { success: true, deletedCount };
     } catch (error) {
       logger.error('[VectorStore] Delete failed', error);
       throw error;
     }
   }
 
-  private async deletePineconeNamespace(
-    namespace: string
-  ): Promise<{ success: boolean; deletedCount: number }> {
-    // Mock
-    return { success: true, deletedCount: 0 };
-  }
-
-  private async deleteQdrantNamespace(
-    namespace: string
-  ): Promise<{ success: boolean; deletedCount: number }> {
-    // Mock
-    return { success: true, deletedCount: 0 };
-  }
-
-  private async deleteMemoryNamespace(
-    namespace: string
-  ): Promise<{ success: boolean; deletedCount: number }> {
-    const namespaceStore = this.memoryStore.get(namespace);
-    const count = namespaceStore?.size || 0;
-    this.memoryStore.delete(namespace);
-    return { success: true, deletedCount: count };
-  }
-
   // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-  // UTILITIES & HELPERS
+  // MIGRATION (BACKEND → BACKEND)
   // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
-  private cosineSimilarity(vecA: number[], vecB: number[]): number {
-    if (vecA.length !== vecB.length) {
-      throw new Error('Vectors must have same dimensions');
+  /**
+   * Copy vectors between backends, namespace by namespace.
+   * Records are copied as stored (encrypted metadata stays encrypted, so
+   * both sides must share VECTOR_ENCRYPTION_KEY). Upserts are idempotent,
+   * so a failed run can simply be repeated.
+   */
+  public async migrate(options: MigrationOptions): Promise<MigrationResult> {
+    const startTime = Date.now();
+    const batchSize = options.batchSize || 100;
+    const dryRun = !!options.dryRun;
+
+    for (const provider of [options.from, options.to]) {
+      if (!VECTOR_STORE_PROVIDERS.includes(provider)) {
+        throw new Error(`Unsupported provider: ${provider}`);
+      }
     }
+    if (options.from === options.to) {
+      throw new Error('Source and target provider must differ');
+    }
+
+    await this.ready;
+
+    const source = await this.resolveBackend(options.from);
+    const target = dryRun ? null : await this.resolveBackend(options.to);
+
+    const namespaces = options.namespaces?.length
+      ? options.namespaces
+      : await source.listNamespaces();
+    const report: MigrationResult['namespaces'] = [];
+
+    for (const namespace of namespaces) {
+      let copied = 0;
+      let cursor: string | undefined;
 
-    let dotProduct = 0;
-    let magnitudeA = 0;
-    let magnitudeB = 0;
+      try {
+        do {
+          const page = await source.scan(namespace, { cursor, limit: batchSize });
 
-    for (let i = 0; i < vecA.length; i++) {
-      dotProduct += vecA[i] * vecB[i];
-      magnitudeA += vecA[i] * vecA[i];
-      magnitudeB += vecB[i] * vecB[i];
+          if (target && page.records.length > 0) {
+            await target.upsert(page.records, namespace);
+          }
+
+          copied += page.records.length;
+          cursor = page.nextCursor;
+          options.onProgress?.(namespace, copied);
+        } while (cursor);
+
+        report.push({ namespace, copied });
+      } catch (error: any) {
+        logger.error(`[VectorStore] Migration of ${namespace} failed`, error);
+        report.push({ namespace, copied, error: error.message });
+      }
     }
 
-    magnitudeA = Math.sqrt(magnitudeA);
-    magnitudeB = Math.sqrt(magnitudeB);
+    const totalCopied = report.reduce((sum, ns) => sum + ns.copied, 0);
+    const success = report.every((ns) => !ns.error);
 
-    if (magnitudeA === 0 || magnitudeB === 0) {
-      return 0;
+    logger.info(
+      `[VectorStore] Migration ${options.from} → ${options.to}${dryRun ? ' (dry run)' : ''}: ` +
+        `${totalCopied} vectors in ${namespaces.length} namespaces`
+    );
+
+    return {
+      success,
+      from: options.from,
+      to: options.to,
+      dryRun,
+      namespaces: report,
+      totalCopied,
+      durationMs: Date.now() - startTime,
+    };
+  }
+
+  /**
+   * The active backend is reused (the memory store only exists in-process);
+   * any other provider gets a freshly initialized backend
+   */
+  private async resolveBackend(provider: VectorStoreProvider): Promise<VectorStoreBackend> {
+    if (provider === this.config.provider) {
+      return this.backend;
     }
 
-    return dotProduct / (magnitudeA * magnitudeB);
+    const backend = createVectorStoreBackend(provider, this.backendOptions());
+    await backend.initialize();
+    return backend;
   }
 
   // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
@@ -672,23 +579,34 @@ export class VectorStoreService {
   // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
   public async getStats(): Promise<any> {
+    await this.ready;
+
+    let backendStats: VectorBackendStats | null = null;
+    let error: string | undefined;
+    try {
+      backendStats = await this.backend.getStats();
+    } catch (err: any) {
+      error = err.message;
+    }
+
     return {
       provider: this.config.provider,
       indexName: this.config.indexName,
       dimensions: this.config.dimensions,
       metric: this.config.metric,
-      memoryStats: {
-        namespaces: this.memoryStore.size,
-        totalVectors: Array.from(this.memoryStore.values()).reduce((sum, ns) => sum + ns.size, 0),
-      },
+      totalVectors: backendStats?.totalVectors ?? null,
+      namespaces: backendStats ? Object.keys(backendStats.namespaces).length : null,
+      backendDimensions: backendStats?.dimensions ?? null,
+      ...(error && { error }),
     };
   }
 
   public async healthCheck(): Promise<{ status: string; provider: string }> {
     try {
-      // Provider-specific health check
+      await this.ready;
+      const healthy = await this.backend.healthCheck();
       return {
-        status: 'healthy',
+        status: healthy ? 'healthy' : 'unhealthy',
         provider: this.config.provider,
       };
     } catch (error) {
@@ -0,0 +1,50 @@
+/**
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ * SORIVA AI - VECTOR STORE BACKENDS
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ * Purpose: Backend factory + barrel export
+ * Env:
+ *   QDRANT_URL, QDRANT_API_KEY (optional for local Qdrant)
+ *   PINECONE_API_KEY
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ */
+
+import { MemoryVectorStore } from './memory.store';
+import { PineconeVectorStore } from './pinecone.store';
+import { QdrantVectorStore } from './qdrant.store';
+import { VectorBackendOptions, VectorStoreBackend, VectorStoreProvider } from './types';
+
+/**
+ * Build an (uninitialized) backend for a provider from env credentials.
+ * Throws when the provider's credentials are missing.
+ */
+export function createVectorStoreBackend(
+  provider: VectorStoreProvider,
+  options: VectorBackendOptions
+): VectorStoreBackend {
+  switch (provider) {
+    case 'qdrant': {
+      const url = process.env.QDRANT_URL;
+      if (!url) {
+        throw new Error('Qdrant URL not configured (QDRANT_URL)');
+      }
+      return new QdrantVectorStore(options, { url, apiKey: process.env.QDRANT_API_KEY });
+    }
+    case 'pinecone': {
+      const apiKey = process.env.PINECONE_API_KEY;
+      if (!apiKey) {
+        throw new Error('Pinecone credentials not configured (PINECONE_API_KEY)');
+      }
+      return new PineconeVectorStore(options, { apiKey });
+    }
+    case 'memory':
+      return new MemoryVectorStore(options);
+    default:
+      throw new Error(`Unsupported provider: ${provider}`);
+  }
+}
+
+export { MemoryVectorStore, matchesFilter } from './memory.store';
+export { PineconeVectorStore } from './pinecone.store';
+export { QdrantVectorStore } from './qdrant.store';
+export * from './types';
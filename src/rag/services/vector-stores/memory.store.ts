@@ -0,0 +1,184 @@
+/**
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ * SORIVA AI - IN-MEMORY VECTOR STORE
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ * Purpose: Process-local backend for development and tests
+ * Note: Data is lost on restart and not shared between instances
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ */
+
+import {
+  MetadataFilter,
+  MetadataFilterOperators,
+  QueryRequest,
+  QueryResult,
+  ScanPage,
+  StoredVector,
+  UpsertRequest,
+  VectorBackendOptions,
+  VectorBackendStats,
+  VectorStoreBackend,
+} from './types';
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// FILTER EVALUATION
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+function matchesCondition(value: any, condition: MetadataFilter[string]): boolean {
+  if (condition === null || typeof condition !== 'object' || Array.isArray(condition)) {
+    return value === condition;
+  }
+
+  const ops = condition as MetadataFilterOperators;
+
+  if (ops.$eq !== undefined && value !== ops.$eq) return false;
+  if (ops.$ne !== undefined && value === ops.$ne) return false;
+  if (ops.$in !== undefined && !ops.$in.includes(value)) return false;
+  if (ops.$nin !== undefined && ops.$nin.includes(value)) return false;
+
+  const hasRange =
+    ops.$gt !== undefined ||
+    ops.$gte !== undefined ||
+    ops.$lt !== undefined ||
+    ops.$lte !== undefined;
+  if (hasRange) {
+    if (typeof value !== 'number') return false;
+    if (ops.$gt !== undefined && !(value > ops.$gt)) return false;
+    if (ops.$gte !== undefined && !(value >= ops.$gte)) return false;
+    if (ops.$lt !== undefined && !(value < ops.$lt)) return false;
+    if (ops.$lte !== undefined && !(value <= ops.$lte)) return false;
+  }
+
+  return true;
+}
+
+export function matchesFilter(metadata: Record<string, any>, filter?: MetadataFilter): boolean {
+  if (!filter) return true;
+  return Object.entries(filter).every(([key, condition]) =>
+    matchesCondition(metadata[key], condition)
+  );
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// MEMORY BACKEND
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export class MemoryVectorStore implements VectorStoreBackend {
+  public readonly provider = 'memory' as const;
+
+  private store: Map<string, Map<string, StoredVector>> = new Map();
+
+  constructor(private options: VectorBackendOptions) {}
+
+  public async initialize(): Promise<void> {}
+
+  public async upsert(records: UpsertRequest[], namespace: string): Promise<number> {
+    if (!this.store.has(namespace)) {
+      this.store.set(namespace, new Map());
+    }
+
+    const namespaceStore = this.store.get(namespace)!;
+
+    for (const record of records) {
+      namespaceStore.set(record.id, {
+        id: record.id,
+        vector: record.vector,
+        metadata: record.metadata,
+      });
+    }
+
+    return records.length;
+  }
+
+  public async query(request: QueryRequest, namespace: string): Promise<QueryResult[]> {
+    const namespaceStore = this.store.get(namespace);
+
+    if (!namespaceStore || namespaceStore.size === 0) {
+      return [];
+    }
+
+    const results: Array<{ score: number; record: StoredVector }> = [];
+
+    for (const record of namespaceStore.values()) {
+      if (!matchesFilter(record.metadata, request.filter)) continue;
+      results.push({ score: this.cosineSimilarity(request.vector, record.vector), record });
+    }
+
+    results.sort((a, b) => b.score - a.score);
+
+    return results.slice(0, request.topK || 5).map(({ score, record }) => ({
+      id: record.id,
+      score,
+      metadata: request.includeMetadata ? record.metadata : undefined,
+      vector: request.includeVectors ? record.vector : undefined,
+    }));
+  }
+
+  public async deleteNamespace(namespace: string): Promise<number> {
+    const count = this.store.get(namespace)?.size || 0;
+    this.store.delete(namespace);
+    return count;
+  }
+
+  public async listNamespaces(): Promise<string[]> {
+    return Array.from(this.store.keys());
+  }
+
+  /**
+   * Cursor is the offset into the namespace's insertion order
+   */
+  public async scan(
+    namespace: string,
+    options: { cursor?: string; limit: number }
+  ): Promise<ScanPage> {
+    const records = Array.from(this.store.get(namespace)?.values() || []);
+    const start = options.cursor ? parseInt(options.cursor, 10) : 0;
+    const end = start + options.limit;
+
+    return {
+      records: records.slice(start, end),
+      nextCursor: end < records.length ? String(end) : undefined,
+    };
+  }
+
+  public async getStats(): Promise<VectorBackendStats> {
+    const namespaces: Record<string, number> = {};
+    let totalVectors = 0;
+
+    for (const [namespace, records] of this.store.entries()) {
+      namespaces[namespace] = records.size;
+      totalVectors += records.size;
+    }
+
+    return { totalVectors, namespaces, dimensions: this.options.dimensions };
+  }
+
+  public async healthCheck(): Promise<boolean> {
+    return true;
+  }
+
+  private cosineSimilarity(vecA: number[], vecB: number[]): number {
+    if (vecA.length !== vecB.length) {
+      throw new Error('Vectors must have same dimensions');
+    }
+
+    let dotProduct = 0;
+    let magnitudeA = 0;
+    let magnitudeB = 0;
+
+    for (let i = 0; i < vecA.length; i++) {
+      dotProduct += vecA[i] * vecB[i];
+      magnitudeA += vecA[i] * vecA[i];
+      magnitudeB += vecB[i] * vecB[i];
+    }
+
+    magnitudeA = Math.sqrt(magnitudeA);
+    magnitudeB = Math.sqrt(magnitudeB);
+
+    if (magnitudeA === 0 || magnitudeB === 0) {
+      return 0;
+    }
+
+    return dotProduct / (magnitudeA * magnitudeB);
+  }
+}
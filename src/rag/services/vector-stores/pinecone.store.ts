@@ -0,0 +1,214 @@
+/**
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ * SORIVA AI - PINECONE VECTOR STORE
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ * Purpose: Pinecone adapter (official SDK, serverless indexes)
+ * Layout: One index (indexName); namespaces map 1:1 to Pinecone namespaces
+ * Note: The index must already exist (created in the Pinecone console
+ *       with matching dimensions/metric) - it is never auto-created
+ * Metadata: Pinecone only stores flat string/number/boolean/string[] values;
+ *           nested objects are JSON-stringified, null/undefined dropped
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ */
+
+import { Index, Pinecone, RecordMetadata, RecordMetadataValue } from '@pinecone-database/pinecone';
+import { logger } from '@shared/utils/logger';
+import {
+  QueryRequest,
+  QueryResult,
+  ScanPage,
+  UpsertRequest,
+  VectorBackendOptions,
+  VectorBackendStats,
+  VectorStoreBackend,
+} from './types';
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// CONSTANTS
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const UPSERT_BATCH_SIZE = 100; // Pinecone request size limit is 2MB
+const MAX_LIST_LIMIT = 100; // listPaginated page size cap
+
+export interface PineconeConnection {
+  apiKey: string;
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// METADATA SANITIZING
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+function toPineconeMetadata(metadata: Record<string, any>): RecordMetadata {
+  const result: RecordMetadata = {};
+
+  for (const [key, value] of Object.entries(metadata || {})) {
+    if (value === null || value === undefined) continue;
+
+    let sanitized: RecordMetadataValue;
+    if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+      sanitized = value;
+    } else if (Array.isArray(value)) {
+      sanitized = value.map((item) => (typeof item === 'string' ? item : JSON.stringify(item)));
+    } else if (value instanceof Date) {
+      sanitized = value.toISOString();
+    } else {
+      sanitized = JSON.stringify(value);
+    }
+
+    result[key] = sanitized;
+  }
+
+  return result;
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// PINECONE BACKEND
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export class PineconeVectorStore implements VectorStoreBackend {
+  public readonly provider = 'pinecone' as const;
+
+  private index: Index<RecordMetadata>;
+
+  constructor(
+    private options: VectorBackendOptions,
+    connection: PineconeConnection
+  ) {
+    const client = new Pinecone({ apiKey: connection.apiKey });
+    this.index = client.index<RecordMetadata>(options.indexName);
+  }
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // LIFECYCLE
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  public async initialize(): Promise<void> {
+    const stats = await this.index.describeIndexStats();
+
+    if (stats.dimension && stats.dimension !== this.options.dimensions) {
+      throw new Error(
+        `Pinecone index "${this.options.indexName}" has ${stats.dimension} dimensions, expected ${this.options.dimensions}`
+      );
+    }
+
+    logger.info(
+      `[VectorStore] Pinecone index "${this.options.indexName}" ready (${stats.totalRecordCount || 0} vectors)`
+    );
+  }
+
+  public async healthCheck(): Promise<boolean> {
+    try {
+      await this.index.describeIndexStats();
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // WRITE / READ
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  public async upsert(records: UpsertRequest[], namespace: string): Promise<number> {
+    const target = this.index.namespace(namespace);
+
+    for (let i = 0; i < records.length; i += UPSERT_BATCH_SIZE) {
+      await target.upsert(
+        records.slice(i, i + UPSERT_BATCH_SIZE).map((record) => ({
+          id: record.id,
+          values: record.vector,
+          metadata: toPineconeMetadata(record.metadata),
+        }))
+      );
+    }
+
+    return records.length;
+  }
+
+  public async query(request: QueryRequest, namespace: string): Promise<QueryResult[]> {
+    const response = await this.index.namespace(namespace).query({
+      vector: request.vector,
+      topK: request.topK || 5,
+      filter: request.filter && Object.keys(request.filter).length > 0 ? request.filter : undefined,
+      includeMetadata: !!request.includeMetadata,
+      includeValues: !!request.includeVectors,
+    });
+
+    return (response.matches || []).map((match) => ({
+      id: match.id,
+      score: match.score ?? 0,
+      metadata: request.includeMetadata ? match.metadata || {} : undefined,
+      vector: request.includeVectors ? match.values : undefined,
+    }));
+  }
+
+  public async deleteNamespace(namespace: string): Promise<number> {
+    const count = (await this.namespaceCounts())[namespace] || 0;
+
+    // deleteAll on a namespace that doesn't exist returns 404
+    if (count === 0) return 0;
+
+    await this.index.namespace(namespace).deleteAll();
+    return count;
+  }
+
+  /**
+   * Cursor is Pinecone's pagination token; ids are listed, then fetched
+   * with values + metadata
+   */
+  public async scan(
+    namespace: string,
+    options: { cursor?: string; limit: number }
+  ): Promise<ScanPage> {
+    const target = this.index.namespace(namespace);
+    const listed = await target.listPaginated({
+      limit: Math.min(options.limit, MAX_LIST_LIMIT),
+      paginationToken: options.cursor,
+    });
+
+    const ids = (listed.vectors || []).map((item) => item.id).filter((id): id is string => !!id);
+    if (ids.length === 0) {
+      return { records: [] };
+    }
+
+    const fetched = await target.fetch(ids);
+
+    return {
+      records: ids
+        .filter((id) => fetched.records[id]?.values)
+        .map((id) => ({
+          id,
+          vector: fetched.records[id].values!,
+          metadata: fetched.records[id].metadata || {},
+        })),
+      nextCursor: listed.pagination?.next,
+    };
+  }
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // NAMESPACES & STATS
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  public async listNamespaces(): Promise<string[]> {
+    return Object.keys(await this.namespaceCounts());
+  }
+
+  public async getStats(): Promise<VectorBackendStats> {
+    const stats = await this.index.describeIndexStats();
+    const namespaces: Record<string, number> = {};
+
+    for (const [namespace, summary] of Object.entries(stats.namespaces || {})) {
+      namespaces[namespace] = summary.recordCount;
+    }
+
+    return {
+      totalVectors: stats.totalRecordCount || 0,
+      namespaces,
+      dimensions: stats.dimension,
+    };
+  }
+
+  private async namespaceCounts(): Promise<Record<string, number>> {
+    return (await this.getStats()).namespaces;
+  }
+}
@@ -0,0 +1,294 @@
+/**
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ * SORIVA AI - QDRANT VECTOR STORE
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ * Purpose: Qdrant adapter over the REST API (self-hosted or Qdrant Cloud)
+ * Layout: One collection (indexName); namespaces are a keyword-indexed
+ *         payload field so per-namespace queries/deletes stay cheap
+ * Payload: { namespace, recordId, metadata }
+ * Local:   docker run -p 6333:6333 qdrant/qdrant
+ * Requires: Qdrant >= 1.12 (facet API for namespace listing)
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ */
+
+import axios, { AxiosInstance } from 'axios';
+import * as crypto from 'crypto';
+import { logger } from '@shared/utils/logger';
+import {
+  MetadataFilter,
+  MetadataFilterOperators,
+  QueryRequest,
+  QueryResult,
+  ScanPage,
+  UpsertRequest,
+  VectorBackendOptions,
+  VectorBackendStats,
+  VectorMetric,
+  VectorStoreBackend,
+} from './types';
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// CONSTANTS
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const UPSERT_BATCH_SIZE = 256;
+const REQUEST_TIMEOUT_MS = 30000;
+const MAX_FACET_NAMESPACES = 100000;
+
+const DISTANCE_BY_METRIC: Record<VectorMetric, string> = {
+  cosine: 'Cosine',
+  euclidean: 'Euclid',
+  dotproduct: 'Dot',
+};
+
+export interface QdrantConnection {
+  url: string;
+  apiKey?: string;
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// FILTER TRANSLATION
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Pinecone-style metadata filter → Qdrant filter scoped to one namespace
+ */
+function toQdrantFilter(namespace: string, filter?: MetadataFilter): Record<string, any> {
+  const must: any[] = [{ key: 'namespace', match: { value: namespace } }];
+  const mustNot: any[] = [];
+
+  for (const [field, condition] of Object.entries(filter || {})) {
+    const key = `metadata.${field}`;
+
+    if (condition === null || typeof condition !== 'object' || Array.isArray(condition)) {
+      must.push({ key, match: { value: condition } });
+      continue;
+    }
+
+    const ops = condition as MetadataFilterOperators;
+
+    if (ops.$eq !== undefined) must.push({ key, match: { value: ops.$eq } });
+    if (ops.$ne !== undefined) mustNot.push({ key, match: { value: ops.$ne } });
+    if (ops.$in !== undefined) must.push({ key, match: { any: ops.$in } });
+    if (ops.$nin !== undefined) mustNot.push({ key, match: { any: ops.$nin } });
+
+    const range: Record<string, number> = {};
+    if (ops.$gt !== undefined) range.gt = ops.$gt;
+    if (ops.$gte !== undefined) range.gte = ops.$gte;
+    if (ops.$lt !== undefined) range.lt = ops.$lt;
+    if (ops.$lte !== undefined) range.lte = ops.$lte;
+    if (Object.keys(range).length > 0) must.push({ key, range });
+  }
+
+  return mustNot.length > 0 ? { must, must_not: mustNot } : { must };
+}
+
+/**
+ * Qdrant point ids must be unsigned ints or UUIDs, so record ids are
+ * mapped to a deterministic UUID (re-upserts overwrite the same point)
+ */
+function toPointId(namespace: string, id: string): string {
+  const hex = crypto.createHash('md5').update(`${namespace}:${id}`).digest('hex');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// QDRANT BACKEND
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export class QdrantVectorStore implements VectorStoreBackend {
+  public readonly provider = 'qdrant' as const;
+
+  private http: AxiosInstance;
+  private collectionPath: string;
+
+  constructor(
+    private options: VectorBackendOptions,
+    connection: QdrantConnection
+  ) {
+    this.http = axios.create({
+      baseURL: connection.url.replace(/\/+$/, ''),
+      timeout: REQUEST_TIMEOUT_MS,
+      headers: connection.apiKey ? { 'api-key': connection.apiKey } : {},
+    });
+    this.collectionPath = `/collections/${encodeURIComponent(options.indexName)}`;
+  }
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // LIFECYCLE
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  public async initialize(): Promise<void> {
+    const existing = await this.request('get', this.collectionPath, undefined, true);
+
+    if (existing) {
+      const size = existing.config?.params?.vectors?.size;
+      if (size && size !== this.options.dimensions) {
+        throw new Error(
+          `Qdrant collection "${this.options.indexName}" has ${size} dimensions, expected ${this.options.dimensions}`
+        );
+      }
+      logger.info(`[VectorStore] Qdrant collection "${this.options.indexName}" ready`);
+      return;
+    }
+
+    await this.request('put', this.collectionPath, {
+      vectors: {
+        size: this.options.dimensions,
+        distance: DISTANCE_BY_METRIC[this.options.metric],
+      },
+    });
+    await this.request('put', `${this.collectionPath}/index?wait=true`, {
+      field_name: 'namespace',
+      field_schema: 'keyword',
+    });
+
+    logger.success(`[VectorStore] Qdrant collection "${this.options.indexName}" created`);
+  }
+
+  public async healthCheck(): Promise<boolean> {
+    try {
+      await this.request('get', this.collectionPath);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // WRITE / READ
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  public async upsert(records: UpsertRequest[], namespace: string): Promise<number> {
+    for (let i = 0; i < records.length; i += UPSERT_BATCH_SIZE) {
+      const points = records.slice(i, i + UPSERT_BATCH_SIZE).map((record) => ({
+        id: toPointId(namespace, record.id),
+        vector: record.vector,
+        payload: { namespace, recordId: record.id, metadata: record.metadata },
+      }));
+
+      await this.request('put', `${this.collectionPath}/points?wait=true`, { points });
+    }
+
+    return records.length;
+  }
+
+  public async query(request: QueryRequest, namespace: string): Promise<QueryResult[]> {
+    const hits = await this.request('post', `${this.collectionPath}/points/search`, {
+      vector: request.vector,
+      limit: request.topK || 5,
+      filter: toQdrantFilter(namespace, request.filter),
+      with_payload: true,
+      with_vector: !!request.includeVectors,
+    });
+
+    return (hits || []).map((hit: any) => ({
+      id: hit.payload?.recordId ?? String(hit.id),
+      score: hit.score,
+      metadata: request.includeMetadata ? hit.payload?.metadata || {} : undefined,
+      vector: request.includeVectors ? hit.vector : undefined,
+    }));
+  }
+
+  public async deleteNamespace(namespace: string): Promise<number> {
+    const filter = toQdrantFilter(namespace);
+    const counted = await this.request('post', `${this.collectionPath}/points/count`, {
+      filter,
+      exact: true,
+    });
+
+    const count = counted?.count || 0;
+    if (count === 0) return 0;
+
+    await this.request('post', `${this.collectionPath}/points/delete?wait=true`, { filter });
+    return count;
+  }
+
+  /**
+   * Cursor is Qdrant's next_page_offset (a point id)
+   */
+  public async scan(
+    namespace: string,
+    options: { cursor?: string; limit: number }
+  ): Promise<ScanPage> {
+    const page = await this.request('post', `${this.collectionPath}/points/scroll`, {
+      filter: toQdrantFilter(namespace),
+      limit: options.limit,
+      offset: options.cursor,
+      with_payload: true,
+      with_vector: true,
+    });
+
+    return {
+      records: (page?.points || []).map((point: any) => ({
+        id: point.payload?.recordId ?? String(point.id),
+        vector: point.vector,
+        metadata: point.payload?.metadata || {},
+      })),
+      nextCursor: page?.next_page_offset != null ? String(page.next_page_offset) : undefined,
+    };
+  }
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // NAMESPACES & STATS
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  public async listNamespaces(): Promise<string[]> {
+    return Object.keys(await this.namespaceCounts());
+  }
+
+  public async getStats(): Promise<VectorBackendStats> {
+    const [collection, namespaces] = await Promise.all([
+      this.request('get', this.collectionPath),
+      this.namespaceCounts(),
+    ]);
+
+    return {
+      totalVectors: collection?.points_count || 0,
+      namespaces,
+      dimensions: collection?.config?.params?.vectors?.size,
+    };
+  }
+
+  private async namespaceCounts(): Promise<Record<string, number>> {
+    const facet = await this.request('post', `${this.collectionPath}/facet`, {
+      key: 'namespace',
+      limit: MAX_FACET_NAMESPACES,
+      exact: true,
+    });
+
+    const counts: Record<string, number> = {};
+    for (const hit of facet?.hits || []) {
+      counts[String(hit.value)] = hit.count;
+    }
+    return counts;
+  }
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // HTTP
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  /**
+   * Returns the `result` field of a Qdrant response.
+   * With allowNotFound, a 404 resolves to null instead of throwing.
+   */
+  private async request(
+    method: 'get' | 'put' | 'post',
+    path: string,
+    body?: Record<string, any>,
+    allowNotFound = false
+  ): Promise<any> {
+    try {
+      const response = await this.http.request({ method, url: path, data: body });
+      return response.data?.result;
+    } catch (error: any) {
+      const status = error.response?.status;
+      if (allowNotFound && status === 404) return null;
+
+      const detail = error.response?.data?.status?.error || error.message;
+      throw new Error(
+        `Qdrant ${method.toUpperCase()} ${path} failed${status ? ` (${status})` : ''}: ${detail}`
+      );
+    }
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ * SORIVA AI - VECTOR STORE BACKEND TYPES
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ * Purpose: Common contract implemented by every vector database adapter
+ * Used by: VectorStoreService (routing), migrate-vectors script (copying)
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ */
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// SHARED REQUEST / RESULT TYPES
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export type VectorStoreProvider = 'pinecone' | 'qdrant' | 'memory';
+
+export type VectorMetric = 'cosine' | 'euclidean' | 'dotproduct';
+
+export const VECTOR_STORE_PROVIDERS: VectorStoreProvider[] = ['pinecone', 'qdrant', 'memory'];
+
+export interface UpsertRequest {
+  id: string;
+  vector: number[];
+  metadata: Record<string, any>;
+}
+
+/**
+ * Metadata filter (Pinecone-style, translated per backend)
+ *
+ *   { documentId: 'abc' }                    equality
+ *   { chunkIndex: { $gte: 2, $lt: 10 } }     range ($gt, $gte, $lt, $lte)
+ *   { filename: { $in: ['a.pdf', 'b.pdf'] } } membership ($in, $nin)
+ *   { language: { $ne: 'en' } }              inequality ($eq, $ne)
+ *
+ * All conditions are combined with AND.
+ */
+export type MetadataFilterValue = string | number | boolean;
+
+export interface MetadataFilterOperators {
+  $eq?: MetadataFilterValue;
+  $ne?: MetadataFilterValue;
+  $in?: MetadataFilterValue[];
+  $nin?: MetadataFilterValue[];
+  $gt?: number;
+  $gte?: number;
+  $lt?: number;
+  $lte?: number;
+}
+
+export type MetadataFilter = Record<string, MetadataFilterValue | MetadataFilterOperators>;
+
+export interface QueryRequest {
+  vector: number[];
+  topK?: number;
+  filter?: MetadataFilter;
+  includeMetadata?: boolean;
+  includeVectors?: boolean;
+}
+
+export interface QueryResult {
+  id: string;
+  score: number;
+  metadata?: Record<string, any>;
+  vector?: number[];
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// BACKEND CONTRACT
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export interface VectorBackendOptions {
+  indexName: string; // Pinecone index / Qdrant collection
+  dimensions: number;
+  metric: VectorMetric;
+}
+
+export interface StoredVector {
+  id: string;
+  vector: number[];
+  metadata: Record<string, any>;
+}
+
+export interface ScanPage {
+  records: StoredVector[];
+  nextCursor?: string; // undefined when the namespace is exhausted
+}
+
+export interface VectorBackendStats {
+  totalVectors: number;
+  namespaces: Record<string, number>; // namespace → vector count
+  dimensions?: number;
+}
+
+export interface VectorStoreBackend {
+  readonly provider: VectorStoreProvider;
+
+  /** Connect and create the index/collection if the backend supports it */
+  initialize(): Promise<void>;
+
+  /** Insert or replace records; returns the number written */
+  upsert(records: UpsertRequest[], namespace: string): Promise<number>;
+
+  /** Nearest neighbours within one namespace, highest score first */
+  query(request: QueryRequest, namespace: string): Promise<QueryResult[]>;
+
+  /** Remove every record in a namespace; returns the number removed */
+  deleteNamespace(namespace: string): Promise<number>;
+
+  listNamespaces(): Promise<string[]>;
+
+  /** Page through all records (vectors + metadata) of a namespace */
+  scan(namespace: string, options: { cursor?: string; limit: number }): Promise<ScanPage>;
+
+  getStats(): Promise<VectorBackendStats>;
+
+  healthCheck(): Promise<boolean>;
+}
@@ -5,6 +5,8 @@ import billingRoutes from '../modules/billing/billing.routes';
 import ragRoutes from '../rag/rag.routes';
 import aiRoutes from '../core/ai/ai.routes';
 import userRoutes from '../modules/user/user.routes';
+import accountRoutes from '../modules/account/account.routes';
+import memoryRoutes from '../modules/memory/memory.routes';
 import settingsRoutes from '../modules/settings/settings.routes';
 import plansRoutes from './plans.routes';
 import { detectRegion } from '../modules/auth/middleware/region.middleware';
@@ -79,6 +81,8 @@ router.get(
         chat: '/api/chat',
         documentTemplates: '/api/document-templates',
         health: '/api/health',
+        account: '/api/account',
+        memory: '/api/memory',
       },
     });
   }
@@ -92,6 +96,8 @@ router.use('/billing', billingRoutes);
 router.use('/rag', ragRoutes);
 router.use('/ai', aiRoutes);
 router.use('/user', userRoutes);
+router.use('/account', accountRoutes);
+router.use('/memory', memoryRoutes);
 router.use('/settings', settingsRoutes);
 router.use('/plans', detectRegion, plansRoutes);
 // Code Execute - PUBLIC (no auth) - Using Wandbox API
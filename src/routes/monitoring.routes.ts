@@ -4,6 +4,7 @@ import { monitoringService, HealthStatus } from '../services/monitoring.service'
 import { adminGuardLight } from '../middleware/admin-guard.middleware';
 import MonitoringService from '../services/monitoring.service';
 import { cacheMiddleware } from '../middleware/cache.middleware';
+import { getAIPrometheusMetrics } from '../core/ai/utils/observability';
 
 /**
  * ==========================================
@@ -15,9 +16,10 @@ import { cacheMiddleware } from '../middleware/cache.middleware';
  * - GET /health → Basic health check (public)
  * - GET /health/detailed → Detailed health report (admin only)
  * - GET /metrics → Prometheus metrics (admin only)
+ * - GET /metrics/ai → Prometheus AI routing/usage metrics (admin only)
  * 
  * Phase 2 - Step 5: Monitoring & Alerts
- * Last Updated: November 18, 2025
+ * Last Updated: October 18, 2026
  */
 
 const router = Router();
@@ -123,6 +125,30 @@ router.get('/metrics', adminGuardLight, async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * @route   GET /metrics/ai
+ * @desc    Prometheus-style AI metrics (requests per plan, model calls, tokens, cost, latency, failures)
+ * @access  Private (Admin only - IP restricted)
+ * @returns Prometheus format metrics (cumulative since process start)
+ */
+router.get('/metrics/ai', adminGuardLight, (req: Request, res: Response) => {
+  try {
+    const metrics = getAIPrometheusMetrics();
+
+    res.setHeader('Content-Type', 'text/plain; version=0.0.4');
+    res.status(200).send(metrics);
+  } catch (error: any) {
+    console.error('AI metrics generation failed:', error);
+
+    res.status(500).json({
+      success: false,
+      message: 'AI metrics generation failed',
+      error: error.message,
+      timestamp: new Date(),
+    });
+  }
+});
+
 /**
  * @route   GET /health/ping
  * @desc    Ultra-lightweight ping endpoint (no DB check)
@@ -245,6 +271,7 @@ router.delete('/cache/invalidate/:pattern', adminGuardLight, async (req: Request
  * Admin Endpoints (IP Restricted):
  * - GET /health/detailed → Full system report (CPU, memory, uptime)
  * - GET /metrics → Prometheus metrics (for monitoring tools)
+ * - GET /metrics/ai → Prometheus AI metrics (per plan / per model)
  * 
  * Usage Examples:
  * 
@@ -256,6 +283,7 @@ router.delete('/cache/invalidate/:pattern', adminGuardLight, async (req: Request
  * 
  * # Prometheus metrics (admin only)
  * curl http://localhost:3001/metrics
+ * curl http://localhost:3001/metrics/ai
  * 
  * # Quick ping
  * curl http://localhost:3001/health/ping
@@ -5,8 +5,13 @@ dotenv.config();
 import app from './utils/app';
 import DatabaseConfig from './config/database.config';
 import { ProviderFactory } from './core/ai/providers/provider.factory';
+import { killSwitches } from './core/ai/utils/kill-switches';
+import { observabilitySink } from './core/ai/utils/observability-sink';
+import { securityPatternService } from './services/ai/security-pattern.service';
 import { logger } from '@shared/utils/logger';
+import messagingService from './services/messaging/messaging.service';
 import { startExchangeRateCron } from './cron/exchangeRates.cron';
+import { jobScheduler } from './services/jobs';
 import currencyRoutes from './routes/currency.routes';
 
 /**
@@ -81,11 +86,41 @@ class ServiceInitializer {
     }
   }
 
+  /**
+   * Load persisted kill-switch overrides and keep them in sync (needs the database)
+   */
+  public static async initializeKillSwitches(): Promise<void> {
+    await killSwitches.syncFromDatabase();
+    killSwitches.startSync();
+    console.log('✅ Kill switches synced from database');
+  }
+
+  /**
+   * Load admin-managed security patterns and keep all instances in sync (needs the database)
+   */
+  public static async initializeSecurityPatterns(): Promise<void> {
+    await securityPatternService.syncFromDatabase();
+    securityPatternService.startSync();
+    console.log('✅ Security patterns synced from database');
+  }
+
+  /**
+   * Build mail/SMS transports now so misconfiguration stops startup
+   */
+  public static initializeMessaging(): void {
+    const status = messagingService.getStatus();
+    console.log(`✅ Messaging ready (mail: ${status.mail}, sms: ${status.sms})`);
+  }
+
   /**
    * Initialize all services
    */
   public static async initializeAll(): Promise<void> {
+    this.initializeMessaging();
     await Promise.all([this.initializeAIProviders(), this.initializeDatabase()]);
+    await this.initializeKillSwitches();
+    observabilitySink.start();
+    await this.initializeSecurityPatterns();
   }
 }
 
@@ -108,6 +143,16 @@ class GracefulShutdown {
     console.log(`\n👋 ${signal} signal received: initiating graceful shutdown`);
 
     try {
+      // Stop background kill-switch sync
+      killSwitches.stopSync();
+      securityPatternService.stopSync();
+
+      // Let running jobs finish; unfinished ones are picked up by another instance
+      await jobScheduler.stop();
+
+      // Write queued observability events before the DB goes away
+      await observabilitySink.stop();
+
       // Close database connections
       await DatabaseConfig.disconnect();
       console.log('✅ Database disconnected');
@@ -183,9 +228,25 @@ class RouteLogger {
       'POST   /api/chat/send',
       'GET    /api/chat/history/:sessionId',
       'GET    /api/chat/sessions',
+      'GET    /api/chat/search',
       'DELETE /api/chat/session/:sessionId',
       'DELETE /api/chat/sessions/all',
       'PATCH  /api/chat/session/:sessionId/title',
+      'PATCH  /api/chat/session/:sessionId/pin',
+      'PATCH  /api/chat/session/:sessionId/archive',
+      'PATCH  /api/chat/message/:messageId',
+      'POST   /api/chat/message/:messageId/regenerate',
+      'PUT    /api/chat/message/:messageId/reaction',
+      'GET    /api/chat/session/:sessionId/branches',
+      'POST   /api/chat/session/:sessionId/branches',
+      'PUT    /api/chat/session/:sessionId/branches/active',
+      'GET    /api/chat/session/:sessionId/branches/compare',
+      'GET    /api/chat/session/:sessionId/branches/stats',
+      'POST   /api/chat/session/:sessionId/branches/:branchId/merge',
+      'DELETE /api/chat/session/:sessionId/branches/:branchId',
+      'POST   /api/chat/export',
+      'GET    /api/chat/export/limits',
+      'GET    /api/chat/export/session/:sessionId',
     ]);
 
 
@@ -229,6 +290,52 @@ class RouteLogger {
       'POST   /api/currency/refresh',
     ]);
 
+    // Admin Kill Switch Routes
+    this.logRouteGroup('🛑 Kill Switch Routes', [
+      'GET    /api/admin/kill-switches',
+      'GET    /api/admin/kill-switches/history',
+      'GET    /api/admin/kill-switches/:key',
+      'PUT    /api/admin/kill-switches/:key',
+      'DELETE /api/admin/kill-switches/:key',
+    ]);
+
+    // Admin AI Metrics Routes
+    this.logRouteGroup('📈 AI Metrics Routes', [
+      'GET    /api/admin/ai-metrics/daily',
+      'GET    /api/admin/ai-metrics/plans',
+      'GET    /api/admin/ai-metrics/models',
+      'GET    /api/admin/ai-metrics/token-accuracy',
+      'GET    /metrics/ai',
+    ]);
+
+    // Admin Security Routes
+    this.logRouteGroup('🛡️ Security Routes', [
+      'GET    /api/admin/security/patterns',
+      'POST   /api/admin/security/patterns',
+      'GET    /api/admin/security/patterns/:id',
+      'PUT    /api/admin/security/patterns/:id',
+      'DELETE /api/admin/security/patterns/:id',
+      'GET    /api/admin/security/patterns/:id/versions',
+      'POST   /api/admin/security/patterns/:id/rollback',
+      'POST   /api/admin/security/test-pattern',
+      'GET    /api/admin/security/config',
+      'PUT    /api/admin/security/config',
+      'GET    /api/admin/security/stats',
+      'POST   /api/admin/security/reload',
+    ]);
+
+    // Admin RAG Config Routes
+    this.logRouteGroup('🧩 RAG Config Routes', [
+      'GET    /api/admin/rag-config',
+      'POST   /api/admin/rag-config',
+      'GET    /api/admin/rag-config/effective',
+      'POST   /api/admin/rag-config/reload',
+      'GET    /api/admin/rag-config/:id',
+      'PUT    /api/admin/rag-config/:id',
+      'DELETE /api/admin/rag-config/:id',
+      'POST   /api/admin/rag-config/:id/rollback',
+    ]);
+
     console.log('');
     console.log('✨ Total Endpoints: 45+');
     console.log('🎯 Status: Ready for Production!');
@@ -279,6 +386,9 @@ class ServerManager {
 
         // Initialize Cron Jobs
         startExchangeRateCron();
+
+        // Billing lifecycle + maintenance jobs (BullMQ, needs REDIS_URL)
+        jobScheduler.start();
       });
 
       // Setup error handlers
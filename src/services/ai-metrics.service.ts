@@ -0,0 +1,447 @@
+/**
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ * SORIVA AI METRICS SERVICE v1.0
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ * Created: October 2026
+ *
+ * Purpose: Aggregates over the persisted observability events
+ * (written by core/ai/utils/observability-sink.ts)
+ *
+ * Features:
+ * - Per-day aggregates (requests, downgrades, model calls, tokens, cost, failures)
+ * - Per-plan aggregates
+ * - Per-model aggregates (incl. p95 latency)
+ * - Token estimate accuracy per model
+ *
+ * All days are UTC. Every query takes a from/to range and optional
+ * plan / model filters.
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/prisma';
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// TYPES
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export interface AIMetricsQuery {
+  from: Date;
+  to: Date;
+  plan?: string;
+  model?: string;
+}
+
+export interface DailyAIMetrics {
+  date: string;
+  requests: number;
+  downgrades: number;
+  modelCalls: number;
+  modelErrors: number;
+  tokens: number;
+  costINR: number;
+  avgLatencyMs: number;
+  failures: number;
+  recoveredFailures: number;
+}
+
+export interface PlanAIMetrics {
+  plan: string;
+  requests: number;
+  downgrades: number;
+  downgradeRate: number;
+  modelCalls: number;
+  tokens: number;
+  costINR: number;
+  avgLatencyMs: number;
+}
+
+export interface ModelAIMetrics {
+  model: string;
+  calls: number;
+  errors: number;
+  errorRate: number;
+  tokens: number;
+  costINR: number;
+  avgLatencyMs: number;
+  p95LatencyMs: number;
+}
+
+export interface TokenAccuracyMetrics {
+  model: string;
+  samples: number;
+  avgAccuracy: number;
+  avgDelta: number;
+  underestimatedRate: number;
+}
+
+export interface AIMetricsResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+interface DailyUsageRow {
+  day: Date;
+  calls: bigint;
+  errors: bigint;
+  tokens: bigint | null;
+  cost: number | null;
+  avgLatency: number | null;
+}
+
+interface DailyRoutingRow {
+  day: Date;
+  requests: bigint;
+  downgrades: bigint;
+}
+
+interface DailyFailureRow {
+  day: Date;
+  failures: bigint;
+  recovered: bigint;
+}
+
+interface ModelRow {
+  model: string;
+  calls: bigint;
+  errors: bigint;
+  tokens: bigint | null;
+  cost: number | null;
+  avgLatency: number | null;
+  p95Latency: number | null;
+}
+
+interface AccuracyRow {
+  model: string;
+  samples: bigint;
+  avgAccuracy: number | null;
+  avgDelta: number | null;
+  underestimated: bigint;
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// AI METRICS SERVICE CLASS
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export class AIMetricsService {
+  private static instance: AIMetricsService;
+
+  private constructor() {}
+
+  static getInstance(): AIMetricsService {
+    if (!AIMetricsService.instance) {
+      AIMetricsService.instance = new AIMetricsService();
+    }
+    return AIMetricsService.instance;
+  }
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // PER-DAY
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  /**
+   * One row per UTC day in the range (days without traffic are omitted).
+   * The plan filter does not apply to failures (failure events carry no plan).
+   */
+  async getDailyMetrics(query: AIMetricsQuery): Promise<AIMetricsResult<DailyAIMetrics[]>> {
+    try {
+      const [usageRows, routingRows, failureRows] = await Promise.all([
+        prisma.$queryRaw<DailyUsageRow[]>`
+          SELECT
+            date_trunc('day', "createdAt") AS "day",
+            COUNT(*) AS "calls",
+            COUNT(*) FILTER (WHERE NOT "success") AS "errors",
+            SUM("tokensActual") AS "tokens",
+            SUM("costINR")::float8 AS "cost",
+            AVG("latencyMs")::float8 AS "avgLatency"
+          FROM "ai_model_usage_logs"
+          WHERE ${this.buildFilters(query, { plan: 'plan', model: 'model' })}
+          GROUP BY 1
+        `,
+        prisma.$queryRaw<DailyRoutingRow[]>`
+          SELECT
+            date_trunc('day', "createdAt") AS "day",
+            COUNT(*) AS "requests",
+            COUNT(*) FILTER (WHERE "wasDowngraded") AS "downgrades"
+          FROM "ai_routing_logs"
+          WHERE ${this.buildFilters(query, { plan: 'plan', model: 'modelChosen' })}
+          GROUP BY 1
+        `,
+        prisma.$queryRaw<DailyFailureRow[]>`
+          SELECT
+            date_trunc('day', "createdAt") AS "day",
+            COUNT(*) AS "failures",
+            COUNT(*) FILTER (WHERE "recovered") AS "recovered"
+          FROM "ai_failure_events"
+          WHERE ${this.buildFilters(query, { model: 'model' })}
+          GROUP BY 1
+        `,
+      ]);
+
+      const days = new Map<string, DailyAIMetrics>();
+      const getDay = (day: Date): DailyAIMetrics => {
+        const date = day.toISOString().split('T')[0];
+        let metrics = days.get(date);
+        if (!metrics) {
+          metrics = {
+            date,
+            requests: 0,
+            downgrades: 0,
+            modelCalls: 0,
+            modelErrors: 0,
+            tokens: 0,
+            costINR: 0,
+            avgLatencyMs: 0,
+            failures: 0,
+            recoveredFailures: 0,
+          };
+          days.set(date, metrics);
+        }
+        return metrics;
+      };
+
+      for (const row of usageRows) {
+        const metrics = getDay(row.day);
+        metrics.modelCalls = Number(row.calls);
+        metrics.modelErrors = Number(row.errors);
+        metrics.tokens = Number(row.tokens || 0);
+        metrics.costINR = this.round(row.cost || 0, 4);
+        metrics.avgLatencyMs = Math.round(row.avgLatency || 0);
+      }
+
+      for (const row of routingRows) {
+        const metrics = getDay(row.day);
+        metrics.requests = Number(row.requests);
+        metrics.downgrades = Number(row.downgrades);
+      }
+
+      for (const row of failureRows) {
+        const metrics = getDay(row.day);
+        metrics.failures = Number(row.failures);
+        metrics.recoveredFailures = Number(row.recovered);
+      }
+
+      const data = Array.from(days.values()).sort((a, b) => a.date.localeCompare(b.date));
+      return { success: true, data };
+    } catch (error: unknown) {
+      console.error('[AIMetricsService] Daily metrics error:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to load daily metrics' };
+    }
+  }
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // PER-PLAN
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  async getPlanMetrics(query: AIMetricsQuery): Promise<AIMetricsResult<PlanAIMetrics[]>> {
+    try {
+      const range = { gte: query.from, lte: query.to };
+
+      const [routing, downgraded, usage] = await Promise.all([
+        prisma.aiRoutingLog.groupBy({
+          by: ['plan'],
+          where: { createdAt: range, plan: query.plan, modelChosen: query.model },
+          _count: { _all: true },
+        }),
+        prisma.aiRoutingLog.groupBy({
+          by: ['plan'],
+          where: { createdAt: range, plan: query.plan, modelChosen: query.model, wasDowngraded: true },
+          _count: { _all: true },
+        }),
+        prisma.aiModelUsageLog.groupBy({
+          by: ['plan'],
+          where: { createdAt: range, plan: query.plan, model: query.model },
+          _count: { _all: true },
+          _sum: { tokensActual: true, costINR: true },
+          _avg: { latencyMs: true },
+        }),
+      ]);
+
+      const plans = new Map<string, PlanAIMetrics>();
+      const getPlan = (plan: string): PlanAIMetrics => {
+        let metrics = plans.get(plan);
+        if (!metrics) {
+          metrics = {
+            plan,
+            requests: 0,
+            downgrades: 0,
+            downgradeRate: 0,
+            modelCalls: 0,
+            tokens: 0,
+            costINR: 0,
+            avgLatencyMs: 0,
+          };
+          plans.set(plan, metrics);
+        }
+        return metrics;
+      };
+
+      for (const row of routing) {
+        getPlan(row.plan).requests = row._count._all;
+      }
+      for (const row of downgraded) {
+        getPlan(row.plan).downgrades = row._count._all;
+      }
+      for (const row of usage) {
+        const metrics = getPlan(row.plan);
+        metrics.modelCalls = row._count._all;
+        metrics.tokens = row._sum.tokensActual || 0;
+        metrics.costINR = this.round(row._sum.costINR || 0, 4);
+        metrics.avgLatencyMs = Math.round(row._avg.latencyMs || 0);
+      }
+
+      const data = Array.from(plans.values()).map((metrics) => ({
+        ...metrics,
+        downgradeRate: metrics.requests > 0 ? this.round((metrics.downgrades / metrics.requests) * 100, 2) : 0,
+      }));
+      data.sort((a, b) => b.costINR - a.costINR);
+
+      return { success: true, data };
+    } catch (error: unknown) {
+      console.error('[AIMetricsService] Plan metrics error:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to load plan metrics' };
+    }
+  }
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // PER-MODEL
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  async getModelMetrics(query: AIMetricsQuery): Promise<AIMetricsResult<ModelAIMetrics[]>> {
+    try {
+      const rows = await prisma.$queryRaw<ModelRow[]>`
+        SELECT
+          "model",
+          COUNT(*) AS "calls",
+          COUNT(*) FILTER (WHERE NOT "success") AS "errors",
+          SUM("tokensActual") AS "tokens",
+          SUM("costINR")::float8 AS "cost",
+          AVG("latencyMs")::float8 AS "avgLatency",
+          percentile_cont(0.95) WITHIN GROUP (ORDER BY "latencyMs")::float8 AS "p95Latency"
+        FROM "ai_model_usage_logs"
+        WHERE ${this.buildFilters(query, { plan: 'plan', model: 'model' })}
+        GROUP BY "model"
+        ORDER BY "cost" DESC NULLS LAST
+      `;
+
+      const data = rows.map((row) => {
+        const calls = Number(row.calls);
+        const errors = Number(row.errors);
+        return {
+          model: row.model,
+          calls,
+          errors,
+          errorRate: calls > 0 ? this.round((errors / calls) * 100, 2) : 0,
+          tokens: Number(row.tokens || 0),
+          costINR: this.round(row.cost || 0, 4),
+          avgLatencyMs: Math.round(row.avgLatency || 0),
+          p95LatencyMs: Math.round(row.p95Latency || 0),
+        };
+      });
+
+      return { success: true, data };
+    } catch (error: unknown) {
+      console.error('[AIMetricsService] Model metrics error:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to load model metrics' };
+    }
+  }
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // TOKEN ESTIMATE ACCURACY
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  /**
+   * Same formula as MetricsStore.getTokenEstimateAccuracy:
+   * accuracy = max(0, 100 - |estimated - actual| / actual * 100)
+   * avgDelta = actual - estimated (positive = we underestimated)
+   */
+  async getTokenAccuracy(
+    query: AIMetricsQuery
+  ): Promise<AIMetricsResult<{ overall: TokenAccuracyMetrics; byModel: TokenAccuracyMetrics[] }>> {
+    try {
+      const rows = await prisma.$queryRaw<AccuracyRow[]>`
+        SELECT
+          "model",
+          COUNT(*) AS "samples",
+          AVG(GREATEST(0, 100 - ABS("tokensEstimated" - "tokensActual")::float8 / "tokensActual" * 100)) AS "avgAccuracy",
+          AVG("tokensActual" - "tokensEstimated")::float8 AS "avgDelta",
+          COUNT(*) FILTER (WHERE "tokensActual" > "tokensEstimated") AS "underestimated"
+        FROM "ai_model_usage_logs"
+        WHERE ${this.buildFilters(query, { plan: 'plan', model: 'model' })}
+          AND "tokensEstimated" IS NOT NULL
+          AND "tokensActual" > 0
+        GROUP BY "model"
+        ORDER BY "samples" DESC
+      `;
+
+      const byModel = rows.map((row) => this.toAccuracy(row.model, row));
+
+      const totalSamples = byModel.reduce((sum, m) => sum + m.samples, 0);
+      const weighted = (pick: (m: TokenAccuracyMetrics) => number): number =>
+        totalSamples > 0 ? byModel.reduce((sum, m) => sum + pick(m) * m.samples, 0) / totalSamples : 0;
+
+      const overall: TokenAccuracyMetrics = {
+        model: 'all',
+        samples: totalSamples,
+        avgAccuracy: totalSamples > 0 ? this.round(weighted((m) => m.avgAccuracy), 2) : 100,
+        avgDelta: Math.round(weighted((m) => m.avgDelta)),
+        underestimatedRate: this.round(weighted((m) => m.underestimatedRate), 2),
+      };
+
+      return { success: true, data: { overall, byModel } };
+    } catch (error: unknown) {
+      console.error('[AIMetricsService] Token accuracy error:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to load token accuracy' };
+    }
+  }
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // PRIVATE HELPERS
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  /**
+   * WHERE clause for a range plus optional plan/model filters.
+   * columns maps each filter to its column name in the queried table.
+   */
+  private buildFilters(
+    query: AIMetricsQuery,
+    columns: { plan?: string; model?: string }
+  ): Prisma.Sql {
+    const conditions: Prisma.Sql[] = [
+      Prisma.sql`"createdAt" >= ${query.from}`,
+      Prisma.sql`"createdAt" <= ${query.to}`,
+    ];
+
+    if (query.plan && columns.plan) {
+      conditions.push(Prisma.sql`${Prisma.raw(`"${columns.plan}"`)} = ${query.plan}`);
+    }
+    if (query.model && columns.model) {
+      conditions.push(Prisma.sql`${Prisma.raw(`"${columns.model}"`)} = ${query.model}`);
+    }
+
+    return Prisma.join(conditions, ' AND ');
+  }
+
+  private toAccuracy(model: string, row: AccuracyRow): TokenAccuracyMetrics {
+    const samples = Number(row.samples);
+    return {
+      model,
+      samples,
+      avgAccuracy: this.round(row.avgAccuracy ?? 100, 2),
+      avgDelta: Math.round(row.avgDelta || 0),
+      underestimatedRate: samples > 0 ? this.round((Number(row.underestimated) / samples) * 100, 2) : 0,
+    };
+  }
+
+  private round(value: number, decimals: number): number {
+    const factor = Math.pow(10, decimals);
+    return Math.round(value * factor) / factor;
+  }
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// EXPORT SINGLETON
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export const aiMetricsService = AIMetricsService.getInstance();
@@ -24,11 +24,14 @@ import {
   ProviderFactory,
   MessageRole,
   AIMessage,
+  AIMediaPart,
   AIResponse,
+  AIRequestConfig,
   AIError,
   ErrorHandler,
   createAIModel,
 } from '../../core/ai/providers';
+import { toolRegistry, ToolExecutionContext } from '../../core/ai/tools';
 
 // ✅ FIXED IMPORTS - Added classifyIntent
 import { SORIVA_IDENTITY, cleanResponse, getMaxTokens, classifyIntent } from '../../core/ai/prompts';
@@ -98,6 +101,11 @@ export interface ChatRequest {
   emotionalContext?: EmotionResult;
   region?: 'IN' | 'INTL';
   mode?: 'normal' | 'code';
+  enableTools?: boolean;    // Default: AI_TOOLS_ENABLED
+  tools?: string[];         // Restrict to these tool names (default: all registered)
+  location?: string;        // Passed to tools (e.g. weather)
+  timezone?: string;
+  attachments?: AIMediaPart[];  // Images / PDFs / audio sent with the user message
 }
 
 export interface ChatResponse {
@@ -120,6 +128,7 @@ export interface ChatResponse {
     highStakes?: boolean;
     recoveryUsed?: boolean;
     recoveryAction?: string;
+    toolsUsed?: string[];
     gracefulHandling?: {
       conflictDetected: boolean;
       conflictType: string | null;
@@ -215,6 +224,15 @@ function normalizePlanType(planType: PlanType | string): PlanType {
 // CONVERSATION HISTORY LIMITS (Token Optimized)
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// TOOL CALLING
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const TOOL_LOOP_CONFIG = {
+  ENABLED: process.env.AI_TOOLS_ENABLED !== 'false',
+  MAX_ROUNDS: parseInt(process.env.AI_TOOL_MAX_ROUNDS || '3'), // Model ↔ tool round trips per request
+};
+
 const HISTORY_LIMITS = {
   [PlanType.STARTER]: 2,
   [PlanType.LITE]: 2,
@@ -386,6 +404,17 @@ export class AIService {
         console.log('[AIService] 🔍 Grounding enabled - routing to Gemini for real-time data');
       }
 
+      // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+      // Multimodal Check - audio / PDF inputs need Gemini
+      // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+      const attachments = request.attachments || [];
+      const needsGeminiInput = attachments.some((part) => part.type !== 'image');
+
+      if (needsGeminiInput && !enableGrounding) {
+        routingDecision.modelId = 'gemini-2.0-flash' as any;
+        console.log('[AIService] 📎 Audio/PDF attachment - routing to Gemini');
+      }
+
       // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
       // Kill-switch overrides AFTER routing decision
       // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
@@ -421,8 +450,8 @@ export class AIService {
       // Per-Model Quota Check - Smart Fallback (NOT direct to budget!)
       // GPT exhausted → Haiku → Mistral → Gemini (budget)
       // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-      if (!enableGrounding) {
-        // Skip quota check for grounding queries (always use Gemini)
+      if (!enableGrounding && !needsGeminiInput) {
+        // Skip quota check for grounding / audio / PDF queries (always use Gemini)
         const quotaResult = await modelUsageService.getBestAvailableModel(
           request.userId,
           normalizedPlanType,
@@ -516,6 +545,9 @@ export class AIService {
         {
           role: MessageRole.USER,
           content: safeUserMessage,
+          parts: attachments.length > 0
+            ? [{ type: 'text', text: safeUserMessage }, ...attachments]
+            : undefined,
         },
       ];
             // 🔍 TOKEN DEBUG - Remove after finding issue
@@ -549,16 +581,30 @@ export class AIService {
         region: userRegion,
         
         execute: async (modelId: string) => {
-          return await this.factory.executeWithFallback(normalizedPlanType, {
-            model: createAIModel(modelId as any),
-            messages,
-            temperature: routingDecision.temperature ?? request.temperature ?? 0.7,
-            // ✅ FIXED: getMaxTokens now uses intent
-            maxTokens: request.maxTokens ?? getMaxTokens(normalizedPlanType as any, intent),
-            userId: request.userId,
-            // ✅ NEW: Pass grounding flag for Gemini
-            enableGrounding: enableGrounding,
-          });
+          // Grounding (Google Search) can't be combined with function declarations
+          const useTools =
+            (request.enableTools ?? TOOL_LOOP_CONFIG.ENABLED) && !enableGrounding;
+
+          return await this.executeWithTools(
+            normalizedPlanType,
+            {
+              model: createAIModel(modelId as any),
+              messages,
+              temperature: routingDecision.temperature ?? request.temperature ?? 0.7,
+              // ✅ FIXED: getMaxTokens now uses intent
+              maxTokens: request.maxTokens ?? getMaxTokens(normalizedPlanType as any, intent),
+              userId: request.userId,
+              // ✅ NEW: Pass grounding flag for Gemini
+              enableGrounding: enableGrounding,
+              tools: useTools ? toolRegistry.getDefinitions(request.tools) : undefined,
+            },
+            {
+              userId: request.userId,
+              location: request.location,
+              language: request.language as ToolExecutionContext['language'],
+              timezone: request.timezone,
+            }
+          );
         },
       });
 
@@ -719,6 +765,7 @@ export class AIService {
           highStakes: isHighStakesContext,
           recoveryUsed: usedFallback,
           recoveryAction: usedFallback ? recoveryResult.action : undefined,
+          toolsUsed: response.metadata.toolsUsed,
           smartRouting: {
             selectedModel: routingDecision.displayName,
             complexity: routingDecision.complexity,
@@ -933,10 +980,18 @@ export class AIService {
         });
       const safeUserMessage = this.redactPII(request.message);
 
+      const attachments = request.attachments || [];
+
       const messages: AIMessage[] = [
         { role: MessageRole.SYSTEM, content: safeSystemPrompt },
         ...safeHistory,
-        { role: MessageRole.USER, content: safeUserMessage },
+        {
+          role: MessageRole.USER,
+          content: safeUserMessage,
+          parts: attachments.length > 0
+            ? [{ type: 'text', text: safeUserMessage }, ...attachments]
+            : undefined,
+        },
       ];
 
       // ✅ FIXED: Classify intent for getMaxTokens
@@ -980,6 +1035,12 @@ export class AIService {
         });
       }
 
+      // Audio / PDF inputs need Gemini
+      if (attachments.some((part) => part.type !== 'image')) {
+        finalModelId = 'gemini-2.0-flash' as any;
+        console.log('[StreamChat] 📎 Audio/PDF attachment - routing to Gemini');
+      }
+
        console.log(`[StreamChat] 🚀 FINAL MODEL BEING USED: ${finalModelId}`);
       
       const stream = this.factory.streamWithFallback(normalizedPlanType, {
@@ -1511,6 +1572,75 @@ private findAllowedModel(
   return isModelAllowed('mistral-large-latest') ? 'mistral-large-latest' : 'gemini-2.0-flash';
 }
 
+  /**
+   * Run a request and resolve any tool calls the model makes.
+   * Loops model → tools → model until the model answers in text or
+   * MAX_ROUNDS is reached (then one final call with toolChoice 'none').
+   * Token usage is summed across all rounds.
+   */
+  private async executeWithTools(
+    planType: PlanType,
+    config: AIRequestConfig,
+    context: ToolExecutionContext
+  ): Promise<AIResponse> {
+    if (!config.tools || config.tools.length === 0) {
+      return this.factory.executeWithFallback(planType, config);
+    }
+
+    const messages: AIMessage[] = [...config.messages];
+    const usage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+    const toolsUsed: string[] = [];
+    let response: AIResponse | null = null;
+
+    for (let round = 0; round <= TOOL_LOOP_CONFIG.MAX_ROUNDS; round++) {
+      const isLastRound = round === TOOL_LOOP_CONFIG.MAX_ROUNDS;
+
+      response = await this.factory.executeWithFallback(planType, {
+        ...config,
+        messages,
+        toolChoice: isLastRound ? 'none' : config.toolChoice,
+      });
+
+      usage.promptTokens += response.usage.promptTokens;
+      usage.completionTokens += response.usage.completionTokens;
+      usage.totalTokens += response.usage.totalTokens;
+
+      if (!response.toolCalls || response.toolCalls.length === 0 || isLastRound) {
+        break;
+      }
+
+      messages.push({
+        role: MessageRole.ASSISTANT,
+        content: response.content || '',
+        toolCalls: response.toolCalls,
+      });
+
+      const executions = await Promise.all(
+        response.toolCalls.map((call) => toolRegistry.execute(call, context))
+      );
+
+      for (const execution of executions) {
+        toolsUsed.push(execution.call.name);
+        messages.push(toolRegistry.toToolMessage(execution));
+      }
+
+      console.log('[AIService] 🛠️ Tools executed:', {
+        round: round + 1,
+        tools: executions.map((e) => `${e.call.name}(${e.result.success ? 'ok' : 'failed'}, ${e.latencyMs}ms)`),
+      });
+    }
+
+    return {
+      ...response!,
+      toolCalls: undefined,
+      usage,
+      metadata: {
+        ...response!.metadata,
+        toolsUsed: toolsUsed.length > 0 ? toolsUsed : undefined,
+      },
+    };
+  }
+
   private limitConversationHistory(
     history: AIMessage[],
     memoryDays: number,
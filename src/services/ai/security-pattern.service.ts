@@ -0,0 +1,699 @@
+/**
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ * SORIVA AI - SECURITY PATTERN SERVICE
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ * Created: October 2026
+ * Purpose: Admin-managed security patterns & config with version history
+ * Architecture: Singleton class, DB-backed (security_patterns,
+ *               security_pattern_versions, security_configs)
+ *
+ * Features:
+ * - Pattern CRUD; every change writes a full snapshot version
+ * - Rollback to any version (also restores deleted patterns)
+ * - Editable security config values with type / range validation
+ * - Hot reload of SecurityConfigManager, JailbreakDetector and
+ *   PromptSanitizerService - other instances pick changes up by polling
+ *   the latest change timestamp (SECURITY_SYNC_INTERVAL_MS)
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ */
+
+import { Prisma, SecurityPattern } from '@prisma/client';
+import { prisma } from '../../config/prisma';
+import SecurityConfigManager, {
+  ActionType,
+  CategoryType,
+  SeverityLevel,
+} from '../../core/ai/security/core/security-config';
+import { JailbreakDetector } from '../../core/ai/security/core/jailbreak-detector';
+import { PromptSanitizerService } from '../../core/ai/security/core/prompt-sanitizer';
+import { ConfigService } from './config.service';
+import { auditLogService, AuditEventType } from '../audit-log.service';
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// CONFIGURATION
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const SYNC_INTERVAL_MS = parseInt(process.env.SECURITY_SYNC_INTERVAL_MS || '10000');
+
+export const SECURITY_SEVERITIES: SeverityLevel[] = ['LOW', 'MEDIUM', 'HIGH', 'CRITICAL'];
+export const SECURITY_ACTIONS: ActionType[] = ['BLOCK', 'WARN', 'LOG', 'ALLOW'];
+export const SECURITY_CATEGORIES: CategoryType[] = [
+  'JAILBREAK',
+  'PROMPT_EXPOSURE',
+  'MODEL_REVEAL',
+  'HARMFUL',
+  'ILLEGAL',
+  'SELF_HARM',
+  'INJECTION',
+  'MANIPULATION',
+];
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// TYPES
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export type SecurityPatternChangeType = 'CREATE' | 'UPDATE' | 'DELETE' | 'ROLLBACK';
+
+export type SecurityPatternErrorReason =
+  | 'not_found'
+  | 'version_not_found'
+  | 'duplicate_name'
+  | 'invalid_config';
+
+export interface SecurityPatternInput {
+  name?: string;
+  pattern?: string;
+  category?: CategoryType;
+  severity?: SeverityLevel;
+  action?: ActionType;
+  description?: string;
+  enabled?: boolean;
+  priority?: number;
+  examples?: string[];
+  falsePositives?: string[];
+}
+
+export interface SecurityPatternFilters {
+  enabled?: boolean;
+  severity?: string;
+  category?: string;
+}
+
+export interface SecurityChangeMeta {
+  changedBy: string;
+  reason?: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export interface SecurityPatternResult {
+  success: boolean;
+  pattern?: SecurityPattern;
+  version?: number;
+  error?: string;
+  reason?: SecurityPatternErrorReason;
+}
+
+export interface SecurityConfigEntry {
+  key: string;
+  value: unknown;
+  dataType: string;
+  category: string;
+  description: string;
+  isEditable: boolean;
+  minValue: number | null;
+  maxValue: number | null;
+  allowedValues: string[];
+  previousValue: string | null;
+  changedBy: string | null;
+  changedAt: Date | null;
+}
+
+export interface SecurityConfigUpdateResult {
+  success: boolean;
+  configs?: SecurityConfigEntry[];
+  error?: string;
+  reason?: SecurityPatternErrorReason;
+}
+
+export interface SecurityReloadResult {
+  patternsLoaded: number;
+  patternsSkipped: string[];
+  reloadedAt: Date;
+}
+
+/** Fields captured in every version snapshot */
+type PatternSnapshot = Pick<
+  SecurityPattern,
+  | 'name'
+  | 'pattern'
+  | 'category'
+  | 'severity'
+  | 'action'
+  | 'description'
+  | 'examples'
+  | 'falsePositives'
+  | 'isActive'
+  | 'priority'
+>;
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// SECURITY PATTERN SERVICE CLASS
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export class SecurityPatternService {
+  private static instance: SecurityPatternService;
+
+  private syncTimer: NodeJS.Timeout | null = null;
+  private lastRevision: string | null = null;
+  private lastReloadedAt: Date | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): SecurityPatternService {
+    if (!SecurityPatternService.instance) {
+      SecurityPatternService.instance = new SecurityPatternService();
+    }
+    return SecurityPatternService.instance;
+  }
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // PATTERNS - READ
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  public async listPatterns(filters: SecurityPatternFilters = {}): Promise<SecurityPattern[]> {
+    return prisma.securityPattern.findMany({
+      where: {
+        isActive: filters.enabled,
+        severity: filters.severity,
+        category: filters.category,
+      },
+      orderBy: [{ priority: 'desc' }, { createdAt: 'asc' }],
+    });
+  }
+
+  public async getPattern(id: string): Promise<SecurityPattern | null> {
+    return prisma.securityPattern.findUnique({ where: { id } });
+  }
+
+  /**
+   * Version history (newest first) - also available after a pattern is deleted
+   */
+  public async getVersions(patternId: string) {
+    return prisma.securityPatternVersion.findMany({
+      where: { patternId },
+      orderBy: { version: 'desc' },
+    });
+  }
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // PATTERNS - WRITE
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  public async createPattern(
+    input: SecurityPatternInput & Required<Pick<SecurityPatternInput, 'pattern' | 'category' | 'severity' | 'description'>>,
+    meta: SecurityChangeMeta
+  ): Promise<SecurityPatternResult> {
+    try {
+      const pattern = await prisma.$transaction(async (tx) => {
+        const created = await tx.securityPattern.create({
+          data: {
+            name: input.name || `${input.category.toLowerCase()}_${Date.now()}`,
+            pattern: input.pattern,
+            category: input.category,
+            severity: input.severity,
+            action: input.action || 'BLOCK',
+            description: input.description,
+            examples: input.examples || [],
+            falsePositives: input.falsePositives || [],
+            isActive: input.enabled ?? true,
+            priority: input.priority ?? 100,
+            version: 1,
+            createdBy: meta.changedBy,
+            updatedBy: meta.changedBy,
+          },
+        });
+
+        await this.writeVersion(tx, created, 'CREATE', meta);
+        return created;
+      });
+
+      await this.afterPatternChange(pattern.id, pattern.name, 'CREATE', pattern.version, meta);
+      return { success: true, pattern, version: pattern.version };
+    } catch (error: unknown) {
+      return this.handleWriteError(error, 'create');
+    }
+  }
+
+  public async updatePattern(
+    id: string,
+    updates: SecurityPatternInput,
+    meta: SecurityChangeMeta
+  ): Promise<SecurityPatternResult> {
+    try {
+      const pattern = await prisma.$transaction(async (tx) => {
+        const existing = await tx.securityPattern.findUnique({ where: { id } });
+        if (!existing) return null;
+
+        const updated = await tx.securityPattern.update({
+          where: { id },
+          data: {
+            name: updates.name,
+            pattern: updates.pattern,
+            category: updates.category,
+            severity: updates.severity,
+            action: updates.action,
+            description: updates.description,
+            examples: updates.examples,
+            falsePositives: updates.falsePositives,
+            isActive: updates.enabled,
+            priority: updates.priority,
+            version: { increment: 1 },
+            updatedBy: meta.changedBy,
+          },
+        });
+
+        await this.writeVersion(tx, updated, 'UPDATE', meta);
+        return updated;
+      });
+
+      if (!pattern) {
+        return { success: false, error: 'Pattern not found', reason: 'not_found' };
+      }
+
+      await this.afterPatternChange(pattern.id, pattern.name, 'UPDATE', pattern.version, meta);
+      return { success: true, pattern, version: pattern.version };
+    } catch (error: unknown) {
+      return this.handleWriteError(error, 'update');
+    }
+  }
+
+  /**
+   * Delete a pattern - its last state is kept as a DELETE version for rollback
+   */
+  public async deletePattern(id: string, meta: SecurityChangeMeta): Promise<SecurityPatternResult> {
+    try {
+      const deleted = await prisma.$transaction(async (tx) => {
+        const existing = await tx.securityPattern.findUnique({ where: { id } });
+        if (!existing) return null;
+
+        await tx.securityPattern.delete({ where: { id } });
+        const version = existing.version + 1;
+        await this.writeVersion(tx, { ...existing, version }, 'DELETE', meta);
+        return { ...existing, version };
+      });
+
+      if (!deleted) {
+        return { success: false, error: 'Pattern not found', reason: 'not_found' };
+      }
+
+      await this.afterPatternChange(deleted.id, deleted.name, 'DELETE', deleted.version, meta);
+      return { success: true, pattern: deleted, version: deleted.version };
+    } catch (error: unknown) {
+      return this.handleWriteError(error, 'delete');
+    }
+  }
+
+  /**
+   * Restore the state recorded in a version (recreates the pattern if it was deleted).
+   * The rollback itself becomes a new version.
+   */
+  public async rollbackPattern(
+    id: string,
+    targetVersion: number,
+    meta: SecurityChangeMeta
+  ): Promise<SecurityPatternResult> {
+    try {
+      const target = await prisma.securityPatternVersion.findUnique({
+        where: { patternId_version: { patternId: id, version: targetVersion } },
+      });
+      if (!target) {
+        return { success: false, error: `Version ${targetVersion} not found`, reason: 'version_not_found' };
+      }
+
+      const snapshot = target.snapshot as unknown as PatternSnapshot;
+
+      const pattern = await prisma.$transaction(async (tx) => {
+        const latest = await tx.securityPatternVersion.findFirst({
+          where: { patternId: id },
+          orderBy: { version: 'desc' },
+          select: { version: true },
+        });
+        const version = (latest?.version || 0) + 1;
+
+        const restored = await tx.securityPattern.upsert({
+          where: { id },
+          update: { ...snapshot, version, updatedBy: meta.changedBy },
+          create: { id, ...snapshot, version, createdBy: meta.changedBy, updatedBy: meta.changedBy },
+        });
+
+        await this.writeVersion(tx, restored, 'ROLLBACK', {
+          ...meta,
+          reason: meta.reason || `Rollback to version ${targetVersion}`,
+        });
+        return restored;
+      });
+
+      await this.afterPatternChange(pattern.id, pattern.name, 'ROLLBACK', pattern.version, {
+        ...meta,
+        reason: meta.reason || `Rollback to version ${targetVersion}`,
+      });
+      return { success: true, pattern, version: pattern.version };
+    } catch (error: unknown) {
+      return this.handleWriteError(error, 'roll back');
+    }
+  }
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // SECURITY CONFIG VALUES
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  public async listConfigs(category?: string): Promise<SecurityConfigEntry[]> {
+    const rows = await prisma.securityConfig.findMany({
+      where: { isActive: true, category },
+      orderBy: [{ category: 'asc' }, { configKey: 'asc' }],
+    });
+
+    return rows.map((row) => ({
+      key: row.configKey,
+      value: this.parseConfigValue(row.configValue, row.dataType),
+      dataType: row.dataType,
+      category: row.category,
+      description: row.description,
+      isEditable: row.isEditable,
+      minValue: row.minValue,
+      maxValue: row.maxValue,
+      allowedValues: row.allowedValues,
+      previousValue: row.previousValue,
+      changedBy: row.changedBy,
+      changedAt: row.changedAt,
+    }));
+  }
+
+  /**
+   * Update several config values at once (all validated before anything is written)
+   */
+  public async updateConfigs(
+    updates: Record<string, unknown>,
+    meta: SecurityChangeMeta
+  ): Promise<SecurityConfigUpdateResult> {
+    const keys = Object.keys(updates);
+    if (keys.length === 0) {
+      return { success: false, error: 'No config values provided', reason: 'invalid_config' };
+    }
+
+    try {
+      const rows = await prisma.securityConfig.findMany({
+        where: { configKey: { in: keys }, isActive: true },
+      });
+      const rowsByKey = new Map(rows.map((row) => [row.configKey, row]));
+
+      const writes: Array<{ key: string; previous: string; next: string }> = [];
+      for (const key of keys) {
+        const row = rowsByKey.get(key);
+        if (!row) {
+          return { success: false, error: `Unknown config key: ${key}`, reason: 'invalid_config' };
+        }
+        if (!row.isEditable) {
+          return { success: false, error: `Config key is not editable: ${key}`, reason: 'invalid_config' };
+        }
+
+        const validation = this.validateConfigValue(row, updates[key]);
+        if (validation.error !== undefined) {
+          return { success: false, error: `${key}: ${validation.error}`, reason: 'invalid_config' };
+        }
+
+        writes.push({ key, previous: row.configValue, next: validation.value });
+      }
+
+      const changedAt = new Date();
+      await prisma.$transaction(
+        writes.map((write) =>
+          prisma.securityConfig.update({
+            where: { configKey: write.key },
+            data: {
+              previousValue: write.previous,
+              configValue: write.next,
+              changedBy: meta.changedBy,
+              changedAt,
+            },
+          })
+        )
+      );
+
+      await auditLogService.log({
+        eventType: AuditEventType.SECURITY_CONFIG_CHANGE,
+        userId: meta.changedBy,
+        ipAddress: meta.ipAddress,
+        userAgent: meta.userAgent,
+        success: true,
+        message: `Security config updated: ${keys.join(', ')}`,
+        metadata: {
+          changes: writes.map((write) => ({ key: write.key, from: write.previous, to: write.next })),
+          reason: meta.reason,
+        },
+      });
+
+      await this.reload();
+      return { success: true, configs: await this.listConfigs() };
+    } catch (error: unknown) {
+      console.error('[SecurityPatternService] Update configs error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to update security config',
+      };
+    }
+  }
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // HOT RELOAD & SYNC
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  /**
+   * Push the current DB state into the live security services on this instance
+   */
+  public async reload(): Promise<SecurityReloadResult> {
+    const [rows, revision] = await Promise.all([
+      prisma.securityPattern.findMany({
+        where: { isActive: true },
+        orderBy: { priority: 'desc' },
+      }),
+      this.getRevision(),
+    ]);
+
+    const { loaded, skipped } = SecurityConfigManager.getInstance().syncDatabasePatterns(
+      rows
+        .filter(
+          (row) =>
+            SECURITY_SEVERITIES.includes(row.severity as SeverityLevel) &&
+            SECURITY_CATEGORIES.includes(row.category as CategoryType) &&
+            SECURITY_ACTIONS.includes(row.action as ActionType)
+        )
+        .map((row) => ({
+          id: row.id,
+          name: row.name,
+          pattern: row.pattern,
+          severity: row.severity as SeverityLevel,
+          category: row.category as CategoryType,
+          action: row.action as ActionType,
+          description: row.description,
+          priority: row.priority,
+          version: row.version,
+        }))
+    );
+
+    await JailbreakDetector.getInstance().reloadPatterns();
+    await PromptSanitizerService.getInstance().reloadThresholds();
+
+    try {
+      await ConfigService.getInstance().reloadAll();
+    } catch (error: unknown) {
+      console.warn(
+        '[SecurityPatternService] ConfigService reload failed:',
+        error instanceof Error ? error.message : error
+      );
+    }
+
+    this.lastRevision = revision;
+    this.lastReloadedAt = new Date();
+
+    return { patternsLoaded: loaded, patternsSkipped: skipped, reloadedAt: this.lastReloadedAt };
+  }
+
+  /**
+   * Reload if another instance changed patterns or config since our last reload
+   */
+  public async syncFromDatabase(): Promise<void> {
+    try {
+      const revision = await this.getRevision();
+      if (revision !== this.lastRevision) {
+        await this.reload();
+      }
+    } catch (error: unknown) {
+      console.warn(
+        '[SecurityPatternService] Sync failed:',
+        error instanceof Error ? error.message : error
+      );
+    }
+  }
+
+  public startSync(): void {
+    if (this.syncTimer) return;
+
+    this.syncTimer = setInterval(() => {
+      void this.syncFromDatabase();
+    }, SYNC_INTERVAL_MS);
+    this.syncTimer.unref();
+  }
+
+  public stopSync(): void {
+    if (this.syncTimer) {
+      clearInterval(this.syncTimer);
+      this.syncTimer = null;
+    }
+  }
+
+  public getSyncStatus(): { lastReloadedAt: Date | null; syncIntervalMs: number; syncing: boolean } {
+    return {
+      lastReloadedAt: this.lastReloadedAt,
+      syncIntervalMs: SYNC_INTERVAL_MS,
+      syncing: this.syncTimer !== null,
+    };
+  }
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // PRIVATE HELPERS
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  /**
+   * Every pattern change writes a version row, every config change bumps updatedAt
+   */
+  private async getRevision(): Promise<string> {
+    const [latestVersion, latestConfig] = await Promise.all([
+      prisma.securityPatternVersion.aggregate({ _max: { createdAt: true } }),
+      prisma.securityConfig.aggregate({ _max: { updatedAt: true } }),
+    ]);
+
+    return [
+      latestVersion._max.createdAt?.toISOString() || '-',
+      latestConfig._max.updatedAt?.toISOString() || '-',
+    ].join('|');
+  }
+
+  private async writeVersion(
+    tx: Prisma.TransactionClient,
+    pattern: SecurityPattern,
+    changeType: SecurityPatternChangeType,
+    meta: SecurityChangeMeta
+  ): Promise<void> {
+    const snapshot: PatternSnapshot = {
+      name: pattern.name,
+      pattern: pattern.pattern,
+      category: pattern.category,
+      severity: pattern.severity,
+      action: pattern.action,
+      description: pattern.description,
+      examples: pattern.examples,
+      falsePositives: pattern.falsePositives,
+      isActive: pattern.isActive,
+      priority: pattern.priority,
+    };
+
+    await tx.securityPatternVersion.create({
+      data: {
+        patternId: pattern.id,
+        version: pattern.version,
+        changeType,
+        snapshot: snapshot as unknown as Prisma.InputJsonValue,
+        reason: meta.reason,
+        changedBy: meta.changedBy,
+      },
+    });
+  }
+
+  private async afterPatternChange(
+    patternId: string,
+    name: string,
+    changeType: SecurityPatternChangeType,
+    version: number,
+    meta: SecurityChangeMeta
+  ): Promise<void> {
+    await auditLogService.log({
+      eventType: AuditEventType.SECURITY_PATTERN_CHANGE,
+      userId: meta.changedBy,
+      ipAddress: meta.ipAddress,
+      userAgent: meta.userAgent,
+      success: true,
+      message: `Security pattern ${name} ${changeType.toLowerCase()} (v${version})`,
+      metadata: { patternId, name, changeType, version, reason: meta.reason },
+    });
+
+    try {
+      await this.reload();
+    } catch (error: unknown) {
+      // The change is committed - other instances (and this one) pick it up on the next sync
+      console.error('[SecurityPatternService] Reload after change failed:', error);
+    }
+  }
+
+  private handleWriteError(error: unknown, action: string): SecurityPatternResult {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return { success: false, error: 'A pattern with this name already exists', reason: 'duplicate_name' };
+    }
+
+    console.error(`[SecurityPatternService] Failed to ${action} pattern:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : `Failed to ${action} pattern`,
+    };
+  }
+
+  private parseConfigValue(value: string, dataType: string): unknown {
+    try {
+      switch (dataType) {
+        case 'INT':
+          return parseInt(value, 10);
+        case 'FLOAT':
+          return parseFloat(value);
+        case 'BOOLEAN':
+          return value.toLowerCase() === 'true';
+        case 'JSON':
+          return JSON.parse(value);
+        default:
+          return value;
+      }
+    } catch {
+      return value;
+    }
+  }
+
+  /**
+   * Check a new value against the row's type, range and allowed values.
+   * Returns the value serialized for storage.
+   */
+  private validateConfigValue(
+    row: { dataType: string; minValue: number | null; maxValue: number | null; allowedValues: string[] },
+    value: unknown
+  ): { value: string; error?: undefined } | { value?: undefined; error: string } {
+    switch (row.dataType) {
+      case 'INT':
+      case 'FLOAT': {
+        if (typeof value !== 'number' || !isFinite(value)) {
+          return { error: 'must be a number' };
+        }
+        if (row.dataType === 'INT' && !Number.isInteger(value)) {
+          return { error: 'must be an integer' };
+        }
+        if (row.minValue !== null && value < row.minValue) {
+          return { error: `must be >= ${row.minValue}` };
+        }
+        if (row.maxValue !== null && value > row.maxValue) {
+          return { error: `must be <= ${row.maxValue}` };
+        }
+        return { value: String(value) };
+      }
+      case 'BOOLEAN':
+        if (typeof value !== 'boolean') {
+          return { error: 'must be a boolean' };
+        }
+        return { value: value ? 'true' : 'false' };
+      case 'JSON':
+        return { value: JSON.stringify(value) };
+      default: {
+        if (typeof value !== 'string') {
+          return { error: 'must be a string' };
+        }
+        if (row.allowedValues.length > 0 && !row.allowedValues.includes(value)) {
+          return { error: `must be one of ${row.allowedValues.join(', ')}` };
+        }
+        return { value };
+      }
+    }
+  }
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// EXPORT SINGLETON INSTANCE
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export const securityPatternService = SecurityPatternService.getInstance();
@@ -1,5 +1,6 @@
 // src/services/audit-log.service.ts
-import { PrismaClient } from '@prisma/client';
+import { AuditLog, PrismaClient } from '@prisma/client';
+import { prisma } from '../config/prisma';
 
 /**
  * ==========================================
@@ -8,7 +9,8 @@ import { PrismaClient } from '@prisma/client';
  * Class-based audit logging service
  * Tracks security-critical events
  * Matches existing backend architecture
- * Last Updated: November 18, 2025
+ * Stored in the audit_logs table
+ * Last Updated: October 18, 2026
  */
 
 /**
@@ -40,9 +42,20 @@ export enum AuditEventType {
   EMAIL_VERIFICATION = 'EMAIL_VERIFICATION',
   REGION_UPDATE = 'REGION_UPDATE',
 
+  // Account
+  ACCOUNT_DELETION_REQUESTED = 'ACCOUNT_DELETION_REQUESTED',
+  ACCOUNT_DELETION_CANCELLED = 'ACCOUNT_DELETION_CANCELLED',
+  ACCOUNT_DELETED = 'ACCOUNT_DELETED',
+
   // Admin
   ADMIN_ACCESS = 'ADMIN_ACCESS',
   USER_DATA_EXPORT = 'USER_DATA_EXPORT',
+  KILL_SWITCH_CHANGE = 'KILL_SWITCH_CHANGE',
+  SECURITY_PATTERN_CHANGE = 'SECURITY_PATTERN_CHANGE',
+  SECURITY_CONFIG_CHANGE = 'SECURITY_CONFIG_CHANGE',
+  RAG_CONFIG_CHANGE = 'RAG_CONFIG_CHANGE',
+  JOB_SCHEDULER_CHANGE = 'JOB_SCHEDULER_CHANGE',
+  COUPON_CHANGE = 'COUPON_CHANGE',
 }
 
 /**
@@ -66,7 +79,7 @@ export class AuditLogService {
   private prisma: PrismaClient;
 
   constructor() {
-    this.prisma = new PrismaClient();
+    this.prisma = prisma;
   }
 
   /**
@@ -75,8 +88,7 @@ export class AuditLogService {
   public async log(entry: AuditLogEntry): Promise<void> {
     try {
       this.logToConsole(entry);
-      // TODO: Store in database after creating AuditLog model in Prisma schema
-      // await this.storeInDatabase(entry);
+      await this.storeInDatabase(entry);
     } catch (error) {
       console.error('❌ Failed to log audit event:', error);
       // Don't throw - logging failure shouldn't break the app
@@ -225,11 +237,8 @@ export class AuditLogService {
 
   /**
    * Store audit log in database
-   * TODO: Implement after creating AuditLog Prisma model
    */
   private async storeInDatabase(entry: AuditLogEntry): Promise<void> {
-    // Uncomment after creating AuditLog model in schema.prisma
-    /*
     await this.prisma.auditLog.create({
       data: {
         eventType: entry.eventType,
@@ -243,23 +252,29 @@ export class AuditLogService {
         createdAt: new Date(),
       },
     });
-    */
   }
 
   /**
    * Get recent audit logs (for admin dashboard)
-   * TODO: Implement after creating AuditLog model
+   * Optionally filtered by event type
    */
-  public async getRecentLogs(limit: number = 100): Promise<any[]> {
-    return [];
+  public async getRecentLogs(limit: number = 100, eventType?: AuditEventType): Promise<AuditLog[]> {
+    return this.prisma.auditLog.findMany({
+      where: eventType ? { eventType } : undefined,
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
   }
 
   /**
    * Get logs for specific user
-   * TODO: Implement after creating AuditLog model
    */
-  public async getUserLogs(userId: string, limit: number = 50): Promise<any[]> {
-    return [];
+  public async getUserLogs(userId: string, limit: number = 50): Promise<AuditLog[]> {
+    return this.prisma.auditLog.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
   }
 }
 
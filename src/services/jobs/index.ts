@@ -0,0 +1,11 @@
+/**
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ * SORIVA AI - BACKGROUND JOBS
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ * Purpose: Barrel export for the BullMQ job scheduler
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ */
+
+export { default as jobScheduler, JobSchedulerService } from './job-scheduler.service';
+export { JOB_DEFINITIONS } from './job-definitions';
+export * from './types';
@@ -0,0 +1,138 @@
+/**
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ * SORIVA AI - SCHEDULED JOBS
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ * Purpose: Billing lifecycle and maintenance tasks run by the job scheduler.
+ *          Patterns are UTC unless JOB_TIMEZONE is set; 18:30 UTC is
+ *          midnight IST.
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ */
+
+import subscriptionService from '../../modules/billing/subscription.service';
+import boosterService from '../../modules/billing/booster.service';
+import boosterQueueService from '../../modules/billing/booster.queue.service';
+import usageService from '../../modules/billing/usage.service';
+import invoiceService from '../../modules/billing/invoice.service';
+import { analyticsService } from '../../modules/chat/services/analytics.service';
+import { branchingService } from '../../modules/chat/services/branching.service';
+import dataExportService from '../../modules/account/services/data-export.service';
+import accountDeletionService from '../../modules/account/services/account-deletion.service';
+import { JobDefinition, JobRunSummary } from './types';
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Services report failure in their result instead of throwing; turn that
+ * into an error so the attempt is retried
+ */
+function requireSuccess<T extends { success: boolean; message?: string }>(result: T): T {
+  if (!result.success) {
+    throw new Error(result.message || 'Job reported failure');
+  }
+  return result;
+}
+
+export const JOB_DEFINITIONS: JobDefinition[] = [
+  {
+    name: 'subscription-expiry',
+    description:
+      'Apply scheduled downgrades, then expire or cancel subscriptions past their end date (after the renewal grace period)',
+    pattern: '5 * * * *',
+    attempts: 3,
+    backoffMs: MINUTE_MS,
+    lockTtlMs: 30 * MINUTE_MS,
+    handler: async (): Promise<JobRunSummary> =>
+      requireSuccess(await subscriptionService.checkExpiredSubscriptions()),
+  },
+  {
+    name: 'booster-expiry',
+    description: 'Expire boosters past their validity and activate queued addons',
+    pattern: '15 * * * *',
+    attempts: 3,
+    backoffMs: MINUTE_MS,
+    lockTtlMs: 15 * MINUTE_MS,
+    handler: async (): Promise<JobRunSummary> =>
+      requireSuccess(await boosterService.expireOldBoosters()),
+  },
+  {
+    name: 'booster-queue',
+    description: 'Activate queued addon boosters once the previous one ends',
+    pattern: '*/10 * * * *',
+    attempts: 2,
+    backoffMs: 30 * 1000,
+    lockTtlMs: 10 * MINUTE_MS,
+    handler: async (): Promise<JobRunSummary> => boosterQueueService.processQueue(),
+  },
+  {
+    name: 'invoice-backfill',
+    description: 'Issue missing invoices for paid transactions and retry failed invoice PDFs',
+    pattern: '*/15 * * * *',
+    attempts: 2,
+    backoffMs: MINUTE_MS,
+    lockTtlMs: 15 * MINUTE_MS,
+    handler: async (): Promise<JobRunSummary> => invoiceService.processPending(),
+  },
+  {
+    name: 'usage-daily-reset',
+    description: 'Reset daily word usage for all users',
+    pattern: '30 18 * * *',
+    attempts: 5,
+    backoffMs: MINUTE_MS,
+    lockTtlMs: 15 * MINUTE_MS,
+    handler: async (): Promise<JobRunSummary> =>
+      requireSuccess(await usageService.resetAllDailyUsage()),
+  },
+  {
+    name: 'usage-monthly-reset',
+    description: 'Start a new usage cycle for users whose monthly cycle has ended',
+    pattern: '45 18 * * *',
+    attempts: 3,
+    backoffMs: 5 * MINUTE_MS,
+    lockTtlMs: 60 * MINUTE_MS,
+    handler: async (): Promise<JobRunSummary> =>
+      requireSuccess(await usageService.resetDueMonthlyUsage()),
+  },
+  {
+    name: 'analytics-cleanup',
+    description: 'Drop analytics data past the retention window',
+    pattern: '0 21 * * *',
+    attempts: 2,
+    backoffMs: 5 * MINUTE_MS,
+    lockTtlMs: 30 * MINUTE_MS,
+    handler: async (): Promise<JobRunSummary> => ({
+      removed: await analyticsService.cleanupOldData(),
+    }),
+  },
+  {
+    name: 'branch-cleanup',
+    description: 'Delete conversation branches older than the cleanup window',
+    pattern: '30 21 * * *',
+    attempts: 2,
+    backoffMs: 5 * MINUTE_MS,
+    lockTtlMs: 30 * MINUTE_MS,
+    handler: async (): Promise<JobRunSummary> => {
+      await branchingService.cleanupOldBranches();
+      return { completed: true };
+    },
+  },
+  {
+    name: 'data-export-maintenance',
+    description: 'Build pending and interrupted account data exports and expire old export files',
+    pattern: '*/15 * * * *',
+    attempts: 2,
+    backoffMs: MINUTE_MS,
+    lockTtlMs: 30 * MINUTE_MS,
+    handler: async (): Promise<JobRunSummary> => dataExportService.runMaintenance(),
+  },
+  {
+    name: 'account-deletion-purge',
+    description: 'Permanently delete accounts whose deletion grace period has ended',
+    pattern: '20 * * * *',
+    attempts: 3,
+    backoffMs: 5 * MINUTE_MS,
+    lockTtlMs: 30 * MINUTE_MS,
+    handler: async (): Promise<JobRunSummary> => ({
+      purged: (await accountDeletionService.purgeDueAccounts()).length,
+    }),
+  },
+];
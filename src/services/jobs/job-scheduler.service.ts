@@ -0,0 +1,430 @@
+/**
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ * SORIVA AI - JOB SCHEDULER (BullMQ)
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ * Purpose: Durable repeatable jobs shared by every instance.
+ *
+ * - Schedules are BullMQ job schedulers keyed by job name, so each
+ *   instance registering them on boot does not multiply runs
+ * - A run holds a Redis lock (SET NX PX) for its job name; a second run
+ *   of the same job (manual trigger, slow run overlapping the next tick)
+ *   is skipped instead of doubling the work
+ * - Failed attempts retry with exponential backoff
+ * - Finished runs stay in the queue as history (14 days / 30 days failed)
+ * - Paused jobs are a Redis set, so a pause survives restarts and applies
+ *   to all instances
+ *
+ * Env:
+ *   REDIS_URL      - required; without it background jobs are disabled
+ *   JOBS_ENABLED   - "false" disables the scheduler entirely
+ *   JOBS_WORKER    - "false" registers schedules but runs no jobs here
+ *   JOB_TIMEZONE   - timezone for cron patterns (default UTC)
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ */
+
+import { randomUUID } from 'crypto';
+import Redis from 'ioredis';
+import { Job, JobsOptions, Queue, UnrecoverableError, Worker } from 'bullmq';
+import { logger } from '@shared/utils/logger';
+import { auditLogService, AuditEventType } from '../audit-log.service';
+import { JOB_DEFINITIONS } from './job-definitions';
+import {
+  JobActionResult,
+  JobChangeMeta,
+  JobDefinition,
+  JobHistoryEntry,
+  JobRunData,
+  JobRunState,
+  JobRunSummary,
+  JobStatus,
+} from './types';
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// CONSTANTS
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const QUEUE_NAME = 'soriva-jobs';
+const PAUSED_KEY = 'soriva:jobs:paused';
+const LOCK_KEY_PREFIX = 'soriva:jobs:lock:';
+const WORKER_CONCURRENCY = 2;
+
+const KEEP_COMPLETED = { age: 14 * 24 * 60 * 60, count: 500 };
+const KEEP_FAILED = { age: 30 * 24 * 60 * 60, count: 1000 };
+
+// Retained runs scanned per state when building history
+const HISTORY_SCAN_LIMIT = 500;
+const HISTORY_STATES: JobRunState[] = ['active', 'delayed', 'completed', 'failed'];
+
+// Delete the lock only while we still own it
+const RELEASE_LOCK_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('del', KEYS[1])
+end
+return 0`;
+
+const UNAVAILABLE: JobActionResult = {
+  success: false,
+  error: 'Background jobs are disabled (REDIS_URL not configured)',
+  reason: 'unavailable',
+};
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// JOB SCHEDULER SERVICE
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export class JobSchedulerService {
+  private static instance: JobSchedulerService;
+
+  private connection: Redis | null = null;
+  private queue: Queue<JobRunData, JobRunSummary> | null = null;
+  private worker: Worker<JobRunData, JobRunSummary> | null = null;
+  private readonly definitions = new Map<string, JobDefinition>(
+    JOB_DEFINITIONS.map((definition) => [definition.name, definition])
+  );
+  private readonly timezone = process.env.JOB_TIMEZONE || 'UTC';
+
+  private constructor() {}
+
+  public static getInstance(): JobSchedulerService {
+    if (!JobSchedulerService.instance) {
+      JobSchedulerService.instance = new JobSchedulerService();
+    }
+    return JobSchedulerService.instance;
+  }
+
+  public isAvailable(): boolean {
+    return this.queue !== null;
+  }
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // LIFECYCLE
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  /**
+   * Connect, register schedules and start the worker. Never throws - the
+   * API keeps serving when Redis is down, only background jobs stop.
+   */
+  public async start(): Promise<void> {
+    if (this.queue) {
+      return;
+    }
+
+    const url = process.env.REDIS_URL;
+    if (!url || process.env.JOBS_ENABLED === 'false') {
+      logger.warn(
+        '[JobScheduler] Background jobs disabled (REDIS_URL not set or JOBS_ENABLED=false)'
+      );
+      return;
+    }
+
+    // BullMQ workers issue blocking commands and require maxRetriesPerRequest: null
+    const connection = new Redis(url, { maxRetriesPerRequest: null });
+    connection.on('error', (error) => logger.error('[JobScheduler] Redis connection error', error));
+
+    const queue = new Queue<JobRunData, JobRunSummary>(QUEUE_NAME, {
+      connection,
+      defaultJobOptions: { removeOnComplete: KEEP_COMPLETED, removeOnFail: KEEP_FAILED },
+    });
+
+    try {
+      await this.syncSchedulers(queue, connection);
+    } catch (error) {
+      logger.error('[JobScheduler] Failed to register job schedules', error);
+      await queue.close().catch(() => undefined);
+      connection.disconnect();
+      return;
+    }
+
+    this.connection = connection;
+    this.queue = queue;
+
+    if (process.env.JOBS_WORKER !== 'false') {
+      this.worker = new Worker<JobRunData, JobRunSummary>(QUEUE_NAME, (job) => this.process(job), {
+        connection,
+        concurrency: WORKER_CONCURRENCY,
+      });
+      this.worker.on('failed', (job, error) => {
+        logger.error(`[JobScheduler] ${job?.name} failed (attempt ${job?.attemptsMade})`, error);
+      });
+      this.worker.on('error', (error) => logger.error('[JobScheduler] Worker error', error));
+    }
+
+    logger.info('[JobScheduler] Started', {
+      jobs: this.definitions.size,
+      worker: this.worker !== null,
+      timezone: this.timezone,
+    });
+  }
+
+  public async stop(): Promise<void> {
+    try {
+      await this.worker?.close();
+      await this.queue?.close();
+      await this.connection?.quit();
+    } catch (error) {
+      logger.error('[JobScheduler] Error while stopping', error);
+    } finally {
+      this.worker = null;
+      this.queue = null;
+      this.connection = null;
+    }
+  }
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // ADMIN
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  /**
+   * Every job with its schedule, pause state, next and last run
+   */
+  public async listJobs(): Promise<JobStatus[]> {
+    const { queue, connection } = this.requireStarted();
+
+    const [paused, schedulers, history] = await Promise.all([
+      connection.smembers(PAUSED_KEY),
+      queue.getJobSchedulers(),
+      this.getHistory(undefined, HISTORY_SCAN_LIMIT),
+    ]);
+    const nextRuns = new Map(schedulers.map((scheduler) => [scheduler.key, scheduler.next]));
+
+    return Promise.all(
+      [...this.definitions.values()].map(async (definition) => {
+        const nextRun = nextRuns.get(definition.name);
+        return {
+          name: definition.name,
+          description: definition.description,
+          pattern: definition.pattern,
+          timezone: this.timezone,
+          attempts: definition.attempts,
+          paused: paused.includes(definition.name),
+          running: (await connection.exists(LOCK_KEY_PREFIX + definition.name)) === 1,
+          nextRunAt: nextRun ? new Date(nextRun) : undefined,
+          lastRun: history.find(
+            (entry) =>
+              entry.name === definition.name && ['completed', 'failed'].includes(entry.state)
+          ),
+        };
+      })
+    );
+  }
+
+  /**
+   * Retained runs, newest first, optionally for a single job
+   */
+  public async getHistory(name?: string, limit: number = 50): Promise<JobHistoryEntry[]> {
+    const { queue } = this.requireStarted();
+    const entries: JobHistoryEntry[] = [];
+
+    for (const state of HISTORY_STATES) {
+      const jobs = await queue.getJobs(state, 0, HISTORY_SCAN_LIMIT - 1, false);
+      for (const job of jobs) {
+        if (job && (!name || job.name === name)) {
+          entries.push(this.toHistoryEntry(job, state));
+        }
+      }
+    }
+
+    return entries.sort((a, b) => b.queuedAt.getTime() - a.queuedAt.getTime()).slice(0, limit);
+  }
+
+  public hasJob(name: string): boolean {
+    return this.definitions.has(name);
+  }
+
+  /**
+   * Queue a run now, outside the schedule
+   */
+  public async trigger(name: string, meta: JobChangeMeta): Promise<JobActionResult> {
+    if (!this.queue || !this.connection) {
+      return UNAVAILABLE;
+    }
+
+    const definition = this.definitions.get(name);
+    if (!definition) {
+      return { success: false, error: `Unknown job: ${name}`, reason: 'unknown_job' };
+    }
+
+    if (await this.connection.exists(LOCK_KEY_PREFIX + name)) {
+      return { success: false, error: `${name} is already running`, reason: 'already_running' };
+    }
+
+    const job = await this.queue.add(
+      definition.name,
+      { trigger: 'manual', triggeredBy: meta.changedBy },
+      this.jobOptions(definition)
+    );
+
+    await this.audit('triggered', definition.name, meta, { runId: job.id });
+    return { success: true, runId: job.id };
+  }
+
+  /**
+   * Stop scheduled runs until resumed (manual triggers still work)
+   */
+  public async pause(name: string, meta: JobChangeMeta): Promise<JobActionResult> {
+    if (!this.queue || !this.connection) {
+      return UNAVAILABLE;
+    }
+    if (!this.definitions.has(name)) {
+      return { success: false, error: `Unknown job: ${name}`, reason: 'unknown_job' };
+    }
+
+    if ((await this.connection.sadd(PAUSED_KEY, name)) === 0) {
+      return { success: false, error: `${name} is already paused`, reason: 'already_paused' };
+    }
+    await this.queue.removeJobScheduler(name);
+
+    await this.audit('paused', name, meta);
+    return { success: true };
+  }
+
+  public async resume(name: string, meta: JobChangeMeta): Promise<JobActionResult> {
+    if (!this.queue || !this.connection) {
+      return UNAVAILABLE;
+    }
+    const definition = this.definitions.get(name);
+    if (!definition) {
+      return { success: false, error: `Unknown job: ${name}`, reason: 'unknown_job' };
+    }
+
+    if ((await this.connection.srem(PAUSED_KEY, name)) === 0) {
+      return { success: false, error: `${name} is not paused`, reason: 'not_paused' };
+    }
+    await this.upsertScheduler(this.queue, definition);
+
+    await this.audit('resumed', name, meta);
+    return { success: true };
+  }
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // PROCESSING
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  private async process(job: Job<JobRunData, JobRunSummary>): Promise<JobRunSummary> {
+    const definition = this.definitions.get(job.name);
+    const connection = this.connection;
+    if (!definition || !connection) {
+      throw new UnrecoverableError(`Unknown job: ${job.name}`);
+    }
+
+    // Paused after this run was already scheduled
+    if (job.data.trigger === 'schedule' && (await connection.sismember(PAUSED_KEY, job.name))) {
+      return { skipped: 'paused' };
+    }
+
+    const lockKey = LOCK_KEY_PREFIX + definition.name;
+    const token = randomUUID();
+    const acquired = await connection.set(lockKey, token, 'PX', definition.lockTtlMs, 'NX');
+    if (!acquired) {
+      logger.warn(`[JobScheduler] ${definition.name} skipped - another run holds the lock`);
+      return { skipped: 'already_running' };
+    }
+
+    const startedAt = Date.now();
+    try {
+      const summary = await definition.handler();
+      logger.info(`[JobScheduler] ${definition.name} completed`, {
+        trigger: job.data.trigger,
+        durationMs: Date.now() - startedAt,
+      });
+      return summary;
+    } finally {
+      await connection.eval(RELEASE_LOCK_SCRIPT, 1, lockKey, token);
+    }
+  }
+
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  // HELPERS
+  // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  private requireStarted(): { queue: Queue<JobRunData, JobRunSummary>; connection: Redis } {
+    if (!this.queue || !this.connection) {
+      throw new Error('Job scheduler is not running');
+    }
+    return { queue: this.queue, connection: this.connection };
+  }
+
+  /**
+   * Register every active schedule and drop paused or obsolete ones
+   */
+  private async syncSchedulers(
+    queue: Queue<JobRunData, JobRunSummary>,
+    connection: Redis
+  ): Promise<void> {
+    const paused = await connection.smembers(PAUSED_KEY);
+
+    for (const definition of this.definitions.values()) {
+      if (paused.includes(definition.name)) {
+        await queue.removeJobScheduler(definition.name);
+      } else {
+        await this.upsertScheduler(queue, definition);
+      }
+    }
+
+    for (const scheduler of await queue.getJobSchedulers()) {
+      if (!this.definitions.has(scheduler.key)) {
+        await queue.removeJobScheduler(scheduler.key);
+      }
+    }
+  }
+
+  private async upsertScheduler(
+    queue: Queue<JobRunData, JobRunSummary>,
+    definition: JobDefinition
+  ): Promise<void> {
+    await queue.upsertJobScheduler(
+      definition.name,
+      { pattern: definition.pattern, tz: this.timezone },
+      {
+        name: definition.name,
+        data: { trigger: 'schedule' },
+        opts: this.jobOptions(definition),
+      }
+    );
+  }
+
+  private jobOptions(definition: JobDefinition): JobsOptions {
+    return {
+      attempts: definition.attempts,
+      backoff: { type: 'exponential', delay: definition.backoffMs },
+      removeOnComplete: KEEP_COMPLETED,
+      removeOnFail: KEEP_FAILED,
+    };
+  }
+
+  private toHistoryEntry(job: Job<JobRunData, JobRunSummary>, state: JobRunState): JobHistoryEntry {
+    return {
+      id: String(job.id),
+      name: job.name,
+      state,
+      trigger: job.data?.trigger || 'schedule',
+      triggeredBy: job.data?.triggeredBy,
+      attemptsMade: job.attemptsMade,
+      queuedAt: new Date(job.timestamp),
+      startedAt: job.processedOn ? new Date(job.processedOn) : undefined,
+      finishedAt: job.finishedOn ? new Date(job.finishedOn) : undefined,
+      durationMs: job.processedOn && job.finishedOn ? job.finishedOn - job.processedOn : undefined,
+      result: state === 'completed' ? job.returnvalue : undefined,
+      error: job.failedReason || undefined,
+    };
+  }
+
+  private async audit(
+    action: string,
+    name: string,
+    meta: JobChangeMeta,
+    extra: Record<string, unknown> = {}
+  ): Promise<void> {
+    await auditLogService.log({
+      eventType: AuditEventType.JOB_SCHEDULER_CHANGE,
+      userId: meta.changedBy,
+      ipAddress: meta.ipAddress,
+      userAgent: meta.userAgent,
+      success: true,
+      message: `Job ${name} ${action}`,
+      metadata: { job: name, action, reason: meta.reason, ...extra },
+    });
+  }
+}
+
+export default JobSchedulerService.getInstance();
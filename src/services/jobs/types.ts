@@ -0,0 +1,93 @@
+/**
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ * SORIVA AI - BACKGROUND JOB TYPES
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ */
+
+export type JobName =
+  | 'subscription-expiry'
+  | 'booster-expiry'
+  | 'booster-queue'
+  | 'invoice-backfill'
+  | 'usage-daily-reset'
+  | 'usage-monthly-reset'
+  | 'analytics-cleanup'
+  | 'branch-cleanup'
+  | 'data-export-maintenance'
+  | 'account-deletion-purge';
+
+/** What a run reports back; kept in the job history */
+export type JobRunSummary = Record<string, unknown>;
+
+export interface JobDefinition {
+  name: JobName;
+  description: string;
+  /** Cron pattern, evaluated in JOB_TIMEZONE (default UTC) */
+  pattern: string;
+  /** Total tries per run, including the first */
+  attempts: number;
+  /** First retry delay; doubles on every further attempt */
+  backoffMs: number;
+  /** Upper bound on a run - the cross-instance lock expires after this */
+  lockTtlMs: number;
+  /** Throw to fail the attempt (and retry) */
+  handler: () => Promise<JobRunSummary>;
+}
+
+export type JobTrigger = 'schedule' | 'manual';
+
+export interface JobRunData {
+  trigger: JobTrigger;
+  triggeredBy?: string;
+}
+
+export type JobRunState = 'active' | 'delayed' | 'completed' | 'failed';
+
+export interface JobHistoryEntry {
+  id: string;
+  name: string;
+  state: JobRunState;
+  trigger: JobTrigger;
+  triggeredBy?: string;
+  attemptsMade: number;
+  queuedAt: Date;
+  startedAt?: Date;
+  finishedAt?: Date;
+  durationMs?: number;
+  result?: JobRunSummary;
+  error?: string;
+}
+
+export interface JobStatus {
+  name: JobName;
+  description: string;
+  pattern: string;
+  timezone: string;
+  attempts: number;
+  paused: boolean;
+  running: boolean;
+  nextRunAt?: Date;
+  lastRun?: JobHistoryEntry;
+}
+
+export type JobErrorReason =
+  | 'unavailable'
+  | 'unknown_job'
+  | 'already_running'
+  | 'already_paused'
+  | 'not_paused';
+
+export interface JobActionResult {
+  success: boolean;
+  error?: string;
+  reason?: JobErrorReason;
+  /** Queue id of a manually triggered run */
+  runId?: string;
+}
+
+export interface JobChangeMeta {
+  changedBy: string;
+  reason?: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
@@ -12,8 +12,9 @@
  * ✅ Async non-blocking saves
  * ✅ Smart extraction filtering
  * ✅ Cross-session memory
+ * ✅ Respects the user's memory pause (nothing saved while paused)
  * 
- * Last Updated: February 14, 2026
+ * Last Updated: October 19, 2026
  */
 
 import { memoryService } from './memory.service';
@@ -91,6 +92,12 @@ class MemoryIntegration {
     options: SaveExchangeOptions = {}
   ): Promise<void> {
     try {
+      // User paused memory collection from /api/memory
+      if (await memoryService.isPaused(userId)) {
+        console.log(`[MemoryIntegration] Memory paused, exchange not saved: ${conversationId}`);
+        return;
+      }
+
       // Save user message
       await memoryService.addMessage({
         userId,
@@ -141,7 +148,7 @@ class MemoryIntegration {
           await memoryService.updateSystemMemory(userId, conversationId, {
             facts: extracted.facts,
             preferences: extracted.preferences,
-          });
+          }, userMessage);
           
           console.log(`[MemoryIntegration] 🧠 Facts extracted & saved:`, {
             facts: Object.keys(extracted.facts),
@@ -1,5 +1,6 @@
 // src/services/memory/memory.service.ts
 import { PrismaClient, Prisma } from '@prisma/client';
+import { plansManager, PlanType } from '../../constants';
 
 /**
  * ==========================================
@@ -17,7 +18,12 @@ import { PrismaClient, Prisma } from '@prisma/client';
  * ✅ Index-safe ordering
  * 
  * Token Optimization: ~90% reduction in context size
- * Last Updated: February 14, 2026
+ *
+ * RETENTION & USER CONTROL:
+ * Every remembered value carries its source (conversation + message).
+ * Reads drop anything older than the user's memoryDays; users can view,
+ * edit, forget, pause and wipe their memory via /api/memory.
+ * Last Updated: October 19, 2026
  */
 
 const prisma = new PrismaClient();
@@ -40,6 +46,7 @@ const CONFIG = {
   // SYSTEM MEMORY LIMITS
   MAX_SYSTEM_MEMORY_KEYS: 50,
   MAX_FACT_VALUE_LENGTH: 500,
+  MAX_SOURCE_MESSAGE_LENGTH: 300, // Excerpt of the message a fact came from
   
   // GLOBAL USER MEMORY
   // Special conversationId for user-level facts that persist across all chats
@@ -50,11 +57,55 @@ const CONFIG = {
 // TYPES - STRICT & VALIDATED
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
+type MemoryCategory = 'facts' | 'preferences' | 'decisions';
+
+const MEMORY_CATEGORIES: MemoryCategory[] = ['facts', 'preferences', 'decisions'];
+
+/**
+ * Where a remembered value came from.
+ * Values saved before sources were tracked have no conversation/message.
+ */
+interface FactSource {
+  conversationId: string | null;
+  message: string | null;
+  recordedAt: string;
+  editedAt?: string;
+}
+
+interface FactOrigin {
+  conversationId: string | null;
+  message?: string | null;
+}
+
 interface SystemMemory {
   facts: Record<string, string>;
   preferences: Record<string, string>;
   decisions: Record<string, string>;
   lastUpdated: string;
+  // Keyed "category.key"
+  sources?: Record<string, FactSource>;
+}
+
+/**
+ * A remembered value as shown to the user
+ */
+interface RememberedFact {
+  category: MemoryCategory;
+  key: string;
+  value: string;
+  conversationId: string | null;
+  sourceMessage: string | null;
+  recordedAt: Date;
+  editedAt: Date | null;
+}
+
+type MemoryErrorReason = 'fact_not_found';
+
+interface MemoryChangeResult {
+  success: boolean;
+  error?: string;
+  reason?: MemoryErrorReason;
+  fact?: RememberedFact;
 }
 
 interface MemoryContext {
@@ -108,7 +159,8 @@ function parseSystemMemory(json: Prisma.JsonValue | null): SystemMemory {
     facts: (obj.facts as Record<string, string>) || {},
     preferences: (obj.preferences as Record<string, string>) || {},
     decisions: (obj.decisions as Record<string, string>) || {},
-    lastUpdated: (obj.lastUpdated as string) || new Date().toISOString()
+    lastUpdated: (obj.lastUpdated as string) || new Date().toISOString(),
+    sources: (obj.sources as unknown as Record<string, FactSource>) || {}
   };
 }
 
@@ -117,8 +169,98 @@ function toJsonValue(memory: SystemMemory): Prisma.InputJsonValue {
     facts: memory.facts,
     preferences: memory.preferences,
     decisions: memory.decisions,
-    lastUpdated: memory.lastUpdated
+    lastUpdated: memory.lastUpdated,
+    sources: (memory.sources || {}) as unknown as Prisma.InputJsonObject
+  };
+}
+
+function sourceKey(category: MemoryCategory, key: string): string {
+  return `${category}.${key}`;
+}
+
+/**
+ * When a value was recorded (or last edited by the user).
+ * Untracked values fall back to the memory's lastUpdated.
+ */
+function recordedAt(memory: SystemMemory, category: MemoryCategory, key: string): Date {
+  const source = memory.sources?.[sourceKey(category, key)];
+  return new Date(source?.editedAt || source?.recordedAt || memory.lastUpdated);
+}
+
+/**
+ * Keep only values recorded on or after cutoff
+ */
+function withinRetention(memory: SystemMemory, cutoff: Date): SystemMemory {
+  const kept: SystemMemory = {
+    facts: {},
+    preferences: {},
+    decisions: {},
+    lastUpdated: memory.lastUpdated,
+    sources: {}
   };
+
+  for (const category of MEMORY_CATEGORIES) {
+    for (const [key, value] of Object.entries(memory[category])) {
+      if (recordedAt(memory, category, key) < cutoff) continue;
+
+      kept[category][key] = value;
+      const source = memory.sources?.[sourceKey(category, key)];
+      if (source) {
+        kept.sources![sourceKey(category, key)] = source;
+      }
+    }
+  }
+
+  return kept;
+}
+
+/**
+ * Sources for a merged memory: updated keys get origin, everything else
+ * keeps its source. Untracked values are pinned to the current lastUpdated
+ * so they keep aging once lastUpdated moves on.
+ */
+function trackSources(
+  current: SystemMemory,
+  merged: SystemMemory,
+  updates: Partial<SystemMemory>,
+  origin: FactOrigin,
+  now: string
+): Record<string, FactSource> {
+  const sources: Record<string, FactSource> = {};
+  const message = origin.message
+    ? origin.message.substring(0, CONFIG.MAX_SOURCE_MESSAGE_LENGTH)
+    : null;
+
+  for (const category of MEMORY_CATEGORIES) {
+    for (const key of Object.keys(merged[category])) {
+      const id = sourceKey(category, key);
+
+      if (updates[category] && key in updates[category]!) {
+        sources[id] = { conversationId: origin.conversationId, message, recordedAt: now };
+      } else {
+        sources[id] = current.sources?.[id] || {
+          conversationId: null,
+          message: null,
+          recordedAt: current.lastUpdated
+        };
+      }
+    }
+  }
+
+  return sources;
+}
+
+function lastChanged(fact: RememberedFact): number {
+  return (fact.editedAt || fact.recordedAt).getTime();
+}
+
+function withoutValue(memory: SystemMemory, category: MemoryCategory, key: string): SystemMemory {
+  const values = { ...memory[category] };
+  const sources = { ...(memory.sources || {}) };
+  delete values[key];
+  delete sources[sourceKey(category, key)];
+
+  return { ...memory, [category]: values, sources };
 }
 
 function estimateTokens(text: string): number {
@@ -215,14 +357,16 @@ class MemoryService {
    */
   public async getMemoryContext(userId: string, conversationId: string): Promise<MemoryContext> {
     const memory = await this.getOrCreateMemory(userId, conversationId);
+    const { cutoff } = await this.getRetention(userId);
 
     // Sort messages by index (ascending) for chronological order
     const sortedMessages = memory.rawMessages
+      .filter(m => m.createdAt >= cutoff)
       .sort((a, b) => a.messageIndex - b.messageIndex);
 
     return {
-      systemMemory: parseSystemMemory(memory.systemMemory),
-      rollingSummary: memory.rollingSummary,
+      systemMemory: withinRetention(parseSystemMemory(memory.systemMemory), cutoff),
+      rollingSummary: this.summaryWithinRetention(memory, cutoff),
       recentMessages: sortedMessages.map(m => ({
         role: m.role as 'user' | 'assistant',
         content: m.content,
@@ -391,18 +535,15 @@ class MemoryService {
   public async updateSystemMemory(
     userId: string,
     conversationId: string,
-    updates: Partial<SystemMemory>
+    updates: Partial<SystemMemory>,
+    sourceMessage?: string
   ): Promise<void> {
     const memory = await this.getOrCreateMemory(userId, conversationId);
-    const currentMemory = parseSystemMemory(memory.systemMemory);
-
-    // Merge updates with validation
-    const updatedMemory: SystemMemory = {
-      facts: this.mergeWithLimit(currentMemory.facts, updates.facts || {}),
-      preferences: this.mergeWithLimit(currentMemory.preferences, updates.preferences || {}),
-      decisions: this.mergeWithLimit(currentMemory.decisions, updates.decisions || {}),
-      lastUpdated: new Date().toISOString()
+    const origin: FactOrigin = {
+      conversationId: conversationId === CONFIG.GLOBAL_MEMORY_ID ? null : conversationId,
+      message: sourceMessage
     };
+    const updatedMemory = await this.mergeSystemMemory(userId, memory.systemMemory, updates, origin);
 
     await prisma.conversationMemory.update({
       where: { id: memory.id },
@@ -413,10 +554,35 @@ class MemoryService {
     
     // 🌐 ALSO UPDATE GLOBAL USER MEMORY (cross-session facts)
     if (conversationId !== CONFIG.GLOBAL_MEMORY_ID) {
-      await this.updateGlobalUserMemory(userId, updates);
+      await this.updateGlobalUserMemory(userId, updates, origin);
     }
   }
 
+  /**
+   * Drop expired values, merge updates, record where they came from
+   */
+  private async mergeSystemMemory(
+    userId: string,
+    stored: Prisma.JsonValue,
+    updates: Partial<SystemMemory>,
+    origin: FactOrigin
+  ): Promise<SystemMemory> {
+    const { cutoff } = await this.getRetention(userId);
+    const currentMemory = withinRetention(parseSystemMemory(stored), cutoff);
+    const now = new Date().toISOString();
+
+    // Merge updates with validation
+    const updatedMemory: SystemMemory = {
+      facts: this.mergeWithLimit(currentMemory.facts, updates.facts || {}),
+      preferences: this.mergeWithLimit(currentMemory.preferences, updates.preferences || {}),
+      decisions: this.mergeWithLimit(currentMemory.decisions, updates.decisions || {}),
+      lastUpdated: now
+    };
+    updatedMemory.sources = trackSources(currentMemory, updatedMemory, updates, origin, now);
+
+    return updatedMemory;
+  }
+
   /**
    * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
    * GLOBAL USER MEMORY - Persists across ALL conversations
@@ -428,7 +594,8 @@ class MemoryService {
    */
   public async getGlobalUserMemory(userId: string): Promise<SystemMemory> {
     const memory = await this.getOrCreateMemory(userId, CONFIG.GLOBAL_MEMORY_ID);
-    return parseSystemMemory(memory.systemMemory);
+    const { cutoff } = await this.getRetention(userId);
+    return withinRetention(parseSystemMemory(memory.systemMemory), cutoff);
   }
 
   /**
@@ -436,17 +603,11 @@ class MemoryService {
    */
   public async updateGlobalUserMemory(
     userId: string,
-    updates: Partial<SystemMemory>
+    updates: Partial<SystemMemory>,
+    origin: FactOrigin = { conversationId: null }
   ): Promise<void> {
     const memory = await this.getOrCreateMemory(userId, CONFIG.GLOBAL_MEMORY_ID);
-    const currentMemory = parseSystemMemory(memory.systemMemory);
-
-    const updatedMemory: SystemMemory = {
-      facts: this.mergeWithLimit(currentMemory.facts, updates.facts || {}),
-      preferences: this.mergeWithLimit(currentMemory.preferences, updates.preferences || {}),
-      decisions: this.mergeWithLimit(currentMemory.decisions, updates.decisions || {}),
-      lastUpdated: new Date().toISOString()
-    };
+    const updatedMemory = await this.mergeSystemMemory(userId, memory.systemMemory, updates, origin);
 
     await prisma.conversationMemory.update({
       where: { id: memory.id },
@@ -469,7 +630,8 @@ class MemoryService {
     
     // Get conversation-specific memory (recent messages, rolling summary)
     const convMemory = await this.getOrCreateMemory(userId, conversationId);
-    const convSystemMemory = parseSystemMemory(convMemory.systemMemory);
+    const { cutoff } = await this.getRetention(userId);
+    const convSystemMemory = withinRetention(parseSystemMemory(convMemory.systemMemory), cutoff);
     
     // Merge: Global facts take priority, conversation can override
     const mergedFacts = { ...globalMemory.facts, ...convSystemMemory.facts };
@@ -477,6 +639,7 @@ class MemoryService {
     const mergedDecisions = { ...globalMemory.decisions, ...convSystemMemory.decisions };
 
     const sortedMessages = convMemory.rawMessages
+      .filter(m => m.createdAt >= cutoff)
       .sort((a, b) => a.messageIndex - b.messageIndex);
 
     return {
@@ -486,7 +649,7 @@ class MemoryService {
         decisions: mergedDecisions,
         lastUpdated: new Date().toISOString(),
       },
-      rollingSummary: convMemory.rollingSummary,
+      rollingSummary: this.summaryWithinRetention(convMemory, cutoff),
       recentMessages: sortedMessages.map(m => ({
         role: m.role as 'user' | 'assistant',
         content: m.content,
@@ -572,6 +735,278 @@ class MemoryService {
     }
   }
 
+  /**
+   * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+   * RETENTION - plan memoryDays applies to every read
+   * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+   */
+
+  private async getRetention(userId: string): Promise<{ days: number; cutoff: Date }> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { memoryDays: true, planType: true }
+    });
+    return this.retentionFor(user);
+  }
+
+  /**
+   * memoryDays is set from the plan on subscription; fall back to the plan default
+   */
+  private retentionFor(
+    user: { memoryDays: number; planType: string } | null
+  ): { days: number; cutoff: Date } {
+    const days =
+      user?.memoryDays || plansManager.getMemoryDays((user?.planType as PlanType) || PlanType.STARTER);
+
+    const cutoff = new Date();
+    cutoff.setDate(cutoff.getDate() - days);
+
+    return { days, cutoff };
+  }
+
+  private summaryWithinRetention(
+    memory: { rollingSummary: string; lastSummarizedAt: Date | null },
+    cutoff: Date
+  ): string {
+    return memory.lastSummarizedAt && memory.lastSummarizedAt >= cutoff
+      ? memory.rollingSummary
+      : '';
+  }
+
+  /**
+   * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+   * USER MEMORY MANAGEMENT - view, edit, forget, pause, wipe
+   * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+   */
+
+  /**
+   * Paused users get no new messages or extracted facts stored
+   */
+  public async isPaused(userId: string): Promise<boolean> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { memoryPausedAt: true }
+    });
+    return !!user?.memoryPausedAt;
+  }
+
+  /**
+   * Everything remembered about the user within retention:
+   * facts with their source, conversation summaries and settings
+   */
+  public async getUserMemory(userId: string) {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { memoryDays: true, planType: true, memoryPausedAt: true }
+    });
+    if (!user) return null;
+
+    const { days, cutoff } = this.retentionFor(user);
+    const memories = await prisma.conversationMemory.findMany({
+      where: { userId },
+      orderBy: { updatedAt: 'desc' }
+    });
+
+    return {
+      settings: {
+        paused: !!user.memoryPausedAt,
+        pausedAt: user.memoryPausedAt,
+        retentionDays: days
+      },
+      facts: this.collectFacts(memories, cutoff),
+      conversations: memories
+        .filter(m => m.conversationId !== CONFIG.GLOBAL_MEMORY_ID && m.updatedAt >= cutoff)
+        .map(m => ({
+          conversationId: m.conversationId,
+          summary: this.summaryWithinRetention(m, cutoff),
+          messageCount: m.totalMessages,
+          updatedAt: m.updatedAt
+        }))
+    };
+  }
+
+  /**
+   * Correct a remembered value. The edit is kept in global memory and
+   * conversation copies are dropped so they cannot override it.
+   */
+  public async updateFact(
+    userId: string,
+    category: MemoryCategory,
+    key: string,
+    value: string
+  ): Promise<MemoryChangeResult> {
+    const { cutoff } = await this.getRetention(userId);
+    const memories = await prisma.conversationMemory.findMany({ where: { userId } });
+    const current = this.collectFacts(memories, cutoff)
+      .find(f => f.category === category && f.key === key);
+
+    if (!current) {
+      return { success: false, error: 'Remembered fact not found', reason: 'fact_not_found' };
+    }
+
+    const global = await this.getOrCreateMemory(userId, CONFIG.GLOBAL_MEMORY_ID);
+    const globalMemory = withinRetention(parseSystemMemory(global.systemMemory), cutoff);
+    const now = new Date().toISOString();
+
+    const updates: Partial<SystemMemory> = {};
+    updates[category] = { [key]: value };
+
+    const updated: SystemMemory = {
+      ...globalMemory,
+      [category]: this.mergeWithLimit(globalMemory[category], updates[category]!),
+      lastUpdated: now
+    };
+    updated.sources = trackSources(globalMemory, updated, updates, { conversationId: null }, now);
+    // Still the same fact: keep where it came from, note the edit
+    updated.sources[sourceKey(category, key)] = {
+      conversationId: current.conversationId,
+      message: current.sourceMessage,
+      recordedAt: current.recordedAt.toISOString(),
+      editedAt: now
+    };
+
+    await prisma.$transaction([
+      prisma.conversationMemory.update({
+        where: { id: global.id },
+        data: { systemMemory: toJsonValue(updated) }
+      }),
+      ...this.removeFromConversations(memories, category, key)
+    ]);
+
+    console.log(`🧠 User edited ${category}.${key} for user=${userId}`);
+
+    return {
+      success: true,
+      fact: {
+        ...current,
+        value: updated[category][key],
+        editedAt: new Date(now)
+      }
+    };
+  }
+
+  /**
+   * Forget a remembered value everywhere it is stored
+   */
+  public async deleteFact(
+    userId: string,
+    category: MemoryCategory,
+    key: string
+  ): Promise<MemoryChangeResult> {
+    const { cutoff } = await this.getRetention(userId);
+    const memories = await prisma.conversationMemory.findMany({ where: { userId } });
+    const exists = this.collectFacts(memories, cutoff)
+      .some(f => f.category === category && f.key === key);
+
+    if (!exists) {
+      return { success: false, error: 'Remembered fact not found', reason: 'fact_not_found' };
+    }
+
+    await prisma.$transaction(this.removeFromConversations(memories, category, key, true));
+
+    console.log(`🧠 User forgot ${category}.${key} for user=${userId}`);
+    return { success: true };
+  }
+
+  /**
+   * Pause or resume memory collection. Returns null if the user does not exist.
+   */
+  public async setPaused(userId: string, paused: boolean) {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { memoryPausedAt: true }
+    });
+    if (!user) return null;
+
+    // Pausing twice keeps the original pause time
+    const pausedAt = paused ? user.memoryPausedAt || new Date() : null;
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: { memoryPausedAt: pausedAt }
+    });
+
+    console.log(`🧠 Memory ${paused ? 'paused' : 'resumed'} for user=${userId}`);
+    return { paused, pausedAt };
+  }
+
+  /**
+   * Delete all of the user's memory: facts, summaries and stored messages
+   */
+  public async wipeAll(userId: string): Promise<{ deletedMemories: number }> {
+    const [, deleted] = await prisma.$transaction([
+      prisma.rawMessage.deleteMany({
+        where: { memory: { userId } }
+      }),
+      prisma.conversationMemory.deleteMany({
+        where: { userId }
+      })
+    ]);
+
+    console.log(`🧠 Wiped ${deleted.count} memories for user=${userId}`);
+    return { deletedMemories: deleted.count };
+  }
+
+  /**
+   * One entry per category/key across global and conversation memory,
+   * newest value wins
+   */
+  private collectFacts(
+    memories: Array<{ conversationId: string; systemMemory: Prisma.JsonValue }>,
+    cutoff: Date
+  ): RememberedFact[] {
+    const latest = new Map<string, RememberedFact>();
+
+    for (const row of memories) {
+      const memory = withinRetention(parseSystemMemory(row.systemMemory), cutoff);
+      const ownConversation = row.conversationId === CONFIG.GLOBAL_MEMORY_ID ? null : row.conversationId;
+
+      for (const category of MEMORY_CATEGORIES) {
+        for (const [key, value] of Object.entries(memory[category])) {
+          const source = memory.sources?.[sourceKey(category, key)];
+          const fact: RememberedFact = {
+            category,
+            key,
+            value,
+            conversationId: source?.conversationId ?? ownConversation,
+            sourceMessage: source?.message ?? null,
+            recordedAt: new Date(source?.recordedAt || memory.lastUpdated),
+            editedAt: source?.editedAt ? new Date(source.editedAt) : null
+          };
+
+          const existing = latest.get(sourceKey(category, key));
+          if (!existing || lastChanged(fact) > lastChanged(existing)) {
+            latest.set(sourceKey(category, key), fact);
+          }
+        }
+      }
+    }
+
+    return [...latest.values()].sort((a, b) => lastChanged(b) - lastChanged(a));
+  }
+
+  /**
+   * Updates removing category.key from conversation memories
+   * (and global memory too when includeGlobal is set)
+   */
+  private removeFromConversations(
+    memories: Array<{ id: string; conversationId: string; systemMemory: Prisma.JsonValue }>,
+    category: MemoryCategory,
+    key: string,
+    includeGlobal: boolean = false
+  ) {
+    return memories
+      .filter(m => includeGlobal || m.conversationId !== CONFIG.GLOBAL_MEMORY_ID)
+      .map(m => ({ id: m.id, memory: parseSystemMemory(m.systemMemory) }))
+      .filter(({ memory }) => key in memory[category])
+      .map(({ id, memory }) =>
+        prisma.conversationMemory.update({
+          where: { id },
+          data: { systemMemory: toJsonValue(withoutValue(memory, category, key)) }
+        })
+      );
+  }
+
   /**
    * Get memory stats for debugging/monitoring
    */
@@ -604,4 +1039,13 @@ export const memoryService = new MemoryService();
 export default MemoryService;
 
 // Export types for consumers
-export type { AddMessageInput, MemoryContext, SystemMemory };
\ No newline at end of file
+export type {
+  AddMessageInput,
+  MemoryContext,
+  SystemMemory,
+  MemoryCategory,
+  FactSource,
+  RememberedFact,
+  MemoryErrorReason,
+  MemoryChangeResult
+};
\ No newline at end of file
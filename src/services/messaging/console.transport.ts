@@ -0,0 +1,41 @@
+/**
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ * SORIVA AI - CONSOLE MESSAGING TRANSPORT
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ * Purpose: Development fallback - writes mail/SMS to the log instead of
+ *          delivering it. Verification links and OTPs are readable there,
+ *          so ./index.ts refuses it when NODE_ENV=production.
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ */
+
+import { randomUUID } from 'crypto';
+import { logger } from '@shared/utils/logger';
+import {
+  DeliveryResult,
+  MailMessage,
+  MailTransport,
+  MailTransportProvider,
+  SmsMessage,
+  SmsTransport,
+  SmsTransportProvider,
+} from './types';
+
+export class ConsoleMailTransport implements MailTransport {
+  public readonly provider: MailTransportProvider = 'console';
+
+  public async send(message: MailMessage): Promise<DeliveryResult> {
+    const messageId = randomUUID();
+    logger.info(`[Mail:console] To: ${message.to} | Subject: ${message.subject}\n${message.text}`);
+    return { messageId, provider: this.provider };
+  }
+}
+
+export class ConsoleSmsTransport implements SmsTransport {
+  public readonly provider: SmsTransportProvider = 'console';
+
+  public async send(message: SmsMessage): Promise<DeliveryResult> {
+    const messageId = randomUUID();
+    logger.info(`[SMS:console] To: ${message.to} | ${message.body}`);
+    return { messageId, provider: this.provider };
+  }
+}
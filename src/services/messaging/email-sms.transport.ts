@@ -0,0 +1,37 @@
+/**
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ * SORIVA AI - EMAIL-TO-SMS TRANSPORT
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ * Purpose: Sends an SMS as plain mail to `<digits>@SMS_EMAIL_DOMAIN`
+ *          through the mail transport. Works with carrier/aggregator
+ *          email gateways, and in development lets a local SMTP catcher
+ *          stand in for the SMS provider.
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ */
+
+import {
+  DeliveryResult,
+  MailTransport,
+  SmsMessage,
+  SmsTransport,
+  SmsTransportProvider,
+} from './types';
+
+export class EmailSmsTransport implements SmsTransport {
+  public readonly provider: SmsTransportProvider = 'smtp';
+
+  constructor(
+    private readonly mail: MailTransport,
+    private readonly domain: string
+  ) {}
+
+  public async send(message: SmsMessage): Promise<DeliveryResult> {
+    const digits = message.to.replace(/\D/g, '');
+    const result = await this.mail.send({
+      to: `${digits}@${this.domain}`,
+      subject: 'SMS',
+      text: message.body,
+    });
+    return { messageId: result.messageId, provider: this.provider };
+  }
+}
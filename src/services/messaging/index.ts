@@ -0,0 +1,114 @@
+/**
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ * SORIVA AI - MESSAGING TRANSPORTS
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ * Purpose: Transport factories + barrel export
+ * Env:
+ *   MAIL_TRANSPORT (smtp | console; default smtp when SMTP_HOST is set)
+ *   SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASS, SMTP_FROM,
+ *   SMTP_IGNORE_TLS, SMTP_TLS_REJECT_UNAUTHORIZED
+ *   SMS_TRANSPORT (twilio | smtp | console; default console)
+ *   TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_FROM_NUMBER
+ *   SMS_EMAIL_DOMAIN (smtp SMS transport)
+ * The console transports log message bodies (links, OTPs), so they are
+ * refused in production.
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ */
+
+import { ConsoleMailTransport, ConsoleSmsTransport } from './console.transport';
+import { EmailSmsTransport } from './email-sms.transport';
+import { SmtpMailTransport } from './smtp.transport';
+import { TwilioSmsTransport } from './twilio.transport';
+import { MailTransport, MailTransportProvider, SmsTransport, SmsTransportProvider } from './types';
+
+const DEFAULT_SMTP_PORT = 587;
+const DEFAULT_SENDER = 'Soriva <no-reply@soriva.ai>';
+
+function assertConsoleAllowed(kind: string, envName: string): void {
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error(
+      `${kind} transport "console" is not allowed in production - it logs message bodies. Set ${envName}`
+    );
+  }
+}
+
+export function getMailTransportProvider(): MailTransportProvider {
+  const configured = process.env.MAIL_TRANSPORT as MailTransportProvider | undefined;
+  return configured || (process.env.SMTP_HOST ? 'smtp' : 'console');
+}
+
+export function getSmsTransportProvider(): SmsTransportProvider {
+  return (process.env.SMS_TRANSPORT as SmsTransportProvider | undefined) || 'console';
+}
+
+/**
+ * Build a mail transport from env. Throws when the provider's settings are missing.
+ */
+export function createMailTransport(
+  provider: MailTransportProvider = getMailTransportProvider()
+): MailTransport {
+  switch (provider) {
+    case 'smtp': {
+      const host = process.env.SMTP_HOST;
+      if (!host) {
+        throw new Error('SMTP host not configured (SMTP_HOST)');
+      }
+      const port = parseInt(process.env.SMTP_PORT || '', 10) || DEFAULT_SMTP_PORT;
+      return new SmtpMailTransport({
+        host,
+        port,
+        secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+        user: process.env.SMTP_USER || undefined,
+        pass: process.env.SMTP_PASS || undefined,
+        from: process.env.SMTP_FROM || DEFAULT_SENDER,
+        ignoreTls: process.env.SMTP_IGNORE_TLS === 'true',
+        rejectUnauthorized: process.env.SMTP_TLS_REJECT_UNAUTHORIZED !== 'false',
+      });
+    }
+    case 'console':
+      assertConsoleAllowed('Mail', 'MAIL_TRANSPORT');
+      return new ConsoleMailTransport();
+    default:
+      throw new Error(`Unsupported mail transport: ${provider}`);
+  }
+}
+
+/**
+ * Build an SMS transport from env. The smtp provider sends through `mail`.
+ */
+export function createSmsTransport(
+  provider: SmsTransportProvider = getSmsTransportProvider(),
+  mail?: MailTransport
+): SmsTransport {
+  switch (provider) {
+    case 'twilio': {
+      const accountSid = process.env.TWILIO_ACCOUNT_SID;
+      const authToken = process.env.TWILIO_AUTH_TOKEN;
+      const from = process.env.TWILIO_FROM_NUMBER;
+      if (!accountSid || !authToken || !from) {
+        throw new Error(
+          'Twilio credentials not configured (TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_FROM_NUMBER)'
+        );
+      }
+      return new TwilioSmsTransport({ accountSid, authToken, from });
+    }
+    case 'smtp': {
+      const domain = process.env.SMS_EMAIL_DOMAIN;
+      if (!domain) {
+        throw new Error('Email-to-SMS domain not configured (SMS_EMAIL_DOMAIN)');
+      }
+      return new EmailSmsTransport(mail || createMailTransport(), domain);
+    }
+    case 'console':
+      assertConsoleAllowed('SMS', 'SMS_TRANSPORT');
+      return new ConsoleSmsTransport();
+    default:
+      throw new Error(`Unsupported SMS transport: ${provider}`);
+  }
+}
+
+export { ConsoleMailTransport, ConsoleSmsTransport } from './console.transport';
+export { EmailSmsTransport } from './email-sms.transport';
+export { SmtpMailTransport } from './smtp.transport';
+export { TwilioSmsTransport } from './twilio.transport';
+export * from './types';
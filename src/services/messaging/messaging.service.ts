@@ -0,0 +1,80 @@
+/**
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ * SORIVA AI - MESSAGING SERVICE
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ * Purpose: Single entry point for outgoing mail and SMS
+ * Transports are built from env on first use (see ./index.ts) and can be
+ * swapped with setTransports() - e.g. a capturing transport in scripts.
+ * The server builds them at startup via getStatus(), so a bad setup
+ * (e.g. console transport in production) fails before serving traffic.
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ */
+
+import { logger } from '@shared/utils/logger';
+import { createMailTransport, createSmsTransport } from './index';
+import { DeliveryResult, MailMessage, MailTransport, SmsMessage, SmsTransport } from './types';
+
+export class MessagingService {
+  private static instance: MessagingService;
+
+  private mail: MailTransport | null = null;
+  private sms: SmsTransport | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): MessagingService {
+    if (!MessagingService.instance) {
+      MessagingService.instance = new MessagingService();
+    }
+    return MessagingService.instance;
+  }
+
+  public async sendMail(message: MailMessage): Promise<DeliveryResult> {
+    const result = await this.getMailTransport().send(message);
+    logger.info(`[Messaging] Mail sent via ${result.provider} to ${this.maskEmail(message.to)}`);
+    return result;
+  }
+
+  public async sendSms(message: SmsMessage): Promise<DeliveryResult> {
+    const result = await this.getSmsTransport().send(message);
+    logger.info(`[Messaging] SMS sent via ${result.provider} to ${this.maskPhone(message.to)}`);
+    return result;
+  }
+
+  public setTransports(transports: { mail?: MailTransport; sms?: SmsTransport }): void {
+    if (transports.mail) this.mail = transports.mail;
+    if (transports.sms) this.sms = transports.sms;
+  }
+
+  public getStatus(): { mail: string; sms: string } {
+    return {
+      mail: this.getMailTransport().provider,
+      sms: this.getSmsTransport().provider,
+    };
+  }
+
+  private getMailTransport(): MailTransport {
+    if (!this.mail) {
+      this.mail = createMailTransport();
+    }
+    return this.mail;
+  }
+
+  private getSmsTransport(): SmsTransport {
+    if (!this.sms) {
+      this.sms = createSmsTransport(undefined, this.getMailTransport());
+    }
+    return this.sms;
+  }
+
+  private maskEmail(email: string): string {
+    const [local, domain] = email.split('@');
+    return domain ? `${local.slice(0, 2)}***@${domain}` : '***';
+  }
+
+  private maskPhone(phone: string): string {
+    return phone.length > 4 ? `***${phone.slice(-4)}` : '***';
+  }
+}
+
+export default MessagingService.getInstance();
@@ -0,0 +1,326 @@
+/**
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ * SORIVA AI - SMTP MAIL TRANSPORT
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ * Purpose: Minimal SMTP client (one connection per message)
+ * Protocol: EHLO → STARTTLS when advertised → AUTH PLAIN/LOGIN when
+ *           credentials are set → MAIL FROM / RCPT TO / DATA → QUIT
+ * Port 465 uses implicit TLS (SMTP_SECURE=true).
+ * Local:    docker run -p 1025:1025 -p 8025:8025 axllent/mailpit
+ *           (SMTP_HOST=localhost SMTP_PORT=1025, inbox on :8025)
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ */
+
+import * as net from 'net';
+import * as tls from 'tls';
+import { randomBytes } from 'crypto';
+import { hostname } from 'os';
+import { DeliveryResult, MailMessage, MailTransport, MailTransportProvider } from './types';
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// CONSTANTS
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const DEFAULT_TIMEOUT_MS = 15000;
+const BASE64_LINE_LENGTH = 76;
+
+export interface SmtpConnection {
+  host: string;
+  port: number;
+  /** Implicit TLS from the first byte (port 465) */
+  secure: boolean;
+  user?: string;
+  pass?: string;
+  /** Default sender, e.g. "Soriva <no-reply@soriva.ai>" */
+  from: string;
+  /** Stay on plaintext even if the server offers STARTTLS */
+  ignoreTls?: boolean;
+  rejectUnauthorized?: boolean;
+  timeoutMs?: number;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// MESSAGE FORMATTING
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+function assertHeaderSafe(name: string, value: string): void {
+  if (/[\r\n]/.test(value)) {
+    throw new Error(`Invalid ${name}: line breaks are not allowed`);
+  }
+}
+
+/**
+ * Bare address for the envelope: "Name <a@b.c>" → a@b.c
+ */
+function envelopeAddress(address: string): string {
+  const match = address.match(/<([^>]+)>/);
+  return (match ? match[1] : address).trim();
+}
+
+/**
+ * RFC 2047 encoded-word for non-ASCII header values
+ */
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+function encodeBody(content: string): string {
+  const encoded = Buffer.from(content, 'utf8').toString('base64');
+  return encoded.match(new RegExp(`.{1,${BASE64_LINE_LENGTH}}`, 'g'))?.join('\r\n') ?? '';
+}
+
+function textPart(content: string, subtype: 'plain' | 'html'): string[] {
+  return [
+    `Content-Type: text/${subtype}; charset=utf-8`,
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBody(content),
+  ];
+}
+
+function buildMessage(message: MailMessage, from: string, messageId: string): string {
+  const headers = [
+    `From: ${from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: ${messageId}`,
+    'MIME-Version: 1.0',
+  ];
+
+  let lines: string[];
+  if (message.html) {
+    const boundary = `soriva-${randomBytes(12).toString('hex')}`;
+    lines = [
+      ...headers,
+      `Content-Type: multipart/alternative; boundary="${boundary}"`,
+      '',
+      `--${boundary}`,
+      ...textPart(message.text, 'plain'),
+      `--${boundary}`,
+      ...textPart(message.html, 'html'),
+      `--${boundary}--`,
+    ];
+  } else {
+    lines = [...headers, ...textPart(message.text, 'plain')];
+  }
+
+  // Dot-stuffing (RFC 5321 §4.5.2)
+  return lines.join('\r\n').replace(/^\./gm, '..');
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// SMTP SESSION
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+//
+// Line-oriented reader over one socket. Replies are queued until read;
+// a socket error or close rejects whoever is waiting.
+
+class SmtpSession {
+  private socket!: net.Socket;
+  private buffer = '';
+  private replyLines: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiters: Array<{ resolve: (reply: SmtpReply) => void; reject: (err: Error) => void }> =
+    [];
+  private failure: Error | null = null;
+
+  constructor(
+    socket: net.Socket,
+    private readonly timeoutMs: number
+  ) {
+    this.attach(socket);
+  }
+
+  public async command(line: string, expected: number[], label?: string): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(expected, label || line.split(' ')[0]);
+  }
+
+  public async expect(expected: number[], label: string): Promise<SmtpReply> {
+    const reply = await this.readReply();
+    if (!expected.includes(reply.code)) {
+      throw new Error(`SMTP ${label} failed: ${reply.code} ${reply.lines.join(' ')}`);
+    }
+    return reply;
+  }
+
+  /**
+   * Hand the plain socket to TLS; writes are buffered until the handshake ends
+   */
+  public upgrade(servername: string, rejectUnauthorized: boolean): void {
+    const plain = this.socket;
+    this.detach(plain);
+    this.attach(tls.connect({ socket: plain, servername, rejectUnauthorized }));
+  }
+
+  public close(): void {
+    this.detach(this.socket);
+    this.socket.destroy();
+  }
+
+  private attach(socket: net.Socket): void {
+    this.socket = socket;
+    socket.setEncoding('utf8');
+    socket.setTimeout(this.timeoutMs);
+    socket.on('data', this.onData);
+    socket.on('error', this.onError);
+    socket.on('close', this.onClose);
+    socket.on('timeout', this.onTimeout);
+  }
+
+  private detach(socket: net.Socket): void {
+    socket.off('data', this.onData);
+    socket.off('error', this.onError);
+    socket.off('close', this.onClose);
+    socket.off('timeout', this.onTimeout);
+  }
+
+  private readReply(): Promise<SmtpReply> {
+    const queued = this.replies.shift();
+    if (queued) return Promise.resolve(queued);
+    if (this.failure) return Promise.reject(this.failure);
+
+    return new Promise((resolve, reject) => {
+      this.waiters.push({ resolve, reject });
+    });
+  }
+
+  private onData = (chunk: string): void => {
+    this.buffer += chunk;
+
+    let index: number;
+    while ((index = this.buffer.indexOf('\n')) !== -1) {
+      const line = this.buffer.slice(0, index).replace(/\r$/, '');
+      this.buffer = this.buffer.slice(index + 1);
+
+      this.replyLines.push(line.slice(4));
+      // "250-..." continues a multiline reply, "250 ..." ends it
+      if (line.charAt(3) !== '-') {
+        const reply = { code: parseInt(line.slice(0, 3), 10), lines: this.replyLines };
+        this.replyLines = [];
+
+        const waiter = this.waiters.shift();
+        if (waiter) waiter.resolve(reply);
+        else this.replies.push(reply);
+      }
+    }
+  };
+
+  private onError = (err: Error): void => this.fail(err);
+
+  private onClose = (): void => this.fail(new Error('SMTP connection closed'));
+
+  private onTimeout = (): void => {
+    this.fail(new Error(`SMTP timeout after ${this.timeoutMs}ms`));
+    this.socket.destroy();
+  };
+
+  private fail(err: Error): void {
+    if (this.failure) return;
+    this.failure = err;
+    for (const waiter of this.waiters.splice(0)) {
+      waiter.reject(err);
+    }
+  }
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// SMTP TRANSPORT
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export class SmtpMailTransport implements MailTransport {
+  public readonly provider: MailTransportProvider = 'smtp';
+
+  constructor(private readonly connection: SmtpConnection) {}
+
+  public async send(message: MailMessage): Promise<DeliveryResult> {
+    const from = message.from || this.connection.from;
+    assertHeaderSafe('sender', from);
+    assertHeaderSafe('recipient', message.to);
+    assertHeaderSafe('subject', message.subject);
+
+    const domain = envelopeAddress(from).split('@')[1] || 'localhost';
+    const messageId = `<${randomBytes(16).toString('hex')}@${domain}>`;
+
+    const session = this.open();
+    try {
+      await session.expect([220], 'greeting');
+      const capabilities = await this.hello(session);
+
+      await this.authenticate(session, capabilities);
+
+      await session.command(`MAIL FROM:<${envelopeAddress(from)}>`, [250], 'MAIL FROM');
+      await session.command(`RCPT TO:<${envelopeAddress(message.to)}>`, [250, 251], 'RCPT TO');
+      await session.command('DATA', [354]);
+      await session.command(`${buildMessage(message, from, messageId)}\r\n.`, [250], 'message');
+      await session.command('QUIT', [221]).catch(() => undefined);
+
+      return { messageId, provider: this.provider };
+    } finally {
+      session.close();
+    }
+  }
+
+  private open(): SmtpSession {
+    const { host, port, secure, rejectUnauthorized = true, timeoutMs } = this.connection;
+    const socket = secure
+      ? tls.connect({ host, port, servername: host, rejectUnauthorized })
+      : net.connect({ host, port });
+
+    return new SmtpSession(socket, timeoutMs || DEFAULT_TIMEOUT_MS);
+  }
+
+  /**
+   * EHLO (upgrading with STARTTLS when offered); returns the capability lines
+   */
+  private async hello(session: SmtpSession): Promise<string[]> {
+    const name = hostname().replace(/[^a-zA-Z0-9.-]/g, '') || 'localhost';
+    const reply = await session.command(`EHLO ${name}`, [250]);
+    const capabilities = reply.lines.slice(1).map((line) => line.toUpperCase());
+
+    const { secure, ignoreTls, host, rejectUnauthorized = true } = this.connection;
+    if (secure || ignoreTls || !capabilities.includes('STARTTLS')) {
+      return capabilities;
+    }
+
+    await session.command('STARTTLS', [220]);
+    session.upgrade(host, rejectUnauthorized);
+
+    const secured = await session.command(`EHLO ${name}`, [250]);
+    return secured.lines.slice(1).map((line) => line.toUpperCase());
+  }
+
+  private async authenticate(session: SmtpSession, capabilities: string[]): Promise<void> {
+    const { user, pass } = this.connection;
+    if (!user) return;
+
+    const auth = capabilities.find((line) => line.startsWith('AUTH'));
+    if (!auth) {
+      throw new Error('SMTP server does not offer authentication');
+    }
+    const mechanisms = auth.split(/[\s=]+/).slice(1);
+
+    if (mechanisms.includes('PLAIN')) {
+      const credentials = Buffer.from(`\0${user}\0${pass || ''}`, 'utf8').toString('base64');
+      await session.command(`AUTH PLAIN ${credentials}`, [235], 'AUTH');
+      return;
+    }
+
+    if (mechanisms.includes('LOGIN')) {
+      await session.command('AUTH LOGIN', [334], 'AUTH');
+      await session.command(Buffer.from(user, 'utf8').toString('base64'), [334], 'AUTH');
+      await session.command(Buffer.from(pass || '', 'utf8').toString('base64'), [235], 'AUTH');
+      return;
+    }
+
+    throw new Error(`No supported SMTP auth mechanism (server offers: ${mechanisms.join(', ')})`);
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ * SORIVA AI - TWILIO SMS TRANSPORT
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ * Purpose: SMS delivery over the Twilio Messages REST API
+ * Sender:  TWILIO_FROM_NUMBER, or a Messaging Service SID (MG...) for
+ *          sender pools / DLT-registered senders in India
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ */
+
+import axios, { AxiosInstance } from 'axios';
+import { DeliveryResult, SmsMessage, SmsTransport, SmsTransportProvider } from './types';
+
+const TWILIO_API_URL = 'https://api.twilio.com/2010-04-01';
+const REQUEST_TIMEOUT_MS = 15000;
+
+export interface TwilioConnection {
+  accountSid: string;
+  authToken: string;
+  /** E.164 number or Messaging Service SID */
+  from: string;
+}
+
+export class TwilioSmsTransport implements SmsTransport {
+  public readonly provider: SmsTransportProvider = 'twilio';
+
+  private client: AxiosInstance;
+
+  constructor(private readonly connection: TwilioConnection) {
+    this.client = axios.create({
+      baseURL: `${TWILIO_API_URL}/Accounts/${connection.accountSid}`,
+      auth: { username: connection.accountSid, password: connection.authToken },
+      timeout: REQUEST_TIMEOUT_MS,
+    });
+  }
+
+  public async send(message: SmsMessage): Promise<DeliveryResult> {
+    const form = new URLSearchParams({ To: message.to, Body: message.body });
+    if (this.connection.from.startsWith('MG')) {
+      form.set('MessagingServiceSid', this.connection.from);
+    } else {
+      form.set('From', this.connection.from);
+    }
+
+    try {
+      const response = await this.client.post('/Messages.json', form.toString(), {
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      });
+      return { messageId: response.data?.sid, provider: this.provider };
+    } catch (error: any) {
+      const detail = error.response?.data?.message || error.message;
+      throw new Error(`Twilio SMS failed: ${detail}`);
+    }
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ * SORIVA AI - MESSAGING TRANSPORT TYPES
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ * Purpose: Common contract for outgoing mail and SMS transports
+ * Used by: MessagingService (delivery), VerificationService (auth flows)
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ */
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// PROVIDERS
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export type MailTransportProvider = 'smtp' | 'console';
+
+/**
+ * smtp = email-to-SMS gateway (`<digits>@SMS_EMAIL_DOMAIN`); with a local
+ * SMTP catcher this makes OTPs visible in the same inbox as mail
+ */
+export type SmsTransportProvider = 'twilio' | 'smtp' | 'console';
+
+export const MAIL_TRANSPORT_PROVIDERS: MailTransportProvider[] = ['smtp', 'console'];
+
+export const SMS_TRANSPORT_PROVIDERS: SmsTransportProvider[] = ['twilio', 'smtp', 'console'];
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// MESSAGES
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+  /** Defaults to the transport's configured sender */
+  from?: string;
+}
+
+export interface SmsMessage {
+  /** E.164, e.g. +919876543210 */
+  to: string;
+  body: string;
+}
+
+export interface DeliveryResult {
+  messageId?: string;
+  provider: string;
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// TRANSPORT CONTRACTS
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * send() throws on delivery failure; callers decide whether that is fatal
+ */
+export interface MailTransport {
+  readonly provider: MailTransportProvider;
+  send(message: MailMessage): Promise<DeliveryResult>;
+}
+
+export interface SmsTransport {
+  readonly provider: SmsTransportProvider;
+  send(message: SmsMessage): Promise<DeliveryResult>;
+}
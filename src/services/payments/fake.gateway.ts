@@ -0,0 +1,94 @@
+/**
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ * SORIVA AI - FAKE PAYMENT GATEWAY
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ * Purpose: Local development and tests - no network. Behaves like
+ *          Razorpay: checkout signature = HMAC("order_id|payment_id"),
+ *          webhooks signed with x-fake-signature = HMAC(raw body).
+ *          signPayment()/signWebhook() produce valid signatures, so a
+ *          test can play the client and the gateway.
+ * Webhook body: PaymentWebhookEvent fields as JSON
+ *          ({ id, type, orderId, paymentId, amount, ... })
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ */
+
+import { randomUUID } from 'crypto';
+import { logger } from '@shared/utils/logger';
+import { getHeader, hmacSha256Hex, safeEqualHex } from './signature';
+import {
+  CancelSubscriptionOptions,
+  CreateOrderInput,
+  GatewayOrder,
+  PaymentConfirmation,
+  PaymentGateway,
+  PaymentGatewayProvider,
+  PaymentVerification,
+  PaymentWebhookEvent,
+  WebhookHeaders,
+} from './types';
+
+export class FakePaymentGateway implements PaymentGateway {
+  public readonly provider: PaymentGatewayProvider = 'fake';
+
+  constructor(private readonly secret: string) {}
+
+  public async createOrder(input: CreateOrderInput): Promise<GatewayOrder> {
+    const orderId = `fake_order_${randomUUID()}`;
+    logger.info(`[Payments:fake] Order ${orderId} | ${input.amount} ${input.currency}`);
+
+    return {
+      provider: this.provider,
+      orderId,
+      amount: input.amount,
+      currency: input.currency,
+      checkout: { orderId, keyId: 'fake' },
+    };
+  }
+
+  public async verifyPayment(confirmation: PaymentConfirmation): Promise<PaymentVerification> {
+    if (!confirmation.paymentId || !confirmation.signature) {
+      return { verified: false, reason: 'Payment id and signature are required' };
+    }
+
+    const expected = this.signPayment(confirmation.orderId, confirmation.paymentId);
+    return safeEqualHex(expected, confirmation.signature)
+      ? { verified: true, paymentId: confirmation.paymentId }
+      : { verified: false, reason: 'Signature mismatch' };
+  }
+
+  public async cancelSubscription(
+    subscriptionId: string,
+    options: CancelSubscriptionOptions
+  ): Promise<void> {
+    logger.info(
+      `[Payments:fake] Subscription ${subscriptionId} cancelled ${options.atPeriodEnd ? 'at period end' : 'now'}`
+    );
+  }
+
+  public async resumeSubscription(subscriptionId: string): Promise<void> {
+    logger.info(`[Payments:fake] Subscription ${subscriptionId} resumed`);
+  }
+
+  public parseWebhook(rawBody: Buffer, headers: WebhookHeaders): PaymentWebhookEvent | null {
+    if (!safeEqualHex(this.signWebhook(rawBody), getHeader(headers, 'x-fake-signature'))) {
+      return null;
+    }
+
+    const body = JSON.parse(rawBody.toString('utf8'));
+    return {
+      ...body,
+      provider: this.provider,
+      id: body.id || randomUUID(),
+      rawType: body.type,
+      periodEnd: body.periodEnd ? new Date(body.periodEnd) : undefined,
+    };
+  }
+
+  public signPayment(orderId: string, paymentId: string): string {
+    return hmacSha256Hex(this.secret, `${orderId}|${paymentId}`);
+  }
+
+  public signWebhook(rawBody: string | Buffer): string {
+    return hmacSha256Hex(this.secret, rawBody);
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ * SORIVA AI - PAYMENT GATEWAYS
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ * Purpose: Gateway factory + barrel export
+ * Routing: Region IN → razorpay, Region INTL → stripe;
+ *          PAYMENT_GATEWAY (razorpay | stripe | fake) overrides both
+ * Env:
+ *   RAZORPAY_KEY_ID, RAZORPAY_KEY_SECRET, RAZORPAY_WEBHOOK_SECRET
+ *   STRIPE_SECRET_KEY, STRIPE_PUBLISHABLE_KEY, STRIPE_WEBHOOK_SECRET
+ *   FAKE_PAYMENT_SECRET (fake gateway; refused in production)
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ */
+
+import { Region } from '@prisma/client';
+import { FakePaymentGateway } from './fake.gateway';
+import { RazorpayGateway } from './razorpay.gateway';
+import { StripeGateway } from './stripe.gateway';
+import { PAYMENT_GATEWAY_PROVIDERS, PaymentGateway, PaymentGatewayProvider } from './types';
+
+const DEFAULT_FAKE_SECRET = 'fake_payment_secret';
+
+const REGION_GATEWAYS: Record<Region, PaymentGatewayProvider> = {
+  [Region.IN]: 'razorpay',
+  [Region.INTL]: 'stripe',
+};
+
+export function isPaymentGatewayProvider(value: string): value is PaymentGatewayProvider {
+  return PAYMENT_GATEWAY_PROVIDERS.includes(value as PaymentGatewayProvider);
+}
+
+export function getPaymentGatewayProvider(region: Region): PaymentGatewayProvider {
+  const configured = process.env.PAYMENT_GATEWAY as PaymentGatewayProvider | undefined;
+  return configured || REGION_GATEWAYS[region];
+}
+
+/**
+ * Build a gateway from env. Throws when the provider's settings are missing.
+ */
+export function createPaymentGateway(provider: PaymentGatewayProvider): PaymentGateway {
+  switch (provider) {
+    case 'razorpay': {
+      const keyId = process.env.RAZORPAY_KEY_ID;
+      const keySecret = process.env.RAZORPAY_KEY_SECRET;
+      const webhookSecret = process.env.RAZORPAY_WEBHOOK_SECRET;
+      if (!keyId || !keySecret || !webhookSecret) {
+        throw new Error(
+          'Razorpay credentials not configured (RAZORPAY_KEY_ID, RAZORPAY_KEY_SECRET, RAZORPAY_WEBHOOK_SECRET)'
+        );
+      }
+      return new RazorpayGateway({ keyId, keySecret, webhookSecret });
+    }
+    case 'stripe': {
+      const secretKey = process.env.STRIPE_SECRET_KEY;
+      const webhookSecret = process.env.STRIPE_WEBHOOK_SECRET;
+      if (!secretKey || !webhookSecret) {
+        throw new Error(
+          'Stripe credentials not configured (STRIPE_SECRET_KEY, STRIPE_WEBHOOK_SECRET)'
+        );
+      }
+      return new StripeGateway({
+        secretKey,
+        webhookSecret,
+        publishableKey: process.env.STRIPE_PUBLISHABLE_KEY || undefined,
+      });
+    }
+    case 'fake':
+      if (process.env.NODE_ENV === 'production') {
+        throw new Error('The fake payment gateway cannot be used in production');
+      }
+      return new FakePaymentGateway(process.env.FAKE_PAYMENT_SECRET || DEFAULT_FAKE_SECRET);
+    default:
+      throw new Error(`Unsupported payment gateway: ${provider}`);
+  }
+}
+
+export { FakePaymentGateway } from './fake.gateway';
+export { RazorpayGateway } from './razorpay.gateway';
+export { StripeGateway } from './stripe.gateway';
+export * from './types';
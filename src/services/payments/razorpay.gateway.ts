@@ -0,0 +1,162 @@
+/**
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ * SORIVA AI - RAZORPAY GATEWAY (Region IN)
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ * Purpose: Orders over the Razorpay REST API, checkout signature check
+ *          (HMAC of "order_id|payment_id" with the key secret) and
+ *          webhooks (HMAC of the raw body with the webhook secret)
+ * Events:  payment.captured, payment.failed, refund.processed,
+ *          subscription.charged
+ * Subscriptions: cancelled now or at cycle end; Razorpay has no way to
+ *          withdraw a cancellation, so resumeSubscription() refuses
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ */
+
+import axios, { AxiosInstance } from 'axios';
+import { fromMinorUnits, getHeader, hmacSha256Hex, safeEqualHex, toMinorUnits } from './signature';
+import {
+  CancelSubscriptionOptions,
+  CreateOrderInput,
+  GatewayOrder,
+  PaymentConfirmation,
+  PaymentGateway,
+  PaymentGatewayProvider,
+  PaymentVerification,
+  PaymentWebhookEvent,
+  WebhookHeaders,
+} from './types';
+
+const RAZORPAY_API_URL = 'https://api.razorpay.com/v1';
+const REQUEST_TIMEOUT_MS = 15000;
+
+export interface RazorpayConnection {
+  keyId: string;
+  keySecret: string;
+  webhookSecret: string;
+}
+
+export class RazorpayGateway implements PaymentGateway {
+  public readonly provider: PaymentGatewayProvider = 'razorpay';
+
+  private client: AxiosInstance;
+
+  constructor(private readonly connection: RazorpayConnection) {
+    this.client = axios.create({
+      baseURL: RAZORPAY_API_URL,
+      auth: { username: connection.keyId, password: connection.keySecret },
+      timeout: REQUEST_TIMEOUT_MS,
+    });
+  }
+
+  public async createOrder(input: CreateOrderInput): Promise<GatewayOrder> {
+    try {
+      const response = await this.client.post('/orders', {
+        amount: toMinorUnits(input.amount),
+        currency: input.currency,
+        receipt: input.receipt,
+        notes: input.notes || {},
+      });
+
+      return {
+        provider: this.provider,
+        orderId: response.data.id,
+        amount: input.amount,
+        currency: input.currency,
+        checkout: { keyId: this.connection.keyId, orderId: response.data.id },
+      };
+    } catch (error: any) {
+      const detail = error.response?.data?.error?.description || error.message;
+      throw new Error(`Razorpay order failed: ${detail}`);
+    }
+  }
+
+  public async verifyPayment(confirmation: PaymentConfirmation): Promise<PaymentVerification> {
+    if (!confirmation.paymentId || !confirmation.signature) {
+      return { verified: false, reason: 'Payment id and signature are required' };
+    }
+
+    const expected = hmacSha256Hex(
+      this.connection.keySecret,
+      `${confirmation.orderId}|${confirmation.paymentId}`
+    );
+
+    return safeEqualHex(expected, confirmation.signature)
+      ? { verified: true, paymentId: confirmation.paymentId }
+      : { verified: false, reason: 'Signature mismatch' };
+  }
+
+  public async cancelSubscription(
+    subscriptionId: string,
+    options: CancelSubscriptionOptions
+  ): Promise<void> {
+    try {
+      await this.client.post(`/subscriptions/${encodeURIComponent(subscriptionId)}/cancel`, {
+        cancel_at_cycle_end: options.atPeriodEnd ? 1 : 0,
+      });
+    } catch (error: any) {
+      const detail = error.response?.data?.error?.description || error.message;
+      throw new Error(`Razorpay subscription cancel failed: ${detail}`);
+    }
+  }
+
+  public async resumeSubscription(): Promise<void> {
+    throw new Error(
+      'Razorpay subscriptions cannot be resumed once cancelled. Subscribe again when the current period ends.'
+    );
+  }
+
+  public parseWebhook(rawBody: Buffer, headers: WebhookHeaders): PaymentWebhookEvent | null {
+    const signature = getHeader(headers, 'x-razorpay-signature');
+    if (!safeEqualHex(hmacSha256Hex(this.connection.webhookSecret, rawBody), signature)) {
+      return null;
+    }
+
+    const body = JSON.parse(rawBody.toString('utf8'));
+    const payment = body.payload?.payment?.entity;
+    const event: PaymentWebhookEvent = {
+      provider: this.provider,
+      // Razorpay resends with the same event id header
+      id: getHeader(headers, 'x-razorpay-event-id') || hmacSha256Hex('razorpay', rawBody),
+      type: 'ignored',
+      rawType: body.event,
+      orderId: payment?.order_id || undefined,
+      paymentId: payment?.id,
+      amount: payment ? fromMinorUnits(payment.amount) : undefined,
+      currency: payment?.currency,
+      notes: payment?.notes && !Array.isArray(payment.notes) ? payment.notes : undefined,
+    };
+
+    switch (body.event) {
+      case 'payment.captured':
+        event.type = 'payment.captured';
+        break;
+      case 'payment.failed':
+        event.type = 'payment.failed';
+        event.failureReason = payment?.error_description || payment?.error_code;
+        break;
+      case 'refund.processed': {
+        event.type = 'payment.refunded';
+        event.refundedAmount = payment
+          ? fromMinorUnits(payment.amount_refunded)
+          : fromMinorUnits(body.payload?.refund?.entity?.amount || 0);
+        event.paymentId = payment?.id || body.payload?.refund?.entity?.payment_id;
+        break;
+      }
+      case 'subscription.charged': {
+        const subscription = body.payload?.subscription?.entity;
+        event.type = 'subscription.renewed';
+        event.subscriptionId = subscription?.id;
+        event.periodEnd = subscription?.current_end
+          ? new Date(subscription.current_end * 1000)
+          : undefined;
+        event.notes =
+          subscription?.notes && !Array.isArray(subscription.notes)
+            ? subscription.notes
+            : event.notes;
+        break;
+      }
+    }
+
+    return event;
+  }
+}
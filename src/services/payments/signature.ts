@@ -0,0 +1,42 @@
+/**
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ * SORIVA AI - PAYMENT SIGNATURE HELPERS
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ * Purpose: HMAC-SHA256 signing and constant-time comparison shared by the
+ *          gateway adapters
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { WebhookHeaders } from './types';
+
+export function hmacSha256Hex(secret: string, payload: string | Buffer): string {
+  return createHmac('sha256', secret).update(payload).digest('hex');
+}
+
+/**
+ * Constant-time comparison of two hex digests
+ */
+export function safeEqualHex(expected: string, received: string | undefined): boolean {
+  if (!received || !/^[0-9a-f]+$/i.test(received)) {
+    return false;
+  }
+
+  const a = Buffer.from(expected, 'hex');
+  const b = Buffer.from(received, 'hex');
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+export function getHeader(headers: WebhookHeaders, name: string): string | undefined {
+  const value = headers[name.toLowerCase()];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/** ₹149 → 14900 paise */
+export function toMinorUnits(amount: number): number {
+  return Math.round(amount * 100);
+}
+
+export function fromMinorUnits(amount: number): number {
+  return amount / 100;
+}
@@ -0,0 +1,212 @@
+/**
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ * SORIVA AI - STRIPE GATEWAY (Region INTL)
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ * Purpose: Orders are PaymentIntents; the client confirms them with the
+ *          returned client secret and we re-read the intent server-side
+ *          (Stripe checkout returns no signature). Webhooks carry a
+ *          Stripe-Signature header: HMAC of "<t>.<raw body>" with the
+ *          endpoint secret, rejected outside a 5 minute tolerance.
+ * Events:  payment_intent.succeeded, payment_intent.payment_failed,
+ *          charge.refunded, invoice.paid (subscription_cycle)
+ * Subscriptions: cancel_at_period_end on/off, or deleted to end now
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ */
+
+import axios, { AxiosInstance } from 'axios';
+import { fromMinorUnits, getHeader, hmacSha256Hex, safeEqualHex, toMinorUnits } from './signature';
+import {
+  CancelSubscriptionOptions,
+  CreateOrderInput,
+  GatewayOrder,
+  PaymentConfirmation,
+  PaymentGateway,
+  PaymentGatewayProvider,
+  PaymentVerification,
+  PaymentWebhookEvent,
+  WebhookHeaders,
+} from './types';
+
+const STRIPE_API_URL = 'https://api.stripe.com/v1';
+const REQUEST_TIMEOUT_MS = 15000;
+const WEBHOOK_TOLERANCE_SECONDS = 300;
+
+export interface StripeConnection {
+  secretKey: string;
+  publishableKey?: string;
+  webhookSecret: string;
+}
+
+export class StripeGateway implements PaymentGateway {
+  public readonly provider: PaymentGatewayProvider = 'stripe';
+
+  private client: AxiosInstance;
+
+  constructor(private readonly connection: StripeConnection) {
+    this.client = axios.create({
+      baseURL: STRIPE_API_URL,
+      headers: { Authorization: `Bearer ${connection.secretKey}` },
+      timeout: REQUEST_TIMEOUT_MS,
+    });
+  }
+
+  public async createOrder(input: CreateOrderInput): Promise<GatewayOrder> {
+    const form = new URLSearchParams({
+      amount: String(toMinorUnits(input.amount)),
+      currency: input.currency.toLowerCase(),
+      'automatic_payment_methods[enabled]': 'true',
+      'metadata[receipt]': input.receipt,
+    });
+    for (const [key, value] of Object.entries(input.notes || {})) {
+      form.set(`metadata[${key}]`, value);
+    }
+
+    try {
+      const response = await this.client.post('/payment_intents', form.toString(), {
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+          // A retried order request must not create a second intent
+          'Idempotency-Key': input.receipt,
+        },
+      });
+
+      const checkout: Record<string, string> = {
+        orderId: response.data.id,
+        clientSecret: response.data.client_secret,
+      };
+      if (this.connection.publishableKey) {
+        checkout.publishableKey = this.connection.publishableKey;
+      }
+
+      return {
+        provider: this.provider,
+        orderId: response.data.id,
+        amount: input.amount,
+        currency: input.currency,
+        checkout,
+      };
+    } catch (error: any) {
+      const detail = error.response?.data?.error?.message || error.message;
+      throw new Error(`Stripe order failed: ${detail}`);
+    }
+  }
+
+  public async verifyPayment(confirmation: PaymentConfirmation): Promise<PaymentVerification> {
+    let intent: any;
+    try {
+      const response = await this.client.get(
+        `/payment_intents/${encodeURIComponent(confirmation.orderId)}`
+      );
+      intent = response.data;
+    } catch (error: any) {
+      const detail = error.response?.data?.error?.message || error.message;
+      throw new Error(`Stripe payment lookup failed: ${detail}`);
+    }
+
+    if (intent.status !== 'succeeded') {
+      return { verified: false, reason: `Payment is ${intent.status}` };
+    }
+
+    return { verified: true, paymentId: intent.latest_charge || intent.id };
+  }
+
+  public async cancelSubscription(
+    subscriptionId: string,
+    options: CancelSubscriptionOptions
+  ): Promise<void> {
+    const path = `/subscriptions/${encodeURIComponent(subscriptionId)}`;
+    try {
+      if (options.atPeriodEnd) {
+        await this.client.post(path, 'cancel_at_period_end=true', {
+          headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        });
+      } else {
+        await this.client.delete(path);
+      }
+    } catch (error: any) {
+      const detail = error.response?.data?.error?.message || error.message;
+      throw new Error(`Stripe subscription cancel failed: ${detail}`);
+    }
+  }
+
+  public async resumeSubscription(subscriptionId: string): Promise<void> {
+    try {
+      await this.client.post(
+        `/subscriptions/${encodeURIComponent(subscriptionId)}`,
+        'cancel_at_period_end=false',
+        { headers: { 'Content-Type': 'application/x-www-form-urlencoded' } }
+      );
+    } catch (error: any) {
+      const detail = error.response?.data?.error?.message || error.message;
+      throw new Error(`Stripe subscription resume failed: ${detail}`);
+    }
+  }
+
+  public parseWebhook(rawBody: Buffer, headers: WebhookHeaders): PaymentWebhookEvent | null {
+    const header = getHeader(headers, 'stripe-signature') || '';
+    const parts = header.split(',').map((part) => part.split('='));
+    const timestamp = parts.find(([key]) => key === 't')?.[1];
+    const signatures = parts.filter(([key]) => key === 'v1').map(([, value]) => value);
+
+    if (!timestamp || Math.abs(Date.now() / 1000 - Number(timestamp)) > WEBHOOK_TOLERANCE_SECONDS) {
+      return null;
+    }
+
+    const expected = hmacSha256Hex(
+      this.connection.webhookSecret,
+      `${timestamp}.${rawBody.toString('utf8')}`
+    );
+    if (!signatures.some((signature) => safeEqualHex(expected, signature))) {
+      return null;
+    }
+
+    const body = JSON.parse(rawBody.toString('utf8'));
+    const object = body.data?.object || {};
+    const event: PaymentWebhookEvent = {
+      provider: this.provider,
+      id: body.id,
+      type: 'ignored',
+      rawType: body.type,
+      currency: object.currency ? String(object.currency).toUpperCase() : undefined,
+      notes: object.metadata,
+    };
+
+    switch (body.type) {
+      case 'payment_intent.succeeded':
+        event.type = 'payment.captured';
+        event.orderId = object.id;
+        event.paymentId = object.latest_charge || object.id;
+        event.amount = fromMinorUnits(object.amount_received ?? object.amount);
+        break;
+      case 'payment_intent.payment_failed':
+        event.type = 'payment.failed';
+        event.orderId = object.id;
+        event.amount = fromMinorUnits(object.amount);
+        event.failureReason = object.last_payment_error?.message;
+        break;
+      case 'charge.refunded':
+        event.type = 'payment.refunded';
+        event.orderId = object.payment_intent || undefined;
+        event.paymentId = object.id;
+        event.amount = fromMinorUnits(object.amount);
+        event.refundedAmount = fromMinorUnits(object.amount_refunded);
+        break;
+      case 'invoice.paid': {
+        // The first invoice is paid during signup; only cycles are renewals
+        if (object.billing_reason !== 'subscription_cycle' || !object.subscription) {
+          break;
+        }
+        const line = object.lines?.data?.[0];
+        event.type = 'subscription.renewed';
+        event.subscriptionId = object.subscription;
+        event.paymentId = object.payment_intent || object.id;
+        event.amount = fromMinorUnits(object.amount_paid);
+        event.periodEnd = line?.period?.end ? new Date(line.period.end * 1000) : undefined;
+        event.notes = object.subscription_details?.metadata || object.metadata;
+        break;
+      }
+    }
+
+    return event;
+  }
+}
@@ -0,0 +1,121 @@
+/**
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ * SORIVA AI - PAYMENT GATEWAY TYPES
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ * Purpose: Common contract for payment gateways (Razorpay, Stripe, fake)
+ * Used by: PaymentService (orders, confirmation, webhooks),
+ *          SubscriptionService (stopping gateway renewals)
+ * Amounts: major currency units everywhere (₹149, $4); adapters convert
+ *          to paise/cents on the wire
+ * ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+ */
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// PROVIDERS
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export type PaymentGatewayProvider = 'razorpay' | 'stripe' | 'fake';
+
+export const PAYMENT_GATEWAY_PROVIDERS: PaymentGatewayProvider[] = ['razorpay', 'stripe', 'fake'];
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// ORDERS & PAYMENTS
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export interface CreateOrderInput {
+  amount: number;
+  /** ISO code, e.g. INR, USD */
+  currency: string;
+  /** Our reference (transaction id), echoed back by the gateway */
+  receipt: string;
+  notes?: Record<string, string>;
+}
+
+export interface GatewayOrder {
+  provider: PaymentGatewayProvider;
+  orderId: string;
+  amount: number;
+  currency: string;
+  /** What the client needs to open checkout (key id, client secret, ...) */
+  checkout: Record<string, string>;
+}
+
+/**
+ * What the client sends back after checkout
+ */
+export interface PaymentConfirmation {
+  orderId: string;
+  paymentId?: string;
+  signature?: string;
+}
+
+export interface PaymentVerification {
+  verified: boolean;
+  /** Gateway payment id (Razorpay pay_..., Stripe ch_.../pi_...) */
+  paymentId?: string;
+  reason?: string;
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// WEBHOOKS
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export type PaymentWebhookEventType =
+  | 'payment.captured'
+  | 'payment.failed'
+  | 'payment.refunded'
+  | 'subscription.renewed'
+  | 'ignored';
+
+/**
+ * Gateway event normalised to what PaymentService acts on
+ */
+export interface PaymentWebhookEvent {
+  provider: PaymentGatewayProvider;
+  /** Gateway event id - the idempotency key */
+  id: string;
+  type: PaymentWebhookEventType;
+  /** Event name as sent by the gateway */
+  rawType: string;
+  orderId?: string;
+  paymentId?: string;
+  subscriptionId?: string;
+  amount?: number;
+  currency?: string;
+  /** payment.refunded: amount refunded so far */
+  refundedAmount?: number;
+  failureReason?: string;
+  /** subscription.renewed: end of the newly paid period */
+  periodEnd?: Date;
+  /** Custom notes/metadata set on the order or gateway subscription */
+  notes?: Record<string, string>;
+}
+
+export interface WebhookHeaders {
+  [name: string]: string | string[] | undefined;
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// GATEWAY CONTRACT
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export interface CancelSubscriptionOptions {
+  /** true: stop renewing after the paid period; false: end it now */
+  atPeriodEnd: boolean;
+}
+
+/**
+ * createOrder() and verifyPayment() throw on transport errors;
+ * parseWebhook() returns null when the signature does not match.
+ * cancelSubscription() / resumeSubscription() act on recurring
+ * subscriptions the gateway renews itself and throw when it refuses.
+ */
+export interface PaymentGateway {
+  readonly provider: PaymentGatewayProvider;
+  createOrder(input: CreateOrderInput): Promise<GatewayOrder>;
+  verifyPayment(confirmation: PaymentConfirmation): Promise<PaymentVerification>;
+  parseWebhook(rawBody: Buffer, headers: WebhookHeaders): PaymentWebhookEvent | null;
+  cancelSubscription(subscriptionId: string, options: CancelSubscriptionOptions): Promise<void>;
+  /** Withdraw a cancellation at period end */
+  resumeSubscription(subscriptionId: string): Promise<void>;
+}
@@ -1,5 +1,6 @@
 // src/shared/utils/jwt.util.ts
 import jwt, { SignOptions } from 'jsonwebtoken';
+import { createHmac, randomUUID } from 'crypto';
 
 // Lazy-load JWT configuration to ensure env vars are available
 const getJWTSecret = (): string => 
@@ -11,10 +12,46 @@ const getJWTExpiresIn = (): string =>
 const getJWTRefreshExpiresIn = (): string => 
   process.env.JWT_REFRESH_EXPIRES_IN || '30d';
 
+const getJWTRefreshSecret = (): string =>
+  process.env.JWT_REFRESH_SECRET || getJWTSecret();
+
+// Derived (never equal to JWT_SECRET) so a verification link can't pass as an access token
+const getVerificationSecret = (): string =>
+  process.env.VERIFICATION_TOKEN_SECRET ||
+  createHmac('sha256', getJWTSecret()).update('verification-token').digest('hex');
+
 export interface JWTPayload {
   userId: string;
   email: string;
   planType: string;
+  sessionId?: string;
+  iat?: number;
+  exp?: number;
+}
+
+export type VerificationTokenPurpose = 'email_verification' | 'password_reset';
+
+export interface VerificationTokenPayload {
+  userId: string;
+  type: VerificationTokenPurpose;
+  jti: string;
+  iat?: number;
+  exp?: number;
+}
+
+export interface MfaChallengePayload {
+  userId: string;
+  authMethod: 'email' | 'google' | 'github';
+  type: 'mfa_challenge';
+  iat?: number;
+  exp?: number;
+}
+
+export interface RefreshTokenPayload {
+  userId: string;
+  sessionId: string;
+  type: 'refresh';
+  jti?: string;
   iat?: number;
   exp?: number;
 }
@@ -37,6 +74,94 @@ export const generateRefreshToken = (payload: Omit<JWTPayload, 'iat' | 'exp'>):
   } as SignOptions);
 };
 
+/**
+ * Generate Session Refresh Token
+ * Bound to a server-side session; the random jwtid makes every rotation
+ * produce a distinct token (only its hash is stored)
+ */
+export const generateSessionRefreshToken = (userId: string, sessionId: string): string => {
+  return jwt.sign({ userId, sessionId, type: 'refresh' }, getJWTRefreshSecret(), {
+    expiresIn: getJWTRefreshExpiresIn(),
+    jwtid: randomUUID(),
+  } as SignOptions);
+};
+
+/**
+ * Verify Session Refresh Token
+ */
+export const verifyRefreshToken = (token: string): RefreshTokenPayload | null => {
+  try {
+    const decoded = jwt.verify(token, getJWTRefreshSecret()) as RefreshTokenPayload;
+    return decoded.type === 'refresh' && decoded.sessionId ? decoded : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+/**
+ * Generate Verification Token
+ * Email verification / password reset link token. jwtid is the id of the
+ * verification_tokens row that makes it single-use.
+ */
+export const generateVerificationToken = (
+  userId: string,
+  purpose: VerificationTokenPurpose,
+  tokenId: string,
+  expiresInSeconds: number
+): string => {
+  return jwt.sign({ userId, type: purpose }, getVerificationSecret(), {
+    expiresIn: expiresInSeconds,
+    jwtid: tokenId,
+  } as SignOptions);
+};
+
+/**
+ * Verify Verification Token
+ * ignoreExpiration lets the caller report "expired" from its own record
+ */
+export const verifyVerificationToken = (
+  token: string,
+  purpose: VerificationTokenPurpose,
+  options: { ignoreExpiration?: boolean } = {}
+): VerificationTokenPayload | null => {
+  try {
+    const decoded = jwt.verify(token, getVerificationSecret(), {
+      ignoreExpiration: options.ignoreExpiration,
+    }) as VerificationTokenPayload;
+    return decoded.type === purpose && decoded.jti ? decoded : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+/**
+ * Generate MFA Challenge Token
+ * Issued after the first factor (password/OAuth) succeeds for an account
+ * with 2FA; exchanged for a session together with a TOTP/recovery code
+ */
+export const generateMfaChallengeToken = (
+  userId: string,
+  authMethod: MfaChallengePayload['authMethod'],
+  expiresInSeconds: number
+): string => {
+  return jwt.sign({ userId, authMethod, type: 'mfa_challenge' }, getVerificationSecret(), {
+    expiresIn: expiresInSeconds,
+    jwtid: randomUUID(),
+  } as SignOptions);
+};
+
+/**
+ * Verify MFA Challenge Token
+ */
+export const verifyMfaChallengeToken = (token: string): MfaChallengePayload | null => {
+  try {
+    const decoded = jwt.verify(token, getVerificationSecret()) as MfaChallengePayload;
+    return decoded.type === 'mfa_challenge' && decoded.userId ? decoded : null;
+  } catch (error) {
+    return null;
+  }
+};
+
 /**
  * Verify Token
  */
@@ -47,6 +47,14 @@ export const validateQueryRequest = (body: any): void => {
       throw new Error('threshold must be a number between 0 and 1');
     }
   }
+
+  if (body.generateAnswer !== undefined && typeof body.generateAnswer !== 'boolean') {
+    throw new Error('generateAnswer must be a boolean');
+  }
+
+  if (body.includeAllVersions !== undefined && typeof body.includeAllVersions !== 'boolean') {
+    throw new Error('includeAllVersions must be a boolean');
+  }
 };
 
 export const validatePagination = (query: any): { limit: number; offset: number } => {
@@ -60,6 +68,31 @@ export const validatePagination = (query: any): { limit: number; offset: number
   return { limit, offset };
 };
 
+export const validateVersionCompareQuery = (
+  query: any
+): { fromVersion?: number; toVersion?: number; summarize: boolean; question?: string } => {
+  const parseVersion = (value: any, name: string): number | undefined => {
+    if (value === undefined) return undefined;
+    const version = parseInt(value, 10);
+    if (isNaN(version) || version < 1) {
+      throw new Error(`${name} must be a positive integer`);
+    }
+    return version;
+  };
+
+  const question = typeof query.question === 'string' ? query.question.trim() : undefined;
+  if (question && question.length > 1000) {
+    throw new Error('question must be at most 1000 characters');
+  }
+
+  return {
+    fromVersion: parseVersion(query.from, 'from'),
+    toVersion: parseVersion(query.to, 'to'),
+    summarize: query.summarize === 'true',
+    question: question || undefined,
+  };
+};
+
 export const validateUUID = (id: string): void => {
   const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
   if (!uuidRegex.test(id)) {
@@ -72,6 +105,7 @@ export const RequestValidator = {
   validateUploadRequest,
   validateQueryRequest,
   validatePagination,
+  validateVersionCompareQuery,
   validateUUID,
 } as const;
 
@@ -0,0 +1,123 @@
+import zlib from 'zlib';
+
+/**
+ * ==========================================
+ * ZIP UTILITY CLASS
+ * ==========================================
+ * Builds standard ZIP archives (PKZIP 2.0, DEFLATE) in memory
+ * using only Node's zlib - no native or third-party dependencies.
+ * Last Updated: October 18, 2026
+ */
+
+export interface ZipEntry {
+  name: string;
+  data: Buffer | string;
+  modifiedAt?: Date;
+}
+
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export class ZipUtil {
+  /**
+   * Create a ZIP archive from a list of entries
+   * Entry names may contain "/" to create folders inside the archive
+   */
+  public createZip(entries: ZipEntry[]): Buffer {
+    const localParts: Buffer[] = [];
+    const centralParts: Buffer[] = [];
+    let offset = 0;
+
+    for (const entry of entries) {
+      const name = Buffer.from(entry.name.replace(/\\/g, '/'), 'utf8');
+      const data = Buffer.isBuffer(entry.data) ? entry.data : Buffer.from(entry.data, 'utf8');
+      const compressed = zlib.deflateRawSync(data);
+      const crc = this.crc32(data);
+      const { time, date } = this.toDosDateTime(entry.modifiedAt || new Date());
+
+      const localHeader = Buffer.alloc(30);
+      localHeader.writeUInt32LE(0x04034b50, 0); // Local file header signature
+      localHeader.writeUInt16LE(20, 4); // Version needed to extract
+      localHeader.writeUInt16LE(0x0800, 6); // Flags: UTF-8 file names
+      localHeader.writeUInt16LE(8, 8); // Compression: DEFLATE
+      localHeader.writeUInt16LE(time, 10);
+      localHeader.writeUInt16LE(date, 12);
+      localHeader.writeUInt32LE(crc, 14);
+      localHeader.writeUInt32LE(compressed.length, 18);
+      localHeader.writeUInt32LE(data.length, 22);
+      localHeader.writeUInt16LE(name.length, 26);
+      localHeader.writeUInt16LE(0, 28); // Extra field length
+
+      const centralHeader = Buffer.alloc(46);
+      centralHeader.writeUInt32LE(0x02014b50, 0); // Central directory signature
+      centralHeader.writeUInt16LE(20, 4); // Version made by
+      centralHeader.writeUInt16LE(20, 6); // Version needed to extract
+      centralHeader.writeUInt16LE(0x0800, 8);
+      centralHeader.writeUInt16LE(8, 10);
+      centralHeader.writeUInt16LE(time, 12);
+      centralHeader.writeUInt16LE(date, 14);
+      centralHeader.writeUInt32LE(crc, 16);
+      centralHeader.writeUInt32LE(compressed.length, 20);
+      centralHeader.writeUInt32LE(data.length, 24);
+      centralHeader.writeUInt16LE(name.length, 28);
+      centralHeader.writeUInt16LE(0, 30); // Extra field length
+      centralHeader.writeUInt16LE(0, 32); // Comment length
+      centralHeader.writeUInt16LE(0, 34); // Disk number
+      centralHeader.writeUInt16LE(0, 36); // Internal attributes
+      centralHeader.writeUInt32LE(0, 38); // External attributes
+      centralHeader.writeUInt32LE(offset, 42); // Offset of local header
+
+      localParts.push(localHeader, name, compressed);
+      centralParts.push(centralHeader, name);
+      offset += localHeader.length + name.length + compressed.length;
+    }
+
+    const centralDirectory = Buffer.concat(centralParts);
+
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0); // End of central directory signature
+    end.writeUInt16LE(0, 4);
+    end.writeUInt16LE(0, 6);
+    end.writeUInt16LE(entries.length, 8);
+    end.writeUInt16LE(entries.length, 10);
+    end.writeUInt32LE(centralDirectory.length, 12);
+    end.writeUInt32LE(offset, 16);
+    end.writeUInt16LE(0, 20);
+
+    return Buffer.concat([...localParts, centralDirectory, end]);
+  }
+
+  /**
+   * CRC-32 checksum as required by the ZIP format
+   */
+  private crc32(data: Buffer): number {
+    let crc = 0xffffffff;
+    for (let i = 0; i < data.length; i++) {
+      crc = CRC32_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+  }
+
+  /**
+   * Convert a date to MS-DOS time/date fields (local time, 2-second precision)
+   */
+  private toDosDateTime(value: Date): { time: number; date: number } {
+    const year = Math.max(value.getFullYear(), 1980);
+    return {
+      time: (value.getHours() << 11) | (value.getMinutes() << 5) | Math.floor(value.getSeconds() / 2),
+      date: ((year - 1980) << 9) | ((value.getMonth() + 1) << 5) | value.getDate(),
+    };
+  }
+}
+
+// Export singleton instance
+export default new ZipUtil();
@@ -21,6 +21,12 @@ import documentRoutes from '../modules/document/document.routes';
 
 // ✅ Import audit routes (admin analytics)
 import auditRoutes from '../modules/admin/audit.routes';
+import killSwitchRoutes from '../modules/admin/kill-switch.routes';
+import aiMetricsRoutes from '../modules/admin/ai-metrics.routes';
+import securityRoutes from '../modules/admin/security.routes';
+import ragConfigRoutes from '../modules/admin/rag-config.routes';
+import jobsRoutes from '../modules/admin/jobs.routes';
+import couponsRoutes from '../modules/admin/coupons.routes';
 import monitoringRoutes from '../routes/monitoring.routes';
 import { getSecurityHeadersConfig } from '../config/security-headers.config';
 import voiceRoutes from '../core/voice/voice.routes';
@@ -98,7 +104,17 @@ class MiddlewareManager {
    * Setup body parsers
    */
   public setupParsers(): void {
-    this.app.use(express.json({ limit: '10mb' }));
+    this.app.use(
+      express.json({
+        limit: '10mb',
+        // Payment webhooks are signed over the exact bytes received
+        verify: (req: Request, _res, buf) => {
+          if (req.url?.startsWith('/api/billing/payments/webhooks/')) {
+            req.rawBody = Buffer.from(buf);
+          }
+        },
+      })
+    );
     this.app.use(express.urlencoded({ extended: true, limit: '10mb' }));
   }
 
@@ -206,6 +222,24 @@ class RouteManager {
     // ✅ Audit Analytics routes (admin)
     this.app.use('/api/admin/audit', auditRoutes);
 
+    // ✅ Kill switch routes (admin runtime AI controls)
+    this.app.use('/api/admin/kill-switches', killSwitchRoutes);
+
+    // ✅ AI metrics routes (admin, persisted observability aggregates)
+    this.app.use('/api/admin/ai-metrics', aiMetricsRoutes);
+
+    // ✅ Security pattern routes (admin, versioned + hot reload)
+    this.app.use('/api/admin/security', securityRoutes);
+
+    // ✅ RAG config routes (admin, global/plan/user overrides + rollback)
+    this.app.use('/api/admin/rag-config', ragConfigRoutes);
+
+    // ✅ Background job routes (admin, BullMQ schedules + run history)
+    this.app.use('/api/admin/jobs', jobsRoutes);
+
+    // ✅ Coupon routes (admin, promo codes + redemption stats)
+    this.app.use('/api/admin/coupons', couponsRoutes);
+
     // ✅ Templates routes (Conversation Templates)
     this.app.use('/api/templates', templatesRoutes);
 
@@ -237,6 +271,12 @@ class RouteManager {
     console.log('🔍 Seek routes registered at /api/seek');
     console.log('📄 Document routes registered at /api/documents');
     console.log('📊 Audit routes registered at /api/admin/audit');
+    console.log('🛑 Kill switch routes registered at /api/admin/kill-switches');
+    console.log('📈 AI metrics routes registered at /api/admin/ai-metrics');
+    console.log('🛡️ Security routes registered at /api/admin/security');
+    console.log('🧩 RAG config routes registered at /api/admin/rag-config');
+    console.log('⏱️ Job routes registered at /api/admin/jobs');
+    console.log('🏷️ Coupon routes registered at /api/admin/coupons');
     console.log('🏥 Health routes registered at /health');
     console.log('💱 Currency routes registered at /api/currency');
     console.log('🏥 Health module routes registered at /api/health');